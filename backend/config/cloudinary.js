@@ -123,6 +123,13 @@ export const uploadPresets = {
     crop: 'limit',
     gravity: 'center',
   },
+  disputeEvidence: {
+    folder: 'dispute-evidence',
+    width: 1600,
+    height: 1600,
+    crop: 'limit',
+    gravity: 'center',
+  },
 };
 
 export default {
@@ -0,0 +1,61 @@
+import multer from 'multer';
+
+// Use memory storage (files go straight to Cloudinary)
+const storage = multer.memoryStorage();
+
+// Evidence can be photos, short videos or documents such as receipts
+const fileFilter = (req, file, cb) => {
+  const allowedMimeTypes = [
+    'image/jpeg',
+    'image/jpg',
+    'image/png',
+    'image/webp',
+    'video/mp4',
+    'video/quicktime',
+    'application/pdf'
+  ];
+
+  if (allowedMimeTypes.includes(file.mimetype)) {
+    cb(null, true);
+  } else {
+    cb(new Error('Invalid file type. Only JPEG, PNG, WebP, MP4, MOV and PDF files are allowed'), false);
+  }
+};
+
+// Up to 5 evidence files per message
+export const uploadDisputeEvidence = multer({
+  storage,
+  fileFilter,
+  limits: {
+    fileSize: 10 * 1024 * 1024, // 10MB max file size per file
+    files: 5
+  }
+}).array('media', 5);
+
+// Error handling middleware for multer
+export const handleMulterError = (err, req, res, next) => {
+  if (err instanceof multer.MulterError) {
+    if (err.code === 'LIMIT_FILE_SIZE') {
+      return res.status(400).json({
+        success: false,
+        message: 'File size too large. Maximum size is 10MB',
+      });
+    }
+    if (err.code === 'LIMIT_FILE_COUNT' || err.code === 'LIMIT_UNEXPECTED_FILE') {
+      return res.status(400).json({
+        success: false,
+        message: 'Too many files or unexpected field name. Use "media" for up to 5 files',
+      });
+    }
+    return res.status(400).json({
+      success: false,
+      message: err.message,
+    });
+  } else if (err) {
+    return res.status(400).json({
+      success: false,
+      message: err.message,
+    });
+  }
+  next();
+};
@@ -395,6 +395,86 @@ class RedisCache {
     }
   }
 
+  /**
+   * Acquire a distributed lock (SET NX PX)
+   * @param {string} key - Lock key
+   * @param {string} owner - Unique id of the lock holder
+   * @param {number} ttlMs - Lock lifetime in milliseconds
+   * @returns {Promise<boolean>} - True if the lock was acquired
+   */
+  async acquireLock(key, owner, ttlMs) {
+    try {
+      if (!this.isConnected) {
+        return false;
+      }
+
+      const result = await this.client.set(key, owner, { NX: true, PX: ttlMs });
+      return result === 'OK';
+    } catch (error) {
+      console.error(`Error acquiring lock ${key}:`, error);
+      return false;
+    }
+  }
+
+  /**
+   * Extend a lock only if it is still held by the given owner
+   * @param {string} key - Lock key
+   * @param {string} owner - Unique id of the lock holder
+   * @param {number} ttlMs - New lock lifetime in milliseconds
+   * @returns {Promise<boolean>} - True if the lock was extended
+   */
+  async renewLock(key, owner, ttlMs) {
+    try {
+      if (!this.isConnected) {
+        return false;
+      }
+
+      const script = `
+        if redis.call('GET', KEYS[1]) == ARGV[1] then
+          return redis.call('PEXPIRE', KEYS[1], ARGV[2])
+        end
+        return 0
+      `;
+      const result = await this.client.eval(script, {
+        keys: [key],
+        arguments: [owner, String(ttlMs)]
+      });
+      return result === 1;
+    } catch (error) {
+      console.error(`Error renewing lock ${key}:`, error);
+      return false;
+    }
+  }
+
+  /**
+   * Release a lock only if it is still held by the given owner
+   * @param {string} key - Lock key
+   * @param {string} owner - Unique id of the lock holder
+   * @returns {Promise<boolean>} - True if the lock was released
+   */
+  async releaseLock(key, owner) {
+    try {
+      if (!this.isConnected) {
+        return false;
+      }
+
+      const script = `
+        if redis.call('GET', KEYS[1]) == ARGV[1] then
+          return redis.call('DEL', KEYS[1])
+        end
+        return 0
+      `;
+      const result = await this.client.eval(script, {
+        keys: [key],
+        arguments: [owner]
+      });
+      return result === 1;
+    } catch (error) {
+      console.error(`Error releasing lock ${key}:`, error);
+      return false;
+    }
+  }
+
   /**
    * Get cache statistics
    * @returns {Promise<Object>}
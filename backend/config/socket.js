@@ -3,6 +3,7 @@ import { Server } from 'socket.io';
 import jwt from 'jsonwebtoken';
 import prisma from '../config/prisma.js'
 import { setSocketIO } from '../services/socketService.js';
+import { isTokenRevoked, sessionRoom } from '../utils/tokenUtils.js';
 
 // Store active users and their socket IDs
 const activeUsers = new Map(); // userId -> Set of socketIds
@@ -45,6 +46,10 @@ export const initializeSocket = (server) => {
       }
       
       console.log('Extracted userId:', userId);
+
+      if (await isTokenRevoked(decoded)) {
+        return next(new Error('Authentication error: Token has been revoked'));
+      }
       
       // Fetch user from database
       const user = await prisma.user.findUnique({
@@ -67,6 +72,7 @@ export const initializeSocket = (server) => {
       const fullName = `${user.firstName} ${user.lastName}`.trim();
 
       socket.userId = user.id;
+      socket.sessionId = decoded.sessionId;
       socket.user = {
         id: user.id,
         name: fullName,
@@ -97,6 +103,11 @@ export const initializeSocket = (server) => {
     }
     activeUsers.get(socket.userId).add(socket.id);
 
+    // Lets a session revocation drop this connection
+    if (socket.sessionId) {
+      socket.join(sessionRoom(socket.sessionId));
+    }
+
     // Emit user online status to all clients
     io.emit('user-status', {
       userId: socket.userId,
@@ -1,4 +1,5 @@
 import prisma from "../config/prisma.js"
+import { revokeUserSessions } from "../utils/tokenUtils.js";
 
 
 export const getAllUsers = async (req, res) => {
@@ -141,6 +142,9 @@ export const suspendUser = async (req, res) => {
       data: { isSuspended: true },
     });
 
+    // Sign the user out everywhere
+    await revokeUserSessions(userId, 'REVOKED');
+
     res.status(200).json({
       success: true,
       message: 'User suspended successfully',
@@ -1,5 +1,6 @@
 import prisma from '../config/prisma.js';
 import { cache } from '../config/redis.js';
+import { OPEN_DISPUTE_STATUSES } from '../utils/disputeUtils.js';
 
 const CACHE_TTL = {
   DASHBOARD_SUMMARY: 300,
@@ -161,7 +162,7 @@ export const getAdminDashboardSummary = async (req, res) => {
         where: { status: 'pending' }
       }),
       prisma.dispute.count({
-        where: { status: 'PENDING' }
+        where: { status: { in: OPEN_DISPUTE_STATUSES } }
       }),
       prisma.review.count(),
       prisma.review.aggregate({
@@ -250,24 +251,47 @@ export const getSalesAndRevenueAnalytics = async (req, res) => {
       });
     }
 
-    const orders = await prisma.order.findMany({
-      where: {
-        paymentStatus: 'SUCCESS',
-        createdAt: {
-          gte: startDate,
-          lte: endDate
+    const [orders, collectedFees] = await Promise.all([
+      prisma.order.findMany({
+        where: {
+          paymentStatus: 'SUCCESS',
+          createdAt: {
+            gte: startDate,
+            lte: endDate
+          }
+        },
+        select: {
+          totalAmount: true,
+          createdAt: true,
+          payment: {
+            select: {
+              platformFee: true,
+              commissionAmount: true,
+              fixedFee: true,
+              processingFee: true
+            }
+          }
+        },
+        orderBy: {
+          createdAt: 'asc'
         }
-      },
-      select: {
-        totalAmount: true,
-        createdAt: true
-      },
-      orderBy: {
-        createdAt: 'asc'
-      }
-    });
+      }),
+      // Fees actually kept out of escrows paid out in the period
+      prisma.escrow.aggregate({
+        where: {
+          releaseStatus: 'RELEASED',
+          releasedAt: {
+            gte: startDate,
+            lte: endDate
+          }
+        },
+        _sum: { platformFee: true }
+      })
+    ]);
 
     const salesByDate = {};
+    const feeTotals = { commission: 0, fixedFees: 0, processingFees: 0 };
+
     for (const order of orders) {
       const dateKey = order.createdAt.toISOString().split('T')[0];
       
@@ -275,18 +299,25 @@ export const getSalesAndRevenueAnalytics = async (req, res) => {
         salesByDate[dateKey] = {
           date: dateKey,
           revenue: 0,
+          platformRevenue: 0,
           orders: 0
         };
       }
       
       salesByDate[dateKey].revenue += Number(order.totalAmount);
+      salesByDate[dateKey].platformRevenue += order.payment?.platformFee || 0;
       salesByDate[dateKey].orders += 1;
+
+      feeTotals.commission += order.payment?.commissionAmount || 0;
+      feeTotals.fixedFees += order.payment?.fixedFee || 0;
+      feeTotals.processingFees += order.payment?.processingFee || 0;
     }
 
     const result = Object.values(salesByDate)
       .map(day => ({
         ...day,
         revenue: parseFloat(day.revenue.toFixed(2)),
+        platformRevenue: parseFloat(day.platformRevenue.toFixed(2)),
         averageOrderValue: parseFloat((day.revenue / day.orders).toFixed(2))
       }))
       .sort((a, b) => new Date(a.date) - new Date(b.date));
@@ -296,12 +327,19 @@ export const getSalesAndRevenueAnalytics = async (req, res) => {
       totalRevenue: parseFloat(result.reduce((sum, day) => sum + day.revenue, 0).toFixed(2)),
       totalOrders: result.reduce((sum, day) => sum + day.orders, 0),
       averageOrderValue: 0,
-      daysWithSales: result.length
+      daysWithSales: result.length,
+      platformRevenue: parseFloat(result.reduce((sum, day) => sum + day.platformRevenue, 0).toFixed(2)),
+      commission: parseFloat(feeTotals.commission.toFixed(2)),
+      fixedFees: parseFloat(feeTotals.fixedFees.toFixed(2)),
+      processingFees: parseFloat(feeTotals.processingFees.toFixed(2)),
+      collectedFees: parseFloat((collectedFees._sum.platformFee || 0).toFixed(2)),
+      sellerEarnings: 0
     };
     
     totals.averageOrderValue = totals.totalOrders > 0
       ? parseFloat((totals.totalRevenue / totals.totalOrders).toFixed(2))
       : 0;
+    totals.sellerEarnings = parseFloat((totals.totalRevenue - totals.platformRevenue).toFixed(2));
 
     const responseData = {
       period,
@@ -668,16 +706,26 @@ export const getPendingDisputes = async (req, res) => {
       });
     }
 
-    const [disputes, total] = await Promise.all([
+    const openWhere = { status: { in: OPEN_DISPUTE_STATUSES } };
+    const now = new Date();
+
+    const [disputes, total, breached, escalated, overdue, recommendedRefunds, byStatus] = await Promise.all([
       prisma.dispute.findMany({
-        where: { status: 'PENDING' },
+        where: openWhere,
         include: {
           order: {
             select: {
               id: true,
               totalAmount: true,
               status: true,
-              createdAt: true
+              createdAt: true,
+              store: {
+                select: {
+                  id: true,
+                  name: true,
+                  url: true
+                }
+              }
             }
           },
           buyer: {
@@ -686,31 +734,37 @@ export const getPendingDisputes = async (req, res) => {
               firstName: true,
               email: true
             }
-          },
-          sellerId: {
-            select: {
-              id: true,
-              firstName: true,
-              email: true
-            }
-          },
-          store: {
-            select: {
-              id: true,
-              name: true,
-              url: true
-            }
           }
         },
-        orderBy: { createdAt: 'asc' },
+        // Oldest deadlines first so the most urgent disputes top the queue
+        orderBy: [{ deadlineAt: 'asc' }, { createdAt: 'asc' }],
         skip,
         take: limit
       }),
-      prisma.dispute.count({ where: { status: 'PENDING' } })
+      prisma.dispute.count({ where: openWhere }),
+      prisma.dispute.count({ where: { ...openWhere, slaBreachCount: { gt: 0 } } }),
+      prisma.dispute.count({ where: { status: 'ESCALATED' } }),
+      // Past their deadline but not yet picked up by the SLA job
+      prisma.dispute.count({ where: { ...openWhere, deadlineAt: { lte: now } } }),
+      prisma.dispute.count({ where: { ...openWhere, recommendedOutcome: 'REFUND_BUYER' } }),
+      prisma.dispute.groupBy({
+        by: ['status'],
+        where: openWhere,
+        _count: { _all: true }
+      })
     ]);
 
+    const sla = {
+      breached,
+      escalated,
+      overdue,
+      recommendedRefunds,
+      byStatus: Object.fromEntries(byStatus.map(group => [group.status, group._count._all]))
+    };
+
     const responseData = {
       disputes,
+      sla,
       pagination: {
         page,
         limit,
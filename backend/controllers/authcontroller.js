@@ -1,8 +1,19 @@
 import crypto from 'crypto';
 import nodemailer from 'nodemailer';
 import bcrypt from 'bcryptjs';
-import jwt from 'jsonwebtoken';
 import prisma from '../config/prisma.js';
+import { cache } from '../config/redis.js';
+import { sendEmailNotification } from '../utils/sendEmailNotification.js';
+import {
+  ACCESS_TOKEN_TTL_SECONDS,
+  createSession,
+  rotateRefreshToken,
+  findSessionByRefreshToken,
+  revokeSession,
+  revokeUserSessions,
+  revokeTokensIssuedBefore,
+} from '../utils/tokenUtils.js';
+import { applySignupRules } from '../utils/loyaltyUtils.js';
 
 // Configure email transporter
 const transporter = nodemailer.createTransport({
@@ -14,7 +25,7 @@ const transporter = nodemailer.createTransport({
 });
 
 export const signup = async (req, res) => {
-  const { email, phone, firstName, lastName, password, role = 'BUYER' } = req.body;
+  const { email, phone, firstName, lastName, password, role = 'BUYER', referralCode } = req.body;
 
   try {
     // Validate required fields
@@ -70,6 +81,22 @@ export const signup = async (req, res) => {
       });
     }
 
+    // Resolve who referred this user, if a code was given
+    let referrer = null;
+    if (referralCode) {
+      referrer = await prisma.user.findUnique({
+        where: { referralCode: String(referralCode).trim().toUpperCase() },
+        select: { id: true },
+      });
+
+      if (!referrer) {
+        return res.status(400).json({
+          success: false,
+          message: 'Invalid referral code',
+        });
+      }
+    }
+
     // Hash the password
     const hashedPassword = await bcrypt.hash(password, 10);
 
@@ -78,19 +105,27 @@ export const signup = async (req, res) => {
     const verificationExpiry = new Date(Date.now() + 10 * 60 * 1000); // 10 minutes from now
 
     // Create user with PENDING verification status
-    const user = await prisma.user.create({
-      data: {
-        email: email.toLowerCase(),
-        phone,
-        firstName,
-        lastName,
-        role,
-        password: hashedPassword,
-        verificationStatus: 'PENDING',
-        verificationCode,
-        verificationExpiry,
-        points: role === 'BUYER' ? 50 : 0, // Award 50 points to buyers
-      },
+    const user = await prisma.$transaction(async (tx) => {
+      const createdUser = await tx.user.create({
+        data: {
+          email: email.toLowerCase(),
+          phone,
+          firstName,
+          lastName,
+          role,
+          password: hashedPassword,
+          verificationStatus: 'PENDING',
+          verificationCode,
+          verificationExpiry,
+          referredById: referrer?.id || null,
+        },
+      });
+
+      // Award the signup bonus to buyers through the points ledger
+      if (role !== 'BUYER') return createdUser;
+
+      const bonus = await applySignupRules(tx, createdUser.id);
+      return bonus ? { ...createdUser, points: bonus.balanceAfter } : createdUser;
     });
 
     // Send verification email
@@ -119,7 +154,7 @@ export const signup = async (req, res) => {
     await transporter.sendMail(mailOptions);
 
     // Return success response without sensitive data
-    const { password: _, verificationCode: __, verificationExpiry: ___, ...userWithoutSensitiveData } = user;
+    const { password: _, verificationCode: __, verificationExpiry: ___, passwordResetCode: ____, passwordResetExpiry: _____, ...userWithoutSensitiveData } = user;
     
     res.status(201).json({
       success: true,
@@ -340,18 +375,12 @@ export const login = async (req, res) => {
       });
     }
 
-    // Generate JWT token
-    const token = jwt.sign(
-      {
-        userId: user.id,
-        email: user.email,
-        role: user.role,
-      },
-      process.env.JWT_SECRET,
-      {
-        expiresIn: '7d', // Token expires in 7 days
-      }
-    );
+    // Start a session: short-lived access token plus a rotating refresh token
+    const { accessToken, refreshToken, session } = await createSession(user, {
+      deviceName: req.body.deviceName,
+      userAgent: req.headers['user-agent'],
+      ipAddress: req.ip,
+    });
 
     // Update last login timestamp (optional)
     await prisma.user.update({
@@ -362,12 +391,15 @@ export const login = async (req, res) => {
     });
 
     // Remove sensitive data from response
-    const { password: _, verificationCode: __, verificationExpiry: ___, ...userWithoutSensitiveData } = user;
+    const { password: _, verificationCode: __, verificationExpiry: ___, passwordResetCode: ____, passwordResetExpiry: _____, ...userWithoutSensitiveData } = user;
 
     res.status(200).json({
       success: true,
       message: 'Login successful',
-      token,
+      token: accessToken,
+      refreshToken,
+      expiresIn: ACCESS_TOKEN_TTL_SECONDS,
+      sessionId: session.id,
       user: userWithoutSensitiveData,
     });
 
@@ -381,12 +413,58 @@ export const login = async (req, res) => {
   }
 };
 
-// Optional: Logout endpoint (for token blacklisting if needed)
+// Exchange a refresh token for a new access/refresh pair
+export const refreshAccessToken = async (req, res) => {
+  const { refreshToken } = req.body;
+
+  try {
+    if (!refreshToken) {
+      return res.status(400).json({
+        success: false,
+        message: 'Refresh token is required',
+      });
+    }
+
+    const result = await rotateRefreshToken(refreshToken, {
+      userAgent: req.headers['user-agent'],
+      ipAddress: req.ip,
+    });
+
+    if (!result.success) {
+      return res.status(result.status).json({
+        success: false,
+        message: result.message,
+      });
+    }
+
+    res.status(200).json({
+      success: true,
+      token: result.accessToken,
+      refreshToken: result.refreshToken,
+      expiresIn: ACCESS_TOKEN_TTL_SECONDS,
+    });
+
+  } catch (error) {
+    console.error('Refresh token error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+};
+
+// Logout: end the session the refresh token belongs to
 export const logout = async (req, res) => {
+  const { refreshToken } = req.body || {};
+
   try {
-    // If you're using token blacklisting, add the token to blacklist here
-    // For now, we'll just send a success response
-    // Client should remove the token from storage
+    if (refreshToken) {
+      const session = await findSessionByRefreshToken(refreshToken);
+      if (session) {
+        await revokeSession(session.id, 'LOGOUT');
+      }
+    }
 
     res.status(200).json({
       success: true,
@@ -402,6 +480,104 @@ export const logout = async (req, res) => {
   }
 };
 
+// List the devices the user is signed in on
+export const getActiveSessions = async (req, res) => {
+  const { userId, sessionId } = req.user;
+
+  try {
+    const sessions = await prisma.session.findMany({
+      where: {
+        userId,
+        revokedAt: null,
+        expiresAt: { gt: new Date() },
+      },
+      select: {
+        id: true,
+        deviceName: true,
+        userAgent: true,
+        ipAddress: true,
+        lastUsedAt: true,
+        createdAt: true,
+        expiresAt: true,
+      },
+      orderBy: { lastUsedAt: 'desc' },
+    });
+
+    res.status(200).json({
+      success: true,
+      sessions: sessions.map(session => ({
+        ...session,
+        isCurrent: session.id === sessionId,
+      })),
+    });
+
+  } catch (error) {
+    console.error('Get active sessions error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+};
+
+// Sign a single device out
+export const revokeUserSession = async (req, res) => {
+  const { userId } = req.user;
+  const { sessionId } = req.params;
+
+  try {
+    const session = await prisma.session.findUnique({
+      where: { id: sessionId },
+    });
+
+    if (!session || session.userId !== userId) {
+      return res.status(404).json({
+        success: false,
+        message: 'Session not found',
+      });
+    }
+
+    await revokeSession(session.id, 'REVOKED');
+
+    res.status(200).json({
+      success: true,
+      message: 'Session revoked successfully',
+    });
+
+  } catch (error) {
+    console.error('Revoke session error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+};
+
+// Sign out every device except the one making the request
+export const revokeOtherSessions = async (req, res) => {
+  const { userId, sessionId } = req.user;
+
+  try {
+    const revokedCount = await revokeUserSessions(userId, 'REVOKED', sessionId);
+
+    res.status(200).json({
+      success: true,
+      message: `${revokedCount} session(s) revoked`,
+      revokedCount,
+    });
+
+  } catch (error) {
+    console.error('Revoke other sessions error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+};
+
 // Optional: Get current user profile
 export const getCurrentUser = async (req, res) => {
   try {
@@ -420,7 +596,7 @@ export const getCurrentUser = async (req, res) => {
     }
 
     // Remove sensitive data
-    const { password: _, verificationCode: __, verificationExpiry: ___, ...userWithoutSensitiveData } = user;
+    const { password: _, verificationCode: __, verificationExpiry: ___, passwordResetCode: ____, passwordResetExpiry: _____, ...userWithoutSensitiveData } = user;
 
     res.status(200).json({
       success: true,
@@ -642,4 +818,205 @@ export const cancelAccountDeletion = async (req, res) => {
       error: process.env.NODE_ENV === 'development' ? error.message : undefined,
     });
   }
-};
\ No newline at end of file
+};
+
+// Password reset limits (tracked in Redis)
+const RESET_CODE_EXPIRY_MINUTES = 15;
+const MAX_RESET_REQUESTS = 3; // per email per window
+const MAX_RESET_ATTEMPTS = 5; // wrong codes before the code is discarded
+const RESET_WINDOW_SECONDS = 15 * 60;
+
+// Request a password reset code
+export const requestPasswordReset = async (req, res) => {
+  const { email } = req.body;
+
+  try {
+    if (!email) {
+      return res.status(400).json({
+        success: false,
+        message: 'Email is required',
+      });
+    }
+
+    const normalizedEmail = email.toLowerCase();
+
+    const requestKey = `password-reset:requests:${normalizedEmail}`;
+    const requestCount = await cache.incr(requestKey);
+    if (requestCount === 1) {
+      await cache.expire(requestKey, RESET_WINDOW_SECONDS);
+    }
+
+    if (requestCount > MAX_RESET_REQUESTS) {
+      return res.status(429).json({
+        success: false,
+        message: 'Too many reset requests. Please try again in 15 minutes.',
+      });
+    }
+
+    // Same response whether or not the account exists, so emails can't be probed
+    const genericResponse = {
+      success: true,
+      message: 'If an account exists for this email, a reset code has been sent.',
+    };
+
+    const user = await prisma.user.findUnique({
+      where: { email: normalizedEmail },
+    });
+
+    if (!user) {
+      return res.status(200).json(genericResponse);
+    }
+
+    // Generate 6-digit reset code
+    const resetCode = Math.floor(100000 + Math.random() * 900000).toString();
+    const resetExpiry = new Date(Date.now() + RESET_CODE_EXPIRY_MINUTES * 60 * 1000);
+
+    await prisma.user.update({
+      where: { id: user.id },
+      data: {
+        passwordResetCode: resetCode,
+        passwordResetExpiry: resetExpiry,
+      },
+    });
+
+    // A fresh code gets a fresh set of attempts
+    await cache.del(`password-reset:attempts:${normalizedEmail}`);
+
+    await sendEmailNotification({
+      to: user.email,
+      toName: user.firstName,
+      subject: 'Your Password Reset Code',
+      template: 'password_reset_code',
+      templateData: {
+        code: resetCode,
+        expiryMinutes: RESET_CODE_EXPIRY_MINUTES,
+      },
+    });
+
+    res.status(200).json(genericResponse);
+
+  } catch (error) {
+    console.error('Request password reset error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+};
+
+// Confirm a password reset with the emailed code
+export const resetPassword = async (req, res) => {
+  const { email, code, newPassword } = req.body;
+
+  try {
+    if (!email || !code || !newPassword) {
+      return res.status(400).json({
+        success: false,
+        message: 'Email, code and new password are required',
+      });
+    }
+
+    // Reset codes are six digits; clients may send them as a number
+    const resetCode = String(code).trim();
+    if (!/^\d{6}$/.test(resetCode)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Reset code must be 6 digits',
+      });
+    }
+
+    if (typeof newPassword !== 'string' || newPassword.length < 6) {
+      return res.status(400).json({
+        success: false,
+        message: 'Password must be at least 6 characters',
+      });
+    }
+
+    const normalizedEmail = String(email).toLowerCase();
+    const attemptsKey = `password-reset:attempts:${normalizedEmail}`;
+
+    const attempts = (await cache.get(attemptsKey)) || 0;
+    if (attempts >= MAX_RESET_ATTEMPTS) {
+      return res.status(429).json({
+        success: false,
+        message: 'Too many incorrect attempts. Please request a new code.',
+      });
+    }
+
+    const user = await prisma.user.findFirst({
+      where: {
+        email: normalizedEmail,
+        passwordResetCode: resetCode,
+        passwordResetExpiry: {
+          gte: new Date(), // Not expired
+        },
+      },
+    });
+
+    if (!user) {
+      const failedAttempts = await cache.incr(attemptsKey);
+      if (failedAttempts === 1) {
+        await cache.expire(attemptsKey, RESET_WINDOW_SECONDS);
+      }
+
+      // Out of attempts: throw the code away so it can't be guessed later
+      if (failedAttempts >= MAX_RESET_ATTEMPTS) {
+        await prisma.user.updateMany({
+          where: { email: normalizedEmail },
+          data: {
+            passwordResetCode: null,
+            passwordResetExpiry: null,
+          },
+        });
+      }
+
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid or expired reset code',
+      });
+    }
+
+    const hashedPassword = await bcrypt.hash(newPassword, 10);
+    const passwordChangedAt = new Date();
+
+    await prisma.user.update({
+      where: { id: user.id },
+      data: {
+        password: hashedPassword,
+        passwordResetCode: null,
+        passwordResetExpiry: null,
+        passwordChangedAt,
+      },
+    });
+
+    // Sign out every existing session
+    await revokeTokensIssuedBefore(user.id, passwordChangedAt);
+    await revokeUserSessions(user.id, 'PASSWORD_RESET');
+    await cache.del(attemptsKey);
+
+    await sendEmailNotification({
+      to: user.email,
+      toName: user.firstName,
+      subject: 'Your Password Was Changed',
+      template: 'generic',
+      templateData: {
+        title: 'Password Changed',
+        message: 'Your Zuba password was just reset and you have been signed out of all devices. If this wasn\'t you, contact support immediately.',
+      },
+    });
+
+    res.status(200).json({
+      success: true,
+      message: 'Password reset successfully. Please log in with your new password.',
+    });
+
+  } catch (error) {
+    console.error('Reset password error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+};
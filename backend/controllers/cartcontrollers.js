@@ -1,5 +1,7 @@
 import prisma from '../config/prisma.js';
 import { cache } from '../config/redis.js';
+import { describeVariant } from '../utils/pricingUtils.js';
+import { recordProductEvent } from '../utils/trendingUtils.js';
 
 
 export const getUserCart = async (req, res) => {
@@ -38,6 +40,17 @@ export const getUserCart = async (req, res) => {
                   }
                 }
               }
+            },
+            variant: {
+              select: {
+                id: true,
+                sku: true,
+                size: true,
+                color: true,
+                price: true,
+                stock: true,
+                isActive: true
+              }
             }
           }
         }
@@ -60,14 +73,18 @@ export const getUserCart = async (req, res) => {
     let totalItems = 0;
     let totalValue = 0.0;
     const cartItemsWithDetails = cart.items.map(item => {
-      const itemTotal = item.product.price * item.quantity;
+      const price = item.variant?.price ?? item.product.price;
+      const itemTotal = price * item.quantity;
       totalItems += item.quantity;
       totalValue += itemTotal;
       return {
         id: item.id,
         productId: item.productId,
+        variantId: item.variantId,
         quantity: item.quantity,
+        price,
         product: item.product, // This now includes store and storeId
+        variant: item.variant,
         total: itemTotal
       };
     });
@@ -100,7 +117,7 @@ export const getUserCart = async (req, res) => {
 export const addItemToCart = async (req, res) => {
   try {
     const userId = req.user.userId;
-    const { productId, quantity = 1 } = req.body;
+    const { productId, variantId, quantity = 1 } = req.body;
 
     if (!productId || quantity <= 0) {
       return res.status(400).json({
@@ -110,7 +127,12 @@ export const addItemToCart = async (req, res) => {
     }
 
     const product = await prisma.product.findUnique({
-      where: { id: productId, isActive: true }
+      where: { id: productId, isActive: true },
+      include: {
+        variants: {
+          where: { isActive: true }
+        }
+      }
     });
 
     if (!product) {
@@ -120,10 +142,30 @@ export const addItemToCart = async (req, res) => {
       });
     }
 
-    if (product.stock < quantity) {
+    // Products sold in sizes/colors are added to the cart as a specific variant
+    let variant = null;
+    if (variantId) {
+      variant = product.variants.find(candidate => candidate.id === variantId);
+      if (!variant) {
+        return res.status(404).json({
+          success: false,
+          message: 'The selected option is no longer available.'
+        });
+      }
+    } else if (product.variants.length > 0) {
+      return res.status(400).json({
+        success: false,
+        message: `Please choose a size or color for "${product.name}".`
+      });
+    }
+
+    const available = variant ? variant.stock : product.stock;
+    const itemName = variant ? `${product.name} (${describeVariant(variant)})` : product.name;
+
+    if (available < quantity) {
       return res.status(400).json({
         success: false,
-        message: `Insufficient stock for product "${product.name}". Requested: ${quantity}, Available: ${product.stock}`
+        message: `Insufficient stock for product "${itemName}". Requested: ${quantity}, Available: ${available}`
       });
     }
 
@@ -139,21 +181,20 @@ export const addItemToCart = async (req, res) => {
       });
     }
 
-    let cartItem = await prisma.cartItem.findUnique({
+    let cartItem = await prisma.cartItem.findFirst({
       where: {
-        cartId_productId: {
-          cartId: cart.id,
-          productId
-        }
+        cartId: cart.id,
+        productId,
+        variantId: variant ? variant.id : null
       }
     });
 
     if (cartItem) {
       const newQuantity = cartItem.quantity + quantity;
-      if (product.stock < newQuantity) {
+      if (available < newQuantity) {
         return res.status(400).json({
           success: false,
-          message: `Insufficient stock for product "${product.name}". Requested total in cart: ${newQuantity}, Available: ${product.stock}`
+          message: `Insufficient stock for product "${itemName}". Requested total in cart: ${newQuantity}, Available: ${available}`
         });
       }
       cartItem = await prisma.cartItem.update({
@@ -165,11 +206,20 @@ export const addItemToCart = async (req, res) => {
         data: {
           cartId: cart.id,
           productId,
+          variantId: variant ? variant.id : null,
           quantity
         }
       });
     }
 
+    await recordProductEvent(prisma, {
+      type: 'ADD_TO_CART',
+      productId,
+      storeId: product.storeId,
+      userId,
+      quantity
+    });
+
     await cache.del(`cart:user:${userId}`);
 
     res.status(200).json({
@@ -211,6 +261,9 @@ export const updateCartItemQuantity = async (req, res) => {
       include: {
         product: {
           select: { stock: true, name: true }
+        },
+        variant: {
+          select: { stock: true, size: true, color: true, isActive: true }
         }
       }
     });
@@ -222,10 +275,14 @@ export const updateCartItemQuantity = async (req, res) => {
       });
     }
 
-    if (quantity > cartItem.product.stock) {
+    const available = cartItem.variant
+      ? (cartItem.variant.isActive ? cartItem.variant.stock : 0)
+      : cartItem.product.stock;
+
+    if (quantity > available) {
       return res.status(400).json({
         success: false,
-        message: `Insufficient stock for product "${cartItem.product.name}". Requested: ${quantity}, Available: ${cartItem.product.stock}`
+        message: `Insufficient stock for product "${cartItem.product.name}". Requested: ${quantity}, Available: ${available}`
       });
     }
 
@@ -0,0 +1,221 @@
+// controllers/commissioncontroller.js
+import prisma from '../config/prisma.js';
+import {
+  getCommissionSettings,
+  invalidateCommissionCache,
+  normalizeCategory
+} from '../utils/commissionUtils.js';
+
+// Parse a commission percentage; undefined means it wasn't a number between 0 and 100
+const parseRate = (value) => {
+  const rate = parseFloat(value);
+  return rate >= 0 && rate <= 100 ? rate : undefined;
+};
+
+export const getCommissionConfig = async (req, res) => {
+  try {
+    const [settings, categories, storeOverrides] = await Promise.all([
+      getCommissionSettings(),
+      prisma.categoryCommission.findMany({
+        orderBy: { category: 'asc' }
+      }),
+      prisma.store.findMany({
+        where: { commissionRate: { not: null } },
+        select: { id: true, name: true, category: true, commissionRate: true },
+        orderBy: { name: 'asc' }
+      })
+    ]);
+
+    res.status(200).json({
+      success: true,
+      data: { settings, categories, storeOverrides }
+    });
+  } catch (error) {
+    console.error('Error fetching commission config:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+      error: error.message
+    });
+  }
+};
+
+export const updateCommissionSettings = async (req, res) => {
+  try {
+    const adminId = req.user.userId;
+    const { defaultRate, fixedFeePerOrder, processingFeeRate } = req.body;
+    const data = { updatedBy: adminId };
+
+    if (defaultRate !== undefined) {
+      data.defaultRate = parseRate(defaultRate);
+      if (data.defaultRate === undefined) {
+        return res.status(400).json({
+          success: false,
+          message: 'defaultRate must be a percentage between 0 and 100.'
+        });
+      }
+    }
+
+    if (processingFeeRate !== undefined) {
+      data.processingFeeRate = parseRate(processingFeeRate);
+      if (data.processingFeeRate === undefined) {
+        return res.status(400).json({
+          success: false,
+          message: 'processingFeeRate must be a percentage between 0 and 100.'
+        });
+      }
+    }
+
+    if (fixedFeePerOrder !== undefined) {
+      data.fixedFeePerOrder = parseFloat(fixedFeePerOrder);
+      if (!(data.fixedFeePerOrder >= 0)) {
+        return res.status(400).json({
+          success: false,
+          message: 'fixedFeePerOrder must be 0 or more.'
+        });
+      }
+    }
+
+    const settings = await prisma.commissionSettings.upsert({
+      where: { id: 'default' },
+      update: data,
+      create: { id: 'default', ...data }
+    });
+
+    await invalidateCommissionCache();
+
+    res.status(200).json({
+      success: true,
+      message: 'Commission settings updated successfully. New rates apply to payments created from now on.',
+      data: settings
+    });
+  } catch (error) {
+    console.error('Error updating commission settings:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+      error: error.message
+    });
+  }
+};
+
+export const setCategoryCommission = async (req, res) => {
+  try {
+    const adminId = req.user.userId;
+    const category = normalizeCategory(req.params.category);
+    const rate = parseRate(req.body.rate);
+
+    if (!category) {
+      return res.status(400).json({
+        success: false,
+        message: 'Category is required.'
+      });
+    }
+
+    if (rate === undefined) {
+      return res.status(400).json({
+        success: false,
+        message: 'rate must be a percentage between 0 and 100.'
+      });
+    }
+
+    const categoryCommission = await prisma.categoryCommission.upsert({
+      where: { category },
+      update: { rate },
+      create: { category, rate, createdBy: adminId }
+    });
+
+    await invalidateCommissionCache();
+
+    res.status(200).json({
+      success: true,
+      message: 'Category commission saved successfully.',
+      data: categoryCommission
+    });
+  } catch (error) {
+    console.error('Error saving category commission:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+      error: error.message
+    });
+  }
+};
+
+export const deleteCategoryCommission = async (req, res) => {
+  try {
+    const category = normalizeCategory(req.params.category);
+
+    const existing = await prisma.categoryCommission.findUnique({ where: { category } });
+    if (!existing) {
+      return res.status(404).json({
+        success: false,
+        message: 'Category commission not found.'
+      });
+    }
+
+    await prisma.categoryCommission.delete({ where: { category } });
+
+    await invalidateCommissionCache();
+
+    res.status(200).json({
+      success: true,
+      message: 'Category commission deleted. Stores in this category fall back to the default rate.'
+    });
+  } catch (error) {
+    console.error('Error deleting category commission:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+      error: error.message
+    });
+  }
+};
+
+export const setStoreCommission = async (req, res) => {
+  try {
+    const { storeId } = req.params;
+    const { commissionRate } = req.body;
+
+    // null clears the override so the store goes back to its category's rate
+    const rate = commissionRate === null ? null : parseRate(commissionRate);
+
+    if (rate === undefined) {
+      return res.status(400).json({
+        success: false,
+        message: 'commissionRate must be a percentage between 0 and 100, or null to clear the override.'
+      });
+    }
+
+    const existing = await prisma.store.findUnique({
+      where: { id: storeId },
+      select: { id: true }
+    });
+
+    if (!existing) {
+      return res.status(404).json({
+        success: false,
+        message: 'Store not found.'
+      });
+    }
+
+    const store = await prisma.store.update({
+      where: { id: storeId },
+      data: { commissionRate: rate },
+      select: { id: true, name: true, category: true, commissionRate: true }
+    });
+
+    res.status(200).json({
+      success: true,
+      message: rate === null ? 'Store commission override cleared.' : 'Store commission override saved.',
+      data: store
+    });
+  } catch (error) {
+    console.error('Error setting store commission:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+      error: error.message
+    });
+  }
+};
@@ -0,0 +1,383 @@
+// controllers/couponcontrollers.js
+import prisma from '../config/prisma.js';
+import { cache } from '../config/redis.js';
+import { COUPON_TYPES, normalizeCouponCode } from '../utils/couponUtils.js';
+import { quoteOrder, serializeQuote } from '../utils/pricingUtils.js';
+
+// Validate and shape the coupon fields shared by create and update
+const buildCouponData = (body, { partial = false } = {}) => {
+  const {
+    code,
+    type,
+    value,
+    maxDiscount,
+    minOrderValue,
+    usageLimit,
+    perUserLimit,
+    description,
+    startsAt,
+    expiresAt,
+    isActive
+  } = body;
+  const data = {};
+
+  if (!partial || code !== undefined) {
+    const normalizedCode = normalizeCouponCode(code);
+    if (!/^[A-Z0-9_-]{3,30}$/.test(normalizedCode)) {
+      return { error: 'Code must be 3-30 characters using letters, numbers, dashes or underscores.' };
+    }
+    data.code = normalizedCode;
+  }
+
+  if (!partial || type !== undefined) {
+    if (!COUPON_TYPES.includes(type)) {
+      return { error: `Type must be one of ${COUPON_TYPES.join(', ')}.` };
+    }
+    data.type = type;
+  }
+
+  if (value !== undefined) {
+    data.value = parseFloat(value);
+  }
+
+  const couponType = data.type || type;
+  if (!partial && couponType !== 'FREE_DELIVERY' && (!data.value || data.value <= 0)) {
+    return { error: 'Value must be greater than 0.' };
+  }
+  if (couponType === 'PERCENTAGE' && data.value > 100) {
+    return { error: 'Percentage coupons cannot exceed 100%.' };
+  }
+
+  if (maxDiscount !== undefined) data.maxDiscount = maxDiscount === null ? null : parseFloat(maxDiscount);
+  if (minOrderValue !== undefined) data.minOrderValue = minOrderValue === null ? null : parseFloat(minOrderValue);
+  if (usageLimit !== undefined) data.usageLimit = usageLimit === null ? null : parseInt(usageLimit);
+  if (perUserLimit !== undefined) data.perUserLimit = perUserLimit === null ? null : parseInt(perUserLimit);
+  if (description !== undefined) data.description = description || null;
+  if (startsAt !== undefined) data.startsAt = new Date(startsAt);
+  if (expiresAt !== undefined) data.expiresAt = expiresAt ? new Date(expiresAt) : null;
+  if (isActive !== undefined) data.isActive = Boolean(isActive);
+
+  if (data.startsAt && isNaN(data.startsAt)) {
+    return { error: 'startsAt must be a valid date.' };
+  }
+  if (data.expiresAt && isNaN(data.expiresAt)) {
+    return { error: 'expiresAt must be a valid date.' };
+  }
+  if (data.expiresAt && data.expiresAt <= (data.startsAt || new Date())) {
+    return { error: 'expiresAt must be after the start date.' };
+  }
+
+  return { data };
+};
+
+const findSellerStore = (userId) => prisma.store.findUnique({
+  where: { userId },
+  select: { id: true, name: true }
+});
+
+export const createStoreCoupon = async (req, res) => {
+  try {
+    const sellerId = req.user.userId;
+
+    const store = await findSellerStore(sellerId);
+    if (!store) {
+      return res.status(404).json({
+        success: false,
+        message: 'Store not found for this seller.'
+      });
+    }
+
+    const { data, error } = buildCouponData(req.body);
+    if (error) {
+      return res.status(400).json({ success: false, message: error });
+    }
+
+    const coupon = await prisma.coupon.create({
+      data: {
+        ...data,
+        scope: 'STORE',
+        storeId: store.id,
+        createdBy: sellerId
+      }
+    });
+
+    await cache.del(`store:${store.id}:coupons`);
+
+    res.status(201).json({
+      success: true,
+      message: 'Coupon created successfully.',
+      data: coupon
+    });
+  } catch (error) {
+    console.error('Error creating store coupon:', error);
+    if (error.code === 'P2002') {
+      return res.status(409).json({
+        success: false,
+        message: 'A coupon with this code already exists.'
+      });
+    }
+    res.status(500).json({
+      success: false,
+      message: 'Failed to create coupon',
+      error: error.message
+    });
+  }
+};
+
+export const createPlatformCoupon = async (req, res) => {
+  try {
+    const { data, error } = buildCouponData(req.body);
+    if (error) {
+      return res.status(400).json({ success: false, message: error });
+    }
+
+    const coupon = await prisma.coupon.create({
+      data: {
+        ...data,
+        scope: 'PLATFORM',
+        storeId: null,
+        createdBy: req.user.userId
+      }
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Platform coupon created successfully.',
+      data: coupon
+    });
+  } catch (error) {
+    console.error('Error creating platform coupon:', error);
+    if (error.code === 'P2002') {
+      return res.status(409).json({
+        success: false,
+        message: 'A coupon with this code already exists.'
+      });
+    }
+    res.status(500).json({
+      success: false,
+      message: 'Failed to create coupon',
+      error: error.message
+    });
+  }
+};
+
+export const getStoreCoupons = async (req, res) => {
+  try {
+    const store = await findSellerStore(req.user.userId);
+    if (!store) {
+      return res.status(404).json({
+        success: false,
+        message: 'Store not found for this seller.'
+      });
+    }
+
+    const cacheKey = `store:${store.id}:coupons`;
+    const cachedCoupons = await cache.get(cacheKey);
+    if (cachedCoupons) {
+      return res.status(200).json({
+        success: true,
+        data: cachedCoupons,
+        cached: true
+      });
+    }
+
+    const coupons = await prisma.coupon.findMany({
+      where: { storeId: store.id },
+      orderBy: { createdAt: 'desc' }
+    });
+
+    await cache.set(cacheKey, coupons, 300);
+
+    res.status(200).json({
+      success: true,
+      data: coupons
+    });
+  } catch (error) {
+    console.error('Error fetching store coupons:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch coupons',
+      error: error.message
+    });
+  }
+};
+
+export const getPlatformCoupons = async (req, res) => {
+  try {
+    const { page = 1, limit = 20 } = req.query;
+    const skip = (parseInt(page) - 1) * parseInt(limit);
+
+    const [coupons, total] = await Promise.all([
+      prisma.coupon.findMany({
+        where: { scope: 'PLATFORM' },
+        orderBy: { createdAt: 'desc' },
+        skip,
+        take: parseInt(limit)
+      }),
+      prisma.coupon.count({ where: { scope: 'PLATFORM' } })
+    ]);
+
+    res.status(200).json({
+      success: true,
+      data: coupons,
+      pagination: {
+        total,
+        page: parseInt(page),
+        limit: parseInt(limit),
+        totalPages: Math.ceil(total / parseInt(limit))
+      }
+    });
+  } catch (error) {
+    console.error('Error fetching platform coupons:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch coupons',
+      error: error.message
+    });
+  }
+};
+
+// Sellers may only touch their own store's coupons; admins may touch any coupon
+const findEditableCoupon = async (couponId, user) => {
+  const coupon = await prisma.coupon.findUnique({ where: { id: couponId } });
+  if (!coupon) {
+    return { status: 404, message: 'Coupon not found.' };
+  }
+
+  if (user.role !== 'ADMIN') {
+    const store = await findSellerStore(user.userId);
+    if (!store || coupon.storeId !== store.id) {
+      return { status: 403, message: 'Unauthorized to modify this coupon.' };
+    }
+  }
+
+  return { coupon };
+};
+
+export const updateCoupon = async (req, res) => {
+  try {
+    const { couponId } = req.params;
+
+    const { coupon, status, message } = await findEditableCoupon(couponId, req.user);
+    if (!coupon) {
+      return res.status(status).json({ success: false, message });
+    }
+
+    const { data, error } = buildCouponData({ ...req.body, type: req.body.type ?? coupon.type }, { partial: true });
+    if (error) {
+      return res.status(400).json({ success: false, message: error });
+    }
+
+    // Changing the code or type of a coupon buyers already used would rewrite history
+    if (coupon.usageCount > 0 && ((data.code && data.code !== coupon.code) || data.type !== coupon.type)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Code and type cannot be changed after a coupon has been used.'
+      });
+    }
+
+    const updatedCoupon = await prisma.coupon.update({
+      where: { id: couponId },
+      data
+    });
+
+    if (coupon.storeId) {
+      await cache.del(`store:${coupon.storeId}:coupons`);
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Coupon updated successfully.',
+      data: updatedCoupon
+    });
+  } catch (error) {
+    console.error('Error updating coupon:', error);
+    if (error.code === 'P2002') {
+      return res.status(409).json({
+        success: false,
+        message: 'A coupon with this code already exists.'
+      });
+    }
+    res.status(500).json({
+      success: false,
+      message: 'Failed to update coupon',
+      error: error.message
+    });
+  }
+};
+
+// Coupons are deactivated rather than deleted so redemption history stays intact
+export const deactivateCoupon = async (req, res) => {
+  try {
+    const { couponId } = req.params;
+
+    const { coupon, status, message } = await findEditableCoupon(couponId, req.user);
+    if (!coupon) {
+      return res.status(status).json({ success: false, message });
+    }
+
+    const updatedCoupon = await prisma.coupon.update({
+      where: { id: couponId },
+      data: { isActive: false }
+    });
+
+    if (coupon.storeId) {
+      await cache.del(`store:${coupon.storeId}:coupons`);
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Coupon deactivated successfully.',
+      data: updatedCoupon
+    });
+  } catch (error) {
+    console.error('Error deactivating coupon:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to deactivate coupon',
+      error: error.message
+    });
+  }
+};
+
+export const validateCouponCode = async (req, res) => {
+  try {
+    const buyerId = req.user.userId;
+    const { code, storeId, items, deliveryType = 'STANDARD' } = req.body;
+
+    if (!code || !storeId || !Array.isArray(items) || items.length === 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'code, storeId and items (non-empty array) are required.'
+      });
+    }
+
+    const pricing = await quoteOrder({
+      storeId,
+      items,
+      deliveryType,
+      promoCode: code,
+      userId: buyerId
+    });
+
+    if (!pricing.success) {
+      return res.status(pricing.status).json({
+        success: false,
+        message: pricing.message
+      });
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Coupon applied.',
+      data: serializeQuote(pricing.quote)
+    });
+  } catch (error) {
+    console.error('Error validating coupon:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to validate coupon',
+      error: error.message
+    });
+  }
+};
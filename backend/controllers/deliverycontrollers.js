@@ -2,6 +2,14 @@ import prisma from '../config/prisma.js';
 import { cache } from '../config/redis.js';
 import { sendEmailNotification } from '../utils/sendEmailNotification.js';
 import { sendNotification } from '../utils/sendnotification.js';
+import {
+  ORDER_ACTORS,
+  DELIVERY_STATUSES,
+  transitionOrder,
+  setOrderDeliveryStatus,
+  getAllowedTransitions,
+  getLifecycleErrorStatus
+} from '../utils/orderLifecycleUtils.js';
 
 export const assignCourier = async (req, res) => {
   try {
@@ -57,7 +65,7 @@ export const assignCourier = async (req, res) => {
       });
     }
 
-    if (!['CONFIRMED', 'PROCESSING'].includes(order.status)) {
+    if (!getAllowedTransitions(order.status, ORDER_ACTORS.SELLER).includes('SHIPPED')) {
       return res.status(400).json({
         success: false,
         message: `Cannot assign courier for order in status: ${order.status}. Expected 'CONFIRMED' or 'PROCESSING'.`
@@ -71,10 +79,20 @@ export const assignCourier = async (req, res) => {
       });
     }
 
-    let updatedDeliveryInfo;
+    if (!order.deliveryInfo) {
+      return res.status(404).json({
+        success: false,
+        message: 'Delivery information not found. It should have been created during order creation.'
+      });
+    }
 
-    if (order.deliveryInfo) {
-      updatedDeliveryInfo = await prisma.deliveryInfo.update({
+    // Handing the order to a courier ships it; the courier details are saved in the same transaction
+    await transitionOrder(orderId, 'SHIPPED', {
+      actor: ORDER_ACTORS.SELLER,
+      actorId: sellerId,
+      reason: `Courier assigned: ${courierService}`,
+      notify: false,
+      onTransition: (tx) => tx.deliveryInfo.update({
         where: { orderId },
         data: {
           courierService,
@@ -84,20 +102,13 @@ export const assignCourier = async (req, res) => {
           trackingNumber: trackingNumber || null,
           trackingUrl: trackingUrl || null,
           estimatedDelivery: estimatedDelivery ? new Date(estimatedDelivery) : null,
-          notes: notes || order.deliveryInfo.notes,
-          status: 'PROCESSING'
+          notes: notes || order.deliveryInfo.notes
         }
-      });
-    } else {
-      return res.status(404).json({
-        success: false,
-        message: 'Delivery information not found. It should have been created during order creation.'
-      });
-    }
+      })
+    });
 
-    await prisma.order.update({
-      where: { id: orderId },
-      data: { status: 'SHIPPED' }
+    const updatedDeliveryInfo = await prisma.deliveryInfo.findUnique({
+      where: { orderId }
     });
 
     try {
@@ -130,11 +141,6 @@ export const assignCourier = async (req, res) => {
       console.error('Error sending courier assignment notification:', notificationError);
     }
 
-    await cache.del(`order:${orderId}:user:${order.buyerId}`);
-    await cache.del(`order:${orderId}:user:${order.store.userId}`);
-    await cache.del(`user:${order.buyerId}:orders`);
-    await cache.del(`store:${order.storeId}:orders`);
-
     res.status(201).json({
       success: true,
       message: 'Courier assigned successfully.',
@@ -142,6 +148,14 @@ export const assignCourier = async (req, res) => {
     });
 
   } catch (error) {
+    const lifecycleStatus = getLifecycleErrorStatus(error);
+    if (lifecycleStatus) {
+      return res.status(lifecycleStatus).json({
+        success: false,
+        message: error.message
+      });
+    }
+
     console.error('Error assigning courier:', error);
     res.status(500).json({
       success: false,
@@ -409,11 +423,6 @@ export const deleteAssignedDeliveryCourierInfo = async (req, res) => {
       }
     });
 
-    await prisma.order.update({
-      where: { id: order.id },
-      data: { status: 'CONFIRMED' }
-    });
-
     await cache.del(`order:${order.id}:user:${order.buyerId}`);
     await cache.del(`order:${order.id}:user:${order.store.userId}`);
     await cache.del(`delivery:${orderId}:user:${order.buyerId}`);
@@ -440,10 +449,8 @@ export const setDeliveryStatus = async (req, res) => {
   try {
     const sellerId = req.user.userId;
     const { orderId } = req.params;
-    const { status } = req.body;
+    const { status, cashCollected } = req.body;
 
-    const validStatuses = ['PENDING', 'PROCESSING', 'SHIPPED', 'OUT_FOR_DELIVERY', 'DELIVERED', 'RETURNED', 'CANCELLED'];
-    
     if (!status) {
       return res.status(400).json({
         success: false,
@@ -451,10 +458,10 @@ export const setDeliveryStatus = async (req, res) => {
       });
     }
 
-    if (!validStatuses.includes(status)) {
+    if (!DELIVERY_STATUSES.includes(status)) {
       return res.status(400).json({
         success: false,
-        message: `Invalid delivery status. Must be one of: ${validStatuses.join(', ')}.`
+        message: `Invalid delivery status. Must be one of: ${DELIVERY_STATUSES.join(', ')}.`
       });
     }
 
@@ -471,18 +478,7 @@ export const setDeliveryStatus = async (req, res) => {
 
     const order = await prisma.order.findUnique({
       where: { id: deliveryInfo.orderId },
-      include: { 
-        store: { 
-          select: { 
-            userId: true,
-            name: true,
-            user: { select: { email: true, firstName: true } }
-          } 
-        },
-        buyer: {
-          select: { email: true, firstName: true }
-        }
-      }
+      select: { id: true, buyerId: true, storeId: true, status: true, store: { select: { userId: true } } }
     });
 
     if (!order) {
@@ -499,85 +495,15 @@ export const setDeliveryStatus = async (req, res) => {
       });
     }
 
-    const updatedDeliveryInfo = await prisma.deliveryInfo.update({
-      where: { orderId: orderId },
-      data: { 
-        status,
-        ...(status === 'DELIVERED' && { actualDelivery: new Date() })
-      }
+    // Statuses that move the order (and send its notifications) go through the order lifecycle
+    const updatedDeliveryInfo = await setOrderDeliveryStatus(order, status, {
+      actor: ORDER_ACTORS.SELLER,
+      actorId: sellerId,
+      cashCollected: cashCollected === true
     });
 
-    if (status === 'OUT_FOR_DELIVERY') {
-      await prisma.order.update({
-        where: { id: order.id },
-        data: { status: 'OUT_FOR_DELIVERY' }
-      });
-    } else if (status === 'DELIVERED') {
-      await prisma.order.update({
-        where: { id: order.id },
-        data: { status: 'DELIVERED' }
-      });
-    }
-
-    try {
-      const buyerId = order.buyerId;
-      const buyerName = order.buyer.firstName;
-      const storeName = order.store.name;
-      const orderUrl = `${process.env.FRONTEND_URL}/orders/${orderId}`;
-
-      if (status === 'OUT_FOR_DELIVERY') {
-        await sendNotification(
-          buyerId,
-          'Out for Delivery',
-          `Your order #${orderId} from ${storeName} is out for delivery.`,
-          'OUT_FOR_DELIVERY',
-          { orderId }
-        );
-
-        await sendEmailNotification({
-          to: order.buyer.email,
-          toName: buyerName,
-          subject: `Order #${orderId} is Out for Delivery`,
-          template: 'generic',
-          templateData: {
-            title: 'Out for Delivery!',
-            message: `Your order #${orderId} from ${storeName} is out for delivery and will arrive soon.`,
-            ctaText: 'Track Order',
-            ctaUrl: orderUrl
-          }
-        });
-      } else if (status === 'DELIVERED') {
-        await sendNotification(
-          buyerId,
-          'Order Delivered',
-          `Your order #${orderId} from ${storeName} has been delivered.`,
-          'ORDER_DELIVERED',
-          { orderId }
-        );
-
-        await sendEmailNotification({
-          to: order.buyer.email,
-          toName: buyerName,
-          subject: `Order #${orderId} Delivered`,
-          template: 'generic',
-          templateData: {
-            title: 'Order Delivered!',
-            message: `Your order #${orderId} from ${storeName} has been delivered. Please confirm receipt.`,
-            ctaText: 'Confirm Delivery',
-            ctaUrl: orderUrl
-          }
-        });
-      }
-    } catch (notificationError) {
-      console.error('Error sending delivery status notification:', notificationError);
-    }
-
-    await cache.del(`order:${order.id}:user:${order.buyerId}`);
-    await cache.del(`order:${order.id}:user:${order.store.userId}`);
     await cache.del(`delivery:${orderId}:user:${order.buyerId}`);
     await cache.del(`delivery:${orderId}:user:${order.store.userId}`);
-    await cache.del(`user:${order.buyerId}:orders`);
-    await cache.del(`store:${order.storeId}:orders`);
 
     res.status(200).json({
       success: true,
@@ -586,6 +512,14 @@ export const setDeliveryStatus = async (req, res) => {
     });
 
   } catch (error) {
+    const lifecycleStatus = getLifecycleErrorStatus(error);
+    if (lifecycleStatus) {
+      return res.status(lifecycleStatus).json({
+        success: false,
+        message: error.message
+      });
+    }
+
     console.error('Error setting delivery status:', error);
     res.status(500).json({
       success: false,
@@ -3,7 +3,111 @@ import prisma from '../config/prisma.js';
 import { cache } from '../config/redis.js';
 import { sendEmailNotification } from '../utils/sendEmailNotification.js';
 import { sendNotification } from '../utils/sendnotification.js';
-import { processRefund } from '../utils/refundUtils.js';
+import { processRefund, processPartialRefund } from '../utils/refundUtils.js';
+import { restockReturnedItems } from '../utils/inventoryUtils.js';
+import { ORDER_ACTORS, transitionOrder } from '../utils/orderLifecycleUtils.js';
+import { getEscrowBalance, releaseEscrowBalance } from './escrowcontroller.js';
+import { uploadToCloudinary, uploadPresets } from '../config/cloudinary.js';
+import {
+  ADMIN_SETTABLE_STATUSES,
+  DISPUTE_SLA_HOURS,
+  OPEN_DISPUTE_STATUSES,
+  getDisputeDeadline,
+  recordDisputeEvent,
+  setDisputeStatus
+} from '../utils/disputeUtils.js';
+
+const DISPUTE_MESSAGE_INCLUDE = {
+  sender: { select: { id: true, firstName: true, lastName: true } },
+  evidence: { orderBy: { createdAt: 'asc' } }
+};
+
+// Which side of the dispute the user is on, or null if they aren't part of it
+const getDisputeParty = (dispute, user) => {
+  if (dispute.buyerId === user.userId) return 'BUYER';
+  if (dispute.sellerId === user.userId) return 'SELLER';
+  if (user.role === 'ADMIN') return 'ADMIN';
+  return null;
+};
+
+// Upload evidence files one by one so each keeps its own name and media type
+const uploadEvidenceFiles = async (files = []) => {
+  const uploads = [];
+  for (const file of files) {
+    const result = await uploadToCloudinary(file.buffer, uploadPresets.disputeEvidence);
+    uploads.push({
+      url: result.secure_url,
+      mediaType: result.resource_type,
+      fileName: file.originalname
+    });
+  }
+  return uploads;
+};
+
+// Add a message (and any uploaded evidence) to the dispute thread
+const createDisputeMessage = async (tx, { disputeId, senderId, senderRole, body, uploads = [] }) => {
+  const message = await tx.disputeMessage.create({
+    data: { disputeId, senderId, senderRole, body }
+  });
+
+  if (uploads.length > 0) {
+    await tx.disputeEvidence.createMany({
+      data: uploads.map(upload => ({
+        ...upload,
+        disputeId,
+        messageId: message.id,
+        uploadedById: senderId,
+        uploaderRole: senderRole
+      }))
+    });
+  }
+
+  return message;
+};
+
+const roundAmount = (amount) => Math.round(amount * 100) / 100;
+
+// Work out the refund from specific order items or a plain amount; with neither, refund everything held
+const buildDisputeRefund = (order, balance, { refundAmount, items }) => {
+  const lines = [];
+  let amount = balance;
+
+  if (Array.isArray(items) && items.length > 0) {
+    for (const { orderItemId, quantity } of items) {
+      const orderItem = order.items.find(item => item.id === orderItemId);
+      if (!orderItem) {
+        return { error: `Order item ${orderItemId} is not part of this order.` };
+      }
+      if (lines.some(line => line.orderItem.id === orderItemId)) {
+        return { error: `Order item ${orderItemId} is listed more than once.` };
+      }
+
+      // Quantities refunded in earlier disputes can't be refunded again
+      const alreadyRefunded = orderItem.disputeRefunds.reduce((sum, refund) => sum + refund.quantity, 0);
+      const refundable = orderItem.quantity - alreadyRefunded;
+      const qty = quantity === undefined ? refundable : parseInt(quantity);
+
+      if (!Number.isInteger(qty) || qty <= 0 || qty > refundable) {
+        return { error: `Quantity for order item ${orderItemId} must be between 1 and ${refundable}.` };
+      }
+
+      lines.push({ orderItem, quantity: qty, amount: roundAmount(orderItem.price * qty) });
+    }
+
+    amount = roundAmount(lines.reduce((sum, line) => sum + line.amount, 0));
+  } else if (refundAmount !== undefined && refundAmount !== null && refundAmount !== '') {
+    amount = parseFloat(refundAmount);
+    if (isNaN(amount) || amount < 0) {
+      return { error: 'Refund amount must be zero or more.' };
+    }
+  }
+
+  if (amount > balance + 0.01) {
+    return { error: `Refund amount cannot exceed the ${balance} still held in escrow.` };
+  }
+
+  return { refund: { amount: Math.min(roundAmount(amount), balance), lines } };
+};
 
 
 export const requestRefund = async (req, res) => {
@@ -80,7 +184,7 @@ export const requestRefund = async (req, res) => {
     const existingDispute = await prisma.dispute.findFirst({
       where: {
         orderId,
-        status: { in: ['PENDING', 'RESOLVED'] }
+        status: { in: [...OPEN_DISPUTE_STATUSES, 'RESOLVING', 'RESOLVED'] }
       }
     });
 
@@ -92,17 +196,49 @@ export const requestRefund = async (req, res) => {
       });
     }
 
-    // Create a Dispute
-    const dispute = await prisma.dispute.create({
-      data: {
-        orderId,
-        paymentId: order.paymentId,
-        buyerId,
-        sellerId: order.store.userId,
-        type,
-        description: reason,
-        status: 'PENDING'
-      }
+    let uploads = [];
+    try {
+      uploads = await uploadEvidenceFiles(req.files);
+    } catch (uploadError) {
+      console.error('Error uploading dispute evidence:', uploadError);
+      return res.status(500).json({
+        success: false,
+        message: 'Failed to upload evidence files'
+      });
+    }
+
+    const sellerRespondBy = getDisputeDeadline('AWAITING_SELLER');
+
+    // Create a Dispute, opening its thread with the buyer's reason and evidence
+    const dispute = await prisma.$transaction(async (tx) => {
+      const created = await tx.dispute.create({
+        data: {
+          orderId,
+          paymentId: order.paymentId,
+          buyerId,
+          sellerId: order.store.userId,
+          type,
+          description: reason,
+          status: 'AWAITING_SELLER',
+          sellerRespondBy,
+          deadlineAt: sellerRespondBy
+        }
+      });
+
+      await recordDisputeEvent(
+        tx,
+        created.id,
+        `Dispute opened. The seller has until ${sellerRespondBy.toISOString()} to respond.`
+      );
+      await createDisputeMessage(tx, {
+        disputeId: created.id,
+        senderId: buyerId,
+        senderRole: 'BUYER',
+        body: reason,
+        uploads
+      });
+
+      return created;
     });
 
     // Send notification to seller
@@ -121,7 +257,7 @@ export const requestRefund = async (req, res) => {
       template: 'generic',
       templateData: {
         title: 'Dispute Opened',
-        message: `A dispute has been filed for order #${order.id}. Reason: ${reason}. Please respond within 48 hours.`
+        message: `A dispute has been filed for order #${order.id}. Reason: ${reason}. Please respond within ${DISPUTE_SLA_HOURS.AWAITING_SELLER} hours.`
       }
     });
 
@@ -155,9 +291,11 @@ export const requestRefund = async (req, res) => {
 };
 
 export const resolveDispute = async (req, res) => {
+  let releaseClaim = null;
+
   try {
     const { disputeId } = req.params;
-    const { status, resolution, refundAmount } = req.body;
+    const { status, resolution, refundAmount, items, restock = false } = req.body;
     const adminId = req.user.userId;
 
     if (!['RESOLVED', 'CANCELLED'].includes(status)) {
@@ -182,7 +320,10 @@ export const resolveDispute = async (req, res) => {
             payment: true,
             escrow: true,
             buyer: true,
-            store: { include: { user: true } }
+            store: { include: { user: true } },
+            items: {
+              include: { disputeRefunds: { select: { quantity: true } } }
+            }
           }
         }
       }
@@ -195,63 +336,170 @@ export const resolveDispute = async (req, res) => {
       });
     }
 
-    if (dispute.status !== 'PENDING') {
+    if (!OPEN_DISPUTE_STATUSES.includes(dispute.status)) {
       return res.status(400).json({
         success: false,
         message: 'Dispute has already been resolved or cancelled.'
       });
     }
 
+    // Claim the dispute so a concurrent resolution can't refund the buyer a second time
+    const claimed = await prisma.dispute.updateMany({
+      where: { id: disputeId, status: dispute.status },
+      data: { status: 'RESOLVING' }
+    });
+
+    if (claimed.count === 0) {
+      return res.status(409).json({
+        success: false,
+        message: 'Dispute is already being resolved.'
+      });
+    }
+
+    // Hands the dispute back while no money has moved, so the admin can try again
+    releaseClaim = () => prisma.dispute.updateMany({
+      where: { id: disputeId, status: 'RESOLVING' },
+      data: { status: dispute.status }
+    });
+
     const order = dispute.order;
     const escrow = order.escrow;
 
-    // If resolving in favor of the buyer, process refund
+    let settlement = null;
+
+    // Resolving the dispute settles the escrow: the refund goes to the buyer, the rest to the seller
     if (status === 'RESOLVED') {
       // Check if funds are still in escrow
       if (escrow && escrow.releaseStatus === 'PENDING') {
-        const amountToRefund = refundAmount || order.totalAmount;
+        const balance = getEscrowBalance(escrow);
+        const { refund, error } = buildDisputeRefund(order, balance, { refundAmount, items });
 
-        // Process refund
-        const refundResult = await processRefund({
-          orderId: order.id,
-          paymentId: order.paymentId,
-          amount: amountToRefund,
-          currency: order.currency,
-          reason: resolution,
-          gatewayRef: order.payment.gatewayRef
-        });
+        if (error) {
+          await releaseClaim();
+          return res.status(400).json({ success: false, message: error });
+        }
 
-        if (!refundResult.success) {
-          return res.status(500).json({
+        if (restock && refund.lines.length === 0) {
+          await releaseClaim();
+          return res.status(400).json({
             success: false,
-            message: 'Failed to process refund. Please try again.',
-            error: refundResult.error
+            message: 'Restocking needs the refunded items to be listed.'
+          });
+        }
+
+        const isFullRefund = refund.amount >= balance - 0.01;
+
+        if (refund.amount > 0) {
+          const refundParams = {
+            orderId: order.id,
+            paymentId: order.paymentId,
+            amount: refund.amount,
+            currency: order.currency,
+            reason: resolution,
+            gatewayRef: order.payment.gatewayRef,
+            disputeId
+          };
+
+          // Once the gateway has been asked to refund, the claim stays until the dispute is settled
+          const releaseUnrefunded = releaseClaim;
+          releaseClaim = null;
+
+          const refundResult = isFullRefund
+            ? await processRefund(refundParams)
+            : await processPartialRefund(refundParams);
+
+          if (!refundResult.success) {
+            await releaseUnrefunded();
+            return res.status(500).json({
+              success: false,
+              message: 'Failed to process refund. Please try again.',
+              error: refundResult.error
+            });
+          }
+        }
+
+        if (refund.lines.length > 0) {
+          await prisma.$transaction(async (tx) => {
+            await tx.disputeRefundItem.createMany({
+              data: refund.lines.map(line => ({
+                disputeId,
+                orderItemId: line.orderItem.id,
+                quantity: line.quantity,
+                amount: line.amount,
+                restocked: Boolean(restock)
+              }))
+            });
+
+            if (restock) {
+              await restockReturnedItems(refund.lines.map(line => ({
+                productId: line.orderItem.productId,
+                variantId: line.orderItem.variantId,
+                quantity: line.quantity
+              })), tx);
+            }
           });
         }
 
-        // Update Escrow status to REFUNDED
-        await prisma.escrow.update({
-          where: { id: escrow.id },
-          data: {
-            releaseStatus: 'REFUNDED',
+        let release = null;
+
+        if (isFullRefund) {
+          // Update Escrow status to REFUNDED
+          await prisma.escrow.update({
+            where: { id: escrow.id },
+            data: {
+              releaseStatus: 'REFUNDED',
+              releaseReason: `Dispute resolved - ${resolution}`,
+              updatedAt: new Date()
+            }
+          });
+        } else {
+          const currentEscrow = await prisma.escrow.findUnique({ where: { id: escrow.id } });
+          release = await releaseEscrowBalance({
+            escrow: currentEscrow,
+            order,
             releaseReason: `Dispute resolved - ${resolution}`,
-            updatedAt: new Date()
+            releasedTo: 'dispute_resolution',
+            disputeId
+          });
+
+          if (!release.success) {
+            console.error(`Escrow balance for dispute ${disputeId} was not released: ${release.error}`);
+          } else if (order.status === 'DELIVERED') {
+            await transitionOrder(order.id, 'COMPLETED', {
+              actor: ORDER_ACTORS.SYSTEM,
+              reason: 'Dispute resolved',
+              notify: false
+            });
           }
-        });
+        }
 
+        settlement = {
+          refundAmount: refund.amount,
+          releasedAmount: isFullRefund ? 0 : release.amount,
+          releasePending: Boolean(release && !release.success),
+          restocked: Boolean(restock)
+        };
       } else if (escrow && escrow.releaseStatus === 'RELEASED') {
         // Funds already released - requires manual intervention
         console.warn(`Dispute ${disputeId} resolved for order ${order.id}, but funds were already released. Manual action required.`);
         
         // Still mark dispute as resolved but flag for admin review
-        await prisma.dispute.update({
-          where: { id: disputeId },
-          data: {
-            status: 'RESOLVED',
-            resolution: `${resolution} [NOTE: Funds already released - manual refund required]`,
-            resolvedAt: new Date()
-          }
-        });
+        await prisma.$transaction([
+          prisma.dispute.update({
+            where: { id: disputeId },
+            data: {
+              status: 'RESOLVED',
+              resolution: `${resolution} [NOTE: Funds already released - manual refund required]`,
+              resolvedAt: new Date(),
+              deadlineAt: null
+            }
+          }),
+          recordDisputeEvent(
+            prisma,
+            disputeId,
+            `Dispute resolved by admin. Resolution: ${resolution}. Funds were already released, so the refund is handled manually.`
+          )
+        ]);
 
         return res.status(200).json({
           success: true,
@@ -261,21 +509,41 @@ export const resolveDispute = async (req, res) => {
       }
     }
 
+    const settlementNote = settlement
+      ? ` Refunded to buyer: ${settlement.refundAmount} ${order.currency}. Released to seller: ${settlement.releasedAmount} ${order.currency}.`
+      : '';
+
     // Update dispute status
-    const updatedDispute = await prisma.dispute.update({
-      where: { id: disputeId },
-      data: {
-        status,
-        resolution,
-        resolvedAt: new Date()
-      }
+    const updatedDispute = await prisma.$transaction(async (tx) => {
+      const updated = await tx.dispute.update({
+        where: { id: disputeId },
+        data: {
+          status,
+          resolution,
+          resolvedAt: new Date(),
+          deadlineAt: null,
+          ...(settlement && {
+            refundAmount: settlement.refundAmount,
+            releasedAmount: settlement.releasedAmount
+          })
+        },
+        include: { refundItems: true }
+      });
+
+      await recordDisputeEvent(
+        tx,
+        disputeId,
+        `Dispute ${status.toLowerCase()} by admin. Resolution: ${resolution}${settlementNote}`
+      );
+
+      return updated;
     });
 
     // Send notifications to buyer and seller
     await sendNotification(
       dispute.buyerId,
       'Dispute Resolved',
-      `Your dispute for order #${dispute.orderId} has been ${status.toLowerCase()}. Resolution: ${resolution}`,
+      `Your dispute for order #${dispute.orderId} has been ${status.toLowerCase()}. Resolution: ${resolution}${settlementNote}`,
       'dispute',
       { disputeId, orderId: order.id }
     );
@@ -287,14 +555,14 @@ export const resolveDispute = async (req, res) => {
       template: 'generic',
       templateData: {
         title: 'Dispute Resolved',
-        message: `Your dispute for order #${dispute.orderId} has been ${status.toLowerCase()}. Resolution: ${resolution}`
+        message: `Your dispute for order #${dispute.orderId} has been ${status.toLowerCase()}. Resolution: ${resolution}${settlementNote}`
       }
     });
 
     await sendNotification(
       dispute.sellerId,
       'Dispute Resolved',
-      `The dispute for order #${dispute.orderId} has been ${status.toLowerCase()}. Resolution: ${resolution}`,
+      `The dispute for order #${dispute.orderId} has been ${status.toLowerCase()}. Resolution: ${resolution}${settlementNote}`,
       'dispute',
       { disputeId, orderId: order.id }
     );
@@ -306,7 +574,7 @@ export const resolveDispute = async (req, res) => {
       template: 'generic',
       templateData: {
         title: 'Dispute Resolved',
-        message: `The dispute for order #${dispute.orderId} has been ${status.toLowerCase()}. Resolution: ${resolution}`
+        message: `The dispute for order #${dispute.orderId} has been ${status.toLowerCase()}. Resolution: ${resolution}${settlementNote}`
       }
     });
 
@@ -316,12 +584,17 @@ export const resolveDispute = async (req, res) => {
 
     res.status(200).json({
       success: true,
-      message: 'Dispute resolved successfully.',
-      data: updatedDispute
+      message: settlement?.releasePending
+        ? 'Dispute resolved. The refund was issued, but releasing the rest of the escrow failed and will be retried.'
+        : 'Dispute resolved successfully.',
+      data: { ...updatedDispute, settlement }
     });
 
   } catch (error) {
     console.error('Error resolving dispute:', error);
+    if (releaseClaim) {
+      await releaseClaim().catch((releaseError) => console.error('Error releasing dispute claim:', releaseError));
+    }
     res.status(500).json({
       success: false,
       message: 'Failed to resolve dispute',
@@ -338,10 +611,32 @@ export const getDisputeDetails = async (req, res) => {
     const dispute = await prisma.dispute.findUnique({
       where: { id: disputeId },
       include: {
+        messages: {
+          include: DISPUTE_MESSAGE_INCLUDE,
+          orderBy: { createdAt: 'asc' }
+        },
+        refundItems: {
+          include: {
+            orderItem: {
+              select: { id: true, price: true, size: true, color: true, product: { select: { name: true } } }
+            }
+          }
+        },
         order: {
           include: {
             payment: true,
             escrow: true,
+            items: {
+              select: {
+                id: true,
+                quantity: true,
+                price: true,
+                total: true,
+                size: true,
+                color: true,
+                product: { select: { name: true, images: true } }
+              }
+            },
             buyer: { select: { id: true, name: true, email: true } },
             store: { 
               include: { 
@@ -365,7 +660,7 @@ export const getDisputeDetails = async (req, res) => {
       dispute.buyerId === userId || 
       dispute.sellerId === userId;
 
-    if (!isAuthorized && req.user.role !== 'admin') {
+    if (!isAuthorized && req.user.role !== 'ADMIN') {
       return res.status(403).json({
         success: false,
         message: 'Unauthorized to view this dispute.'
@@ -400,7 +695,9 @@ export const getUserDisputes = async (req, res) => {
       ]
     };
 
-    if (status) {
+    if (status === 'OPEN') {
+      where.status = { in: OPEN_DISPUTE_STATUSES };
+    } else if (status) {
       where.status = status;
     }
 
@@ -459,7 +756,9 @@ export const getAllDisputes = async (req, res) => {
     const skip = (parseInt(page) - 1) * parseInt(limit);
     const where = {};
 
-    if (status) {
+    if (status === 'OPEN') {
+      where.status = { in: OPEN_DISPUTE_STATUSES };
+    } else if (status) {
       where.status = status;
     }
 
@@ -494,6 +793,9 @@ export const getAllDisputes = async (req, res) => {
               status: true,
               gatewayRef: true
             }
+          },
+          _count: {
+            select: { messages: { where: { senderRole: { not: 'SYSTEM' } } } }
           }
         },
         orderBy: { createdAt: 'desc' },
@@ -526,16 +828,18 @@ export const getAllDisputes = async (req, res) => {
   }
 };
 
-export const updateDispute = async (req, res) => {
+// Shared by the thread endpoint and the older "add information" endpoint
+const postDisputeMessage = async (req, res, text) => {
   try {
     const { disputeId } = req.params;
     const userId = req.user.userId;
-    const { additionalInfo } = req.body;
+    const body = typeof text === 'string' ? text.trim() : '';
+    const files = req.files || [];
 
-    if (!additionalInfo) {
+    if (!body && files.length === 0) {
       return res.status(400).json({
         success: false,
-        message: 'Additional information is required.'
+        message: 'A message or at least one evidence file is required.'
       });
     }
 
@@ -559,67 +863,257 @@ export const updateDispute = async (req, res) => {
     }
 
     // Check authorization
-    const isAuthorized = 
-      dispute.buyerId === userId || 
-      dispute.sellerId === userId;
+    const party = getDisputeParty(dispute, req.user);
 
-    if (!isAuthorized) {
+    if (!party) {
       return res.status(403).json({
         success: false,
         message: 'Unauthorized to update this dispute.'
       });
     }
 
-    if (dispute.status !== 'PENDING') {
+    if (!OPEN_DISPUTE_STATUSES.includes(dispute.status)) {
       return res.status(400).json({
         success: false,
         message: 'Cannot update a dispute that has been resolved or cancelled.'
       });
     }
 
-    // Update dispute with additional information
-    const updatedDispute = await prisma.dispute.update({
+    let uploads = [];
+    try {
+      uploads = await uploadEvidenceFiles(files);
+    } catch (uploadError) {
+      console.error('Error uploading dispute evidence:', uploadError);
+      return res.status(500).json({
+        success: false,
+        message: 'Failed to upload evidence files'
+      });
+    }
+
+    const isFirstSellerResponse = party === 'SELLER' && !dispute.sellerRespondedAt;
+
+    // A reply from the side being waited on hands the dispute to the next step
+    const nextStatus = party === 'SELLER' && dispute.status === 'AWAITING_SELLER'
+      ? 'AWAITING_BUYER'
+      : party === 'BUYER' && dispute.status === 'AWAITING_BUYER'
+      ? 'UNDER_REVIEW'
+      : null;
+
+    const message = await prisma.$transaction(async (tx) => {
+      const created = await createDisputeMessage(tx, {
+        disputeId,
+        senderId: userId,
+        senderRole: party,
+        body: body || 'Uploaded evidence',
+        uploads
+      });
+
+      if (nextStatus) {
+        await setDisputeStatus(tx, dispute, nextStatus, {
+          note: nextStatus === 'AWAITING_BUYER'
+            ? `The seller responded. The buyer has ${DISPUTE_SLA_HOURS.AWAITING_BUYER} hours to reply.`
+            : 'The buyer replied. The dispute is under review.'
+        });
+      }
+
+      // The seller's first reply closes their response window
+      await tx.dispute.update({
+        where: { id: disputeId },
+        data: {
+          updatedAt: new Date(),
+          ...(isFirstSellerResponse && { sellerRespondedAt: new Date() })
+        }
+      });
+
+      return tx.disputeMessage.findUnique({
+        where: { id: created.id },
+        include: DISPUTE_MESSAGE_INCLUDE
+      });
+    });
+
+    // Notify the other party; admin messages go to both sides
+    const recipients = [];
+    if (party !== 'BUYER') recipients.push({ id: dispute.buyerId, user: dispute.order.buyer });
+    if (party !== 'SELLER') recipients.push({ id: dispute.sellerId, user: dispute.order.store.user });
+
+    const from = party === 'ADMIN' ? 'Support' : party === 'BUYER' ? 'The buyer' : 'The seller';
+
+    for (const recipient of recipients) {
+      await sendNotification(
+        recipient.id,
+        'Dispute Updated',
+        `${from} added a message to the dispute for order #${dispute.orderId}.`,
+        'dispute',
+        { disputeId, orderId: dispute.orderId }
+      );
+
+      await sendEmailNotification({
+        to: recipient.user.email,
+        toName: recipient.user.name,
+        subject: 'Dispute Updated',
+        template: 'generic',
+        templateData: {
+          title: 'Dispute Updated',
+          message: `${from} added a message to the dispute for order #${dispute.orderId}. Please review and respond.`
+        }
+      });
+    }
+
+    res.status(201).json({
+      success: true,
+      message: 'Message added to the dispute.',
+      data: message
+    });
+
+  } catch (error) {
+    console.error('Error adding dispute message:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to update dispute',
+      error: error.message
+    });
+  }
+};
+
+export const addDisputeMessage = (req, res) => postDisputeMessage(req, res, req.body.message);
+
+export const updateDispute = (req, res) => postDisputeMessage(req, res, req.body.additionalInfo);
+
+export const getDisputeMessages = async (req, res) => {
+  try {
+    const { disputeId } = req.params;
+
+    const dispute = await prisma.dispute.findUnique({
       where: { id: disputeId },
-      data: {
-        description: `${dispute.description}\n\n[UPDATE from ${userId === dispute.buyerId ? 'Buyer' : 'Seller'}]: ${additionalInfo}`,
-        updatedAt: new Date()
+      select: {
+        id: true,
+        buyerId: true,
+        sellerId: true,
+        status: true,
+        deadlineAt: true,
+        sellerRespondBy: true,
+        sellerRespondedAt: true
       }
     });
 
-    // Notify the other party
-    const notifyUserId = userId === dispute.buyerId ? dispute.sellerId : dispute.buyerId;
-    const notifyUser = userId === dispute.buyerId ? dispute.order.store.user : dispute.order.buyer;
+    if (!dispute) {
+      return res.status(404).json({
+        success: false,
+        message: 'Dispute not found.'
+      });
+    }
 
-    await sendNotification(
-      notifyUserId,
-      'Dispute Updated',
-      `New information has been added to the dispute for order #${dispute.orderId}.`,
-      'dispute',
-      { disputeId, orderId: dispute.orderId }
-    );
+    if (!getDisputeParty(dispute, req.user)) {
+      return res.status(403).json({
+        success: false,
+        message: 'Unauthorized to view this dispute.'
+      });
+    }
 
-    await sendEmailNotification({
-      to: notifyUser.email,
-      toName: notifyUser.name,
-      subject: 'Dispute Updated',
-      template: 'generic',
-      templateData: {
-        title: 'Dispute Updated',
-        message: `New information has been added to the dispute for order #${dispute.orderId}. Please review and respond.`
+    const messages = await prisma.disputeMessage.findMany({
+      where: { disputeId },
+      include: DISPUTE_MESSAGE_INCLUDE,
+      orderBy: { createdAt: 'asc' }
+    });
+
+    res.status(200).json({
+      success: true,
+      data: {
+        messages,
+        status: dispute.status,
+        deadlineAt: dispute.deadlineAt,
+        sellerRespondBy: dispute.sellerRespondBy,
+        sellerRespondedAt: dispute.sellerRespondedAt
       }
     });
 
+  } catch (error) {
+    console.error('Error fetching dispute messages:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch dispute messages',
+      error: error.message
+    });
+  }
+};
+
+
+// Admins hand a dispute back to one side for more information, or move it along the queue
+export const updateDisputeStatus = async (req, res) => {
+  try {
+    const { disputeId } = req.params;
+    const { status, note } = req.body;
+
+    if (!ADMIN_SETTABLE_STATUSES.includes(status)) {
+      return res.status(400).json({
+        success: false,
+        message: `Status must be one of ${ADMIN_SETTABLE_STATUSES.join(', ')}.`
+      });
+    }
+
+    const dispute = await prisma.dispute.findUnique({
+      where: { id: disputeId },
+      select: { id: true, status: true, orderId: true, buyerId: true, sellerId: true }
+    });
+
+    if (!dispute) {
+      return res.status(404).json({
+        success: false,
+        message: 'Dispute not found.'
+      });
+    }
+
+    if (!OPEN_DISPUTE_STATUSES.includes(dispute.status)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Dispute has already been resolved or cancelled.'
+      });
+    }
+
+    if (dispute.status === status) {
+      return res.status(400).json({
+        success: false,
+        message: `Dispute is already ${status}.`
+      });
+    }
+
+    const label = status.toLowerCase().replace(/_/g, ' ');
+    const moved = await prisma.$transaction((tx) => setDisputeStatus(tx, dispute, status, {
+      note: `Admin moved the dispute to ${label}.${note ? ` Note: ${note}` : ''}`
+    }));
+
+    if (!moved) {
+      return res.status(409).json({
+        success: false,
+        message: 'Dispute status changed in the meantime. Refresh and try again.'
+      });
+    }
+
+    // Let the side that now has to act know about its deadline
+    const waitingOn = status === 'AWAITING_SELLER' ? dispute.sellerId : status === 'AWAITING_BUYER' ? dispute.buyerId : null;
+    if (waitingOn) {
+      await sendNotification(
+        waitingOn,
+        'Dispute Needs Your Response',
+        `Support needs more information on the dispute for order #${dispute.orderId}. Please respond within ${DISPUTE_SLA_HOURS[status]} hours.`,
+        'dispute',
+        { disputeId, orderId: dispute.orderId }
+      );
+    }
+
+    const updatedDispute = await prisma.dispute.findUnique({ where: { id: disputeId } });
+
     res.status(200).json({
       success: true,
-      message: 'Dispute updated successfully.',
+      message: 'Dispute status updated successfully.',
       data: updatedDispute
     });
 
   } catch (error) {
-    console.error('Error updating dispute:', error);
+    console.error('Error updating dispute status:', error);
     res.status(500).json({
       success: false,
-      message: 'Failed to update dispute',
+      message: 'Failed to update dispute status',
       error: error.message
     });
   }
@@ -663,22 +1157,32 @@ export const cancelDispute = async (req, res) => {
       });
     }
 
-    if (dispute.status !== 'PENDING') {
+    if (!OPEN_DISPUTE_STATUSES.includes(dispute.status)) {
       return res.status(400).json({
         success: false,
         message: 'Cannot cancel a dispute that has been resolved or already cancelled.'
       });
     }
 
+    const cancelledBy = userId === dispute.buyerId ? 'buyer' : 'seller';
+
     // Update dispute status
-    const updatedDispute = await prisma.dispute.update({
-      where: { id: disputeId },
-      data: {
-        status: 'CANCELLED',
-        resolution: reason || `Cancelled by ${userId === dispute.buyerId ? 'buyer' : 'seller'}`,
-        resolvedAt: new Date()
-      }
-    });
+    const [updatedDispute] = await prisma.$transaction([
+      prisma.dispute.update({
+        where: { id: disputeId },
+        data: {
+          status: 'CANCELLED',
+          resolution: reason || `Cancelled by ${cancelledBy}`,
+          resolvedAt: new Date(),
+          deadlineAt: null
+        }
+      }),
+      recordDisputeEvent(
+        prisma,
+        disputeId,
+        `Dispute cancelled by ${cancelledBy}.${reason ? ` Reason: ${reason}` : ''}`
+      )
+    ]);
 
     // Notify the other party
     const notifyUserId = userId === dispute.buyerId ? dispute.sellerId : dispute.buyerId;
@@ -4,17 +4,295 @@ import { cache } from '../config/redis.js';
 import { sendEmailNotification } from '../utils/sendEmailNotification.js';
 import { sendNotification } from '../utils/sendnotification.js';
 import { transferFundsToSeller } from '../utils/transferUtils.js';
+import { getJobStatus } from '../services/jobScheduler.js';
+import { ORDER_ACTORS, ESCROW_HOLD_STATUSES, transitionOrder } from '../utils/orderLifecycleUtils.js';
+import { OPEN_DISPUTE_STATUSES } from '../utils/disputeUtils.js';
+import { getSellerPayout } from '../utils/commissionUtils.js';
+import { isCashOnDelivery } from '../utils/cashOnDeliveryUtils.js';
 
 
+// Failed auto-releases are retried with exponential backoff until the attempts run out
+const MAX_RELEASE_ATTEMPTS = parseInt(process.env.ESCROW_RELEASE_MAX_ATTEMPTS) || 5;
+const RELEASE_RETRY_BASE_MS = 15 * 60 * 1000; // 15 minutes
+const RELEASE_RETRY_MAX_MS = 24 * 60 * 60 * 1000; // 24 hours
+
+export const ESCROW_RELEASE_JOB = 'escrow-auto-release';
+
+const getNextAttemptAt = (attempt) => {
+  if (attempt >= MAX_RELEASE_ATTEMPTS) return null;
+  const delay = Math.min(RELEASE_RETRY_BASE_MS * 2 ** (attempt - 1), RELEASE_RETRY_MAX_MS);
+  return new Date(Date.now() + delay);
+};
+
+/**
+ * What is left in escrow for the seller after any partial refund to the buyer
+ * @param {Object} escrow
+ * @returns {number}
+ */
+export const getEscrowBalance = (escrow) =>
+  Math.max(Math.round((escrow.amountHeld - (escrow.refundedAmount || 0)) * 100) / 100, 0);
+
+/**
+ * What the seller is transferred out of the escrow balance once the platform's fees are taken
+ * @param {Object} escrow
+ * @param {Object} [payment] - The escrow's payment, carrying its fee breakdown
+ * @returns {{amount: number, platformFee: number}}
+ */
+export const getEscrowPayout = (escrow, payment) =>
+  getSellerPayout(getEscrowBalance(escrow), escrow, payment);
+
+const markReleaseFailed = async (escrow, attempt, releaseReason) => {
+  const nextAttemptAt = getNextAttemptAt(attempt);
+
+  await prisma.escrow.update({
+    where: { id: escrow.id },
+    data: {
+      releaseStatus: 'FAILED',
+      releaseReason,
+      nextAttemptAt,
+      updatedAt: new Date()
+    }
+  });
+
+  return {
+    escrowId: escrow.id,
+    orderId: escrow.orderId,
+    outcome: 'FAILED',
+    reason: releaseReason,
+    attempt,
+    nextAttemptAt
+  };
+};
+
+/**
+ * Paystack reference for an escrow's payout. Retries reuse it, so a transfer that went through
+ * before we could record it is refused as a duplicate instead of paying the seller twice. It only
+ * moves on once the gateway has reported the previous transfer failed or reversed.
+ * @param {string} escrowId
+ * @returns {Promise<string>}
+ */
+const getEscrowTransferReference = async (escrowId) => {
+  const settledFailures = await prisma.transferLog.count({
+    where: {
+      escrowId,
+      status: { in: ['FAILED', 'REVERSED'] },
+      completedAt: { not: null }
+    }
+  });
+
+  return settledFailures === 0 ? `escrow_${escrowId}` : `escrow_${escrowId}_${settledFailures}`;
+};
+
+/**
+ * Settle a payout once Paystack reports its final outcome. A transfer that fails or is
+ * reversed after initiation puts the escrow back into the retry queue.
+ * @param {Object} data - transfer.* webhook data
+ * @param {'SUCCESS'|'FAILED'|'REVERSED'} status
+ */
+export const handleTransferWebhook = async (data, status) => {
+  const { transfer_code: transferCode, reference, reason } = data;
+
+  const transferLog = await prisma.transferLog.findFirst({
+    where: {
+      OR: [
+        ...(transferCode ? [{ transferCode }] : []),
+        ...(reference ? [{ transferRef: reference }] : [])
+      ]
+    },
+    orderBy: { initiatedAt: 'desc' }
+  });
+
+  // The webhook can beat the log write after initiation; failing lets Paystack redeliver it
+  if (!transferLog) {
+    throw new Error(`No transfer log found for transfer ${transferCode || reference}`);
+  }
+
+  if (transferLog.status === status) {
+    console.log(`Webhook: Transfer ${transferLog.transferCode || transferLog.transferRef} already ${status}`);
+    return;
+  }
+
+  await prisma.transferLog.update({
+    where: { id: transferLog.id },
+    data: {
+      status,
+      transferCode: transferLog.transferCode || transferCode || null,
+      completedAt: new Date(),
+      ...(status !== 'SUCCESS' && { errorMessage: data.gateway_response || reason || `Transfer ${status.toLowerCase()}` })
+    }
+  });
+
+  const escrow = await prisma.escrow.findUnique({
+    where: { id: transferLog.escrowId },
+    include: { order: { include: { store: true } }, payment: true }
+  });
+
+  if (status === 'SUCCESS') {
+    // The transfer went through even though we recorded it as failed (e.g. the request timed
+    // out), so a retry with the same reference was refused; settle the escrow from the log
+    if (escrow && ['PENDING', 'FAILED'].includes(escrow.releaseStatus)) {
+      const { platformFee } = getEscrowPayout(escrow, escrow.payment);
+      await prisma.escrow.update({
+        where: { id: escrow.id },
+        data: {
+          releaseStatus: 'RELEASED',
+          releasedAt: new Date(),
+          releasedTo: escrow.releasedTo || 'gateway_confirmation',
+          releasedAmount: transferLog.amount,
+          platformFee,
+          releaseReason: transferLog.reason,
+          nextAttemptAt: null,
+          updatedAt: new Date()
+        }
+      });
+    }
+    return;
+  }
+
+  // Only undo the release this transfer belonged to
+  if (!escrow || escrow.releaseStatus !== 'RELEASED') return;
+
+  const nextAttemptAt = getNextAttemptAt(escrow.releaseAttempts);
+  await prisma.escrow.update({
+    where: { id: escrow.id },
+    data: {
+      releaseStatus: 'FAILED',
+      releaseReason: `Transfer ${status.toLowerCase()} by gateway`,
+      releasedAt: null,
+      releasedTo: null,
+      nextAttemptAt,
+      updatedAt: new Date()
+    }
+  });
+
+  console.error(`Transfer for escrow ${escrow.id} (order ${escrow.orderId}) was ${status.toLowerCase()}.`);
+
+  await sendNotification(
+    escrow.order.store.userId,
+    'Payout Delayed',
+    nextAttemptAt
+      ? `The payout for order #${escrow.orderId} did not go through. We will try again shortly.`
+      : `The payout for order #${escrow.orderId} did not go through. Our team will follow up.`,
+    'payment_update',
+    { orderId: escrow.orderId }
+  );
+
+  await cache.del(`order:${escrow.orderId}:user:${escrow.order.buyerId}`);
+  await cache.del(`order:${escrow.orderId}:user:${escrow.order.store.userId}`);
+};
+
+/**
+ * Pay the seller whatever is left in escrow straight away, e.g. after a dispute is settled
+ * with a partial refund. A failed transfer leaves the escrow FAILED for the retry job.
+ * @param {Object} params
+ * @param {Object} params.escrow - Escrow row, as currently stored
+ * @param {Object} params.order - Order with storeId
+ * @param {string} params.releaseReason
+ * @param {string} params.releasedTo - e.g. 'dispute_resolution'
+ * @param {string} [params.disputeId]
+ * @returns {Promise<{success: boolean, amount: number, transferCode?: string, error?: string}>}
+ */
+export const releaseEscrowBalance = async ({ escrow, order, releaseReason, releasedTo, disputeId = null }) => {
+  const payment = await prisma.payment.findUnique({
+    where: { id: escrow.paymentId },
+    select: { platformFee: true, sellerAmount: true }
+  });
+  const { amount, platformFee } = getEscrowPayout(escrow, payment);
+  const attempt = escrow.releaseAttempts + 1;
+
+  // Claim the escrow so the auto-release job can't pay it out at the same time
+  const claimed = await prisma.escrow.updateMany({
+    where: {
+      id: escrow.id,
+      releaseStatus: escrow.releaseStatus,
+      releaseAttempts: escrow.releaseAttempts
+    },
+    data: {
+      releaseAttempts: attempt,
+      lastAttemptAt: new Date(),
+      nextAttemptAt: null
+    }
+  });
+
+  if (claimed.count === 0) {
+    return { success: false, amount, error: 'Escrow release is already in progress' };
+  }
+
+  const sellerPaymentAccount = await prisma.paymentAccount.findUnique({
+    where: { storeId: order.storeId }
+  });
+
+  if (!sellerPaymentAccount?.paystackRecipientCode) {
+    await markReleaseFailed(escrow, attempt, 'No seller payment account found');
+    return { success: false, amount, error: 'No seller payment account found' };
+  }
+
+  const reference = await getEscrowTransferReference(escrow.id);
+  const transferResult = await transferFundsToSeller({
+    amount,
+    currency: escrow.currency,
+    recipientCode: sellerPaymentAccount.paystackRecipientCode,
+    orderId: order.id,
+    reason: `Order #${order.id} Escrow Release - ${releaseReason}`,
+    reference
+  });
+
+  const transferLog = {
+    orderId: order.id,
+    escrowId: escrow.id,
+    storeId: order.storeId,
+    disputeId,
+    amount,
+    currency: escrow.currency,
+    recipientCode: sellerPaymentAccount.paystackRecipientCode,
+    transferCode: transferResult.transferCode || null,
+    transferRef: transferResult.transferReference || reference,
+    status: transferResult.success ? 'INITIATED' : 'FAILED',
+    reason: releaseReason,
+    errorMessage: transferResult.success ? null : transferResult.error
+  };
+
+  if (!transferResult.success) {
+    await prisma.transferLog.create({ data: transferLog });
+    await markReleaseFailed(escrow, attempt, `Transfer failed - ${transferResult.error}`);
+    return { success: false, amount, error: transferResult.error };
+  }
+
+  // Logged and released together, so the retry job never sees a paid escrow as still pending
+  await prisma.$transaction([
+    prisma.transferLog.create({ data: transferLog }),
+    prisma.escrow.update({
+      where: { id: escrow.id },
+      data: {
+        releasedAt: new Date(),
+        releasedTo,
+        releaseStatus: 'RELEASED',
+        releasedAmount: amount,
+        platformFee,
+        releaseReason,
+        updatedAt: new Date()
+      }
+    })
+  ]);
+
+  return { success: true, amount, transferCode: transferResult.transferCode };
+};
+
 export const processEscrowRelease = async () => {
   try {
     const now = new Date();
 
-    // Find escrows where the release date has passed and status is still PENDING
+    // Escrows whose release date has passed, plus failed releases that are due for a retry
     const escrowsToRelease = await prisma.escrow.findMany({
       where: {
-        releaseDate: { lte: now },
-        releaseStatus: 'PENDING'
+        OR: [
+          { releaseDate: { lte: now }, releaseStatus: 'PENDING' },
+          {
+            releaseStatus: 'FAILED',
+            releaseAttempts: { lt: MAX_RELEASE_ATTEMPTS },
+            nextAttemptAt: { lte: now }
+          }
+        ]
       },
       include: {
         payment: {
@@ -26,20 +304,73 @@ export const processEscrowRelease = async () => {
                     user: true
                   }
                 },
-                buyer: true
+                buyer: true,
+                disputes: {
+                  where: { status: { in: OPEN_DISPUTE_STATUSES } },
+                  select: { id: true }
+                }
               }
             }
           }
         }
-      }
+      },
+      orderBy: { releaseDate: 'asc' }
     });
 
     console.log(`Found ${escrowsToRelease.length} escrows to process for release.`);
 
+    const outcomes = [];
+
     for (const escrow of escrowsToRelease) {
       const order = escrow.payment.order;
       const seller = order.store.user;
 
+      // Funds stay in escrow while the buyer has an open dispute
+      if (order.disputes.length > 0) {
+        outcomes.push({
+          escrowId: escrow.id,
+          orderId: order.id,
+          outcome: 'SKIPPED',
+          reason: 'Open dispute on order'
+        });
+        continue;
+      }
+
+      if (ESCROW_HOLD_STATUSES.includes(order.status)) {
+        outcomes.push({
+          escrowId: escrow.id,
+          orderId: order.id,
+          outcome: 'SKIPPED',
+          reason: `Order is ${order.status}`
+        });
+        continue;
+      }
+
+      // Claim the escrow so a second run (or a buyer confirmation) can't release it twice
+      const attempt = escrow.releaseAttempts + 1;
+      const claimed = await prisma.escrow.updateMany({
+        where: {
+          id: escrow.id,
+          releaseStatus: escrow.releaseStatus,
+          releaseAttempts: escrow.releaseAttempts
+        },
+        data: {
+          releaseAttempts: attempt,
+          lastAttemptAt: now,
+          nextAttemptAt: null
+        }
+      });
+
+      if (claimed.count === 0) {
+        outcomes.push({
+          escrowId: escrow.id,
+          orderId: order.id,
+          outcome: 'SKIPPED',
+          reason: 'Already being processed'
+        });
+        continue;
+      }
+
       try {
         // Check if the order status is DELIVERED or COMPLETED
         const isDelivered = ['DELIVERED', 'COMPLETED'].includes(order.status);
@@ -51,47 +382,63 @@ export const processEscrowRelease = async () => {
           where: { storeId: order.storeId }
         });
 
-        if (!sellerPaymentAccount) {
+        if (!sellerPaymentAccount?.paystackRecipientCode) {
           console.error(`No payment account found for store ${order.storeId} during escrow release for order ${order.id}.`);
-          
-          await prisma.escrow.update({
-            where: { id: escrow.id },
-            data: {
-              releaseStatus: 'FAILED',
-              releaseReason: 'No seller payment account found',
-              updatedAt: new Date()
-            }
-          });
+
+          outcomes.push(await markReleaseFailed(escrow, attempt, 'No seller payment account found'));
           continue;
         }
 
-        // Initiate fund transfer to seller
+        // Initiate fund transfer to seller, net of the platform's fees
+        const { amount, platformFee } = getEscrowPayout(escrow, escrow.payment);
+        const reference = await getEscrowTransferReference(escrow.id);
         const transferResult = await transferFundsToSeller({
-          amount: escrow.amountHeld,
+          amount,
           currency: escrow.currency,
           recipientCode: sellerPaymentAccount.paystackRecipientCode,
           orderId: order.id,
-          reason: `Order #${order.id} Escrow Release - ${releaseReason}`
+          reason: `Order #${order.id} Escrow Release - ${releaseReason}`,
+          reference
         });
 
+        const transferLog = {
+          orderId: order.id,
+          escrowId: escrow.id,
+          storeId: order.storeId,
+          amount,
+          currency: escrow.currency,
+          recipientCode: sellerPaymentAccount.paystackRecipientCode,
+          transferCode: transferResult.transferCode || null,
+          transferRef: transferResult.transferReference || reference,
+          status: transferResult.success ? 'INITIATED' : 'FAILED',
+          reason: releaseReason,
+          errorMessage: transferResult.success ? null : transferResult.error
+        };
+
         if (transferResult.success) {
-          // Update escrow status to RELEASED
-          await prisma.escrow.update({
-            where: { id: escrow.id },
-            data: {
-              releasedAt: new Date(),
-              releasedTo: releasedBy,
-              releaseStatus: 'RELEASED',
-              releaseReason,
-              updatedAt: new Date()
-            }
-          });
+          // Log the transfer and mark the escrow RELEASED in one step
+          await prisma.$transaction([
+            prisma.transferLog.create({ data: transferLog }),
+            prisma.escrow.update({
+              where: { id: escrow.id },
+              data: {
+                releasedAt: new Date(),
+                releasedTo: releasedBy,
+                releaseStatus: 'RELEASED',
+                releasedAmount: amount,
+                platformFee,
+                releaseReason,
+                updatedAt: new Date()
+              }
+            })
+          ]);
 
           // Update order status if necessary
           if (order.status === 'DELIVERED') {
-            await prisma.order.update({
-              where: { id: order.id },
-              data: { status: 'COMPLETED' }
+            await transitionOrder(order.id, 'COMPLETED', {
+              actor: ORDER_ACTORS.SYSTEM,
+              reason: 'Escrow released',
+              notify: false
             });
           }
 
@@ -111,7 +458,7 @@ export const processEscrowRelease = async () => {
             template: 'generic',
             templateData: {
               title: 'Funds Released',
-              message: `Funds for order #${order.id} (${escrow.amountHeld} ${escrow.currency}) have been released to your account.`
+              message: `Funds for order #${order.id} (${amount} ${escrow.currency}) have been released to your account.`
             }
           });
 
@@ -120,39 +467,38 @@ export const processEscrowRelease = async () => {
           await cache.del(`order:${order.id}:user:${seller.id}`);
 
           console.log(`Escrow released for order ${order.id} (Reason: ${releaseReason}).`);
+
+          outcomes.push({
+            escrowId: escrow.id,
+            orderId: order.id,
+            outcome: 'RELEASED',
+            reason: releaseReason,
+            attempt,
+            transferCode: transferResult.transferCode
+          });
         } else {
           // Handle transfer failure
           console.error(`Failed to transfer funds for escrow ${escrow.id} (order ${order.id}).`);
-          
-          await prisma.escrow.update({
-            where: { id: escrow.id },
-            data: {
-              releaseStatus: 'FAILED',
-              releaseReason: `Transfer failed - ${transferResult.error}`,
-              updatedAt: new Date()
-            }
-          });
 
-          // Notify admin about the failure
-          // TODO: Implement admin notification system
+          await prisma.transferLog.create({ data: transferLog });
+
+          outcomes.push(await markReleaseFailed(escrow, attempt, `Transfer failed - ${transferResult.error}`));
         }
 
       } catch (transferError) {
         console.error(`Error releasing escrow for order ${order.id} (escrow ${escrow.id}):`, transferError);
-        
-        await prisma.escrow.update({
-          where: { id: escrow.id },
-          data: {
-            releaseStatus: 'FAILED',
-            releaseReason: `Internal error during release - ${transferError.message}`,
-            updatedAt: new Date()
-          }
-        });
+
+        outcomes.push(await markReleaseFailed(escrow, attempt, `Internal error during release - ${transferError.message}`));
       }
     }
 
+    const summary = outcomes.reduce((acc, { outcome }) => {
+      acc[outcome.toLowerCase()] = (acc[outcome.toLowerCase()] || 0) + 1;
+      return acc;
+    }, { released: 0, failed: 0, skipped: 0 });
+
     console.log(`Processed ${escrowsToRelease.length} escrows for potential release.`);
-    return { processed: escrowsToRelease.length };
+    return { processed: escrowsToRelease.length, ...summary, outcomes };
 
   } catch (error) {
     console.error('Error in processEscrowRelease background job:', error);
@@ -197,6 +543,21 @@ export const confirmOrderReceived = async (req, res) => {
       });
     }
 
+    // The seller was paid in cash at the door, so there is no escrow to release
+    if (isCashOnDelivery(order)) {
+      const updatedOrder = await transitionOrder(orderId, 'COMPLETED', {
+        actor: ORDER_ACTORS.BUYER,
+        actorId: buyerId,
+        reason: 'Buyer confirmed receipt'
+      });
+
+      return res.status(200).json({
+        success: true,
+        message: 'Order confirmed. Thank you for shopping!',
+        data: { order: updatedOrder }
+      });
+    }
+
     if (!order.escrow || order.escrow.releaseStatus !== 'PENDING') {
       return res.status(400).json({
         success: false,
@@ -204,31 +565,11 @@ export const confirmOrderReceived = async (req, res) => {
       });
     }
 
-    // ===== DEBUG: Log order and escrow data =====
-    console.log('=== DEBUG: Order Confirmation Data ===');
-    console.log('Order ID:', order.id);
-    console.log('Store ID:', order.storeId);
-    console.log('Escrow:', {
-      id: order.escrow?.id,
-      amountHeld: order.escrow?.amountHeld,
-      currency: order.escrow?.currency,
-      releaseStatus: order.escrow?.releaseStatus
-    });
-
     // Get seller's payment account
     const sellerPaymentAccount = await prisma.paymentAccount.findUnique({
       where: { storeId: order.storeId }
     });
 
-    console.log('Seller Payment Account:', {
-      exists: !!sellerPaymentAccount,
-      storeId: sellerPaymentAccount?.storeId,
-      paystackRecipientCode: sellerPaymentAccount?.paystackRecipientCode,
-      accountNumber: sellerPaymentAccount?.accountNumber
-    });
-    console.log('=== END DEBUG ===');
-    // ===== END DEBUG =====
-
     if (!sellerPaymentAccount) {
       console.error(`No payment account found for store ${order.storeId} during buyer confirmation for order ${order.id}.`);
       
@@ -241,7 +582,7 @@ export const confirmOrderReceived = async (req, res) => {
     // ===== VALIDATE ALL REQUIRED FIELDS BEFORE TRANSFER =====
     const validationErrors = [];
 
-    if (!order.escrow.amountHeld || order.escrow.amountHeld <= 0) {
+    if (getEscrowBalance(order.escrow) <= 0) {
       validationErrors.push('Invalid escrow amount');
     }
 
@@ -264,44 +605,93 @@ export const confirmOrderReceived = async (req, res) => {
     }
     // ===== END VALIDATION =====
 
-    // Initiate fund transfer to seller
+    // Claim the escrow so the auto-release job can't pay it out at the same time
+    const attempt = order.escrow.releaseAttempts + 1;
+    const claimed = await prisma.escrow.updateMany({
+      where: {
+        id: order.escrow.id,
+        releaseStatus: 'PENDING',
+        releaseAttempts: order.escrow.releaseAttempts
+      },
+      data: {
+        releaseAttempts: attempt,
+        lastAttemptAt: new Date()
+      }
+    });
+
+    if (claimed.count === 0) {
+      return res.status(409).json({
+        success: false,
+        message: 'Escrow release is already in progress for this order.'
+      });
+    }
+
+    // Record the buyer's confirmation before any money moves. If the transfer then fails, the
+    // escrow is left FAILED and the auto-release job retries the payout.
+    const updatedOrder = await transitionOrder(orderId, 'COMPLETED', {
+      actor: ORDER_ACTORS.BUYER,
+      actorId: buyerId,
+      reason: 'Buyer confirmed receipt',
+      notify: false
+    });
+
+    // Initiate fund transfer to seller, net of the platform's fees
+    const { amount: payoutAmount, platformFee } = getEscrowPayout(order.escrow, order.payment);
+    const reference = await getEscrowTransferReference(order.escrow.id);
     const transferResult = await transferFundsToSeller({
-      amount: order.escrow.amountHeld,
+      amount: payoutAmount,
       currency: order.escrow.currency,
       recipientCode: sellerPaymentAccount.paystackRecipientCode,
       orderId: order.id,
-      reason: `Order #${order.id} Confirmed by Buyer`
+      reason: `Order #${order.id} Confirmed by Buyer`,
+      reference
     });
 
+    const transferLog = {
+      orderId: order.id,
+      escrowId: order.escrow.id,
+      storeId: order.storeId,
+      amount: payoutAmount,
+      currency: order.escrow.currency,
+      recipientCode: sellerPaymentAccount.paystackRecipientCode,
+      transferCode: transferResult.transferCode || null,
+      transferRef: transferResult.transferReference || reference,
+      status: transferResult.success ? 'INITIATED' : 'FAILED',
+      reason: 'buyer_confirmed',
+      errorMessage: transferResult.success ? null : transferResult.error
+    };
+
     if (!transferResult.success) {
       console.error(`Failed to transfer funds after buyer confirmation for order ${order.id}.`);
       console.error('Transfer error details:', transferResult.error, transferResult.details);
-      
-      return res.status(500).json({
-        success: false,
-        message: 'Failed to process fund transfer. Please contact support.',
-        error: transferResult.error
+
+      await prisma.transferLog.create({ data: transferLog });
+      await markReleaseFailed(order.escrow, attempt, `Transfer failed - ${transferResult.error}`);
+
+      return res.status(200).json({
+        success: true,
+        message: 'Order confirmed. The payout to the seller did not go through yet and will be retried.',
+        data: { order: updatedOrder }
       });
     }
 
-    // Update order status to COMPLETED
-    const updatedOrder = await prisma.order.update({
-      where: { id: orderId },
-      data: { status: 'COMPLETED' }
-    });
-
-    // Update escrow status to RELEASED
+    // Log the transfer and mark the escrow RELEASED in one step
     const now = new Date();
-    const updatedEscrow = await prisma.escrow.update({
-      where: { id: order.escrow.id },
-      data: {
-        releasedAt: now,
-        releasedTo: 'buyer_confirmation',
-        releaseStatus: 'RELEASED',
-        releaseReason: 'buyer_confirmed',
-        updatedAt: now
-      }
-    });
+    const [, updatedEscrow] = await prisma.$transaction([
+      prisma.transferLog.create({ data: transferLog }),
+      prisma.escrow.update({
+        where: { id: order.escrow.id },
+        data: {
+          releasedAt: now,
+          releasedTo: 'buyer_confirmation',
+          releaseStatus: 'RELEASED',
+          releasedAmount: payoutAmount,
+          platformFee,
+          releaseReason: 'buyer_confirmed',
+          updatedAt: now
+        }
+      })
+    ]);
 
     // Send notification to seller
     await sendNotification(
@@ -319,7 +709,7 @@ export const confirmOrderReceived = async (req, res) => {
       template: 'generic',
       templateData: {
         title: 'Funds Released',
-        message: `Funds for order #${order.id} (${updatedEscrow.amountHeld} ${updatedEscrow.currency}) have been released to your account after buyer confirmation.`
+        message: `Funds for order #${order.id} (${updatedEscrow.releasedAmount} ${updatedEscrow.currency}) have been released to your account after buyer confirmation.`
       }
     });
 
@@ -524,4 +914,68 @@ export const getPendingEscrows = async (req, res) => {
       error: error.message
     });
   }
-};
\ No newline at end of file
+};
+
+export const getEscrowReleaseJobStatus = async (req, res) => {
+  try {
+    const now = new Date();
+
+    const [job, dueCount, retrying, exhausted] = await Promise.all([
+      getJobStatus(ESCROW_RELEASE_JOB),
+      prisma.escrow.count({
+        where: { releaseStatus: 'PENDING', releaseDate: { lte: now } }
+      }),
+      prisma.escrow.findMany({
+        where: {
+          releaseStatus: 'FAILED',
+          releaseAttempts: { lt: MAX_RELEASE_ATTEMPTS }
+        },
+        select: {
+          id: true,
+          orderId: true,
+          amountHeld: true,
+          currency: true,
+          releaseAttempts: true,
+          releaseReason: true,
+          lastAttemptAt: true,
+          nextAttemptAt: true
+        },
+        orderBy: { nextAttemptAt: 'asc' }
+      }),
+      prisma.escrow.count({
+        where: {
+          releaseStatus: 'FAILED',
+          releaseAttempts: { gte: MAX_RELEASE_ATTEMPTS }
+        }
+      })
+    ]);
+
+    if (!job) {
+      return res.status(404).json({
+        success: false,
+        message: 'Escrow release job is not registered on this server.'
+      });
+    }
+
+    res.status(200).json({
+      success: true,
+      data: {
+        job,
+        queue: {
+          due: dueCount,
+          awaitingRetry: retrying,
+          exhausted,
+          maxAttempts: MAX_RELEASE_ATTEMPTS
+        }
+      }
+    });
+
+  } catch (error) {
+    console.error('Error fetching escrow release job status:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch escrow release job status',
+      error: error.message
+    });
+  }
+};
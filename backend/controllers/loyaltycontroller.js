@@ -0,0 +1,285 @@
+// controllers/loyaltycontroller.js
+import prisma from '../config/prisma.js';
+import {
+  LOYALTY_RULE_TYPES,
+  getLoyaltySettings,
+  invalidateLoyaltyCache
+} from '../utils/loyaltyUtils.js';
+
+// Rule types where only one rule may be active at a time; campaigns can overlap
+const SINGLE_ACTIVE_TYPES = LOYALTY_RULE_TYPES.filter(type => type !== 'CAMPAIGN_MULTIPLIER');
+
+// Validate and shape the rule fields shared by create and update
+const buildRuleData = (body, { partial = false, existingType } = {}) => {
+  const { type, name, points, pointsPerCedi, multiplier, startsAt, endsAt, isActive } = body;
+  const data = {};
+
+  if (!partial || type !== undefined) {
+    if (!LOYALTY_RULE_TYPES.includes(type)) {
+      return { error: `Type must be one of ${LOYALTY_RULE_TYPES.join(', ')}.` };
+    }
+    data.type = type;
+  }
+
+  if (!partial || name !== undefined) {
+    if (!name || !String(name).trim()) {
+      return { error: 'Name is required.' };
+    }
+    data.name = String(name).trim();
+  }
+
+  if (points !== undefined) data.points = points === null ? null : parseInt(points);
+  if (pointsPerCedi !== undefined) data.pointsPerCedi = pointsPerCedi === null ? null : parseFloat(pointsPerCedi);
+  if (multiplier !== undefined) data.multiplier = multiplier === null ? null : parseFloat(multiplier);
+  if (startsAt !== undefined) data.startsAt = startsAt ? new Date(startsAt) : null;
+  if (endsAt !== undefined) data.endsAt = endsAt ? new Date(endsAt) : null;
+  if (isActive !== undefined) data.isActive = Boolean(isActive);
+
+  const ruleType = data.type || existingType;
+  if (ruleType === 'ORDER_SPEND') {
+    if (!partial || pointsPerCedi !== undefined) {
+      if (!(data.pointsPerCedi > 0)) {
+        return { error: 'pointsPerCedi must be greater than 0.' };
+      }
+    }
+  } else if (ruleType === 'CAMPAIGN_MULTIPLIER') {
+    if (!partial || multiplier !== undefined) {
+      if (!(data.multiplier > 0)) {
+        return { error: 'multiplier must be greater than 0.' };
+      }
+    }
+  } else if (!partial || points !== undefined) {
+    if (!Number.isInteger(data.points) || data.points <= 0) {
+      return { error: 'points must be a positive whole number.' };
+    }
+  }
+
+  if (data.startsAt && isNaN(data.startsAt)) {
+    return { error: 'startsAt must be a valid date.' };
+  }
+  if (data.endsAt && isNaN(data.endsAt)) {
+    return { error: 'endsAt must be a valid date.' };
+  }
+  if (data.startsAt && data.endsAt && data.endsAt <= data.startsAt) {
+    return { error: 'endsAt must be after startsAt.' };
+  }
+
+  return { data };
+};
+
+// Reject a second active rule of a type that can only have one
+const findConflictingRule = (type, excludeId) => {
+  if (!SINGLE_ACTIVE_TYPES.includes(type)) return null;
+
+  return prisma.loyaltyRule.findFirst({
+    where: {
+      type,
+      isActive: true,
+      ...(excludeId && { id: { not: excludeId } })
+    },
+    select: { id: true, name: true }
+  });
+};
+
+export const getLoyaltyConfig = async (req, res) => {
+  try {
+    const [settings, rules] = await Promise.all([
+      getLoyaltySettings(),
+      prisma.loyaltyRule.findMany({
+        orderBy: [{ type: 'asc' }, { createdAt: 'desc' }]
+      })
+    ]);
+
+    res.status(200).json({
+      success: true,
+      data: { settings, rules }
+    });
+  } catch (error) {
+    console.error('Error fetching loyalty config:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+      error: error.message
+    });
+  }
+};
+
+export const updateLoyaltySettings = async (req, res) => {
+  try {
+    const adminId = req.user.userId;
+    const { pointsToCedisRate, dailyEarnCap } = req.body;
+    const data = { updatedBy: adminId };
+
+    if (pointsToCedisRate !== undefined) {
+      data.pointsToCedisRate = parseFloat(pointsToCedisRate);
+      if (!(data.pointsToCedisRate > 0)) {
+        return res.status(400).json({
+          success: false,
+          message: 'pointsToCedisRate must be greater than 0.'
+        });
+      }
+    }
+
+    if (dailyEarnCap !== undefined) {
+      data.dailyEarnCap = dailyEarnCap === null || dailyEarnCap === '' ? null : parseInt(dailyEarnCap);
+      if (data.dailyEarnCap !== null && !(data.dailyEarnCap > 0)) {
+        return res.status(400).json({
+          success: false,
+          message: 'dailyEarnCap must be a positive whole number or null for no cap.'
+        });
+      }
+    }
+
+    const settings = await prisma.loyaltySettings.upsert({
+      where: { id: 'default' },
+      update: data,
+      create: { id: 'default', ...data }
+    });
+
+    await invalidateLoyaltyCache();
+
+    res.status(200).json({
+      success: true,
+      message: 'Loyalty settings updated successfully.',
+      data: settings
+    });
+  } catch (error) {
+    console.error('Error updating loyalty settings:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+      error: error.message
+    });
+  }
+};
+
+export const createLoyaltyRule = async (req, res) => {
+  try {
+    const adminId = req.user.userId;
+
+    const { data, error } = buildRuleData(req.body);
+    if (error) {
+      return res.status(400).json({ success: false, message: error });
+    }
+
+    if (data.isActive !== false) {
+      const conflict = await findConflictingRule(data.type);
+      if (conflict) {
+        return res.status(409).json({
+          success: false,
+          message: `"${conflict.name}" is already active for ${data.type}. Deactivate it first.`
+        });
+      }
+    }
+
+    const rule = await prisma.loyaltyRule.create({
+      data: { ...data, createdBy: adminId }
+    });
+
+    await invalidateLoyaltyCache();
+
+    res.status(201).json({
+      success: true,
+      message: 'Loyalty rule created successfully.',
+      data: rule
+    });
+  } catch (error) {
+    console.error('Error creating loyalty rule:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+      error: error.message
+    });
+  }
+};
+
+export const updateLoyaltyRule = async (req, res) => {
+  try {
+    const { ruleId } = req.params;
+
+    const existing = await prisma.loyaltyRule.findUnique({ where: { id: ruleId } });
+    if (!existing) {
+      return res.status(404).json({
+        success: false,
+        message: 'Loyalty rule not found.'
+      });
+    }
+
+    // The type decides which fields apply, so it can't change after creation
+    const { type, ...fields } = req.body;
+    const { data, error } = buildRuleData(fields, { partial: true, existingType: existing.type });
+    if (error) {
+      return res.status(400).json({ success: false, message: error });
+    }
+
+    const willBeActive = data.isActive !== undefined ? data.isActive : existing.isActive;
+    if (willBeActive) {
+      const conflict = await findConflictingRule(existing.type, ruleId);
+      if (conflict) {
+        return res.status(409).json({
+          success: false,
+          message: `"${conflict.name}" is already active for ${existing.type}. Deactivate it first.`
+        });
+      }
+    }
+
+    const startsAt = data.startsAt !== undefined ? data.startsAt : existing.startsAt;
+    const endsAt = data.endsAt !== undefined ? data.endsAt : existing.endsAt;
+    if (startsAt && endsAt && endsAt <= startsAt) {
+      return res.status(400).json({
+        success: false,
+        message: 'endsAt must be after startsAt.'
+      });
+    }
+
+    const rule = await prisma.loyaltyRule.update({
+      where: { id: ruleId },
+      data
+    });
+
+    await invalidateLoyaltyCache();
+
+    res.status(200).json({
+      success: true,
+      message: 'Loyalty rule updated successfully.',
+      data: rule
+    });
+  } catch (error) {
+    console.error('Error updating loyalty rule:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+      error: error.message
+    });
+  }
+};
+
+export const deleteLoyaltyRule = async (req, res) => {
+  try {
+    const { ruleId } = req.params;
+
+    const existing = await prisma.loyaltyRule.findUnique({ where: { id: ruleId } });
+    if (!existing) {
+      return res.status(404).json({
+        success: false,
+        message: 'Loyalty rule not found.'
+      });
+    }
+
+    await prisma.loyaltyRule.delete({ where: { id: ruleId } });
+
+    await invalidateLoyaltyCache();
+
+    res.status(200).json({
+      success: true,
+      message: 'Loyalty rule deleted successfully.'
+    });
+  } catch (error) {
+    console.error('Error deleting loyalty rule:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+      error: error.message
+    });
+  }
+};
@@ -2,6 +2,17 @@ import prisma from '../config/prisma.js';
 import { cache } from '../config/redis.js'; 
 import { sendEmailNotification } from '../utils/sendEmailNotification.js';
 import { sendNotification } from '../utils/sendnotification.js';
+import { quoteOrder, findPriceMismatches, serializeQuote } from '../utils/pricingUtils.js';
+import { redeemCoupon, releaseCouponRedemption } from '../utils/couponUtils.js';
+import { holdStock, releaseReservations, confirmReservations } from '../utils/inventoryUtils.js';
+import { CASH_ON_DELIVERY, checkCashOnDeliveryEligibility } from '../utils/cashOnDeliveryUtils.js';
+import {
+  ORDER_STATUSES,
+  transitionOrder,
+  resolveOrderActor,
+  getAllowedTransitions,
+  getLifecycleErrorStatus
+} from '../utils/orderLifecycleUtils.js';
 
 export const createOrder = async (req, res) => {
   try {
@@ -13,42 +24,24 @@ export const createOrder = async (req, res) => {
       billingInfo,
       totalAmount,
       subtotal,
-      deliveryFee = 0,
-      taxAmount = 0,
-      discount = 0,
-      currency = "GHS",
+      deliveryFee,
+      taxAmount,
+      discount,
       paymentMethod,
       paymentProvider,
       promoCode,
       buyerEmail,
       buyerPhone,
-      sameAsDelivery = true,
-      checkoutSession // NEW: Checkout session identifier
+      sameAsDelivery = true
     } = req.body;
 
-    if (!storeId || !Array.isArray(items) || items.length === 0 || !totalAmount || totalAmount <= 0) {
+    if (!storeId || !Array.isArray(items) || items.length === 0) {
       return res.status(400).json({
         success: false,
-        message: 'storeId, items (non-empty array), and totalAmount are required.'
+        message: 'storeId and items (non-empty array) are required.'
       });
     }
 
-    if (!subtotal || subtotal <= 0) {
-      return res.status(400).json({
-        success: false,
-        message: 'subtotal is required and must be greater than 0.'
-      });
-    }
-
-    for (const item of items) {
-      if (!item.productId || !item.quantity || item.quantity <= 0 || !item.price || item.price < 0) {
-        return res.status(400).json({
-          success: false,
-          message: 'Each item must have productId, quantity (positive), and price (non-negative).'
-        });
-      }
-    }
-
     if (!deliveryInfo || !deliveryInfo.recipient || !deliveryInfo.phone || 
         !deliveryInfo.address || !deliveryInfo.city || !deliveryInfo.region) {
       return res.status(400).json({
@@ -67,27 +60,41 @@ export const createOrder = async (req, res) => {
       }
     }
 
-    const productDetails = [];
-    for (const item of items) {
-      const product = await prisma.product.findUnique({
-        where: { id: item.productId }
-      });
+    // Every amount is recomputed from the catalogue; client totals are only used to detect stale prices
+    const pricing = await quoteOrder({
+      storeId,
+      items,
+      deliveryType: deliveryInfo.deliveryType || 'STANDARD',
+      promoCode,
+      userId: buyerId
+    });
 
-      if (!product) {
-        return res.status(400).json({
-          success: false,
-          message: `Product with ID ${item.productId} not found.`
-        });
-      }
+    if (!pricing.success) {
+      return res.status(pricing.status).json({
+        success: false,
+        message: pricing.message
+      });
+    }
 
-      if (product.stock < item.quantity) {
-        return res.status(400).json({
-          success: false,
-          message: `Insufficient stock for product "${product.name}". Requested: ${item.quantity}, Available: ${product.stock}`
-        });
-      }
+    const { quote } = pricing;
+    const mismatches = findPriceMismatches(quote, {
+      items,
+      totalAmount,
+      subtotal,
+      deliveryFee,
+      taxAmount,
+      discount
+    });
 
-      productDetails.push({ product, quantity: item.quantity });
+    if (mismatches.length > 0) {
+      return res.status(409).json({
+        success: false,
+        message: 'Order totals have changed. Please review the updated prices and try again.',
+        data: {
+          quote: serializeQuote(quote),
+          mismatches
+        }
+      });
     }
 
     const store = await prisma.store.findUnique({
@@ -102,29 +109,52 @@ export const createOrder = async (req, res) => {
       });
     }
 
+    // Cash on delivery orders skip online payment and escrow, so they're confirmed straight away
+    const payOnDelivery = paymentMethod === CASH_ON_DELIVERY;
+
+    if (payOnDelivery) {
+      const cashOnDelivery = await checkCashOnDeliveryEligibility({
+        store,
+        buyerId,
+        amount: quote.totalAmount
+      });
+
+      if (!cashOnDelivery.available) {
+        return res.status(400).json({
+          success: false,
+          message: cashOnDelivery.reason
+        });
+      }
+    }
+
     const order = await prisma.$transaction(async (tx) => {
       const newOrder = await tx.order.create({
         data: {
           buyerId,
           storeId,
-          totalAmount,
-          subtotal,
-          deliveryFee,
-          taxAmount,
-          discount,
-          currency,
+          status: payOnDelivery ? 'CONFIRMED' : 'PENDING',
+          totalAmount: quote.totalAmount,
+          subtotal: quote.subtotal,
+          deliveryFee: quote.deliveryFee,
+          taxAmount: quote.taxAmount,
+          discount: quote.discount,
+          currency: quote.currency,
           paymentMethod: paymentMethod || null,
-          paymentProvider: paymentProvider || null,
-          promoCode: promoCode || null,
+          paymentProvider: payOnDelivery ? null : paymentProvider || null,
+          promoCode: quote.coupon ? quote.coupon.code : null,
+          promoDiscount: quote.coupon ? quote.discount : 0,
           buyerEmail: buyerEmail || null,
           buyerPhone: buyerPhone || null,
-          checkoutSession: checkoutSession || null, // NEW: Store checkout session
           items: {
-            create: items.map(item => ({
+            create: quote.items.map(item => ({
               productId: item.productId,
+              variantId: item.variantId,
+              size: item.size,
+              color: item.color,
+              sku: item.sku,
               quantity: item.quantity,
               price: item.price,
-              total: item.quantity * item.price
+              total: item.total
             }))
           },
           deliveryInfo: {
@@ -138,7 +168,7 @@ export const createOrder = async (req, res) => {
               country: deliveryInfo.country || "Ghana",
               postalCode: deliveryInfo.postalCode || null,
               deliveryType: deliveryInfo.deliveryType || "STANDARD",
-              deliveryFee: deliveryFee,
+              deliveryFee: quote.deliveryFee,
               deliveryInstructions: deliveryInfo.deliveryInstructions || null,
               preferredDeliveryDate: deliveryInfo.preferredDeliveryDate 
                 ? new Date(deliveryInfo.preferredDeliveryDate) 
@@ -162,9 +192,10 @@ export const createOrder = async (req, res) => {
           statusHistory: {
             create: {
               oldStatus: null,
-              newStatus: 'PENDING',
+              newStatus: payOnDelivery ? 'CONFIRMED' : 'PENDING',
+              actor: 'BUYER',
               changedBy: buyerId,
-              reason: 'Order created'
+              reason: payOnDelivery ? 'Cash on delivery order - auto-confirmed' : 'Order created'
             }
           }
         },
@@ -193,23 +224,34 @@ export const createOrder = async (req, res) => {
         }
       });
 
-      for (const { product, quantity } of productDetails) {
-        await tx.product.update({
-          where: { id: product.id },
-          data: {
-            stock: {
-              decrement: quantity
-            },
-            quantityBought: {
-              increment: quantity
-            }
-          }
+      if (quote.coupon) {
+        const redemption = await redeemCoupon(tx, {
+          couponId: quote.coupon.id,
+          orderId: newOrder.id,
+          userId: buyerId,
+          storeId,
+          discountAmount: quote.discount,
+          orderSubtotal: quote.subtotal
         });
+
+        if (!redemption.success) {
+          const limitError = new Error('Coupon usage limit reached');
+          limitError.couponMessage = redemption.message;
+          throw limitError;
+        }
       }
 
-      return newOrder;
+      // Stock stays held for the buyer until payment succeeds, fails or the hold expires
+      const reservedUntil = await holdStock(tx, newOrder.id, quote.items);
+
+      return { ...newOrder, reservedUntil };
     });
 
+    // Nothing is left to pay online, so the held stock is sold rather than left to expire
+    if (payOnDelivery) {
+      await confirmReservations(order.id);
+    }
+
     try {
       const sellerId = store.user.id;
       const sellerName = store.user.firstName;
@@ -220,7 +262,7 @@ export const createOrder = async (req, res) => {
       await sendNotification(
         sellerId,
         'New Order Received',
-        `You have a new order (#${orderId}) from ${buyerName} for ${storeName}.`,
+        `You have a new ${payOnDelivery ? 'cash on delivery ' : ''}order (#${orderId}) from ${buyerName} for ${storeName}.`,
         'ORDER_CREATED',
         { orderId, buyerId, buyerName }
       );
@@ -256,6 +298,68 @@ export const createOrder = async (req, res) => {
     });
   } catch (error) {
     console.error('Error creating order:', error);
+    if (error.message.includes('Coupon usage limit')) {
+      return res.status(409).json({
+        success: false,
+        message: error.couponMessage || 'This coupon has reached its usage limit.'
+      });
+    }
+    if (error.message.includes('Insufficient stock')) {
+      return res.status(409).json({
+        success: false,
+        message: `${error.message}. Someone else just bought the last units.`
+      });
+    }
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+      error: error.message
+    });
+  }
+};
+
+export const getOrderQuote = async (req, res) => {
+  try {
+    const { storeId, items, deliveryType = 'STANDARD', promoCode } = req.body;
+
+    const pricing = await quoteOrder({
+      storeId,
+      items,
+      deliveryType,
+      promoCode,
+      userId: req.user.userId
+    });
+
+    if (!pricing.success) {
+      return res.status(pricing.status).json({
+        success: false,
+        message: pricing.message
+      });
+    }
+
+    const store = await prisma.store.findUnique({
+      where: { id: storeId },
+      select: { codEnabled: true, codMaxOrderValue: true, codMinCompletedOrders: true }
+    });
+
+    // Lets checkout offer cash on delivery only where this buyer can use it
+    const cashOnDelivery = store
+      ? await checkCashOnDeliveryEligibility({
+          store,
+          buyerId: req.user.userId,
+          amount: pricing.quote.totalAmount
+        })
+      : { available: false, reason: null };
+
+    res.status(200).json({
+      success: true,
+      data: {
+        ...serializeQuote(pricing.quote),
+        cashOnDelivery
+      }
+    });
+  } catch (error) {
+    console.error('Error quoting order:', error);
     res.status(500).json({
       success: false,
       message: 'Internal server error',
@@ -516,190 +620,22 @@ export const getSellerOrders = async (req, res) => {
   }
 };
 
-// NEW: Get order by checkout session
-export const getOrderByCheckoutSession = async (req, res) => {
-  try {
-    const { sessionId } = req.params;
-    const userId = req.user.userId;
-
-    if (!sessionId) {
-      return res.status(400).json({
-        success: false,
-        message: 'Checkout session ID is required.'
-      });
-    }
-
-    const cacheKey = `checkout:${sessionId}:user:${userId}`;
-
-    const cachedOrder = await cache.get(cacheKey);
-    if (cachedOrder) {
-      return res.status(200).json({
-        success: true,
-        data: cachedOrder,
-        cached: true
-      });
-    }
-
-    const order = await prisma.order.findFirst({
-      where: { 
-        checkoutSession: sessionId,
-        buyerId: userId // Ensure user can only access their own orders
-      },
-      include: {
-        items: {
-          include: {
-            product: {
-              select: { id: true, name: true, images: true, price: true }
-            }
-          }
-        },
-        deliveryInfo: true,
-        billingInfo: true,
-        statusHistory: {
-          orderBy: { createdAt: 'asc' }
-        },
-        buyer: {
-          select: {
-            id: true,
-            firstName: true,
-            lastName: true,
-            email: true
-          }
-        },
-        store: {
-          select: {
-            id: true,
-            name: true,
-            url: true,
-            logo: true
-          }
-        }
-      }
-    });
-
-    if (!order) {
-      return res.status(404).json({
-        success: false,
-        message: 'Order not found for this checkout session.'
-      });
-    }
-
-    await cache.set(cacheKey, order, 600);
-
-    res.status(200).json({
-      success: true,
-      data: order
-    });
-
-  } catch (error) {
-    console.error('Error fetching order by checkout session:', error);
-    res.status(500).json({
-      success: false,
-      message: 'Internal server error',
-      error: error.message
-    });
-  }
-};
-
-// NEW: Update order with checkout session (useful for payment webhooks)
-export const updateCheckoutSession = async (req, res) => {
-  try {
-    const { orderId } = req.params;
-    const { checkoutSession, paymentStatus, paymentRef } = req.body;
-
-    if (!checkoutSession) {
-      return res.status(400).json({
-        success: false,
-        message: 'Checkout session is required.'
-      });
-    }
-
-    const order = await prisma.order.findUnique({
-      where: { id: orderId },
-      include: {
-        store: { select: { userId: true, url: true } }
-      }
-    });
-
-    if (!order) {
-      return res.status(404).json({
-        success: false,
-        message: 'Order not found.'
-      });
-    }
-
-    const updateData = { checkoutSession };
-    
-    if (paymentStatus && ['PENDING', 'PROCESSING', 'SUCCESS', 'FAILED'].includes(paymentStatus)) {
-      updateData.paymentStatus = paymentStatus;
-    }
-    
-    if (paymentRef) {
-      updateData.paymentRef = paymentRef;
-    }
-
-    const updatedOrder = await prisma.order.update({
-      where: { id: orderId },
-      data: updateData
-    });
-
-    // Invalidate relevant caches
-    await cache.del(`order:${orderId}:user:${order.buyerId}`);
-    await cache.del(`order:${orderId}:user:${order.store.userId}`);
-    await cache.del(`user:${order.buyerId}:orders`);
-    await cache.del(`store:${order.storeId}:orders`);
-    await cache.del(`store:slug:${order.store.url}`);
-    
-    if (checkoutSession) {
-      await cache.del(`checkout:${checkoutSession}:user:${order.buyerId}`);
-    }
-
-    res.status(200).json({
-      success: true,
-      message: 'Order checkout session updated successfully.',
-      data: updatedOrder
-    });
-
-  } catch (error) {
-    console.error('Error updating checkout session:', error);
-    res.status(500).json({
-      success: false,
-      message: 'Internal server error',
-      error: error.message
-    });
-  }
-};
-
 export const updateOrderStatus = async (req, res) => {
   try {
     const { orderId } = req.params;
-    const { status, reason } = req.body;
+    const { status, reason, cashCollected } = req.body;
     const userId = req.user.userId;
 
-    if (!status || !['CONFIRMED', 'PROCESSING', 'SHIPPED', 'OUT_FOR_DELIVERY', 'DELIVERED', 'COMPLETED', 'CANCELLED'].includes(status)) {
+    if (!status || !ORDER_STATUSES.includes(status)) {
       return res.status(400).json({
         success: false,
-        message: "Status is required and must be one of 'CONFIRMED', 'PROCESSING', 'SHIPPED', 'OUT_FOR_DELIVERY', 'DELIVERED', 'COMPLETED', 'CANCELLED'."
+        message: `Status is required and must be one of ${ORDER_STATUSES.join(', ')}.`
       });
     }
 
     const order = await prisma.order.findUnique({
       where: { id: orderId },
-      include: {
-        store: {
-          select: {
-            userId: true,
-            name: true,
-            user: { select: { email: true, firstName: true } }
-          }
-        },
-        buyer: {
-          select: { email: true, firstName: true }
-        },
-        deliveryInfo: {
-          select: { trackingNumber: true, trackingUrl: true, estimatedDelivery: true }
-        }
-      }
+      select: { id: true, buyerId: true, status: true, store: { select: { userId: true } } }
     });
 
     if (!order) {
@@ -708,309 +644,36 @@ export const updateOrderStatus = async (req, res) => {
         message: 'Order not found.'
       });
     }
-  
 
-    if (order.store.userId !== userId) {
+    const actor = resolveOrderActor(order, req.user);
+    if (!actor) {
       return res.status(403).json({
         success: false,
         message: 'Unauthorized to update this order status.'
       });
     }
 
-    const validTransitions = {
-      PENDING: ['CONFIRMED', 'CANCELLED'],
-      CONFIRMED: ['PROCESSING', 'SHIPPED', 'CANCELLED'],
-      PROCESSING: ['SHIPPED', 'CANCELLED'],
-      SHIPPED: ['OUT_FOR_DELIVERY'],
-      OUT_FOR_DELIVERY: ['DELIVERED'],
-      DELIVERED: ['COMPLETED'],
-      COMPLETED: [],
-      CANCELLED: []
-    };
-
-    if (!validTransitions[order.status]?.includes(status)) {
-      return res.status(400).json({
-        success: false,
-        message: `Invalid status transition from ${order.status} to ${status}.`
-      });
-    }
-
-    const updatedOrder = await prisma.$transaction(async (tx) => {
-      const updated = await tx.order.update({
-        where: { id: orderId },
-        data: {
-          status,
-          ...(status === 'DELIVERED' && { deliveredAt: new Date() })
-        }
-      });
-
-      await tx.statusChange.create({
-        data: {
-          orderId,
-          oldStatus: order.status,
-          newStatus: status,
-          changedBy: userId,
-          reason: reason || null
-        }
-      });
-
-      if (status === 'CANCELLED' && order.status !== 'CANCELLED') {
-        const orderItems = await tx.orderItem.findMany({
-          where: { orderId }
-        });
-        for (const item of orderItems) {
-          await tx.product.update({
-            where: { id: item.productId },
-            data: {
-              stock: { increment: item.quantity },
-              quantityBought: { decrement: item.quantity }
-            }
-          });
-        }
-      }
-
-      return updated;
+    const updatedOrder = await transitionOrder(orderId, status, {
+      actor,
+      actorId: userId,
+      reason: reason || null,
+      cashCollected: cashCollected === true
     });
 
-    try {
-      const buyerId = order.buyerId;
-      const buyerName = order.buyer.firstName;
-      const sellerName = order.store.user.firstName;
-      const storeName = order.store.name;
-      const orderUrl = `${process.env.FRONTEND_URL}/orders/${orderId}`;
-
-      if (status === 'CONFIRMED') {
-        await sendNotification(
-          buyerId,
-          'Order Confirmed',
-          `Your order #${orderId} from ${storeName} has been confirmed.`,
-          'ORDER_CONFIRMED',
-          { orderId, storeId: order.storeId }
-        );
-
-        await sendEmailNotification({
-          to: order.buyer.email,
-          toName: buyerName,
-          subject: `Your Order (#${orderId}) has been Confirmed`,
-          template: 'generic',
-          templateData: {
-            title: 'Order Confirmed!',
-            message: `Your order #${orderId} from ${storeName} has been confirmed. It will be processed and shipped soon.`,
-            ctaText: 'View Order',
-            ctaUrl: orderUrl
-          }
-        });
-      } else if (status === 'SHIPPED') {
-        await sendNotification(
-          buyerId,
-          'Order Shipped',
-          `Your order #${orderId} from ${storeName} has been shipped.`,
-          'ORDER_SHIPPED',
-          { orderId, storeId: order.storeId }
-        );
-
-        await sendEmailNotification({
-          to: order.buyer.email,
-          toName: buyerName,
-          subject: `Your Order (#${orderId}) has been Shipped!`,
-          template: 'order_shipped',
-          templateData: {
-            orderId,
-            trackingNumber: order.deliveryInfo?.trackingNumber || 'Not available yet',
-            trackingUrl: order.deliveryInfo?.trackingUrl || orderUrl,
-            estimatedDelivery: order.deliveryInfo?.estimatedDelivery || '2-3 business days'
-          }
-        });
-
-        await sendNotification(
-          order.store.userId,
-          'Order Status Updated',
-          `Order #${orderId} status updated to Shipped.`,
-          'ORDER_STATUS_UPDATE',
-          { orderId, newStatus: status }
-        );
-      } else if (status === 'DELIVERED') {
-        await sendNotification(
-          buyerId,
-          'Order Delivered',
-          `Your order #${orderId} from ${storeName} has been delivered. Please confirm receipt.`,
-          'ORDER_DELIVERED',
-          { orderId, storeId: order.storeId }
-        );
-
-        await sendEmailNotification({
-          to: order.buyer.email,
-          toName: buyerName,
-          subject: `Your Order (#${orderId}) has been Delivered`,
-          template: 'generic',
-          templateData: {
-            title: 'Order Delivered!',
-            message: `Your order #${orderId} from ${storeName} has been delivered. Please confirm receipt on the platform.`,
-            ctaText: 'Confirm Delivery',
-            ctaUrl: orderUrl
-          }
-        });
-
-        await sendNotification(
-          order.store.userId,
-          'Order Delivered',
-          `Order #${orderId} delivered. Awaiting buyer confirmation for payment release.`,
-          'ORDER_DELIVERED_SELLER',
-          { orderId, buyerId }
-        );
-
-        await sendEmailNotification({
-          to: order.store.user.email,
-          toName: sellerName,
-          subject: `Order (#${orderId}) Delivered - Awaiting Confirmation`,
-          template: 'generic',
-          templateData: {
-            title: 'Order Delivered!',
-            message: `Order #${orderId} has been delivered. Payment will be released after buyer confirmation.`,
-            ctaText: 'View Order',
-            ctaUrl: `${process.env.FRONTEND_URL}/seller/orders/${orderId}`
-          }
-        });
-      } else if (status === 'COMPLETED') {
-        await sendNotification(
-          buyerId,
-          'Order Completed',
-          `Your order #${orderId} from ${storeName} is now completed.`,
-          'ORDER_COMPLETED',
-          { orderId, storeId: order.storeId }
-        );
-
-        await sendEmailNotification({
-          to: order.buyer.email,
-          toName: buyerName,
-          subject: `Your Order (#${orderId}) is Complete`,
-          template: 'generic',
-          templateData: {
-            title: 'Order Completed!',
-            message: `Your order #${orderId} from ${storeName} is complete. Thank you for shopping!`,
-            ctaText: 'View Order',
-            ctaUrl: orderUrl
-          }
-        });
-
-        await sendNotification(
-          order.store.userId,
-          'Order Completed',
-          `Order #${orderId} completed. Payment has been released.`,
-          'ORDER_COMPLETED_SELLER',
-          { orderId, buyerId }
-        );
-
-        await sendEmailNotification({
-          to: order.store.user.email,
-          toName: sellerName,
-          subject: `Order (#${orderId}) Completed - Payment Released`,
-          template: 'generic',
-          templateData: {
-            title: 'Order Completed!',
-            message: `Order #${orderId} is complete. Payment has been released to your account.`,
-            ctaText: 'View Orders',
-            ctaUrl: `${process.env.FRONTEND_URL}/seller/orders`
-          }
-        });
-      }
-    } catch (notificationError) {
-      console.error('Error sending notification/email during status update:', notificationError);
-    }
-
-    await cache.del(`order:${orderId}:user:${order.buyerId}`);
-    await cache.del(`order:${orderId}:user:${order.store.userId}`);
-    await cache.del(`user:${order.buyerId}:orders`);
-    await cache.del(`store:${order.storeId}:orders`);
-
-    if (status === 'CANCELLED') {
-      const orderItems = await prisma.orderItem.findMany({
-        where: { orderId }
-      });
-      for (const item of orderItems) {
-        await cache.del(`product:url:${item.productId}`);
-      }
-    }
-
     res.status(200).json({
       success: true,
       message: 'Order status updated successfully.',
       data: updatedOrder
     });
   } catch (error) {
-    console.error('Error updating order status:', error);
-    res.status(500).json({
-      success: false,
-      message: 'Internal server error',
-      error: error.message
-    });
-  }
-};
-
-export const updatePaymentStatus = async (req, res) => {
-  try {
-    const { orderId } = req.params;
-    const { paymentStatus, paymentRef, refundAmount, refundReason } = req.body;
-
-    if (!paymentStatus || !['SUCCESS', 'FAILED', 'REFUNDED', 'PARTIALLY_REFUNDED'].includes(paymentStatus)) {
-      return res.status(400).json({
-        success: false,
-        message: "paymentStatus is required and must be 'SUCCESS', 'FAILED', 'REFUNDED', or 'PARTIALLY_REFUNDED'."
-      });
-    }
-
-    const order = await prisma.order.findUnique({
-      where: { id: orderId },
-      include: {
-        store: { select: { userId: true } }
-      }
-    });
-
-    if (!order) {
-      return res.status(404).json({
+    const lifecycleStatus = getLifecycleErrorStatus(error);
+    if (lifecycleStatus) {
+      return res.status(lifecycleStatus).json({
         success: false,
-        message: 'Order not found.'
+        message: error.message
       });
     }
 
-    const validPaymentTransitions = {
-      PENDING: ['SUCCESS', 'FAILED', 'PROCESSING'],
-      PROCESSING: ['SUCCESS', 'FAILED'],
-      SUCCESS: ['REFUNDED', 'PARTIALLY_REFUNDED'],
-      FAILED: [],
-      REFUNDED: [],
-      PARTIALLY_REFUNDED: ['REFUNDED']
-    };
-
-    if (!validPaymentTransitions[order.paymentStatus]?.includes(paymentStatus)) {
-      return res.status(400).json({
-        success: false,
-        message: `Invalid payment status transition from ${order.paymentStatus} to ${paymentStatus}.`
-      });
-    }
-
-    const updateData = { paymentStatus };
-    if (paymentRef) updateData.paymentRef = paymentRef;
-    if (refundAmount !== undefined) updateData.refundAmount = refundAmount;
-    if (refundReason) updateData.refundReason = refundReason;
-
-    const updatedOrder = await prisma.order.update({
-      where: { id: orderId },
-      data: updateData
-    });
-
-    await cache.del(`order:${orderId}:user:${order.buyerId}`);
-    await cache.del(`order:${orderId}:user:${order.store.userId}`);
-    await cache.del(`user:${order.buyerId}:orders`);
-    await cache.del(`store:${order.storeId}:orders`);
-
-    res.status(200).json({
-      success: true,
-      message: 'Payment status updated successfully.',
-      data: updatedOrder
-    });
-
-  } catch (error) {
     console.error('Error updating payment status:', error);
     res.status(500).json({
       success: false,
@@ -1028,19 +691,7 @@ export const cancelOrder = async (req, res) => {
 
     const order = await prisma.order.findUnique({
       where: { id: orderId },
-      include: {
-        store: {
-          select: {
-            userId: true,
-            name: true,
-            url: true,
-            user: { select: { email: true, firstName: true } }
-          }
-        },
-        buyer: {
-          select: { email: true, firstName: true }
-        }
-      }
+      select: { id: true, buyerId: true, status: true, store: { select: { userId: true } } }
     });
 
     if (!order) {
@@ -1050,127 +701,34 @@ export const cancelOrder = async (req, res) => {
       });
     }
 
-    let canCancel = false;
-    let cancelledBy = null;
-    let cancelledByName = '';
-    let cancelledForId = null;
-    let cancelledForName = '';
-    let cancelledForEmail = '';
-
-    if (order.buyerId === userId) {
-      if (order.status === 'PENDING') {
-        canCancel = true;
-        cancelledBy = 'buyer';
-        cancelledByName = order.buyer.firstName;
-        cancelledForId = order.store.userId;
-        cancelledForName = order.store.user.firstName;
-        cancelledForEmail = order.store.user.email;
-      }
-    } else if (order.store.userId === userId) {
-      if (['PENDING', 'CONFIRMED'].includes(order.status)) {
-        canCancel = true;
-        cancelledBy = 'seller';
-        cancelledByName = order.store.user.firstName;
-        cancelledForId = order.buyerId;
-        cancelledForName = order.buyer.firstName;
-        cancelledForEmail = order.buyer.email;
-      }
-    }
-
-    if (!canCancel) {
+    const actor = resolveOrderActor(order, req.user);
+    if (!actor || !getAllowedTransitions(order.status, actor).includes('CANCELLED')) {
       return res.status(403).json({
         success: false,
         message: `You are not authorized to cancel this order in its current status (${order.status}).`
       });
     }
 
-    const updatedOrder = await prisma.$transaction(async (tx) => {
-      const updated = await tx.order.update({
-        where: { id: orderId },
-        data: {
-          status: 'CANCELLED',
-          cancelledAt: new Date(),
-          cancelledBy: cancelledBy
-        }
-      });
-
-      await tx.statusChange.create({
-        data: {
-          orderId,
-          oldStatus: order.status,
-          newStatus: 'CANCELLED',
-          changedBy: userId,
-          reason: reason || `Cancelled by ${cancelledBy}`
-        }
-      });
-
-      const orderItems = await tx.orderItem.findMany({
-        where: { orderId }
-      });
-
-      for (const item of orderItems) {
-        await tx.product.update({
-          where: { id: item.productId },
-          data: {
-            stock: { increment: item.quantity },
-            quantityBought: { decrement: item.quantity }
-          }
-        });
-      }
-
-      return updated;
+    const updatedOrder = await transitionOrder(orderId, 'CANCELLED', {
+      actor,
+      actorId: userId,
+      reason: reason || `Cancelled by ${actor.toLowerCase()}`
     });
 
-    try {
-      await sendNotification(
-        cancelledForId,
-        'Order Cancelled',
-        `Order #${orderId} has been cancelled by the ${cancelledBy}.`,
-        'ORDER_CANCELLED',
-        { orderId, cancelledBy, reason: reason || '' }
-      );
-
-      await sendEmailNotification({
-        to: cancelledForEmail,
-        toName: cancelledForName,
-        subject: `Order (#${orderId}) has been Cancelled`,
-        template: 'generic',
-        templateData: {
-          title: 'Order Cancelled',
-          message: `Order #${orderId} has been cancelled by the ${cancelledBy}. ${reason ? `Reason: ${reason}` : ''}`,
-          ctaText: 'View Order History',
-          ctaUrl: `${process.env.FRONTEND_URL}/orders`
-        }
-      });
-    } catch (notificationError) {
-      console.error('Error sending notification/email for order cancellation:', notificationError);
-    }
-
-    // Invalidate caches
-    await cache.del(`order:${orderId}:user:${order.buyerId}`);
-    await cache.del(`order:${orderId}:user:${order.store.userId}`);
-    await cache.del(`user:${order.buyerId}:orders`);
-    await cache.del(`store:${order.storeId}:orders`);
-    await cache.del(`store:slug:${order.store.url}`);
-
-    // NEW: Invalidate checkout session cache if exists
-    if (order.checkoutSession) {
-      await cache.del(`checkout:${order.checkoutSession}:user:${order.buyerId}`);
-    }
-
-    const orderItems = await prisma.orderItem.findMany({
-      where: { orderId }
-    });
-    for (const item of orderItems) {
-      await cache.del(`product:url:${item.productId}`);
-    }
-
     res.status(200).json({
       success: true,
       message: 'Order cancelled successfully.',
       data: updatedOrder
     });
   } catch (error) {
+    const lifecycleStatus = getLifecycleErrorStatus(error);
+    if (lifecycleStatus) {
+      return res.status(lifecycleStatus).json({
+        success: false,
+        message: error.message
+      });
+    }
+
     console.error('Error cancelling order:', error);
     res.status(500).json({
       success: false,
@@ -1180,6 +738,19 @@ export const cancelOrder = async (req, res) => {
   }
 };
 
+// When an unpaid order's stock hold runs out, or null once it has lapsed
+const withReservation = ({ stockReservations = [], ...order }) => {
+  const held = stockReservations.filter(reservation => reservation.status === 'HELD');
+
+  return {
+    ...order,
+    reservedUntil: held.length > 0
+      ? new Date(Math.min(...held.map(reservation => new Date(reservation.expiresAt).getTime())))
+      : null,
+    reservationExpired: stockReservations.length > 0 && held.length === 0
+  };
+};
+
 export const getUnpaidOrders = async (req, res) => {
   try {
     const userId = req.user.userId;
@@ -1226,7 +797,7 @@ export const getUnpaidOrders = async (req, res) => {
     const order = sortOrder === 'asc' ? 'asc' : 'desc';
 
     // Fetch unpaid orders
-    const [orders, total] = await Promise.all([
+    const [unpaidOrders, total] = await Promise.all([
       prisma.order.findMany({
         where: whereClause,
         include: {
@@ -1260,6 +831,12 @@ export const getUnpaidOrders = async (req, res) => {
               gatewayRef: true,
               createdAt: true
             }
+          },
+          stockReservations: {
+            select: {
+              status: true,
+              expiresAt: true
+            }
           }
         },
         orderBy: { [sortField]: order },
@@ -1268,6 +845,7 @@ export const getUnpaidOrders = async (req, res) => {
       }),
       prisma.order.count({ where: whereClause })
     ]);
+    const orders = unpaidOrders.map(withReservation);
 
     // Calculate summary statistics
     const totalAmount = orders.reduce((sum, order) => sum + order.totalAmount, 0);
@@ -1380,6 +958,13 @@ export const getUnpaidOrderById = async (req, res) => {
                 url: true,
                 stock: true
               }
+            },
+            variant: {
+              select: {
+                id: true,
+                stock: true,
+                isActive: true
+              }
             }
           }
         },
@@ -1392,7 +977,13 @@ export const getUnpaidOrderById = async (req, res) => {
             createdAt: true
           }
         },
-        shippingAddress: true
+        shippingAddress: true,
+        stockReservations: {
+          select: {
+            status: true,
+            expiresAt: true
+          }
+        }
       }
     });
 
@@ -1403,19 +994,27 @@ export const getUnpaidOrderById = async (req, res) => {
       });
     }
 
-    // Check if products are still available
-    const unavailableItems = order.items.filter(item => 
-      !item.product || item.product.stock < item.quantity
-    );
+    const reservedOrder = withReservation(order);
+
+    // Items still held for this order are available; otherwise they compete for the shelf stock
+    const availableStock = (item) => item.variantId
+      ? (item.variant?.isActive ? item.variant.stock : 0)
+      : item.product?.stock || 0;
+
+    const unavailableItems = reservedOrder.reservedUntil
+      ? []
+      : order.items.filter(item =>
+        !item.product || availableStock(item) < item.quantity
+      );
 
     const orderData = {
-      ...order,
+      ...reservedOrder,
       hasUnavailableItems: unavailableItems.length > 0,
       unavailableItems: unavailableItems.map(item => ({
         productId: item.productId,
         productName: item.product?.name || 'Unknown Product',
         requestedQuantity: item.quantity,
-        availableStock: item.product?.stock || 0
+        availableStock: availableStock(item)
       }))
     };
 
@@ -1645,17 +1244,11 @@ export const cancelUnpaidOrder = async (req, res) => {
       });
     }
 
-    // Restore product stock
-    for (const item of order.items) {
-      await prisma.product.update({
-        where: { id: item.productId },
-        data: {
-          stock: {
-            increment: item.quantity
-          }
-        }
-      });
-    }
+    // Put the held stock back before the order is deleted
+    await releaseReservations(orderId, 'ORDER_CANCELLED');
+
+    // Give the coupon use back before the redemption row is removed with the order
+    await releaseCouponRedemption(orderId);
 
     // Delete payment record if exists
     if (order.payment) {
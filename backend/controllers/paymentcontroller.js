@@ -2,15 +2,53 @@
 import prisma from '../config/prisma.js';
 import { cache } from '../config/redis.js';
 import paystack from '../config/paystack.js';
-import crypto from 'crypto';
-import { processRefund } from '../utils/refundUtils.js';
+import { processRefund, handleRefundProcessed, createGatewayRefund } from '../utils/refundUtils.js';
 import { sendEmailNotification } from '../utils/sendEmailNotification.js';
 import { sendNotification } from '../utils/sendnotification.js';
-
+import { reholdStock, confirmReservations, releaseReservations } from '../utils/inventoryUtils.js';
+import { verifyPaystackSignature, buildWebhookEventKey, getWebhookReference } from '../utils/webhookUtils.js';
+import { handleTransferWebhook } from './escrowcontroller.js';
+import { ORDER_ACTORS, transitionOrder, getLifecycleErrorStatus } from '../utils/orderLifecycleUtils.js';
+import { calculateOrderFees } from '../utils/commissionUtils.js';
+import {
+  MOBILE_MONEY_PROVIDERS,
+  PENDING_CHARGE_STATUSES,
+  normalizeMobileMoneyPhone,
+  chargeMobileMoney,
+  submitChargeOtp
+} from '../utils/chargeUtils.js';
+import {
+  PAID_SESSION_STATUSES,
+  generateCheckoutSessionId,
+  getCheckoutSessionExpiry,
+  getCheckoutSessionStatus,
+  splitPayableOrders,
+  markCheckoutSessionPaid,
+  markCheckoutSessionFailed
+} from '../utils/checkoutSessionUtils.js';
+
+
+// Orders in the shape checkout session responses list them
+const summarizeSessionOrders = (orders) => orders.map(o => ({
+  orderId: o.id,
+  storeId: o.storeId,
+  storeName: o.store.name,
+  amount: o.totalAmount
+}));
+
+const invalidateSessionOrderCaches = async (orders, buyerId) => {
+  for (const order of orders) {
+    await cache.del(`order:${order.id}:user:${buyerId}`);
+    await cache.del(`order:${order.id}:user:${order.store.userId}`);
+    await cache.del(`store:${order.storeId}:orders`);
+  }
+  await cache.del(`user:${buyerId}:orders`);
+  await cache.delPattern(`user:${buyerId}:unpaid-orders:*`);
+};
 
 export const createCheckoutSession = async (req, res) => {
   try {
-    const { orderIds, email, callbackUrl } = req.body;
+    const { orderIds } = req.body;
     const userId = req.user.userId;
 
     if (!orderIds || !Array.isArray(orderIds) || orderIds.length === 0) {
@@ -20,13 +58,6 @@ export const createCheckoutSession = async (req, res) => {
       });
     }
 
-    if (!email) {
-      return res.status(400).json({
-        success: false,
-        message: 'Email is required.'
-      });
-    }
-
     // Fetch all orders
     const orders = await prisma.order.findMany({
       where: { 
@@ -34,124 +65,279 @@ export const createCheckoutSession = async (req, res) => {
         buyerId: userId
       },
       include: { 
-        store: { include: { user: true } },
-        buyer: true,
-        items: { include: { product: true } }
+        store: { select: { name: true, userId: true } }
       }
     });
 
-    if (orders.length !== orderIds.length) {
+    if (orders.length !== new Set(orderIds).size) {
       return res.status(404).json({
         success: false,
         message: 'One or more orders not found or unauthorized.'
       });
     }
 
-    // Validate all orders are pending
-    const invalidOrders = orders.filter(
-      order => order.status !== 'PENDING' || order.paymentStatus !== 'PENDING'
-    );
+    // Orders that can no longer be paid are left out rather than blocking the rest
+    const { payable, removed } = await splitPayableOrders(orders);
 
-    if (invalidOrders.length > 0) {
+    if (payable.length === 0) {
       return res.status(400).json({
         success: false,
-        message: 'All orders must be in PENDING status with PENDING payment.',
-        invalidOrderIds: invalidOrders.map(o => o.id)
+        message: 'None of these orders can be paid.',
+        removedOrders: removed
       });
     }
 
-    // Calculate total amount
-    const totalAmount = orders.reduce((sum, order) => sum + order.totalAmount, 0);
+    const totalAmount = payable.reduce((sum, order) => sum + order.totalAmount, 0);
 
-    // Generate unique checkout session ID
-    const checkoutSessionId = `cs_${Date.now()}_${crypto.randomBytes(8).toString('hex')}`;
+    const session = await prisma.$transaction(async (tx) => {
+      const created = await tx.checkoutSession.create({
+        data: {
+          id: generateCheckoutSessionId(),
+          buyerId: userId,
+          orderIds: payable.map(o => o.id),
+          removedOrderIds: removed.map(r => r.orderId),
+          totalAmount,
+          currency: payable[0].currency || 'GHS',
+          expiresAt: getCheckoutSessionExpiry()
+        }
+      });
 
-    // Create Paystack transaction
-    const response = await paystack.transaction.initialize({
-      email,
-      amount: Math.round(totalAmount * 100), // Paystack expects amount in Kobo
-      currency: orders[0].currency || 'GHS',
-      reference: `zuba_multi_${checkoutSessionId}`,
-      callback_url: callbackUrl || `${process.env.FRONTEND_URL}/payment/success?session=${checkoutSessionId}`,
-      metadata: {
-        checkoutSessionId,
-        orderIds,
-        buyerId: userId,
-        storeIds: [...new Set(orders.map(o => o.storeId))],
-        orderCount: orders.length
+      // An order is paid through one session at a time; this one takes over from any earlier one
+      await tx.order.updateMany({
+        where: { id: { in: created.orderIds } },
+        data: { checkoutSession: created.id }
+      });
+
+      return created;
+    });
+
+    await invalidateSessionOrderCaches(payable, userId);
+
+    res.status(201).json({
+      success: true,
+      message: 'Checkout session created successfully.',
+      data: {
+        checkoutSessionId: session.id,
+        status: session.status,
+        totalAmount,
+        currency: session.currency,
+        orderCount: payable.length,
+        expiresAt: session.expiresAt,
+        orders: summarizeSessionOrders(payable),
+        removedOrders: removed
+      }
+    });
+
+  } catch (error) {
+    console.error('Error creating checkout session:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to create checkout session',
+      error: error.message
+    });
+  }
+};
+
+// Start paying a checkout session, or resume one that expired or whose charge failed
+export const payCheckoutSession = async (req, res) => {
+  try {
+    const { sessionId } = req.params;
+    const { email, callbackUrl } = req.body;
+    const userId = req.user.userId;
+
+    if (!email) {
+      return res.status(400).json({
+        success: false,
+        message: 'Email is required.'
+      });
+    }
+
+    const session = await prisma.checkoutSession.findUnique({
+      where: { id: sessionId }
+    });
+
+    if (!session) {
+      return res.status(404).json({
+        success: false,
+        message: 'Checkout session not found.'
+      });
+    }
+
+    if (session.buyerId !== userId) {
+      return res.status(403).json({
+        success: false,
+        message: 'Unauthorized to pay for this checkout session.'
+      });
+    }
+
+    if (PAID_SESSION_STATUSES.includes(session.status)) {
+      return res.status(400).json({
+        success: false,
+        message: 'This checkout session has already been paid.'
+      });
+    }
+
+    const orders = await prisma.order.findMany({
+      where: {
+        id: { in: session.orderIds },
+        buyerId: userId
+      },
+      include: {
+        store: { include: { user: true } }
       }
     });
 
-    if (!response.data) {
-      throw new Error('Failed to initialize Paystack transaction');
+    // Re-check every order: any that were cancelled, sold out or moved to another checkout
+    // since the session was created are dropped and the rest are paid without them
+    const { payable, removed } = await splitPayableOrders(orders, session.id);
+    const foundIds = new Set(orders.map(o => o.id));
+    for (const orderId of session.orderIds.filter(id => !foundIds.has(id))) {
+      removed.push({ orderId, reason: 'Order no longer exists.' });
     }
 
-    // Create payment records for each order and update with checkout session
-    const paymentPromises = orders.map(async (order) => {
-      const payment = await prisma.payment.create({
+    const removedOrderIds = [...session.removedOrderIds, ...removed.map(r => r.orderId)];
+
+    if (removed.length > 0) {
+      await prisma.order.updateMany({
+        where: { id: { in: removed.map(r => r.orderId) }, checkoutSession: session.id },
+        data: { checkoutSession: null }
+      });
+    }
+
+    if (payable.length === 0) {
+      await prisma.checkoutSession.update({
+        where: { id: session.id },
         data: {
-          orderId: order.id,
+          orderIds: [],
+          removedOrderIds,
+          totalAmount: 0,
+          status: 'FAILED',
+          failureReason: 'None of the orders in this checkout can still be paid.'
+        }
+      });
+
+      return res.status(409).json({
+        success: false,
+        message: 'None of the orders in this checkout can still be paid.',
+        removedOrders: removed
+      });
+    }
+
+    const totalAmount = payable.reduce((sum, order) => sum + order.totalAmount, 0);
+
+    // The buyer can go back to the same gateway page as long as nothing about the session changed
+    // and its last charge didn't fail
+    const canReuseTransaction = removed.length === 0 &&
+      session.paymentRef &&
+      session.authorizationUrl &&
+      ['AWAITING_PAYMENT', 'EXPIRED'].includes(session.status);
+
+    let reference = session.paymentRef;
+    let authorizationUrl = session.authorizationUrl;
+    let attempts = session.attempts;
+
+    if (!canReuseTransaction) {
+      attempts += 1;
+      const orderIds = payable.map(o => o.id);
+
+      const response = await paystack.transaction.initialize({
+        email,
+        amount: Math.round(totalAmount * 100), // Paystack expects amount in Kobo
+        currency: session.currency,
+        reference: `zuba_multi_${session.id}_${attempts}`,
+        callback_url: callbackUrl || `${process.env.FRONTEND_URL}/payment/success?session=${session.id}`,
+        metadata: {
+          checkoutSessionId: session.id,
+          orderIds,
+          buyerId: userId,
+          storeIds: [...new Set(payable.map(o => o.storeId))],
+          orderCount: payable.length
+        }
+      });
+
+      if (!response.data) {
+        throw new Error('Failed to initialize Paystack transaction');
+      }
+
+      reference = response.data.reference;
+      authorizationUrl = response.data.authorization_url;
+
+      // Each order keeps one payment record, pointed at the latest attempt
+      for (const order of payable) {
+        const fees = await calculateOrderFees(order, order.store);
+        const paymentData = {
           amount: order.totalAmount,
           currency: order.currency || 'GHS',
           gateway: 'paystack',
-          gatewayRef: response.data.reference,
+          gatewayRef: reference,
           gatewayStatus: 'pending',
           status: 'PENDING',
+          ...fees,
           metadata: {
-            checkoutSessionId,
-            authorizationUrl: response.data.authorization_url,
+            checkoutSessionId: session.id,
+            authorizationUrl,
             multiStore: true,
-            totalOrders: orders.length
+            totalOrders: payable.length
           }
-        }
-      });
-
-      // Update order with payment ID and checkout session
-      await prisma.order.update({
-        where: { id: order.id },
-        data: { 
-          paymentId: payment.id,
-          checkoutSession: checkoutSessionId
-        }
-      });
+        };
+
+        const payment = await prisma.payment.upsert({
+          where: { orderId: order.id },
+          update: paymentData,
+          create: { orderId: order.id, ...paymentData }
+        });
+
+        await prisma.order.update({
+          where: { id: order.id },
+          data: {
+            paymentId: payment.id,
+            paymentStatus: 'PENDING'
+          }
+        });
+      }
+    }
 
-      return payment;
+    const updatedSession = await prisma.checkoutSession.update({
+      where: { id: session.id },
+      data: {
+        orderIds: payable.map(o => o.id),
+        removedOrderIds,
+        totalAmount,
+        status: 'AWAITING_PAYMENT',
+        paymentRef: reference,
+        authorizationUrl,
+        attempts,
+        failureReason: null,
+        expiresAt: getCheckoutSessionExpiry()
+      }
     });
 
-    const payments = await Promise.all(paymentPromises);
-
-    // Invalidate caches
-    for (const order of orders) {
-      await cache.del(`order:${order.id}:user:${userId}`);
-      await cache.del(`order:${order.id}:user:${order.store.userId}`);
-      await cache.del(`user:${userId}:orders`);
-      await cache.del(`store:${order.storeId}:orders`);
-    }
+    await invalidateSessionOrderCaches(payable, userId);
 
     res.status(200).json({
       success: true,
-      message: 'Checkout session created successfully.',
+      message: session.status === 'OPEN'
+        ? 'Payment initiated successfully.'
+        : 'Checkout session resumed successfully.',
       data: {
-        checkoutSessionId,
-        authorizationUrl: response.data.authorization_url,
-        reference: response.data.reference,
+        checkoutSessionId: updatedSession.id,
+        status: updatedSession.status,
+        authorizationUrl,
+        reference,
         totalAmount,
-        orderCount: orders.length,
-        orders: orders.map(o => ({
-          orderId: o.id,
-          storeId: o.storeId,
-          storeName: o.store.name,
-          amount: o.totalAmount
-        })),
-        payments: payments.map(p => ({ paymentId: p.id, orderId: p.orderId }))
+        currency: updatedSession.currency,
+        orderCount: payable.length,
+        expiresAt: updatedSession.expiresAt,
+        orders: summarizeSessionOrders(payable),
+        removedOrders: removed
       }
     });
 
   } catch (error) {
-    console.error('Error creating checkout session:', error);
+    console.error('Error paying checkout session:', error);
     res.status(500).json({
       success: false,
-      message: 'Failed to create checkout session',
+      message: 'Failed to initiate payment',
       error: error.message
     });
   }
@@ -160,7 +346,7 @@ export const createCheckoutSession = async (req, res) => {
 // UPDATED: Single order payment initiation (legacy support)
 export const initiatePayment = async (req, res) => {
   try {
-    const { orderId, email, amount, currency = "GHS" } = req.body;
+    const { orderId, email, amount, currency = "GHS", paymentMethod, provider, phone } = req.body;
     const userId = req.user.userId;
 
     if (!orderId || !email || !amount) {
@@ -170,6 +356,24 @@ export const initiatePayment = async (req, res) => {
       });
     }
 
+    // Mobile money is charged straight to the buyer's wallet instead of the hosted checkout
+    const isMobileMoney = paymentMethod === 'MOBILE_MONEY';
+    const mobileMoneyPhone = isMobileMoney ? normalizeMobileMoneyPhone(phone) : null;
+
+    if (isMobileMoney && !MOBILE_MONEY_PROVIDERS[provider]) {
+      return res.status(400).json({
+        success: false,
+        message: `Invalid mobile money provider. Must be one of: ${Object.keys(MOBILE_MONEY_PROVIDERS).join(', ')}`
+      });
+    }
+
+    if (isMobileMoney && !mobileMoneyPhone) {
+      return res.status(400).json({
+        success: false,
+        message: 'A valid mobile money number is required.'
+      });
+    }
+
     const order = await prisma.order.findUnique({
       where: { id: orderId },
       include: { 
@@ -192,7 +396,8 @@ export const initiatePayment = async (req, res) => {
       });
     }
 
-    if (order.status !== 'PENDING' || order.paymentStatus !== 'PENDING') {
+    // A failed charge leaves the order unpaid, so the buyer can try again
+    if (order.status !== 'PENDING' || !['PENDING', 'FAILED'].includes(order.paymentStatus)) {
       return res.status(400).json({
         success: false,
         message: 'Invalid order status or payment already processed.'
@@ -206,48 +411,158 @@ export const initiatePayment = async (req, res) => {
       });
     }
 
-    // Generate checkout session for single order
-    const checkoutSessionId = `cs_single_${Date.now()}_${crypto.randomBytes(6).toString('hex')}`;
+    // An order whose stock hold expired must get its items back before the buyer pays
+    try {
+      await reholdStock(orderId);
+    } catch (stockError) {
+      if (stockError.message.includes('Insufficient stock')) {
+        return res.status(409).json({
+          success: false,
+          message: `${stockError.message}. The reservation on this order expired and the item has sold out.`
+        });
+      }
+      throw stockError;
+    }
+
+    // A single order is paid through a checkout session of its own
+    const checkoutSessionId = generateCheckoutSessionId();
+
+    const reference = `zuba_${orderId}_${Date.now()}`;
+    const metadata = {
+      orderId,
+      buyerId: userId,
+      sellerId: order.store.userId,
+      checkoutSessionId
+    };
 
-    const response = await paystack.transaction.initialize({
-      email,
-      amount: Math.round(amount * 100),
+    // The order's payment record points at this attempt before anything is charged, so the
+    // webhook can always find it. An earlier attempt's charge that still goes through is matched
+    // by order and settled or refunded there.
+    const fees = await calculateOrderFees(order, order.store);
+    const paymentData = {
+      amount,
       currency,
-      reference: `zuba_${orderId}_${Date.now()}`,
-      callback_url: `${process.env.FRONTEND_URL}/payment/success?session=${checkoutSessionId}&orderId=${orderId}`,
-      metadata: {
-        orderId,
-        buyerId: userId,
-        sellerId: order.store.userId,
-        checkoutSessionId
+      gateway: 'paystack',
+      gatewayRef: reference,
+      gatewayStatus: 'pending',
+      status: 'PENDING',
+      ...fees,
+      metadata: { checkoutSessionId }
+    };
+
+    const payment = await prisma.payment.upsert({
+      where: { orderId },
+      update: paymentData,
+      create: { orderId, ...paymentData }
+    });
+
+    await prisma.order.update({
+      where: { id: orderId },
+      data: {
+        paymentId: payment.id,
+        paymentStatus: 'PENDING'
       }
     });
 
-    if (!response.data) {
-      throw new Error('Failed to initialize Paystack transaction');
-    }
+    let gatewayData;
 
-    const payment = await prisma.payment.create({
-      data: {
-        orderId,
+    if (isMobileMoney) {
+      const charge = await chargeMobileMoney({
+        email,
         amount,
         currency,
-        gateway: 'paystack',
-        gatewayRef: response.data.reference,
+        reference,
+        phone: mobileMoneyPhone,
+        provider,
+        metadata
+      });
+
+      if (!charge.success) {
+        return res.status(502).json({
+          success: false,
+          message: 'Could not reach the mobile money provider. Please try again later.',
+          error: charge.error
+        });
+      }
+
+      if (charge.status === 'failed') {
+        await prisma.payment.update({
+          where: { id: payment.id },
+          data: { gatewayStatus: 'failed', status: 'FAILED' }
+        });
+
+        await prisma.order.update({
+          where: { id: orderId },
+          data: { paymentStatus: 'FAILED' }
+        });
+
+        return res.status(400).json({
+          success: false,
+          message: charge.displayText || 'The mobile money charge was declined.'
+        });
+      }
+
+      gatewayData = {
+        reference: charge.reference || reference,
+        gatewayStatus: charge.status,
+        chargeStatus: charge.status,
+        displayText: charge.displayText,
+        metadata: { channel: 'mobile_money', provider, phone: mobileMoneyPhone }
+      };
+    } else {
+      const response = await paystack.transaction.initialize({
+        email,
+        amount: Math.round(amount * 100),
+        currency,
+        reference,
+        callback_url: `${process.env.FRONTEND_URL}/payment/success?session=${checkoutSessionId}&orderId=${orderId}`,
+        metadata
+      });
+
+      if (!response.data) {
+        throw new Error('Failed to initialize Paystack transaction');
+      }
+
+      gatewayData = {
+        reference: response.data.reference,
         gatewayStatus: 'pending',
-        status: 'PENDING',
+        authorizationUrl: response.data.authorization_url,
+        metadata: { authorizationUrl: response.data.authorization_url }
+      };
+    }
+
+    await prisma.payment.update({
+      where: { id: payment.id },
+      data: {
+        gatewayRef: gatewayData.reference,
+        gatewayStatus: gatewayData.gatewayStatus,
         metadata: {
           checkoutSessionId,
-          authorizationUrl: response.data.authorization_url
+          ...gatewayData.metadata
         }
       }
     });
 
+    await prisma.checkoutSession.create({
+      data: {
+        id: checkoutSessionId,
+        buyerId: userId,
+        orderIds: [orderId],
+        totalAmount: amount,
+        currency,
+        status: 'AWAITING_PAYMENT',
+        paymentRef: gatewayData.reference,
+        authorizationUrl: gatewayData.authorizationUrl || null,
+        attempts: 1,
+        expiresAt: getCheckoutSessionExpiry()
+      }
+    });
+
     await prisma.order.update({
       where: { id: orderId },
       data: { 
-        paymentId: payment.id,
-        checkoutSession: checkoutSessionId
+        checkoutSession: checkoutSessionId,
+        ...(isMobileMoney && { paymentMethod: 'MOBILE_MONEY', paymentProvider: provider })
       }
     });
 
@@ -256,12 +571,18 @@ export const initiatePayment = async (req, res) => {
 
     res.status(200).json({
       success: true,
-      message: 'Payment initiated successfully.',
+      message: isMobileMoney
+        ? 'Mobile money charge started. Complete it on your phone.'
+        : 'Payment initiated successfully.',
       data: {
         checkoutSessionId,
-        authorizationUrl: response.data.authorization_url,
-        reference: response.data.reference,
-        paymentId: payment.id
+        authorizationUrl: gatewayData.authorizationUrl || null,
+        reference: gatewayData.reference,
+        paymentId: payment.id,
+        ...(isMobileMoney && {
+          chargeStatus: gatewayData.chargeStatus,
+          displayText: gatewayData.displayText
+        })
       }
     });
 
@@ -275,29 +596,202 @@ export const initiatePayment = async (req, res) => {
   }
 };
 
-export const handlePaystackWebhook = async (req, res) => {
+export const submitMobileMoneyOtp = async (req, res) => {
   try {
-    const { event, data } = req.body;
+    const { reference, otp } = req.body;
+    const userId = req.user.userId;
 
-    function verifyPaystackSignature(req) {
-      const hash = crypto
-        .createHmac('sha512', process.env.PAYSTACK_SECRET_KEY)
-        .update(JSON.stringify(req.body))
-        .digest('hex');
-      
-      return hash === req.headers['x-paystack-signature'];
+    if (!reference || !otp) {
+      return res.status(400).json({
+        success: false,
+        message: 'Reference and OTP are required.'
+      });
     }
 
-    if (!verifyPaystackSignature(req)) {
-      return res.status(401).send('Unauthorized');
+    const payment = await prisma.payment.findFirst({
+      where: { gatewayRef: reference },
+      include: { order: { select: { buyerId: true } } }
+    });
+
+    if (!payment) {
+      return res.status(404).json({
+        success: false,
+        message: 'Payment record not found.'
+      });
+    }
+
+    if (payment.order.buyerId !== userId) {
+      return res.status(403).json({
+        success: false,
+        message: 'Unauthorized to complete this payment.'
+      });
+    }
+
+    if (payment.status !== 'PENDING' || payment.metadata?.channel !== 'mobile_money') {
+      return res.status(400).json({
+        success: false,
+        message: 'This payment is not waiting for a mobile money OTP.'
+      });
+    }
+
+    const charge = await submitChargeOtp(reference, String(otp).trim());
+
+    if (!charge.success) {
+      return res.status(502).json({
+        success: false,
+        message: 'Could not reach the mobile money provider. Please try again later.',
+        error: charge.error
+      });
     }
 
-    if (event === 'charge.success') {
-      await handleSuccessfulCharge(data);
-    } else if (event === 'charge.failed') {
-      await handleFailedCharge(data);
+    await prisma.payment.update({
+      where: { id: payment.id },
+      data: { gatewayStatus: charge.status }
+    });
+
+    if (charge.status === 'failed') {
+      return res.status(400).json({
+        success: false,
+        message: charge.displayText || 'The OTP was not accepted.'
+      });
     }
 
+    res.status(200).json({
+      success: true,
+      message: 'OTP submitted successfully.',
+      data: {
+        reference,
+        chargeStatus: charge.status,
+        displayText: charge.displayText
+      }
+    });
+
+  } catch (error) {
+    console.error('Error submitting mobile money OTP:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to submit OTP',
+      error: error.message
+    });
+  }
+};
+
+// Paystack events we act on; anything else is stored and marked IGNORED
+const WEBHOOK_HANDLERS = {
+  'charge.success': (data) => handleSuccessfulCharge(data),
+  'charge.failed': (data) => handleFailedCharge(data),
+  'transfer.success': (data) => handleTransferWebhook(data, 'SUCCESS'),
+  'transfer.failed': (data) => handleTransferWebhook(data, 'FAILED'),
+  'transfer.reversed': (data) => handleTransferWebhook(data, 'REVERSED'),
+  'refund.processed': (data) => handleRefundProcessed(data)
+};
+
+// An event still RECEIVED this long after it was claimed is taken to have died mid-run
+const STALE_WEBHOOK_CLAIM_MINUTES = parseInt(process.env.WEBHOOK_STALE_CLAIM_MINUTES) || 5;
+
+// Claim a stored event to run again: one that failed, or one whose last run never finished
+const claimWebhookEvent = (eventId) =>
+  prisma.webhookEvent.updateMany({
+    where: {
+      id: eventId,
+      OR: [
+        { status: 'FAILED' },
+        {
+          status: 'RECEIVED',
+          claimedAt: { lte: new Date(Date.now() - STALE_WEBHOOK_CLAIM_MINUTES * 60 * 1000) }
+        }
+      ]
+    },
+    data: { status: 'RECEIVED', claimedAt: new Date() }
+  });
+
+// Run the handler for a stored event and record the outcome on it
+const processWebhookEvent = async (webhookEvent) => {
+  const handler = WEBHOOK_HANDLERS[webhookEvent.event];
+
+  if (!handler) {
+    return prisma.webhookEvent.update({
+      where: { id: webhookEvent.id },
+      data: { status: 'IGNORED', processedAt: new Date() }
+    });
+  }
+
+  try {
+    await handler(webhookEvent.payload.data || {});
+
+    return await prisma.webhookEvent.update({
+      where: { id: webhookEvent.id },
+      data: {
+        status: 'PROCESSED',
+        attempts: { increment: 1 },
+        errorMessage: null,
+        processedAt: new Date()
+      }
+    });
+  } catch (error) {
+    await prisma.webhookEvent.update({
+      where: { id: webhookEvent.id },
+      data: {
+        status: 'FAILED',
+        attempts: { increment: 1 },
+        errorMessage: error.message
+      }
+    });
+    throw error;
+  }
+};
+
+// Store an event under its dedup key and run it, unless the same event was already handled.
+// Payment polls feed the outcomes they see through here too, so a poll and the webhook for the
+// same charge settle it once between them.
+const ingestWebhookEvent = async ({ event, data, payload, signature = null, rawBody }) => {
+  const eventKey = buildWebhookEventKey(event, data);
+  let webhookEvent;
+
+  try {
+    webhookEvent = await prisma.webhookEvent.create({
+      data: {
+        event,
+        eventKey,
+        reference: getWebhookReference(data),
+        signature,
+        signatureValid: true,
+        rawBody,
+        payload
+      }
+    });
+  } catch (error) {
+    if (error.code !== 'P2002') throw error;
+
+    // Paystack redelivers until it gets a 200; only a delivery that failed or stalled last time
+    // is worth running again
+    const existing = await prisma.webhookEvent.findUnique({ where: { eventKey } });
+    const claimed = await claimWebhookEvent(existing.id);
+
+    if (claimed.count === 0) {
+      console.log(`Webhook: Duplicate ${event} delivery for ${existing.reference}, skipping`);
+      return;
+    }
+    webhookEvent = existing;
+  }
+
+  await processWebhookEvent(webhookEvent);
+};
+
+export const handlePaystackWebhook = async (req, res) => {
+  try {
+    const { event, data = {} } = req.body || {};
+    const signature = req.headers['x-paystack-signature'] || null;
+    const rawBody = req.rawBody ? req.rawBody.toString('utf8') : '';
+
+    // Unsigned requests are only logged; storing them would let anyone fill the events table
+    if (!verifyPaystackSignature(req.rawBody, signature)) {
+      console.warn(`Webhook: Rejected ${event || 'unknown'} delivery with an invalid signature from ${req.ip}`);
+      return res.status(401).send('Unauthorized');
+    }
+
+    await ingestWebhookEvent({ event, data, payload: req.body, signature, rawBody });
+
     res.status(200).send('OK');
 
   } catch (error) {
@@ -306,6 +800,164 @@ export const handlePaystackWebhook = async (req, res) => {
   }
 };
 
+export const getWebhookEvents = async (req, res) => {
+  try {
+    const { status, event, reference, page = 1, limit = 20 } = req.query;
+    const skip = (parseInt(page) - 1) * parseInt(limit);
+
+    const where = {
+      ...(status && { status }),
+      ...(event && { event }),
+      ...(reference && { reference })
+    };
+
+    const [events, total] = await Promise.all([
+      prisma.webhookEvent.findMany({
+        where,
+        select: {
+          id: true,
+          provider: true,
+          event: true,
+          reference: true,
+          signatureValid: true,
+          status: true,
+          attempts: true,
+          errorMessage: true,
+          receivedAt: true,
+          claimedAt: true,
+          processedAt: true
+        },
+        orderBy: { receivedAt: 'desc' },
+        skip,
+        take: parseInt(limit)
+      }),
+      prisma.webhookEvent.count({ where })
+    ]);
+
+    res.status(200).json({
+      success: true,
+      data: {
+        events,
+        pagination: {
+          page: parseInt(page),
+          limit: parseInt(limit),
+          total,
+          totalPages: Math.ceil(total / parseInt(limit))
+        }
+      }
+    });
+  } catch (error) {
+    console.error('Error fetching webhook events:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+      error: error.message
+    });
+  }
+};
+
+export const replayWebhookEvent = async (req, res) => {
+  try {
+    const { eventId } = req.params;
+
+    const webhookEvent = await prisma.webhookEvent.findUnique({ where: { id: eventId } });
+    if (!webhookEvent) {
+      return res.status(404).json({
+        success: false,
+        message: 'Webhook event not found.'
+      });
+    }
+
+    if (!webhookEvent.signatureValid) {
+      return res.status(400).json({
+        success: false,
+        message: 'Events that failed signature verification cannot be replayed.'
+      });
+    }
+
+    // Claim the event so a replay can't overlap a redelivery from Paystack
+    const claimed = await claimWebhookEvent(eventId);
+
+    if (claimed.count === 0) {
+      return res.status(409).json({
+        success: false,
+        message: webhookEvent.status === 'RECEIVED'
+          ? `This event is still being processed. It can be replayed if it hasn't finished within ${STALE_WEBHOOK_CLAIM_MINUTES} minutes.`
+          : `Only failed or stalled events can be replayed. This event is ${webhookEvent.status}.`
+      });
+    }
+
+    try {
+      await processWebhookEvent(webhookEvent);
+    } catch (processError) {
+      console.error(`Replay of webhook event ${eventId} failed:`, processError);
+    }
+
+    const updated = await prisma.webhookEvent.findUnique({ where: { id: eventId } });
+
+    res.status(200).json({
+      success: updated.status === 'PROCESSED',
+      message: updated.status === 'PROCESSED'
+        ? 'Webhook event reprocessed successfully.'
+        : `Webhook event failed again: ${updated.errorMessage}`,
+      data: updated
+    });
+  } catch (error) {
+    console.error('Error replaying webhook event:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+      error: error.message
+    });
+  }
+};
+
+// Move a paid order to CONFIRMED. If it has already left PENDING (say it was cancelled while the
+// buyer was paying), only the payment is recorded and the escrow stays on hold for a refund.
+// Returns whether the order was confirmed.
+async function confirmPaidOrder(orderId) {
+  try {
+    await transitionOrder(orderId, 'CONFIRMED', {
+      actor: ORDER_ACTORS.SYSTEM,
+      reason: 'Payment received',
+      data: { paymentStatus: 'SUCCESS' },
+      notify: false
+    });
+    return true;
+  } catch (error) {
+    if (!getLifecycleErrorStatus(error)) throw error;
+
+    // A replay of an event whose earlier run confirmed the order before failing further on
+    const current = await prisma.order.findUnique({ where: { id: orderId }, select: { status: true } });
+    if (current?.status === 'CONFIRMED') return true;
+
+    console.error(`Payment received for order ${orderId} that could not be confirmed: ${error.message}`);
+    await prisma.order.update({
+      where: { id: orderId },
+      data: { paymentStatus: 'SUCCESS' }
+    });
+    return false;
+  }
+}
+
+// Hold a paid order's money in escrow; an existing escrow is kept, so replays don't add another
+async function createPaymentEscrow(payment) {
+  const escrowReleaseDate = new Date();
+  escrowReleaseDate.setDate(escrowReleaseDate.getDate() + 4);
+
+  return prisma.escrow.upsert({
+    where: { orderId: payment.orderId },
+    update: {},
+    create: {
+      paymentId: payment.id,
+      orderId: payment.orderId,
+      amountHeld: payment.amount,
+      currency: payment.currency,
+      releaseDate: escrowReleaseDate
+    }
+  });
+}
+
 async function handleSuccessfulCharge(data) {
   const { reference, amount: gatewayAmountKobo, metadata } = data;
   const { orderId, checkoutSessionId, orderIds } = metadata;
@@ -323,24 +975,49 @@ async function handleSuccessfulCharge(data) {
 }
 
 async function handleSingleOrderPayment(reference, gatewayAmountKobo, orderId, gatewayData) {
-  const payment = await prisma.payment.findFirst({
-    where: { gatewayRef: reference },
+  // Looked up by order rather than reference: a retried payment moves the order to a new
+  // reference while the earlier charge can still go through
+  const payment = await prisma.payment.findUnique({
+    where: { orderId },
     include: { 
       order: { 
         include: { 
           store: { include: { user: true } },
           buyer: true
         } 
-      } 
+      },
+      escrow: true
     }
   });
 
+  // Failing keeps the event replayable once the payment record is sorted out
   if (!payment) {
-    console.log(`Webhook: Payment not found for reference ${reference}`);
-    return;
+    throw new Error(`Payment not found for order ${orderId} (reference ${reference})`);
+  }
+
+  if (payment.gatewayRef !== reference) {
+    const gatewayAmount = gatewayAmountKobo / 100;
+    const currency = gatewayData.currency || payment.currency;
+
+    if (payment.status === 'SUCCESS') {
+      await refundStaleCharge(reference, gatewayAmount, currency, payment.order.buyerId, 'Order was already paid through another attempt');
+      return;
+    }
+
+    if (Math.abs(gatewayAmount - payment.order.totalAmount) > 0.01) {
+      await refundStaleCharge(reference, gatewayAmount, currency, payment.order.buyerId, 'Order changed after this charge was started');
+      return;
+    }
+
+    // Nothing has been paid yet, so the earlier charge settles the order
+    await prisma.payment.updateMany({
+      where: { id: payment.id, status: { not: 'SUCCESS' } },
+      data: { gatewayRef: reference }
+    });
   }
 
-  if (payment.status === 'SUCCESS') {
+  // A paid order with no escrow is an earlier run that failed part way; finish it off
+  if (payment.status === 'SUCCESS' && payment.escrow) {
     console.log(`Webhook: Duplicate success event for reference ${reference}`);
     return;
   }
@@ -349,39 +1026,32 @@ async function handleSingleOrderPayment(reference, gatewayAmountKobo, orderId, g
   const gatewayAmount = gatewayAmountKobo / 100;
 
   if (Math.abs(gatewayAmount - expectedAmount) > 0.01) {
-    console.error(`Amount mismatch for order ${orderId}. Expected: ${expectedAmount}, Got: ${gatewayAmount}`);
-    return;
+    throw new Error(`Amount mismatch for order ${orderId}. Expected: ${expectedAmount}, Got: ${gatewayAmount}`);
   }
 
-  await prisma.payment.update({
-    where: { id: payment.id },
-    data: {
-      gatewayStatus: 'success',
-      status: 'SUCCESS',
-      metadata: { ...payment.metadata, gateway_response: gatewayData }
-    }
-  });
+  // Only one delivery gets to move the payment to SUCCESS and create the escrow
+  if (payment.status !== 'SUCCESS') {
+    const claimed = await prisma.payment.updateMany({
+      where: { id: payment.id, status: { not: 'SUCCESS' } },
+      data: {
+        gatewayStatus: 'success',
+        status: 'SUCCESS',
+        metadata: { ...payment.metadata, gateway_response: gatewayData }
+      }
+    });
 
-  const updatedOrder = await prisma.order.update({
-    where: { id: orderId },
-    data: {
-      status: 'CONFIRMED',
-      paymentStatus: 'SUCCESS'
+    if (claimed.count === 0) {
+      console.log(`Webhook: Duplicate success event for reference ${reference}`);
+      return;
     }
-  });
+  }
 
-  const escrowReleaseDate = new Date();
-  escrowReleaseDate.setDate(escrowReleaseDate.getDate() + 4);
+  // Everything from here is safe to run again when the event is replayed
+  const confirmed = await confirmPaidOrder(orderId);
 
-  const escrow = await prisma.escrow.create({
-    data: {
-      paymentId: payment.id,
-      orderId,
-      amountHeld: payment.amount,
-      currency: payment.currency,
-      releaseDate: escrowReleaseDate
-    }
-  });
+  await confirmReservations(orderId);
+
+  const escrow = await createPaymentEscrow(payment);
 
   await prisma.payment.update({
     where: { id: payment.id },
@@ -443,81 +1113,120 @@ async function handleSingleOrderPayment(reference, gatewayAmountKobo, orderId, g
   await cache.del(`store:${payment.order.storeId}:orders`);
   
   if (payment.order.checkoutSession) {
-    await cache.del(`checkout:${payment.order.checkoutSession}:user:${payment.order.buyerId}`);
+    await markCheckoutSessionPaid(payment.order.checkoutSession, confirmed ? [] : [orderId]);
   }
 }
 
+// Refund a charge that can't be applied to its orders, e.g. one made on an older gateway page
+// or an earlier mobile money prompt after the orders were already paid through a newer one
+async function refundStaleCharge(reference, gatewayAmount, currency, buyerId, reason) {
+  console.error(`Refunding charge ${reference} (${gatewayAmount} ${currency}): ${reason}`);
+
+  await createGatewayRefund({
+    gatewayRef: reference,
+    amount: gatewayAmount,
+    currency,
+    reason
+  });
+
+  await sendNotification(
+    buyerId,
+    'Payment Refunded',
+    `A payment of ${gatewayAmount.toFixed(2)} ${currency} could not be applied to your orders and is being refunded.`,
+    'ORDER_PAYMENT_REFUNDED',
+    { reference }
+  );
+}
+
 async function handleMultiStorePayment(reference, gatewayAmountKobo, orderIds, checkoutSessionId, gatewayData) {
-  // Find all payments for this checkout session
+  // Orders are looked up by id rather than reference: resuming a session or starting a new one
+  // moves them to a new reference while the older gateway page can still be paid
   const payments = await prisma.payment.findMany({
-    where: { 
-      gatewayRef: reference,
-      orderId: { in: orderIds }
-    },
+    where: { orderId: { in: orderIds } },
     include: { 
       order: { 
         include: { 
           store: { include: { user: true } },
           buyer: true
         } 
-      } 
+      },
+      escrow: true
     }
   });
 
+  // Failing keeps the event replayable once the payment records are sorted out
   if (payments.length === 0) {
-    console.log(`Webhook: No payments found for reference ${reference}`);
-    return;
+    throw new Error(`No payments found for checkout session ${checkoutSessionId} (reference ${reference})`);
+  }
+
+  const gatewayAmount = gatewayAmountKobo / 100;
+  const isStaleReference = payments.some(p => p.gatewayRef !== reference);
+
+  if (isStaleReference) {
+    const buyerId = payments[0].order.buyerId;
+    const currency = gatewayData.currency || payments[0].currency;
+
+    // Another charge already paid for some of these orders, so this one would be a double charge
+    if (payments.length !== orderIds.length || payments.some(p => p.status === 'SUCCESS')) {
+      await refundStaleCharge(reference, gatewayAmount, currency, buyerId, 'Orders were already paid through another checkout');
+      return;
+    }
+
+    const staleTotal = payments.reduce((sum, p) => sum + p.order.totalAmount, 0);
+    if (Math.abs(gatewayAmount - staleTotal) > 0.01) {
+      await refundStaleCharge(reference, gatewayAmount, currency, buyerId, 'Checkout changed after this charge was started');
+      return;
+    }
+
+    // Nothing has been paid yet, so the older charge settles the orders
+    await prisma.payment.updateMany({
+      where: { id: { in: payments.map(p => p.id) }, status: { not: 'SUCCESS' } },
+      data: { gatewayRef: reference }
+    });
   }
 
-  // Check for duplicates
-  const successfulPayments = payments.filter(p => p.status === 'SUCCESS');
-  if (successfulPayments.length === payments.length) {
+  // Check for duplicates; a paid order with no escrow is an earlier run that failed part way
+  const settledPayments = payments.filter(p => p.status === 'SUCCESS' && p.escrow);
+  if (settledPayments.length === payments.length) {
     console.log(`Webhook: All payments already processed for reference ${reference}`);
     return;
   }
 
   // Verify total amount
   const expectedTotal = payments.reduce((sum, p) => sum + p.order.totalAmount, 0);
-  const gatewayAmount = gatewayAmountKobo / 100;
 
   if (Math.abs(gatewayAmount - expectedTotal) > 0.01) {
-    console.error(`Amount mismatch for checkout session ${checkoutSessionId}. Expected: ${expectedTotal}, Got: ${gatewayAmount}`);
-    return;
+    throw new Error(`Amount mismatch for checkout session ${checkoutSessionId}. Expected: ${expectedTotal}, Got: ${gatewayAmount}`);
   }
 
+  // Orders that were paid for but could no longer be confirmed, e.g. cancelled mid-payment
+  const unconfirmedOrderIds = [];
+
   // Update all payments and orders
   for (const payment of payments) {
-    if (payment.status !== 'SUCCESS') {
-      await prisma.payment.update({
-        where: { id: payment.id },
-        data: {
-          gatewayStatus: 'success',
-          status: 'SUCCESS',
-          metadata: { ...payment.metadata, gateway_response: gatewayData }
-        }
-      });
+    if (!payment.escrow) {
+      if (payment.status !== 'SUCCESS') {
+        const claimed = await prisma.payment.updateMany({
+          where: { id: payment.id, status: { not: 'SUCCESS' } },
+          data: {
+            gatewayStatus: 'success',
+            status: 'SUCCESS',
+            metadata: { ...payment.metadata, gateway_response: gatewayData }
+          }
+        });
 
-      await prisma.order.update({
-        where: { id: payment.orderId },
-        data: {
-          status: 'CONFIRMED',
-          paymentStatus: 'SUCCESS'
-        }
-      });
+        if (claimed.count === 0) continue;
+      }
 
-      // Create escrow for each order
-      const escrowReleaseDate = new Date();
-      escrowReleaseDate.setDate(escrowReleaseDate.getDate() + 4);
+      const confirmed = await confirmPaidOrder(payment.orderId);
+      if (!confirmed) {
+        unconfirmedOrderIds.push(payment.orderId);
+      }
 
-      const escrow = await prisma.escrow.create({
-        data: {
-          paymentId: payment.id,
-          orderId: payment.orderId,
-          amountHeld: payment.amount,
-          currency: payment.currency,
-          releaseDate: escrowReleaseDate
-        }
-      });
+      await confirmReservations(payment.orderId);
+
+      // Create escrow for each order
+      const escrow = await createPaymentEscrow(payment);
 
       await prisma.payment.update({
         where: { id: payment.id },
@@ -530,26 +1239,28 @@ async function handleMultiStorePayment(reference, gatewayAmountKobo, orderIds, c
       });
 
       // Send notifications
-      await sendNotification(
-        payment.order.store.userId,
-        'New Order Confirmed',
-        `You have a new confirmed order #${payment.orderId}.`,
-        'ORDER_CONFIRMED',
-        { orderId: payment.orderId }
-      );
-
-      await sendEmailNotification({
-        to: payment.order.store.user.email,
-        toName: payment.order.store.user.firstName,
-        subject: 'New Order Confirmed',
-        template: 'generic',
-        templateData: {
-          title: 'New Order Confirmed',
-          message: `You have a new confirmed order #${payment.orderId}.`,
-          ctaText: 'View Order',
-          ctaUrl: `${process.env.FRONTEND_URL}/seller/orders/${payment.orderId}`
-        }
-      });
+      if (confirmed) {
+        await sendNotification(
+          payment.order.store.userId,
+          'New Order Confirmed',
+          `You have a new confirmed order #${payment.orderId}.`,
+          'ORDER_CONFIRMED',
+          { orderId: payment.orderId }
+        );
+
+        await sendEmailNotification({
+          to: payment.order.store.user.email,
+          toName: payment.order.store.user.firstName,
+          subject: 'New Order Confirmed',
+          template: 'generic',
+          templateData: {
+            title: 'New Order Confirmed',
+            message: `You have a new confirmed order #${payment.orderId}.`,
+            ctaText: 'View Order',
+            ctaUrl: `${process.env.FRONTEND_URL}/seller/orders/${payment.orderId}`
+          }
+        });
+      }
 
       // Invalidate caches
       await cache.del(`order:${payment.orderId}:user:${payment.order.buyerId}`);
@@ -562,13 +1273,16 @@ async function handleMultiStorePayment(reference, gatewayAmountKobo, orderIds, c
   const buyerId = payments[0].order.buyerId;
   const buyerEmail = payments[0].order.buyer.email;
   const buyerName = payments[0].order.buyer.firstName;
+  const unconfirmedNote = unconfirmedOrderIds.length > 0
+    ? ` ${unconfirmedOrderIds.length} order(s) could no longer be confirmed and will be refunded: #${unconfirmedOrderIds.join(', #')}.`
+    : '';
 
   await sendNotification(
     buyerId,
     'Payment Successful',
-    `Your payment for ${payments.length} order(s) was successful.`,
+    `Your payment for ${payments.length} order(s) was successful.${unconfirmedNote}`,
     'ORDER_PAYMENT_SUCCESS',
-    { checkoutSessionId, orderCount: payments.length }
+    { checkoutSessionId, orderCount: payments.length, unconfirmedOrderIds }
   );
 
   await sendEmailNotification({
@@ -578,14 +1292,19 @@ async function handleMultiStorePayment(reference, gatewayAmountKobo, orderIds, c
     template: 'generic',
     templateData: {
       title: 'Payment Successful',
-      message: `Your payment for ${payments.length} order(s) was successful. Total: ${gatewayAmount.toFixed(2)} ${payments[0].currency}`,
+      message: `Your payment for ${payments.length} order(s) was successful. Total: ${gatewayAmount.toFixed(2)} ${payments[0].currency}.${unconfirmedNote}`,
       ctaText: 'View Orders',
       ctaUrl: `${process.env.FRONTEND_URL}/orders`
     }
   });
 
   await cache.del(`user:${buyerId}:orders`);
-  await cache.del(`checkout:${checkoutSessionId}:user:${buyerId}`);
+
+  // The orders may have moved to a newer session since this charge was started; that one is paid too
+  const sessionIds = new Set([checkoutSessionId, ...payments.map(p => p.order.checkoutSession)].filter(Boolean));
+  for (const sessionId of sessionIds) {
+    await markCheckoutSessionPaid(sessionId, unconfirmedOrderIds);
+  }
 }
 
 async function handleFailedCharge(data) {
@@ -608,26 +1327,41 @@ async function handleFailedCharge(data) {
     return;
   }
 
+  let failedCount = 0;
+
   for (const payment of payments) {
-    if (payment.status !== 'FAILED') {
-      await prisma.payment.update({
-        where: { id: payment.id },
-        data: {
-          gatewayStatus: 'failed',
-          status: 'FAILED',
-          metadata: { ...payment.metadata, gateway_response: data }
-        }
-      });
+    // Only a payment still waiting on this charge is failed, and only once across deliveries
+    const claimed = await prisma.payment.updateMany({
+      where: { id: payment.id, status: 'PENDING' },
+      data: {
+        gatewayStatus: 'failed',
+        status: 'FAILED',
+        metadata: { ...payment.metadata, gateway_response: data }
+      }
+    });
+
+    if (claimed.count > 0) {
+      failedCount += 1;
 
       await prisma.order.update({
         where: { id: payment.orderId },
         data: { paymentStatus: 'FAILED' }
       });
 
+      // Give the held stock back to other buyers
+      await prisma.$transaction(async (tx) => {
+        await releaseReservations(payment.orderId, 'PAYMENT_FAILED', tx);
+      });
+
       await cache.del(`order:${payment.orderId}:user:${payment.order.buyerId}`);
     }
   }
 
+  if (failedCount === 0) {
+    console.log(`Webhook: Duplicate failure event for reference ${reference}`);
+    return;
+  }
+
   // Send notification to buyer
   const buyerId = payments[0].order.buyerId;
   const buyerEmail = payments[0].order.buyer.email;
@@ -636,7 +1370,7 @@ async function handleFailedCharge(data) {
   await sendNotification(
     buyerId,
     'Payment Failed',
-    `Your payment for ${payments.length} order(s) failed. Please try again.`,
+    `Your payment for ${failedCount} order(s) failed. Please try again.`,
     'ORDER_PAYMENT_FAILED',
     { checkoutSessionId: checkoutSessionId || null }
   );
@@ -648,14 +1382,14 @@ async function handleFailedCharge(data) {
     template: 'generic',
     templateData: {
       title: 'Payment Failed',
-      message: `Your payment for ${payments.length} order(s) failed. Please try again.`,
+      message: `Your payment for ${failedCount} order(s) failed. Please try again.`,
       ctaText: 'Retry Payment',
       ctaUrl: `${process.env.FRONTEND_URL}/checkout`
     }
   });
 
   if (checkoutSessionId) {
-    await cache.del(`checkout:${checkoutSessionId}:user:${buyerId}`);
+    await markCheckoutSessionFailed(checkoutSessionId, data.gateway_response || 'Payment failed');
   }
 }
 
@@ -714,15 +1448,26 @@ export const getPaymentDetails = async (req, res) => {
   }
 };
 
-// NEW: Get payments by checkout session
-export const getPaymentsByCheckoutSession = async (req, res) => {
+// Get a checkout session with its orders, so the buyer can see where it stands and resume it
+export const getCheckoutSession = async (req, res) => {
   try {
     const { sessionId } = req.params;
     const userId = req.user.userId;
 
+    const session = await prisma.checkoutSession.findUnique({
+      where: { id: sessionId }
+    });
+
+    if (!session || session.buyerId !== userId) {
+      return res.status(404).json({
+        success: false,
+        message: 'Checkout session not found.'
+      });
+    }
+
     const orders = await prisma.order.findMany({
       where: { 
-        checkoutSession: sessionId,
+        id: { in: session.orderIds },
         buyerId: userId
       },
       include: {
@@ -740,35 +1485,30 @@ export const getPaymentsByCheckoutSession = async (req, res) => {
       }
     });
 
-    if (orders.length === 0) {
-      return res.status(404).json({
-        success: false,
-        message: 'No orders found for this checkout session.'
-      });
-    }
-
-    const totalAmount = orders.reduce((sum, order) => sum + order.totalAmount, 0);
-    const allPaymentsSuccessful = orders.every(order => order.payment?.status === 'SUCCESS');
+    const status = getCheckoutSessionStatus(session);
+    const allPaymentsSuccessful = orders.length > 0 &&
+      orders.every(order => order.payment?.status === 'SUCCESS');
 
     res.status(200).json({
       success: true,
       data: {
-        checkoutSession: sessionId,
+        checkoutSession: { ...session, status },
         orders,
         summary: {
           totalOrders: orders.length,
-          totalAmount,
+          totalAmount: session.totalAmount,
           allPaymentsSuccessful,
-          currency: orders[0]?.currency || 'GHS'
+          currency: session.currency,
+          canResume: !PAID_SESSION_STATUSES.includes(status) && orders.length > 0
         }
       }
     });
 
   } catch (error) {
-    console.error('Error fetching payments by checkout session:', error);
+    console.error('Error fetching checkout session:', error);
     res.status(500).json({
       success: false,
-      message: 'Failed to fetch payments',
+      message: 'Failed to fetch checkout session',
       error: error.message
     });
   }
@@ -852,7 +1592,7 @@ export const verifyPayment = async (req, res) => {
       });
     }
 
-    const payments = await prisma.payment.findMany({
+    const findPayments = () => prisma.payment.findMany({
       where: { gatewayRef: reference },
       include: {
         order: {
@@ -864,6 +1604,8 @@ export const verifyPayment = async (req, res) => {
       }
     });
 
+    let payments = await findPayments();
+
     if (payments.length === 0) {
       return res.status(404).json({
         success: false,
@@ -880,11 +1622,31 @@ export const verifyPayment = async (req, res) => {
       });
     }
 
+    // Buyers poll here while approving a mobile money charge. If the poll sees the outcome first
+    // it is recorded as the event the webhook will deliver, so whichever arrives second is a duplicate.
+    // The transaction was fetched from Paystack with our secret key, so it is as trusted as a signed delivery.
+    const gatewayStatus = verification.data.status;
+    const hasPendingPayment = payments.some(p => p.status === 'PENDING');
+    const pollEvent = { success: 'charge.success', failed: 'charge.failed' }[gatewayStatus];
+
+    if (hasPendingPayment && pollEvent) {
+      const payload = { event: pollEvent, data: verification.data };
+      await ingestWebhookEvent({
+        event: pollEvent,
+        data: verification.data,
+        payload,
+        rawBody: JSON.stringify(payload)
+      });
+      payments = await findPayments();
+    }
+
     res.status(200).json({
       success: true,
       data: {
         payments,
         gatewayData: verification.data,
+        gatewayStatus,
+        isPending: PENDING_CHARGE_STATUSES.includes(gatewayStatus),
         isMultiStore: payments.length > 1
       }
     });
@@ -0,0 +1,262 @@
+// controllers/payoutcontroller.js
+import prisma from '../config/prisma.js';
+import { verifyTransfer } from '../utils/transferUtils.js';
+import {
+  TRANSFER_STATUSES,
+  getFinalTransferStatus,
+  getStorePayoutSummary,
+  buildPayoutStatementCsv
+} from '../utils/payoutUtils.js';
+import { handleTransferWebhook } from './escrowcontroller.js';
+
+const MAX_STATEMENT_DAYS = 366;
+
+const getSellerStore = (userId) =>
+  prisma.store.findFirst({
+    where: { userId },
+    select: { id: true, name: true }
+  });
+
+const parseDate = (value) => {
+  if (!value) return null;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? undefined : date;
+};
+
+export const getPayoutSummary = async (req, res) => {
+  try {
+    const store = await getSellerStore(req.user.userId);
+
+    if (!store) {
+      return res.status(404).json({
+        success: false,
+        message: 'Store not found for this seller.'
+      });
+    }
+
+    const summary = await getStorePayoutSummary(store.id);
+
+    res.status(200).json({
+      success: true,
+      data: summary
+    });
+
+  } catch (error) {
+    console.error('Error fetching payout summary:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch payout summary',
+      error: error.message
+    });
+  }
+};
+
+export const getPayoutHistory = async (req, res) => {
+  try {
+    const { page = 1, limit = 20, status, from, to } = req.query;
+    const skip = (parseInt(page) - 1) * parseInt(limit);
+
+    const store = await getSellerStore(req.user.userId);
+
+    if (!store) {
+      return res.status(404).json({
+        success: false,
+        message: 'Store not found for this seller.'
+      });
+    }
+
+    if (status && !TRANSFER_STATUSES.includes(status)) {
+      return res.status(400).json({
+        success: false,
+        message: `Invalid status. Must be one of: ${TRANSFER_STATUSES.join(', ')}`
+      });
+    }
+
+    const fromDate = parseDate(from);
+    const toDate = parseDate(to);
+
+    if (fromDate === undefined || toDate === undefined) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid date range.'
+      });
+    }
+
+    const where = {
+      storeId: store.id,
+      ...(status && { status }),
+      ...((fromDate || toDate) && {
+        initiatedAt: {
+          ...(fromDate && { gte: fromDate }),
+          ...(toDate && { lte: toDate })
+        }
+      })
+    };
+
+    const [transfers, total] = await Promise.all([
+      prisma.transferLog.findMany({
+        where,
+        orderBy: { initiatedAt: 'desc' },
+        skip,
+        take: parseInt(limit)
+      }),
+      prisma.transferLog.count({ where })
+    ]);
+
+    res.status(200).json({
+      success: true,
+      data: {
+        transfers,
+        pagination: {
+          total,
+          page: parseInt(page),
+          limit: parseInt(limit),
+          totalPages: Math.ceil(total / parseInt(limit))
+        }
+      }
+    });
+
+  } catch (error) {
+    console.error('Error fetching payout history:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch payout history',
+      error: error.message
+    });
+  }
+};
+
+export const verifyPayoutStatus = async (req, res) => {
+  try {
+    const { transferId } = req.params;
+
+    const store = await getSellerStore(req.user.userId);
+
+    if (!store) {
+      return res.status(404).json({
+        success: false,
+        message: 'Store not found for this seller.'
+      });
+    }
+
+    const transfer = await prisma.transferLog.findFirst({
+      where: { id: transferId, storeId: store.id }
+    });
+
+    if (!transfer) {
+      return res.status(404).json({
+        success: false,
+        message: 'Payout not found.'
+      });
+    }
+
+    const transferKey = transfer.transferCode || transfer.transferRef;
+
+    if (!transferKey) {
+      return res.status(400).json({
+        success: false,
+        message: 'This payout never reached the payment gateway, so there is nothing to check.'
+      });
+    }
+
+    const verification = await verifyTransfer(transferKey);
+
+    if (!verification.success) {
+      return res.status(502).json({
+        success: false,
+        message: 'Could not check the payout with the payment gateway. Please try again later.',
+        error: verification.error
+      });
+    }
+
+    // Settle the log the same way the webhook would if its delivery was missed
+    const finalStatus = getFinalTransferStatus(verification.status);
+    if (finalStatus && finalStatus !== transfer.status) {
+      await handleTransferWebhook(verification.transferData, finalStatus);
+    }
+
+    const updatedTransfer = await prisma.transferLog.findUnique({
+      where: { id: transfer.id }
+    });
+
+    res.status(200).json({
+      success: true,
+      data: {
+        transfer: updatedTransfer,
+        gatewayStatus: verification.status
+      }
+    });
+
+  } catch (error) {
+    console.error('Error verifying payout status:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to verify payout status',
+      error: error.message
+    });
+  }
+};
+
+export const downloadPayoutStatement = async (req, res) => {
+  try {
+    const store = await getSellerStore(req.user.userId);
+
+    if (!store) {
+      return res.status(404).json({
+        success: false,
+        message: 'Store not found for this seller.'
+      });
+    }
+
+    const toDate = parseDate(req.query.to);
+    const fromDate = parseDate(req.query.from);
+
+    if (fromDate === undefined || toDate === undefined) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid date range.'
+      });
+    }
+
+    // Defaults to the last 30 days
+    const to = toDate || new Date();
+    const from = fromDate || new Date(to.getTime() - 30 * 24 * 60 * 60 * 1000);
+
+    if (from > to) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid date range.'
+      });
+    }
+
+    if (to - from > MAX_STATEMENT_DAYS * 24 * 60 * 60 * 1000) {
+      return res.status(400).json({
+        success: false,
+        message: `Statements can cover at most ${MAX_STATEMENT_DAYS} days.`
+      });
+    }
+
+    const transfers = await prisma.transferLog.findMany({
+      where: {
+        storeId: store.id,
+        initiatedAt: { gte: from, lte: to }
+      },
+      orderBy: { initiatedAt: 'asc' }
+    });
+
+    const csv = buildPayoutStatementCsv(transfers, { from, to });
+    const fileName = `payout-statement-${from.toISOString().slice(0, 10)}-to-${to.toISOString().slice(0, 10)}.csv`;
+
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+    res.status(200).send(csv);
+
+  } catch (error) {
+    console.error('Error generating payout statement:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to generate payout statement',
+      error: error.message
+    });
+  }
+};
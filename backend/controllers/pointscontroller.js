@@ -2,14 +2,20 @@ import prisma from '../config/prisma.js'
 import { cache } from '../config/redis.js';
 import { sendEmailNotification } from '../utils/sendEmailNotification.js';
 import { sendNotification } from '../utils/sendnotification.js';
+import {
+  recordPointsTransaction,
+  getPointsBalance,
+  invalidatePointsCache
+} from '../utils/pointsUtils.js';
+import { getLoyaltySettings, getOrCreateReferralCode } from '../utils/loyaltyUtils.js';
+import { recordProductEvent } from '../utils/trendingUtils.js';
 
 
 
-const POINTS_TO_CEDIS_RATE = 0.10;
-
 export const getRedeemableProducts = async (req, res) => {
   try {
     const userId = req.user.userId;
+    const { pointsToCedisRate } = await getLoyaltySettings();
     const { limit = 50 } = req.query;
 
     const limitNum = Math.min(parseInt(limit), 100);
@@ -27,7 +33,7 @@ export const getRedeemableProducts = async (req, res) => {
     }
 
     const userPoints = user.points;
-    const userCedisEquivalent = userPoints * POINTS_TO_CEDIS_RATE;
+    const userCedisEquivalent = userPoints * pointsToCedisRate;
 
     if (userCedisEquivalent <= 0) {
       return res.status(200).json({
@@ -76,7 +82,7 @@ export const getRedeemableProducts = async (req, res) => {
       products,
       userPoints,
       userCedisEquivalent,
-      conversionRate: POINTS_TO_CEDIS_RATE
+      conversionRate: pointsToCedisRate
     };
 
     await cache.set(cacheKey, resultData, 900);
@@ -99,6 +105,7 @@ export const getRedeemableProducts = async (req, res) => {
 export const redeemPointsForProduct = async (req, res) => {
   try {
     const userId = req.user.userId;
+    const { pointsToCedisRate } = await getLoyaltySettings();
     const { productId } = req.params;
     const { quantity = 1, deliveryInfo } = req.body;
 
@@ -165,7 +172,7 @@ export const redeemPointsForProduct = async (req, res) => {
 
     const userPoints = user.points;
     const productTotalCost = product.price * quantity;
-    const requiredPoints = Math.ceil(productTotalCost / POINTS_TO_CEDIS_RATE);
+    const requiredPoints = Math.ceil(productTotalCost / pointsToCedisRate);
 
     if (userPoints < requiredPoints) {
       return res.status(400).json({
@@ -220,6 +227,7 @@ export const redeemPointsForProduct = async (req, res) => {
             create: {
               oldStatus: null,
               newStatus: 'CONFIRMED',
+              actor: 'BUYER',
               changedBy: userId,
               reason: 'Points redemption - Order auto-confirmed'
             }
@@ -249,9 +257,12 @@ export const redeemPointsForProduct = async (req, res) => {
         }
       });
 
-      await tx.user.update({
-        where: { id: userId },
-        data: { points: { decrement: requiredPoints } }
+      await recordPointsTransaction(tx, {
+        userId,
+        type: 'REDEMPTION',
+        points: -requiredPoints,
+        orderId: newOrder.id,
+        description: `Redeemed for ${quantity}x ${product.name}`
       });
 
       await tx.product.update({
@@ -262,6 +273,14 @@ export const redeemPointsForProduct = async (req, res) => {
         }
       });
 
+      await recordProductEvent(tx, {
+        type: 'PURCHASE',
+        productId,
+        storeId: product.storeId,
+        userId,
+        quantity
+      });
+
       return newOrder;
     });
 
@@ -322,12 +341,11 @@ export const redeemPointsForProduct = async (req, res) => {
       console.error('Error sending notification/email for points redemption:', notificationError);
     }
 
-    await cache.del(`user:${userId}:points`);
+    await invalidatePointsCache(userId);
     await cache.del(`user:${userId}:orders`);
     await cache.del(`product:url:${product.url}`);
     await cache.del(`store:${product.storeId}:orders`);
     await cache.del(`store:slug:${product.store.url}`);
-    await cache.del(`user:${userId}:redeemable:products:*`);
 
     res.status(201).json({
       success: true,
@@ -340,6 +358,12 @@ export const redeemPointsForProduct = async (req, res) => {
     });
 
   } catch (error) {
+    if (error.message.includes('Insufficient points')) {
+      return res.status(400).json({
+        success: false,
+        message: 'Insufficient points for this redemption.'
+      });
+    }
     console.error('Error redeeming points for product:', error);
     res.status(500).json({
       success: false,
@@ -352,6 +376,7 @@ export const redeemPointsForProduct = async (req, res) => {
 export const getUserPointsBalance = async (req, res) => {
   try {
     const userId = req.user.userId;
+    const { pointsToCedisRate } = await getLoyaltySettings();
 
     const cacheKey = `user:${userId}:points`;
 
@@ -361,14 +386,14 @@ export const getUserPointsBalance = async (req, res) => {
         success: true,
         data: { 
           points: parseInt(cachedPoints), 
-          cedisEquivalent: parseInt(cachedPoints) * POINTS_TO_CEDIS_RATE 
+          cedisEquivalent: parseInt(cachedPoints) * pointsToCedisRate 
         }
       });
     }
 
     const user = await prisma.user.findUnique({
       where: { id: userId },
-      select: { points: true }
+      select: { id: true }
     });
 
     if (!user) {
@@ -378,14 +403,14 @@ export const getUserPointsBalance = async (req, res) => {
       });
     }
 
-    const points = user.points;
-    const cedisEquivalent = points * POINTS_TO_CEDIS_RATE;
+    const points = await getPointsBalance(userId);
+    const cedisEquivalent = points * pointsToCedisRate;
 
     await cache.set(cacheKey, points, 300);
 
     res.status(200).json({
       success: true,
-      data: { points, cedisEquivalent, conversionRate: POINTS_TO_CEDIS_RATE }
+      data: { points, cedisEquivalent, conversionRate: pointsToCedisRate }
     });
 
   } catch (error) {
@@ -401,13 +426,14 @@ export const getUserPointsBalance = async (req, res) => {
 export const getPointsHistory = async (req, res) => {
   try {
     const userId = req.user.userId;
-    const { page = 1, limit = 20 } = req.query;
+    const { pointsToCedisRate } = await getLoyaltySettings();
+    const { page = 1, limit = 20, type } = req.query;
 
     const pageNum = parseInt(page);
     const limitNum = Math.min(parseInt(limit), 100);
     const skip = (pageNum - 1) * limitNum;
 
-    const cacheKey = `user:${userId}:points:history:page:${pageNum}:limit:${limitNum}`;
+    const cacheKey = `user:${userId}:points:history:page:${pageNum}:limit:${limitNum}:type:${type || 'all'}`;
 
     const cachedHistory = await cache.get(cacheKey);
     if (cachedHistory) {
@@ -418,61 +444,74 @@ export const getPointsHistory = async (req, res) => {
       });
     }
 
-    const [orders, totalOrders] = await Promise.all([
-      prisma.order.findMany({
-        where: {
-          buyerId: userId,
-          paymentMethod: 'POINTS'
-        },
+    const where = {
+      userId,
+      ...(type && { type })
+    };
+
+    const [transactions, totalTransactions, earned, spent] = await Promise.all([
+      prisma.pointsTransaction.findMany({
+        where,
         include: {
-          items: {
-            include: {
-              product: {
+          order: {
+            select: {
+              id: true,
+              status: true,
+              totalAmount: true,
+              items: {
+                select: {
+                  quantity: true,
+                  product: {
+                    select: {
+                      id: true,
+                      name: true,
+                      images: true
+                    }
+                  }
+                }
+              },
+              store: {
                 select: {
                   id: true,
                   name: true,
-                  images: true
+                  url: true
                 }
               }
             }
-          },
-          store: {
-            select: {
-              id: true,
-              name: true,
-              url: true
-            }
           }
         },
         orderBy: { createdAt: 'desc' },
         skip,
         take: limitNum
       }),
-      prisma.order.count({
-        where: {
-          buyerId: userId,
-          paymentMethod: 'POINTS'
-        }
+      prisma.pointsTransaction.count({ where }),
+      prisma.pointsTransaction.aggregate({
+        where: { userId, points: { gt: 0 } },
+        _sum: { points: true }
+      }),
+      prisma.pointsTransaction.aggregate({
+        where: { userId, points: { lt: 0 } },
+        _sum: { points: true }
       })
     ]);
 
-    const totalPointsRedeemed = orders.reduce((sum, order) => {
-      return sum + Math.ceil(order.totalAmount / POINTS_TO_CEDIS_RATE);
-    }, 0);
+    const totalEarned = earned._sum.points || 0;
+    const totalSpent = -(spent._sum.points || 0);
 
     const resultData = {
-      orders,
+      transactions,
       summary: {
-        totalRedemptions: totalOrders,
-        totalPointsRedeemed,
-        conversionRate: POINTS_TO_CEDIS_RATE
+        totalEarned,
+        totalSpent,
+        balance: totalEarned - totalSpent,
+        conversionRate: pointsToCedisRate
       },
       pagination: {
         page: pageNum,
         limit: limitNum,
-        total: totalOrders,
-        totalPages: Math.ceil(totalOrders / limitNum),
-        hasNextPage: pageNum < Math.ceil(totalOrders / limitNum),
+        total: totalTransactions,
+        totalPages: Math.ceil(totalTransactions / limitNum),
+        hasNextPage: pageNum < Math.ceil(totalTransactions / limitNum),
         hasPrevPage: pageNum > 1
       }
     };
@@ -492,4 +531,105 @@ export const getPointsHistory = async (req, res) => {
       error: error.message
     });
   }
-};
\ No newline at end of file
+};
+
+export const adjustUserPoints = async (req, res) => {
+  try {
+    const adminId = req.user.userId;
+    const { userId } = req.params;
+    const { points, reason } = req.body;
+    const amount = parseInt(points, 10);
+
+    if (!Number.isInteger(amount) || amount === 0 || String(amount) !== String(points).trim()) {
+      return res.status(400).json({
+        success: false,
+        message: 'points must be a non-zero whole number.'
+      });
+    }
+
+    if (!reason || !reason.trim()) {
+      return res.status(400).json({
+        success: false,
+        message: 'A reason is required for points adjustments.'
+      });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { id: true }
+    });
+
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        message: 'User not found.'
+      });
+    }
+
+    const entry = await prisma.$transaction((tx) =>
+      recordPointsTransaction(tx, {
+        userId,
+        type: 'ADMIN_ADJUSTMENT',
+        points: amount,
+        description: reason.trim(),
+        createdBy: adminId
+      })
+    );
+
+    await invalidatePointsCache(userId);
+
+    await sendNotification(
+      userId,
+      'Points Balance Updated',
+      amount > 0
+        ? `${amount} points were added to your balance. Reason: ${reason.trim()}`
+        : `${-amount} points were deducted from your balance. Reason: ${reason.trim()}`,
+      'POINTS_ADJUSTED',
+      { transactionId: entry.id, points: amount, newBalance: entry.balanceAfter }
+    );
+
+    res.status(201).json({
+      success: true,
+      message: 'Points adjusted successfully.',
+      data: entry
+    });
+
+  } catch (error) {
+    if (error.message.includes('Insufficient points')) {
+      return res.status(400).json({
+        success: false,
+        message: 'Adjustment would take the balance below zero.'
+      });
+    }
+    console.error('Error adjusting user points:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+      error: error.message
+    });
+  }
+};
+
+export const getReferralInfo = async (req, res) => {
+  try {
+    const userId = req.user.userId;
+
+    const [referralCode, referralsCount] = await Promise.all([
+      getOrCreateReferralCode(userId),
+      prisma.user.count({ where: { referredById: userId } })
+    ]);
+
+    res.status(200).json({
+      success: true,
+      data: { referralCode, referralsCount }
+    });
+
+  } catch (error) {
+    console.error('Error fetching referral info:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+      error: error.message
+    });
+  }
+};
@@ -1,5 +1,6 @@
 import prisma from '../config/prisma.js'
 import { cache } from '../config/redis.js';
+import { recordProductEvent } from '../utils/trendingUtils.js';
 
 
 
@@ -34,6 +35,13 @@ export const likeProduct = async (req, res) => {
         }
       });
 
+      await recordProductEvent(prisma, {
+        type: 'LIKE',
+        productId,
+        storeId: product.storeId,
+        userId
+      });
+
       await cache.del(`user:${userId}:liked:products`);
       await cache.del(`product:${productId}:likes:count`);
       await cache.del(`product:url:${product.url}`);
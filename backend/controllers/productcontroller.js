@@ -3,6 +3,18 @@ import { PrismaClient } from '@prisma/client';
 import slugify from 'slugify';
 import { uploadToCloudinary, uploadMultipleToCloudinary, deleteMultipleFromCloudinary, uploadPresets } from '../config/cloudinary.js';
 import { cache } from '../config/redis.js';
+import { parseVariants, syncProductVariants, getHeldStock } from '../utils/inventoryUtils.js';
+import {
+  searchProducts,
+  SEARCH_CANDIDATE_LIMIT,
+  getSearchHighlights,
+  getSearchSuggestion,
+  getSearchAutocomplete
+} from '../utils/searchUtils.js';
+import { parseFacetFilters, getProductFacets } from '../utils/facetUtils.js';
+import { getUserRecommendations } from '../utils/recommendationUtils.js';
+import { getTrendingProductRanking, TRENDING_WINDOW_DAYS } from '../utils/trendingUtils.js';
+import { recordProductView, getVisitorKey } from '../utils/productAnalyticsUtils.js';
 
 
 
@@ -20,7 +32,8 @@ export const createProduct = async (req, res) => {
       color = [],
       weight,
       sellerNote,
-      moq
+      moq,
+      variants
     } = req.body;
 
     const userId = req.user.userId; // Get the authenticated user's ID
@@ -39,8 +52,21 @@ export const createProduct = async (req, res) => {
 
     const storeId = userStore.id; // Get the store ID
 
+    // Per-variant stock replaces the single stock number when sizes/colors are tracked
+    let parsedVariants = [];
+    if (variants !== undefined) {
+      const { variants: validVariants, error: variantError } = parseVariants(variants);
+      if (variantError) {
+        return res.status(400).json({
+          success: false,
+          message: variantError
+        });
+      }
+      parsedVariants = validVariants;
+    }
+
     // Validate required fields
-    if (!name || price === undefined || stock === undefined) {
+    if (!name || price === undefined || (stock === undefined && parsedVariants.length === 0)) {
       return res.status(400).json({
         success: false,
         message: 'Name, price, and stock are required fields.'
@@ -79,30 +105,43 @@ export const createProduct = async (req, res) => {
       }
     }
 
-    const product = await prisma.product.create({
-      data: {
-        storeId,
-        name,
-        description: description || null,
-        price: parseFloat(price),
-        stock: parseInt(stock),
-        images: imageUrls,
-        category: category || null,
-        tags: Array.isArray(tags) ? tags : [],
-        sizes: Array.isArray(sizes) ? sizes : [],
-        color: Array.isArray(color) ? color : [], // Handle color as array
-        weight: weight ? parseFloat(weight) : null,
-        sellerNote: sellerNote || null,
-        moq: moq ? parseInt(moq) : null,
-        url: finalUrl,
-        isActive: true
+    const product = await prisma.$transaction(async (tx) => {
+      const createdProduct = await tx.product.create({
+        data: {
+          storeId,
+          name,
+          description: description || null,
+          price: parseFloat(price),
+          stock: parseInt(stock) || 0,
+          images: imageUrls,
+          category: category || null,
+          tags: Array.isArray(tags) ? tags : [],
+          sizes: Array.isArray(sizes) ? sizes : [],
+          color: Array.isArray(color) ? color : [], // Handle color as array
+          weight: weight ? parseFloat(weight) : null,
+          sellerNote: sellerNote || null,
+          moq: moq ? parseInt(moq) : null,
+          url: finalUrl,
+          isActive: true
+        }
+      });
+
+      if (parsedVariants.length === 0) {
+        return createdProduct;
       }
+
+      await syncProductVariants(tx, createdProduct, parsedVariants);
+
+      return tx.product.findUnique({
+        where: { id: createdProduct.id },
+        include: { variants: { where: { isActive: true } } }
+      });
     });
 
     // Invalidate relevant store caches using userStore.url
     await cache.del(`store:slug:${userStore.url}`); // Invalidate the store's main cache
     await cache.del(`user:${userId}:store`); // Invalidate user's store cache
-    // Add other cache invalidations if needed
+    await cache.delPattern(`user:${userId}:products:*`);
 
     res.status(201).json({
       success: true,
@@ -111,6 +150,12 @@ export const createProduct = async (req, res) => {
     });
   } catch (error) {
     console.error('Error creating product:', error);
+    if (error.code === 'P2002' && error.meta?.target?.includes('sku')) {
+      return res.status(409).json({
+        success: false,
+        message: 'Each variant of a product needs a different SKU.'
+      });
+    }
     res.status(500).json({
       success: false,
       message: 'Internal server error',
@@ -135,7 +180,8 @@ export const updateProduct = async (req, res) => {
       weight,
       sellerNote,
       moq,
-      isActive
+      isActive,
+      variants
     } = req.body;
 
     const userId = req.user.userId; 
@@ -168,6 +214,18 @@ export const updateProduct = async (req, res) => {
       });
     }
 
+    let parsedVariants;
+    if (variants !== undefined) {
+      const { variants: validVariants, error: variantError } = parseVariants(variants);
+      if (variantError) {
+        return res.status(400).json({
+          success: false,
+          message: variantError
+        });
+      }
+      parsedVariants = validVariants;
+    }
+
     // Prepare update data object
     const updateData = {};
 
@@ -219,10 +277,21 @@ export const updateProduct = async (req, res) => {
       }
     }
 
-    // Perform the update in the database
-    const updatedProduct = await prisma.product.update({
-      where: { id: productId },
-      data: updateData
+    // Perform the update in the database; variant stock overrides the product-level stock/sizes/colors
+    const updatedProduct = await prisma.$transaction(async (tx) => {
+      const product = await tx.product.update({
+        where: { id: productId },
+        data: updateData
+      });
+
+      if (parsedVariants !== undefined) {
+        await syncProductVariants(tx, product, parsedVariants);
+      }
+
+      return tx.product.findUnique({
+        where: { id: productId },
+        include: { variants: { where: { isActive: true } } }
+      });
     });
 
     // Delete old images from Cloudinary *after* the database update succeeds
@@ -239,6 +308,8 @@ export const updateProduct = async (req, res) => {
     await cache.del(`store:slug:${userStore.url}`);
     await cache.del(`user:${userId}:store`);
     await cache.del(`product:url:${existingProduct.url}`); // Invalidate old product URL cache if URL changed
+    await cache.del(`product:public:url:${existingProduct.url}`);
+    await cache.delPattern(`user:${userId}:products:*`);
     if (updateData.url && updateData.url !== existingProduct.url) {
         await cache.del(`product:url:${updateData.url}`); // Invalidate new product URL cache
     }
@@ -250,6 +321,12 @@ export const updateProduct = async (req, res) => {
     });
   } catch (error) {
     console.error('Error updating product:', error);
+    if (error.code === 'P2002' && error.meta?.target?.includes('sku')) {
+      return res.status(409).json({
+        success: false,
+        message: 'Each variant of a product needs a different SKU.'
+      });
+    }
     res.status(500).json({
       success: false,
       message: 'Internal server error',
@@ -258,6 +335,18 @@ export const updateProduct = async (req, res) => {
   }
 };
 
+// A view that fails to record shouldn't cost the buyer the product page
+const trackProductView = async (product, req) => {
+  try {
+    await recordProductView(product, {
+      userId: req.user?.userId,
+      visitorKey: getVisitorKey(req)
+    });
+  } catch (trackingError) {
+    console.error(`Error recording view for product ${product.id}:`, trackingError);
+  }
+};
+
 // Get product by URL slug (public view)
 export const getSellerProductByIdForPublicUse = async (req, res) => {
   try {
@@ -268,6 +357,8 @@ export const getSellerProductByIdForPublicUse = async (req, res) => {
     // Try to get from cache first
     const cachedProduct = await cache.get(cacheKey);
     if (cachedProduct) {
+      await trackProductView(cachedProduct, req);
+
       return res.status(200).json({
         success: true,
          data:cachedProduct,
@@ -289,6 +380,10 @@ export const getSellerProductByIdForPublicUse = async (req, res) => {
             logo: true,
             // ... other relevant store fields you want to expose
           }
+        },
+        variants: {
+          where: { isActive: true },
+          orderBy: { createdAt: 'asc' }
         }
       }
     });
@@ -303,6 +398,8 @@ export const getSellerProductByIdForPublicUse = async (req, res) => {
     // Cache for 1 hour
     await cache.set(cacheKey, product, 3600);
 
+    await trackProductView(product, req);
+
     res.status(200).json({
       success: true,
        data:product
@@ -495,6 +592,23 @@ export const getAllSellerProductsForPublicUse = async (req, res) => {
 };
 
 // Get user's products (seller view)
+// Held stock changes with every order and payment, so it is added after the cache lookup
+const withHeldStock = async (resultData) => {
+  const { byProduct, byVariant } = await getHeldStock(resultData.products.map(product => product.id));
+
+  return {
+    ...resultData,
+    products: resultData.products.map(product => ({
+      ...product,
+      heldStock: byProduct.get(product.id) || 0,
+      variants: (product.variants || []).map(variant => ({
+        ...variant,
+        heldStock: byVariant.get(variant.id) || 0
+      }))
+    }))
+  };
+};
+
 export const getUserProducts = async (req, res) => {
   console.log('getting user products')
   try {
@@ -523,7 +637,7 @@ export const getUserProducts = async (req, res) => {
     if (cachedProducts) {
       return res.status(200).json({
         success: true,
-        data: cachedProducts,
+        data: await withHeldStock(cachedProducts),
         cached: true
       });
     }
@@ -532,6 +646,12 @@ export const getUserProducts = async (req, res) => {
       where: {
         storeId,
       },
+      include: {
+        variants: {
+          where: { isActive: true },
+          orderBy: { createdAt: 'asc' }
+        }
+      },
       orderBy: { createdAt: 'desc' },
       skip: offset,
       take: limit,
@@ -558,7 +678,7 @@ export const getUserProducts = async (req, res) => {
 
     res.status(200).json({
       success: true,
-       data:resultData
+       data: await withHeldStock(resultData)
     });
   } catch (error) {
     console.error('Error fetching user products:', error);
@@ -649,10 +769,16 @@ export const getAllProducts = async (req, res) => {
       tags = '', // Filter by tags (comma-separated string)
       sizes = '', // Filter by sizes (comma-separated string)
       color = '', // Filter by color (comma-separated string)
-      sortBy = 'createdAt', // Sort by field
+      region = '', // Filter by store region (comma-separated string)
+      minRating = '', // Filter by minimum product rating
+      verified = '', // 'true' for products from verified stores only
       sortOrder = 'desc' // Sort order: asc or desc
     } = req.query;
 
+    // Searches are ranked by relevance unless another sort is asked for
+    const searchTerm = search.trim();
+    const sortBy = req.query.sortBy || (searchTerm ? 'relevance' : 'createdAt');
+
     // Convert query parameters to appropriate types
     const pageNum = parseInt(page) || 1;
     const limitNum = parseInt(limit) || 10;
@@ -662,23 +788,21 @@ export const getAllProducts = async (req, res) => {
     const tagArray = tags ? tags.split(',').map(tag => tag.trim()) : [];
     const sizeArray = sizes ? sizes.split(',').map(size => size.trim()) : [];
     const colorArray = color ? color.split(',').map(c => c.trim()) : [];
+    const regionArray = region ? region.split(',').map(r => r.trim()) : [];
+    const categoryArray = category ? category.split(',').map(c => c.trim()).filter(Boolean) : [];
 
     // Build the Prisma 'where' clause dynamically based on query parameters
     const whereClause = {
       isActive: true, // Only fetch active products
     };
 
-    // Add search filter (name or description)
-    if (search) {
-      whereClause.OR = [
-        { name: { contains: search, mode: 'insensitive' } }, // Case-insensitive search in name
-        { description: { contains: search, mode: 'insensitive' } } // Case-insensitive search in description
-      ];
-    }
-
-    // Add category filter
-    if (category) {
-      whereClause.category = { contains: category, mode: 'insensitive' }; // Case-insensitive
+    // Add category filter; several categories match any of them
+    if (categoryArray.length === 1) {
+      whereClause.category = { contains: categoryArray[0], mode: 'insensitive' }; // Case-insensitive
+    } else if (categoryArray.length > 1) {
+      whereClause.OR = categoryArray.map(value => ({
+        category: { contains: value, mode: 'insensitive' }
+      }));
     }
 
     // Add price filter
@@ -692,7 +816,8 @@ export const getAllProducts = async (req, res) => {
     if (maxPrice !== undefined && maxPrice !== '') {
       const parsedMax = parseFloat(maxPrice);
       if (!isNaN(parsedMax)) {
-        priceFilter.lte = parsedMax;
+        // Exclusive, so a price band's upper bound belongs to the next band as in the facet counts
+        priceFilter.lt = parsedMax;
       }
     }
     // Only add the price filter to whereClause if at least one valid bound was set
@@ -715,11 +840,32 @@ export const getAllProducts = async (req, res) => {
       whereClause.color = { hasSome: colorArray };
     }
 
+    // Add rating filter
+    const parsedMinRating = parseFloat(minRating);
+    if (!isNaN(parsedMinRating)) {
+      whereClause.rating = { gte: parsedMinRating };
+    }
+
+    // Add store filters (region and verification)
+    const storeFilter = {};
+    if (regionArray.length > 0) {
+      storeFilter.region = { in: regionArray };
+    }
+    if (verified === 'true') {
+      storeFilter.verification = { is: { status: 'verified' } };
+    }
+    if (Object.keys(storeFilter).length > 0) {
+      whereClause.store = storeFilter;
+    }
+
     // Define the sort order object
     const orderByClause = {};
     // Validate and set the sort field and order
     const validSortFields = ['name', 'price', 'createdAt', 'quantityBought', 'viewCount']; // Add other fields as needed
-    if (validSortFields.includes(sortBy)) {
+    const sortByRelevance = sortBy === 'relevance' && Boolean(searchTerm);
+    if (sortByRelevance) {
+      // Ordered by search score below
+    } else if (validSortFields.includes(sortBy)) {
       orderByClause[sortBy] = sortOrder === 'asc' ? 'asc' : 'desc';
     } else {
       // Default sort order if invalid sortBy is provided
@@ -728,7 +874,7 @@ export const getAllProducts = async (req, res) => {
 
     // Construct the cache key based on all relevant filters and pagination
     // This ensures different filter combinations get different cache entries
-    const cacheKey = `products:all:page:${pageNum}:limit:${limitNum}:search:${search}:category:${category}:minPrice:${minPrice}:maxPrice:${maxPrice}:tags:${tagArray.join(',')}:sizes:${sizeArray.join(',')}:color:${colorArray.join(',')}::sortBy:${sortBy}:sortOrder:${sortOrder}`;
+    const cacheKey = `products:all:page:${pageNum}:limit:${limitNum}:search:${search}:category:${category}:minPrice:${minPrice}:maxPrice:${maxPrice}:tags:${tagArray.join(',')}:sizes:${sizeArray.join(',')}:color:${colorArray.join(',')}:region:${regionArray.join(',')}:minRating:${minRating}:verified:${verified}::sortBy:${sortBy}:sortOrder:${sortOrder}`;
 
     const cachedResult = await cache.get(cacheKey);
     if (cachedResult) {
@@ -739,30 +885,91 @@ export const getAllProducts = async (req, res) => {
       });
     }
 
-    // Fetch products from the database using Prisma
-    const products = await prisma.product.findMany({
-      where: whereClause,
-      orderBy: orderByClause,
-      skip: offset,
-      take: limitNum,
-      include: {
-        store: { // Include store information for each product
-          select: {
-            id: true,
-            name: true,
-            url: true, // Store's URL slug
-            logo: true,
-            region: true,
-            location: true
-          }
+    const productInclude = {
+      store: { // Include store information for each product
+        select: {
+          id: true,
+          name: true,
+          url: true, // Store's URL slug
+          logo: true,
+          region: true,
+          location: true
         }
       }
-    });
+    };
 
-    // Fetch the total count of products matching the filters (for pagination info)
-    const total = await prisma.product.count({
-      where: whereClause
-    });
+    let products;
+    let total;
+    let suggestion = null;
+    let capped = false;
+
+    if (searchTerm) {
+      // Search ranks the matches, then the other filters narrow them down
+      const [ranked, searchSuggestion] = await Promise.all([
+        searchProducts(searchTerm),
+        getSearchSuggestion(searchTerm)
+      ]);
+      suggestion = searchSuggestion;
+
+      // Only the best matches are considered, so past the limit the total is a lower bound
+      capped = ranked.length >= SEARCH_CANDIDATE_LIMIT;
+
+      const scores = new Map(ranked.map(match => [match.id, match.score]));
+      whereClause.id = { in: ranked.map(match => match.id) };
+
+      if (sortByRelevance) {
+        const matching = await prisma.product.findMany({
+          where: whereClause,
+          select: { id: true }
+        });
+        total = matching.length;
+
+        const pageIds = matching
+          .map(product => product.id)
+          .sort((a, b) => scores.get(b) - scores.get(a))
+          .slice(offset, offset + limitNum);
+
+        const pageProducts = await prisma.product.findMany({
+          where: { id: { in: pageIds } },
+          include: productInclude
+        });
+        products = pageIds
+          .map(id => pageProducts.find(product => product.id === id))
+          .filter(Boolean);
+      } else {
+        [products, total] = await Promise.all([
+          prisma.product.findMany({
+            where: whereClause,
+            orderBy: orderByClause,
+            skip: offset,
+            take: limitNum,
+            include: productInclude
+          }),
+          prisma.product.count({ where: whereClause })
+        ]);
+      }
+
+      const highlights = await getSearchHighlights(products.map(product => product.id), searchTerm);
+      products = products.map(product => ({
+        ...product,
+        relevance: scores.get(product.id) || 0,
+        highlight: highlights[product.id] || null
+      }));
+    } else {
+      // Fetch products from the database using Prisma
+      products = await prisma.product.findMany({
+        where: whereClause,
+        orderBy: orderByClause,
+        skip: offset,
+        take: limitNum,
+        include: productInclude
+      });
+
+      // Fetch the total count of products matching the filters (for pagination info)
+      total = await prisma.product.count({
+        where: whereClause
+      });
+    }
 
     // Prepare the response data
     const resultData = {
@@ -771,8 +978,10 @@ export const getAllProducts = async (req, res) => {
         page: pageNum,
         limit: limitNum,
         total,
-        pages: Math.ceil(total / limitNum)
+        pages: Math.ceil(total / limitNum),
+        capped
       },
+      suggestion,
       filters: {
         search,
         category,
@@ -781,6 +990,9 @@ export const getAllProducts = async (req, res) => {
         tags: tagArray,
         sizes: sizeArray,
         color: colorArray,
+        region: regionArray,
+        minRating: isNaN(parsedMinRating) ? undefined : parsedMinRating,
+        verified: verified === 'true',
         sortBy,
         sortOrder
       }
@@ -804,6 +1016,87 @@ export const getAllProducts = async (req, res) => {
   }
 };
 
+// Search-as-you-type suggestions for the marketplace search bar
+export const getSearchSuggestions = async (req, res) => {
+  try {
+    const { q = '', limit = 6 } = req.query;
+    const query = String(q).trim().toLowerCase();
+    const limitNum = Math.min(parseInt(limit) || 6, 10);
+
+    if (query.length < 2) {
+      return res.status(200).json({
+        success: true,
+        data: { products: [], terms: [] }
+      });
+    }
+
+    const cacheKey = `products:suggest:${query}:limit:${limitNum}`;
+
+    const cachedResult = await cache.get(cacheKey);
+    if (cachedResult) {
+      return res.status(200).json({
+        success: true,
+        data: cachedResult,
+        cached: true
+      });
+    }
+
+    const suggestions = await getSearchAutocomplete(query, limitNum);
+
+    // Cache for 5 minutes; suggestions are requested on every keystroke
+    await cache.set(cacheKey, suggestions, 300);
+
+    res.status(200).json({
+      success: true,
+      data: suggestions
+    });
+
+  } catch (error) {
+    console.error('Error fetching search suggestions:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+      error: error.message
+    });
+  }
+};
+
+// Facet counts for the marketplace filter sheet, for the same filters getAllProducts takes
+export const getProductFacetCounts = async (req, res) => {
+  try {
+    const filters = parseFacetFilters(req.query);
+
+    const cacheKey = `products:facets:${JSON.stringify(filters)}`;
+
+    const cachedResult = await cache.get(cacheKey);
+    if (cachedResult) {
+      return res.status(200).json({
+        success: true,
+        data: cachedResult,
+        cached: true
+      });
+    }
+
+    const facets = await getProductFacets(filters);
+
+    // Cache for 5 minutes; counts are re-requested as the buyer toggles filters
+    await cache.set(cacheKey, facets, 300);
+
+    res.status(200).json({
+      success: true,
+      data: facets
+    });
+
+  } catch (error) {
+    console.error('Error fetching product facets:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+      error: error.message
+    });
+  }
+};
+
 // Get top selling products
 export const getTopSellingProducts = async (req, res) => {
   try {
@@ -1214,24 +1507,108 @@ export const getProductsYouMayLike = async (req, res) => {
   }
 };
 
-// Get trending products (based on recent views and purchases)
+// Get recommendations for the signed-in buyer from their likes, follows, purchases and views
+export const getPersonalisedRecommendations = async (req, res) => {
+  try {
+    const userId = req.user.userId;
+    const { limit = 12, excludeProductId = '' } = req.query;
+
+    const limitNum = Math.min(parseInt(limit) || 12, 50);
+
+    const storeSelect = {
+      id: true,
+      name: true,
+      url: true,
+      logo: true,
+      region: true,
+      location: true
+    };
+
+    const recommendations = await getUserRecommendations(userId);
+    const items = recommendations.items.filter(item => item.id !== excludeProductId);
+
+    const products = await prisma.product.findMany({
+      where: {
+        id: { in: items.slice(0, limitNum * 2).map(item => item.id) },
+        isActive: true
+      },
+      include: {
+        store: { select: storeSelect }
+      }
+    });
+
+    // Products can go inactive between job runs, so read past the limit and keep the ranking order
+    const productsById = new Map(products.map(product => [product.id, product]));
+    const ranked = items
+      .filter(item => productsById.has(item.id))
+      .slice(0, limitNum)
+      .map(item => ({
+        ...productsById.get(item.id),
+        recommendationScore: item.score,
+        recommendationReason: item.reason
+      }));
+
+    if (ranked.length > 0) {
+      return res.status(200).json({
+        success: true,
+        data: {
+          products: ranked,
+          count: ranked.length,
+          personalised: true,
+          generatedAt: recommendations.generatedAt
+        }
+      });
+    }
+
+    // Nothing to go on yet: fall back to what sells best
+    const popularProducts = await prisma.product.findMany({
+      where: {
+        isActive: true,
+        ...(excludeProductId && { NOT: { id: excludeProductId } })
+      },
+      orderBy: [
+        { quantityBought: 'desc' },
+        { createdAt: 'desc' }
+      ],
+      take: limitNum,
+      include: {
+        store: { select: storeSelect }
+      }
+    });
+
+    res.status(200).json({
+      success: true,
+      data: {
+        products: popularProducts,
+        count: popularProducts.length,
+        personalised: false,
+        generatedAt: recommendations.generatedAt
+      }
+    });
+
+  } catch (error) {
+    console.error('Error fetching personalised recommendations:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+      error: error.message
+    });
+  }
+};
+
+// Get trending products, ranked by time-decayed views, likes, add-to-carts and purchases
 export const getTrendingProducts = async (req, res) => {
   try {
     const {
       limit = 10,
       category = '',
-      days = 7 // Consider products from last N days
+      region = ''
     } = req.query;
 
-    const limitNum = parseInt(limit) || 10;
-    const daysNum = parseInt(days) || 7;
-
-    // Calculate date threshold
-    const dateThreshold = new Date();
-    dateThreshold.setDate(dateThreshold.getDate() - daysNum);
+    const limitNum = Math.min(parseInt(limit) || 10, 50);
 
     // Construct cache key
-    const cacheKey = `products:trending:limit:${limitNum}:category:${category}:days:${daysNum}`;
+    const cacheKey = `products:trending:limit:${limitNum}:category:${category}:region:${region}`;
 
     // Try to get from cache
     const cachedResult = await cache.get(cacheKey);
@@ -1243,44 +1620,16 @@ export const getTrendingProducts = async (req, res) => {
       });
     }
 
-    // Build where clause
-    const whereClause = {
-      isActive: true,
-      createdAt: {
-        gte: dateThreshold
-      }
-    };
-
-    if (category) {
-      whereClause.category = { contains: category, mode: 'insensitive' };
-    }
-
-    // Fetch trending products
-    const products = await prisma.product.findMany({
-      where: whereClause,
-      orderBy: [
-        { quantityBought: 'desc' },
-        { createdAt: 'desc' }
-      ],
-      take: limitNum,
-      include: {
-        store: {
-          select: {
-            id: true,
-            name: true,
-            url: true,
-            logo: true,
-            region: true,
-            location: true
-          }
-        }
-      }
+    const products = await getTrendingProductRanking({
+      limit: limitNum,
+      category,
+      region
     });
 
     const resultData = {
       products,
       count: products.length,
-      period: `Last ${daysNum} days`
+      period: `Last ${TRENDING_WINDOW_DAYS} days`
     };
 
     // Cache for 1 hour
@@ -2,6 +2,8 @@ import prisma from '../config/prisma.js'
 import { cache } from '../config/redis.js';
 import { uploadMultipleToCloudinary, uploadPresets } from '../config/cloudinary.js';
 import { sendNotification } from '../utils/sendnotification.js';
+import { reverseReviewReward, invalidatePointsCache } from '../utils/pointsUtils.js';
+import { applyReviewRules } from '../utils/loyaltyUtils.js';
 
 
 export const createReview = async (req, res) => {
@@ -82,19 +84,30 @@ export const createReview = async (req, res) => {
       }
     }
 
-    const review = await prisma.review.create({
-      data: {
-        userId,
-        productId,
-        orderId,
-        rating,
-        title: title || null,
-        comment: comment || null,
-        media: mediaUrls,
-        isVerified: true
-      }
+    const { review, rewards } = await prisma.$transaction(async (tx) => {
+      const createdReview = await tx.review.create({
+        data: {
+          userId,
+          productId,
+          orderId,
+          rating,
+          title: title || null,
+          comment: comment || null,
+          media: mediaUrls,
+          isVerified: true
+        }
+      });
+
+      const rewards = await applyReviewRules(tx, createdReview, product.name);
+
+      return { review: createdReview, rewards };
     });
 
+    const awardedPoints = rewards.reduce((sum, entry) => sum + entry.points, 0);
+    const newTotalPoints = rewards.length > 0
+      ? rewards[rewards.length - 1].balanceAfter
+      : (await prisma.user.findUnique({ where: { id: userId }, select: { points: true } })).points;
+
     const productReviews = await prisma.review.findMany({
       where: { productId }
     });
@@ -106,11 +119,6 @@ export const createReview = async (req, res) => {
       data: { rating: newAverageRating }
     });
 
-    const updatedUser = await prisma.user.update({
-      where: { id: userId },
-      data: { points: { increment: 50 } }
-    });
-
     const seller = await prisma.store.findFirst({
       where: { id: product.storeId },
       select: { userId: true }
@@ -127,17 +135,19 @@ export const createReview = async (req, res) => {
     }
 
     await cache.del(`product:url:${product.url}`);
-    await cache.del(`user:${userId}:points`);
+    await invalidatePointsCache(userId);
     await cache.del(`product:${productId}:reviews`);
     await cache.del(`store:${product.storeId}:reviews`);
 
     res.status(201).json({
       success: true,
-      message: 'Review created successfully. 50 points awarded.',
+      message: awardedPoints > 0
+        ? `Review created successfully. ${awardedPoints} points awarded.`
+        : 'Review created successfully.',
       data: {
         review,
-        awardedPoints: 50,
-        newTotalPoints: updatedUser.points
+        awardedPoints,
+        newTotalPoints
       }
     });
 
@@ -542,8 +552,12 @@ export const deleteReview = async (req, res) => {
       });
     }
 
-    await prisma.review.delete({
-      where: { id: reviewId }
+    const reversal = await prisma.$transaction(async (tx) => {
+      await tx.review.delete({
+        where: { id: reviewId }
+      });
+
+      return reverseReviewReward(tx, reviewId);
     });
 
     const productReviews = await prisma.review.findMany({
@@ -563,10 +577,14 @@ export const deleteReview = async (req, res) => {
     await cache.del(`user:${userId}:reviews`);
     await cache.del(`product:${reviewToDelete.product.id}:reviews`);
     await cache.del(`store:${reviewToDelete.product.storeId}:reviews`);
+    await invalidatePointsCache(userId);
 
     res.status(200).json({
       success: true,
-      message: 'Review deleted successfully.'
+      message: 'Review deleted successfully.',
+      data: {
+        pointsReversed: reversal ? -reversal.points : 0
+      }
     });
 
   } catch (error) {
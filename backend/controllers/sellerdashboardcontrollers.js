@@ -1,5 +1,12 @@
 import prisma from '../config/prisma.js'
 import { cache } from '../config/redis.js';
+import { CASH_ON_DELIVERY } from '../utils/cashOnDeliveryUtils.js';
+import { getStoreRecoveryStats } from '../utils/recoveryUtils.js';
+import {
+  getProductFunnel,
+  getStoreProductFunnels,
+  FUNNEL_PERIODS
+} from '../utils/productAnalyticsUtils.js';
 
 
 export const getDashboardSummary = async (req, res) => {
@@ -36,7 +43,8 @@ export const getDashboardSummary = async (req, res) => {
       totalProducts,
       activeProducts,
       pendingOrders,
-      deliveredOrders
+      deliveredOrders,
+      cashOnDeliveryOrders
     ] = await Promise.all([
       prisma.order.count({
         where: { storeId }
@@ -56,16 +64,35 @@ export const getDashboardSummary = async (req, res) => {
       }),
       prisma.order.count({
         where: { storeId, status: 'DELIVERED' }
+      }),
+      prisma.order.groupBy({
+        by: ['paymentStatus'],
+        where: { storeId, paymentMethod: CASH_ON_DELIVERY, status: { notIn: ['CANCELLED', 'REFUNDED'] } },
+        _sum: { totalAmount: true },
+        _count: { _all: true }
       })
     ]);
 
+    // Cash the seller took at the door never passes through escrow, so it's reported on its own
+    const cashOnDeliveryTotals = (paymentStatus) => {
+      const row = cashOnDeliveryOrders.find((group) => group.paymentStatus === paymentStatus);
+      return {
+        orders: row?._count._all || 0,
+        amount: row?._sum.totalAmount || 0
+      };
+    };
+
     const summary = {
       totalOrders: totalOrders || 0,
       totalRevenue: (totalRevenue._sum.totalAmount || 0),
       totalProducts: totalProducts || 0,
       activeProducts: activeProducts || 0,
       pendingOrders: pendingOrders || 0,
-      deliveredOrders: deliveredOrders || 0
+      deliveredOrders: deliveredOrders || 0,
+      cashOnDelivery: {
+        collected: cashOnDeliveryTotals('SUCCESS'),
+        awaitingCollection: cashOnDeliveryTotals('PENDING')
+      }
     };
 
     await cache.set(cacheKey, summary, 900);
@@ -148,6 +175,7 @@ export const getSalesAnalytics = async (req, res) => {
       },
       select: {
         totalAmount: true,
+        paymentMethod: true,
         createdAt: true
       }
     });
@@ -169,10 +197,15 @@ export const getSalesAnalytics = async (req, res) => {
       }
 
       if (!dateMap.has(dateKey)) {
-        dateMap.set(dateKey, { date: dateKey, revenue: 0, orders: 0 });
+        dateMap.set(dateKey, { date: dateKey, revenue: 0, orders: 0, cashOnDeliveryRevenue: 0, cashOnDeliveryOrders: 0 });
       }
       dateMap.get(dateKey).revenue += order.totalAmount;
       dateMap.get(dateKey).orders += 1;
+
+      if (order.paymentMethod === CASH_ON_DELIVERY) {
+        dateMap.get(dateKey).cashOnDeliveryRevenue += order.totalAmount;
+        dateMap.get(dateKey).cashOnDeliveryOrders += 1;
+      }
     }
 
     salesData.push(...dateMap.values());
@@ -379,4 +412,285 @@ export const getStorePerformance = async (req, res) => {
       error: error.message
     });
   }
-};
\ No newline at end of file
+};
+export const getCouponPerformance = async (req, res) => {
+  try {
+    const sellerId = req.user.userId;
+
+    const store = await prisma.store.findFirst({
+      where: { userId: sellerId },
+      select: { id: true }
+    });
+
+    if (!store) {
+      return res.status(400).json({
+        success: false,
+        message: 'Store not found for this seller.'
+      });
+    }
+
+    const storeId = store.id;
+    const cacheKey = `dashboard:coupons:seller:${sellerId}:store:${storeId}`;
+
+    const cachedData = await cache.get(cacheKey);
+    if (cachedData) {
+      return res.status(200).json({
+        success: true,
+        data: cachedData,
+        cached: true
+      });
+    }
+
+    // Platform coupons redeemed on this store's orders are reported alongside the store's own
+    const [coupons, redemptions] = await Promise.all([
+      prisma.coupon.findMany({
+        where: { storeId },
+        orderBy: { createdAt: 'desc' }
+      }),
+      prisma.couponRedemption.findMany({
+        where: { storeId },
+        include: {
+          coupon: true,
+          order: { select: { totalAmount: true, paymentStatus: true } }
+        }
+      })
+    ]);
+
+    const report = new Map();
+    const emptyRow = (coupon) => ({
+      couponId: coupon.id,
+      code: coupon.code,
+      scope: coupon.scope,
+      type: coupon.type,
+      value: coupon.value,
+      isActive: coupon.isActive,
+      expiresAt: coupon.expiresAt,
+      usageLimit: coupon.usageLimit,
+      redemptions: 0,
+      released: 0,
+      paidOrders: 0,
+      totalDiscount: 0,
+      revenue: 0
+    });
+
+    coupons.forEach(coupon => report.set(coupon.id, emptyRow(coupon)));
+
+    for (const redemption of redemptions) {
+      if (!report.has(redemption.couponId)) {
+        report.set(redemption.couponId, emptyRow(redemption.coupon));
+      }
+      const row = report.get(redemption.couponId);
+
+      if (redemption.status === 'RELEASED') {
+        row.released += 1;
+        continue;
+      }
+
+      row.redemptions += 1;
+      row.totalDiscount += redemption.discountAmount;
+
+      if (redemption.order.paymentStatus === 'SUCCESS') {
+        row.paidOrders += 1;
+        row.revenue += redemption.order.totalAmount;
+      }
+    }
+
+    const couponReport = Array.from(report.values());
+    const result = {
+      coupons: couponReport,
+      totals: {
+        redemptions: couponReport.reduce((sum, row) => sum + row.redemptions, 0),
+        totalDiscount: couponReport.reduce((sum, row) => sum + row.totalDiscount, 0),
+        revenue: couponReport.reduce((sum, row) => sum + row.revenue, 0)
+      }
+    };
+
+    await cache.set(cacheKey, result, 900);
+
+    res.status(200).json({
+      success: true,
+      data: result
+    });
+
+  } catch (error) {
+    console.error('Error fetching coupon performance:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+      error: error.message
+    });
+  }
+};
+
+export const getRecoveryPerformance = async (req, res) => {
+  try {
+    const sellerId = req.user.userId;
+
+    const store = await prisma.store.findFirst({
+      where: { userId: sellerId },
+      select: {
+        id: true,
+        recoveryEnabled: true,
+        recoveryCouponType: true,
+        recoveryCouponValue: true
+      }
+    });
+
+    if (!store) {
+      return res.status(400).json({
+        success: false,
+        message: 'Store not found for this seller.'
+      });
+    }
+
+    const cacheKey = `dashboard:recovery:seller:${sellerId}:store:${store.id}`;
+
+    const cachedData = await cache.get(cacheKey);
+    if (cachedData) {
+      return res.status(200).json({
+        success: true,
+        data: cachedData,
+        cached: true
+      });
+    }
+
+    const stats = await getStoreRecoveryStats(store.id);
+    const result = {
+      enabled: store.recoveryEnabled,
+      couponType: store.recoveryCouponType,
+      couponValue: store.recoveryCouponValue,
+      ...stats
+    };
+
+    await cache.set(cacheKey, result, 900);
+
+    res.status(200).json({
+      success: true,
+      data: result
+    });
+
+  } catch (error) {
+    console.error('Error fetching recovery performance:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+      error: error.message
+    });
+  }
+};
+
+const invalidFunnelPeriod = (res) =>
+  res.status(400).json({
+    success: false,
+    message: `Invalid period. Use ${Object.keys(FUNNEL_PERIODS).map(period => `'${period}'`).join(', ')}.`
+  });
+
+export const getProductFunnelAnalytics = async (req, res) => {
+  try {
+    const sellerId = req.user.userId;
+    const { period = '30d' } = req.query;
+
+    if (!FUNNEL_PERIODS[period]) return invalidFunnelPeriod(res);
+
+    const store = await prisma.store.findFirst({
+      where: { userId: sellerId },
+      select: { id: true }
+    });
+
+    if (!store) {
+      return res.status(400).json({
+        success: false,
+        message: 'Store not found for this seller.'
+      });
+    }
+
+    const cacheKey = `dashboard:product:funnel:seller:${sellerId}:store:${store.id}:period:${period}`;
+
+    const cachedData = await cache.get(cacheKey);
+    if (cachedData) {
+      return res.status(200).json({
+        success: true,
+        data: cachedData,
+        cached: true
+      });
+    }
+
+    const funnels = await getStoreProductFunnels(store.id, FUNNEL_PERIODS[period]);
+    const result = { period, ...funnels };
+
+    await cache.set(cacheKey, result, 900);
+
+    res.status(200).json({
+      success: true,
+      data: result
+    });
+
+  } catch (error) {
+    console.error('Error fetching product funnel analytics:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+      error: error.message
+    });
+  }
+};
+
+export const getProductFunnelById = async (req, res) => {
+  try {
+    const sellerId = req.user.userId;
+    const { productId } = req.params;
+    const { period = '30d' } = req.query;
+
+    if (!FUNNEL_PERIODS[period]) return invalidFunnelPeriod(res);
+
+    const product = await prisma.product.findFirst({
+      where: {
+        id: productId,
+        store: { userId: sellerId }
+      },
+      select: { id: true, name: true, viewCount: true }
+    });
+
+    if (!product) {
+      return res.status(404).json({
+        success: false,
+        message: 'Product not found in your store.'
+      });
+    }
+
+    const cacheKey = `dashboard:product:funnel:seller:${sellerId}:product:${productId}:period:${period}`;
+
+    const cachedData = await cache.get(cacheKey);
+    if (cachedData) {
+      return res.status(200).json({
+        success: true,
+        data: cachedData,
+        cached: true
+      });
+    }
+
+    const funnel = await getProductFunnel(product.id, FUNNEL_PERIODS[period]);
+    const result = {
+      period,
+      productId: product.id,
+      name: product.name,
+      lifetimeViews: product.viewCount,
+      ...funnel
+    };
+
+    await cache.set(cacheKey, result, 900);
+
+    res.status(200).json({
+      success: true,
+      data: result
+    });
+
+  } catch (error) {
+    console.error('Error fetching product funnel:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+      error: error.message
+    });
+  }
+};
@@ -5,6 +5,7 @@ import { uploadToCloudinary, deleteFromCloudinary, uploadPresets } from '../conf
 import { upload } from '../config/multer.js';
 import { cache } from '../config/redis.js';
 import prisma from '../config/prisma.js';
+import { COUPON_TYPES } from '../utils/couponUtils.js';
 
 
 // Create a new store - Updated to check for existing verification
@@ -287,6 +288,181 @@ export const deleteStore = async (req, res) => {
   }
 };
 
+// Update the seller's cash on delivery settings; allowed while verified, unlike other store details
+export const updateCashOnDeliverySettings = async (req, res) => {
+  try {
+    const userId = req.user.userId;
+    const { codEnabled, codMaxOrderValue, codMinCompletedOrders } = req.body;
+    const data = {};
+
+    const store = await prisma.store.findFirst({
+      where: { userId }
+    });
+
+    if (!store) {
+      return res.status(404).json({
+        success: false,
+        message: 'Store not found or unauthorized'
+      });
+    }
+
+    if (codEnabled !== undefined) {
+      if (typeof codEnabled !== 'boolean') {
+        return res.status(400).json({
+          success: false,
+          message: 'codEnabled must be true or false.'
+        });
+      }
+      data.codEnabled = codEnabled;
+    }
+
+    // null removes the limit
+    if (codMaxOrderValue !== undefined) {
+      data.codMaxOrderValue = codMaxOrderValue === null ? null : parseFloat(codMaxOrderValue);
+      if (data.codMaxOrderValue !== null && !(data.codMaxOrderValue > 0)) {
+        return res.status(400).json({
+          success: false,
+          message: 'codMaxOrderValue must be greater than 0, or null for no limit.'
+        });
+      }
+    }
+
+    if (codMinCompletedOrders !== undefined) {
+      data.codMinCompletedOrders = Number(codMinCompletedOrders);
+      if (!Number.isInteger(data.codMinCompletedOrders) || data.codMinCompletedOrders < 0) {
+        return res.status(400).json({
+          success: false,
+          message: 'codMinCompletedOrders must be a whole number, 0 or more.'
+        });
+      }
+    }
+
+    const updatedStore = await prisma.store.update({
+      where: { id: store.id },
+      data,
+      select: {
+        id: true,
+        codEnabled: true,
+        codMaxOrderValue: true,
+        codMinCompletedOrders: true
+      }
+    });
+
+    await cache.del(`store:slug:${store.url}`);
+    await cache.del(`user:${userId}:store`);
+    await cache.del(`store:public:id:${store.id}`);
+
+    res.status(200).json({
+      success: true,
+      message: 'Cash on delivery settings updated successfully',
+      data: updatedStore
+    });
+  } catch (error) {
+    console.error('Error updating cash on delivery settings:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+      error: error.message
+    });
+  }
+};
+
+// Turn abandoned cart and unpaid order reminders on or off, and set the coupon sent with the last one
+export const updateRecoverySettings = async (req, res) => {
+  try {
+    const userId = req.user.userId;
+    const { recoveryEnabled, recoveryCouponType, recoveryCouponValue } = req.body;
+    const data = {};
+
+    const store = await prisma.store.findFirst({
+      where: { userId }
+    });
+
+    if (!store) {
+      return res.status(404).json({
+        success: false,
+        message: 'Store not found or unauthorized'
+      });
+    }
+
+    if (recoveryEnabled !== undefined) {
+      if (typeof recoveryEnabled !== 'boolean') {
+        return res.status(400).json({
+          success: false,
+          message: 'recoveryEnabled must be true or false.'
+        });
+      }
+      data.recoveryEnabled = recoveryEnabled;
+    }
+
+    // null stops sending a coupon
+    if (recoveryCouponType !== undefined) {
+      if (recoveryCouponType !== null && !COUPON_TYPES.includes(recoveryCouponType)) {
+        return res.status(400).json({
+          success: false,
+          message: `recoveryCouponType must be one of ${COUPON_TYPES.join(', ')}, or null for no coupon.`
+        });
+      }
+      data.recoveryCouponType = recoveryCouponType;
+    }
+
+    if (recoveryCouponValue !== undefined) {
+      data.recoveryCouponValue = recoveryCouponValue === null ? null : parseFloat(recoveryCouponValue);
+    }
+
+    const couponType = data.recoveryCouponType !== undefined ? data.recoveryCouponType : store.recoveryCouponType;
+    const couponValue = data.recoveryCouponValue !== undefined ? data.recoveryCouponValue : store.recoveryCouponValue;
+
+    // Free delivery has no amount
+    if (couponType === null || couponType === 'FREE_DELIVERY') {
+      data.recoveryCouponValue = null;
+    } else {
+      if (!(couponValue > 0)) {
+        return res.status(400).json({
+          success: false,
+          message: 'recoveryCouponValue must be greater than 0.'
+        });
+      }
+
+      if (couponType === 'PERCENTAGE' && couponValue > 100) {
+        return res.status(400).json({
+          success: false,
+          message: 'A percentage coupon cannot be more than 100.'
+        });
+      }
+    }
+
+    const updatedStore = await prisma.store.update({
+      where: { id: store.id },
+      data,
+      select: {
+        id: true,
+        recoveryEnabled: true,
+        recoveryCouponType: true,
+        recoveryCouponValue: true
+      }
+    });
+
+    await cache.del(`store:slug:${store.url}`);
+    await cache.del(`user:${userId}:store`);
+    await cache.del(`store:public:id:${store.id}`);
+    await cache.del(`dashboard:recovery:seller:${userId}:store:${store.id}`);
+
+    res.status(200).json({
+      success: true,
+      message: 'Recovery settings updated successfully',
+      data: updatedStore
+    });
+  } catch (error) {
+    console.error('Error updating recovery settings:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+      error: error.message
+    });
+  }
+};
+
 // Get store by slug - Cache integration remains the same
 export const getStoreBySlug = async (req, res) => {
   try {
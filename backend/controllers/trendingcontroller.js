@@ -0,0 +1,83 @@
+// controllers/trendingcontroller.js
+import { cache } from '../config/redis.js';
+import {
+  getTrendingStoreRanking,
+  getTrendingBreakdown,
+  TRENDING_WINDOW_DAYS
+} from '../utils/trendingUtils.js';
+
+const TRENDING_TYPES = ['product', 'store'];
+
+// Get trending stores, optionally within one region
+export const getTrendingStores = async (req, res) => {
+  try {
+    const { limit = 10, region = '' } = req.query;
+    const limitNum = Math.min(parseInt(limit) || 10, 50);
+
+    const cacheKey = `stores:trending:limit:${limitNum}:region:${region}`;
+    const cachedResult = await cache.get(cacheKey);
+    if (cachedResult) {
+      return res.status(200).json({
+        success: true,
+        data: cachedResult,
+        cached: true
+      });
+    }
+
+    const stores = await getTrendingStoreRanking({ limit: limitNum, region });
+
+    const resultData = {
+      stores,
+      count: stores.length,
+      period: `Last ${TRENDING_WINDOW_DAYS} days`
+    };
+
+    // Cleared whenever the scores are rebuilt
+    await cache.set(cacheKey, resultData, 3600);
+
+    res.status(200).json({
+      success: true,
+      data: resultData
+    });
+  } catch (error) {
+    console.error('Error fetching trending stores:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+      error: error.message
+    });
+  }
+};
+
+// Admin: trending rankings with each score split into views, likes, add-to-carts and purchases
+export const getTrendingScores = async (req, res) => {
+  try {
+    const { type = 'product', limit = 50, category = '', region = '' } = req.query;
+
+    if (!TRENDING_TYPES.includes(type)) {
+      return res.status(400).json({
+        success: false,
+        message: `type must be one of: ${TRENDING_TYPES.join(', ')}`
+      });
+    }
+
+    const breakdown = await getTrendingBreakdown({
+      type,
+      limit: Math.min(parseInt(limit) || 50, 200),
+      category,
+      region
+    });
+
+    res.status(200).json({
+      success: true,
+      data: breakdown
+    });
+  } catch (error) {
+    console.error('Error fetching trending scores:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+      error: error.message
+    });
+  }
+};
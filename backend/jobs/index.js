@@ -0,0 +1,93 @@
+// jobs/index.js
+import { registerJob } from '../services/jobScheduler.js';
+import { processEscrowRelease, ESCROW_RELEASE_JOB } from '../controllers/escrowcontroller.js';
+import { purgeStaleSessions, SESSION_CLEANUP_JOB } from '../utils/tokenUtils.js';
+import { expireStockReservations, RESERVATION_EXPIRY_JOB } from '../utils/inventoryUtils.js';
+import { processDisputeSla, DISPUTE_SLA_JOB } from '../utils/disputeUtils.js';
+import { expireCheckoutSessions, CHECKOUT_SESSION_EXPIRY_JOB } from '../utils/checkoutSessionUtils.js';
+import { processRecoveryCampaigns, RECOVERY_JOB } from '../utils/recoveryUtils.js';
+import { refreshSearchTerms, SEARCH_TERMS_REFRESH_JOB } from '../utils/searchUtils.js';
+import { refreshRecommendations, RECOMMENDATIONS_JOB } from '../utils/recommendationUtils.js';
+import { refreshTrendingScores, TRENDING_JOB } from '../utils/trendingUtils.js';
+import {
+  expirePoints,
+  reconcilePointsBalances,
+  POINTS_EXPIRY_JOB,
+  POINTS_RECONCILE_JOB
+} from '../utils/pointsUtils.js';
+
+const minutes = (value) => value * 60 * 1000;
+
+// Register every recurring background job with the scheduler
+export const registerJobs = () => {
+  registerJob({
+    name: ESCROW_RELEASE_JOB,
+    intervalMs: minutes(parseInt(process.env.ESCROW_RELEASE_INTERVAL_MINUTES) || 15),
+    handler: processEscrowRelease,
+    runOnStart: true
+  });
+
+  registerJob({
+    name: SESSION_CLEANUP_JOB,
+    intervalMs: minutes(24 * 60),
+    handler: purgeStaleSessions
+  });
+
+  registerJob({
+    name: RESERVATION_EXPIRY_JOB,
+    intervalMs: minutes(parseInt(process.env.STOCK_RESERVATION_SWEEP_INTERVAL_MINUTES) || 5),
+    handler: expireStockReservations,
+    runOnStart: true
+  });
+
+  registerJob({
+    name: CHECKOUT_SESSION_EXPIRY_JOB,
+    intervalMs: minutes(parseInt(process.env.CHECKOUT_SESSION_SWEEP_INTERVAL_MINUTES) || 5),
+    handler: expireCheckoutSessions
+  });
+
+  registerJob({
+    name: RECOVERY_JOB,
+    intervalMs: minutes(parseInt(process.env.RECOVERY_INTERVAL_MINUTES) || 15),
+    handler: processRecoveryCampaigns
+  });
+
+  registerJob({
+    name: SEARCH_TERMS_REFRESH_JOB,
+    intervalMs: minutes(parseInt(process.env.SEARCH_TERMS_REFRESH_INTERVAL_MINUTES) || 60),
+    handler: refreshSearchTerms,
+    runOnStart: true
+  });
+
+  registerJob({
+    name: TRENDING_JOB,
+    intervalMs: minutes(parseInt(process.env.TRENDING_INTERVAL_MINUTES) || 30),
+    handler: refreshTrendingScores,
+    runOnStart: true
+  });
+
+  registerJob({
+    name: RECOMMENDATIONS_JOB,
+    intervalMs: minutes(parseInt(process.env.RECOMMENDATIONS_INTERVAL_MINUTES) || 120),
+    handler: refreshRecommendations
+  });
+
+  registerJob({
+    name: DISPUTE_SLA_JOB,
+    intervalMs: minutes(parseInt(process.env.DISPUTE_SLA_INTERVAL_MINUTES) || 15),
+    handler: processDisputeSla,
+    runOnStart: true
+  });
+
+  registerJob({
+    name: POINTS_EXPIRY_JOB,
+    intervalMs: minutes(24 * 60),
+    handler: expirePoints
+  });
+
+  registerJob({
+    name: POINTS_RECONCILE_JOB,
+    intervalMs: minutes(24 * 60),
+    handler: reconcilePointsBalances
+  });
+};
@@ -1,4 +1,5 @@
 import jwt from 'jsonwebtoken';
+import { isTokenRevoked } from '../utils/tokenUtils.js';
 
 
 export const authenticateToken = (req, res, next) => {
@@ -15,7 +16,7 @@ export const authenticateToken = (req, res, next) => {
     }
 
     // Verify token
-    jwt.verify(token, process.env.JWT_SECRET, (err, user) => {
+    jwt.verify(token, process.env.JWT_SECRET, async (err, user) => {
       if (err) {
         if (err.name === 'TokenExpiredError') {
           return res.status(401).json({
@@ -29,6 +30,22 @@ export const authenticateToken = (req, res, next) => {
         });
       }
 
+      try {
+        // Tokens issued before a password reset are no longer valid
+        if (await isTokenRevoked(user)) {
+          return res.status(401).json({
+            success: false,
+            message: 'Token has been revoked. Please log in again.',
+          });
+        }
+      } catch (revocationError) {
+        console.error('Token revocation check error:', revocationError);
+        return res.status(500).json({
+          success: false,
+          message: 'Internal server error',
+        });
+      }
+
       // Add user info to request
       req.user = user;
       next();
@@ -84,7 +101,9 @@ export const optionalAuth = async (req, res, next) => {
     
     if (token) {
       const decoded = jwt.verify(token, process.env.JWT_SECRET);
-      req.user = decoded;
+      if (!(await isTokenRevoked(decoded))) {
+        req.user = decoded;
+      }
     }
     
     next();
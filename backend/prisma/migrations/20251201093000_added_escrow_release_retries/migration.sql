@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "Escrow" ADD COLUMN     "lastAttemptAt" TIMESTAMP(3),
+ADD COLUMN     "nextAttemptAt" TIMESTAMP(3),
+ADD COLUMN     "releaseAttempts" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateIndex
+CREATE INDEX "Escrow_nextAttemptAt_idx" ON "Escrow"("nextAttemptAt");
@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "passwordChangedAt" TIMESTAMP(3),
+ADD COLUMN     "passwordResetCode" VARCHAR(6),
+ADD COLUMN     "passwordResetExpiry" TIMESTAMP(3);
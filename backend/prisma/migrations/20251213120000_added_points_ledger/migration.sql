@@ -0,0 +1,47 @@
+-- CreateEnum
+CREATE TYPE "PointsTransactionType" AS ENUM ('SIGNUP_BONUS', 'REVIEW_REWARD', 'REVIEW_REVERSAL', 'REDEMPTION', 'REFUND_REVERSAL', 'ADMIN_ADJUSTMENT', 'EXPIRY');
+
+-- CreateTable
+CREATE TABLE "PointsTransaction" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "type" "PointsTransactionType" NOT NULL,
+    "points" INTEGER NOT NULL,
+    "balanceAfter" INTEGER NOT NULL,
+    "remaining" INTEGER NOT NULL DEFAULT 0,
+    "expiresAt" TIMESTAMP(3),
+    "description" TEXT,
+    "orderId" TEXT,
+    "reviewId" TEXT,
+    "createdBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PointsTransaction_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "PointsTransaction_userId_createdAt_idx" ON "PointsTransaction"("userId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "PointsTransaction_type_idx" ON "PointsTransaction"("type");
+
+-- CreateIndex
+CREATE INDEX "PointsTransaction_orderId_idx" ON "PointsTransaction"("orderId");
+
+-- CreateIndex
+CREATE INDEX "PointsTransaction_reviewId_idx" ON "PointsTransaction"("reviewId");
+
+-- CreateIndex
+CREATE INDEX "PointsTransaction_expiresAt_idx" ON "PointsTransaction"("expiresAt");
+
+-- AddForeignKey
+ALTER TABLE "PointsTransaction" ADD CONSTRAINT "PointsTransaction_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PointsTransaction" ADD CONSTRAINT "PointsTransaction_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "Order"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Carry existing balances into the ledger as one opening entry per user
+INSERT INTO "PointsTransaction" ("id", "userId", "type", "points", "balanceAfter", "remaining", "expiresAt", "description")
+SELECT gen_random_uuid()::text, "id", 'ADMIN_ADJUSTMENT', "points", "points", GREATEST("points", 0), CURRENT_TIMESTAMP + INTERVAL '365 days', 'Opening balance'
+FROM "User"
+WHERE "points" <> 0;
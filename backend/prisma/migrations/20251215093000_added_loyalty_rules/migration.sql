@@ -0,0 +1,70 @@
+-- AlterEnum
+-- This migration adds more than one value to an enum.
+-- With PostgreSQL versions 11 and earlier, this is not possible
+-- in a single migration. This can be worked around by creating
+-- multiple migrations, each migration adding only one value to
+-- the enum.
+
+
+ALTER TYPE "PointsTransactionType" ADD VALUE 'ORDER_REWARD';
+ALTER TYPE "PointsTransactionType" ADD VALUE 'FIRST_ORDER_BONUS';
+ALTER TYPE "PointsTransactionType" ADD VALUE 'REVIEW_PHOTO_BONUS';
+ALTER TYPE "PointsTransactionType" ADD VALUE 'REFERRAL_BONUS';
+
+-- CreateEnum
+CREATE TYPE "LoyaltyRuleType" AS ENUM ('SIGNUP_BONUS', 'ORDER_SPEND', 'FIRST_ORDER_BONUS', 'REVIEW', 'REVIEW_PHOTO_BONUS', 'REFERRAL_BONUS', 'CAMPAIGN_MULTIPLIER');
+
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "referralCode" TEXT,
+ADD COLUMN     "referralRewardedAt" TIMESTAMP(3),
+ADD COLUMN     "referredById" TEXT;
+
+-- CreateTable
+CREATE TABLE "LoyaltyRule" (
+    "id" TEXT NOT NULL,
+    "type" "LoyaltyRuleType" NOT NULL,
+    "name" TEXT NOT NULL,
+    "points" INTEGER,
+    "pointsPerCedi" DOUBLE PRECISION,
+    "multiplier" DOUBLE PRECISION,
+    "startsAt" TIMESTAMP(3),
+    "endsAt" TIMESTAMP(3),
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "LoyaltyRule_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "LoyaltySettings" (
+    "id" TEXT NOT NULL DEFAULT 'default',
+    "pointsToCedisRate" DOUBLE PRECISION NOT NULL DEFAULT 0.10,
+    "dailyEarnCap" INTEGER,
+    "updatedBy" TEXT,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "LoyaltySettings_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "LoyaltyRule_type_isActive_idx" ON "LoyaltyRule"("type", "isActive");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "User_referralCode_key" ON "User"("referralCode");
+
+-- AddForeignKey
+ALTER TABLE "User" ADD CONSTRAINT "User_referredById_fkey" FOREIGN KEY ("referredById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Seed the settings row and rules matching the amounts that used to be hard-coded
+INSERT INTO "LoyaltySettings" ("id", "pointsToCedisRate", "updatedAt")
+VALUES ('default', 0.10, CURRENT_TIMESTAMP);
+
+INSERT INTO "LoyaltyRule" ("id", "type", "name", "points", "pointsPerCedi", "isActive", "updatedAt") VALUES
+(gen_random_uuid()::text, 'SIGNUP_BONUS', 'Welcome bonus', 50, NULL, true, CURRENT_TIMESTAMP),
+(gen_random_uuid()::text, 'REVIEW', 'Product review', 50, NULL, true, CURRENT_TIMESTAMP),
+(gen_random_uuid()::text, 'ORDER_SPEND', 'Points per GHS spent', NULL, 1, false, CURRENT_TIMESTAMP),
+(gen_random_uuid()::text, 'FIRST_ORDER_BONUS', 'First order bonus', 100, NULL, false, CURRENT_TIMESTAMP),
+(gen_random_uuid()::text, 'REVIEW_PHOTO_BONUS', 'Review with photos', 25, NULL, false, CURRENT_TIMESTAMP),
+(gen_random_uuid()::text, 'REFERRAL_BONUS', 'Referral bonus', 100, NULL, false, CURRENT_TIMESTAMP);
@@ -0,0 +1,5 @@
+-- CreateEnum
+CREATE TYPE "OrderActor" AS ENUM ('BUYER', 'SELLER', 'ADMIN', 'SYSTEM');
+
+-- AlterTable
+ALTER TABLE "StatusChange" ADD COLUMN     "actor" "OrderActor";
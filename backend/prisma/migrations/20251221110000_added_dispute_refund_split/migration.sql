@@ -0,0 +1,44 @@
+-- AlterTable
+ALTER TABLE "Dispute" ADD COLUMN     "refundAmount" DOUBLE PRECISION,
+ADD COLUMN     "releasedAmount" DOUBLE PRECISION;
+
+-- AlterTable
+ALTER TABLE "Escrow" ADD COLUMN     "refundedAmount" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "releasedAmount" DOUBLE PRECISION;
+
+-- AlterTable
+ALTER TABLE "RefundLog" ADD COLUMN     "disputeId" TEXT;
+
+-- AlterTable
+ALTER TABLE "TransferLog" ADD COLUMN     "disputeId" TEXT;
+
+-- CreateTable
+CREATE TABLE "DisputeRefundItem" (
+    "id" TEXT NOT NULL,
+    "disputeId" TEXT NOT NULL,
+    "orderItemId" TEXT NOT NULL,
+    "quantity" INTEGER NOT NULL,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "restocked" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "DisputeRefundItem_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "DisputeRefundItem_disputeId_idx" ON "DisputeRefundItem"("disputeId");
+
+-- CreateIndex
+CREATE INDEX "DisputeRefundItem_orderItemId_idx" ON "DisputeRefundItem"("orderItemId");
+
+-- CreateIndex
+CREATE INDEX "RefundLog_disputeId_idx" ON "RefundLog"("disputeId");
+
+-- CreateIndex
+CREATE INDEX "TransferLog_disputeId_idx" ON "TransferLog"("disputeId");
+
+-- AddForeignKey
+ALTER TABLE "DisputeRefundItem" ADD CONSTRAINT "DisputeRefundItem_disputeId_fkey" FOREIGN KEY ("disputeId") REFERENCES "Dispute"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "DisputeRefundItem" ADD CONSTRAINT "DisputeRefundItem_orderItemId_fkey" FOREIGN KEY ("orderItemId") REFERENCES "OrderItem"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,60 @@
+-- CreateEnum
+CREATE TYPE "DisputeParty" AS ENUM ('BUYER', 'SELLER', 'ADMIN', 'SYSTEM');
+
+-- AlterTable
+ALTER TABLE "Dispute" ADD COLUMN     "sellerRespondBy" TIMESTAMP(3),
+ADD COLUMN     "sellerRespondedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "DisputeMessage" (
+    "id" TEXT NOT NULL,
+    "disputeId" TEXT NOT NULL,
+    "senderId" TEXT,
+    "senderRole" "DisputeParty" NOT NULL,
+    "body" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "DisputeMessage_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "DisputeEvidence" (
+    "id" TEXT NOT NULL,
+    "disputeId" TEXT NOT NULL,
+    "messageId" TEXT,
+    "uploadedById" TEXT NOT NULL,
+    "uploaderRole" "DisputeParty" NOT NULL,
+    "url" TEXT NOT NULL,
+    "mediaType" TEXT NOT NULL,
+    "fileName" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "DisputeEvidence_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "DisputeMessage_disputeId_createdAt_idx" ON "DisputeMessage"("disputeId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "DisputeMessage_senderId_idx" ON "DisputeMessage"("senderId");
+
+-- CreateIndex
+CREATE INDEX "DisputeEvidence_disputeId_idx" ON "DisputeEvidence"("disputeId");
+
+-- CreateIndex
+CREATE INDEX "DisputeEvidence_messageId_idx" ON "DisputeEvidence"("messageId");
+
+-- AddForeignKey
+ALTER TABLE "DisputeMessage" ADD CONSTRAINT "DisputeMessage_disputeId_fkey" FOREIGN KEY ("disputeId") REFERENCES "Dispute"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "DisputeMessage" ADD CONSTRAINT "DisputeMessage_senderId_fkey" FOREIGN KEY ("senderId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "DisputeEvidence" ADD CONSTRAINT "DisputeEvidence_disputeId_fkey" FOREIGN KEY ("disputeId") REFERENCES "Dispute"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "DisputeEvidence" ADD CONSTRAINT "DisputeEvidence_messageId_fkey" FOREIGN KEY ("messageId") REFERENCES "DisputeMessage"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "DisputeEvidence" ADD CONSTRAINT "DisputeEvidence_uploadedById_fkey" FOREIGN KEY ("uploadedById") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,18 @@
+-- CreateEnum
+CREATE TYPE "DisputeOutcome" AS ENUM ('REFUND_BUYER', 'RELEASE_TO_SELLER');
+
+-- AlterEnum
+ALTER TYPE "DisputeStatus" ADD VALUE 'AWAITING_SELLER';
+ALTER TYPE "DisputeStatus" ADD VALUE 'AWAITING_BUYER';
+ALTER TYPE "DisputeStatus" ADD VALUE 'UNDER_REVIEW';
+ALTER TYPE "DisputeStatus" ADD VALUE 'ESCALATED';
+
+-- AlterTable
+ALTER TABLE "Dispute" ADD COLUMN     "deadlineAt" TIMESTAMP(3),
+ADD COLUMN     "escalatedAt" TIMESTAMP(3),
+ADD COLUMN     "recommendedOutcome" "DisputeOutcome",
+ADD COLUMN     "slaBreachCount" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "slaBreachedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "Dispute_status_deadlineAt_idx" ON "Dispute"("status", "deadlineAt");
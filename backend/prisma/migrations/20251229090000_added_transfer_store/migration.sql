@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "TransferLog" ADD COLUMN     "storeId" TEXT;
+
+-- Backfill existing payouts from their orders
+UPDATE "TransferLog" AS t
+SET "storeId" = o."storeId"
+FROM "Order" AS o
+WHERE o."id" = t."orderId";
+
+-- CreateIndex
+CREATE INDEX "TransferLog_storeId_initiatedAt_idx" ON "TransferLog"("storeId", "initiatedAt");
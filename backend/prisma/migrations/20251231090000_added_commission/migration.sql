@@ -0,0 +1,45 @@
+-- AlterTable
+ALTER TABLE "Store" ADD COLUMN     "commissionRate" DOUBLE PRECISION;
+
+-- AlterTable
+ALTER TABLE "Payment" ADD COLUMN     "commissionAmount" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "commissionRate" DOUBLE PRECISION,
+ADD COLUMN     "deliveryFee" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "fixedFee" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "platformFee" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "processingFee" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "sellerAmount" DOUBLE PRECISION;
+
+-- AlterTable
+ALTER TABLE "Escrow" ADD COLUMN     "platformFee" DOUBLE PRECISION;
+
+-- CreateTable
+CREATE TABLE "CommissionSettings" (
+    "id" TEXT NOT NULL DEFAULT 'default',
+    "defaultRate" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "fixedFeePerOrder" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "processingFeeRate" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "updatedBy" TEXT,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "CommissionSettings_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "CategoryCommission" (
+    "id" TEXT NOT NULL,
+    "category" TEXT NOT NULL,
+    "rate" DOUBLE PRECISION NOT NULL,
+    "createdBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "CategoryCommission_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CategoryCommission_category_key" ON "CategoryCommission"("category");
+
+-- Seed the settings row with no fees so existing payouts are unchanged until an admin sets them
+INSERT INTO "CommissionSettings" ("id", "updatedAt")
+VALUES ('default', CURRENT_TIMESTAMP);
@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "Store" ADD COLUMN     "codEnabled" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "codMaxOrderValue" DOUBLE PRECISION,
+ADD COLUMN     "codMinCompletedOrders" INTEGER NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "Order" ADD COLUMN     "cashCollectedAt" TIMESTAMP(3),
+ADD COLUMN     "cashCollectedBy" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Order_storeId_paymentMethod_idx" ON "Order"("storeId", "paymentMethod");
@@ -0,0 +1,38 @@
+-- CreateEnum
+CREATE TYPE "CheckoutSessionStatus" AS ENUM ('OPEN', 'AWAITING_PAYMENT', 'PAID', 'PARTIALLY_PAID', 'FAILED', 'EXPIRED');
+
+-- CreateTable
+CREATE TABLE "CheckoutSession" (
+    "id" TEXT NOT NULL,
+    "buyerId" TEXT NOT NULL,
+    "orderIds" TEXT[],
+    "removedOrderIds" TEXT[],
+    "totalAmount" DOUBLE PRECISION NOT NULL,
+    "currency" TEXT NOT NULL DEFAULT 'GHS',
+    "status" "CheckoutSessionStatus" NOT NULL DEFAULT 'OPEN',
+    "paymentRef" TEXT,
+    "authorizationUrl" TEXT,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "failureReason" TEXT,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "paidAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "CheckoutSession_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CheckoutSession_paymentRef_key" ON "CheckoutSession"("paymentRef");
+
+-- CreateIndex
+CREATE INDEX "CheckoutSession_buyerId_status_idx" ON "CheckoutSession"("buyerId", "status");
+
+-- CreateIndex
+CREATE INDEX "CheckoutSession_status_expiresAt_idx" ON "CheckoutSession"("status", "expiresAt");
+
+-- CreateIndex
+CREATE INDEX "Order_checkoutSession_idx" ON "Order"("checkoutSession");
+
+-- AddForeignKey
+ALTER TABLE "CheckoutSession" ADD CONSTRAINT "CheckoutSession_buyerId_fkey" FOREIGN KEY ("buyerId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,53 @@
+-- CreateEnum
+CREATE TYPE "RecoveryType" AS ENUM ('ABANDONED_CART', 'UNPAID_ORDER');
+
+-- CreateEnum
+CREATE TYPE "RecoveryStatus" AS ENUM ('ACTIVE', 'RECOVERED', 'CLOSED', 'EXPIRED');
+
+-- AlterTable
+ALTER TABLE "Store" ADD COLUMN     "recoveryEnabled" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "recoveryCouponType" "CouponType",
+ADD COLUMN     "recoveryCouponValue" DOUBLE PRECISION;
+
+-- CreateTable
+CREATE TABLE "RecoveryCampaign" (
+    "id" TEXT NOT NULL,
+    "type" "RecoveryType" NOT NULL,
+    "userId" TEXT NOT NULL,
+    "storeId" TEXT NOT NULL,
+    "orderId" TEXT,
+    "value" DOUBLE PRECISION NOT NULL,
+    "status" "RecoveryStatus" NOT NULL DEFAULT 'ACTIVE',
+    "remindersSent" INTEGER NOT NULL DEFAULT 0,
+    "lastReminderAt" TIMESTAMP(3),
+    "nextReminderAt" TIMESTAMP(3),
+    "couponId" TEXT,
+    "recoveredOrderId" TEXT,
+    "recoveredAmount" DOUBLE PRECISION,
+    "closedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "RecoveryCampaign_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "RecoveryCampaign_status_nextReminderAt_idx" ON "RecoveryCampaign"("status", "nextReminderAt");
+
+-- CreateIndex
+CREATE INDEX "RecoveryCampaign_storeId_status_idx" ON "RecoveryCampaign"("storeId", "status");
+
+-- CreateIndex
+CREATE INDEX "RecoveryCampaign_userId_storeId_type_idx" ON "RecoveryCampaign"("userId", "storeId", "type");
+
+-- CreateIndex
+CREATE INDEX "RecoveryCampaign_orderId_idx" ON "RecoveryCampaign"("orderId");
+
+-- AddForeignKey
+ALTER TABLE "RecoveryCampaign" ADD CONSTRAINT "RecoveryCampaign_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RecoveryCampaign" ADD CONSTRAINT "RecoveryCampaign_storeId_fkey" FOREIGN KEY ("storeId") REFERENCES "Store"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RecoveryCampaign" ADD CONSTRAINT "RecoveryCampaign_couponId_fkey" FOREIGN KEY ("couponId") REFERENCES "Coupon"("id") ON DELETE SET NULL ON UPDATE CASCADE;
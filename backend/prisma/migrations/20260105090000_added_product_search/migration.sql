@@ -0,0 +1,59 @@
+-- CreateExtension
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- AlterTable
+ALTER TABLE "Product" ADD COLUMN     "searchVector" tsvector;
+
+-- Keep the search document in step with the product. Name ranks highest, then tags and
+-- category, then description.
+CREATE FUNCTION product_search_vector_update() RETURNS trigger AS $$
+BEGIN
+  NEW."searchVector" :=
+    setweight(to_tsvector('english', COALESCE(NEW."name", '')), 'A') ||
+    setweight(to_tsvector('english', array_to_string(NEW."tags", ' ')), 'B') ||
+    setweight(to_tsvector('english', COALESCE(NEW."category", '')), 'B') ||
+    setweight(to_tsvector('english', COALESCE(NEW."description", '')), 'C');
+  RETURN NEW;
+END
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER product_search_vector_trigger
+BEFORE INSERT OR UPDATE OF "name", "description", "tags", "category" ON "Product"
+FOR EACH ROW EXECUTE FUNCTION product_search_vector_update();
+
+-- Backfill existing products
+UPDATE "Product" SET "searchVector" =
+  setweight(to_tsvector('english', COALESCE("name", '')), 'A') ||
+  setweight(to_tsvector('english', array_to_string("tags", ' ')), 'B') ||
+  setweight(to_tsvector('english', COALESCE("category", '')), 'B') ||
+  setweight(to_tsvector('english', COALESCE("description", '')), 'C');
+
+-- CreateIndex
+CREATE INDEX "Product_searchVector_idx" ON "Product" USING GIN ("searchVector");
+
+-- CreateIndex
+CREATE INDEX "Product_name_trgm_idx" ON "Product" USING GIN ("name" gin_trgm_ops);
+
+-- CreateIndex
+CREATE INDEX "Store_name_trgm_idx" ON "Store" USING GIN ("name" gin_trgm_ops);
+
+-- Words used in active product names, tags and categories, for "did you mean" suggestions and
+-- autocomplete. Refreshed by the search-terms job.
+CREATE MATERIALIZED VIEW "ProductSearchTerm" AS
+SELECT "term", COUNT(*)::int AS "productCount"
+FROM (
+  SELECT DISTINCT p."id", t."term"
+  FROM "Product" p
+  CROSS JOIN LATERAL regexp_split_to_table(
+    lower(p."name" || ' ' || array_to_string(p."tags", ' ') || ' ' || COALESCE(p."category", '')),
+    '[^[:alnum:]]+'
+  ) AS t("term")
+  WHERE p."isActive" = true AND length(t."term") >= 3
+) words
+GROUP BY "term";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ProductSearchTerm_term_key" ON "ProductSearchTerm"("term");
+
+-- CreateIndex
+CREATE INDEX "ProductSearchTerm_term_trgm_idx" ON "ProductSearchTerm" USING GIN ("term" gin_trgm_ops);
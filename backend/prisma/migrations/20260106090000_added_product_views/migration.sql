@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE "ProductView" (
+    "id" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "userId" TEXT,
+    "viewedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ProductView_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ProductView_productId_userId_idx" ON "ProductView"("productId", "userId");
+
+-- CreateIndex
+CREATE INDEX "ProductView_userId_viewedAt_idx" ON "ProductView"("userId", "viewedAt");
+
+-- CreateIndex
+CREATE INDEX "ProductView_viewedAt_idx" ON "ProductView"("viewedAt");
+
+-- AddForeignKey
+ALTER TABLE "ProductView" ADD CONSTRAINT "ProductView_productId_fkey" FOREIGN KEY ("productId") REFERENCES "Product"("id") ON DELETE CASCADE ON UPDATE CASCADE;
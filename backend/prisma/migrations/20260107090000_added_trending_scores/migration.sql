@@ -0,0 +1,83 @@
+-- CreateEnum
+CREATE TYPE "ProductEventType" AS ENUM ('VIEW', 'LIKE', 'ADD_TO_CART', 'PURCHASE');
+
+-- CreateTable
+CREATE TABLE "ProductEvent" (
+    "id" TEXT NOT NULL,
+    "type" "ProductEventType" NOT NULL,
+    "productId" TEXT NOT NULL,
+    "storeId" TEXT NOT NULL,
+    "userId" TEXT,
+    "quantity" INTEGER NOT NULL DEFAULT 1,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ProductEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ProductTrendingScore" (
+    "productId" TEXT NOT NULL,
+    "storeId" TEXT NOT NULL,
+    "category" TEXT,
+    "region" TEXT,
+    "score" DOUBLE PRECISION NOT NULL,
+    "viewScore" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "likeScore" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "cartScore" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "purchaseScore" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "views" INTEGER NOT NULL DEFAULT 0,
+    "likes" INTEGER NOT NULL DEFAULT 0,
+    "carts" INTEGER NOT NULL DEFAULT 0,
+    "purchases" INTEGER NOT NULL DEFAULT 0,
+    "computedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ProductTrendingScore_pkey" PRIMARY KEY ("productId")
+);
+
+-- CreateTable
+CREATE TABLE "StoreTrendingScore" (
+    "storeId" TEXT NOT NULL,
+    "region" TEXT,
+    "score" DOUBLE PRECISION NOT NULL,
+    "viewScore" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "likeScore" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "cartScore" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "purchaseScore" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "views" INTEGER NOT NULL DEFAULT 0,
+    "likes" INTEGER NOT NULL DEFAULT 0,
+    "carts" INTEGER NOT NULL DEFAULT 0,
+    "purchases" INTEGER NOT NULL DEFAULT 0,
+    "computedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "StoreTrendingScore_pkey" PRIMARY KEY ("storeId")
+);
+
+-- CreateIndex
+CREATE INDEX "ProductEvent_createdAt_idx" ON "ProductEvent"("createdAt");
+
+-- CreateIndex
+CREATE INDEX "ProductEvent_productId_type_createdAt_idx" ON "ProductEvent"("productId", "type", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "ProductTrendingScore_score_idx" ON "ProductTrendingScore"("score");
+
+-- CreateIndex
+CREATE INDEX "ProductTrendingScore_region_score_idx" ON "ProductTrendingScore"("region", "score");
+
+-- CreateIndex
+CREATE INDEX "ProductTrendingScore_category_score_idx" ON "ProductTrendingScore"("category", "score");
+
+-- CreateIndex
+CREATE INDEX "StoreTrendingScore_score_idx" ON "StoreTrendingScore"("score");
+
+-- CreateIndex
+CREATE INDEX "StoreTrendingScore_region_score_idx" ON "StoreTrendingScore"("region", "score");
+
+-- AddForeignKey
+ALTER TABLE "ProductEvent" ADD CONSTRAINT "ProductEvent_productId_fkey" FOREIGN KEY ("productId") REFERENCES "Product"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ProductTrendingScore" ADD CONSTRAINT "ProductTrendingScore_productId_fkey" FOREIGN KEY ("productId") REFERENCES "Product"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "StoreTrendingScore" ADD CONSTRAINT "StoreTrendingScore_storeId_fkey" FOREIGN KEY ("storeId") REFERENCES "Store"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,14 @@
+-- AlterTable
+ALTER TABLE "Product" ADD COLUMN     "viewCount" INTEGER NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "ProductView" ADD COLUMN     "visitorKey" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Product_viewCount_idx" ON "Product"("viewCount");
+
+-- CreateIndex
+CREATE INDEX "ProductView_productId_visitorKey_idx" ON "ProductView"("productId", "visitorKey");
+
+-- CreateIndex
+CREATE INDEX "ProductView_productId_viewedAt_idx" ON "ProductView"("productId", "viewedAt");
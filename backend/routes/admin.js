@@ -14,6 +14,29 @@ import {
   getAllOrdersForAdmin
 } from '../controllers/admincontrollers.js';
 import { updateOrderStatus } from '../controllers/ordercontrollers.js';
+import {
+  createPlatformCoupon,
+  getPlatformCoupons,
+  updateCoupon,
+  deactivateCoupon
+} from '../controllers/couponcontrollers.js';
+import { adjustUserPoints } from '../controllers/pointscontroller.js';
+import {
+  getLoyaltyConfig,
+  updateLoyaltySettings,
+  createLoyaltyRule,
+  updateLoyaltyRule,
+  deleteLoyaltyRule
+} from '../controllers/loyaltycontroller.js';
+import {
+  getCommissionConfig,
+  updateCommissionSettings,
+  setCategoryCommission,
+  deleteCategoryCommission,
+  setStoreCommission
+} from '../controllers/commissioncontroller.js';
+import { getWebhookEvents, replayWebhookEvent } from '../controllers/paymentcontroller.js';
+import { getTrendingScores } from '../controllers/trendingcontroller.js';
 
 const router = express.Router();
 
@@ -24,11 +47,29 @@ router.get('/users/:userId', getUserById);
 router.put('/users/:userId/suspend', suspendUser);
 router.put('/users/:userId/reactivate', reactivateUser);
 router.delete('/users/:userId', deleteUser);
+router.post('/users/:userId/points', adjustUserPoints);
 router.get('/stores', getAllStores);
 router.put('/:storeId/suspend', suspendStore);
 router.delete('/:storeId', deleteStore);
 router.get('/orders',getAllOrdersForAdmin )
 router.put('/orders/:orderId/status', updateOrderStatus)
+router.post('/coupons', createPlatformCoupon);
+router.get('/coupons', getPlatformCoupons);
+router.put('/coupons/:couponId', updateCoupon);
+router.delete('/coupons/:couponId', deactivateCoupon);
+router.get('/loyalty', getLoyaltyConfig);
+router.put('/loyalty/settings', updateLoyaltySettings);
+router.post('/loyalty/rules', createLoyaltyRule);
+router.put('/loyalty/rules/:ruleId', updateLoyaltyRule);
+router.delete('/loyalty/rules/:ruleId', deleteLoyaltyRule);
+router.get('/commission', getCommissionConfig);
+router.put('/commission/settings', updateCommissionSettings);
+router.put('/commission/categories/:category', setCategoryCommission);
+router.delete('/commission/categories/:category', deleteCategoryCommission);
+router.put('/commission/stores/:storeId', setStoreCommission);
+router.get('/webhooks', getWebhookEvents);
+router.post('/webhooks/:eventId/replay', replayWebhookEvent);
+router.get('/trending', getTrendingScores);
 
 
 
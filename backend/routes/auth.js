@@ -1,6 +1,6 @@
 import express from 'express';
 import {signup,verifyEmail,resendVerificationCode,login,logout,getCurrentUser,  requestAccountDeletion,confirmAccountDeletion,
-cancelAccountDeletion,} from '../controllers/authcontroller.js';
+cancelAccountDeletion,requestPasswordReset,resetPassword,refreshAccessToken,getActiveSessions,revokeUserSession,revokeOtherSessions,} from '../controllers/authcontroller.js';
 import { authenticateToken } from '../middleware/authmiddleware.js';
 
 const router = express.Router();
@@ -10,12 +10,20 @@ router.post('/signup', signup);
 router.post('/verify-email', verifyEmail);
 router.post('/resend-verification', resendVerificationCode);
 router.post('/login', login);
+router.post('/refresh', refreshAccessToken);
 router.post('/logout', logout);
+router.post('/forgot-password', requestPasswordReset);
+router.post('/reset-password', resetPassword);
 
 
 // Protected routes (authentication required)
 router.get('/me', authenticateToken, getCurrentUser);
 
+// Session management routes (authentication required)
+router.get('/sessions', authenticateToken, getActiveSessions);
+router.delete('/sessions', authenticateToken, revokeOtherSessions);
+router.delete('/sessions/:sessionId', authenticateToken, revokeUserSession);
+
 // Account deletion routes (authentication required)
 router.post('/delete-account/request', authenticateToken, requestAccountDeletion);
 router.post('/delete-account/confirm', authenticateToken, confirmAccountDeletion);
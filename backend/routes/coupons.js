@@ -0,0 +1,22 @@
+// routes/coupons.js
+import express from 'express';
+import {
+  createStoreCoupon,
+  getStoreCoupons,
+  updateCoupon,
+  deactivateCoupon,
+  validateCouponCode
+} from '../controllers/couponcontrollers.js';
+import { authenticateToken, authorizeRoles } from '../middleware/authmiddleware.js';
+
+const router = express.Router();
+
+router.post('/validate', authenticateToken, authorizeRoles("BUYER"), validateCouponCode);
+
+// Seller store coupons
+router.post('/', authenticateToken, authorizeRoles("SELLER"), createStoreCoupon);
+router.get('/my-store', authenticateToken, authorizeRoles("SELLER"), getStoreCoupons);
+router.put('/:couponId', authenticateToken, authorizeRoles("SELLER"), updateCoupon);
+router.delete('/:couponId', authenticateToken, authorizeRoles("SELLER"), deactivateCoupon);
+
+export default router;
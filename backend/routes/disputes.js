@@ -1,5 +1,6 @@
 import express from 'express';
 import { authenticateToken, authorizeRoles } from '../middleware/authmiddleware.js';
+import { uploadDisputeEvidence, handleMulterError } from '../config/disputemulter.js';
 import {
   requestRefund,
   resolveDispute,
@@ -7,17 +8,23 @@ import {
   getUserDisputes,
   getAllDisputes,
   updateDispute,
-  cancelDispute
+  cancelDispute,
+  addDisputeMessage,
+  getDisputeMessages,
+  updateDisputeStatus
 } from '../controllers/disputescontroller.js';
 
 const router = express.Router();
 
-router.post('/refund/:orderId', authenticateToken, requestRefund);
-router.post('/:disputeId/resolve', authenticateToken, authorizeRoles(['ADMIN']), resolveDispute);
+router.post('/refund/:orderId', authenticateToken, uploadDisputeEvidence, handleMulterError, requestRefund);
+router.post('/:disputeId/resolve', authenticateToken, authorizeRoles('ADMIN'), resolveDispute);
+router.patch('/:disputeId/status', authenticateToken, authorizeRoles('ADMIN'), updateDisputeStatus);
 router.get('/:disputeId', authenticateToken, getDisputeDetails);
 router.get('/user/all', authenticateToken, getUserDisputes);
-router.get('/admin/all', authenticateToken, authorizeRoles(['ADMIN']), getAllDisputes);
+router.get('/admin/all', authenticateToken, authorizeRoles('ADMIN'), getAllDisputes);
 router.patch('/:disputeId', authenticateToken, updateDispute);
 router.post('/:disputeId/cancel', authenticateToken, cancelDispute);
+router.get('/:disputeId/messages', authenticateToken, getDisputeMessages);
+router.post('/:disputeId/messages', authenticateToken, uploadDisputeEvidence, handleMulterError, addDisputeMessage);
 
 export default router;
\ No newline at end of file
@@ -4,12 +4,14 @@ import {
   confirmOrderReceived,
   getEscrowDetails,
   getOrderEscrowStatus,
-  getPendingEscrows
+  getPendingEscrows,
+  getEscrowReleaseJobStatus
 } from '../controllers/escrowcontroller.js';
 
 const router = express.Router();
 
 router.post('/:orderId/confirm', authenticateToken, confirmOrderReceived);
+router.get('/jobs/auto-release', authenticateToken, authorizeRoles('ADMIN'), getEscrowReleaseJobStatus);
 router.get('/:escrowId', authenticateToken, getEscrowDetails);
 router.get('/order/:orderId', authenticateToken, getOrderEscrowStatus);
 router.get('/pending', authenticateToken, authorizeRoles(["ADMIN"]), getPendingEscrows);
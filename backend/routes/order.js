@@ -2,13 +2,12 @@
 import express from 'express';
 import {
   createOrder,
+  getOrderQuote,
   getOrderById,
   getBuyerOrders,
   getSellerOrders,
   updateOrderStatus,
-  updatePaymentStatus, // Might need different auth (webhook)
   cancelOrder,
-  updateCheckoutSession,
   getUnpaidOrders,
   getUnpaidOrdersSummary,
   getUnpaidOrdersByStore,
@@ -21,14 +20,13 @@ import { authenticateToken, authorizeRoles } from '../middleware/authmiddleware.
 const router = express.Router();
 
 router.post('/', authenticateToken, authorizeRoles("BUYER"),createOrder);
+router.post('/quote', authenticateToken, authorizeRoles("BUYER"), getOrderQuote);
 router.get('/my-orders', authenticateToken, authorizeRoles("BUYER"),getBuyerOrders);
 router.get('/:orderId', authenticateToken, getOrderById); 
 router.delete('/:orderId', authenticateToken, cancelOrder); 
 
 router.get('/seller/seller-orders', authenticateToken,getSellerOrders);
 router.patch('/:orderId/status', authenticateToken, authorizeRoles("SELLER"),updateOrderStatus);
-router.put('/:orderId/checkout', authenticateToken,updateCheckoutSession)
-
 
 router.get('/unpaid', authenticateToken, getUnpaidOrders);
 router.get('/unpaid/summary', authenticateToken, getUnpaidOrdersSummary);
@@ -7,17 +7,21 @@ import {
   getUserPayments,
   verifyPayment,
   createCheckoutSession,
-  getPaymentsByCheckoutSession
+  payCheckoutSession,
+  getCheckoutSession,
+  submitMobileMoneyOtp
 } from '../controllers/paymentcontroller.js';
 
 const router = express.Router();
 
 router.post('/checkout-session',authenticateToken, createCheckoutSession); // NEW: Checkout session route
+router.post('/checkout-session/:sessionId/pay', authenticateToken, payCheckoutSession);
+router.get('/checkout-session/:sessionId', authenticateToken, getCheckoutSession);
 router.post('/initiate', authenticateToken, initiatePayment);
+router.post('/mobile-money/otp', authenticateToken, submitMobileMoneyOtp);
 router.post('/webhook', handlePaystackWebhook); 
 router.get('/:paymentId', authenticateToken, getPaymentDetails);
 router.get('/user/all', authenticateToken, getUserPayments);
 router.get('/verify/:reference', authenticateToken, verifyPayment);
-router.get('checkout-session/:sessionId', authenticateToken,getPaymentsByCheckoutSession)
 
 export default router;
\ No newline at end of file
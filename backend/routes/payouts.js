@@ -0,0 +1,17 @@
+import express from 'express';
+import { authenticateToken, authorizeRoles } from '../middleware/authmiddleware.js';
+import {
+  getPayoutSummary,
+  getPayoutHistory,
+  verifyPayoutStatus,
+  downloadPayoutStatement
+} from '../controllers/payoutcontroller.js';
+
+const router = express.Router();
+
+router.get('/summary', authenticateToken, authorizeRoles("SELLER"), getPayoutSummary);
+router.get('/history', authenticateToken, authorizeRoles("SELLER"), getPayoutHistory);
+router.get('/statement', authenticateToken, authorizeRoles("SELLER"), downloadPayoutStatement);
+router.get('/:transferId/verify', authenticateToken, authorizeRoles("SELLER"), verifyPayoutStatus);
+
+export default router;
@@ -3,7 +3,8 @@ import {
   getRedeemableProducts,
   redeemPointsForProduct,
   getUserPointsBalance,
-  getPointsHistory
+  getPointsHistory,
+  getReferralInfo
 } from '../controllers/pointscontroller.js';
 import { authenticateToken } from '../middleware/authmiddleware.js';
 
@@ -13,5 +14,6 @@ router.get('/balance', authenticateToken, getUserPointsBalance);
 router.get('/redeemable-products', authenticateToken, getRedeemableProducts);
 router.post('/redeem/:productId', authenticateToken, redeemPointsForProduct);
 router.get('/history', authenticateToken, getPointsHistory);
+router.get('/referral', authenticateToken, getReferralInfo);
 
 export default router;
\ No newline at end of file
@@ -11,16 +11,21 @@ import {
   getTopSellingProducts,
   getRecommendedProducts,
   getProductsYouMayLike,
-  getTrendingProducts
+  getTrendingProducts,
+  getSearchSuggestions,
+  getProductFacetCounts,
+  getPersonalisedRecommendations
 } from '../controllers/productcontroller.js';
-import { authenticateToken } from '../middleware/authmiddleware.js';
+import { authenticateToken, optionalAuth } from '../middleware/authmiddleware.js';
 import { uploadProductImages, handleMulterError } from '../config/multerproduct.js';
 
 const router = express.Router();
 
 // Public Routes (No Authentication Required)
-router.get('/product/:productUrl', getSellerProductByIdForPublicUse)
+router.get('/product/:productUrl', optionalAuth, getSellerProductByIdForPublicUse)
 router.get('/', getAllProducts); 
+router.get('/search/suggest', getSearchSuggestions);
+router.get('/facets', getProductFacetCounts);
 router.get('/store/:storeUrl', getAllSellerProductsForPublicUse);
 
 // Authenticated Routes (Require Authentication)
@@ -32,6 +37,7 @@ router.delete('/:productId', authenticateToken, deleteProduct);
 router.get('/top-selling', getTopSellingProducts);
 router.get('/recommended/:productUrl', getRecommendedProducts);
 router.get('/you-may-like', getProductsYouMayLike);
+router.get('/for-you', authenticateToken, getPersonalisedRecommendations);
 router.get('/trending', getTrendingProducts);
 
 export default router;
\ No newline at end of file
@@ -5,7 +5,11 @@ import {
   getSalesAnalytics,
   getTopSellingProducts,
   getOrderAnalytics,
-  getStorePerformance
+  getStorePerformance,
+  getCouponPerformance,
+  getRecoveryPerformance,
+  getProductFunnelAnalytics,
+  getProductFunnelById
 } from '../controllers/sellerdashboardcontrollers.js';
 import { authenticateToken, authorizeRoles } from '../middleware/authmiddleware.js';
 
@@ -17,6 +21,10 @@ router.get('/sales-analytics', authenticateToken, authorizeRoles("SELLER"),getSa
 router.get('/top-products', authenticateToken, authorizeRoles("SELLER"),getTopSellingProducts);
 router.get('/order-analytics', authenticateToken, authorizeRoles("SELLER"),getOrderAnalytics); 
 router.get('/store-performance', authenticateToken,getStorePerformance); 
+router.get('/coupons', authenticateToken, authorizeRoles("SELLER"), getCouponPerformance);
+router.get('/recovery', authenticateToken, authorizeRoles("SELLER"), getRecoveryPerformance);
+router.get('/product-funnel', authenticateToken, authorizeRoles("SELLER"), getProductFunnelAnalytics);
+router.get('/product-funnel/:productId', authenticateToken, authorizeRoles("SELLER"), getProductFunnelById);
 
 // Add other specific analytics routes here if needed, e.g.:
 // router.get('/customer-demographics', authenticateToken, getCustomerDemographics);
@@ -7,8 +7,11 @@ import {
   getStoreBySlug, 
   updateStoreVerification,
   getUserStore,
-  getSellerStoreForPublicUse
+  getSellerStoreForPublicUse,
+  updateCashOnDeliverySettings,
+  updateRecoverySettings
 } from '../controllers/storecontrollers.js';
+import { getTrendingStores } from '../controllers/trendingcontroller.js';
 import { upload, handleMulterError } from '../config/multer.js';
 import { authorizeRoles, authenticateToken, optionalAuth } from '../middleware/authmiddleware.js';
 
@@ -20,6 +23,9 @@ router.put('/:storeId', authenticateToken, upload.single('logo'), handleMulterEr
 router.delete('/:storeId', authenticateToken, deleteStore);
 router.get('/s/:slug', getStoreBySlug);
 router.get('/my-store', authenticateToken, getUserStore);
+router.get('/trending', getTrendingStores);
+router.put('/my-store/cash-on-delivery', authenticateToken, authorizeRoles("SELLER"), updateCashOnDeliverySettings);
+router.put('/my-store/recovery', authenticateToken, authorizeRoles("SELLER"), updateRecoverySettings);
 
 router.get('/:id', optionalAuth, getSellerStoreForPublicUse);
 
@@ -23,9 +23,13 @@ import deliveryRoutes from './routes/delivery.js';
 import escrowRoutes from './routes/escrow.js'
 import adminRoutes from './routes/admin.js';
 import adminAnalyticsRoutes from './routes/admindashboard.js';
+import couponRoutes from './routes/coupons.js';
+import payoutRoutes from './routes/payouts.js';
 
 
 import initializeSocket from './config/socket.js';
+import { registerJobs } from './jobs/index.js';
+import { startScheduler } from './services/jobScheduler.js';
 import { createServer } from 'http';
 import cors from 'cors';
 import helmet from 'helmet';
@@ -36,10 +40,20 @@ const app = express();
 const httpServer = createServer(app);
 const PORT = process.env.PORT;
 
+// The API sits behind the host's load balancer, so req.ip comes from X-Forwarded-For. Set
+// TRUST_PROXY_HOPS to the number of proxies in front of the app, or 0 when it is reached directly.
+const trustProxyHops = parseInt(process.env.TRUST_PROXY_HOPS);
+app.set('trust proxy', Number.isNaN(trustProxyHops) ? 1 : trustProxyHops);
+
 const io = initializeSocket(httpServer);
+registerJobs();
 
-// Middleware to parse JSON
-app.use(express.json());
+// Middleware to parse JSON; keep the raw bytes so webhook signatures can be checked against them
+app.use(express.json({
+  verify: (req, res, buf) => {
+    req.rawBody = buf;
+  }
+}));
 app.set('io', io);
 
 app.use(helmet());
@@ -74,6 +88,8 @@ app.use('/api/delivery', deliveryRoutes)
 app.use('/api/escrow', escrowRoutes);
 app.use('/api/admin',adminRoutes)
 app.use('/api/admin/analytics', adminAnalyticsRoutes);
+app.use('/api/coupons', couponRoutes);
+app.use('/api/payouts', payoutRoutes);
 
 
 // Health check
@@ -114,6 +130,7 @@ function startServer() {
   httpServer.listen(PORT, () => {
     console.log(`Server running on port ${PORT}`);
     console.log(`Socket.IO enabled and ready`);
+    startScheduler();
   });
 }
 
@@ -0,0 +1,254 @@
+// services/jobScheduler.js
+import crypto from 'crypto';
+import os from 'os';
+import { cache } from '../config/redis.js';
+
+// Only the instance holding the leader lock runs jobs; the others stay on standby. Without Redis
+// there is no lock to hold, so every instance runs its jobs locally until Redis is back.
+const LEADER_KEY = 'jobs:leader';
+const LEADER_TTL_MS = 30 * 1000;
+const HEARTBEAT_INTERVAL_MS = 10 * 1000;
+const STATUS_TTL = 7 * 24 * 60 * 60; // 7 days
+
+const instanceId = `${os.hostname()}:${process.pid}:${crypto.randomBytes(4).toString('hex')}`;
+const jobs = new Map();
+
+let isLeader = false;
+let runningLocally = false;
+let heartbeatTimer = null;
+let started = false;
+
+const statusKey = (name) => `jobs:${name}:status`;
+const runLockKey = (name) => `jobs:${name}:lock`;
+
+// Try to become (or stay) the leader
+const electLeader = async () => {
+  const wasLeader = isLeader;
+  const wasLocal = runningLocally;
+
+  runningLocally = !cache.isConnected;
+  if (runningLocally) {
+    isLeader = true;
+    if (!wasLocal) {
+      console.warn(`Job scheduler ${instanceId} cannot reach Redis; running jobs locally.`);
+    }
+    return isLeader;
+  }
+
+  if (wasLocal) {
+    isLeader = false;
+  }
+
+  if (isLeader) {
+    isLeader = await cache.renewLock(LEADER_KEY, instanceId, LEADER_TTL_MS);
+  }
+
+  if (!isLeader) {
+    isLeader = await cache.acquireLock(LEADER_KEY, instanceId, LEADER_TTL_MS);
+  }
+
+  if (isLeader !== wasLeader) {
+    console.log(`Job scheduler ${instanceId} is ${isLeader ? 'now the leader' : 'no longer the leader'}.`);
+  }
+
+  return isLeader;
+};
+
+const saveStatus = async (job, updates) => {
+  const current = (await cache.get(statusKey(job.name))) || job.status || {};
+  const status = {
+    ...current,
+    name: job.name,
+    intervalMs: job.intervalMs,
+    nextRunAt: job.nextRunAt,
+    ...updates
+  };
+  // Kept in memory too, so the status endpoint still has it while Redis is down
+  job.status = status;
+  await cache.set(statusKey(job.name), status, STATUS_TTL);
+  return status;
+};
+
+const scheduleNext = (job) => {
+  job.nextRunAt = new Date(Date.now() + job.intervalMs).toISOString();
+  job.timer = setTimeout(() => runJob(job.name), job.intervalMs);
+  job.timer.unref?.();
+};
+
+/**
+ * Run a registered job once if this instance is the leader
+ * @param {string} name - Job name
+ * @returns {Promise<Object|null>} - The handler result, or null when skipped
+ */
+export const runJob = async (name) => {
+  const job = jobs.get(name);
+  if (!job) {
+    throw new Error(`Job "${name}" is not registered`);
+  }
+
+  // Only the call that claims the job schedules its next run, so overlapping calls can't stack
+  // up timers
+  if (job.running) {
+    return null;
+  }
+  job.running = true;
+
+  clearTimeout(job.timer);
+
+  try {
+    if (!(await electLeader())) {
+      return null;
+    }
+
+    // Guards against overlapping runs while leadership moves between instances
+    const lockAcquired = runningLocally || await cache.acquireLock(runLockKey(name), instanceId, job.lockTtlMs);
+    if (!lockAcquired) {
+      return null;
+    }
+
+    const startedAt = new Date();
+
+    try {
+      await saveStatus(job, {
+        state: 'running',
+        lastRunAt: startedAt.toISOString(),
+        runBy: instanceId
+      });
+
+      const result = await job.handler();
+      const finishedAt = new Date();
+
+      await saveStatus(job, {
+        state: 'idle',
+        lastFinishedAt: finishedAt.toISOString(),
+        lastDurationMs: finishedAt - startedAt,
+        lastSuccess: true,
+        lastError: null,
+        lastResult: result ?? null,
+        nextRunAt: new Date(finishedAt.getTime() + job.intervalMs).toISOString()
+      });
+
+      return result;
+    } catch (error) {
+      console.error(`Job "${name}" failed:`, error);
+      const finishedAt = new Date();
+
+      await saveStatus(job, {
+        state: 'idle',
+        lastFinishedAt: finishedAt.toISOString(),
+        lastDurationMs: finishedAt - startedAt,
+        lastSuccess: false,
+        lastError: error.message,
+        nextRunAt: new Date(finishedAt.getTime() + job.intervalMs).toISOString()
+      });
+
+      return null;
+    } finally {
+      await cache.releaseLock(runLockKey(name), instanceId);
+    }
+  } finally {
+    job.running = false;
+    if (started) {
+      scheduleNext(job);
+    }
+  }
+};
+
+/**
+ * Register a recurring job
+ * @param {Object} options
+ * @param {string} options.name - Unique job name
+ * @param {number} options.intervalMs - Delay between runs in milliseconds
+ * @param {Function} options.handler - Async function doing the work; its return value is stored as lastResult
+ * @param {boolean} options.runOnStart - Run as soon as the scheduler starts
+ */
+export const registerJob = ({ name, intervalMs, handler, runOnStart = false }) => {
+  if (jobs.has(name)) {
+    throw new Error(`Job "${name}" is already registered`);
+  }
+
+  jobs.set(name, {
+    name,
+    intervalMs,
+    handler,
+    runOnStart,
+    lockTtlMs: Math.max(intervalMs, LEADER_TTL_MS),
+    timer: null,
+    running: false,
+    nextRunAt: null,
+    status: null
+  });
+};
+
+/**
+ * Start leader election and the timers for every registered job
+ */
+export const startScheduler = async () => {
+  if (started) return;
+  started = true;
+
+  await electLeader();
+
+  heartbeatTimer = setInterval(electLeader, HEARTBEAT_INTERVAL_MS);
+  heartbeatTimer.unref?.();
+
+  for (const job of jobs.values()) {
+    if (job.runOnStart) {
+      runJob(job.name);
+    } else {
+      scheduleNext(job);
+    }
+  }
+
+  console.log(`Job scheduler started with ${jobs.size} job(s) on ${instanceId}.`);
+};
+
+/**
+ * Stop all timers and hand leadership over to another instance
+ */
+export const stopScheduler = async () => {
+  if (!started) return;
+  started = false;
+
+  clearInterval(heartbeatTimer);
+  for (const job of jobs.values()) {
+    clearTimeout(job.timer);
+  }
+
+  if (isLeader) {
+    await cache.releaseLock(LEADER_KEY, instanceId);
+    isLeader = false;
+    runningLocally = false;
+  }
+};
+
+/**
+ * Get the last recorded run of a job along with who currently leads
+ * @param {string} name - Job name
+ * @returns {Promise<Object|null>}
+ */
+export const getJobStatus = async (name) => {
+  const job = jobs.get(name);
+  if (!job) return null;
+
+  const status = (await cache.get(statusKey(name))) || job.status || {};
+  const leader = cache.isConnected ? await cache.client.get(LEADER_KEY) : null;
+
+  return {
+    name,
+    intervalMs: job.intervalMs,
+    state: 'idle',
+    lastRunAt: null,
+    lastFinishedAt: null,
+    lastSuccess: null,
+    lastError: null,
+    lastResult: null,
+    ...status,
+    // The leader's own timer is authoritative; standby instances fall back to the stored value
+    nextRunAt: isLeader && job.nextRunAt ? job.nextRunAt : status.nextRunAt || null,
+    leader,
+    instanceId,
+    // 'local' means Redis is unreachable and each instance is running its own jobs
+    coordination: runningLocally ? 'local' : 'redis'
+  };
+};
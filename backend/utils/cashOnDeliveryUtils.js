@@ -0,0 +1,48 @@
+// utils/cashOnDeliveryUtils.js
+import prisma from '../config/prisma.js';
+
+export const CASH_ON_DELIVERY = 'CASH_ON_DELIVERY';
+
+/**
+ * Whether the buyer pays this order in cash when it's delivered, with no online payment or escrow
+ * @param {Object} order - Order with paymentMethod
+ * @returns {boolean}
+ */
+export const isCashOnDelivery = (order) => order?.paymentMethod === CASH_ON_DELIVERY;
+
+/**
+ * Check a store's cash on delivery limits for one order: the store must offer it, the order must
+ * be within its maximum value, and the buyer must have completed enough orders on the platform
+ * @param {Object} params
+ * @param {Object} params.store - Store with codEnabled, codMaxOrderValue and codMinCompletedOrders
+ * @param {string} params.buyerId
+ * @param {number} params.amount - Order total
+ * @returns {Promise<{available: boolean, reason: string|null}>}
+ */
+export const checkCashOnDeliveryEligibility = async ({ store, buyerId, amount }) => {
+  if (!store.codEnabled) {
+    return { available: false, reason: 'This store does not accept cash on delivery.' };
+  }
+
+  if (store.codMaxOrderValue !== null && store.codMaxOrderValue !== undefined && amount > store.codMaxOrderValue) {
+    return {
+      available: false,
+      reason: `Cash on delivery is only available for orders up to ${store.codMaxOrderValue.toFixed(2)}.`
+    };
+  }
+
+  if (store.codMinCompletedOrders > 0) {
+    const completedOrders = await prisma.order.count({
+      where: { buyerId, status: 'COMPLETED' }
+    });
+
+    if (completedOrders < store.codMinCompletedOrders) {
+      return {
+        available: false,
+        reason: `Cash on delivery is available after ${store.codMinCompletedOrders} completed order(s).`
+      };
+    }
+  }
+
+  return { available: true, reason: null };
+};
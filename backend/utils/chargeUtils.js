@@ -0,0 +1,122 @@
+// utils/chargeUtils.js
+import axios from 'axios';
+
+const PAYSTACK_BASE_URL = 'https://api.paystack.co';
+
+// Order.paymentProvider values mapped to Paystack's mobile money provider codes
+export const MOBILE_MONEY_PROVIDERS = {
+  MTN: 'mtn',
+  VODAFONE: 'vod',
+  AIRTEL_TIGO: 'atl'
+};
+
+// Charge statuses that haven't settled yet, e.g. waiting for an OTP or approval on the buyer's phone
+export const PENDING_CHARGE_STATUSES = ['send_otp', 'pay_offline', 'pending', 'ongoing', 'processing'];
+
+// Helper function to make Paystack API requests
+const paystackRequest = async (method, endpoint, data = null) => {
+  const response = await axios({
+    method,
+    url: `${PAYSTACK_BASE_URL}${endpoint}`,
+    data,
+    headers: {
+      Authorization: `Bearer ${process.env.PAYSTACK_SECRET_KEY}`,
+      'Content-Type': 'application/json'
+    }
+  });
+  return response.data;
+};
+
+// Paystack answers a declined charge with a 400 whose body still describes the charge
+const getChargeResult = (chargeResponse) => {
+  const charge = chargeResponse.data || {};
+  return {
+    success: true,
+    status: charge.status, // 'send_otp', 'pay_offline', 'pending', 'success', 'failed'
+    reference: charge.reference,
+    displayText: charge.display_text || chargeResponse.message,
+    chargeData: charge
+  };
+};
+
+const getChargeError = (error) => {
+  if (error.response?.data?.data?.status) {
+    return getChargeResult(error.response.data);
+  }
+
+  return {
+    success: false,
+    error: error.response?.data?.message || error.message,
+    details: error.response?.data || null
+  };
+};
+
+/**
+ * Normalise a Ghanaian mobile money number to the local 0XXXXXXXXX form Paystack expects
+ * @param {string} phone
+ * @returns {string|null} null if it isn't a valid mobile number
+ */
+export const normalizeMobileMoneyPhone = (phone) => {
+  const digits = String(phone || '').replace(/\D/g, '');
+  const local = digits.startsWith('233') ? `0${digits.slice(3)}` : digits;
+  return /^0\d{9}$/.test(local) ? local : null;
+};
+
+/**
+ * Charge a buyer's mobile money wallet directly, without the hosted checkout
+ * @param {Object} params
+ * @param {string} params.email
+ * @param {number} params.amount - In the main currency unit
+ * @param {string} params.currency
+ * @param {string} params.reference
+ * @param {string} params.phone - Normalised wallet number
+ * @param {string} params.provider - MTN, VODAFONE or AIRTEL_TIGO
+ * @param {Object} params.metadata
+ * @returns {Promise<Object>}
+ */
+export const chargeMobileMoney = async ({
+  email,
+  amount,
+  currency = 'GHS',
+  reference,
+  phone,
+  provider,
+  metadata
+}) => {
+  try {
+    console.log(`Charging ${provider} mobile money wallet for reference ${reference}`);
+
+    const chargeResponse = await paystackRequest('POST', '/charge', {
+      email,
+      amount: Math.round(amount * 100), // Convert to kobo/pesewas
+      currency,
+      reference,
+      mobile_money: {
+        phone,
+        provider: MOBILE_MONEY_PROVIDERS[provider]
+      },
+      metadata
+    });
+
+    return getChargeResult(chargeResponse);
+  } catch (error) {
+    console.error('Error charging mobile money wallet:', error);
+    return getChargeError(error);
+  }
+};
+
+/**
+ * Send the OTP the buyer received to authorise a pending mobile money charge
+ * @param {string} reference
+ * @param {string} otp
+ * @returns {Promise<Object>}
+ */
+export const submitChargeOtp = async (reference, otp) => {
+  try {
+    const chargeResponse = await paystackRequest('POST', '/charge/submit_otp', { otp, reference });
+    return getChargeResult(chargeResponse);
+  } catch (error) {
+    console.error('Error submitting charge OTP:', error);
+    return getChargeError(error);
+  }
+};
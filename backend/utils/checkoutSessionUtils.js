@@ -0,0 +1,135 @@
+// utils/checkoutSessionUtils.js
+import crypto from 'crypto';
+import prisma from '../config/prisma.js';
+import { reholdStock } from './inventoryUtils.js';
+
+// How long a buyer has to pay a checkout session before it has to be resumed
+export const CHECKOUT_SESSION_TTL_MINUTES = parseInt(process.env.CHECKOUT_SESSION_TTL_MINUTES) || 30;
+
+export const CHECKOUT_SESSION_EXPIRY_JOB = 'checkout-session-expiry';
+
+// Sessions that have been paid and can't be paid again
+export const PAID_SESSION_STATUSES = ['PAID', 'PARTIALLY_PAID'];
+
+// Sessions still inside their payment window
+const LIVE_SESSION_STATUSES = ['OPEN', 'AWAITING_PAYMENT'];
+
+export const generateCheckoutSessionId = () =>
+  `cs_${Date.now()}_${crypto.randomBytes(8).toString('hex')}`;
+
+export const getCheckoutSessionExpiry = () =>
+  new Date(Date.now() + CHECKOUT_SESSION_TTL_MINUTES * 60 * 1000);
+
+/**
+ * Status a session should be shown with, treating a live session past its expiry as expired
+ * before the expiry job gets to it
+ * @param {Object} session - CheckoutSession
+ * @returns {string}
+ */
+export const getCheckoutSessionStatus = (session) =>
+  LIVE_SESSION_STATUSES.includes(session.status) && session.expiresAt <= new Date()
+    ? 'EXPIRED'
+    : session.status;
+
+const getUnpayableReason = (order, sessionId) => {
+  if (order.status !== 'PENDING') {
+    return `Order is ${order.status.toLowerCase()}.`;
+  }
+
+  // A failed charge leaves the order unpaid, so it can be paid again
+  if (!['PENDING', 'FAILED'].includes(order.paymentStatus)) {
+    return 'Payment for this order was already processed.';
+  }
+
+  if (sessionId && order.checkoutSession && order.checkoutSession !== sessionId) {
+    return 'Order is being paid in another checkout.';
+  }
+
+  return null;
+};
+
+/**
+ * Split orders into those that can still be paid and those that can't, e.g. because the buyer
+ * cancelled one, it moved to another checkout, or its items sold out after the stock hold lapsed.
+ * Stock is held again for every order that can still be paid.
+ * @param {Object[]} orders - Orders with status, paymentStatus and checkoutSession
+ * @param {string} [sessionId] - When resuming, orders claimed by another session are dropped
+ * @returns {Promise<{payable: Object[], removed: Array<{orderId: string, reason: string}>}>}
+ */
+export const splitPayableOrders = async (orders, sessionId = null) => {
+  const payable = [];
+  const removed = [];
+
+  for (const order of orders) {
+    const reason = getUnpayableReason(order, sessionId);
+    if (reason) {
+      removed.push({ orderId: order.id, reason });
+      continue;
+    }
+
+    try {
+      await reholdStock(order.id);
+    } catch (stockError) {
+      if (!stockError.message.includes('Insufficient stock')) throw stockError;
+
+      removed.push({
+        orderId: order.id,
+        reason: `${stockError.message}. The reservation on this order expired and the item has sold out.`
+      });
+      continue;
+    }
+
+    payable.push(order);
+  }
+
+  return { payable, removed };
+};
+
+/**
+ * Record that the gateway took payment for a session
+ * @param {string} sessionId
+ * @param {string[]} [unconfirmedOrderIds] - Paid orders that could no longer be confirmed
+ */
+export const markCheckoutSessionPaid = async (sessionId, unconfirmedOrderIds = []) => {
+  const partial = unconfirmedOrderIds.length > 0;
+
+  await prisma.checkoutSession.updateMany({
+    where: { id: sessionId },
+    data: {
+      status: partial ? 'PARTIALLY_PAID' : 'PAID',
+      paidAt: new Date(),
+      failureReason: partial
+        ? `Paid but could not be confirmed: ${unconfirmedOrderIds.join(', ')}`
+        : null
+    }
+  });
+};
+
+/**
+ * Record a failed charge so the buyer can resume the session. A session that was already paid
+ * keeps its status.
+ * @param {string} sessionId
+ * @param {string} reason
+ */
+export const markCheckoutSessionFailed = async (sessionId, reason) => {
+  await prisma.checkoutSession.updateMany({
+    where: { id: sessionId, status: { notIn: PAID_SESSION_STATUSES } },
+    data: { status: 'FAILED', failureReason: reason }
+  });
+};
+
+/**
+ * Expire sessions that were not paid in time. The buyer can still resume them.
+ * @returns {Promise<{expired: number}>}
+ */
+export const expireCheckoutSessions = async () => {
+  const result = await prisma.checkoutSession.updateMany({
+    where: {
+      status: { in: LIVE_SESSION_STATUSES },
+      expiresAt: { lte: new Date() }
+    },
+    data: { status: 'EXPIRED' }
+  });
+
+  return { expired: result.count };
+};
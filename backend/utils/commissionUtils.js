@@ -0,0 +1,107 @@
+// utils/commissionUtils.js
+import prisma from '../config/prisma.js';
+import { cache } from '../config/redis.js';
+
+const SETTINGS_ID = 'default';
+const SETTINGS_CACHE_KEY = 'commission:settings';
+const CATEGORY_RATES_CACHE_KEY = 'commission:categories';
+
+const roundAmount = (amount) => Math.round(amount * 100) / 100;
+
+/**
+ * Key a store category is matched on, so "Fashion" and "fashion " share a rate
+ * @param {string} category
+ * @returns {string}
+ */
+export const normalizeCategory = (category) => String(category || '').trim().toLowerCase();
+
+/**
+ * Platform-wide fee settings, creating the default row on first use
+ * @returns {Promise<{defaultRate: number, fixedFeePerOrder: number, processingFeeRate: number}>}
+ */
+export const getCommissionSettings = async () => {
+  const cached = await cache.get(SETTINGS_CACHE_KEY);
+  if (cached) return cached;
+
+  const settings = await prisma.commissionSettings.upsert({
+    where: { id: SETTINGS_ID },
+    update: {},
+    create: { id: SETTINGS_ID }
+  });
+
+  await cache.set(SETTINGS_CACHE_KEY, settings, 3600);
+  return settings;
+};
+
+const getCategoryRates = async () => {
+  const cached = await cache.get(CATEGORY_RATES_CACHE_KEY);
+  if (cached) return cached;
+
+  const categories = await prisma.categoryCommission.findMany({
+    select: { category: true, rate: true }
+  });
+  const rates = Object.fromEntries(categories.map(({ category, rate }) => [category, rate]));
+
+  await cache.set(CATEGORY_RATES_CACHE_KEY, rates, 3600);
+  return rates;
+};
+
+export const invalidateCommissionCache = async () => {
+  await cache.del(SETTINGS_CACHE_KEY);
+  await cache.del(CATEGORY_RATES_CACHE_KEY);
+};
+
+/**
+ * Work out the fees on an order: commission on the goods value at the store's rate (its own
+ * override, else its category's, else the default), a fixed fee per order, and the gateway's
+ * processing fee. The delivery fee passes through to the seller untouched.
+ * @param {Object} order - Order with totalAmount, deliveryFee and taxAmount
+ * @param {Object} store - Store with category and commissionRate
+ * @returns {Promise<Object>} Fields to store on the Payment
+ */
+export const calculateOrderFees = async (order, store) => {
+  const [settings, categoryRates] = await Promise.all([getCommissionSettings(), getCategoryRates()]);
+
+  const commissionRate = store.commissionRate ??
+    categoryRates[normalizeCategory(store.category)] ??
+    settings.defaultRate;
+
+  const amount = order.totalAmount;
+  const deliveryFee = order.deliveryFee || 0;
+  const goodsValue = Math.max(amount - deliveryFee - (order.taxAmount || 0), 0);
+
+  const commissionAmount = roundAmount(goodsValue * commissionRate / 100);
+  const fixedFee = roundAmount(settings.fixedFeePerOrder);
+  const processingFee = roundAmount(amount * settings.processingFeeRate / 100);
+
+  // The platform never takes more than was paid
+  const platformFee = Math.min(roundAmount(commissionAmount + fixedFee + processingFee), amount);
+
+  return {
+    commissionRate,
+    commissionAmount,
+    fixedFee,
+    processingFee,
+    deliveryFee,
+    platformFee,
+    sellerAmount: roundAmount(amount - platformFee)
+  };
+};
+
+/**
+ * Split what is left in escrow between the seller and the platform. After a partial refund
+ * the fee shrinks in proportion to what the buyer got back.
+ * @param {number} balance - Escrow balance after refunds
+ * @param {Object} escrow - Escrow with amountHeld
+ * @param {Object} [payment] - Payment with platformFee and sellerAmount
+ * @returns {{amount: number, platformFee: number}}
+ */
+export const getSellerPayout = (balance, escrow, payment) => {
+  // Payments taken before fees existed are paid out in full
+  if (!payment || payment.sellerAmount === null || payment.sellerAmount === undefined || !escrow.amountHeld) {
+    return { amount: balance, platformFee: 0 };
+  }
+
+  const platformFee = Math.min(roundAmount(payment.platformFee * balance / escrow.amountHeld), balance);
+  return { amount: roundAmount(balance - platformFee), platformFee };
+};
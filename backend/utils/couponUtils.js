@@ -0,0 +1,167 @@
+// utils/couponUtils.js
+import prisma from '../config/prisma.js';
+
+export const COUPON_TYPES = ['PERCENTAGE', 'FIXED_AMOUNT', 'FREE_DELIVERY'];
+
+export const normalizeCouponCode = (code) => String(code || '').trim().toUpperCase();
+
+/**
+ * Check that a coupon can be used by this buyer on this store's order.
+ * @param {Object} params
+ * @param {string} params.code - Coupon code as typed by the buyer
+ * @param {string} params.userId - Buyer id
+ * @param {string} params.storeId - Store the order is placed with
+ * @param {number} params.subtotal - Server-computed order subtotal
+ * @param {Object} db - Prisma client or transaction client
+ * @returns {Promise<{success: boolean, coupon?: Object, status?: number, message?: string}>}
+ */
+export const validateCoupon = async ({ code, userId, storeId, subtotal }, db = prisma) => {
+  const normalizedCode = normalizeCouponCode(code);
+  if (!normalizedCode) {
+    return { success: false, status: 400, message: 'Coupon code is required.' };
+  }
+
+  const coupon = await db.coupon.findUnique({
+    where: { code: normalizedCode }
+  });
+
+  if (!coupon || !coupon.isActive) {
+    return { success: false, status: 404, message: 'This coupon code is not valid.' };
+  }
+
+  const now = new Date();
+  if (coupon.startsAt > now) {
+    return { success: false, status: 400, message: 'This coupon is not active yet.' };
+  }
+
+  if (coupon.expiresAt && coupon.expiresAt < now) {
+    return { success: false, status: 400, message: 'This coupon has expired.' };
+  }
+
+  if (coupon.scope === 'STORE' && coupon.storeId !== storeId) {
+    return { success: false, status: 400, message: 'This coupon cannot be used with this store.' };
+  }
+
+  if (coupon.usageLimit !== null && coupon.usageCount >= coupon.usageLimit) {
+    return { success: false, status: 400, message: 'This coupon has reached its usage limit.' };
+  }
+
+  if (coupon.minOrderValue && subtotal < coupon.minOrderValue) {
+    return {
+      success: false,
+      status: 400,
+      message: `This coupon requires a minimum order of GHS ${coupon.minOrderValue.toFixed(2)}.`
+    };
+  }
+
+  if (coupon.perUserLimit !== null && userId) {
+    const userRedemptions = await db.couponRedemption.count({
+      where: { couponId: coupon.id, userId, status: 'APPLIED' }
+    });
+
+    if (userRedemptions >= coupon.perUserLimit) {
+      return { success: false, status: 400, message: 'You have already used this coupon.' };
+    }
+  }
+
+  return { success: true, coupon };
+};
+
+/**
+ * Work out what a valid coupon takes off an order.
+ * @returns {{amount: number, freeDelivery: boolean, source: string, code: string, couponId: string}}
+ */
+export const calculateCouponDiscount = (coupon, subtotal) => {
+  let amount = 0;
+
+  if (coupon.type === 'PERCENTAGE') {
+    amount = subtotal * (coupon.value / 100);
+    if (coupon.maxDiscount) {
+      amount = Math.min(amount, coupon.maxDiscount);
+    }
+  } else if (coupon.type === 'FIXED_AMOUNT') {
+    amount = Math.min(coupon.value, subtotal);
+  }
+
+  return {
+    amount,
+    freeDelivery: coupon.type === 'FREE_DELIVERY',
+    source: 'coupon',
+    code: coupon.code,
+    couponId: coupon.id
+  };
+};
+
+/**
+ * Record a coupon redemption for a new order inside the order transaction.
+ * The usage counter is only bumped while the cap still allows it, so two buyers
+ * racing for the last redemption can't both get it. Bumping it also locks the coupon
+ * until the order commits, so the buyer's own limit is checked against their other
+ * orders racing for it. On failure the caller must roll the transaction back.
+ * @returns {Promise<{success: boolean, message?: string}>}
+ */
+export const redeemCoupon = async (tx, { couponId, orderId, userId, storeId, discountAmount, orderSubtotal }) => {
+  const coupon = await tx.coupon.findUnique({ where: { id: couponId } });
+
+  const claimed = await tx.coupon.updateMany({
+    where: {
+      id: couponId,
+      ...(coupon.usageLimit !== null && { usageCount: { lt: coupon.usageLimit } })
+    },
+    data: { usageCount: { increment: 1 } }
+  });
+
+  if (claimed.count === 0) {
+    return { success: false, message: 'This coupon has reached its usage limit.' };
+  }
+
+  if (coupon.perUserLimit !== null && userId) {
+    const userRedemptions = await tx.couponRedemption.count({
+      where: { couponId, userId, status: 'APPLIED' }
+    });
+
+    if (userRedemptions >= coupon.perUserLimit) {
+      return { success: false, message: 'You have already used this coupon.' };
+    }
+  }
+
+  await tx.couponRedemption.create({
+    data: {
+      couponId,
+      orderId,
+      userId,
+      storeId,
+      discountAmount,
+      orderSubtotal
+    }
+  });
+
+  return { success: true };
+};
+
+/**
+ * Give a coupon use back when its order is cancelled before payment completes.
+ * @param {string} orderId
+ * @param {Object} db - Prisma client or transaction client
+ */
+export const releaseCouponRedemption = async (orderId, db = prisma) => {
+  const redemption = await db.couponRedemption.findUnique({
+    where: { orderId }
+  });
+
+  if (!redemption || redemption.status !== 'APPLIED') {
+    return null;
+  }
+
+  await db.couponRedemption.update({
+    where: { id: redemption.id },
+    data: { status: 'RELEASED' }
+  });
+
+  await db.coupon.updateMany({
+    where: { id: redemption.couponId, usageCount: { gt: 0 } },
+    data: { usageCount: { decrement: 1 } }
+  });
+
+  return redemption;
+};
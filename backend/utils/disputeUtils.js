@@ -0,0 +1,153 @@
+// utils/disputeUtils.js
+import prisma from '../config/prisma.js';
+import { sendNotification } from './sendnotification.js';
+
+export const DISPUTE_SLA_JOB = 'dispute-sla';
+
+// Statuses where the dispute is still being worked on and the escrow stays locked
+export const OPEN_DISPUTE_STATUSES = ['PENDING', 'AWAITING_SELLER', 'AWAITING_BUYER', 'UNDER_REVIEW', 'ESCALATED'];
+
+// Statuses an admin can move an open dispute into by hand
+export const ADMIN_SETTABLE_STATUSES = ['AWAITING_SELLER', 'AWAITING_BUYER', 'UNDER_REVIEW', 'ESCALATED'];
+
+// Hours allowed in each status before its deadline is missed; ESCALATED waits for an admin
+export const DISPUTE_SLA_HOURS = {
+  AWAITING_SELLER: parseInt(process.env.DISPUTE_SELLER_RESPONSE_HOURS) || 48,
+  AWAITING_BUYER: parseInt(process.env.DISPUTE_BUYER_RESPONSE_HOURS) || 72,
+  UNDER_REVIEW: parseInt(process.env.DISPUTE_REVIEW_HOURS) || 72
+};
+
+// What happens when a deadline is missed in each status
+const SLA_BREACH_OUTCOMES = {
+  AWAITING_SELLER: {
+    status: 'ESCALATED',
+    recommendedOutcome: 'REFUND_BUYER',
+    note: 'The seller did not respond in time. Recommended outcome: refund the buyer.'
+  },
+  AWAITING_BUYER: {
+    status: 'UNDER_REVIEW',
+    recommendedOutcome: 'RELEASE_TO_SELLER',
+    note: 'The buyer did not reply to the seller in time. Recommended outcome: release the funds to the seller.'
+  },
+  UNDER_REVIEW: {
+    status: 'ESCALATED',
+    note: 'The review deadline passed. The dispute was escalated to the admin queue.'
+  },
+  PENDING: {
+    status: 'ESCALATED',
+    note: 'The dispute went stale and was escalated to the admin queue.'
+  }
+};
+
+/**
+ * Deadline for a dispute that enters the given status now
+ * @param {string} status
+ * @param {Date} [from]
+ * @returns {Date|null} null for statuses without an SLA
+ */
+export const getDisputeDeadline = (status, from = new Date()) => {
+  const hours = DISPUTE_SLA_HOURS[status];
+  return hours ? new Date(from.getTime() + hours * 60 * 60 * 1000) : null;
+};
+
+/**
+ * Add a SYSTEM entry to the dispute thread so status changes show on the timeline
+ * @param {Object} db - Prisma client or transaction
+ * @param {string} disputeId
+ * @param {string} body
+ */
+export const recordDisputeEvent = (db, disputeId, body) =>
+  db.disputeMessage.create({
+    data: { disputeId, senderRole: 'SYSTEM', body }
+  });
+
+/**
+ * Move an open dispute to a new status and restart its SLA clock.
+ * The update is guarded on the current status so a concurrent change wins cleanly.
+ * @param {Object} db - Prisma client or transaction
+ * @param {Object} dispute - Must include id and status
+ * @param {string} status
+ * @param {Object} [options]
+ * @param {string} [options.note] - Timeline entry to record with the change
+ * @param {Object} [options.data] - Extra fields to set
+ * @returns {Promise<boolean>} false if the dispute had already moved on
+ */
+export const setDisputeStatus = async (db, dispute, status, { note, data = {} } = {}) => {
+  const now = new Date();
+
+  const { count } = await db.dispute.updateMany({
+    where: { id: dispute.id, status: dispute.status },
+    data: {
+      status,
+      deadlineAt: getDisputeDeadline(status, now),
+      ...(status === 'ESCALATED' && { escalatedAt: now }),
+      ...data
+    }
+  });
+
+  if (count === 0) return false;
+
+  if (note) {
+    await recordDisputeEvent(db, dispute.id, note);
+  }
+
+  return true;
+};
+
+/**
+ * Apply the default outcome to disputes whose deadline has passed: a silent seller
+ * escalates with a refund recommendation, a silent buyer goes to review with a release
+ * recommendation, and stale reviews land in the ESCALATED admin queue.
+ * @returns {Promise<{breached: number}>}
+ */
+export const processDisputeSla = async () => {
+  const now = new Date();
+  const staleBefore = new Date(now.getTime() - DISPUTE_SLA_HOURS.UNDER_REVIEW * 60 * 60 * 1000);
+
+  const overdue = await prisma.dispute.findMany({
+    where: {
+      OR: [
+        { status: { in: Object.keys(DISPUTE_SLA_HOURS) }, deadlineAt: { lte: now } },
+        // Disputes opened before SLA tracking have no deadline of their own
+        { status: 'PENDING', updatedAt: { lte: staleBefore } }
+      ]
+    },
+    select: { id: true, status: true, orderId: true, buyerId: true, sellerId: true },
+    orderBy: { deadlineAt: 'asc' },
+    take: 200
+  });
+
+  let breached = 0;
+
+  for (const dispute of overdue) {
+    const breach = SLA_BREACH_OUTCOMES[dispute.status];
+
+    try {
+      const moved = await prisma.$transaction((tx) => setDisputeStatus(tx, dispute, breach.status, {
+        note: breach.note,
+        data: {
+          slaBreachCount: { increment: 1 },
+          slaBreachedAt: now,
+          ...(breach.recommendedOutcome && { recommendedOutcome: breach.recommendedOutcome })
+        }
+      }));
+
+      if (!moved) continue;
+      breached += 1;
+
+      for (const userId of [dispute.buyerId, dispute.sellerId]) {
+        await sendNotification(
+          userId,
+          'Dispute Deadline Missed',
+          `A deadline was missed on the dispute for order #${dispute.orderId}. ${breach.note}`,
+          'dispute',
+          { disputeId: dispute.id, orderId: dispute.orderId }
+        );
+      }
+    } catch (error) {
+      console.error(`Error applying SLA outcome to dispute ${dispute.id}:`, error);
+    }
+  }
+
+  return { breached };
+};
@@ -0,0 +1,214 @@
+// utils/facetUtils.js
+import { Prisma } from '@prisma/client';
+import prisma from '../config/prisma.js';
+import { searchProducts } from './searchUtils.js';
+
+// Upper bounds of the price bands; the last band has no upper bound. A band includes its
+// lower bound but not its upper one, matching width_bucket and the maxPrice filter
+const PRICE_BAND_BOUNDS = [50, 100, 250, 500, 1000];
+
+// "& up" rating buckets, best first
+const RATING_BUCKETS = [4, 3, 2, 1];
+
+// Most values returned for open-ended facets like tags, sizes and colours
+const FACET_VALUE_LIMIT = 20;
+
+export const PRICE_BANDS = [0, ...PRICE_BAND_BOUNDS].map((min, index) => {
+  const max = PRICE_BAND_BOUNDS[index] ?? null;
+  return {
+    key: max === null ? `${min}+` : `${min}-${max}`,
+    label: max === null ? `GH₵${min} & above` : `GH₵${min} - GH₵${max}`,
+    min,
+    max
+  };
+});
+
+const splitList = (value) =>
+  value ? String(value).split(',').map(item => item.trim()).filter(Boolean) : [];
+
+const parseNumber = (value) => {
+  const parsed = parseFloat(value);
+  return isNaN(parsed) ? null : parsed;
+};
+
+/**
+ * Read the marketplace filters from a query string, in the same shape getAllProducts accepts
+ * @param {Object} query - req.query
+ * @returns {Object}
+ */
+export const parseFacetFilters = (query) => ({
+  search: String(query.search || '').trim(),
+  categories: splitList(query.category),
+  regions: splitList(query.region),
+  sizes: splitList(query.sizes),
+  colors: splitList(query.color),
+  tags: splitList(query.tags),
+  minPrice: parseNumber(query.minPrice),
+  maxPrice: parseNumber(query.maxPrice),
+  minRating: parseNumber(query.minRating),
+  verifiedOnly: query.verified === 'true'
+});
+
+// Condition a product has to meet for one filter, or TRUE when the filter isn't set
+const buildConditions = (filters) => ({
+  category: filters.categories.length > 0
+    ? Prisma.sql`EXISTS (SELECT 1 FROM unnest(${filters.categories}::text[]) c WHERE p."category" ILIKE '%' || c || '%')`
+    : Prisma.sql`TRUE`,
+  region: filters.regions.length > 0
+    ? Prisma.sql`s."region" = ANY(${filters.regions}::text[])`
+    : Prisma.sql`TRUE`,
+  size: filters.sizes.length > 0
+    ? Prisma.sql`p."sizes" && ${filters.sizes}::text[]`
+    : Prisma.sql`TRUE`,
+  color: filters.colors.length > 0
+    ? Prisma.sql`p."color" && ${filters.colors}::text[]`
+    : Prisma.sql`TRUE`,
+  tag: filters.tags.length > 0
+    ? Prisma.sql`p."tags" && ${filters.tags}::text[]`
+    : Prisma.sql`TRUE`,
+  price: Prisma.sql`(${filters.minPrice}::float8 IS NULL OR p."price" >= ${filters.minPrice}::float8)
+    AND (${filters.maxPrice}::float8 IS NULL OR p."price" < ${filters.maxPrice}::float8)`,
+  rating: filters.minRating !== null
+    ? Prisma.sql`COALESCE(p."rating", 0) >= ${filters.minRating}::float8`
+    : Prisma.sql`TRUE`,
+  verified: filters.verifiedOnly
+    ? Prisma.sql`COALESCE(v."status" = 'verified', false)`
+    : Prisma.sql`TRUE`
+});
+
+const FACET_FLAGS = ['category', 'region', 'size', 'color', 'tag', 'price', 'rating', 'verified'];
+
+// Every filter except the facet's own, so choosing one value doesn't zero out its siblings
+const otherFilters = (facet) =>
+  Prisma.raw(FACET_FLAGS.filter(flag => flag !== facet).map(flag => `"m_${flag}"`).join(' AND '));
+
+const isBandSelected = (band, filters) =>
+  filters.minPrice === band.min && (filters.maxPrice ?? null) === band.max;
+
+const emptyFacets = (filters) => ({
+  total: 0,
+  facets: {
+    categories: [],
+    regions: [],
+    sizes: [],
+    colors: [],
+    tags: [],
+    priceBands: PRICE_BANDS.map(band => ({ ...band, count: 0, selected: isBandSelected(band, filters) })),
+    ratings: RATING_BUCKETS.map(minRating => ({
+      minRating,
+      label: `${minRating}★ & up`,
+      count: 0,
+      selected: filters.minRating === minRating
+    })),
+    verified: { count: 0, selected: filters.verifiedOnly }
+  }
+});
+
+/**
+ * Count the products behind every facet value for the current query in a single scan. Each
+ * facet's counts apply all the other filters but not its own, so a buyer can see how many
+ * products each alternative would give them.
+ * @param {Object} filters - From parseFacetFilters
+ * @returns {Promise<Object>}
+ */
+export const getProductFacets = async (filters) => {
+  let searchFilter = Prisma.empty;
+  if (filters.search) {
+    const ranked = await searchProducts(filters.search);
+    if (ranked.length === 0) return emptyFacets(filters);
+    searchFilter = Prisma.sql`AND p."id" = ANY(${ranked.map(match => match.id)}::text[])`;
+  }
+
+  const conditions = buildConditions(filters);
+  const flags = Prisma.join(
+    FACET_FLAGS.map(flag => Prisma.sql`(${conditions[flag]}) AS ${Prisma.raw(`"m_${flag}"`)}`)
+  );
+
+  const rows = await prisma.$queryRaw`
+    WITH base AS MATERIALIZED (
+      SELECT p."category", s."region", p."sizes", p."color", p."tags", p."price",
+        COALESCE(p."rating", 0) AS "rating",
+        COALESCE(v."status" = 'verified', false) AS "verified",
+        ${flags}
+      FROM "Product" p
+      JOIN "Store" s ON s."id" = p."storeId"
+      LEFT JOIN "StoreVerification" v ON v."storeId" = s."id"
+      WHERE p."isActive" = true ${searchFilter}
+    )
+    SELECT 'total' AS "facet", NULL AS "value", COUNT(*)::int AS "count"
+    FROM base WHERE ${otherFilters(null)}
+    UNION ALL
+    SELECT 'category', "category", COUNT(*)::int
+    FROM base WHERE "category" IS NOT NULL AND ${otherFilters('category')}
+    GROUP BY "category"
+    UNION ALL
+    SELECT 'region', "region", COUNT(*)::int
+    FROM base WHERE ${otherFilters('region')}
+    GROUP BY "region"
+    UNION ALL
+    SELECT 'size', size, COUNT(*)::int
+    FROM base CROSS JOIN unnest("sizes") AS size WHERE ${otherFilters('size')}
+    GROUP BY size
+    UNION ALL
+    SELECT 'color', color, COUNT(*)::int
+    FROM base CROSS JOIN unnest("color") AS color WHERE ${otherFilters('color')}
+    GROUP BY color
+    UNION ALL
+    SELECT 'tag', tag, COUNT(*)::int
+    FROM base CROSS JOIN unnest("tags") AS tag WHERE ${otherFilters('tag')}
+    GROUP BY tag
+    UNION ALL
+    SELECT 'price', width_bucket("price", ${PRICE_BAND_BOUNDS}::float8[])::text, COUNT(*)::int
+    FROM base WHERE ${otherFilters('price')}
+    GROUP BY 2
+    UNION ALL
+    SELECT 'rating', bucket::text, COUNT(*)::int
+    FROM base CROSS JOIN unnest(${RATING_BUCKETS}::int[]) AS bucket
+    WHERE "rating" >= bucket AND ${otherFilters('rating')}
+    GROUP BY bucket
+    UNION ALL
+    SELECT 'verified', 'true', COUNT(*)::int
+    FROM base WHERE "verified" AND ${otherFilters('verified')}
+  `;
+
+  const countsFor = (facet) => rows.filter(row => row.facet === facet);
+  const countOf = (facet, value) => countsFor(facet).find(row => row.value === value)?.count || 0;
+
+  const valueFacet = (facet, selectedValues, match = (value, selected) => value === selected) =>
+    countsFor(facet)
+      .filter(row => row.value)
+      .map(row => ({
+        value: row.value,
+        count: row.count,
+        selected: selectedValues.some(selected => match(row.value, selected))
+      }))
+      .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value))
+      .slice(0, FACET_VALUE_LIMIT);
+
+  return {
+    total: countOf('total', null),
+    facets: {
+      categories: valueFacet('category', filters.categories,
+        (value, selected) => value.toLowerCase().includes(selected.toLowerCase())),
+      regions: valueFacet('region', filters.regions),
+      sizes: valueFacet('size', filters.sizes),
+      colors: valueFacet('color', filters.colors),
+      tags: valueFacet('tag', filters.tags),
+      priceBands: PRICE_BANDS.map((band, index) => ({
+        ...band,
+        count: countOf('price', String(index)),
+        selected: isBandSelected(band, filters)
+      })),
+      ratings: RATING_BUCKETS.map(minRating => ({
+        minRating,
+        label: `${minRating}★ & up`,
+        count: countOf('rating', String(minRating)),
+        selected: filters.minRating === minRating
+      })),
+      verified: {
+        count: countOf('verified', 'true'),
+        selected: filters.verifiedOnly
+      }
+    }
+  };
+};
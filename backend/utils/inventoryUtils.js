@@ -0,0 +1,491 @@
+// utils/inventoryUtils.js
+import slugify from 'slugify';
+import prisma from '../config/prisma.js';
+import { cache } from '../config/redis.js';
+import { sendNotification } from './sendnotification.js';
+import { recordProductEvent } from './trendingUtils.js';
+import { recommendationCacheKey } from './recommendationUtils.js';
+
+const variantKey = (size, color) => `${(size || '').toLowerCase()}|${(color || '').toLowerCase()}`;
+
+const buildSku = (productUrl, size, color) => slugify([productUrl, size, color].filter(Boolean).join('-'), {
+  lower: false,
+  strict: true
+}).toUpperCase();
+
+/**
+ * Validate the variants a seller submitted with a product.
+ * Multipart forms send them as a JSON string, JSON bodies as an array.
+ * @param {string|Array} raw
+ * @returns {{variants?: Array<{id?: string, size: string|null, color: string|null, sku: string|null, stock: number, price: number|null}>, error?: string}}
+ */
+export const parseVariants = (raw) => {
+  let input = raw;
+  if (typeof raw === 'string') {
+    try {
+      input = JSON.parse(raw);
+    } catch (parseError) {
+      return { error: 'Variants must be a valid JSON array.' };
+    }
+  }
+
+  if (!Array.isArray(input)) {
+    return { error: 'Variants must be an array.' };
+  }
+
+  const seenCombos = new Set();
+  const seenSkus = new Set();
+  const variants = [];
+
+  for (const variant of input) {
+    const size = variant.size ? String(variant.size).trim() : null;
+    const color = variant.color ? String(variant.color).trim() : null;
+    const sku = variant.sku ? String(variant.sku).trim().toUpperCase() : null;
+    const stock = Number(variant.stock);
+    const price = variant.price === undefined || variant.price === null || variant.price === ''
+      ? null
+      : Number(variant.price);
+
+    if (!size && !color) {
+      return { error: 'Each variant needs a size or a color.' };
+    }
+
+    if (!Number.isInteger(stock) || stock < 0) {
+      return { error: `Stock for ${[size, color].filter(Boolean).join(' / ')} must be a whole number of 0 or more.` };
+    }
+
+    if (price !== null && (isNaN(price) || price <= 0)) {
+      return { error: `Price for ${[size, color].filter(Boolean).join(' / ')} must be greater than 0.` };
+    }
+
+    const combo = variantKey(size, color);
+    if (seenCombos.has(combo)) {
+      return { error: `Variant ${[size, color].filter(Boolean).join(' / ')} is listed more than once.` };
+    }
+    seenCombos.add(combo);
+
+    if (sku) {
+      if (seenSkus.has(sku)) {
+        return { error: `SKU ${sku} is used by more than one variant.` };
+      }
+      seenSkus.add(sku);
+    }
+
+    variants.push({ id: variant.id || undefined, size, color, sku, stock, price });
+  }
+
+  return { variants };
+};
+
+/**
+ * Make a product's variants match the submitted list.
+ * Variants left out are deactivated rather than deleted so past orders still point at them.
+ * The product's own stock, sizes and colors are derived from the active variants.
+ * @param {Object} tx - Prisma transaction client
+ * @param {Object} product - { id, url }
+ * @param {Array} variants - Output of parseVariants
+ * @returns {Promise<Array>} - Active variants after the sync
+ */
+export const syncProductVariants = async (tx, product, variants) => {
+  const existing = await tx.productVariant.findMany({
+    where: { productId: product.id }
+  });
+  const existingById = new Map(existing.map(variant => [variant.id, variant]));
+  const existingByCombo = new Map(existing.map(variant => [variantKey(variant.size, variant.color), variant]));
+
+  const keptIds = new Set();
+
+  for (const variant of variants) {
+    const match = (variant.id && existingById.get(variant.id)) || existingByCombo.get(variantKey(variant.size, variant.color));
+    const data = {
+      size: variant.size,
+      color: variant.color,
+      sku: variant.sku || buildSku(product.url, variant.size, variant.color),
+      stock: variant.stock,
+      price: variant.price,
+      isActive: true
+    };
+
+    if (match) {
+      await tx.productVariant.update({
+        where: { id: match.id },
+        data
+      });
+      keptIds.add(match.id);
+    } else {
+      const created = await tx.productVariant.create({
+        data: { ...data, productId: product.id }
+      });
+      keptIds.add(created.id);
+    }
+  }
+
+  await tx.productVariant.updateMany({
+    where: {
+      productId: product.id,
+      isActive: true,
+      id: { notIn: [...keptIds] }
+    },
+    data: { isActive: false }
+  });
+
+  const activeVariants = await tx.productVariant.findMany({
+    where: { productId: product.id, isActive: true },
+    orderBy: { createdAt: 'asc' }
+  });
+
+  if (activeVariants.length > 0) {
+    await tx.product.update({
+      where: { id: product.id },
+      data: {
+        stock: activeVariants.reduce((sum, variant) => sum + variant.stock, 0),
+        sizes: [...new Set(activeVariants.map(variant => variant.size).filter(Boolean))],
+        color: [...new Set(activeVariants.map(variant => variant.color).filter(Boolean))]
+      }
+    });
+  }
+
+  return activeVariants;
+};
+
+// How long an unpaid order keeps its stock before the expiry job puts it back
+export const RESERVATION_TTL_MINUTES = parseInt(process.env.STOCK_RESERVATION_TTL_MINUTES) || 30;
+
+export const RESERVATION_EXPIRY_JOB = 'stock-reservation-expiry';
+
+/**
+ * Take stock for one line. Each decrement only applies while enough stock is left,
+ * so concurrent orders can't oversell.
+ * @throws {Error} 'Insufficient stock ...' when the product or variant ran out in the meantime
+ */
+const takeStock = async (tx, line) => {
+  if (line.variantId) {
+    const variantUpdate = await tx.productVariant.updateMany({
+      where: { id: line.variantId, isActive: true, stock: { gte: line.quantity } },
+      data: { stock: { decrement: line.quantity } }
+    });
+
+    if (variantUpdate.count === 0) {
+      throw new Error(`Insufficient stock for "${line.name}"`);
+    }
+  }
+
+  const productUpdate = await tx.product.updateMany({
+    where: { id: line.productId, stock: { gte: line.quantity } },
+    data: { stock: { decrement: line.quantity } }
+  });
+
+  if (productUpdate.count === 0) {
+    throw new Error(`Insufficient stock for "${line.name}"`);
+  }
+};
+
+/**
+ * Hold stock for the lines of an order until it is paid or the reservation expires.
+ * Must run inside the order transaction so a failed hold rolls the order back.
+ * @param {Object} tx - Prisma transaction client
+ * @param {string} orderId
+ * @param {Array<{productId: string, variantId?: string, quantity: number, name: string}>} lines
+ * @returns {Promise<Date>} - When the hold expires
+ * @throws {Error} 'Insufficient stock ...'
+ */
+export const holdStock = async (tx, orderId, lines) => {
+  const expiresAt = new Date(Date.now() + RESERVATION_TTL_MINUTES * 60 * 1000);
+
+  for (const line of lines) {
+    await takeStock(tx, line);
+  }
+
+  await tx.stockReservation.createMany({
+    data: lines.map(line => ({
+      orderId,
+      productId: line.productId,
+      variantId: line.variantId || null,
+      quantity: line.quantity,
+      expiresAt
+    }))
+  });
+
+  return expiresAt;
+};
+
+const orderLines = async (orderId, db) => {
+  const items = await db.orderItem.findMany({
+    where: { orderId },
+    include: { product: { select: { name: true } } }
+  });
+
+  return items.map(item => ({
+    productId: item.productId,
+    variantId: item.variantId,
+    quantity: item.quantity,
+    name: item.product.name
+  }));
+};
+
+/**
+ * Hold stock again for an unpaid order whose reservation lapsed, before the buyer is sent to pay.
+ * Orders that still hold their stock, or were placed before reservations existed, are left alone.
+ * @param {string} orderId
+ * @returns {Promise<{reheld: boolean, expiresAt?: Date}>}
+ * @throws {Error} 'Insufficient stock ...' when the items sold out in the meantime
+ */
+export const reholdStock = async (orderId) => {
+  const reservations = await prisma.stockReservation.findMany({
+    where: { orderId }
+  });
+
+  const lapsed = reservations.length > 0 &&
+    !reservations.some(reservation => ['HELD', 'CONFIRMED'].includes(reservation.status));
+
+  if (!lapsed) {
+    return { reheld: false };
+  }
+
+  const expiresAt = await prisma.$transaction(async (tx) => {
+    const lines = await orderLines(orderId, tx);
+    return holdStock(tx, orderId, lines);
+  });
+
+  return { reheld: true, expiresAt };
+};
+
+/**
+ * Turn an order's held stock into sold stock once payment succeeds.
+ * If the hold lapsed before the payment landed, the stock is taken again when it is still there.
+ * @param {string} orderId
+ * @returns {Promise<{confirmed: number, shortfall?: boolean}>}
+ */
+export const confirmReservations = async (orderId) => {
+  try {
+    await reholdStock(orderId);
+  } catch (error) {
+    if (!error.message.includes('Insufficient stock')) {
+      throw error;
+    }
+    console.warn(`Order ${orderId} was paid after its stock reservation lapsed and the items sold out`);
+    return { confirmed: 0, shortfall: true };
+  }
+
+  const { confirmed, buyerId } = await prisma.$transaction(async (tx) => {
+    const held = await tx.stockReservation.findMany({
+      where: { orderId, status: 'HELD' },
+      include: { order: { select: { buyerId: true } } }
+    });
+
+    let confirmed = 0;
+    for (const reservation of held) {
+      // Conditional so a concurrent release or a duplicate webhook can't count the sale twice
+      const { count } = await tx.stockReservation.updateMany({
+        where: { id: reservation.id, status: 'HELD' },
+        data: { status: 'CONFIRMED', confirmedAt: new Date() }
+      });
+
+      if (count === 0) continue;
+
+      const product = await tx.product.update({
+        where: { id: reservation.productId },
+        data: { quantityBought: { increment: reservation.quantity } }
+      });
+
+      await recordProductEvent(tx, {
+        type: 'PURCHASE',
+        productId: product.id,
+        storeId: product.storeId,
+        userId: reservation.order?.buyerId,
+        quantity: reservation.quantity
+      });
+      confirmed++;
+    }
+
+    return { confirmed, buyerId: held[0]?.order?.buyerId };
+  });
+
+  // The buyer's cached recommendations would otherwise keep suggesting what they just bought
+  if (confirmed > 0 && buyerId) {
+    await cache.del(recommendationCacheKey(buyerId));
+  }
+
+  return { confirmed };
+};
+
+/**
+ * Put reserved stock back. Held stock only returns to the shelf; confirmed stock was sold,
+ * so the product's quantityBought is reduced as well.
+ * @param {Object} db - Prisma client or transaction client
+ * @param {Array} reservations
+ * @param {'RELEASED'|'EXPIRED'} status
+ * @param {string} reason
+ * @returns {Promise<number>} - Reservations released
+ */
+const releaseRows = async (db, reservations, status, reason) => {
+  let released = 0;
+
+  for (const reservation of reservations) {
+    const { count } = await db.stockReservation.updateMany({
+      where: { id: reservation.id, status: reservation.status },
+      data: { status, releasedAt: new Date(), releaseReason: reason }
+    });
+
+    if (count === 0) continue;
+
+    await db.product.update({
+      where: { id: reservation.productId },
+      data: {
+        stock: { increment: reservation.quantity },
+        ...(reservation.status === 'CONFIRMED' && { quantityBought: { decrement: reservation.quantity } })
+      }
+    });
+
+    if (reservation.variantId) {
+      await db.productVariant.updateMany({
+        where: { id: reservation.variantId },
+        data: { stock: { increment: reservation.quantity } }
+      });
+    }
+    released++;
+  }
+
+  return released;
+};
+
+/**
+ * Return an order's stock when payment fails or the order is cancelled
+ * @param {string} orderId
+ * @param {string} reason - e.g. 'PAYMENT_FAILED', 'ORDER_CANCELLED'
+ * @param {Object} db - Prisma client or transaction client
+ * @returns {Promise<number>} - Reservations released
+ */
+export const releaseReservations = async (orderId, reason, db = prisma) => {
+  const reservations = await db.stockReservation.findMany({
+    where: { orderId }
+  });
+
+  // Orders placed before reservations took stock (and counted the sale) directly.
+  // Record the release so the same order can't put its stock back twice.
+  if (reservations.length === 0) {
+    const items = await db.orderItem.findMany({
+      where: { orderId }
+    });
+    await restoreStock(items, db);
+
+    const now = new Date();
+    await db.stockReservation.createMany({
+      data: items.map(item => ({
+        orderId,
+        productId: item.productId,
+        variantId: item.variantId,
+        quantity: item.quantity,
+        status: 'RELEASED',
+        expiresAt: now,
+        releasedAt: now,
+        releaseReason: reason
+      }))
+    });
+    return items.length;
+  }
+
+  const active = reservations.filter(reservation => ['HELD', 'CONFIRMED'].includes(reservation.status));
+  return releaseRows(db, active, 'RELEASED', reason);
+};
+
+/**
+ * Put back stock held by orders that were not paid in time
+ * @returns {Promise<{expired: number, orders: number}>}
+ */
+export const expireStockReservations = async () => {
+  const due = await prisma.stockReservation.findMany({
+    where: {
+      status: 'HELD',
+      expiresAt: { lte: new Date() }
+    },
+    orderBy: { expiresAt: 'asc' },
+    take: 500
+  });
+
+  if (due.length === 0) {
+    return { expired: 0, orders: 0 };
+  }
+
+  const expired = await prisma.$transaction(async (tx) => releaseRows(tx, due, 'EXPIRED', 'EXPIRED'));
+
+  const orderIds = [...new Set(due.map(reservation => reservation.orderId).filter(Boolean))];
+  const orders = await prisma.order.findMany({
+    where: { id: { in: orderIds } },
+    select: { id: true, buyerId: true }
+  });
+
+  for (const order of orders) {
+    await sendNotification(
+      order.buyerId,
+      'Reservation Expired',
+      `Items in order #${order.id} are no longer reserved for you. Complete payment soon before they sell out.`,
+      'ORDER_RESERVATION_EXPIRED',
+      { orderId: order.id }
+    );
+
+    await cache.delPattern(`user:${order.buyerId}:unpaid-orders:*`);
+    await cache.del(`order:${order.id}:unpaid:user:${order.buyerId}`);
+  }
+
+  return { expired, orders: orders.length };
+};
+
+/**
+ * Stock currently held by unpaid orders, per product and per variant
+ * @param {string[]} productIds
+ * @returns {Promise<{byProduct: Map<string, number>, byVariant: Map<string, number>}>}
+ */
+export const getHeldStock = async (productIds) => {
+  const held = await prisma.stockReservation.groupBy({
+    by: ['productId', 'variantId'],
+    where: {
+      productId: { in: productIds },
+      status: 'HELD'
+    },
+    _sum: { quantity: true }
+  });
+
+  const byProduct = new Map();
+  const byVariant = new Map();
+  for (const row of held) {
+    const quantity = row._sum.quantity || 0;
+    byProduct.set(row.productId, (byProduct.get(row.productId) || 0) + quantity);
+    if (row.variantId) {
+      byVariant.set(row.variantId, (byVariant.get(row.variantId) || 0) + quantity);
+    }
+  }
+
+  return { byProduct, byVariant };
+};
+
+/**
+ * Put stock back for the items of an order placed before reservations existed
+ * @param {Array<{productId: string, variantId?: string, quantity: number}>} orderItems
+ * @param {Object} db - Prisma client or transaction client
+ */
+const restoreStock = async (orderItems, db = prisma) => {
+  for (const item of orderItems) {
+    await db.product.update({
+      where: { id: item.productId },
+      data: {
+        stock: { increment: item.quantity },
+        quantityBought: { decrement: item.quantity }
+      }
+    });
+
+    if (item.variantId) {
+      await db.productVariant.updateMany({
+        where: { id: item.variantId },
+        data: { stock: { increment: item.quantity } }
+      });
+    }
+  }
+};
+
+/**
+ * Put refunded items back on the shelf once the buyer has returned them
+ * @param {Array<{productId: string, variantId?: string, quantity: number}>} items
+ * @param {Object} db - Prisma client or transaction client
+ */
+export const restockReturnedItems = (items, db = prisma) => restoreStock(items, db);
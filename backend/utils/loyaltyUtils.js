@@ -0,0 +1,289 @@
+// utils/loyaltyUtils.js
+import crypto from 'crypto';
+import prisma from '../config/prisma.js';
+import { cache } from '../config/redis.js';
+import { sendNotification } from './sendnotification.js';
+import { recordPointsTransaction, invalidatePointsCache } from './pointsUtils.js';
+
+export const LOYALTY_RULE_TYPES = [
+  'SIGNUP_BONUS',
+  'ORDER_SPEND',
+  'FIRST_ORDER_BONUS',
+  'REVIEW',
+  'REVIEW_PHOTO_BONUS',
+  'REFERRAL_BONUS',
+  'CAMPAIGN_MULTIPLIER'
+];
+
+const SETTINGS_ID = 'default';
+const SETTINGS_CACHE_KEY = 'loyalty:settings';
+const RULES_CACHE_KEY = 'loyalty:rules:active';
+
+// Rule-driven earnings that count towards the daily cap. The signup bonus is one-off and not capped.
+const CAPPED_TYPES = ['ORDER_REWARD', 'FIRST_ORDER_BONUS', 'REVIEW_REWARD', 'REVIEW_PHOTO_BONUS', 'REFERRAL_BONUS'];
+
+/**
+ * Platform-wide loyalty settings, creating the default row on first use
+ * @returns {Promise<{pointsToCedisRate: number, dailyEarnCap: number|null}>}
+ */
+export const getLoyaltySettings = async () => {
+  const cached = await cache.get(SETTINGS_CACHE_KEY);
+  if (cached) return cached;
+
+  const settings = await prisma.loyaltySettings.upsert({
+    where: { id: SETTINGS_ID },
+    update: {},
+    create: { id: SETTINGS_ID }
+  });
+
+  await cache.set(SETTINGS_CACHE_KEY, settings, 3600);
+  return settings;
+};
+
+const getActiveRules = async () => {
+  const cached = await cache.get(RULES_CACHE_KEY);
+  if (cached) return cached;
+
+  const rules = await prisma.loyaltyRule.findMany({
+    where: { isActive: true },
+    orderBy: { updatedAt: 'desc' }
+  });
+
+  await cache.set(RULES_CACHE_KEY, rules, 3600);
+  return rules;
+};
+
+export const invalidateLoyaltyCache = async () => {
+  await cache.del(SETTINGS_CACHE_KEY);
+  await cache.del(RULES_CACHE_KEY);
+};
+
+const isLive = (rule, now) =>
+  (!rule.startsAt || new Date(rule.startsAt) <= now) &&
+  (!rule.endsAt || new Date(rule.endsAt) >= now);
+
+const findRule = ({ rules, now }, type) =>
+  rules.find(rule => rule.type === type && isLive(rule, now));
+
+// Campaigns don't stack: the highest live multiplier wins
+const campaignMultiplier = ({ rules, now }) =>
+  rules
+    .filter(rule => rule.type === 'CAMPAIGN_MULTIPLIER' && rule.multiplier > 0 && isLive(rule, now))
+    .reduce((highest, rule) => Math.max(highest, rule.multiplier), 1);
+
+const loadContext = async () => ({
+  rules: await getActiveRules(),
+  settings: await getLoyaltySettings(),
+  now: new Date()
+});
+
+/**
+ * Apply the campaign multiplier and daily cap, then write the earning to the ledger.
+ * @returns {Promise<Object|null>} - The ledger entry, or null when nothing was left to award
+ */
+const awardPoints = async (tx, context, { userId, type, points, ...entry }) => {
+  let amount = Math.floor(points * campaignMultiplier(context));
+
+  if (context.settings.dailyEarnCap !== null && CAPPED_TYPES.includes(type)) {
+    const startOfDay = new Date(context.now);
+    startOfDay.setHours(0, 0, 0, 0);
+
+    const { _sum } = await tx.pointsTransaction.aggregate({
+      where: { userId, type: { in: CAPPED_TYPES }, createdAt: { gte: startOfDay } },
+      _sum: { points: true }
+    });
+    amount = Math.min(amount, context.settings.dailyEarnCap - (_sum.points || 0));
+  }
+
+  if (amount <= 0) return null;
+
+  return recordPointsTransaction(tx, { userId, type, points: amount, ...entry });
+};
+
+/**
+ * Award the signup bonus to a new buyer
+ * @param {Object} tx - Prisma transaction client
+ * @param {string} userId
+ * @returns {Promise<Object|null>}
+ */
+export const applySignupRules = async (tx, userId) => {
+  const context = await loadContext();
+  const rule = findRule(context, 'SIGNUP_BONUS');
+  if (!rule?.points) return null;
+
+  return awardPoints(tx, context, {
+    userId,
+    type: 'SIGNUP_BONUS',
+    points: rule.points,
+    description: rule.name
+  });
+};
+
+/**
+ * Award the review reward, plus the photo bonus when the review has media
+ * @param {Object} tx - Prisma transaction client
+ * @param {Object} review - The created review
+ * @param {string} productName
+ * @returns {Promise<Object[]>} - Ledger entries written
+ */
+export const applyReviewRules = async (tx, review, productName) => {
+  const context = await loadContext();
+  const entries = [];
+
+  const reviewRule = findRule(context, 'REVIEW');
+  if (reviewRule?.points) {
+    entries.push(await awardPoints(tx, context, {
+      userId: review.userId,
+      type: 'REVIEW_REWARD',
+      points: reviewRule.points,
+      reviewId: review.id,
+      description: `Review of ${productName}`
+    }));
+  }
+
+  const photoRule = findRule(context, 'REVIEW_PHOTO_BONUS');
+  if (photoRule?.points && review.media.length > 0) {
+    entries.push(await awardPoints(tx, context, {
+      userId: review.userId,
+      type: 'REVIEW_PHOTO_BONUS',
+      points: photoRule.points,
+      reviewId: review.id,
+      description: `Photos on review of ${productName}`
+    }));
+  }
+
+  return entries.filter(Boolean);
+};
+
+/**
+ * Award spend points, the first-order bonus and the referrer's bonus once an order completes.
+ * Safe to call more than once for the same order.
+ * @param {string} orderId
+ * @returns {Promise<Object[]>} - Ledger entries written
+ */
+export const applyOrderCompletionRules = async (orderId) => {
+  const order = await prisma.order.findUnique({
+    where: { id: orderId },
+    include: {
+      buyer: {
+        select: { id: true, firstName: true, referredById: true, referralRewardedAt: true }
+      }
+    }
+  });
+
+  // Orders paid with points don't earn points
+  if (!order || order.status !== 'COMPLETED' || order.paymentMethod === 'POINTS') {
+    return [];
+  }
+
+  const context = await loadContext();
+  const buyerId = order.buyerId;
+
+  const entries = await prisma.$transaction(async (tx) => {
+    const awarded = [];
+
+    const spendRule = findRule(context, 'ORDER_SPEND');
+    if (spendRule?.pointsPerCedi) {
+      const alreadyRewarded = await tx.pointsTransaction.findFirst({
+        where: { orderId, type: 'ORDER_REWARD' }
+      });
+      const amountSpent = Math.max(order.subtotal - order.discount, 0);
+
+      if (!alreadyRewarded) {
+        awarded.push(await awardPoints(tx, context, {
+          userId: buyerId,
+          type: 'ORDER_REWARD',
+          points: Math.floor(amountSpent * spendRule.pointsPerCedi),
+          orderId,
+          description: `Order #${orderId.slice(-8)}`
+        }));
+      }
+    }
+
+    const firstOrderRule = findRule(context, 'FIRST_ORDER_BONUS');
+    if (firstOrderRule?.points) {
+      const [existingBonus, earlierOrders] = await Promise.all([
+        tx.pointsTransaction.findFirst({ where: { userId: buyerId, type: 'FIRST_ORDER_BONUS' } }),
+        tx.order.count({ where: { buyerId, status: 'COMPLETED', id: { not: orderId } } })
+      ]);
+
+      if (!existingBonus && earlierOrders === 0) {
+        awarded.push(await awardPoints(tx, context, {
+          userId: buyerId,
+          type: 'FIRST_ORDER_BONUS',
+          points: firstOrderRule.points,
+          orderId,
+          description: firstOrderRule.name
+        }));
+      }
+    }
+
+    const referralRule = findRule(context, 'REFERRAL_BONUS');
+    if (referralRule?.points && order.buyer.referredById && !order.buyer.referralRewardedAt) {
+      const { count } = await tx.user.updateMany({
+        where: { id: buyerId, referralRewardedAt: null },
+        data: { referralRewardedAt: new Date() }
+      });
+
+      if (count > 0) {
+        awarded.push(await awardPoints(tx, context, {
+          userId: order.buyer.referredById,
+          type: 'REFERRAL_BONUS',
+          points: referralRule.points,
+          orderId,
+          description: `${order.buyer.firstName} completed their first order`
+        }));
+      }
+    }
+
+    return awarded.filter(Boolean);
+  });
+
+  const earnedByUser = new Map();
+  for (const entry of entries) {
+    earnedByUser.set(entry.userId, (earnedByUser.get(entry.userId) || 0) + entry.points);
+  }
+
+  for (const [userId, points] of earnedByUser) {
+    await invalidatePointsCache(userId);
+    await sendNotification(
+      userId,
+      'Points Earned',
+      `You earned ${points} points.`,
+      'POINTS_EARNED',
+      { orderId, points }
+    );
+  }
+
+  return entries;
+};
+
+/**
+ * Return the user's referral code, generating one the first time it is asked for
+ * @param {string} userId
+ * @returns {Promise<string>}
+ */
+export const getOrCreateReferralCode = async (userId) => {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { referralCode: true }
+  });
+  if (user.referralCode) return user.referralCode;
+
+  for (let attempt = 0; attempt < 5; attempt++) {
+    const code = crypto.randomBytes(4).toString('hex').toUpperCase();
+    try {
+      const updated = await prisma.user.update({
+        where: { id: userId },
+        data: { referralCode: code },
+        select: { referralCode: true }
+      });
+      return updated.referralCode;
+    } catch (error) {
+      // P2002: another user already has this code, try a new one
+      if (error.code !== 'P2002') throw error;
+    }
+  }
+
+  throw new Error('Could not generate a unique referral code');
+};
@@ -0,0 +1,497 @@
+// utils/orderLifecycleUtils.js
+import prisma from '../config/prisma.js';
+import { cache } from '../config/redis.js';
+import { sendEmailNotification } from './sendEmailNotification.js';
+import { sendNotification } from './sendnotification.js';
+import { releaseReservations } from './inventoryUtils.js';
+import { releaseCouponRedemption } from './couponUtils.js';
+import { refundPointsRedemption, invalidatePointsCache } from './pointsUtils.js';
+import { applyOrderCompletionRules } from './loyaltyUtils.js';
+import { isCashOnDelivery } from './cashOnDeliveryUtils.js';
+
+export const ORDER_ACTORS = {
+  BUYER: 'BUYER',
+  SELLER: 'SELLER',
+  ADMIN: 'ADMIN',
+  SYSTEM: 'SYSTEM'
+};
+
+const { BUYER, SELLER, ADMIN, SYSTEM } = ORDER_ACTORS;
+
+// Legal order transitions and the actors allowed to trigger each one
+const ORDER_TRANSITIONS = {
+  PENDING: {
+    CONFIRMED: [SELLER, ADMIN, SYSTEM],
+    CANCELLED: [BUYER, SELLER, ADMIN, SYSTEM]
+  },
+  CONFIRMED: {
+    PROCESSING: [SELLER, ADMIN],
+    SHIPPED: [SELLER, ADMIN],
+    CANCELLED: [SELLER, ADMIN, SYSTEM],
+    REFUNDED: [ADMIN, SYSTEM]
+  },
+  PROCESSING: {
+    SHIPPED: [SELLER, ADMIN],
+    CANCELLED: [SELLER, ADMIN, SYSTEM],
+    REFUNDED: [ADMIN, SYSTEM]
+  },
+  SHIPPED: {
+    OUT_FOR_DELIVERY: [SELLER, ADMIN],
+    REFUNDED: [ADMIN, SYSTEM]
+  },
+  OUT_FOR_DELIVERY: {
+    DELIVERED: [SELLER, ADMIN],
+    REFUNDED: [ADMIN, SYSTEM]
+  },
+  DELIVERED: {
+    COMPLETED: [BUYER, ADMIN, SYSTEM],
+    REFUNDED: [ADMIN, SYSTEM]
+  },
+  COMPLETED: {
+    REFUNDED: [ADMIN, SYSTEM]
+  },
+  CANCELLED: {
+    REFUNDED: [ADMIN, SYSTEM]
+  },
+  REFUNDED: {}
+};
+
+export const ORDER_STATUSES = Object.keys(ORDER_TRANSITIONS);
+
+// Escrow is held, not paid out, while the order is in one of these statuses
+export const ESCROW_HOLD_STATUSES = ['CANCELLED', 'REFUNDED'];
+
+// Delivery statuses that move the order with them, and the reverse for keeping DeliveryInfo in step
+export const ORDER_STATUS_FOR_DELIVERY = {
+  SHIPPED: 'SHIPPED',
+  OUT_FOR_DELIVERY: 'OUT_FOR_DELIVERY',
+  DELIVERED: 'DELIVERED',
+  CANCELLED: 'CANCELLED'
+};
+
+// Delivery statuses that don't change the order, and the order statuses they're allowed in
+const DELIVERY_ONLY_STATUSES = {
+  PENDING: ['PENDING', 'CONFIRMED', 'PROCESSING'],
+  PROCESSING: ['CONFIRMED', 'PROCESSING'],
+  FAILED: ['SHIPPED', 'OUT_FOR_DELIVERY'],
+  RETURNED: ['SHIPPED', 'OUT_FOR_DELIVERY', 'DELIVERED']
+};
+
+export const DELIVERY_STATUSES = [
+  ...Object.keys(DELIVERY_ONLY_STATUSES),
+  ...Object.keys(ORDER_STATUS_FOR_DELIVERY)
+];
+
+const ORDER_INCLUDE = {
+  store: {
+    select: {
+      userId: true,
+      name: true,
+      url: true,
+      user: { select: { email: true, firstName: true } }
+    }
+  },
+  buyer: {
+    select: { email: true, firstName: true }
+  },
+  deliveryInfo: {
+    select: { status: true, trackingNumber: true, trackingUrl: true, estimatedDelivery: true }
+  },
+  escrow: {
+    select: { id: true, releaseStatus: true }
+  }
+};
+
+// HTTP status for each lifecycle error code, so controllers can answer with the right one
+const LIFECYCLE_ERROR_STATUS = {
+  ORDER_NOT_FOUND: 404,
+  ORDER_TRANSITION_INVALID: 400,
+  ORDER_TRANSITION_FORBIDDEN: 403,
+  ORDER_STATUS_CONFLICT: 409
+};
+
+const lifecycleError = (code, message) => Object.assign(new Error(message), { code });
+
+/**
+ * HTTP status for an error thrown by this module, or null for any other error
+ * @param {Error} error
+ * @returns {number|null}
+ */
+export const getLifecycleErrorStatus = (error) => LIFECYCLE_ERROR_STATUS[error?.code] || null;
+
+/**
+ * Work out whether the user acts on the order as its buyer, its seller or an admin
+ * @param {Object} order - Order with store.userId loaded
+ * @param {Object} user - req.user
+ * @returns {string|null} - An ORDER_ACTORS value, or null when the user has no part in the order
+ */
+export const resolveOrderActor = (order, user) => {
+  if (user.role === 'ADMIN') return ADMIN;
+  if (order.store?.userId === user.userId) return SELLER;
+  if (order.buyerId === user.userId) return BUYER;
+  return null;
+};
+
+/**
+ * Statuses the actor may move the order to from its current status
+ * @param {string} from - Current OrderStatus
+ * @param {string} actor - ORDER_ACTORS value
+ * @returns {string[]}
+ */
+export const getAllowedTransitions = (from, actor) =>
+  Object.entries(ORDER_TRANSITIONS[from] || {})
+    .filter(([, actors]) => actors.includes(actor))
+    .map(([to]) => to);
+
+/**
+ * Throw unless the transition is legal and the actor may trigger it
+ * @param {string} from
+ * @param {string} to
+ * @param {string} actor
+ * @throws {Error} ORDER_TRANSITION_INVALID or ORDER_TRANSITION_FORBIDDEN
+ */
+export const assertTransition = (from, to, actor) => {
+  const actors = ORDER_TRANSITIONS[from]?.[to];
+
+  if (!actors) {
+    throw lifecycleError('ORDER_TRANSITION_INVALID', `Invalid status transition from ${from} to ${to}.`);
+  }
+  if (!actors.includes(actor)) {
+    throw lifecycleError(
+      'ORDER_TRANSITION_FORBIDDEN',
+      `A ${actor.toLowerCase()} cannot move an order from ${from} to ${to}.`
+    );
+  }
+};
+
+const applyTransitionEffects = async (tx, order, to, reason) => {
+  const deliveryStatus = ORDER_STATUS_FOR_DELIVERY[to];
+  if (order.deliveryInfo && deliveryStatus && order.deliveryInfo.status !== deliveryStatus) {
+    await tx.deliveryInfo.update({
+      where: { orderId: order.id },
+      data: {
+        status: deliveryStatus,
+        ...(deliveryStatus === 'DELIVERED' && { actualDelivery: new Date() })
+      }
+    });
+  }
+
+  if (to === 'CANCELLED') {
+    await releaseReservations(order.id, 'ORDER_CANCELLED', tx);
+    await releaseCouponRedemption(order.id, tx);
+    await refundPointsRedemption(order.id, tx);
+  }
+
+  // The buyer has their money back, so the escrow must never be paid out to the seller
+  if (to === 'REFUNDED' && order.escrow && ['PENDING', 'FAILED'].includes(order.escrow.releaseStatus)) {
+    await tx.escrow.update({
+      where: { id: order.escrow.id },
+      data: {
+        releaseStatus: 'REFUNDED',
+        releaseReason: reason || 'Order refunded',
+        nextAttemptAt: null
+      }
+    });
+  }
+};
+
+const notifyTransition = async (order, to, { actor, reason }) => {
+  const orderId = order.id;
+  const storeName = order.store.name;
+  const orderUrl = `${process.env.FRONTEND_URL}/orders/${orderId}`;
+  const sellerOrderUrl = `${process.env.FRONTEND_URL}/seller/orders/${orderId}`;
+
+  const notifyBuyer = async (title, message, type, email) => {
+    await sendNotification(order.buyerId, title, message, type, { orderId, storeId: order.storeId });
+    if (email) {
+      await sendEmailNotification({ to: order.buyer.email, toName: order.buyer.firstName, ...email });
+    }
+  };
+
+  const notifySeller = async (title, message, type, email) => {
+    await sendNotification(order.store.userId, title, message, type, { orderId, buyerId: order.buyerId });
+    if (email) {
+      await sendEmailNotification({ to: order.store.user.email, toName: order.store.user.firstName, ...email });
+    }
+  };
+
+  if (to === 'CONFIRMED') {
+    await notifyBuyer('Order Confirmed', `Your order #${orderId} from ${storeName} has been confirmed.`, 'ORDER_CONFIRMED', {
+      subject: `Your Order (#${orderId}) has been Confirmed`,
+      template: 'generic',
+      templateData: {
+        title: 'Order Confirmed!',
+        message: `Your order #${orderId} from ${storeName} has been confirmed. It will be processed and shipped soon.`,
+        ctaText: 'View Order',
+        ctaUrl: orderUrl
+      }
+    });
+  } else if (to === 'SHIPPED') {
+    await notifyBuyer('Order Shipped', `Your order #${orderId} from ${storeName} has been shipped.`, 'ORDER_SHIPPED', {
+      subject: `Your Order (#${orderId}) has been Shipped!`,
+      template: 'order_shipped',
+      templateData: {
+        orderId,
+        trackingNumber: order.deliveryInfo?.trackingNumber || 'Not available yet',
+        trackingUrl: order.deliveryInfo?.trackingUrl || orderUrl,
+        estimatedDelivery: order.deliveryInfo?.estimatedDelivery || '2-3 business days'
+      }
+    });
+  } else if (to === 'OUT_FOR_DELIVERY') {
+    await notifyBuyer('Out for Delivery', `Your order #${orderId} from ${storeName} is out for delivery.`, 'OUT_FOR_DELIVERY', {
+      subject: `Order #${orderId} is Out for Delivery`,
+      template: 'generic',
+      templateData: {
+        title: 'Out for Delivery!',
+        message: `Your order #${orderId} from ${storeName} is out for delivery and will arrive soon.`,
+        ctaText: 'Track Order',
+        ctaUrl: orderUrl
+      }
+    });
+  } else if (to === 'DELIVERED') {
+    await notifyBuyer('Order Delivered', `Your order #${orderId} from ${storeName} has been delivered. Please confirm receipt.`, 'ORDER_DELIVERED', {
+      subject: `Your Order (#${orderId}) has been Delivered`,
+      template: 'generic',
+      templateData: {
+        title: 'Order Delivered!',
+        message: `Your order #${orderId} from ${storeName} has been delivered. Please confirm receipt on the platform.`,
+        ctaText: 'Confirm Delivery',
+        ctaUrl: orderUrl
+      }
+    });
+
+    if (isCashOnDelivery(order)) {
+      await notifySeller('Order Delivered', `Order #${orderId} delivered and cash collected.`, 'ORDER_DELIVERED_SELLER');
+    } else {
+      await notifySeller('Order Delivered', `Order #${orderId} delivered. Awaiting buyer confirmation for payment release.`, 'ORDER_DELIVERED_SELLER', {
+        subject: `Order (#${orderId}) Delivered - Awaiting Confirmation`,
+        template: 'generic',
+        templateData: {
+          title: 'Order Delivered!',
+          message: `Order #${orderId} has been delivered. Payment will be released after buyer confirmation.`,
+          ctaText: 'View Order',
+          ctaUrl: sellerOrderUrl
+        }
+      });
+    }
+  } else if (to === 'COMPLETED') {
+    await notifyBuyer('Order Completed', `Your order #${orderId} from ${storeName} is now completed.`, 'ORDER_COMPLETED', {
+      subject: `Your Order (#${orderId}) is Complete`,
+      template: 'generic',
+      templateData: {
+        title: 'Order Completed!',
+        message: `Your order #${orderId} from ${storeName} is complete. Thank you for shopping!`,
+        ctaText: 'View Order',
+        ctaUrl: orderUrl
+      }
+    });
+
+    await notifySeller('Order Completed', `Order #${orderId} completed.`, 'ORDER_COMPLETED_SELLER', {
+      subject: `Order (#${orderId}) Completed`,
+      template: 'generic',
+      templateData: {
+        title: 'Order Completed!',
+        message: `Order #${orderId} is complete. Payment is released from escrow to your account.`,
+        ctaText: 'View Orders',
+        ctaUrl: `${process.env.FRONTEND_URL}/seller/orders`
+      }
+    });
+  } else if (to === 'CANCELLED') {
+    const cancelledBy = actor.toLowerCase();
+    const email = {
+      subject: `Order (#${orderId}) has been Cancelled`,
+      template: 'generic',
+      templateData: {
+        title: 'Order Cancelled',
+        message: `Order #${orderId} has been cancelled by the ${cancelledBy}. ${reason ? `Reason: ${reason}` : ''}`,
+        ctaText: 'View Order History',
+        ctaUrl: `${process.env.FRONTEND_URL}/orders`
+      }
+    };
+    const message = `Order #${orderId} has been cancelled by the ${cancelledBy}.`;
+
+    // Tell whoever didn't cancel it
+    if (actor !== BUYER) await notifyBuyer('Order Cancelled', message, 'ORDER_CANCELLED', email);
+    if (actor !== SELLER) await notifySeller('Order Cancelled', message, 'ORDER_CANCELLED', email);
+  }
+};
+
+const invalidateOrderCaches = async (order, to) => {
+  await cache.del(`order:${order.id}:user:${order.buyerId}`);
+  await cache.del(`order:${order.id}:user:${order.store.userId}`);
+  await cache.del(`delivery:${order.id}:user:${order.buyerId}`);
+  await cache.del(`delivery:${order.id}:user:${order.store.userId}`);
+  await cache.del(`user:${order.buyerId}:orders`);
+  await cache.del(`store:${order.storeId}:orders`);
+
+  if (to === 'CANCELLED') {
+    await cache.del(`store:slug:${order.store.url}`);
+
+    // Released stock changes what product pages show
+    const orderItems = await prisma.orderItem.findMany({
+      where: { orderId: order.id },
+      select: { productId: true }
+    });
+    for (const item of orderItems) {
+      await cache.del(`product:url:${item.productId}`);
+    }
+
+    if (order.paymentMethod === 'POINTS') {
+      await invalidatePointsCache(order.buyerId);
+    }
+  }
+};
+
+/**
+ * Move an order to a new status. Checks the transition and the actor, then in one transaction
+ * updates the order, writes the StatusChange row, keeps the delivery record in step, returns held
+ * stock, coupons and points on cancellation and closes the escrow on refund. Notifications, cache
+ * invalidation and loyalty rewards run after the commit.
+ * @param {string} orderId
+ * @param {string} to - Target OrderStatus
+ * @param {Object} options
+ * @param {string} options.actor - ORDER_ACTORS value
+ * @param {string} [options.actorId] - User who made the change; omitted for system changes
+ * @param {string} [options.reason]
+ * @param {Object} [options.data] - Extra order fields to write with the status
+ * @param {boolean} [options.notify=true] - Send the standard status notifications
+ * @param {boolean} [options.cashCollected=false] - The seller has the buyer's cash; required to deliver a cash on delivery order
+ * @param {Function} [options.onTransition] - (tx, order) => Promise, for caller-specific writes in the same transaction
+ * @returns {Promise<Object>} - The updated order
+ * @throws {Error} With a code from LIFECYCLE_ERROR_STATUS when the change isn't allowed
+ */
+export const transitionOrder = async (orderId, to, {
+  actor,
+  actorId = null,
+  reason = null,
+  data = {},
+  notify = true,
+  cashCollected = false,
+  onTransition
+}) => {
+  const order = await prisma.order.findUnique({
+    where: { id: orderId },
+    include: ORDER_INCLUDE
+  });
+
+  if (!order) {
+    throw lifecycleError('ORDER_NOT_FOUND', 'Order not found.');
+  }
+
+  const from = order.status;
+  assertTransition(from, to, actor);
+
+  // An online order only leaves PENDING once its payment has gone through; the payment
+  // handler confirms it along with recording the payment
+  if (from === 'PENDING' && to === 'CONFIRMED' && order.paymentStatus !== 'SUCCESS' && data.paymentStatus !== 'SUCCESS') {
+    throw lifecycleError('ORDER_TRANSITION_INVALID', 'An order cannot be confirmed before its payment has gone through.');
+  }
+
+  // A cash on delivery order is paid at the door, so it can't be delivered without the cash
+  if (to === 'DELIVERED' && isCashOnDelivery(order)) {
+    if (!cashCollected) {
+      throw lifecycleError(
+        'ORDER_TRANSITION_INVALID',
+        'Confirm the cash was collected from the buyer before marking a cash on delivery order as delivered.'
+      );
+    }
+
+    data = {
+      ...data,
+      paymentStatus: 'SUCCESS',
+      cashCollectedAt: new Date(),
+      cashCollectedBy: actorId
+    };
+  }
+
+  const updatedOrder = await prisma.$transaction(async (tx) => {
+    // Guard on the status we checked, so two concurrent changes can't both apply
+    const { count } = await tx.order.updateMany({
+      where: { id: orderId, status: from },
+      data: {
+        status: to,
+        ...(to === 'CANCELLED' && { cancelledAt: new Date(), cancelledBy: actor.toLowerCase() }),
+        ...data
+      }
+    });
+
+    if (count === 0) {
+      throw lifecycleError('ORDER_STATUS_CONFLICT', `Order status changed from ${from} before this update was applied.`);
+    }
+
+    await tx.statusChange.create({
+      data: {
+        orderId,
+        oldStatus: from,
+        newStatus: to,
+        actor,
+        changedBy: actorId || 'system',
+        reason
+      }
+    });
+
+    await applyTransitionEffects(tx, order, to, reason);
+
+    if (onTransition) {
+      await onTransition(tx, order);
+    }
+
+    return tx.order.findUnique({ where: { id: orderId } });
+  });
+
+  if (notify) {
+    try {
+      await notifyTransition(order, to, { actor, reason });
+    } catch (notificationError) {
+      console.error(`Error sending notifications for order ${orderId} (${from} -> ${to}):`, notificationError);
+    }
+  }
+
+  if (to === 'COMPLETED') {
+    try {
+      await applyOrderCompletionRules(orderId);
+    } catch (loyaltyError) {
+      console.error(`Error applying loyalty rules for order ${orderId}:`, loyaltyError);
+    }
+  }
+
+  await invalidateOrderCaches(order, to);
+
+  return updatedOrder;
+};
+
+/**
+ * Set the delivery status of an order. Statuses that belong to the order lifecycle
+ * (shipped, out for delivery, delivered, cancelled) move the order through transitionOrder;
+ * the rest only update the delivery record, and only while the order is in a matching status.
+ * @param {Object} order - Order with id and status
+ * @param {string} deliveryStatus - DeliveryStatus
+ * @param {Object} options - actor, actorId and cashCollected, as for transitionOrder
+ * @returns {Promise<Object>} - The updated delivery record
+ */
+export const setOrderDeliveryStatus = async (order, deliveryStatus, { actor, actorId = null, cashCollected = false }) => {
+  const orderStatus = ORDER_STATUS_FOR_DELIVERY[deliveryStatus];
+
+  if (orderStatus && orderStatus !== order.status) {
+    await transitionOrder(order.id, orderStatus, {
+      actor,
+      actorId,
+      reason: `Delivery marked ${deliveryStatus}`,
+      cashCollected
+    });
+  } else {
+    if (!orderStatus && !DELIVERY_ONLY_STATUSES[deliveryStatus]?.includes(order.status)) {
+      throw lifecycleError(
+        'ORDER_TRANSITION_INVALID',
+        `Delivery cannot be marked ${deliveryStatus} while the order is ${order.status}.`
+      );
+    }
+
+    await prisma.deliveryInfo.update({
+      where: { orderId: order.id },
+      data: { status: deliveryStatus }
+    });
+  }
+
+  return prisma.deliveryInfo.findUnique({ where: { orderId: order.id } });
+};
@@ -0,0 +1,148 @@
+// utils/payoutUtils.js
+import prisma from '../config/prisma.js';
+import { ESCROW_HOLD_STATUSES } from './orderLifecycleUtils.js';
+import { OPEN_DISPUTE_STATUSES } from './disputeUtils.js';
+import { getSellerPayout } from './commissionUtils.js';
+
+// TransferLog statuses a seller can filter their payout history by
+export const TRANSFER_STATUSES = ['INITIATED', 'SUCCESS', 'FAILED', 'REVERSED'];
+
+// Paystack transfer statuses that are final, mapped to the TransferLog status they settle to
+const FINAL_GATEWAY_STATUSES = {
+  success: 'SUCCESS',
+  failed: 'FAILED',
+  reversed: 'REVERSED'
+};
+
+/**
+ * TransferLog status for a status reported by Paystack's transfer verification
+ * @param {string} gatewayStatus - e.g. 'pending', 'otp', 'success', 'failed', 'reversed'
+ * @returns {string|null} null while the transfer is still in flight
+ */
+export const getFinalTransferStatus = (gatewayStatus) =>
+  FINAL_GATEWAY_STATUSES[gatewayStatus] || null;
+
+const roundAmount = (amount) => Math.round(amount * 100) / 100;
+
+// Escrows are summed net of the platform's fees, i.e. what the seller will actually receive
+const sumEscrowBalance = async (where) => {
+  const escrows = await prisma.escrow.findMany({
+    where,
+    select: {
+      amountHeld: true,
+      refundedAmount: true,
+      payment: { select: { platformFee: true, sellerAmount: true } }
+    }
+  });
+
+  const amount = escrows.reduce((sum, escrow) => {
+    const balance = Math.max(escrow.amountHeld - (escrow.refundedAmount || 0), 0);
+    return sum + getSellerPayout(balance, escrow, escrow.payment).amount;
+  }, 0);
+
+  return { amount: roundAmount(amount), count: escrows.length };
+};
+
+/**
+ * Where a store's money currently sits: still held in escrow, due for release on the next
+ * run, on its way to the seller, paid out, or stuck after a failed payout
+ * @param {string} storeId
+ * @returns {Promise<Object>}
+ */
+export const getStorePayoutSummary = async (storeId) => {
+  const now = new Date();
+  const payableOrder = { storeId, status: { notIn: ESCROW_HOLD_STATUSES } };
+  const openDisputes = { status: { in: OPEN_DISPUTE_STATUSES } };
+
+  const [pendingInEscrow, available, failed, transfers, latestEscrow] = await Promise.all([
+    sumEscrowBalance({
+      releaseStatus: 'PENDING',
+      order: payableOrder,
+      OR: [
+        { releaseDate: { gt: now } },
+        { order: { disputes: { some: openDisputes } } }
+      ]
+    }),
+    sumEscrowBalance({
+      releaseStatus: 'PENDING',
+      releaseDate: { lte: now },
+      order: { ...payableOrder, disputes: { none: openDisputes } }
+    }),
+    sumEscrowBalance({
+      releaseStatus: 'FAILED',
+      order: { storeId }
+    }),
+    prisma.transferLog.groupBy({
+      by: ['status'],
+      where: { storeId },
+      _sum: { amount: true },
+      _count: { _all: true }
+    }),
+    prisma.escrow.findFirst({
+      where: { order: { storeId } },
+      select: { currency: true },
+      orderBy: { createdAt: 'desc' }
+    })
+  ]);
+
+  const transferTotals = (status) => {
+    const row = transfers.find((transfer) => transfer.status === status);
+    return {
+      amount: roundAmount(row?._sum.amount || 0),
+      count: row?._count._all || 0
+    };
+  };
+
+  return {
+    currency: latestEscrow?.currency || 'GHS',
+    pendingInEscrow,
+    available,
+    processing: transferTotals('INITIATED'),
+    paidOut: transferTotals('SUCCESS'),
+    failed
+  };
+};
+
+const escapeCsv = (value) => {
+  if (value === null || value === undefined) return '';
+  const text = value instanceof Date ? value.toISOString() : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * CSV statement of a store's payouts, with the amount that actually reached the seller at the end
+ * @param {Object[]} transfers - TransferLog rows, oldest first
+ * @param {Object} period
+ * @param {Date} period.from
+ * @param {Date} period.to
+ * @returns {string}
+ */
+export const buildPayoutStatementCsv = (transfers, { from, to }) => {
+  const header = ['Date', 'Order', 'Reference', 'Amount', 'Currency', 'Status', 'Reason', 'Completed', 'Error'];
+
+  const rows = transfers.map((transfer) => [
+    transfer.initiatedAt,
+    transfer.orderId,
+    transfer.transferRef || transfer.transferCode,
+    transfer.amount.toFixed(2),
+    transfer.currency,
+    transfer.status,
+    transfer.reason,
+    transfer.completedAt,
+    transfer.errorMessage
+  ]);
+
+  const paidOut = transfers
+    .filter((transfer) => transfer.status === 'SUCCESS')
+    .reduce((sum, transfer) => sum + transfer.amount, 0);
+
+  return [
+    ['Payout statement', from.toISOString().slice(0, 10), to.toISOString().slice(0, 10)],
+    header,
+    ...rows,
+    [],
+    ['Total paid out', '', '', roundAmount(paidOut).toFixed(2), transfers[0]?.currency || '']
+  ]
+    .map((row) => row.map(escapeCsv).join(','))
+    .join('\n');
+};
@@ -0,0 +1,287 @@
+// utils/pointsUtils.js
+import prisma from '../config/prisma.js';
+import { cache } from '../config/redis.js';
+
+export const POINTS_EXPIRY_DAYS = parseInt(process.env.POINTS_EXPIRY_DAYS) || 365;
+
+export const POINTS_EXPIRY_JOB = 'points-expiry';
+export const POINTS_RECONCILE_JOB = 'points-reconcile';
+
+const EXPIRY_BATCH_SIZE = 500;
+
+/**
+ * Drop the cached balance, history and redeemable products for a user
+ * @param {string} userId
+ */
+export const invalidatePointsCache = async (userId) => {
+  await cache.del(`user:${userId}:points`);
+  await cache.delPattern(`user:${userId}:points:history:*`);
+  await cache.delPattern(`user:${userId}:redeemable:products:*`);
+};
+
+/**
+ * Use up the oldest unspent earnings first, so points that expire soonest are spent first.
+ * @param {Object} tx - Prisma transaction client
+ * @param {string} userId
+ * @param {number} amount - Points being spent
+ */
+const consumeEarnings = async (tx, userId, amount) => {
+  let outstanding = amount;
+
+  const earnings = await tx.pointsTransaction.findMany({
+    where: { userId, remaining: { gt: 0 } },
+    orderBy: [{ expiresAt: 'asc' }, { createdAt: 'asc' }]
+  });
+
+  for (const earning of earnings) {
+    if (outstanding <= 0) break;
+
+    const used = Math.min(earning.remaining, outstanding);
+    await tx.pointsTransaction.update({
+      where: { id: earning.id },
+      data: { remaining: { decrement: used } }
+    });
+    outstanding -= used;
+  }
+};
+
+/**
+ * Write a ledger entry and move the user's balance with it.
+ * Positive entries are earnings that expire after POINTS_EXPIRY_DAYS; negative entries spend them.
+ * @param {Object} tx - Prisma transaction client
+ * @param {Object} entry
+ * @param {string} entry.userId
+ * @param {string} entry.type - PointsTransactionType
+ * @param {number} entry.points - Signed whole number of points
+ * @param {string} [entry.description]
+ * @param {string} [entry.orderId]
+ * @param {string} [entry.reviewId]
+ * @param {string} [entry.createdBy] - Admin who made a manual adjustment
+ * @returns {Promise<Object>} - The ledger entry
+ * @throws {Error} 'Insufficient points' when spending more than the balance
+ */
+export const recordPointsTransaction = async (tx, {
+  userId,
+  type,
+  points,
+  description = null,
+  orderId = null,
+  reviewId = null,
+  createdBy = null
+}) => {
+  if (!Number.isInteger(points) || points === 0) {
+    throw new Error('Points must be a non-zero whole number');
+  }
+
+  if (points < 0) {
+    const { count } = await tx.user.updateMany({
+      where: { id: userId, points: { gte: -points } },
+      data: { points: { increment: points } }
+    });
+    if (count === 0) {
+      throw new Error('Insufficient points');
+    }
+    await consumeEarnings(tx, userId, -points);
+  } else {
+    await tx.user.update({
+      where: { id: userId },
+      data: { points: { increment: points } }
+    });
+  }
+
+  const { points: balanceAfter } = await tx.user.findUnique({
+    where: { id: userId },
+    select: { points: true }
+  });
+
+  return tx.pointsTransaction.create({
+    data: {
+      userId,
+      type,
+      points,
+      balanceAfter,
+      remaining: points > 0 ? points : 0,
+      expiresAt: points > 0
+        ? new Date(Date.now() + POINTS_EXPIRY_DAYS * 24 * 60 * 60 * 1000)
+        : null,
+      description,
+      orderId,
+      reviewId,
+      createdBy
+    }
+  });
+};
+
+/**
+ * Sum the ledger for a user; this is the balance User.points must agree with.
+ * @param {string} userId
+ * @param {Object} db - Prisma client or transaction client
+ * @returns {Promise<number>}
+ */
+export const getPointsBalance = async (userId, db = prisma) => {
+  const { _sum } = await db.pointsTransaction.aggregate({
+    where: { userId },
+    _sum: { points: true }
+  });
+  return _sum.points || 0;
+};
+
+/**
+ * Take back the reward and any photo bonus for a deleted review. Only reverses once,
+ * and never takes the balance below zero if the points were already spent.
+ * @param {Object} tx - Prisma transaction client
+ * @param {string} reviewId
+ * @returns {Promise<Object|null>} - The reversal entry, or null when there was nothing to reverse
+ */
+export const reverseReviewReward = async (tx, reviewId) => {
+  const entries = await tx.pointsTransaction.findMany({
+    where: { reviewId, type: { in: ['REVIEW_REWARD', 'REVIEW_PHOTO_BONUS', 'REVIEW_REVERSAL'] } }
+  });
+
+  const rewards = entries.filter(entry => entry.type !== 'REVIEW_REVERSAL');
+  if (rewards.length === 0 || entries.some(entry => entry.type === 'REVIEW_REVERSAL')) {
+    return null;
+  }
+
+  const reward = rewards[0];
+  const { points: balance } = await tx.user.findUnique({
+    where: { id: reward.userId },
+    select: { points: true }
+  });
+
+  const earned = rewards.reduce((sum, entry) => sum + entry.points, 0);
+  const amount = Math.min(earned, balance);
+  if (amount <= 0) return null;
+
+  return recordPointsTransaction(tx, {
+    userId: reward.userId,
+    type: 'REVIEW_REVERSAL',
+    points: -amount,
+    reviewId,
+    description: 'Review deleted'
+  });
+};
+
+/**
+ * Give back the points spent on a cancelled redemption order, net of anything already returned.
+ * @param {string} orderId
+ * @param {Object} tx - Prisma transaction client
+ * @returns {Promise<Object|null>} - The refund entry, or null when nothing is owed
+ */
+export const refundPointsRedemption = async (orderId, tx) => {
+  const entries = await tx.pointsTransaction.findMany({
+    where: { orderId, type: { in: ['REDEMPTION', 'REFUND_REVERSAL'] } }
+  });
+  if (entries.length === 0) return null;
+
+  const owed = -entries.reduce((sum, entry) => sum + entry.points, 0);
+  if (owed <= 0) return null;
+
+  return recordPointsTransaction(tx, {
+    userId: entries[0].userId,
+    type: 'REFUND_REVERSAL',
+    points: owed,
+    orderId,
+    description: 'Points returned for cancelled order'
+  });
+};
+
+/**
+ * Expire earnings whose expiry date has passed and still have unspent points.
+ * Runs as a background job.
+ */
+export const expirePoints = async () => {
+  const expired = await prisma.pointsTransaction.findMany({
+    where: { remaining: { gt: 0 }, expiresAt: { lte: new Date() } },
+    orderBy: { expiresAt: 'asc' },
+    take: EXPIRY_BATCH_SIZE
+  });
+
+  const affectedUsers = new Set();
+
+  for (const earning of expired) {
+    try {
+      await prisma.$transaction(async (tx) => {
+        const current = await tx.pointsTransaction.findUnique({ where: { id: earning.id } });
+        if (!current || current.remaining <= 0) return;
+
+        const { points: balance } = await tx.user.findUnique({
+          where: { id: earning.userId },
+          select: { points: true }
+        });
+
+        const amount = Math.min(current.remaining, balance);
+        if (amount > 0) {
+          // Spending consumes the earliest-expiring earnings, so this clears the expired row first
+          await recordPointsTransaction(tx, {
+            userId: earning.userId,
+            type: 'EXPIRY',
+            points: -amount,
+            description: `${amount} points expired`
+          });
+        }
+
+        await tx.pointsTransaction.update({
+          where: { id: earning.id },
+          data: { remaining: 0 }
+        });
+      });
+
+      affectedUsers.add(earning.userId);
+    } catch (error) {
+      console.error(`Failed to expire points entry ${earning.id}:`, error);
+    }
+  }
+
+  for (const userId of affectedUsers) {
+    await invalidatePointsCache(userId);
+  }
+
+  return { expired: expired.length, users: affectedUsers.size };
+};
+
+/**
+ * Compare every cached User.points balance with its ledger sum and correct any drift.
+ * Runs as a background job.
+ */
+export const reconcilePointsBalances = async () => {
+  const ledgerTotals = await prisma.pointsTransaction.groupBy({
+    by: ['userId'],
+    _sum: { points: true }
+  });
+  const totals = new Map(ledgerTotals.map(row => [row.userId, row._sum.points || 0]));
+
+  const users = await prisma.user.findMany({
+    where: {
+      OR: [
+        { id: { in: [...totals.keys()] } },
+        { points: { not: 0 } }
+      ]
+    },
+    select: { id: true, points: true }
+  });
+
+  let corrected = 0;
+
+  for (const user of users) {
+    if (user.points === (totals.get(user.id) || 0)) continue;
+
+    // Re-check inside a transaction so a write that landed after the snapshot isn't undone
+    const fixed = await prisma.$transaction(async (tx) => {
+      const ledgerBalance = await getPointsBalance(user.id, tx);
+      const { count } = await tx.user.updateMany({
+        where: { id: user.id, points: user.points, NOT: { points: ledgerBalance } },
+        data: { points: ledgerBalance }
+      });
+      return count > 0 ? ledgerBalance : null;
+    });
+
+    if (fixed !== null) {
+      console.warn(`Points balance for user ${user.id} was ${user.points}, corrected to ledger total ${fixed}`);
+      await invalidatePointsCache(user.id);
+      corrected++;
+    }
+  }
+
+  return { checked: users.length, corrected };
+};
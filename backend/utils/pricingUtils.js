@@ -0,0 +1,239 @@
+// utils/pricingUtils.js
+import prisma from '../config/prisma.js';
+import { validateCoupon, calculateCouponDiscount } from './couponUtils.js';
+
+// Client totals may differ from ours by at most one pesewa (rounding)
+const PRICE_TOLERANCE = 0.01;
+
+// Flat delivery fee per order; STANDARD delivery is negotiated with the seller so it defaults to 0
+const DELIVERY_FEES = {
+  STANDARD: parseFloat(process.env.DELIVERY_FEE_STANDARD) || 0,
+  EXPRESS: parseFloat(process.env.DELIVERY_FEE_EXPRESS) || 0,
+  PICKUP: 0
+};
+
+const TAX_RATE = parseFloat(process.env.ORDER_TAX_RATE) || 0;
+
+export const roundMoney = (value) => Math.round((Number(value) + Number.EPSILON) * 100) / 100;
+
+export const describeVariant = (variant) => [variant.size, variant.color].filter(Boolean).join(' / ');
+
+export const calculateDeliveryFee = (deliveryType = 'STANDARD') => {
+  return DELIVERY_FEES[deliveryType] ?? DELIVERY_FEES.STANDARD;
+};
+
+/**
+ * Price an order for a single store from the catalogue.
+ * Nothing the client sends about money is used here, only product ids and quantities.
+ *
+ * @param {Object} params
+ * @param {string} params.storeId
+ * @param {Array<{productId: string, variantId?: string, quantity: number}>} params.items
+ * @param {string} params.deliveryType - STANDARD | EXPRESS | PICKUP
+ * @param {string} params.promoCode - Optional coupon code
+ * @param {string} params.userId - Buyer id, needed to enforce per-user coupon limits
+ * @param {Object} db - Prisma client or transaction client
+ * @returns {Promise<{success: boolean, quote?: Object, status?: number, message?: string}>}
+ */
+export const quoteOrder = async ({ storeId, items, deliveryType = 'STANDARD', promoCode, userId }, db = prisma) => {
+  if (!storeId || !Array.isArray(items) || items.length === 0) {
+    return { success: false, status: 400, message: 'storeId and items (non-empty array) are required.' };
+  }
+
+  for (const item of items) {
+    if (!item.productId || !Number.isInteger(Number(item.quantity)) || Number(item.quantity) <= 0) {
+      return {
+        success: false,
+        status: 400,
+        message: 'Each item must have productId and a positive whole quantity.'
+      };
+    }
+  }
+
+  const productIds = [...new Set(items.map(item => item.productId))];
+  const products = await db.product.findMany({
+    where: { id: { in: productIds } },
+    include: {
+      variants: {
+        where: { isActive: true }
+      }
+    }
+  });
+  const productsById = new Map(products.map(product => [product.id, product]));
+
+  // The same product can appear on several lines (e.g. different sizes); MOQ and stock apply to the total
+  const quantityByProduct = new Map();
+  const quantityByVariant = new Map();
+  for (const item of items) {
+    quantityByProduct.set(item.productId, (quantityByProduct.get(item.productId) || 0) + Number(item.quantity));
+    if (item.variantId) {
+      quantityByVariant.set(item.variantId, (quantityByVariant.get(item.variantId) || 0) + Number(item.quantity));
+    }
+  }
+
+  for (const [productId, quantity] of quantityByProduct) {
+    const product = productsById.get(productId);
+
+    if (!product) {
+      return { success: false, status: 400, message: `Product with ID ${productId} not found.` };
+    }
+
+    if (product.storeId !== storeId) {
+      return { success: false, status: 400, message: `Product "${product.name}" does not belong to this store.` };
+    }
+
+    if (!product.isActive) {
+      return { success: false, status: 400, message: `Product "${product.name}" is no longer available.` };
+    }
+
+    if (product.moq && quantity < product.moq) {
+      return {
+        success: false,
+        status: 400,
+        message: `Minimum order quantity for "${product.name}" is ${product.moq}. Requested: ${quantity}`
+      };
+    }
+
+    if (product.stock < quantity) {
+      return {
+        success: false,
+        status: 400,
+        message: `Insufficient stock for product "${product.name}". Requested: ${quantity}, Available: ${product.stock}`
+      };
+    }
+  }
+
+  // Products sold in sizes/colors must be ordered as a specific variant
+  const variantsById = new Map();
+  for (const item of items) {
+    const product = productsById.get(item.productId);
+
+    if (!item.variantId) {
+      if (product.variants.length > 0) {
+        return { success: false, status: 400, message: `Please choose a size or color for "${product.name}".` };
+      }
+      continue;
+    }
+
+    const variant = product.variants.find(candidate => candidate.id === item.variantId);
+    if (!variant) {
+      return { success: false, status: 400, message: `The selected option for "${product.name}" is no longer available.` };
+    }
+
+    const requested = quantityByVariant.get(variant.id);
+    if (variant.stock < requested) {
+      return {
+        success: false,
+        status: 400,
+        message: `Insufficient stock for "${product.name}" (${describeVariant(variant)}). Requested: ${requested}, Available: ${variant.stock}`
+      };
+    }
+
+    variantsById.set(variant.id, variant);
+  }
+
+  const lineItems = items.map(item => {
+    const product = productsById.get(item.productId);
+    const variant = item.variantId ? variantsById.get(item.variantId) : null;
+    const quantity = Number(item.quantity);
+    const price = variant?.price ?? product.price;
+
+    return {
+      productId: product.id,
+      variantId: variant ? variant.id : null,
+      name: product.name,
+      size: variant ? variant.size : null,
+      color: variant ? variant.color : null,
+      sku: variant ? variant.sku : null,
+      quantity,
+      price: roundMoney(price),
+      total: roundMoney(price * quantity),
+      product,
+      variant
+    };
+  });
+
+  const subtotal = roundMoney(lineItems.reduce((sum, item) => sum + item.total, 0));
+
+  const discounts = [];
+  let coupon = null;
+  if (promoCode) {
+    const couponCheck = await validateCoupon({ code: promoCode, userId, storeId, subtotal }, db);
+    if (!couponCheck.success) {
+      return couponCheck;
+    }
+
+    coupon = couponCheck.coupon;
+    discounts.push(calculateCouponDiscount(coupon, subtotal));
+  }
+
+  const freeDelivery = discounts.some(discount => discount.freeDelivery);
+  const deliveryFee = freeDelivery ? 0 : roundMoney(calculateDeliveryFee(deliveryType));
+
+  // Discounts never take the subtotal below zero
+  const requestedDiscount = discounts.reduce((sum, discount) => sum + (discount.amount || 0), 0);
+  const discount = roundMoney(Math.min(requestedDiscount, subtotal));
+  const taxAmount = roundMoney((subtotal - discount) * TAX_RATE);
+  const totalAmount = roundMoney(subtotal - discount + deliveryFee + taxAmount);
+
+  return {
+    success: true,
+    quote: {
+      storeId,
+      currency: 'GHS',
+      deliveryType,
+      items: lineItems,
+      subtotal,
+      deliveryFee,
+      taxAmount,
+      discount,
+      discounts,
+      coupon,
+      totalAmount
+    }
+  };
+};
+
+/**
+ * Compare the amounts a client submitted against a server quote.
+ * Fields the client left out are not compared.
+ * @returns {Array<{field: string, submitted: number, expected: number}>}
+ */
+export const findPriceMismatches = (quote, submitted = {}) => {
+  const mismatches = [];
+
+  const compare = (field, submittedValue, expected) => {
+    if (submittedValue === undefined || submittedValue === null) return;
+    if (Math.abs(Number(submittedValue) - expected) > PRICE_TOLERANCE) {
+      mismatches.push({ field, submitted: Number(submittedValue), expected });
+    }
+  };
+
+  compare('subtotal', submitted.subtotal, quote.subtotal);
+  compare('deliveryFee', submitted.deliveryFee, quote.deliveryFee);
+  compare('taxAmount', submitted.taxAmount, quote.taxAmount);
+  compare('discount', submitted.discount, quote.discount);
+  compare('totalAmount', submitted.totalAmount, quote.totalAmount);
+
+  (submitted.items || []).forEach((item, index) => {
+    const line = quote.items[index];
+    if (line) {
+      compare(`items[${index}].price`, item.price, line.price);
+    }
+  });
+
+  return mismatches;
+};
+
+// Strip the full product, variant and coupon records before a quote goes back to the client
+export const serializeQuote = ({ coupon, ...quote }) => ({
+  ...quote,
+  coupon: coupon
+    ? { code: coupon.code, type: coupon.type, value: coupon.value, description: coupon.description }
+    : null,
+  items: quote.items.map(({ product, variant, ...item }) => ({
+    ...item,
+    moq: product.moq,
+    stock: variant ? variant.stock : product.stock
+  }))
+});
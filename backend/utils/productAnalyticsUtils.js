@@ -0,0 +1,241 @@
+// utils/productAnalyticsUtils.js
+import crypto from 'crypto';
+import prisma from '../config/prisma.js';
+import { recordProductEvent } from './trendingUtils.js';
+
+// A visitor's repeat visits to a product inside this window count as one view
+const VIEW_DEDUP_HOURS = parseInt(process.env.PRODUCT_VIEW_DEDUP_HOURS) || 24;
+
+// Periods the funnel can be reported over, in days
+export const FUNNEL_PERIODS = {
+  '7d': 7,
+  '30d': 30,
+  '90d': 90
+};
+
+const FUNNEL_STAGES = ['views', 'likes', 'addToCarts', 'orders', 'completed'];
+
+const emptyStages = () => Object.fromEntries(FUNNEL_STAGES.map(stage => [stage, 0]));
+
+const percentOf = (part, whole) =>
+  whole > 0 ? parseFloat(((part / whole) * 100).toFixed(2)) : 0;
+
+/**
+ * Identify a signed-out visitor well enough to skip their repeat views, without storing
+ * their IP address
+ * @param {Object} req - Express request
+ * @returns {string}
+ */
+export const getVisitorKey = (req) =>
+  crypto
+    .createHash('sha256')
+    .update(`${req.ip}|${req.get('user-agent') || ''}`)
+    .digest('hex')
+    .slice(0, 32);
+
+const checkRecentProductView = async (productId, { userId, visitorKey }) => {
+  const since = new Date(Date.now() - VIEW_DEDUP_HOURS * 60 * 60 * 1000);
+
+  const recentView = await prisma.productView.findFirst({
+    where: {
+      productId,
+      ...(userId ? { userId } : { visitorKey }),
+      viewedAt: { gte: since }
+    },
+    select: { id: true }
+  });
+
+  return !!recentView;
+};
+
+const incrementProductView = async (product, { userId, visitorKey }) => {
+  await prisma.$transaction(async (tx) => {
+    await tx.productView.create({
+      data: {
+        productId: product.id,
+        userId,
+        visitorKey: userId ? null : visitorKey
+      }
+    });
+
+    await tx.product.update({
+      where: { id: product.id },
+      data: {
+        viewCount: {
+          increment: 1
+        }
+      }
+    });
+
+    await recordProductEvent(tx, {
+      type: 'VIEW',
+      productId: product.id,
+      storeId: product.storeId,
+      userId
+    });
+  });
+};
+
+/**
+ * Count a visit to a product page. Sellers viewing their own products are skipped, and a
+ * visitor's repeat visits inside VIEW_DEDUP_HOURS count once.
+ * @param {Object} product - Needs id and storeId
+ * @param {Object} visitor - { userId?, visitorKey }
+ * @returns {Promise<boolean>} Whether a view was recorded
+ */
+export const recordProductView = async (product, { userId = null, visitorKey }) => {
+  if (userId) {
+    const ownStore = await prisma.store.findUnique({
+      where: { userId },
+      select: { id: true }
+    });
+    if (ownStore?.id === product.storeId) return false;
+  }
+
+  if (await checkRecentProductView(product.id, { userId, visitorKey })) return false;
+
+  await incrementProductView(product, { userId, visitorKey });
+  return true;
+};
+
+/**
+ * Daily funnel counts per product since a date. Orders are counted by when they were placed,
+ * so "completed" is how many of those orders have since been completed.
+ * @param {string[]} productIds
+ * @param {Date} since
+ * @returns {Promise<Array<{productId: string, day: string, stage: string, count: number}>>}
+ */
+const loadFunnelRows = async (productIds, since) => {
+  if (productIds.length === 0) return [];
+
+  const rows = await prisma.$queryRaw`
+    WITH activity AS (
+      SELECT v."productId", v."viewedAt" AS "at", 'views' AS "stage", NULL AS "orderId"
+      FROM "ProductView" v
+      WHERE v."productId" = ANY(${productIds}::text[]) AND v."viewedAt" >= ${since}
+      UNION ALL
+      SELECT e."productId", e."createdAt", CASE WHEN e."type" = 'LIKE' THEN 'likes' ELSE 'addToCarts' END, NULL
+      FROM "ProductEvent" e
+      WHERE e."productId" = ANY(${productIds}::text[]) AND e."createdAt" >= ${since}
+        AND e."type" IN ('LIKE', 'ADD_TO_CART')
+      UNION ALL
+      SELECT oi."productId", o."createdAt", 'orders', o."id"
+      FROM "OrderItem" oi
+      JOIN "Order" o ON o."id" = oi."orderId"
+      WHERE oi."productId" = ANY(${productIds}::text[]) AND o."createdAt" >= ${since}
+      UNION ALL
+      SELECT oi."productId", o."createdAt", 'completed', o."id"
+      FROM "OrderItem" oi
+      JOIN "Order" o ON o."id" = oi."orderId"
+      WHERE oi."productId" = ANY(${productIds}::text[]) AND o."createdAt" >= ${since}
+        AND o."status" = 'COMPLETED'
+    )
+    SELECT "productId", to_char("at", 'YYYY-MM-DD') AS "day", "stage",
+      -- An order holding several variants of one product still counts once
+      CASE WHEN "stage" IN ('orders', 'completed') THEN COUNT(DISTINCT "orderId") ELSE COUNT(*) END::int AS "count"
+    FROM activity
+    GROUP BY "productId", 2, "stage"
+  `;
+
+  return rows;
+};
+
+// Every day in the period, oldest first, so quiet days still show up in the series
+const buildDailySeries = (rows, since, days) => {
+  const series = new Map();
+  for (let offset = 0; offset <= days; offset++) {
+    const date = new Date(since.getTime() + offset * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+    series.set(date, { date, ...emptyStages() });
+  }
+
+  for (const row of rows) {
+    const day = series.get(row.day);
+    if (day) day[row.stage] += row.count;
+  }
+
+  return [...series.values()];
+};
+
+const sumStages = (rows) => {
+  const totals = emptyStages();
+  for (const row of rows) {
+    totals[row.stage] += row.count;
+  }
+  return totals;
+};
+
+// Share of each stage that made it to the next one, as percentages
+const buildConversion = (totals) => ({
+  viewToLike: percentOf(totals.likes, totals.views),
+  viewToCart: percentOf(totals.addToCarts, totals.views),
+  cartToOrder: percentOf(totals.orders, totals.addToCarts),
+  orderToCompleted: percentOf(totals.completed, totals.orders),
+  viewToOrder: percentOf(totals.orders, totals.views)
+});
+
+const periodStart = (days) => {
+  const since = new Date();
+  since.setUTCHours(0, 0, 0, 0);
+  since.setUTCDate(since.getUTCDate() - days);
+  return since;
+};
+
+/**
+ * Views → likes → add-to-cart → orders → completed for one product, with a daily series
+ * @param {string} productId
+ * @param {number} days - From FUNNEL_PERIODS
+ * @returns {Promise<Object>}
+ */
+export const getProductFunnel = async (productId, days) => {
+  const since = periodStart(days);
+  const rows = await loadFunnelRows([productId], since);
+  const totals = sumStages(rows);
+
+  return {
+    totals,
+    conversion: buildConversion(totals),
+    series: buildDailySeries(rows, since, days)
+  };
+};
+
+/**
+ * The funnel across a store's products, with a daily series and each product's own totals.
+ * Store totals add up the products, so an order with two different products counts for both.
+ * @param {string} storeId
+ * @param {number} days - From FUNNEL_PERIODS
+ * @returns {Promise<Object>}
+ */
+export const getStoreProductFunnels = async (storeId, days) => {
+  const since = periodStart(days);
+
+  const products = await prisma.product.findMany({
+    where: { storeId },
+    select: { id: true, name: true, url: true, images: true, isActive: true }
+  });
+
+  const rows = await loadFunnelRows(products.map(product => product.id), since);
+  const totals = sumStages(rows);
+
+  const productFunnels = products
+    .map(product => {
+      const productTotals = sumStages(rows.filter(row => row.productId === product.id));
+      return {
+        id: product.id,
+        name: product.name,
+        url: product.url,
+        image: product.images[0] || null,
+        isActive: product.isActive,
+        totals: productTotals,
+        conversion: buildConversion(productTotals)
+      };
+    })
+    .filter(product => FUNNEL_STAGES.some(stage => product.totals[stage] > 0))
+    .sort((a, b) => b.totals.views - a.totals.views || b.totals.orders - a.totals.orders);
+
+  return {
+    totals,
+    conversion: buildConversion(totals),
+    series: buildDailySeries(rows, since, days),
+    products: productFunnels
+  };
+};
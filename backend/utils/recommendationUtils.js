@@ -0,0 +1,349 @@
+// utils/recommendationUtils.js
+import { Prisma } from '@prisma/client';
+import prisma from '../config/prisma.js';
+import { cache } from '../config/redis.js';
+
+export const RECOMMENDATIONS_JOB = 'recommendations-refresh';
+
+// How much each behaviour says about what a buyer likes
+const SIGNAL_WEIGHTS = {
+  purchase: 5,
+  like: 3,
+  follow: 2,
+  productView: 1,
+  storeView: 0.5
+};
+
+// Only behaviour this recent shapes a buyer's affinity; purchases are excluded from results forever
+const LOOKBACK_DAYS = parseInt(process.env.RECOMMENDATION_LOOKBACK_DAYS) || 90;
+
+// Buyers with any signal this recent get their recommendations precomputed by the job
+const ACTIVE_USER_DAYS = parseInt(process.env.RECOMMENDATION_ACTIVE_USER_DAYS) || 30;
+
+// Precomputed lists outlive a couple of job runs so a slow run never leaves buyers without one
+const RECOMMENDATION_TTL_SECONDS = (parseInt(process.env.RECOMMENDATION_TTL_HOURS) || 6) * 60 * 60;
+
+// Products kept per buyer; the endpoint pages through these
+const RECOMMENDATION_LIMIT = 60;
+
+// Most products bought alongside each product that count towards its recommendations
+const CO_PURCHASE_NEIGHBOURS = 20;
+
+// Most content matches scored per buyer
+const CONTENT_CANDIDATE_LIMIT = 300;
+
+// Top categories, tags and stores a buyer's content matches are drawn from
+const TOP_AFFINITIES = 5;
+
+// Share of the final score from each source; the rest is a small popularity prior
+const CO_PURCHASE_WEIGHT = 0.6;
+const CONTENT_WEIGHT = 0.4;
+
+export const recommendationCacheKey = (userId) => `recommendations:user:${userId}`;
+
+const daysAgo = (days) => new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+
+const addTo = (map, key, amount) => {
+  if (!key) return;
+  map.set(key, (map.get(key) || 0) + amount);
+};
+
+const topKeys = (map, count) =>
+  [...map.entries()].sort((a, b) => b[1] - a[1]).slice(0, count).map(([key]) => key);
+
+const maxValue = (map) => Math.max(0, ...map.values());
+
+const productSignalSelect = { id: true, storeId: true, category: true, tags: true };
+
+/**
+ * Everything a buyer has bought, liked, followed and looked at
+ * @param {string} userId
+ * @returns {Promise<Object>}
+ */
+const getUserSignals = async (userId) => {
+  const since = daysAgo(LOOKBACK_DAYS);
+
+  const [orderItems, likes, follows, productViews, storeViews] = await Promise.all([
+    prisma.orderItem.findMany({
+      where: {
+        order: {
+          buyerId: userId,
+          OR: [
+            { paymentStatus: 'SUCCESS' },
+            { paymentMethod: 'CASH_ON_DELIVERY', status: { notIn: ['CANCELLED', 'REFUNDED'] } }
+          ]
+        }
+      },
+      select: { createdAt: true, product: { select: productSignalSelect } }
+    }),
+    prisma.productLike.findMany({
+      where: { userId, createdAt: { gte: since } },
+      select: { product: { select: productSignalSelect } }
+    }),
+    prisma.storeFollower.findMany({
+      where: { userId },
+      select: { storeId: true }
+    }),
+    prisma.productView.findMany({
+      where: { userId, viewedAt: { gte: since } },
+      select: { product: { select: productSignalSelect } }
+    }),
+    prisma.storeView.findMany({
+      where: { userId, viewedAt: { gte: since } },
+      select: { storeId: true }
+    })
+  ]);
+
+  return {
+    purchased: new Set(orderItems.map(item => item.product.id)),
+    productEvents: [
+      ...orderItems
+        .filter(item => item.createdAt >= since)
+        .map(item => ({ product: item.product, weight: SIGNAL_WEIGHTS.purchase })),
+      ...likes.map(like => ({ product: like.product, weight: SIGNAL_WEIGHTS.like })),
+      ...productViews.map(view => ({ product: view.product, weight: SIGNAL_WEIGHTS.productView }))
+    ],
+    storeEvents: [
+      ...follows.map(follow => ({ storeId: follow.storeId, weight: SIGNAL_WEIGHTS.follow })),
+      ...storeViews.map(view => ({ storeId: view.storeId, weight: SIGNAL_WEIGHTS.storeView }))
+    ]
+  };
+};
+
+/**
+ * Fold a buyer's signals into weighted affinities for products, categories, tags and stores
+ * @param {Object} signals - From getUserSignals
+ * @returns {Object} Maps of key to weight
+ */
+const buildAffinity = ({ productEvents, storeEvents }) => {
+  const affinity = {
+    products: new Map(),
+    categories: new Map(),
+    tags: new Map(),
+    stores: new Map()
+  };
+
+  for (const { product, weight } of productEvents) {
+    addTo(affinity.products, product.id, weight);
+    addTo(affinity.categories, product.category?.toLowerCase(), weight);
+    for (const tag of product.tags) {
+      addTo(affinity.tags, tag.toLowerCase(), weight / 2);
+    }
+    addTo(affinity.stores, product.storeId, weight / 2);
+  }
+
+  for (const { storeId, weight } of storeEvents) {
+    addTo(affinity.stores, storeId, weight);
+  }
+
+  return affinity;
+};
+
+/**
+ * Products bought by the same buyers, scored by cosine similarity of their buyer sets
+ * @param {string[]|null} productIds - Only load neighbours of these products; null for all
+ * @returns {Promise<Map<string, Array<{id: string, similarity: number}>>>} Best neighbour first
+ */
+const getCoPurchases = async (productIds = null) => {
+  if (productIds && productIds.length === 0) return new Map();
+
+  const seedFilter = productIds
+    ? Prisma.sql`AND a."productId" = ANY(${productIds}::text[])`
+    : Prisma.empty;
+
+  const rows = await prisma.$queryRaw`
+    WITH bought AS (
+      SELECT DISTINCT o."buyerId", oi."productId"
+      FROM "OrderItem" oi
+      JOIN "Order" o ON o."id" = oi."orderId"
+      WHERE o."paymentStatus" = 'SUCCESS'
+        AND o."createdAt" >= ${daysAgo(LOOKBACK_DAYS)}
+    ),
+    buyers AS (
+      SELECT "productId", COUNT(*) AS "count" FROM bought GROUP BY "productId"
+    ),
+    pairs AS (
+      SELECT a."productId", b."productId" AS "relatedId", COUNT(*) AS "shared"
+      FROM bought a
+      JOIN bought b ON b."buyerId" = a."buyerId" AND b."productId" <> a."productId"
+      WHERE TRUE ${seedFilter}
+      GROUP BY a."productId", b."productId"
+    ),
+    ranked AS (
+      SELECT pairs."productId", pairs."relatedId",
+        pairs."shared" / sqrt(ba."count" * bb."count") AS "similarity",
+        ROW_NUMBER() OVER (
+          PARTITION BY pairs."productId"
+          ORDER BY pairs."shared" / sqrt(ba."count" * bb."count") DESC
+        ) AS "rank"
+      FROM pairs
+      JOIN buyers ba ON ba."productId" = pairs."productId"
+      JOIN buyers bb ON bb."productId" = pairs."relatedId"
+    )
+    SELECT "productId", "relatedId", "similarity"::float8 AS "similarity"
+    FROM ranked
+    WHERE "rank" <= ${CO_PURCHASE_NEIGHBOURS}
+    ORDER BY "similarity" DESC
+  `;
+
+  const neighbours = new Map();
+  for (const row of rows) {
+    if (!neighbours.has(row.productId)) neighbours.set(row.productId, []);
+    neighbours.get(row.productId).push({ id: row.relatedId, similarity: Number(row.similarity) });
+  }
+  return neighbours;
+};
+
+/**
+ * Score products for one buyer from their affinity. Products bought with the ones they engaged
+ * with score through co-purchase; products sharing their favourite categories, tags and stores
+ * score through content similarity. Products they already bought, or sell, are never returned.
+ * @param {string} userId
+ * @param {Map|null} coPurchases - Preloaded neighbours from a job run; loaded on demand when null
+ * @returns {Promise<Array<{id: string, score: number, reason: string}>>} Best first
+ */
+const scoreRecommendations = async (userId, coPurchases = null) => {
+  const signals = await getUserSignals(userId);
+  const affinity = buildAffinity(signals);
+
+  if (affinity.products.size === 0 && affinity.stores.size === 0) return [];
+
+  const neighbours = coPurchases || await getCoPurchases([...affinity.products.keys()]);
+
+  // Item-to-item: every product engaged with lends its weight to what's bought alongside it
+  const coScores = new Map();
+  for (const [productId, weight] of affinity.products) {
+    for (const neighbour of neighbours.get(productId) || []) {
+      addTo(coScores, neighbour.id, weight * neighbour.similarity);
+    }
+  }
+
+  const topCategories = topKeys(affinity.categories, TOP_AFFINITIES);
+  const topTags = topKeys(affinity.tags, TOP_AFFINITIES);
+  const topStores = topKeys(affinity.stores, TOP_AFFINITIES);
+
+  const contentMatches = topCategories.map(category => ({
+    category: { equals: category, mode: 'insensitive' }
+  }));
+  if (topTags.length > 0) contentMatches.push({ tags: { hasSome: topTags } });
+  if (topStores.length > 0) contentMatches.push({ storeId: { in: topStores } });
+
+  const ownStore = await prisma.store.findUnique({ where: { userId }, select: { id: true } });
+
+  const candidates = await prisma.product.findMany({
+    where: {
+      isActive: true,
+      id: { notIn: [...signals.purchased] },
+      ...(ownStore && { storeId: { not: ownStore.id } }),
+      OR: [
+        { id: { in: [...coScores.keys()] } },
+        ...contentMatches
+      ]
+    },
+    select: {
+      id: true,
+      storeId: true,
+      category: true,
+      tags: true,
+      rating: true,
+      quantityBought: true
+    },
+    orderBy: { quantityBought: 'desc' },
+    take: CONTENT_CANDIDATE_LIMIT + coScores.size
+  });
+
+  const maxCo = maxValue(coScores);
+  const maxCategory = maxValue(affinity.categories);
+  const maxTag = maxValue(affinity.tags);
+  const maxStore = maxValue(affinity.stores);
+
+  const scored = candidates.map(product => {
+    const coPurchase = maxCo > 0 ? (coScores.get(product.id) || 0) / maxCo : 0;
+
+    const categoryMatch = maxCategory > 0
+      ? (affinity.categories.get(product.category?.toLowerCase()) || 0) / maxCategory
+      : 0;
+    const tagMatch = maxTag > 0 && product.tags.length > 0
+      ? Math.min(1, product.tags.reduce((sum, tag) => sum + (affinity.tags.get(tag.toLowerCase()) || 0), 0) / maxTag)
+      : 0;
+    const storeMatch = maxStore > 0 ? (affinity.stores.get(product.storeId) || 0) / maxStore : 0;
+    const content = (categoryMatch + tagMatch + storeMatch) / 3;
+
+    const popularity = Math.log1p(product.quantityBought) / 50 + (product.rating || 0) / 100;
+
+    return {
+      id: product.id,
+      score: Math.round((CO_PURCHASE_WEIGHT * coPurchase + CONTENT_WEIGHT * content + popularity) * 10000) / 10000,
+      reason: CO_PURCHASE_WEIGHT * coPurchase >= CONTENT_WEIGHT * content ? 'bought_together' : 'similar'
+    };
+  });
+
+  return scored
+    .filter(item => item.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, RECOMMENDATION_LIMIT);
+};
+
+/**
+ * Score a buyer's recommendations and store them in the cache
+ * @param {string} userId
+ * @param {Map|null} coPurchases
+ * @returns {Promise<Object>} { items, generatedAt }
+ */
+const refreshUserRecommendations = async (userId, coPurchases = null) => {
+  const result = {
+    items: await scoreRecommendations(userId, coPurchases),
+    generatedAt: new Date().toISOString()
+  };
+  await cache.set(recommendationCacheKey(userId), result, RECOMMENDATION_TTL_SECONDS);
+  return result;
+};
+
+/**
+ * A buyer's precomputed recommendations, scored on the spot if the job hasn't reached them yet
+ * @param {string} userId
+ * @returns {Promise<Object>} { items: [{ id, score, reason }], generatedAt }
+ */
+export const getUserRecommendations = async (userId) => {
+  const cached = await cache.get(recommendationCacheKey(userId));
+  if (cached) return cached;
+
+  return refreshUserRecommendations(userId);
+};
+
+/**
+ * Precompute recommendations for every buyer active in the last ACTIVE_USER_DAYS. Co-purchase
+ * neighbours are loaded once per run and shared by every buyer.
+ * @returns {Promise<{users: number, failed: number}>}
+ */
+export const refreshRecommendations = async () => {
+  const since = daysAgo(ACTIVE_USER_DAYS);
+
+  const activeUsers = await prisma.$queryRaw`
+    SELECT "userId" FROM "ProductLike" WHERE "createdAt" >= ${since}
+    UNION
+    SELECT "userId" FROM "StoreFollower" WHERE "createdAt" >= ${since}
+    UNION
+    SELECT "buyerId" FROM "Order" WHERE "createdAt" >= ${since}
+    UNION
+    SELECT "userId" FROM "ProductView" WHERE "userId" IS NOT NULL AND "viewedAt" >= ${since}
+    UNION
+    SELECT "userId" FROM "StoreView" WHERE "userId" IS NOT NULL AND "viewedAt" >= ${since}
+  `;
+
+  if (activeUsers.length === 0) return { users: 0, failed: 0 };
+
+  const coPurchases = await getCoPurchases();
+
+  let failed = 0;
+  for (const { userId } of activeUsers) {
+    try {
+      await refreshUserRecommendations(userId, coPurchases);
+    } catch (error) {
+      failed++;
+      console.error(`Error refreshing recommendations for user ${userId}:`, error);
+    }
+  }
+
+  return { users: activeUsers.length - failed, failed };
+};
@@ -0,0 +1,451 @@
+// utils/recoveryUtils.js
+import crypto from 'crypto';
+import prisma from '../config/prisma.js';
+import { sendNotification } from './sendnotification.js';
+import { sendEmailNotification } from './sendEmailNotification.js';
+
+export const RECOVERY_JOB = 'recovery-campaigns';
+
+// A cart counts as abandoned once nothing in it has changed for this long
+export const CART_IDLE_HOURS = parseInt(process.env.CART_RECOVERY_IDLE_HOURS) || 4;
+
+// Unpaid orders get their first reminder this long before their stock hold runs out. Orders whose
+// hold already lapsed between sweeps are still picked up.
+const UNPAID_REMINDER_LEAD_MINUTES = parseInt(process.env.UNPAID_ORDER_REMINDER_LEAD_MINUTES) || 10;
+
+// Hours after a campaign starts that each of its reminders goes out
+const REMINDER_SCHEDULE_HOURS = {
+  ABANDONED_CART: [0, 24, 72],
+  UNPAID_ORDER: [0, 24]
+};
+
+// A sale within this long of the last reminder is still credited to the campaign
+const ATTRIBUTION_WINDOW_HOURS = 72;
+
+const RECOVERY_COUPON_VALID_HOURS = 72;
+
+const hours = (value) => value * 60 * 60 * 1000;
+
+const roundAmount = (amount) => Math.round(amount * 100) / 100;
+
+// Money taken, or about to be taken in cash, for an order
+const isPaidOrder = (order) =>
+  order.paymentStatus === 'SUCCESS' ||
+  (order.paymentMethod === 'CASH_ON_DELIVERY' && !['CANCELLED', 'REFUNDED'].includes(order.status));
+
+/**
+ * Start campaigns for carts whose items from a recovery-enabled store have sat untouched
+ * for CART_IDLE_HOURS. A cart that already had a campaign since its last change is skipped.
+ * @returns {Promise<number>} Campaigns started
+ */
+const detectAbandonedCarts = async () => {
+  const idleSince = new Date(Date.now() - hours(CART_IDLE_HOURS));
+
+  const items = await prisma.cartItem.findMany({
+    where: { product: { store: { recoveryEnabled: true } } },
+    select: {
+      quantity: true,
+      updatedAt: true,
+      cart: { select: { userId: true } },
+      product: { select: { storeId: true, price: true } },
+      variant: { select: { price: true } }
+    }
+  });
+
+  const carts = new Map();
+  for (const item of items) {
+    const key = `${item.cart.userId}:${item.product.storeId}`;
+    const cart = carts.get(key) || {
+      userId: item.cart.userId,
+      storeId: item.product.storeId,
+      lastActivity: item.updatedAt,
+      value: 0
+    };
+
+    if (item.updatedAt > cart.lastActivity) cart.lastActivity = item.updatedAt;
+    cart.value += (item.variant?.price ?? item.product.price) * item.quantity;
+    carts.set(key, cart);
+  }
+
+  let started = 0;
+
+  for (const cart of carts.values()) {
+    if (cart.lastActivity > idleSince) continue;
+
+    const existing = await prisma.recoveryCampaign.findFirst({
+      where: {
+        type: 'ABANDONED_CART',
+        userId: cart.userId,
+        storeId: cart.storeId,
+        OR: [{ status: 'ACTIVE' }, { createdAt: { gte: cart.lastActivity } }]
+      },
+      select: { id: true }
+    });
+
+    if (existing) continue;
+
+    await prisma.recoveryCampaign.create({
+      data: {
+        type: 'ABANDONED_CART',
+        userId: cart.userId,
+        storeId: cart.storeId,
+        value: roundAmount(cart.value),
+        nextReminderAt: new Date()
+      }
+    });
+    started += 1;
+  }
+
+  return started;
+};
+
+/**
+ * Start campaigns for unpaid orders whose stock hold is about to run out
+ * @returns {Promise<number>} Campaigns started
+ */
+const detectUnpaidOrders = async () => {
+  const expiringBy = new Date(Date.now() + UNPAID_REMINDER_LEAD_MINUTES * 60 * 1000);
+
+  const orders = await prisma.order.findMany({
+    where: {
+      status: 'PENDING',
+      paymentStatus: 'PENDING',
+      deletedAt: null,
+      store: { recoveryEnabled: true },
+      stockReservations: { some: { status: { in: ['HELD', 'EXPIRED'] }, expiresAt: { lte: expiringBy } } }
+    },
+    select: { id: true, buyerId: true, storeId: true, totalAmount: true },
+    take: 500
+  });
+
+  if (orders.length === 0) return 0;
+
+  const existing = await prisma.recoveryCampaign.findMany({
+    where: { orderId: { in: orders.map(order => order.id) } },
+    select: { orderId: true }
+  });
+  const chased = new Set(existing.map(campaign => campaign.orderId));
+
+  const fresh = orders.filter(order => !chased.has(order.id));
+  if (fresh.length === 0) return 0;
+
+  const now = new Date();
+  await prisma.recoveryCampaign.createMany({
+    data: fresh.map(order => ({
+      type: 'UNPAID_ORDER',
+      userId: order.buyerId,
+      storeId: order.storeId,
+      orderId: order.id,
+      value: order.totalAmount,
+      nextReminderAt: now
+    }))
+  });
+
+  return fresh.length;
+};
+
+// The order that ends a campaign, and whether the campaign has nothing left to chase without one
+const findCampaignOutcome = async (campaign) => {
+  if (campaign.type === 'UNPAID_ORDER') {
+    const order = await prisma.order.findUnique({
+      where: { id: campaign.orderId },
+      select: { id: true, status: true, paymentStatus: true, paymentMethod: true, totalAmount: true, deletedAt: true }
+    });
+
+    if (order && isPaidOrder(order)) return { order };
+    return { abandoned: !order || order.deletedAt !== null || order.status !== 'PENDING' };
+  }
+
+  const orders = await prisma.order.findMany({
+    where: {
+      buyerId: campaign.userId,
+      storeId: campaign.storeId,
+      deletedAt: null,
+      createdAt: { gte: campaign.createdAt }
+    },
+    select: { id: true, status: true, paymentStatus: true, paymentMethod: true, totalAmount: true },
+    orderBy: { createdAt: 'asc' }
+  });
+
+  const order = orders.find(isPaidOrder);
+  if (order) return { order };
+
+  const itemsLeft = await prisma.cartItem.count({
+    where: { cart: { userId: campaign.userId }, product: { storeId: campaign.storeId } }
+  });
+
+  // An unpaid order placed from the cart is chased by its own campaign instead
+  return { abandoned: itemsLeft === 0 };
+};
+
+/**
+ * Settle active campaigns: credit sales made after a reminder, close the ones the buyer
+ * resolved on their own, and expire those whose attribution window has passed
+ * @returns {Promise<{recovered: number, closed: number, expired: number}>}
+ */
+const settleCampaigns = async () => {
+  const now = new Date();
+  const campaigns = await prisma.recoveryCampaign.findMany({
+    where: { status: 'ACTIVE' },
+    orderBy: { createdAt: 'asc' },
+    take: 500
+  });
+
+  const result = { recovered: 0, closed: 0, expired: 0 };
+
+  for (const campaign of campaigns) {
+    try {
+      const { order, abandoned } = await findCampaignOutcome(campaign);
+
+      if (order) {
+        const credited = campaign.remindersSent > 0;
+        await prisma.recoveryCampaign.update({
+          where: { id: campaign.id },
+          data: {
+            status: credited ? 'RECOVERED' : 'CLOSED',
+            recoveredOrderId: order.id,
+            recoveredAmount: credited ? order.totalAmount : null,
+            nextReminderAt: null,
+            closedAt: now
+          }
+        });
+        result[credited ? 'recovered' : 'closed'] += 1;
+        continue;
+      }
+
+      const windowClosed = campaign.nextReminderAt === null && campaign.lastReminderAt &&
+        campaign.lastReminderAt.getTime() + hours(ATTRIBUTION_WINDOW_HOURS) <= now.getTime();
+
+      if (abandoned || windowClosed) {
+        const status = campaign.remindersSent > 0 ? 'EXPIRED' : 'CLOSED';
+        await prisma.recoveryCampaign.update({
+          where: { id: campaign.id },
+          data: { status, nextReminderAt: null, closedAt: now }
+        });
+        result[status === 'EXPIRED' ? 'expired' : 'closed'] += 1;
+      }
+    } catch (error) {
+      console.error(`Error settling recovery campaign ${campaign.id}:`, error);
+    }
+  }
+
+  return result;
+};
+
+const describeCouponOffer = (type, value) => {
+  if (type === 'FREE_DELIVERY') return 'free delivery';
+  if (type === 'PERCENTAGE') return `${value}% off`;
+  return `GHS ${value.toFixed(2)} off`;
+};
+
+// Seller-funded, single-use coupon for the last cart reminder
+const createRecoveryCoupon = async (store) => {
+  const code = `COMEBACK-${crypto.randomBytes(4).toString('hex').toUpperCase()}`;
+
+  return prisma.coupon.create({
+    data: {
+      code,
+      scope: 'STORE',
+      storeId: store.id,
+      type: store.recoveryCouponType,
+      value: store.recoveryCouponValue || 0,
+      usageLimit: 1,
+      perUserLimit: 1,
+      description: 'Abandoned cart recovery offer',
+      expiresAt: new Date(Date.now() + hours(RECOVERY_COUPON_VALID_HOURS)),
+      createdBy: store.userId
+    }
+  });
+};
+
+const buildReminder = (campaign, store, step, isLast, coupon) => {
+  if (campaign.type === 'UNPAID_ORDER') {
+    return step === 0
+      ? {
+          title: 'Complete Your Payment',
+          message: `Your items from ${store.name} in order #${campaign.orderId} are reserved for a few more minutes. Pay now to keep them.`,
+          ctaText: 'Pay Now',
+          ctaUrl: `${process.env.FRONTEND_URL}/orders/unpaid`
+        }
+      : {
+          title: 'Your Order Is Still Unpaid',
+          message: `Order #${campaign.orderId} from ${store.name} is waiting for payment. Complete it before the items sell out.`,
+          ctaText: 'Pay Now',
+          ctaUrl: `${process.env.FRONTEND_URL}/orders/unpaid`
+        };
+  }
+
+  if (coupon) {
+    return {
+      title: 'A Little Something to Help You Decide',
+      message: `Your cart from ${store.name} is still waiting. Use code ${coupon.code} for ${describeCouponOffer(coupon.type, coupon.value)} in the next ${RECOVERY_COUPON_VALID_HOURS / 24} days.`,
+      ctaText: 'Back to Cart',
+      ctaUrl: `${process.env.FRONTEND_URL}/cart`
+    };
+  }
+
+  return {
+    title: isLast ? 'Last Chance for Your Cart' : 'You Left Something Behind',
+    message: isLast
+      ? `Items from ${store.name} are still in your cart, but they may not last. Check out before they sell out.`
+      : `You left items from ${store.name} in your cart. They're ready when you are.`,
+    ctaText: 'Back to Cart',
+    ctaUrl: `${process.env.FRONTEND_URL}/cart`
+  };
+};
+
+/**
+ * Send every reminder that is due and schedule the next one
+ * @returns {Promise<number>} Reminders sent
+ */
+const sendDueReminders = async () => {
+  const due = await prisma.recoveryCampaign.findMany({
+    where: { status: 'ACTIVE', nextReminderAt: { lte: new Date() } },
+    include: {
+      user: { select: { email: true, firstName: true } },
+      store: {
+        select: {
+          id: true,
+          name: true,
+          userId: true,
+          recoveryEnabled: true,
+          recoveryCouponType: true,
+          recoveryCouponValue: true
+        }
+      }
+    },
+    orderBy: { nextReminderAt: 'asc' },
+    take: 200
+  });
+
+  let sent = 0;
+
+  for (const campaign of due) {
+    // A seller who turned recovery off stops any reminders still queued
+    if (!campaign.store.recoveryEnabled) {
+      await prisma.recoveryCampaign.update({
+        where: { id: campaign.id },
+        data: { nextReminderAt: null }
+      });
+      continue;
+    }
+
+    try {
+      const schedule = REMINDER_SCHEDULE_HOURS[campaign.type];
+      const step = campaign.remindersSent;
+      const isLast = step === schedule.length - 1;
+
+      const coupon = isLast && campaign.type === 'ABANDONED_CART' && campaign.store.recoveryCouponType
+        ? await createRecoveryCoupon(campaign.store)
+        : null;
+
+      const reminder = buildReminder(campaign, campaign.store, step, isLast, coupon);
+
+      await sendNotification(
+        campaign.userId,
+        reminder.title,
+        reminder.message,
+        campaign.type === 'UNPAID_ORDER' ? 'ORDER_PAYMENT_REMINDER' : 'CART_REMINDER',
+        {
+          campaignId: campaign.id,
+          storeId: campaign.storeId,
+          ...(campaign.orderId && { orderId: campaign.orderId }),
+          ...(coupon && { couponCode: coupon.code })
+        }
+      );
+
+      await sendEmailNotification({
+        to: campaign.user.email,
+        toName: campaign.user.firstName,
+        subject: reminder.title,
+        template: 'generic',
+        templateData: {
+          title: reminder.title,
+          message: reminder.message,
+          ctaText: reminder.ctaText,
+          ctaUrl: reminder.ctaUrl
+        }
+      });
+
+      const nextStep = schedule[step + 1];
+      await prisma.recoveryCampaign.update({
+        where: { id: campaign.id },
+        data: {
+          remindersSent: { increment: 1 },
+          lastReminderAt: new Date(),
+          nextReminderAt: nextStep === undefined
+            ? null
+            : new Date(campaign.createdAt.getTime() + hours(nextStep)),
+          ...(coupon && { couponId: coupon.id })
+        }
+      });
+      sent += 1;
+    } catch (error) {
+      console.error(`Error sending recovery reminder for campaign ${campaign.id}:`, error);
+    }
+  }
+
+  return sent;
+};
+
+/**
+ * Run the recovery pipeline: settle campaigns first so nobody is reminded about something they
+ * already bought, then pick up new abandoned carts and unpaid orders and send what is due
+ * @returns {Promise<Object>}
+ */
+export const processRecoveryCampaigns = async () => {
+  const settled = await settleCampaigns();
+  const startedCarts = await detectAbandonedCarts();
+  const startedOrders = await detectUnpaidOrders();
+  const sent = await sendDueReminders();
+
+  return { ...settled, started: startedCarts + startedOrders, sent };
+};
+
+/**
+ * Recovery figures for a store's dashboard
+ * @param {string} storeId
+ * @returns {Promise<Object>}
+ */
+export const getStoreRecoveryStats = async (storeId) => {
+  const [byStatus, reminders, recoveredByType] = await Promise.all([
+    prisma.recoveryCampaign.groupBy({
+      by: ['status'],
+      where: { storeId },
+      _count: { _all: true }
+    }),
+    prisma.recoveryCampaign.aggregate({
+      where: { storeId },
+      _sum: { remindersSent: true }
+    }),
+    prisma.recoveryCampaign.groupBy({
+      by: ['type'],
+      where: { storeId, status: 'RECOVERED' },
+      _count: { _all: true },
+      _sum: { recoveredAmount: true }
+    })
+  ]);
+
+  const countFor = (status) => byStatus.find(row => row.status === status)?._count._all || 0;
+  const recoveredFor = (type) => {
+    const row = recoveredByType.find(entry => entry.type === type);
+    return {
+      orders: row?._count._all || 0,
+      revenue: roundAmount(row?._sum.recoveredAmount || 0)
+    };
+  };
+
+  const recovered = countFor('RECOVERED');
+  const reminded = recovered + countFor('EXPIRED');
+  const carts = recoveredFor('ABANDONED_CART');
+  const unpaidOrders = recoveredFor('UNPAID_ORDER');
+
+  return {
+    activeCampaigns: countFor('ACTIVE'),
+    remindersSent: reminders._sum.remindersSent || 0,
+    recoveredOrders: recovered,
+    recoveredRevenue: roundAmount(carts.revenue + unpaidOrders.revenue),
+    conversionRate: reminded > 0 ? Math.round((recovered / reminded) * 1000) / 10 : 0,
+    byType: { carts, unpaidOrders }
+  };
+};
@@ -2,15 +2,57 @@ import paystack from '../config/paystack.js';
 import prisma from '../config/prisma.js';
 import { sendEmailNotification } from '../utils/sendEmailNotification.js';
 import { sendNotification } from '../utils/sendnotification.js';
+import { ORDER_ACTORS, assertTransition, transitionOrder } from '../utils/orderLifecycleUtils.js';
 
 
+// Ask Paystack to refund part or all of a transaction
+export const createGatewayRefund = async ({ gatewayRef, amount, currency, reason }) => {
+  console.log(`Initiating refund for transaction ${gatewayRef}, amount: ${amount} ${currency}`);
+
+  const refundResponse = await paystack.refund.create({
+    transaction: gatewayRef,
+    amount: Math.round(amount * 100), // Convert to kobo
+    currency,
+    merchant_note: reason || 'Order refund'
+  });
+
+  if (!refundResponse.status || !refundResponse.data) {
+    throw new Error('Paystack refund request failed');
+  }
+
+  console.log(`Refund initiated successfully: ${refundResponse.data.transaction.reference}`);
+  return refundResponse.data;
+};
+
+const logFailedRefund = async ({ orderId, paymentId, amount, currency, reason, gatewayRef, disputeId }, error) => {
+  try {
+    await prisma.refundLog.create({
+      data: {
+        orderId,
+        paymentId,
+        amount,
+        currency,
+        reason,
+        gatewayRef,
+        disputeId,
+        status: 'FAILED',
+        errorMessage: error.message,
+        attemptedAt: new Date()
+      }
+    });
+  } catch (logError) {
+    console.error('Error logging failed refund:', logError);
+  }
+};
+
 export const processRefund = async ({
   orderId,
   paymentId,
   amount,
   currency,
   reason,
-  gatewayRef
+  gatewayRef,
+  disputeId = null
 }) => {
   try {
     // Validate required parameters
@@ -45,26 +87,17 @@ export const processRefund = async ({
       };
     }
 
-    // Validate refund amount doesn't exceed payment amount
-    if (amount > order.payment.amount) {
-      throw new Error(`Refund amount (${amount}) exceeds payment amount (${order.payment.amount})`);
+    // Validate refund amount doesn't exceed what is left of the payment
+    const alreadyRefunded = order.refundAmount || 0;
+    if (amount > order.payment.amount - alreadyRefunded + 0.01) {
+      throw new Error(`Refund amount (${amount}) exceeds the unrefunded payment amount (${order.payment.amount - alreadyRefunded})`);
     }
 
-    // Call Paystack refund API
-    console.log(`Initiating refund for transaction ${gatewayRef}, amount: ${amount} ${currency}`);
-    
-    const refundResponse = await paystack.refund.create({
-      transaction: gatewayRef,
-      amount: Math.round(amount * 100), // Convert to kobo
-      currency,
-      merchant_note: reason || 'Order refund'
-    });
+    // Check the order can be refunded before any money moves
+    assertTransition(order.status, 'REFUNDED', ORDER_ACTORS.SYSTEM);
 
-    if (!refundResponse.status || !refundResponse.data) {
-      throw new Error('Paystack refund request failed');
-    }
-
-    console.log(`Refund initiated successfully: ${refundResponse.data.transaction.reference}`);
+    // Call Paystack refund API
+    const refundData = await createGatewayRefund({ gatewayRef, amount, currency, reason });
 
     // Update Payment record
     await prisma.payment.update({
@@ -73,21 +106,40 @@ export const processRefund = async ({
         status: 'REFUNDED',
         metadata: {
           ...order.payment.metadata,
-          refund_data: refundResponse.data,
+          refund_data: refundData,
           refund_initiated_at: new Date().toISOString()
         }
       }
     });
 
+    // Paystack settles refunds asynchronously; refund.processed marks this row PROCESSED
+    await prisma.refundLog.create({
+      data: {
+        orderId,
+        paymentId,
+        amount,
+        currency,
+        reason,
+        gatewayRef,
+        disputeId,
+        status: 'INITIATED'
+      }
+    });
+
     // Update Order record
-    await prisma.order.update({
-      where: { id: orderId },
+    await transitionOrder(orderId, 'REFUNDED', {
+      actor: ORDER_ACTORS.SYSTEM,
+      reason: reason || 'Order refunded',
       data: {
         paymentStatus: 'REFUNDED',
-        refundAmount: amount,
-        refundReason: reason,
-        status: 'CANCELLED'
-      }
+        refundAmount: alreadyRefunded + amount,
+        refundReason: reason
+      },
+      notify: false,
+      onTransition: (tx) => tx.escrow.updateMany({
+        where: { orderId },
+        data: { refundedAmount: { increment: amount } }
+      })
     });
 
     // Send notifications to buyer
@@ -132,7 +184,7 @@ export const processRefund = async ({
 
     return {
       success: true,
-      refundData: refundResponse.data,
+      refundData,
       message: 'Refund processed successfully'
     };
 
@@ -140,23 +192,7 @@ export const processRefund = async ({
     console.error('Error processing refund:', error);
 
     // Log the failed refund attempt
-    try {
-      await prisma.refundLog.create({
-        data: {
-          orderId,
-          paymentId,
-          amount,
-          currency,
-          reason,
-          gatewayRef,
-          status: 'FAILED',
-          errorMessage: error.message,
-          attemptedAt: new Date()
-        }
-      });
-    } catch (logError) {
-      console.error('Error logging failed refund:', logError);
-    }
+    await logFailedRefund({ orderId, paymentId, amount, currency, reason, gatewayRef, disputeId }, error);
 
     return {
       success: false,
@@ -165,59 +201,183 @@ export const processRefund = async ({
   }
 };
 
+/**
+ * Mark a refund as settled once Paystack reports it processed
+ * @param {Object} data - refund.processed webhook data
+ */
+export const handleRefundProcessed = async (data) => {
+  const gatewayRef = data.transaction_reference || data.transaction?.reference;
+  if (!gatewayRef) {
+    throw new Error('Refund event has no transaction reference');
+  }
+
+  const amount = data.amount ? data.amount / 100 : null;
+
+  // Multi-store checkouts share one transaction, so prefer the pending refund for this amount
+  const pending = await prisma.refundLog.findMany({
+    where: { gatewayRef, status: 'INITIATED' },
+    orderBy: { attemptedAt: 'asc' }
+  });
+  const refundLog = pending.find(log => amount !== null && Math.abs(log.amount - amount) < 0.01) || pending[0];
+
+  if (refundLog) {
+    await prisma.refundLog.update({
+      where: { id: refundLog.id },
+      data: { status: 'PROCESSED', processedAt: new Date() }
+    });
+    return;
+  }
+
+  // Refunds started from the Paystack dashboard have no log row yet
+  const payment = await prisma.payment.findFirst({
+    where: { gatewayRef },
+    select: { id: true, orderId: true, amount: true, currency: true }
+  });
+
+  if (!payment) {
+    console.log(`Webhook: No payment found for refunded transaction ${gatewayRef}`);
+    return;
+  }
+
+  await prisma.refundLog.create({
+    data: {
+      orderId: payment.orderId,
+      paymentId: payment.id,
+      amount: amount ?? payment.amount,
+      currency: data.currency || payment.currency,
+      reason: data.merchant_note || null,
+      gatewayRef,
+      status: 'PROCESSED',
+      processedAt: new Date()
+    }
+  });
+};
+
+/**
+ * Refund part of an order's payment. The order keeps its status and the payment becomes
+ * PARTIALLY_REFUNDED; a refund that brings the total up to the full payment is handed to
+ * processRefund so the order is closed as REFUNDED.
+ */
 export const processPartialRefund = async ({
   orderId,
   paymentId,
   amount,
   currency,
   reason,
-  gatewayRef
+  gatewayRef,
+  disputeId = null
 }) => {
   try {
+    if (!orderId || !paymentId || !(amount > 0) || !gatewayRef) {
+      throw new Error('Missing required parameters for refund processing');
+    }
+
     // Fetch order to validate partial refund amount
     const order = await prisma.order.findUnique({
       where: { id: orderId },
-      include: { payment: true }
+      include: { payment: true, buyer: true }
     });
 
     if (!order) {
       throw new Error(`Order not found: ${orderId}`);
     }
 
+    if (order.paymentId !== paymentId) {
+      throw new Error('Payment ID does not match order payment');
+    }
+
+    if (!['SUCCESS', 'PARTIALLY_REFUNDED'].includes(order.payment.status)) {
+      throw new Error(`Payment cannot be refunded in status ${order.payment.status}`);
+    }
+
     // Check if partial refund is within limits
     const alreadyRefunded = order.refundAmount || 0;
-    const totalRefund = alreadyRefunded + amount;
+    const totalRefund = Math.round((alreadyRefunded + amount) * 100) / 100;
 
-    if (totalRefund > order.payment.amount) {
+    if (totalRefund > order.payment.amount + 0.01) {
       throw new Error(`Total refund amount (${totalRefund}) would exceed payment amount (${order.payment.amount})`);
     }
 
-    // Process the refund
-    const result = await processRefund({
-      orderId,
-      paymentId,
+    if (totalRefund >= order.payment.amount - 0.01) {
+      return processRefund({ orderId, paymentId, amount, currency, reason, gatewayRef, disputeId });
+    }
+
+    const refundData = await createGatewayRefund({
+      gatewayRef,
       amount,
       currency,
-      reason: `Partial refund: ${reason}`,
-      gatewayRef
+      reason: `Partial refund: ${reason}`
     });
 
-    if (result.success) {
-      // Update order with cumulative refund amount
-      await prisma.order.update({
+    await prisma.$transaction([
+      prisma.payment.update({
+        where: { id: paymentId },
+        data: {
+          status: 'PARTIALLY_REFUNDED',
+          metadata: {
+            ...order.payment.metadata,
+            refund_data: refundData,
+            refund_initiated_at: new Date().toISOString()
+          }
+        }
+      }),
+      prisma.refundLog.create({
+        data: {
+          orderId,
+          paymentId,
+          amount,
+          currency,
+          reason,
+          gatewayRef,
+          disputeId,
+          status: 'INITIATED'
+        }
+      }),
+      prisma.order.update({
         where: { id: orderId },
         data: {
           refundAmount: totalRefund,
-          // Don't mark as fully refunded if partial
-          paymentStatus: totalRefund >= order.payment.amount ? 'REFUNDED' : 'PARTIALLY_REFUNDED'
+          refundReason: reason,
+          paymentStatus: 'PARTIALLY_REFUNDED'
         }
-      });
-    }
+      }),
+      prisma.escrow.updateMany({
+        where: { orderId },
+        data: { refundedAmount: { increment: amount } }
+      })
+    ]);
+
+    await sendNotification(
+      order.buyerId,
+      'Partial Refund Processed',
+      `A refund of ${amount} ${currency} for order #${orderId} has been processed.`,
+      'payment_update',
+      { orderId }
+    );
+
+    await sendEmailNotification({
+      to: order.buyer.email,
+      toName: order.buyer.firstName,
+      subject: 'Partial Refund Processed',
+      template: 'generic',
+      templateData: {
+        title: 'Partial Refund Processed',
+        message: `A refund of ${amount} ${currency} for order #${orderId} has been processed. It should appear in your account within 5-10 business days.`
+      }
+    });
 
-    return result;
+    return {
+      success: true,
+      refundData,
+      totalRefunded: totalRefund,
+      message: 'Partial refund processed successfully'
+    };
 
   } catch (error) {
     console.error('Error processing partial refund:', error);
+
+    await logFailedRefund({ orderId, paymentId, amount, currency, reason, gatewayRef, disputeId }, error);
+
     return {
       success: false,
       error: error.message
@@ -0,0 +1,167 @@
+// utils/searchUtils.js
+import prisma from '../config/prisma.js';
+
+export const SEARCH_TERMS_REFRESH_JOB = 'search-terms-refresh';
+
+// Most ranked matches a search considers before filters and pagination are applied
+export const SEARCH_CANDIDATE_LIMIT = parseInt(process.env.SEARCH_CANDIDATE_LIMIT) || 500;
+
+// Wraps matched words in highlighted names and snippets
+export const HIGHLIGHT_START = '<mark>';
+export const HIGHLIGHT_END = '</mark>';
+
+const HEADLINE_OPTIONS = `StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_END}`;
+
+const normalizeSearch = (search) => String(search || '').trim().replace(/\s+/g, ' ').slice(0, 100);
+
+// Escape LIKE wildcards so a typed % or _ matches literally
+const escapeLike = (value) => value.replace(/[\\%_]/g, (char) => `\\${char}`);
+
+/**
+ * Rank active products against a search. Matches come from full-text search over name, tags,
+ * category and description, plus trigram similarity on product and store names so misspellings
+ * like "snekers" still find "sneakers". The text score is boosted by rating and units sold.
+ * @param {string} search
+ * @returns {Promise<Array<{id: string, score: number}>>} Best match first
+ */
+export const searchProducts = async (search) => {
+  const query = normalizeSearch(search);
+  if (!query) return [];
+
+  const rows = await prisma.$queryRaw`
+    WITH query AS (SELECT websearch_to_tsquery('english', ${query}) AS tsq)
+    SELECT p."id",
+      (
+        ts_rank_cd(p."searchVector", query.tsq, 32)
+        + ts_rank_cd(to_tsvector('simple', s."name"), query.tsq, 32) * 0.5
+        + GREATEST(word_similarity(${query}, p."name"), word_similarity(${query}, s."name") * 0.5) * 0.5
+      )
+      * (1 + COALESCE(p."rating", 0) / 10.0)
+      * (1 + ln(1 + p."quantityBought") / 10.0) AS "score"
+    FROM "Product" p
+    JOIN "Store" s ON s."id" = p."storeId"
+    CROSS JOIN query
+    WHERE p."isActive" = true
+      AND (
+        p."searchVector" @@ query.tsq
+        OR ${query} <% p."name"
+        OR ${query} <% s."name"
+        OR to_tsvector('simple', s."name") @@ query.tsq
+      )
+    ORDER BY "score" DESC
+    LIMIT ${SEARCH_CANDIDATE_LIMIT}
+  `;
+
+  return rows.map(row => ({ id: row.id, score: Number(row.score) }));
+};
+
+/**
+ * Product names and description snippets with the searched words highlighted
+ * @param {string[]} productIds
+ * @param {string} search
+ * @returns {Promise<Object>} Map of product id to { name, description }
+ */
+export const getSearchHighlights = async (productIds, search) => {
+  const query = normalizeSearch(search);
+  if (!query || productIds.length === 0) return {};
+
+  const rows = await prisma.$queryRaw`
+    WITH query AS (SELECT websearch_to_tsquery('english', ${query}) AS tsq)
+    SELECT p."id",
+      ts_headline('english', p."name", query.tsq, ${`${HEADLINE_OPTIONS}, HighlightAll=true`}) AS "name",
+      ts_headline('english', COALESCE(p."description", ''), query.tsq,
+        ${`${HEADLINE_OPTIONS}, MinWords=10, MaxWords=25, MaxFragments=2, FragmentDelimiter=" … "`}) AS "description"
+    FROM "Product" p
+    CROSS JOIN query
+    WHERE p."id" = ANY(${productIds})
+  `;
+
+  return Object.fromEntries(
+    rows.map(row => [row.id, { name: row.name, description: row.description || null }])
+  );
+};
+
+/**
+ * "Did you mean" suggestion: each word of the search that isn't a known product term is swapped
+ * for the closest one that is
+ * @param {string} search
+ * @returns {Promise<string|null>} null when every word is already known
+ */
+export const getSearchSuggestion = async (search) => {
+  const words = normalizeSearch(search).toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+  let changed = false;
+
+  const corrected = [];
+  for (const word of words) {
+    if (word.length < 3) {
+      corrected.push(word);
+      continue;
+    }
+
+    const [match] = await prisma.$queryRaw`
+      SELECT "term", similarity("term", ${word}) AS "similarity"
+      FROM "ProductSearchTerm"
+      WHERE "term" % ${word}
+      ORDER BY "similarity" DESC, "productCount" DESC
+      LIMIT 1
+    `;
+
+    if (match && match.term !== word) {
+      corrected.push(match.term);
+      changed = true;
+    } else {
+      corrected.push(word);
+    }
+  }
+
+  return changed ? corrected.join(' ') : null;
+};
+
+/**
+ * Suggestions while the buyer types: product names that start with or closely match the text,
+ * and common product terms that complete it
+ * @param {string} prefix
+ * @param {number} limit - Most product suggestions returned
+ * @returns {Promise<{products: Object[], terms: string[]}>}
+ */
+export const getSearchAutocomplete = async (prefix, limit = 6) => {
+  const query = normalizeSearch(prefix);
+  if (query.length < 2) return { products: [], terms: [] };
+
+  const startsWith = `${escapeLike(query)}%`;
+  const wordStartsWith = `% ${escapeLike(query)}%`;
+
+  const [products, terms] = await Promise.all([
+    prisma.$queryRaw`
+      SELECT p."name", p."url", p."images"[1] AS "image", p."price"
+      FROM "Product" p
+      WHERE p."isActive" = true
+        AND (p."name" ILIKE ${startsWith} OR p."name" ILIKE ${wordStartsWith} OR ${query} <% p."name")
+      ORDER BY (p."name" ILIKE ${startsWith}) DESC,
+        word_similarity(${query}, p."name") DESC,
+        p."quantityBought" DESC
+      LIMIT ${limit}
+    `,
+    prisma.$queryRaw`
+      SELECT "term"
+      FROM "ProductSearchTerm"
+      WHERE "term" LIKE ${startsWith.toLowerCase()}
+      ORDER BY "productCount" DESC
+      LIMIT 5
+    `
+  ]);
+
+  return {
+    products: products.map(product => ({ ...product, price: Number(product.price) })),
+    terms: terms.map(row => row.term)
+  };
+};
+
+/**
+ * Rebuild the product terms behind suggestions and autocomplete
+ * @returns {Promise<{refreshed: boolean}>}
+ */
+export const refreshSearchTerms = async () => {
+  await prisma.$executeRaw`REFRESH MATERIALIZED VIEW CONCURRENTLY "ProductSearchTerm"`;
+  return { refreshed: true };
+};
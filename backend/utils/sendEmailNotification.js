@@ -300,6 +300,35 @@ const templates = {
     return baseTemplate(content, 'Reset your Zuba password');
   },
 
+  password_reset_code: ({ toName, code, expiryMinutes }) => {
+    const content = `
+      <h2 style="color: ${BRAND_COLORS.primary}; margin: 0 0 20px 0; font-size: 24px;">
+        Reset Your Password 🔐
+      </h2>
+      <p style="font-size: 16px; line-height: 1.6; margin-bottom: 15px;">
+        Hi <strong>${toName}</strong>,
+      </p>
+      <p style="font-size: 16px; line-height: 1.6; margin-bottom: 20px;">
+        We received a request to reset your password. Enter the code below in the app to choose a new password.
+      </p>
+      <div style="text-align: center; margin: 30px 0;">
+        <span style="display: inline-block; font-size: 28px; font-weight: bold; background-color: ${BRAND_COLORS.background}; color: ${BRAND_COLORS.text}; padding: 12px 24px; border-radius: 6px; letter-spacing: 6px;">
+          ${code}
+        </span>
+      </div>
+      <div style="background-color: #FEF3C7; border-left: 4px solid ${BRAND_COLORS.warning}; padding: 15px; margin-top: 25px;">
+        <p style="margin: 0; font-size: 14px; color: ${BRAND_COLORS.text};">
+          ⏰ This code will expire in <strong>${expiryMinutes || 15} minutes</strong>.<br>
+          If you didn't request this, please ignore this email. Your password won't change.
+        </p>
+      </div>
+      <p style="font-size: 14px; color: ${BRAND_COLORS.textLight}; margin-top: 20px;">
+        For security reasons, never share this code with anyone.
+      </p>
+    `;
+    return baseTemplate(content, `Your Zuba password reset code is ${code}`);
+  },
+
   new_follower: ({ toName, followerName, followerUsername, profileUrl }) => {
     const content = `
       <h2 style="color: ${BRAND_COLORS.primary}; margin: 0 0 20px 0; font-size: 24px;">
@@ -0,0 +1,285 @@
+// utils/tokenUtils.js
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import prisma from '../config/prisma.js';
+import { cache } from '../config/redis.js';
+import { getSocketIO } from '../services/socketService.js';
+
+const TOKENS_VALID_AFTER_TTL = 60 * 60; // 1 hour
+
+// Access tokens are short-lived; the refresh token keeps the device signed in
+export const ACCESS_TOKEN_TTL_SECONDS = parseInt(process.env.ACCESS_TOKEN_TTL_SECONDS) || 15 * 60;
+const REFRESH_TOKEN_TTL_DAYS = parseInt(process.env.REFRESH_TOKEN_TTL_DAYS) || 30;
+
+const tokensValidAfterKey = (userId) => `user:${userId}:tokens-valid-after`;
+const revokedSessionKey = (sessionId) => `session:${sessionId}:revoked`;
+
+export const sessionRoom = (sessionId) => `session:${sessionId}`;
+
+/**
+ * Get the moment (ms since epoch) before which a user's tokens are no longer accepted.
+ * Cached so the auth middleware doesn't hit the database on every request.
+ * @param {string} userId
+ * @returns {Promise<number>} - 0 if the user never reset their password
+ */
+export const getTokensValidAfter = async (userId) => {
+  const cached = await cache.get(tokensValidAfterKey(userId));
+  if (cached !== null) {
+    return cached;
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { passwordChangedAt: true }
+  });
+
+  const validAfter = user?.passwordChangedAt ? user.passwordChangedAt.getTime() : 0;
+  await cache.set(tokensValidAfterKey(userId), validAfter, TOKENS_VALID_AFTER_TTL);
+
+  return validAfter;
+};
+
+/**
+ * Reject every token issued before now for this user (e.g. after a password reset)
+ * @param {string} userId
+ * @param {Date} changedAt
+ */
+export const revokeTokensIssuedBefore = async (userId, changedAt) => {
+  await cache.set(tokensValidAfterKey(userId), changedAt.getTime(), TOKENS_VALID_AFTER_TTL);
+};
+
+/**
+ * Check a decoded JWT against its session and the user's password change time
+ * @param {Object} decoded - Verified JWT payload ({ userId, iat, ... })
+ * @returns {Promise<boolean>}
+ */
+export const isTokenRevoked = async (decoded) => {
+  if (!decoded?.userId || !decoded.iat) {
+    return false;
+  }
+
+  // The revoked marker outlives any access token issued for the session
+  if (decoded.sessionId && await cache.exists(revokedSessionKey(decoded.sessionId))) {
+    return true;
+  }
+
+  const validAfter = await getTokensValidAfter(decoded.userId);
+  // JWT iat has second precision
+  return decoded.iat < Math.floor(validAfter / 1000);
+};
+
+const hashToken = (token) => crypto.createHash('sha256').update(token).digest('hex');
+
+const generateRefreshToken = () => crypto.randomBytes(48).toString('hex');
+
+const getRefreshExpiry = () => new Date(Date.now() + REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000);
+
+/**
+ * Sign a short-lived access token bound to a session
+ * @param {Object} user - { id, email, role }
+ * @param {string} sessionId
+ * @returns {string}
+ */
+export const signAccessToken = (user, sessionId) => jwt.sign(
+  {
+    userId: user.id,
+    email: user.email,
+    role: user.role,
+    sessionId,
+  },
+  process.env.JWT_SECRET,
+  {
+    expiresIn: ACCESS_TOKEN_TTL_SECONDS,
+  }
+);
+
+/**
+ * Start a session for a freshly authenticated user
+ * @param {Object} user - { id, email, role }
+ * @param {Object} device - { deviceName, userAgent, ipAddress }
+ * @returns {Promise<{accessToken: string, refreshToken: string, session: Object}>}
+ */
+export const createSession = async (user, { deviceName, userAgent, ipAddress } = {}) => {
+  const refreshToken = generateRefreshToken();
+
+  const session = await prisma.session.create({
+    data: {
+      userId: user.id,
+      refreshTokenHash: hashToken(refreshToken),
+      deviceName: deviceName || null,
+      userAgent: userAgent || null,
+      ipAddress: ipAddress || null,
+      expiresAt: getRefreshExpiry(),
+    },
+  });
+
+  return {
+    accessToken: signAccessToken(user, session.id),
+    refreshToken,
+    session,
+  };
+};
+
+/**
+ * Swap a refresh token for a new access/refresh pair.
+ * A refresh token that was already rotated is treated as stolen and ends the session.
+ * @param {string} refreshToken
+ * @param {Object} device - { userAgent, ipAddress }
+ * @returns {Promise<{success: boolean, accessToken?: string, refreshToken?: string, session?: Object, status?: number, message?: string}>}
+ */
+export const rotateRefreshToken = async (refreshToken, { userAgent, ipAddress } = {}) => {
+  const tokenHash = hashToken(refreshToken);
+
+  const session = await prisma.session.findUnique({
+    where: { refreshTokenHash: tokenHash },
+    include: {
+      user: {
+        select: { id: true, email: true, role: true, isSuspended: true },
+      },
+    },
+  });
+
+  if (!session) {
+    const reusedSession = await prisma.session.findUnique({
+      where: { previousTokenHash: tokenHash },
+    });
+
+    if (reusedSession) {
+      console.warn(`Refresh token reuse detected for session ${reusedSession.id}`);
+      await revokeSession(reusedSession.id, 'TOKEN_REUSE');
+    }
+
+    return { success: false, status: 401, message: 'Invalid refresh token' };
+  }
+
+  if (session.revokedAt || session.expiresAt < new Date()) {
+    return { success: false, status: 401, message: 'Session has expired. Please log in again.' };
+  }
+
+  if (session.user.isSuspended) {
+    await revokeSession(session.id, 'REVOKED');
+    return { success: false, status: 403, message: 'Your account has been suspended' };
+  }
+
+  const nextRefreshToken = generateRefreshToken();
+
+  // Conditional on the current hash so two racing refreshes can't both win
+  const rotated = await prisma.session.updateMany({
+    where: { id: session.id, refreshTokenHash: tokenHash, revokedAt: null },
+    data: {
+      refreshTokenHash: hashToken(nextRefreshToken),
+      previousTokenHash: tokenHash,
+      lastUsedAt: new Date(),
+      expiresAt: getRefreshExpiry(),
+      ...(userAgent && { userAgent }),
+      ...(ipAddress && { ipAddress }),
+    },
+  });
+
+  if (rotated.count === 0) {
+    return { success: false, status: 401, message: 'Invalid refresh token' };
+  }
+
+  return {
+    success: true,
+    accessToken: signAccessToken(session.user, session.id),
+    refreshToken: nextRefreshToken,
+    session,
+  };
+};
+
+/**
+ * Find the live session a refresh token belongs to
+ * @param {string} refreshToken
+ * @returns {Promise<Object|null>}
+ */
+export const findSessionByRefreshToken = (refreshToken) => prisma.session.findFirst({
+  where: {
+    refreshTokenHash: hashToken(refreshToken),
+    revokedAt: null,
+  },
+});
+
+// Mark sessions revoked in Redis (for access tokens) and drop their live sockets
+const markSessionsRevoked = async (sessionIds) => {
+  const io = getSocketIO();
+
+  for (const sessionId of sessionIds) {
+    await cache.set(revokedSessionKey(sessionId), true, ACCESS_TOKEN_TTL_SECONDS);
+    io?.in(sessionRoom(sessionId)).disconnectSockets(true);
+  }
+};
+
+/**
+ * End a single session
+ * @param {string} sessionId
+ * @param {string} reason - LOGOUT | REVOKED | PASSWORD_RESET | TOKEN_REUSE
+ */
+export const revokeSession = async (sessionId, reason = 'REVOKED') => {
+  await prisma.session.updateMany({
+    where: { id: sessionId, revokedAt: null },
+    data: {
+      revokedAt: new Date(),
+      revokedReason: reason,
+    },
+  });
+
+  await markSessionsRevoked([sessionId]);
+};
+
+/**
+ * End every session a user has, optionally keeping the current one
+ * @param {string} userId
+ * @param {string} reason
+ * @param {string} exceptSessionId
+ * @returns {Promise<number>} - Number of sessions revoked
+ */
+export const revokeUserSessions = async (userId, reason = 'REVOKED', exceptSessionId = null) => {
+  const sessions = await prisma.session.findMany({
+    where: {
+      userId,
+      revokedAt: null,
+      ...(exceptSessionId && { id: { not: exceptSessionId } }),
+    },
+    select: { id: true },
+  });
+
+  if (sessions.length === 0) {
+    return 0;
+  }
+
+  const sessionIds = sessions.map(session => session.id);
+
+  await prisma.session.updateMany({
+    where: { id: { in: sessionIds } },
+    data: {
+      revokedAt: new Date(),
+      revokedReason: reason,
+    },
+  });
+
+  await markSessionsRevoked(sessionIds);
+
+  return sessionIds.length;
+};
+
+export const SESSION_CLEANUP_JOB = 'session-cleanup';
+
+/**
+ * Delete sessions that expired or were revoked more than a week ago
+ * @returns {Promise<{deleted: number}>}
+ */
+export const purgeStaleSessions = async () => {
+  const cutoff = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000);
+
+  const { count } = await prisma.session.deleteMany({
+    where: {
+      OR: [
+        { expiresAt: { lt: cutoff } },
+        { revokedAt: { lt: cutoff } },
+      ],
+    },
+  });
+
+  return { deleted: count };
+};
@@ -25,7 +25,8 @@ export const transferFundsToSeller = async ({
   currency,
   recipientCode,
   orderId,
-  reason
+  reason,
+  reference
 }) => {
   try {
     // Validate required parameters
@@ -45,7 +46,9 @@ export const transferFundsToSeller = async ({
       recipient: recipientCode,
       reason: reason || `Payment for order #${orderId}`,
       currency: currency || 'GHS',
-      reference: `transfer_${orderId}_${Date.now()}`
+      // Paystack refuses a second transfer with a reference it has already seen, so callers that
+      // may retry a payout must pass the same reference on every attempt
+      reference: reference || `transfer_${orderId}_${Date.now()}`
     });
 
     if (!transferResponse.status || !transferResponse.data) {
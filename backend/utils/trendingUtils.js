@@ -0,0 +1,209 @@
+// utils/trendingUtils.js
+import prisma from '../config/prisma.js';
+import { cache } from '../config/redis.js';
+
+export const TRENDING_JOB = 'trending-refresh';
+
+// How much one event of each type adds to a score before decay; purchases count per unit
+const EVENT_WEIGHTS = {
+  VIEW: 1,
+  LIKE: 3,
+  ADD_TO_CART: 4,
+  PURCHASE: 8
+};
+
+// An event counts half as much after this long, so a burst of recent activity beats a slow
+// trickle and an old bestseller only trends while it keeps selling
+const HALF_LIFE_HOURS = parseFloat(process.env.TRENDING_HALF_LIFE_HOURS) || 48;
+
+// Events older than this have decayed to almost nothing and are left out of scores
+export const TRENDING_WINDOW_DAYS = parseInt(process.env.TRENDING_WINDOW_DAYS) || 14;
+
+// Events are kept this long for reporting, then deleted by the refresh job
+const EVENT_RETENTION_DAYS = parseInt(process.env.PRODUCT_EVENT_RETENTION_DAYS) || 180;
+
+const daysAgo = (days) => new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+
+const trendingStoreSelect = {
+  id: true,
+  name: true,
+  url: true,
+  logo: true,
+  region: true,
+  location: true
+};
+
+/**
+ * Record a buyer action on a product for trending
+ * @param {Object} db - Prisma client or transaction client
+ * @param {Object} event - { type, productId, storeId, userId?, quantity? }
+ * @returns {Promise<Object>}
+ */
+export const recordProductEvent = (db, { type, productId, storeId, userId = null, quantity = 1 }) =>
+  db.productEvent.create({
+    data: { type, productId, storeId, userId, quantity }
+  });
+
+/**
+ * Rebuild every product and store trending score from the events in the window, then delete
+ * events past retention. Scores are swapped in one transaction so readers never see a half-built
+ * ranking.
+ * @returns {Promise<{products: number, stores: number, pruned: number}>}
+ */
+export const refreshTrendingScores = async () => {
+  const now = new Date();
+
+  const [, products, , stores, pruned] = await prisma.$transaction([
+    prisma.$executeRaw`DELETE FROM "ProductTrendingScore"`,
+    prisma.$executeRaw`
+      WITH decayed AS (
+        SELECT e."productId", e."type",
+          CASE WHEN e."type" = 'PURCHASE' THEN e."quantity" ELSE 1 END AS "units",
+          -- 1 when the event just happened, 0.5 one half-life later
+          exp(-ln(2) * EXTRACT(EPOCH FROM ((${now}::timestamptz AT TIME ZONE 'UTC') - e."createdAt"))
+            / 3600 / ${HALF_LIFE_HOURS}::float8) AS "weight"
+        FROM "ProductEvent" e
+        WHERE e."createdAt" >= ${daysAgo(TRENDING_WINDOW_DAYS)}
+      ),
+      components AS (
+        SELECT "productId",
+          COALESCE(SUM("units" * "weight") FILTER (WHERE "type" = 'VIEW'), 0) * ${EVENT_WEIGHTS.VIEW}::float8 AS "viewScore",
+          COALESCE(SUM("units" * "weight") FILTER (WHERE "type" = 'LIKE'), 0) * ${EVENT_WEIGHTS.LIKE}::float8 AS "likeScore",
+          COALESCE(SUM("units" * "weight") FILTER (WHERE "type" = 'ADD_TO_CART'), 0) * ${EVENT_WEIGHTS.ADD_TO_CART}::float8 AS "cartScore",
+          COALESCE(SUM("units" * "weight") FILTER (WHERE "type" = 'PURCHASE'), 0) * ${EVENT_WEIGHTS.PURCHASE}::float8 AS "purchaseScore",
+          COUNT(*) FILTER (WHERE "type" = 'VIEW')::int AS "views",
+          COUNT(*) FILTER (WHERE "type" = 'LIKE')::int AS "likes",
+          COUNT(*) FILTER (WHERE "type" = 'ADD_TO_CART')::int AS "carts",
+          COALESCE(SUM("units") FILTER (WHERE "type" = 'PURCHASE'), 0)::int AS "purchases"
+        FROM decayed
+        GROUP BY "productId"
+      )
+      INSERT INTO "ProductTrendingScore" (
+        "productId", "storeId", "category", "region", "score",
+        "viewScore", "likeScore", "cartScore", "purchaseScore",
+        "views", "likes", "carts", "purchases", "computedAt"
+      )
+      SELECT c."productId", p."storeId", p."category", s."region",
+        c."viewScore" + c."likeScore" + c."cartScore" + c."purchaseScore",
+        c."viewScore", c."likeScore", c."cartScore", c."purchaseScore",
+        c."views", c."likes", c."carts", c."purchases", ${now}
+      FROM components c
+      JOIN "Product" p ON p."id" = c."productId"
+      JOIN "Store" s ON s."id" = p."storeId"
+      WHERE p."isActive" = true AND s."isActive" = true
+    `,
+    prisma.$executeRaw`DELETE FROM "StoreTrendingScore"`,
+    prisma.$executeRaw`
+      INSERT INTO "StoreTrendingScore" (
+        "storeId", "region", "score",
+        "viewScore", "likeScore", "cartScore", "purchaseScore",
+        "views", "likes", "carts", "purchases", "computedAt"
+      )
+      SELECT "storeId", MIN("region"), SUM("score"),
+        SUM("viewScore"), SUM("likeScore"), SUM("cartScore"), SUM("purchaseScore"),
+        SUM("views")::int, SUM("likes")::int, SUM("carts")::int, SUM("purchases")::int, ${now}
+      FROM "ProductTrendingScore"
+      GROUP BY "storeId"
+    `,
+    prisma.productEvent.deleteMany({
+      where: { createdAt: { lt: daysAgo(EVENT_RETENTION_DAYS) } }
+    })
+  ]);
+
+  await cache.delPattern('products:trending:*');
+  await cache.delPattern('stores:trending:*');
+
+  return { products, stores, pruned: pruned.count };
+};
+
+// Filters shared by the product rankings; category matches the way the marketplace filter does
+const productRankingWhere = ({ category, region }) => ({
+  score: { gt: 0 },
+  product: { isActive: true },
+  ...(category && { category: { contains: category, mode: 'insensitive' } }),
+  ...(region && { region })
+});
+
+/**
+ * Products ranked by trending score, optionally within one region or category
+ * @param {Object} options - { limit, category?, region? }
+ * @returns {Promise<Object[]>} Products with their trendingScore, hottest first
+ */
+export const getTrendingProductRanking = async ({ limit, category, region }) => {
+  const scores = await prisma.productTrendingScore.findMany({
+    where: productRankingWhere({ category, region }),
+    orderBy: { score: 'desc' },
+    take: limit,
+    include: {
+      product: {
+        include: {
+          store: { select: trendingStoreSelect }
+        }
+      }
+    }
+  });
+
+  return scores.map(({ product, score }) => ({ ...product, trendingScore: score }));
+};
+
+/**
+ * Stores ranked by the combined trending score of their products
+ * @param {Object} options - { limit, region? }
+ * @returns {Promise<Object[]>} Stores with their trendingScore, hottest first
+ */
+export const getTrendingStoreRanking = async ({ limit, region }) => {
+  const scores = await prisma.storeTrendingScore.findMany({
+    where: {
+      score: { gt: 0 },
+      store: { isActive: true },
+      ...(region && { region })
+    },
+    orderBy: { score: 'desc' },
+    take: limit,
+    include: {
+      store: {
+        select: {
+          ...trendingStoreSelect,
+          description: true,
+          viewCount: true
+        }
+      }
+    }
+  });
+
+  return scores.map(({ store, score }) => ({ ...store, trendingScore: score }));
+};
+
+/**
+ * Full score breakdown behind a ranking, for admins checking why something trends
+ * @param {Object} options - { type: 'product'|'store', limit, category?, region? }
+ * @returns {Promise<Object>}
+ */
+export const getTrendingBreakdown = async ({ type, limit, category, region }) => {
+  const rows = type === 'store'
+    ? await prisma.storeTrendingScore.findMany({
+        where: { ...(region && { region }) },
+        orderBy: { score: 'desc' },
+        take: limit,
+        include: { store: { select: { id: true, name: true, url: true, isActive: true } } }
+      })
+    : await prisma.productTrendingScore.findMany({
+        where: {
+          ...(category && { category: { contains: category, mode: 'insensitive' } }),
+          ...(region && { region })
+        },
+        orderBy: { score: 'desc' },
+        take: limit,
+        include: { product: { select: { id: true, name: true, url: true, isActive: true } } }
+      });
+
+  return {
+    rankings: rows.map((row, index) => ({ rank: index + 1, ...row })),
+    computedAt: rows[0]?.computedAt || null,
+    settings: {
+      weights: EVENT_WEIGHTS,
+      halfLifeHours: HALF_LIFE_HOURS,
+      windowDays: TRENDING_WINDOW_DAYS
+    }
+  };
+};
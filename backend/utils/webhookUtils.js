@@ -0,0 +1,42 @@
+// utils/webhookUtils.js
+import crypto from 'crypto';
+
+/**
+ * Check a Paystack signature against the exact bytes that were delivered.
+ * Re-serialising the parsed body can reorder or re-escape fields, so only the raw body is trusted.
+ * @param {Buffer|string} rawBody
+ * @param {string} signature - Value of the x-paystack-signature header
+ * @returns {boolean}
+ */
+export const verifyPaystackSignature = (rawBody, signature) => {
+  if (!rawBody || !signature || !process.env.PAYSTACK_SECRET_KEY) return false;
+
+  const expected = crypto
+    .createHmac('sha512', process.env.PAYSTACK_SECRET_KEY)
+    .update(rawBody)
+    .digest('hex');
+
+  const expectedBuffer = Buffer.from(expected, 'utf8');
+  const signatureBuffer = Buffer.from(String(signature), 'utf8');
+
+  return expectedBuffer.length === signatureBuffer.length &&
+    crypto.timingSafeEqual(expectedBuffer, signatureBuffer);
+};
+
+/**
+ * The gateway reference an event is about: the transaction for charges and refunds,
+ * the transfer reference for payouts
+ * @param {Object} data - Event data
+ * @returns {string|null}
+ */
+export const getWebhookReference = (data = {}) =>
+  data.reference || data.transaction_reference || data.transfer_code || null;
+
+/**
+ * Key that identifies one logical event, so retried deliveries of it collapse into a single row
+ * @param {string} event - e.g. charge.success
+ * @param {Object} data - Event data
+ * @returns {string}
+ */
+export const buildWebhookEventKey = (event, data = {}) =>
+  `paystack:${event}:${data.id ?? ''}:${getWebhookReference(data) ?? ''}`;
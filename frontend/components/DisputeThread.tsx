@@ -0,0 +1,448 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  Image,
+  Linking,
+  ActivityIndicator,
+  Alert,
+  StyleSheet,
+} from 'react-native';
+import * as ImagePicker from 'expo-image-picker';
+import { Ionicons } from '@expo/vector-icons';
+import { Colors } from '../constants/colors';
+import {
+  DisputeEvidence,
+  DisputeMediaFile,
+  DisputeMessage,
+  DisputeParty,
+  DisputeStatus,
+  isDisputeOpen,
+} from '../hooks/useDisputes';
+
+const MAX_ATTACHMENTS = 5;
+
+interface DisputeThreadProps {
+  messages: DisputeMessage[];
+  currentUserId?: string;
+  status: DisputeStatus;
+  deadlineAt?: string | null;
+  sellerRespondedAt?: string | null;
+  // Omit to show the thread read-only
+  onSend?: (message: string, media: DisputeMediaFile[]) => Promise<boolean>;
+}
+
+const PARTY_LABELS: Record<DisputeParty, string> = {
+  BUYER: 'Buyer',
+  SELLER: 'Seller',
+  ADMIN: 'Support',
+  SYSTEM: 'System',
+};
+
+// Who the dispute is waiting on in each status that has a deadline
+const DEADLINE_LABELS: Partial<Record<DisputeStatus, string>> = {
+  AWAITING_SELLER: 'Seller must respond',
+  AWAITING_BUYER: 'Buyer must reply',
+  UNDER_REVIEW: 'Support will review',
+};
+
+const formatDateTime = (dateString: string) =>
+  new Date(dateString).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+const DisputeThread: React.FC<DisputeThreadProps> = ({
+  messages,
+  currentUserId,
+  status,
+  deadlineAt,
+  sellerRespondedAt,
+  onSend,
+}) => {
+  const [text, setText] = useState('');
+  const [attachments, setAttachments] = useState<DisputeMediaFile[]>([]);
+  const [sending, setSending] = useState(false);
+
+  const isPending = isDisputeOpen(status);
+  const deadlineLabel = DEADLINE_LABELS[status];
+  const isOverdue = !!deadlineAt && new Date(deadlineAt) < new Date();
+
+  const pickAttachments = async () => {
+    if (attachments.length >= MAX_ATTACHMENTS) {
+      Alert.alert('Limit Reached', `You can attach up to ${MAX_ATTACHMENTS} files per message.`);
+      return;
+    }
+
+    const { status } = await ImagePicker.requestMediaLibraryPermissionsAsync();
+    if (status !== 'granted') {
+      Alert.alert('Permission Required', 'Please allow access to your photos to attach evidence.');
+      return;
+    }
+
+    const result = await ImagePicker.launchImageLibraryAsync({
+      mediaTypes: ImagePicker.MediaTypeOptions.All,
+      allowsMultipleSelection: true,
+      quality: 0.8,
+    });
+
+    if (!result.canceled && result.assets) {
+      const picked = result.assets.slice(0, MAX_ATTACHMENTS - attachments.length).map((asset) => ({
+        uri: asset.uri,
+        type: asset.mimeType || (asset.type === 'video' ? 'video/mp4' : 'image/jpeg'),
+        name: asset.fileName || asset.uri.split('/').pop() || 'evidence',
+      }));
+      setAttachments((prev) => [...prev, ...picked]);
+    }
+  };
+
+  const handleSend = async () => {
+    if (!onSend || (!text.trim() && attachments.length === 0)) return;
+
+    setSending(true);
+    const sent = await onSend(text.trim(), attachments);
+    setSending(false);
+
+    if (sent) {
+      setText('');
+      setAttachments([]);
+    }
+  };
+
+  const renderEvidence = (evidence: DisputeEvidence) =>
+    evidence.mediaType === 'image' ? (
+      <TouchableOpacity key={evidence.id} onPress={() => Linking.openURL(evidence.url)}>
+        <Image source={{ uri: evidence.url }} style={styles.evidenceImage} />
+      </TouchableOpacity>
+    ) : (
+      <TouchableOpacity
+        key={evidence.id}
+        style={styles.evidenceFile}
+        onPress={() => Linking.openURL(evidence.url)}
+      >
+        <Ionicons
+          name={evidence.mediaType === 'video' ? 'videocam-outline' : 'document-outline'}
+          size={20}
+          color={Colors.primary}
+        />
+        <Text style={styles.evidenceFileName} numberOfLines={1}>
+          {evidence.fileName || 'Attachment'}
+        </Text>
+      </TouchableOpacity>
+    );
+
+  const renderMessage = (message: DisputeMessage) => {
+    if (message.senderRole === 'SYSTEM') {
+      return (
+        <View key={message.id} style={styles.systemEntry}>
+          <Text style={styles.systemText}>{message.body}</Text>
+          <Text style={styles.systemDate}>{formatDateTime(message.createdAt)}</Text>
+        </View>
+      );
+    }
+
+    const isOwn = !!currentUserId && message.senderId === currentUserId;
+    const senderName = isOwn
+      ? 'You'
+      : message.sender
+      ? `${message.sender.firstName} ${message.sender.lastName}`.trim()
+      : PARTY_LABELS[message.senderRole];
+
+    return (
+      <View
+        key={message.id}
+        style={[
+          styles.bubble,
+          isOwn ? styles.bubbleOwn : styles.bubbleOther,
+          message.senderRole === 'ADMIN' && styles.bubbleAdmin,
+        ]}
+      >
+        <View style={styles.bubbleHeader}>
+          <Text style={styles.senderName}>{senderName}</Text>
+          <Text style={styles.senderRole}>{PARTY_LABELS[message.senderRole]}</Text>
+        </View>
+        <Text style={styles.bubbleText}>{message.body}</Text>
+        {message.evidence.length > 0 && (
+          <View style={styles.evidenceRow}>{message.evidence.map(renderEvidence)}</View>
+        )}
+        <Text style={styles.bubbleDate}>{formatDateTime(message.createdAt)}</Text>
+      </View>
+    );
+  };
+
+  return (
+    <View>
+      {status === 'ESCALATED' ? (
+        <View style={[styles.deadlineBanner, styles.deadlineBannerOverdue]}>
+          <Ionicons name="alert-circle-outline" size={18} color={Colors.error} />
+          <Text style={styles.deadlineText}>Escalated to support for a decision</Text>
+        </View>
+      ) : (
+        isPending &&
+        deadlineLabel &&
+        deadlineAt && (
+          <View style={[styles.deadlineBanner, isOverdue && styles.deadlineBannerOverdue]}>
+            <Ionicons
+              name="time-outline"
+              size={18}
+              color={isOverdue ? Colors.error : Colors.warning}
+            />
+            <Text style={styles.deadlineText}>
+              {isOverdue
+                ? `${deadlineLabel} — overdue since ${formatDateTime(deadlineAt)}`
+                : `${deadlineLabel} by ${formatDateTime(deadlineAt)}`}
+            </Text>
+          </View>
+        )
+      )}
+
+      {isPending && sellerRespondedAt && (
+        <Text style={styles.respondedText}>
+          Seller first responded {formatDateTime(sellerRespondedAt)}
+        </Text>
+      )}
+
+      {messages.length === 0 ? (
+        <Text style={styles.emptyText}>No messages yet</Text>
+      ) : (
+        messages.map(renderMessage)
+      )}
+
+      {onSend && isPending && (
+        <View style={styles.composer}>
+          {attachments.length > 0 && (
+            <View style={styles.attachmentRow}>
+              {attachments.map((attachment, index) => (
+                <View key={`${attachment.uri}-${index}`} style={styles.attachmentChip}>
+                  <Text style={styles.attachmentName} numberOfLines={1}>
+                    {attachment.name}
+                  </Text>
+                  <TouchableOpacity
+                    onPress={() => setAttachments((prev) => prev.filter((_, i) => i !== index))}
+                  >
+                    <Ionicons name="close-circle" size={16} color={Colors.textSecondary} />
+                  </TouchableOpacity>
+                </View>
+              ))}
+            </View>
+          )}
+
+          <View style={styles.composerRow}>
+            <TouchableOpacity style={styles.attachButton} onPress={pickAttachments} disabled={sending}>
+              <Ionicons name="attach" size={22} color={Colors.primary} />
+            </TouchableOpacity>
+            <TextInput
+              style={styles.composerInput}
+              value={text}
+              onChangeText={setText}
+              placeholder="Write a message..."
+              placeholderTextColor={Colors.textTertiary}
+              multiline
+              maxLength={1000}
+            />
+            <TouchableOpacity
+              style={[
+                styles.sendButton,
+                (!text.trim() && attachments.length === 0) && styles.sendButtonDisabled,
+              ]}
+              onPress={handleSend}
+              disabled={sending || (!text.trim() && attachments.length === 0)}
+            >
+              {sending ? (
+                <ActivityIndicator size="small" color={Colors.white} />
+              ) : (
+                <Ionicons name="send" size={18} color={Colors.white} />
+              )}
+            </TouchableOpacity>
+          </View>
+        </View>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  deadlineBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    backgroundColor: Colors.warningLight,
+    borderRadius: 8,
+    padding: 10,
+    marginBottom: 12,
+  },
+  deadlineBannerOverdue: {
+    backgroundColor: Colors.errorLight,
+  },
+  deadlineText: {
+    flex: 1,
+    fontSize: 13,
+    color: Colors.textPrimary,
+  },
+  respondedText: {
+    fontSize: 12,
+    color: Colors.textSecondary,
+    marginBottom: 8,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+    textAlign: 'center',
+    paddingVertical: 12,
+  },
+  systemEntry: {
+    alignItems: 'center',
+    marginVertical: 8,
+    paddingHorizontal: 16,
+  },
+  systemText: {
+    fontSize: 12,
+    color: Colors.textSecondary,
+    textAlign: 'center',
+  },
+  systemDate: {
+    fontSize: 11,
+    color: Colors.textTertiary,
+    marginTop: 2,
+  },
+  bubble: {
+    maxWidth: '85%',
+    borderRadius: 12,
+    padding: 12,
+    marginVertical: 6,
+  },
+  bubbleOwn: {
+    alignSelf: 'flex-end',
+    backgroundColor: Colors.infoLight,
+  },
+  bubbleOther: {
+    alignSelf: 'flex-start',
+    backgroundColor: Colors.gray100,
+  },
+  bubbleAdmin: {
+    borderWidth: 1,
+    borderColor: Colors.primary,
+  },
+  bubbleHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    gap: 12,
+    marginBottom: 4,
+  },
+  senderName: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: Colors.textPrimary,
+  },
+  senderRole: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: Colors.textSecondary,
+    textTransform: 'uppercase',
+  },
+  bubbleText: {
+    fontSize: 14,
+    color: Colors.textPrimary,
+    lineHeight: 20,
+  },
+  bubbleDate: {
+    fontSize: 11,
+    color: Colors.textTertiary,
+    marginTop: 6,
+    alignSelf: 'flex-end',
+  },
+  evidenceRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 8,
+  },
+  evidenceImage: {
+    width: 72,
+    height: 72,
+    borderRadius: 8,
+    backgroundColor: Colors.gray200,
+  },
+  evidenceFile: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    maxWidth: 160,
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    borderRadius: 8,
+    backgroundColor: Colors.white,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  evidenceFileName: {
+    flex: 1,
+    fontSize: 12,
+    color: Colors.textPrimary,
+  },
+  composer: {
+    marginTop: 12,
+    borderTopWidth: 1,
+    borderTopColor: Colors.border,
+    paddingTop: 12,
+  },
+  attachmentRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+    marginBottom: 8,
+  },
+  attachmentChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    maxWidth: 150,
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 12,
+    backgroundColor: Colors.gray100,
+  },
+  attachmentName: {
+    flexShrink: 1,
+    fontSize: 12,
+    color: Colors.textPrimary,
+  },
+  composerRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    gap: 8,
+  },
+  attachButton: {
+    padding: 8,
+  },
+  composerInput: {
+    flex: 1,
+    minHeight: 40,
+    maxHeight: 120,
+    backgroundColor: Colors.gray50,
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    fontSize: 14,
+    color: Colors.textPrimary,
+  },
+  sendButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: Colors.primary,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  sendButtonDisabled: {
+    backgroundColor: Colors.gray300,
+  },
+});
+
+export default DisputeThread;
@@ -0,0 +1,189 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+} from 'react-native';
+import { Colors } from '../constants/colors';
+import { FunnelDay, FunnelStages } from '../hooks/useSellerDashboard';
+
+const FUNNEL_STAGES: { key: keyof FunnelStages; label: string }[] = [
+  { key: 'views', label: 'Views' },
+  { key: 'likes', label: 'Likes' },
+  { key: 'addToCarts', label: 'Added to cart' },
+  { key: 'orders', label: 'Orders' },
+  { key: 'completed', label: 'Completed' },
+];
+
+const SERIES_HEIGHT = 96;
+
+interface ProductFunnelChartProps {
+  totals: FunnelStages;
+  series?: FunnelDay[]; // Daily counts; the chart is hidden when left out
+}
+
+const ProductFunnelChart: React.FC<ProductFunnelChartProps> = ({ totals, series }) => {
+  const [seriesStage, setSeriesStage] = useState<keyof FunnelStages>('views');
+
+  // Bars are sized against the widest stage so a product with more likes than views still fits
+  const widest = Math.max(1, ...FUNNEL_STAGES.map((stage) => totals[stage.key]));
+  const peak = Math.max(0, ...(series || []).map((day) => day[seriesStage]));
+  const tallest = Math.max(1, peak);
+
+  const formatDay = (date: string) =>
+    new Date(`${date}T00:00:00Z`).toLocaleDateString('en-GH', {
+      day: 'numeric',
+      month: 'short',
+      timeZone: 'UTC',
+    });
+
+  return (
+    <View>
+      {FUNNEL_STAGES.map((stage) => (
+        <View key={stage.key} style={styles.stageRow}>
+          <Text style={styles.stageLabel}>{stage.label}</Text>
+          <View style={styles.stageTrack}>
+            <View
+              style={[styles.stageBar, { width: `${(totals[stage.key] / widest) * 100}%` }]}
+            />
+          </View>
+          <Text style={styles.stageCount}>{totals[stage.key]}</Text>
+        </View>
+      ))}
+
+      {series && series.length > 0 && (
+        <View style={styles.seriesContainer}>
+          <View style={styles.seriesTabs}>
+            {FUNNEL_STAGES.map((stage) => (
+              <TouchableOpacity
+                key={stage.key}
+                style={[styles.seriesTab, seriesStage === stage.key && styles.seriesTabActive]}
+                onPress={() => setSeriesStage(stage.key)}
+                activeOpacity={0.7}
+              >
+                <Text
+                  style={[
+                    styles.seriesTabText,
+                    seriesStage === stage.key && styles.seriesTabTextActive,
+                  ]}
+                >
+                  {stage.label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <View style={styles.seriesChart}>
+            {series.map((day) => (
+              <View key={day.date} style={styles.seriesColumn}>
+                <View
+                  style={[
+                    styles.seriesBar,
+                    { height: Math.max(2, (day[seriesStage] / tallest) * SERIES_HEIGHT) },
+                    day[seriesStage] === 0 && styles.seriesBarEmpty,
+                  ]}
+                />
+              </View>
+            ))}
+          </View>
+
+          <View style={styles.seriesAxis}>
+            <Text style={styles.seriesAxisText}>{formatDay(series[0].date)}</Text>
+            <Text style={styles.seriesAxisText}>Peak {peak}/day</Text>
+            <Text style={styles.seriesAxisText}>{formatDay(series[series.length - 1].date)}</Text>
+          </View>
+        </View>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  stageRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 6,
+  },
+  stageLabel: {
+    width: 100,
+    fontSize: 13,
+    color: Colors.textSecondary,
+  },
+  stageTrack: {
+    flex: 1,
+    height: 10,
+    borderRadius: 5,
+    backgroundColor: Colors.backgroundTertiary,
+    overflow: 'hidden',
+  },
+  stageBar: {
+    height: '100%',
+    borderRadius: 5,
+    backgroundColor: Colors.primary,
+  },
+  stageCount: {
+    width: 48,
+    textAlign: 'right',
+    fontSize: 14,
+    fontWeight: '600',
+    color: Colors.textPrimary,
+  },
+  seriesContainer: {
+    marginTop: 16,
+  },
+  seriesTabs: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+    marginBottom: 12,
+  },
+  seriesTab: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  seriesTabActive: {
+    backgroundColor: Colors.primary,
+    borderColor: Colors.primary,
+  },
+  seriesTabText: {
+    fontSize: 12,
+    color: Colors.textSecondary,
+  },
+  seriesTabTextActive: {
+    color: Colors.white,
+    fontWeight: '600',
+  },
+  seriesChart: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    height: SERIES_HEIGHT,
+    gap: 1,
+  },
+  seriesColumn: {
+    flex: 1,
+    justifyContent: 'flex-end',
+  },
+  seriesBar: {
+    borderTopLeftRadius: 2,
+    borderTopRightRadius: 2,
+    backgroundColor: Colors.primaryLight,
+  },
+  seriesBarEmpty: {
+    backgroundColor: Colors.border,
+  },
+  seriesAxis: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 6,
+  },
+  seriesAxisText: {
+    fontSize: 11,
+    color: Colors.textTertiary,
+  },
+});
+
+export default ProductFunnelChart;
@@ -0,0 +1,217 @@
+import React from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  StyleSheet,
+} from 'react-native';
+import { Colors } from '../constants/colors';
+import { ProductVariant, ProductVariantInput } from '../hooks/useProducts';
+
+// Form state for one size/color combination; numbers stay as strings while editing
+export interface VariantDraft {
+  id?: string;
+  size: string | null;
+  color: string | null;
+  sku: string;
+  stock: string;
+  price: string;
+}
+
+const draftKey = (size: string | null, color: string | null) =>
+  `${(size || '').toLowerCase()}|${(color || '').toLowerCase()}`;
+
+/**
+ * Build one draft per selected size/color combination,
+ * keeping what the seller already typed for combinations that are still selected.
+ */
+export const syncVariantDrafts = (
+  sizes: string[],
+  colors: string[],
+  drafts: VariantDraft[]
+): VariantDraft[] => {
+  if (sizes.length === 0 && colors.length === 0) return [];
+
+  const existing = new Map(drafts.map((draft) => [draftKey(draft.size, draft.color), draft]));
+  const sizeOptions: (string | null)[] = sizes.length > 0 ? sizes : [null];
+  const colorOptions: (string | null)[] = colors.length > 0 ? colors : [null];
+
+  const next: VariantDraft[] = [];
+  sizeOptions.forEach((size) => {
+    colorOptions.forEach((color) => {
+      next.push(
+        existing.get(draftKey(size, color)) || { size, color, sku: '', stock: '', price: '' }
+      );
+    });
+  });
+  return next;
+};
+
+export const draftsFromVariants = (variants: ProductVariant[] = []): VariantDraft[] =>
+  variants.map((variant) => ({
+    id: variant.id,
+    size: variant.size,
+    color: variant.color,
+    sku: variant.sku,
+    stock: variant.stock.toString(),
+    price: variant.price !== null ? variant.price.toString() : '',
+  }));
+
+export const toVariantInputs = (drafts: VariantDraft[]): ProductVariantInput[] =>
+  drafts.map((draft) => ({
+    id: draft.id,
+    size: draft.size,
+    color: draft.color,
+    sku: draft.sku.trim() || undefined,
+    stock: parseInt(draft.stock) || 0,
+    price: draft.price ? parseFloat(draft.price) : null,
+  }));
+
+export const variantLabel = (variant: { size: string | null; color: string | null }) =>
+  [variant.size, variant.color].filter(Boolean).join(' / ');
+
+interface VariantInventoryEditorProps {
+  variants: VariantDraft[];
+  onChange: (variants: VariantDraft[]) => void;
+  basePrice?: string;
+}
+
+const VariantInventoryEditor: React.FC<VariantInventoryEditorProps> = ({
+  variants,
+  onChange,
+  basePrice,
+}) => {
+  const updateVariant = (index: number, field: 'sku' | 'stock' | 'price', value: string) => {
+    onChange(variants.map((variant, i) => (i === index ? { ...variant, [field]: value } : variant)));
+  };
+
+  const totalStock = variants.reduce((sum, variant) => sum + (parseInt(variant.stock) || 0), 0);
+
+  return (
+    <View>
+      {variants.map((variant, index) => (
+        <View key={draftKey(variant.size, variant.color)} style={styles.variantRow}>
+          <View style={styles.variantHeader}>
+            {variant.color && (
+              <View style={[styles.colorDot, { backgroundColor: variant.color }]} />
+            )}
+            <Text style={styles.variantName}>{variantLabel(variant)}</Text>
+          </View>
+
+          <View style={styles.fieldsRow}>
+            <View style={styles.field}>
+              <Text style={styles.fieldLabel}>Stock *</Text>
+              <TextInput
+                style={styles.input}
+                value={variant.stock}
+                onChangeText={(value) => updateVariant(index, 'stock', value)}
+                placeholder="0"
+                placeholderTextColor={Colors.gray400}
+                keyboardType="number-pad"
+              />
+            </View>
+
+            <View style={styles.field}>
+              <Text style={styles.fieldLabel}>Price (GH₵)</Text>
+              <TextInput
+                style={styles.input}
+                value={variant.price}
+                onChangeText={(value) => updateVariant(index, 'price', value)}
+                placeholder={basePrice || '0.00'}
+                placeholderTextColor={Colors.gray400}
+                keyboardType="decimal-pad"
+              />
+            </View>
+
+            <View style={styles.skuField}>
+              <Text style={styles.fieldLabel}>SKU</Text>
+              <TextInput
+                style={styles.input}
+                value={variant.sku}
+                onChangeText={(value) => updateVariant(index, 'sku', value)}
+                placeholder="Auto"
+                placeholderTextColor={Colors.gray400}
+                autoCapitalize="characters"
+              />
+            </View>
+          </View>
+        </View>
+      ))}
+
+      <View style={styles.totalRow}>
+        <Text style={styles.totalLabel}>Total stock</Text>
+        <Text style={styles.totalValue}>{totalStock}</Text>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  variantRow: {
+    borderWidth: 1,
+    borderColor: Colors.border,
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 10,
+  },
+  variantHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginBottom: 10,
+  },
+  colorDot: {
+    width: 14,
+    height: 14,
+    borderRadius: 7,
+    borderWidth: 1,
+    borderColor: Colors.gray300,
+  },
+  variantName: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: Colors.textPrimary,
+    textTransform: 'capitalize',
+  },
+  fieldsRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  field: {
+    flex: 1,
+  },
+  skuField: {
+    flex: 1.4,
+  },
+  fieldLabel: {
+    fontSize: 12,
+    color: Colors.textSecondary,
+    marginBottom: 4,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: Colors.border,
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    fontSize: 14,
+    color: Colors.textPrimary,
+    backgroundColor: Colors.white,
+  },
+  totalRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingTop: 4,
+  },
+  totalLabel: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+  },
+  totalValue: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: Colors.textPrimary,
+  },
+});
+
+export default VariantInventoryEditor;
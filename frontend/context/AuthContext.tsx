@@ -1,7 +1,19 @@
 // context/AuthContext.tsx
 import React, { createContext, useState, useContext, useEffect } from 'react';
+import { AppState } from 'react-native';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { User } from '../types/navigation';
+import {
+  authAPI,
+  SessionTokens,
+  saveSessionTokens,
+  clearSessionTokens,
+  refreshSession,
+  onSessionExpired,
+} from '../services/api';
+
+// Refresh this long before the access token expires
+const REFRESH_MARGIN_MS = 60 * 1000;
 
 interface AuthContextType {
   user: User | null;
@@ -9,7 +21,7 @@ interface AuthContextType {
   isLoading: boolean;
   isAuthenticated: boolean;
   hasSeenOnboarding: boolean;
-  login: (token: string, user: User) => Promise<void>;
+  login: (session: SessionTokens, user: User) => Promise<void>;
   logout: () => Promise<void>;
   updateUser: (user: User) => Promise<void>;
   setHasSeenOnboarding: (value: boolean) => Promise<void>;
@@ -25,8 +37,50 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
 
   useEffect(() => {
     loadStoredAuth();
+
+    // The API layer gave up on refreshing, so the user has to sign in again
+    return onSessionExpired(() => {
+      setToken(null);
+      setUser(null);
+    });
   }, []);
 
+  // Keep the stored access token fresh for hooks that call fetch directly
+  useEffect(() => {
+    if (!token) return;
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const refreshIfDue = async () => {
+      const expiresAt = Number(await AsyncStorage.getItem('tokenExpiresAt'));
+      if (!expiresAt) return;
+
+      const delay = expiresAt - Date.now() - REFRESH_MARGIN_MS;
+      if (delay <= 0) {
+        const newToken = await refreshSession();
+        if (newToken) setToken(newToken);
+        return;
+      }
+
+      timer = setTimeout(refreshIfDue, delay);
+    };
+
+    refreshIfDue();
+
+    // Timers don't run while the app is in the background
+    const subscription = AppState.addEventListener('change', (state) => {
+      if (state === 'active') {
+        if (timer) clearTimeout(timer);
+        refreshIfDue();
+      }
+    });
+
+    return () => {
+      if (timer) clearTimeout(timer);
+      subscription.remove();
+    };
+  }, [token]);
+
   const loadStoredAuth = async () => {
     try {
       const [storedToken, storedUser, onboardingStatus] = await Promise.all([
@@ -48,13 +102,13 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     }
   };
 
-  const login = async (newToken: string, newUser: User) => {
+  const login = async (session: SessionTokens, newUser: User) => {
     try {
       await Promise.all([
-        AsyncStorage.setItem('token', newToken),
+        saveSessionTokens(session),
         AsyncStorage.setItem('user', JSON.stringify(newUser)),
       ]);
-      setToken(newToken);
+      setToken(session.token);
       setUser(newUser);
     } catch (error) {
       console.error('Error saving auth:', error);
@@ -64,10 +118,11 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
 
   const logout = async () => {
     try {
-      await Promise.all([
-        AsyncStorage.removeItem('token'),
-        AsyncStorage.removeItem('user'),
-      ]);
+      // End the session on the server; sign out locally even if this fails
+      await authAPI.logout().catch((error) => {
+        console.error('Error ending session:', error);
+      });
+      await clearSessionTokens();
       setToken(null);
       setUser(null);
     } catch (error) {
@@ -18,11 +18,23 @@ interface Product {
   };
 }
 
+interface CartItemVariant {
+  id: string;
+  sku: string;
+  size: string | null;
+  color: string | null;
+  stock: number;
+  price: number | null;
+}
+
 interface CartItem {
   id: string;
   productId: string;
+  variantId: string | null;
   quantity: number;
+  price: number; // Variant price when the item is a variant, otherwise the product price
   product: Product;
+  variant: CartItemVariant | null;
   total: number;
 }
 
@@ -39,7 +51,7 @@ interface CartContextType {
   loading: boolean;
   error: string | null;
   fetchCart: () => Promise<Cart | null>;
-  addItem: (productId: string, quantity?: number) => Promise<any>;
+  addItem: (productId: string, quantity?: number, variantId?: string) => Promise<any>;
   updateItemQuantity: (cartItemId: string, quantity: number) => Promise<any>;
   removeItem: (cartItemId: string) => Promise<any>;
   clearCart: () => Promise<any>;
@@ -103,7 +115,7 @@ export const CartProvider: React.FC<CartProviderProps> = ({ children }) => {
     }
   }, []);
 
-  const addItem = async (productId: string, quantity: number = 1): Promise<any> => {
+  const addItem = async (productId: string, quantity: number = 1, variantId?: string): Promise<any> => {
     setLoading(true);
     setError(null);
     try {
@@ -118,7 +130,7 @@ export const CartProvider: React.FC<CartProviderProps> = ({ children }) => {
           'Authorization': `Bearer ${token}`,
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ productId, quantity }),
+        body: JSON.stringify({ productId, quantity, variantId }),
       });
 
       const result = await response.json();
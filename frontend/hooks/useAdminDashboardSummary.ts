@@ -46,6 +46,7 @@ export interface DashboardSummary {
 export interface SalesDataPoint {
   date: string;
   revenue: number;
+  platformRevenue: number;
   orders: number;
   averageOrderValue: number;
 }
@@ -60,6 +61,12 @@ export interface SalesAnalytics {
     totalOrders: number;
     averageOrderValue: number;
     daysWithSales: number;
+    platformRevenue: number;
+    commission: number;
+    fixedFees: number;
+    processingFees: number;
+    collectedFees: number;
+    sellerEarnings: number;
   };
 }
 
@@ -151,39 +158,44 @@ export interface Dispute {
   orderId: string;
   buyerId: string;
   sellerId: string;
-  storeId: string;
-  reason: string;
   description: string;
   status: string;
   resolution?: string | null;
   createdAt: string;
   updatedAt: string;
+  deadlineAt?: string | null;
+  slaBreachCount: number;
+  escalatedAt?: string | null;
+  recommendedOutcome?: 'REFUND_BUYER' | 'RELEASE_TO_SELLER' | null;
   order: {
     id: string;
-    orderNumber: string;
     totalAmount: number;
     status: string;
     createdAt: string;
+    store: {
+      id: string;
+      name: string;
+      url: string;
+    };
   };
   buyer: {
     id: string;
     firstName: string;
     email: string;
   };
-  seller: {
-    id: string;
-    firstName: string;
-    email: string;
-  };
-  store: {
-    id: string;
-    name: string;
-    url: string;
-  };
+}
+
+export interface DisputeSlaSummary {
+  breached: number;
+  escalated: number;
+  overdue: number;
+  recommendedRefunds: number;
+  byStatus: Record<string, number>;
 }
 
 export interface PendingDisputes {
   disputes: Dispute[];
+  sla: DisputeSlaSummary;
   pagination: {
     page: number;
     limit: number;
@@ -0,0 +1,185 @@
+import { useState, useCallback } from 'react';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { OrderQuote } from './useOrder';
+
+// Types
+export type CouponType = 'PERCENTAGE' | 'FIXED_AMOUNT' | 'FREE_DELIVERY';
+
+export interface Coupon {
+  id: string;
+  code: string;
+  scope: 'STORE' | 'PLATFORM';
+  storeId: string | null;
+  type: CouponType;
+  value: number;
+  maxDiscount: number | null;
+  minOrderValue: number | null;
+  usageLimit: number | null;
+  perUserLimit: number | null;
+  usageCount: number;
+  description: string | null;
+  startsAt: string;
+  expiresAt: string | null;
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CouponInput {
+  code?: string;
+  type?: CouponType;
+  value?: number;
+  maxDiscount?: number | null;
+  minOrderValue?: number | null;
+  usageLimit?: number | null;
+  perUserLimit?: number | null;
+  description?: string | null;
+  startsAt?: string;
+  expiresAt?: string | null;
+  isActive?: boolean;
+}
+
+export interface ValidateCouponData {
+  code: string;
+  storeId: string;
+  items: { productId: string; variantId?: string; quantity: number }[];
+  deliveryType?: string;
+}
+
+// A validated coupon comes back as the order re-quoted with the discount applied
+export interface CouponQuote extends OrderQuote {
+  coupon: {
+    code: string;
+    type: CouponType;
+    value: number;
+    description: string | null;
+  } | null;
+}
+
+interface ApiResponse<T> {
+  success: boolean;
+  message?: string;
+  data?: T;
+  error?: string;
+}
+
+interface UseCouponsReturn {
+  loading: boolean;
+  error: string | null;
+  validateCoupon: (data: ValidateCouponData) => Promise<ApiResponse<CouponQuote>>;
+  getStoreCoupons: () => Promise<ApiResponse<Coupon[]>>;
+  createCoupon: (data: CouponInput) => Promise<ApiResponse<Coupon>>;
+  updateCoupon: (couponId: string, data: CouponInput) => Promise<ApiResponse<Coupon>>;
+  deactivateCoupon: (couponId: string) => Promise<ApiResponse<Coupon>>;
+}
+
+const API_BASE_URL = process.env.EXPO_PUBLIC_API_URL || 'http://localhost:3000/api';
+
+export const useCoupons = (): UseCouponsReturn => {
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const getAuthToken = async (): Promise<string | null> => {
+    try {
+      return await AsyncStorage.getItem('token');
+    } catch (err) {
+      console.error('Error retrieving token:', err);
+      return null;
+    }
+  };
+
+  const makeRequest = async <T,>(
+    endpoint: string,
+    options: RequestInit = {}
+  ): Promise<ApiResponse<T>> => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const token = await getAuthToken();
+
+      if (!token) {
+        throw new Error('Authentication token not found');
+      }
+
+      const response = await fetch(`${API_BASE_URL}/coupons${endpoint}`, {
+        ...options,
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`,
+          ...options.headers,
+        },
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || 'Request failed');
+      }
+
+      return data;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'An error occurred';
+      setError(errorMessage);
+      return {
+        success: false,
+        message: errorMessage,
+      };
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const validateCoupon = useCallback(
+    async (data: ValidateCouponData): Promise<ApiResponse<CouponQuote>> => {
+      return makeRequest<CouponQuote>('/validate', {
+        method: 'POST',
+        body: JSON.stringify(data),
+      });
+    },
+    []
+  );
+
+  const getStoreCoupons = useCallback(async (): Promise<ApiResponse<Coupon[]>> => {
+    return makeRequest<Coupon[]>('/my-store');
+  }, []);
+
+  const createCoupon = useCallback(
+    async (data: CouponInput): Promise<ApiResponse<Coupon>> => {
+      return makeRequest<Coupon>('', {
+        method: 'POST',
+        body: JSON.stringify(data),
+      });
+    },
+    []
+  );
+
+  const updateCoupon = useCallback(
+    async (couponId: string, data: CouponInput): Promise<ApiResponse<Coupon>> => {
+      return makeRequest<Coupon>(`/${couponId}`, {
+        method: 'PUT',
+        body: JSON.stringify(data),
+      });
+    },
+    []
+  );
+
+  const deactivateCoupon = useCallback(
+    async (couponId: string): Promise<ApiResponse<Coupon>> => {
+      return makeRequest<Coupon>(`/${couponId}`, {
+        method: 'DELETE',
+      });
+    },
+    []
+  );
+
+  return {
+    loading,
+    error,
+    validateCoupon,
+    getStoreCoupons,
+    createCoupon,
+    updateCoupon,
+    deactivateCoupon,
+  };
+};
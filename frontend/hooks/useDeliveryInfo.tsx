@@ -63,6 +63,8 @@ interface EditDeliveryParams {
 interface SetDeliveryStatusParams {
   orderId: string;
   status: DeliveryStatus;
+  // Required to mark a cash on delivery order DELIVERED
+  cashCollected?: boolean;
 }
 
 interface ApiResponse<T> {
@@ -295,11 +297,11 @@ export const useDelivery = () => {
     setError(null);
 
     try {
-      const { orderId, status } = params;
+      const { orderId, status, cashCollected } = params;
       const response = await apiCall<DeliveryInfo>(
         `/delivery/order/${orderId}/status`,
         'PATCH',
-        { status }
+        { status, cashCollected }
       );
 
       if (response.success && response.data) {
@@ -13,7 +13,107 @@ export type DisputeType =
   | 'DAMAGED_ITEM'
   | 'OTHER';
 
-export type DisputeStatus = 'PENDING' | 'RESOLVED' | 'CANCELLED';
+export type DisputeStatus =
+  | 'PENDING'
+  | 'AWAITING_SELLER'
+  | 'AWAITING_BUYER'
+  | 'UNDER_REVIEW'
+  | 'ESCALATED'
+  | 'RESOLVING'
+  | 'RESOLVED'
+  | 'CANCELLED';
+
+// Statuses where the dispute is still open; 'OPEN' filters on all of them
+export const OPEN_DISPUTE_STATUSES: DisputeStatus[] = [
+  'PENDING',
+  'AWAITING_SELLER',
+  'AWAITING_BUYER',
+  'UNDER_REVIEW',
+  'ESCALATED',
+];
+
+export const isDisputeOpen = (status?: DisputeStatus) =>
+  !!status && OPEN_DISPUTE_STATUSES.includes(status);
+
+export type DisputeStatusFilter = DisputeStatus | 'OPEN';
+
+export type AdminDisputeStatus = 'AWAITING_SELLER' | 'AWAITING_BUYER' | 'UNDER_REVIEW' | 'ESCALATED';
+
+export type DisputeOutcome = 'REFUND_BUYER' | 'RELEASE_TO_SELLER';
+
+export type DisputeParty = 'BUYER' | 'SELLER' | 'ADMIN' | 'SYSTEM';
+
+export interface DisputeEvidence {
+  id: string;
+  disputeId: string;
+  messageId?: string | null;
+  uploadedById: string;
+  uploaderRole: DisputeParty;
+  url: string;
+  mediaType: string;
+  fileName?: string | null;
+  createdAt: string;
+}
+
+export interface DisputeMessage {
+  id: string;
+  disputeId: string;
+  senderId?: string | null;
+  senderRole: DisputeParty;
+  body: string;
+  createdAt: string;
+  sender?: {
+    id: string;
+    firstName: string;
+    lastName: string;
+  } | null;
+  evidence: DisputeEvidence[];
+}
+
+export interface DisputeMediaFile {
+  uri: string;
+  type: string;
+  name: string;
+}
+
+export interface DisputeMessagesResponse {
+  messages: DisputeMessage[];
+  status: DisputeStatus;
+  deadlineAt?: string | null;
+  sellerRespondBy?: string | null;
+  sellerRespondedAt?: string | null;
+}
+
+export interface DisputeOrderItem {
+  id: string;
+  quantity: number;
+  price: number;
+  total: number;
+  size?: string | null;
+  color?: string | null;
+  product?: {
+    name: string;
+    images?: string[];
+  };
+}
+
+export interface DisputeRefundItem {
+  id: string;
+  orderItemId: string;
+  quantity: number;
+  amount: number;
+  restocked: boolean;
+  createdAt: string;
+  orderItem?: {
+    id: string;
+    price: number;
+    size?: string | null;
+    color?: string | null;
+    product?: {
+      name: string;
+    };
+  };
+}
 
 export interface Dispute {
   id: string;
@@ -28,6 +128,20 @@ export interface Dispute {
   createdAt: string;
   updatedAt: string;
   resolvedAt?: string;
+  sellerRespondBy?: string | null;
+  sellerRespondedAt?: string | null;
+  deadlineAt?: string | null;
+  slaBreachCount?: number;
+  slaBreachedAt?: string | null;
+  escalatedAt?: string | null;
+  recommendedOutcome?: DisputeOutcome | null;
+  messages?: DisputeMessage[];
+  _count?: {
+    messages: number;
+  };
+  refundAmount?: number | null;
+  releasedAmount?: number | null;
+  refundItems?: DisputeRefundItem[];
   order?: {
     id: string;
     status: string;
@@ -56,7 +170,11 @@ export interface Dispute {
     escrow?: {
       id: string;
       releaseStatus: string;
+      amountHeld?: number;
+      refundedAmount?: number;
+      releasedAmount?: number | null;
     };
+    items?: DisputeOrderItem[];
   };
 }
 
@@ -69,6 +187,8 @@ export interface ResolveDisputeData {
   status: 'RESOLVED' | 'CANCELLED';
   resolution: string;
   refundAmount?: number;
+  items?: { orderItemId: string; quantity: number }[];
+  restock?: boolean;
 }
 
 export interface DisputesResponse {
@@ -117,8 +237,11 @@ export const useDisputes = () => {
         throw new Error('No authentication token found. Please login again.');
       }
 
+      const isFormData = body instanceof FormData;
+
+      // Let fetch set the multipart boundary for uploads
       const headers: HeadersInit = {
-        'Content-Type': 'application/json',
+        ...(!isFormData && { 'Content-Type': 'application/json' }),
         'Authorization': `Bearer ${token}`,
       };
 
@@ -128,7 +251,7 @@ export const useDisputes = () => {
       };
 
       if (body && (method === 'POST' || method === 'PATCH' || method === 'PUT')) {
-        config.body = JSON.stringify(body);
+        config.body = isFormData ? body : JSON.stringify(body);
       }
 
       const response = await fetch(`${API_BASE_URL}${endpoint}`, config);
@@ -234,7 +357,7 @@ export const useDisputes = () => {
   const getUserDisputes = useCallback(async (
     page: number = 1,
     limit: number = 10,
-    status?: DisputeStatus,
+    status?: DisputeStatusFilter,
     type?: DisputeType
   ): Promise<DisputesResponse | null> => {
     setLoading(true);
@@ -280,7 +403,7 @@ export const useDisputes = () => {
   const getAllDisputes = useCallback(async (
     page: number = 1,
     limit: number = 20,
-    status?: DisputeStatus,
+    status?: DisputeStatusFilter,
     type?: DisputeType
   ): Promise<DisputesResponse | null> => {
     setLoading(true);
@@ -322,16 +445,85 @@ export const useDisputes = () => {
     }
   }, [])
 
-  // Update a dispute with additional information
+  // Get the dispute thread (messages, evidence and status events)
+  const getDisputeMessages = useCallback(async (disputeId: string): Promise<DisputeMessagesResponse | null> => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await makeRequest<DisputeMessagesResponse>(
+        `/disputes/${disputeId}/messages`,
+        'GET'
+      );
+
+      if (response.success && response.data) {
+        return response.data;
+      } else {
+        throw new Error(response.message || 'Failed to fetch dispute messages');
+      }
+    } catch (err: any) {
+      setError(err.message);
+      console.error('Get dispute messages error:', err);
+      return null;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  // Post a message to the dispute thread, optionally with evidence files
+  const sendDisputeMessage = useCallback(async (
+    disputeId: string,
+    message: string,
+    media: DisputeMediaFile[] = []
+  ): Promise<DisputeMessage | null> => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const formData = new FormData();
+      if (message) {
+        formData.append('message', message);
+      }
+
+      media.forEach((mediaItem) => {
+        // For React Native, append the file with uri, type, and name
+        formData.append('media', {
+          uri: mediaItem.uri,
+          type: mediaItem.type,
+          name: mediaItem.name,
+        } as any);
+      });
+
+      const response = await makeRequest<DisputeMessage>(
+        `/disputes/${disputeId}/messages`,
+        'POST',
+        formData
+      );
+
+      if (response.success && response.data) {
+        return response.data;
+      } else {
+        throw new Error(response.message || 'Failed to send message');
+      }
+    } catch (err: any) {
+      setError(err.message);
+      console.error('Send dispute message error:', err);
+      return null;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  // Update a dispute with additional information (posted to the thread)
   const updateDispute = useCallback(async (
     disputeId: string,
     additionalInfo: string
-  ): Promise<Dispute | null> => {
+  ): Promise<DisputeMessage | null> => {
     setLoading(true);
     setError(null);
 
     try {
-      const response = await makeRequest<Dispute>(
+      const response = await makeRequest<DisputeMessage>(
         `/disputes/${disputeId}`,
         'PATCH',
         { additionalInfo }
@@ -351,6 +543,36 @@ export const useDisputes = () => {
     }
   }, []);
 
+  // Move a dispute to another SLA stage (admin only)
+  const updateDisputeStatus = useCallback(async (
+    disputeId: string,
+    status: AdminDisputeStatus,
+    note?: string
+  ): Promise<Dispute | null> => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await makeRequest<Dispute>(
+        `/disputes/${disputeId}/status`,
+        'PATCH',
+        { status, note }
+      );
+
+      if (response.success && response.data) {
+        return response.data;
+      } else {
+        throw new Error(response.message || 'Failed to update dispute status');
+      }
+    } catch (err: any) {
+      setError(err.message);
+      console.error('Update dispute status error:', err);
+      return null;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
   // Cancel a dispute
   const cancelDispute = useCallback(async (
     disputeId: string,
@@ -395,6 +617,9 @@ export const useDisputes = () => {
     getAllDisputes,
     updateDispute,
     cancelDispute,
+    getDisputeMessages,
+    sendDisputeMessage,
+    updateDisputeStatus,
     clearError,
   };
 };
@@ -0,0 +1,180 @@
+import { useState, useCallback } from 'react';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+// Types
+export type LoyaltyRuleType =
+  | 'SIGNUP_BONUS'
+  | 'ORDER_SPEND'
+  | 'FIRST_ORDER_BONUS'
+  | 'REVIEW'
+  | 'REVIEW_PHOTO_BONUS'
+  | 'REFERRAL_BONUS'
+  | 'CAMPAIGN_MULTIPLIER';
+
+export interface LoyaltyRule {
+  id: string;
+  type: LoyaltyRuleType;
+  name: string;
+  points: number | null;
+  pointsPerCedi: number | null;
+  multiplier: number | null;
+  startsAt: string | null;
+  endsAt: string | null;
+  isActive: boolean;
+  createdBy: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface LoyaltyRuleInput {
+  type?: LoyaltyRuleType;
+  name?: string;
+  points?: number | null;
+  pointsPerCedi?: number | null;
+  multiplier?: number | null;
+  startsAt?: string | null;
+  endsAt?: string | null;
+  isActive?: boolean;
+}
+
+export interface LoyaltySettings {
+  id: string;
+  pointsToCedisRate: number;
+  dailyEarnCap: number | null;
+  updatedBy: string | null;
+  updatedAt: string;
+}
+
+export interface LoyaltyConfig {
+  settings: LoyaltySettings;
+  rules: LoyaltyRule[];
+}
+
+interface ApiResponse<T> {
+  success: boolean;
+  message?: string;
+  data?: T;
+  error?: string;
+}
+
+interface UseLoyaltyReturn {
+  loading: boolean;
+  error: string | null;
+  getLoyaltyConfig: () => Promise<ApiResponse<LoyaltyConfig>>;
+  updateSettings: (
+    data: Partial<Pick<LoyaltySettings, 'pointsToCedisRate' | 'dailyEarnCap'>>
+  ) => Promise<ApiResponse<LoyaltySettings>>;
+  createRule: (data: LoyaltyRuleInput) => Promise<ApiResponse<LoyaltyRule>>;
+  updateRule: (ruleId: string, data: LoyaltyRuleInput) => Promise<ApiResponse<LoyaltyRule>>;
+  deleteRule: (ruleId: string) => Promise<ApiResponse<void>>;
+}
+
+const API_BASE_URL = process.env.EXPO_PUBLIC_API_URL || 'http://localhost:3000/api';
+
+export const useLoyalty = (): UseLoyaltyReturn => {
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const getAuthToken = async (): Promise<string | null> => {
+    try {
+      return await AsyncStorage.getItem('token');
+    } catch (err) {
+      console.error('Error retrieving token:', err);
+      return null;
+    }
+  };
+
+  const makeRequest = async <T,>(
+    endpoint: string,
+    options: RequestInit = {}
+  ): Promise<ApiResponse<T>> => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const token = await getAuthToken();
+
+      if (!token) {
+        throw new Error('Authentication token not found');
+      }
+
+      const response = await fetch(`${API_BASE_URL}/admin/loyalty${endpoint}`, {
+        ...options,
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`,
+          ...options.headers,
+        },
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || 'Request failed');
+      }
+
+      return data;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'An error occurred';
+      setError(errorMessage);
+      return {
+        success: false,
+        message: errorMessage,
+      };
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const getLoyaltyConfig = useCallback(async (): Promise<ApiResponse<LoyaltyConfig>> => {
+    return makeRequest<LoyaltyConfig>('');
+  }, []);
+
+  const updateSettings = useCallback(
+    async (
+      data: Partial<Pick<LoyaltySettings, 'pointsToCedisRate' | 'dailyEarnCap'>>
+    ): Promise<ApiResponse<LoyaltySettings>> => {
+      return makeRequest<LoyaltySettings>('/settings', {
+        method: 'PUT',
+        body: JSON.stringify(data),
+      });
+    },
+    []
+  );
+
+  const createRule = useCallback(
+    async (data: LoyaltyRuleInput): Promise<ApiResponse<LoyaltyRule>> => {
+      return makeRequest<LoyaltyRule>('/rules', {
+        method: 'POST',
+        body: JSON.stringify(data),
+      });
+    },
+    []
+  );
+
+  const updateRule = useCallback(
+    async (ruleId: string, data: LoyaltyRuleInput): Promise<ApiResponse<LoyaltyRule>> => {
+      return makeRequest<LoyaltyRule>(`/rules/${ruleId}`, {
+        method: 'PUT',
+        body: JSON.stringify(data),
+      });
+    },
+    []
+  );
+
+  const deleteRule = useCallback(async (ruleId: string): Promise<ApiResponse<void>> => {
+    return makeRequest<void>(`/rules/${ruleId}`, {
+      method: 'DELETE',
+    });
+  }, []);
+
+  return {
+    loading,
+    error,
+    getLoyaltyConfig,
+    updateSettings,
+    createRule,
+    updateRule,
+    deleteRule,
+  };
+};
@@ -38,17 +38,56 @@ export interface CreateOrderData {
   promoCode?: string;
   buyerEmail?: string;
   buyerPhone?: string;
-  checkoutSession?: string; // NEW: Checkout session
   sameAsDelivery?: boolean;
   billingInfo?: any;
 }
 
+export interface OrderQuoteItem {
+  productId: string;
+  variantId: string | null;
+  size: string | null;
+  color: string | null;
+  sku: string | null;
+  name: string;
+  quantity: number;
+  price: number;
+  total: number;
+  moq: number | null;
+  stock: number;
+}
+
+// Server-computed totals for one store's order
+export interface OrderQuote {
+  storeId: string;
+  currency: string;
+  deliveryType: string;
+  items: OrderQuoteItem[];
+  subtotal: number;
+  deliveryFee: number;
+  taxAmount: number;
+  discount: number;
+  totalAmount: number;
+  // Whether this buyer may pay this store's order in cash, and why not if they can't
+  cashOnDelivery?: {
+    available: boolean;
+    reason: string | null;
+  };
+}
+
+export interface QuoteOrderData {
+  storeId: string;
+  items: { productId: string; variantId?: string; quantity: number }[];
+  deliveryType?: string;
+}
+
 export interface Order {
   id: string;
   buyerId: string;
   storeId: string;
   status: string;
   paymentStatus: string;
+  paymentMethod?: string | null;
+  cashCollectedAt?: string | null;
   totalAmount: number;
   subtotal: number;
   deliveryFee: number;
@@ -66,6 +105,9 @@ export interface Order {
   store?: any;
   statusHistory?: any[];
   cancelledBy?: String;
+  // Unpaid orders only: stock is held until reservedUntil, after which it goes back on sale
+  reservedUntil?: string | null;
+  reservationExpired?: boolean;
 }
 
 export interface OrdersResponse {
@@ -229,6 +271,28 @@ export const useOrders = () => {
     }
   }, []);
 
+  // Get server-quoted totals before placing an order
+  const getOrderQuote = useCallback(async (quoteData: QuoteOrderData): Promise<OrderQuote> => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await makeRequest<OrderQuote>('/orders/quote', 'POST', quoteData);
+
+      if (response.success && response.data) {
+        return response.data;
+      } else {
+        throw new Error(response.message || 'Failed to get order quote');
+      }
+    } catch (err: any) {
+      setError(err.message);
+      console.error('Get order quote error:', err);
+      throw err;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
   // Get buyer's orders
   const getBuyerOrders = useCallback(async (
     page: number = 1,
@@ -321,28 +385,6 @@ export const useOrders = () => {
     }
   }, []);
 
-  // NEW: Get order by checkout session
-  const getOrderByCheckoutSession = useCallback(async (sessionId: string): Promise<Order | null> => {
-    setLoading(true);
-    setError(null);
-
-    try {
-      const response = await makeRequest<Order>(`/orders/checkout/${sessionId}`, 'GET');
-      
-      if (response.success && response.data) {
-        return response.data;
-      } else {
-        throw new Error(response.message || 'Failed to fetch order by checkout session');
-      }
-    } catch (err: any) {
-      setError(err.message);
-      console.error('Get order by checkout session error:', err);
-      return null;
-    } finally {
-      setLoading(false);
-    }
-  }, []);
-
   // Update order status (seller only)
   const updateOrderStatus = useCallback(async (
     orderId: string,
@@ -373,41 +415,6 @@ export const useOrders = () => {
     }
   }, []);
 
-  // NEW: Update checkout session (useful for payment webhooks/callbacks)
-  const updateCheckoutSession = useCallback(async (
-    orderId: string,
-    checkoutSession: string,
-    paymentStatus?: string,
-    paymentRef?: string
-  ): Promise<Order | null> => {
-    setLoading(true);
-    setError(null);
-
-    try {
-      const response = await makeRequest<Order>(
-        `/orders/${orderId}/checkout`,
-        'PUT',
-        { 
-          checkoutSession,
-          ...(paymentStatus && { paymentStatus }),
-          ...(paymentRef && { paymentRef })
-        }
-      );
-      
-      if (response.success && response.data) {
-        return response.data;
-      } else {
-        throw new Error(response.message || 'Failed to update checkout session');
-      }
-    } catch (err: any) {
-      setError(err.message);
-      console.error('Update checkout session error:', err);
-      return null;
-    } finally {
-      setLoading(false);
-    }
-  }, []);
-
   // Cancel order
   const cancelOrder = useCallback(async (
     orderId: string,
@@ -580,12 +587,11 @@ const cancelUnpaidOrder = useCallback(async (orderId: string): Promise<boolean>
     loading,
     error,
     createOrder,
+    getOrderQuote,
     getBuyerOrders,
     getSellerOrders,
     getOrderById,
-    getOrderByCheckoutSession, // NEW
     updateOrderStatus,
-    updateCheckoutSession, // NEW
     cancelOrder,
 
     getUnpaidOrders,
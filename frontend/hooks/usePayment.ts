@@ -5,40 +5,93 @@ import AsyncStorage from '@react-native-async-storage/async-storage';
 const API_URL = process.env.EXPO_PUBLIC_API_URL;
 
 // Types
+export type MobileMoneyProvider = 'MTN' | 'VODAFONE' | 'AIRTEL_TIGO';
+
+// 'send_otp' waits for a code the buyer received, 'pay_offline' for approval on their phone
+export type MobileMoneyChargeStatus = 'send_otp' | 'pay_offline' | 'pending' | 'ongoing' | 'processing' | 'success' | 'failed';
+
 interface InitiatePaymentData {
   orderId: string;
   email: string;
   amount: number;
   currency?: string;
+  paymentMethod?: 'MOBILE_MONEY';
+  provider?: MobileMoneyProvider;
+  phone?: string;
+}
+
+// FAILED and EXPIRED sessions can be resumed; PAID and PARTIALLY_PAID are final
+export type CheckoutSessionStatus =
+  | 'OPEN'
+  | 'AWAITING_PAYMENT'
+  | 'PAID'
+  | 'PARTIALLY_PAID'
+  | 'FAILED'
+  | 'EXPIRED';
+
+export interface CheckoutSession {
+  id: string;
+  buyerId: string;
+  orderIds: string[];
+  removedOrderIds: string[];
+  totalAmount: number;
+  currency: string;
+  status: CheckoutSessionStatus;
+  paymentRef: string | null;
+  authorizationUrl: string | null;
+  attempts: number;
+  failureReason: string | null;
+  expiresAt: string;
+  paidAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// An order left out of a session because it can no longer be paid
+export interface RemovedSessionOrder {
+  orderId: string;
+  reason: string;
 }
 
 // NEW: Multi-store checkout session data
 interface CreateCheckoutSessionData {
   orderIds: string[];
+}
+
+interface PayCheckoutSessionData {
   email: string;
   callbackUrl?: string;
 }
 
+interface CheckoutSessionOrder {
+  orderId: string;
+  storeId: string;
+  storeName: string;
+  amount: number;
+}
+
 // NEW: Checkout session response
 interface CheckoutSessionResponse {
   success: boolean;
   message: string;
   data: {
     checkoutSessionId: string;
-    authorizationUrl: string;
-    reference: string;
+    status: CheckoutSessionStatus;
     totalAmount: number;
+    currency: string;
     orderCount: number;
-    orders: Array<{
-      orderId: string;
-      storeId: string;
-      storeName: string;
-      amount: number;
-    }>;
-    payments: Array<{
-      paymentId: string;
-      orderId: string;
-    }>;
+    expiresAt: string;
+    orders: CheckoutSessionOrder[];
+    removedOrders: RemovedSessionOrder[];
+  };
+}
+
+interface PayCheckoutSessionResponse {
+  success: boolean;
+  message: string;
+  data: CheckoutSessionResponse['data'] & {
+    authorizationUrl: string;
+    reference: string;
   };
 }
 
@@ -47,9 +100,21 @@ interface PaymentInitiationResponse {
   message: string;
   data: {
     checkoutSessionId: string; // NEW
-    authorizationUrl: string;
+    authorizationUrl: string | null;
     reference: string;
     paymentId: string;
+    chargeStatus?: MobileMoneyChargeStatus;
+    displayText?: string;
+  };
+}
+
+interface MobileMoneyOtpResponse {
+  success: boolean;
+  message: string;
+  data: {
+    reference: string;
+    chargeStatus: MobileMoneyChargeStatus;
+    displayText?: string;
   };
 }
 
@@ -119,11 +184,11 @@ interface Payment {
   };
 }
 
-// NEW: Checkout session payments response
-interface CheckoutSessionPaymentsResponse {
+// NEW: Checkout session with its orders
+interface CheckoutSessionDetailsResponse {
   success: boolean;
   data: {
-    checkoutSession: string;
+    checkoutSession: CheckoutSession;
     orders: Array<{
       id: string;
       status: string;
@@ -152,6 +217,7 @@ interface CheckoutSessionPaymentsResponse {
       totalAmount: number;
       allPaymentsSuccessful: boolean;
       currency: string;
+      canResume: boolean;
     };
   };
 }
@@ -174,6 +240,8 @@ interface PaymentVerificationResponse {
   data: {
     payments: PaymentDetails[]; // Changed to array for multi-store support
     gatewayData: any;
+    gatewayStatus: string;
+    isPending: boolean;
     isMultiStore: boolean; // NEW
   };
 }
@@ -190,7 +258,7 @@ export const usePayment = () => {
   const [paymentDetails, setPaymentDetails] = useState<PaymentDetails | null>(null);
   const [payments, setPayments] = useState<Payment[]>([]);
   const [pagination, setPagination] = useState<PaginationData | null>(null);
-  const [checkoutSessionData, setCheckoutSessionData] = useState<CheckoutSessionPaymentsResponse['data'] | null>(null); // NEW
+  const [checkoutSessionData, setCheckoutSessionData] = useState<CheckoutSessionDetailsResponse['data'] | null>(null); // NEW
 
   // Get authentication token from AsyncStorage
   const getAuthToken = async (): Promise<string | null> => {
@@ -237,6 +305,31 @@ export const usePayment = () => {
     }
   };
 
+  // Start paying a checkout session, or resume one that expired or whose payment failed
+  const payCheckoutSession = async (
+    sessionId: string,
+    paymentData: PayCheckoutSessionData
+  ): Promise<PayCheckoutSessionResponse | null> => {
+    setLoading(true);
+    setError(null);
+    try {
+      const config = await getConfig();
+      const response = await axios.post<PayCheckoutSessionResponse>(
+        `${API_URL}/payments/checkout-session/${sessionId}/pay`,
+        paymentData,
+        config
+      );
+      return response.data;
+    } catch (err) {
+      const axiosError = err as AxiosError<ApiErrorResponse>;
+      const errorMessage = axiosError.response?.data?.message || 'Failed to start payment';
+      setError(errorMessage);
+      throw err;
+    } finally {
+      setLoading(false);
+    }
+  };
+
   // Initiate payment (single order - legacy support)
   const initiatePayment = async (
     paymentData: InitiatePaymentData
@@ -261,6 +354,31 @@ export const usePayment = () => {
     }
   };
 
+  // Send the OTP the buyer received for a mobile money charge
+  const submitMobileMoneyOtp = async (
+    reference: string,
+    otp: string
+  ): Promise<MobileMoneyOtpResponse | null> => {
+    setLoading(true);
+    setError(null);
+    try {
+      const config = await getConfig();
+      const response = await axios.post<MobileMoneyOtpResponse>(
+        `${API_URL}/payments/mobile-money/otp`,
+        { reference, otp },
+        config
+      );
+      return response.data;
+    } catch (err) {
+      const axiosError = err as AxiosError<ApiErrorResponse>;
+      const errorMessage = axiosError.response?.data?.message || 'Failed to submit OTP';
+      setError(errorMessage);
+      throw err;
+    } finally {
+      setLoading(false);
+    }
+  };
+
   // Get payment details by ID
   const getPaymentDetails = async (paymentId: string): Promise<PaymentDetails | null> => {
     setLoading(true);
@@ -283,15 +401,15 @@ export const usePayment = () => {
     }
   };
 
-  // NEW: Get payments by checkout session
-  const getPaymentsByCheckoutSession = async (
+  // Get a checkout session with its orders
+  const getCheckoutSession = async (
     sessionId: string
-  ): Promise<CheckoutSessionPaymentsResponse['data'] | null> => {
+  ): Promise<CheckoutSessionDetailsResponse['data'] | null> => {
     setLoading(true);
     setError(null);
     try {
       const config = await getConfig();
-      const response = await axios.get<CheckoutSessionPaymentsResponse>(
+      const response = await axios.get<CheckoutSessionDetailsResponse>(
         `${API_URL}/payments/checkout-session/${sessionId}`,
         config
       );
@@ -299,7 +417,7 @@ export const usePayment = () => {
       return response.data.data;
     } catch (err) {
       const axiosError = err as AxiosError<ApiErrorResponse>;
-      const errorMessage = axiosError.response?.data?.message || 'Failed to fetch checkout session payments';
+      const errorMessage = axiosError.response?.data?.message || 'Failed to fetch checkout session';
       setError(errorMessage);
       throw err;
     } finally {
@@ -388,9 +506,11 @@ export const usePayment = () => {
     pagination,
     checkoutSessionData, // NEW
     createCheckoutSession, // NEW
+    payCheckoutSession,
     initiatePayment,
+    submitMobileMoneyOtp,
     getPaymentDetails,
-    getPaymentsByCheckoutSession, // NEW
+    getCheckoutSession,
     getUserPayments,
     verifyPayment,
     clearError,
@@ -0,0 +1,211 @@
+import { useState, useCallback } from 'react';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+// Types
+export type TransferStatus = 'INITIATED' | 'SUCCESS' | 'FAILED' | 'REVERSED';
+
+export interface PayoutBucket {
+  amount: number;
+  count: number;
+}
+
+export interface PayoutSummary {
+  currency: string;
+  pendingInEscrow: PayoutBucket;
+  available: PayoutBucket;
+  processing: PayoutBucket;
+  paidOut: PayoutBucket;
+  failed: PayoutBucket;
+}
+
+export interface PayoutTransfer {
+  id: string;
+  orderId: string;
+  escrowId: string;
+  storeId: string | null;
+  amount: number;
+  currency: string;
+  recipientCode: string;
+  transferCode: string | null;
+  transferRef: string | null;
+  disputeId: string | null;
+  status: TransferStatus;
+  reason: string | null;
+  errorMessage: string | null;
+  initiatedAt: string;
+  completedAt: string | null;
+}
+
+export interface PayoutHistoryParams {
+  page?: number;
+  limit?: number;
+  status?: TransferStatus;
+  from?: string;
+  to?: string;
+}
+
+export interface PayoutHistory {
+  transfers: PayoutTransfer[];
+  pagination: {
+    total: number;
+    page: number;
+    limit: number;
+    totalPages: number;
+  };
+}
+
+export interface PayoutVerification {
+  transfer: PayoutTransfer;
+  gatewayStatus: string;
+}
+
+interface ApiResponse<T> {
+  success: boolean;
+  message?: string;
+  data?: T;
+  error?: string;
+}
+
+interface UsePayoutsReturn {
+  loading: boolean;
+  error: string | null;
+  getPayoutSummary: () => Promise<ApiResponse<PayoutSummary>>;
+  getPayoutHistory: (params?: PayoutHistoryParams) => Promise<ApiResponse<PayoutHistory>>;
+  verifyPayout: (transferId: string) => Promise<ApiResponse<PayoutVerification>>;
+  getPayoutStatement: (from: string, to: string) => Promise<string | null>;
+  clearError: () => void;
+}
+
+const API_BASE_URL = process.env.EXPO_PUBLIC_API_URL || 'http://localhost:3000/api';
+
+export const usePayouts = (): UsePayoutsReturn => {
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const getAuthToken = async (): Promise<string | null> => {
+    try {
+      return await AsyncStorage.getItem('token');
+    } catch (err) {
+      console.error('Error retrieving token:', err);
+      return null;
+    }
+  };
+
+  const makeRequest = async <T,>(
+    endpoint: string,
+    options: RequestInit = {}
+  ): Promise<ApiResponse<T>> => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const token = await getAuthToken();
+
+      if (!token) {
+        throw new Error('Authentication token not found');
+      }
+
+      const response = await fetch(`${API_BASE_URL}/payouts${endpoint}`, {
+        ...options,
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`,
+          ...options.headers,
+        },
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || 'Request failed');
+      }
+
+      return data;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'An error occurred';
+      setError(errorMessage);
+      return {
+        success: false,
+        message: errorMessage,
+      };
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const getPayoutSummary = useCallback(async (): Promise<ApiResponse<PayoutSummary>> => {
+    return makeRequest<PayoutSummary>('/summary');
+  }, []);
+
+  const getPayoutHistory = useCallback(
+    async (params: PayoutHistoryParams = {}): Promise<ApiResponse<PayoutHistory>> => {
+      const { page = 1, limit = 20, status, from, to } = params;
+      const queryParams = new URLSearchParams({
+        page: page.toString(),
+        limit: limit.toString(),
+      });
+
+      if (status) queryParams.append('status', status);
+      if (from) queryParams.append('from', from);
+      if (to) queryParams.append('to', to);
+
+      return makeRequest<PayoutHistory>(`/history?${queryParams}`);
+    },
+    []
+  );
+
+  const verifyPayout = useCallback(
+    async (transferId: string): Promise<ApiResponse<PayoutVerification>> => {
+      return makeRequest<PayoutVerification>(`/${transferId}/verify`);
+    },
+    []
+  );
+
+  // The statement comes back as CSV text rather than the usual JSON envelope
+  const getPayoutStatement = useCallback(async (from: string, to: string): Promise<string | null> => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const token = await getAuthToken();
+
+      if (!token) {
+        throw new Error('Authentication token not found');
+      }
+
+      const queryParams = new URLSearchParams({ from, to });
+      const response = await fetch(`${API_BASE_URL}/payouts/statement?${queryParams}`, {
+        headers: {
+          'Authorization': `Bearer ${token}`,
+        },
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.message || 'Failed to download statement');
+      }
+
+      return await response.text();
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'An error occurred';
+      setError(errorMessage);
+      return null;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const clearError = useCallback(() => {
+    setError(null);
+  }, []);
+
+  return {
+    loading,
+    error,
+    getPayoutSummary,
+    getPayoutHistory,
+    verifyPayout,
+    getPayoutStatement,
+    clearError,
+  };
+};
@@ -95,11 +95,57 @@ interface RedeemResponse {
   newPointBalance: number;
 }
 
+type PointsTransactionType =
+  | 'SIGNUP_BONUS'
+  | 'REVIEW_REWARD'
+  | 'REVIEW_REVERSAL'
+  | 'REDEMPTION'
+  | 'REFUND_REVERSAL'
+  | 'ADMIN_ADJUSTMENT'
+  | 'EXPIRY'
+  | 'ORDER_REWARD'
+  | 'FIRST_ORDER_BONUS'
+  | 'REVIEW_PHOTO_BONUS'
+  | 'REFERRAL_BONUS';
+
+interface PointsTransaction {
+  id: string;
+  userId: string;
+  type: PointsTransactionType;
+  points: number;
+  balanceAfter: number;
+  remaining: number;
+  expiresAt: string | null;
+  description: string | null;
+  orderId: string | null;
+  reviewId: string | null;
+  createdAt: string;
+  order: {
+    id: string;
+    status: string;
+    totalAmount: number;
+    items: {
+      quantity: number;
+      product: {
+        id: string;
+        name: string;
+        images: string[];
+      };
+    }[];
+    store: {
+      id: string;
+      name: string;
+      url: string;
+    };
+  } | null;
+}
+
 interface PointsHistoryData {
-  orders: Order[];
+  transactions: PointsTransaction[];
   summary: {
-    totalRedemptions: number;
-    totalPointsRedeemed: number;
+    totalEarned: number;
+    totalSpent: number;
+    balance: number;
     conversionRate: number;
   };
   pagination: {
@@ -299,5 +345,7 @@ export type {
   Order,
   OrderItem,
   RedeemResponse,
+  PointsTransactionType,
+  PointsTransaction,
   PointsHistoryData,
 };
\ No newline at end of file
@@ -1,4 +1,5 @@
 import { useState, useCallback } from 'react';
+import AsyncStorage from '@react-native-async-storage/async-storage';
 
 interface Store {
   id: string;
@@ -31,6 +32,11 @@ interface Product {
   createdAt: string;
   updatedAt: string;
   store?: Store;
+  // Only on personalised recommendations
+  recommendationScore?: number;
+  recommendationReason?: 'bought_together' | 'similar';
+  // Only on trending products
+  trendingScore?: number;
 }
 
 interface TopSellingFilters {
@@ -52,7 +58,7 @@ interface YouMayLikeFilters {
 interface TrendingFilters {
   limit?: number;
   category?: string;
-  days?: number;
+  region?: string;
 }
 
 interface TopSellingResponse {
@@ -72,10 +78,14 @@ interface RecommendedResponse {
 interface YouMayLikeResponse {
   products: Product[];
   count: number;
-  mix: {
+  mix?: {
     popular: number;
     random: number;
   };
+  // Set when the products came from the signed-in buyer's own behaviour; false means
+  // there wasn't enough of it yet and best sellers were returned instead
+  personalised?: boolean;
+  generatedAt?: string;
 }
 
 interface TrendingResponse {
@@ -93,6 +103,16 @@ interface ApiResponse<T> {
 }
 
 const API_BASE_URL = process.env.EXPO_PUBLIC_API_URL;
+const TOKEN_KEY = 'token';
+
+const getAuthToken = async (): Promise<string | null> => {
+  try {
+    return await AsyncStorage.getItem(TOKEN_KEY);
+  } catch (err) {
+    console.error('Error getting auth token:', err);
+    return null;
+  }
+};
 
 export const useProductRecommendations = () => {
   const [loading, setLoading] = useState(false);
@@ -198,7 +218,7 @@ export const useProductRecommendations = () => {
     []
   );
 
-  // Get products you may like
+  // Get products you may like, personalised for signed-in buyers
   const getProductsYouMayLike = useCallback(
     async (filters?: YouMayLikeFilters): Promise<YouMayLikeResponse | null> => {
       setLoading(true);
@@ -214,15 +234,29 @@ export const useProductRecommendations = () => {
             queryParams.append('excludeProductId', filters.excludeProductId);
         }
 
-        const response = await fetch(
-          `${API_BASE_URL}/products/you-may-like?${queryParams.toString()}`,
-          {
-            method: 'GET',
-            headers: {
-              'Content-Type': 'application/json',
-            },
-          }
-        );
+        const token = await getAuthToken();
+        let response = token
+          ? await fetch(`${API_BASE_URL}/products/for-you?${queryParams.toString()}`, {
+              method: 'GET',
+              headers: {
+                'Content-Type': 'application/json',
+                Authorization: `Bearer ${token}`,
+              },
+            })
+          : null;
+
+        // Guests, and buyers whose session has lapsed, get the general picks
+        if (!response || response.status === 401) {
+          response = await fetch(
+            `${API_BASE_URL}/products/you-may-like?${queryParams.toString()}`,
+            {
+              method: 'GET',
+              headers: {
+                'Content-Type': 'application/json',
+              },
+            }
+          );
+        }
 
         const result: ApiResponse<YouMayLikeResponse> = await response.json();
 
@@ -260,7 +294,7 @@ export const useProductRecommendations = () => {
         if (filters) {
           if (filters.limit) queryParams.append('limit', filters.limit.toString());
           if (filters.category) queryParams.append('category', filters.category);
-          if (filters.days) queryParams.append('days', filters.days.toString());
+          if (filters.region) queryParams.append('region', filters.region);
         }
 
         const response = await fetch(
@@ -11,6 +11,28 @@ interface Store {
   location?: string;
 }
 
+export interface ProductVariant {
+  id: string;
+  productId: string;
+  sku: string;
+  size: string | null;
+  color: string | null;
+  stock: number;
+  price: number | null; // Overrides the product price when set
+  isActive: boolean;
+  heldStock?: number; // Seller listings only: reserved by unpaid orders
+}
+
+// What the seller submits; variants without an id are matched by size/color or created
+export interface ProductVariantInput {
+  id?: string;
+  size: string | null;
+  color: string | null;
+  sku?: string;
+  stock: number;
+  price?: number | null;
+}
+
 interface Product {
   id: string;
   storeId: string;
@@ -33,6 +55,26 @@ interface Product {
   createdAt: string;
   updatedAt: string;
   store?: Store;
+  variants?: ProductVariant[];
+  heldStock?: number; // Seller listings only: reserved by unpaid orders
+  relevance?: number; // Search results only
+  highlight?: SearchHighlight | null; // Search results only: matched words wrapped in <mark></mark>
+  trendingScore?: number; // Trending results only
+}
+
+export interface SearchHighlight {
+  name: string;
+  description: string | null;
+}
+
+export interface SearchSuggestions {
+  products: {
+    name: string;
+    url: string;
+    image: string | null;
+    price: number;
+  }[];
+  terms: string[];
 }
 
 interface CreateProductData {
@@ -48,6 +90,7 @@ interface CreateProductData {
   sellerNote?: string;
   moq?: number;
   images?: ImagePicker.ImagePickerAsset[];
+  variants?: ProductVariantInput[];
 }
 
 interface UpdateProductData {
@@ -64,6 +107,7 @@ interface UpdateProductData {
   moq?: number;
   isActive?: boolean;
   images?: ImagePicker.ImagePickerAsset[];
+  variants?: ProductVariantInput[];
 }
 
 interface ProductFilters {
@@ -76,20 +120,61 @@ interface ProductFilters {
   tags?: string[];
   sizes?: string[];
   color?: string[];
-  sortBy?: 'name' | 'price' | 'createdAt' | 'quantityBought' | 'viewCount';
+  region?: string[];
+  minRating?: number;
+  verified?: boolean;
+  sortBy?: 'relevance' | 'name' | 'price' | 'createdAt' | 'quantityBought' | 'viewCount';
   sortOrder?: 'asc' | 'desc';
 }
 
+export interface FacetValue {
+  value: string;
+  count: number;
+  selected: boolean;
+}
+
+export interface PriceBandFacet {
+  key: string;
+  label: string;
+  min: number;
+  max: number | null;
+  count: number;
+  selected: boolean;
+}
+
+export interface RatingFacet {
+  minRating: number;
+  label: string;
+  count: number;
+  selected: boolean;
+}
+
+export interface ProductFacets {
+  total: number;
+  facets: {
+    categories: FacetValue[];
+    regions: FacetValue[];
+    sizes: FacetValue[];
+    colors: FacetValue[];
+    tags: FacetValue[];
+    priceBands: PriceBandFacet[];
+    ratings: RatingFacet[];
+    verified: { count: number; selected: boolean };
+  };
+}
+
 interface PaginationData {
   page: number;
   limit: number;
   total: number;
   pages: number;
+  capped?: boolean; // A search hit its match limit, so total is a lower bound
 }
 
 interface ProductListResponse {
   products: Product[];
   pagination: PaginationData;
+  suggestion?: string | null; // "Did you mean" for searches with a likely typo
   filters: any;
 }
 
@@ -112,7 +197,7 @@ interface YouMayLikeFilters {
 interface TrendingFilters {
   limit?: number;
   category?: string;
-  days?: number;
+  region?: string;
 }
 
 interface TopSellingResponse {
@@ -155,12 +240,41 @@ interface ApiResponse<T> {
 const API_BASE_URL = process.env.EXPO_PUBLIC_API_URL;
 const TOKEN_KEY = 'token';
 
+// Query string shared by the marketplace product list and its facet counts
+const buildProductQuery = (filters?: ProductFilters): URLSearchParams => {
+  const queryParams = new URLSearchParams();
+
+  if (filters) {
+    if (filters.page) queryParams.append('page', filters.page.toString());
+    if (filters.limit) queryParams.append('limit', filters.limit.toString());
+    if (filters.search) queryParams.append('search', filters.search);
+    if (filters.category) queryParams.append('category', filters.category);
+    if (filters.minPrice) queryParams.append('minPrice', filters.minPrice.toString());
+    if (filters.maxPrice) queryParams.append('maxPrice', filters.maxPrice.toString());
+    if (filters.tags && filters.tags.length > 0)
+      queryParams.append('tags', filters.tags.join(','));
+    if (filters.sizes && filters.sizes.length > 0)
+      queryParams.append('sizes', filters.sizes.join(','));
+    if (filters.color && filters.color.length > 0)
+      queryParams.append('color', filters.color.join(','));
+    if (filters.region && filters.region.length > 0)
+      queryParams.append('region', filters.region.join(','));
+    if (filters.minRating) queryParams.append('minRating', filters.minRating.toString());
+    if (filters.verified) queryParams.append('verified', 'true');
+    if (filters.sortBy) queryParams.append('sortBy', filters.sortBy);
+    if (filters.sortOrder) queryParams.append('sortOrder', filters.sortOrder);
+  }
+
+  return queryParams;
+};
+
 export const useProduct = () => {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [products, setProducts] = useState<Product[]>([]);
   const [product, setProduct] = useState<Product | null>(null);
   const [pagination, setPagination] = useState<PaginationData | null>(null);
+  const [searchSuggestion, setSearchSuggestion] = useState<string | null>(null);
   const [topSellingProducts, setTopSellingProducts] = useState<Product[]>([]);
   const [recommendedProducts, setRecommendedProducts] = useState<Product[]>([]);
   const [youMayLikeProducts, setYouMayLikeProducts] = useState<Product[]>([]);
@@ -183,7 +297,10 @@ export const useProduct = () => {
 
     Object.entries(data).forEach(([key, value]) => {
       if (value !== undefined && key !== 'images') {
-        if (Array.isArray(value)) {
+        if (key === 'variants') {
+          // Objects can't be sent as multipart fields, so variants go as JSON
+          formData.append(key, JSON.stringify(value));
+        } else if (Array.isArray(value)) {
           value.forEach((item) => {
             formData.append(`${key}[]`, item.toString());
           });
@@ -338,10 +455,13 @@ export const useProduct = () => {
     setError(null);
 
     try {
+      // Signed-in visits count towards the buyer's recommendations
+      const token = await getAuthToken();
       const response = await fetch(`${API_BASE_URL}/products/product/${productUrl}`, {
         method: 'GET',
         headers: {
           'Content-Type': 'application/json',
+          ...(token && { Authorization: `Bearer ${token}` }),
         },
       });
 
@@ -481,24 +601,7 @@ export const useProduct = () => {
       setError(null);
 
       try {
-        const queryParams = new URLSearchParams();
-        
-        if (filters) {
-          if (filters.page) queryParams.append('page', filters.page.toString());
-          if (filters.limit) queryParams.append('limit', filters.limit.toString());
-          if (filters.search) queryParams.append('search', filters.search);
-          if (filters.category) queryParams.append('category', filters.category);
-          if (filters.minPrice) queryParams.append('minPrice', filters.minPrice.toString());
-          if (filters.maxPrice) queryParams.append('maxPrice', filters.maxPrice.toString());
-          if (filters.tags && filters.tags.length > 0) 
-            queryParams.append('tags', filters.tags.join(','));
-          if (filters.sizes && filters.sizes.length > 0) 
-            queryParams.append('sizes', filters.sizes.join(','));
-          if (filters.color && filters.color.length > 0) 
-            queryParams.append('color', filters.color.join(','));
-          if (filters.sortBy) queryParams.append('sortBy', filters.sortBy);
-          if (filters.sortOrder) queryParams.append('sortOrder', filters.sortOrder);
-        }
+        const queryParams = buildProductQuery(filters);
 
         const response = await fetch(
           `${API_BASE_URL}/products?${queryParams.toString()}`,
@@ -519,6 +622,7 @@ export const useProduct = () => {
         if (result.data) {
           setProducts(result.data.products);
           setPagination(result.data.pagination);
+          setSearchSuggestion(result.data.suggestion || null);
           return result.data;
         }
 
@@ -535,6 +639,63 @@ export const useProduct = () => {
     []
   );
 
+  // Live counts for the filter sheet; like autocomplete, leaves the shared loading state alone
+  const getProductFacets = useCallback(
+    async (filters?: ProductFilters): Promise<ProductFacets | null> => {
+      try {
+        const response = await fetch(
+          `${API_BASE_URL}/products/facets?${buildProductQuery(filters).toString()}`,
+          {
+            method: 'GET',
+            headers: {
+              'Content-Type': 'application/json',
+            },
+          }
+        );
+
+        const result: ApiResponse<ProductFacets> = await response.json();
+
+        if (!response.ok || !result.success) {
+          throw new Error(result.message || 'Failed to fetch filters');
+        }
+
+        return result.data || null;
+      } catch (err: any) {
+        console.error('Get product facets error:', err);
+        return null;
+      }
+    },
+    []
+  );
+
+  // Autocomplete for the search bar; doesn't touch the shared loading state so the list doesn't flicker while typing
+  const getSearchSuggestions = useCallback(
+    async (query: string): Promise<SearchSuggestions | null> => {
+      try {
+        const response = await fetch(
+          `${API_BASE_URL}/products/search/suggest?q=${encodeURIComponent(query)}`,
+          {
+            method: 'GET',
+            headers: {
+              'Content-Type': 'application/json',
+            },
+          }
+        );
+
+        const result: ApiResponse<SearchSuggestions> = await response.json();
+
+        if (!response.ok || !result.success) {
+          throw new Error(result.message || 'Failed to fetch search suggestions');
+        }
+
+        return result.data || null;
+      } catch (err: any) {
+        console.error('Get search suggestions error:', err);
+        return null;
+      }
+    },
+    []
+  );
 
   const getTopSellingProducts = useCallback(
     async (filters?: TopSellingFilters): Promise<TopSellingResponse | null> => {
@@ -693,7 +854,7 @@ export const useProduct = () => {
         if (filters) {
           if (filters.limit) queryParams.append('limit', filters.limit.toString());
           if (filters.category) queryParams.append('category', filters.category);
-          if (filters.days) queryParams.append('days', filters.days.toString());
+          if (filters.region) queryParams.append('region', filters.region);
         }
 
         const response = await fetch(
@@ -772,6 +933,7 @@ export const useProduct = () => {
     product,
     products,
     pagination,
+    searchSuggestion,
     loading,
     error,
     createProduct,
@@ -781,6 +943,8 @@ export const useProduct = () => {
     getStoreProducts,
     getUserProducts,
     getAllProducts,
+    getSearchSuggestions,
+    getProductFacets,
     clearError,
     clearProduct,
     clearProducts,
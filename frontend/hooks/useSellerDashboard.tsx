@@ -11,12 +11,23 @@ interface DashboardSummary {
   confirmedOrders: number;
   shippedOrders: number;
   deliveredOrders: number;
+  cashOnDelivery?: {
+    collected: CashOnDeliveryTotals;
+    awaitingCollection: CashOnDeliveryTotals;
+  };
+}
+
+interface CashOnDeliveryTotals {
+  orders: number;
+  amount: number;
 }
 
 interface SalesDataPoint {
   date: string;
   revenue: number;
   orders: number;
+  cashOnDeliveryRevenue?: number;
+  cashOnDeliveryOrders?: number;
 }
 
 interface SalesAnalytics {
@@ -53,6 +64,102 @@ interface StorePerformance {
   conversionRate: number;
 }
 
+interface CouponReportRow {
+  couponId: string;
+  code: string;
+  scope: 'STORE' | 'PLATFORM';
+  type: 'PERCENTAGE' | 'FIXED_AMOUNT' | 'FREE_DELIVERY';
+  value: number;
+  isActive: boolean;
+  expiresAt: string | null;
+  usageLimit: number | null;
+  redemptions: number;
+  released: number;
+  paidOrders: number;
+  totalDiscount: number;
+  revenue: number;
+}
+
+interface CouponPerformance {
+  coupons: CouponReportRow[];
+  totals: {
+    redemptions: number;
+    totalDiscount: number;
+    revenue: number;
+  };
+}
+
+interface RecoveredTotals {
+  orders: number;
+  revenue: number;
+}
+
+interface RecoveryPerformance {
+  enabled: boolean;
+  couponType: 'PERCENTAGE' | 'FIXED_AMOUNT' | 'FREE_DELIVERY' | null;
+  couponValue: number | null;
+  activeCampaigns: number;
+  remindersSent: number;
+  recoveredOrders: number;
+  recoveredRevenue: number;
+  conversionRate: number;
+  byType: {
+    carts: RecoveredTotals;
+    unpaidOrders: RecoveredTotals;
+  };
+}
+
+export type FunnelPeriod = '7d' | '30d' | '90d';
+
+export interface FunnelStages {
+  views: number;
+  likes: number;
+  addToCarts: number;
+  orders: number;
+  completed: number;
+}
+
+// Percentages of one stage that reached the next
+interface FunnelConversion {
+  viewToLike: number;
+  viewToCart: number;
+  cartToOrder: number;
+  orderToCompleted: number;
+  viewToOrder: number;
+}
+
+export interface FunnelDay extends FunnelStages {
+  date: string;
+}
+
+interface ProductFunnelRow {
+  id: string;
+  name: string;
+  url: string;
+  image: string | null;
+  isActive: boolean;
+  totals: FunnelStages;
+  conversion: FunnelConversion;
+}
+
+interface ProductFunnelAnalytics {
+  period: FunnelPeriod;
+  totals: FunnelStages;
+  conversion: FunnelConversion;
+  series: FunnelDay[];
+  products: ProductFunnelRow[];
+}
+
+export interface ProductFunnel {
+  period: FunnelPeriod;
+  productId: string;
+  name: string;
+  lifetimeViews: number;
+  totals: FunnelStages;
+  conversion: FunnelConversion;
+  series: FunnelDay[];
+}
+
 interface ApiResponse<T> {
   success: boolean;
   data: T;
@@ -66,6 +173,9 @@ interface UseSellerDashboardReturn {
   topProducts: TopSellingProducts | null;
   orderAnalytics: OrderAnalytics | null;
   storePerformance: StorePerformance | null;
+  couponPerformance: CouponPerformance | null;
+  recoveryPerformance: RecoveryPerformance | null;
+  productFunnels: ProductFunnelAnalytics | null;
   loading: boolean;
   error: string | null;
   fetchSummary: () => Promise<void>;
@@ -73,6 +183,10 @@ interface UseSellerDashboardReturn {
   fetchTopProducts: (limit?: number) => Promise<void>;
   fetchOrderAnalytics: () => Promise<void>;
   fetchStorePerformance: () => Promise<void>;
+  fetchCouponPerformance: () => Promise<void>;
+  fetchRecoveryPerformance: () => Promise<void>;
+  fetchProductFunnels: (period?: FunnelPeriod) => Promise<void>;
+  getProductFunnel: (productId: string, period?: FunnelPeriod) => Promise<ProductFunnel | null>;
   refreshAll: () => Promise<void>;
 }
 
@@ -84,6 +198,9 @@ export const useSellerDashboard = (): UseSellerDashboardReturn => {
   const [topProducts, setTopProducts] = useState<TopSellingProducts | null>(null);
   const [orderAnalytics, setOrderAnalytics] = useState<OrderAnalytics | null>(null);
   const [storePerformance, setStorePerformance] = useState<StorePerformance | null>(null);
+  const [couponPerformance, setCouponPerformance] = useState<CouponPerformance | null>(null);
+  const [recoveryPerformance, setRecoveryPerformance] = useState<RecoveryPerformance | null>(null);
+  const [productFunnels, setProductFunnels] = useState<ProductFunnelAnalytics | null>(null);
   const [loading, setLoading] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -203,6 +320,69 @@ export const useSellerDashboard = (): UseSellerDashboardReturn => {
     }
   }, []);
 
+  const fetchCouponPerformance = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const data = await makeAuthenticatedRequest<CouponPerformance>('/coupons');
+      setCouponPerformance(data.data);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to fetch coupon performance';
+      setError(errorMessage);
+      console.error('Error fetching coupon performance:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const fetchRecoveryPerformance = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const data = await makeAuthenticatedRequest<RecoveryPerformance>('/recovery');
+      setRecoveryPerformance(data.data);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to fetch recovery performance';
+      setError(errorMessage);
+      console.error('Error fetching recovery performance:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const fetchProductFunnels = useCallback(async (period: FunnelPeriod = '30d') => {
+    try {
+      setLoading(true);
+      setError(null);
+      const data = await makeAuthenticatedRequest<ProductFunnelAnalytics>(
+        `/product-funnel?period=${period}`
+      );
+      setProductFunnels(data.data);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to fetch product funnel';
+      setError(errorMessage);
+      console.error('Error fetching product funnel:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  // One product's funnel for its details screen; leaves the dashboard's loading and error alone
+  const getProductFunnel = useCallback(
+    async (productId: string, period: FunnelPeriod = '30d'): Promise<ProductFunnel | null> => {
+      try {
+        const data = await makeAuthenticatedRequest<ProductFunnel>(
+          `/product-funnel/${productId}?period=${period}`
+        );
+        return data.data;
+      } catch (err) {
+        console.error('Error fetching product funnel:', err);
+        return null;
+      }
+    },
+    []
+  );
+
   const refreshAll = useCallback(async () => {
     try {
       setLoading(true);
@@ -213,6 +393,9 @@ export const useSellerDashboard = (): UseSellerDashboardReturn => {
         fetchTopProducts(),
         fetchOrderAnalytics(),
         fetchStorePerformance(),
+        fetchCouponPerformance(),
+        fetchRecoveryPerformance(),
+        fetchProductFunnels(),
       ]);
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Failed to refresh dashboard';
@@ -221,7 +404,7 @@ export const useSellerDashboard = (): UseSellerDashboardReturn => {
     } finally {
       setLoading(false);
     }
-  }, [fetchSummary, fetchSalesAnalytics, fetchTopProducts, fetchOrderAnalytics, fetchStorePerformance]);
+  }, [fetchSummary, fetchSalesAnalytics, fetchTopProducts, fetchOrderAnalytics, fetchStorePerformance, fetchCouponPerformance, fetchRecoveryPerformance, fetchProductFunnels]);
 
   return {
     summary,
@@ -229,6 +412,9 @@ export const useSellerDashboard = (): UseSellerDashboardReturn => {
     topProducts,
     orderAnalytics,
     storePerformance,
+    couponPerformance,
+    recoveryPerformance,
+    productFunnels,
     loading,
     error,
     fetchSummary,
@@ -236,6 +422,10 @@ export const useSellerDashboard = (): UseSellerDashboardReturn => {
     fetchTopProducts,
     fetchOrderAnalytics,
     fetchStorePerformance,
+    fetchCouponPerformance,
+    fetchRecoveryPerformance,
+    fetchProductFunnels,
+    getProductFunnel,
     refreshAll,
   };
 };
\ No newline at end of file
@@ -20,6 +20,18 @@ interface UpdateStoreData {
   logo?: ImagePicker.ImagePickerAsset;
 }
 
+interface CashOnDeliverySettings {
+  codEnabled?: boolean;
+  codMaxOrderValue?: number | null;
+  codMinCompletedOrders?: number;
+}
+
+interface RecoverySettings {
+  recoveryEnabled?: boolean;
+  recoveryCouponType?: Store['recoveryCouponType'];
+  recoveryCouponValue?: number | null;
+}
+
 interface ApiResponse<T> {
   success: boolean;
   message?: string;
@@ -321,6 +333,84 @@ export const useStore = () => {
     }
   }, []);
 
+  // Update cash on delivery settings for the seller's store
+  const updateCashOnDeliverySettings = useCallback(async (
+    settings: CashOnDeliverySettings
+  ): Promise<CashOnDeliverySettings | null> => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const token = await getAuthToken();
+      if (!token) {
+        throw new Error('Authentication required');
+      }
+
+      const response = await fetch(`${API_BASE_URL}/stores/my-store/cash-on-delivery`, {
+        method: 'PUT',
+        headers: {
+          Authorization: `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(settings),
+      });
+
+      const result: ApiResponse<CashOnDeliverySettings> = await response.json();
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.message || 'Failed to update cash on delivery settings');
+      }
+
+      return result.data || null;
+    } catch (err: any) {
+      const errorMessage = err.message || 'An error occurred while updating cash on delivery settings';
+      setError(errorMessage);
+      console.error('Update cash on delivery settings error:', err);
+      return null;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  // Update abandoned cart and unpaid order reminder settings for the seller's store
+  const updateRecoverySettings = useCallback(async (
+    settings: RecoverySettings
+  ): Promise<RecoverySettings | null> => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const token = await getAuthToken();
+      if (!token) {
+        throw new Error('Authentication required');
+      }
+
+      const response = await fetch(`${API_BASE_URL}/stores/my-store/recovery`, {
+        method: 'PUT',
+        headers: {
+          Authorization: `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(settings),
+      });
+
+      const result: ApiResponse<RecoverySettings> = await response.json();
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.message || 'Failed to update recovery settings');
+      }
+
+      return result.data || null;
+    } catch (err: any) {
+      const errorMessage = err.message || 'An error occurred while updating recovery settings';
+      setError(errorMessage);
+      console.error('Update recovery settings error:', err);
+      return null;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
   // Get public store by ID
   const getStoreById = useCallback(async (id: string): Promise<Store | null> => {
     setLoading(true);
@@ -382,6 +472,8 @@ export const useStore = () => {
     error,
     createStore,
     updateStore,
+    updateCashOnDeliverySettings,
+    updateRecoverySettings,
     deleteStore,
     getStoreBySlug,
     getUserStore,
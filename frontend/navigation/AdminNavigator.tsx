@@ -19,6 +19,7 @@ import AllPendingStoreVerificationsScreen from '../screens/admin/PendingStoreVer
 import VerificationDetailsScreen from '../screens/admin/VerificationDetails';
 import SellerPublicProductsScreen from '../screens/seller/SellerPublicProductsScreen';
 import AdminEscrowScreen from '../screens/admin/AdminEscrowScreen'
+import LoyaltyRulesScreen from '../screens/admin/LoyaltyRulesScreen';
 
 const Tab = createBottomTabNavigator<AdminStackParamList>();
 const Stack = createNativeStackNavigator<AdminStackParamList>();
@@ -84,6 +85,7 @@ const AdminNavigator: React.FC = () => {
       <Stack.Screen name="VerificationDetails" component={VerificationDetailsScreen} />
       <Stack.Screen name="SellerPublicProducts" component={SellerPublicProductsScreen} />
       <Stack.Screen name="AdminEscrow" component={AdminEscrowScreen} />
+      <Stack.Screen name="LoyaltyRules" component={LoyaltyRulesScreen} />
 
       {/* Add more admin-related screens here if needed */}
     </Stack.Navigator>
@@ -213,6 +213,12 @@ export default function AdminDashboardScreen({ navigation }: AdminDashboardProps
               color={Colors.warning}
               onPress={() => navigation.navigate('AdminEscrow')}
             />
+            <QuickActionCard
+              icon="gift"
+              label="Loyalty"
+              color={Colors.info}
+              onPress={() => navigation.navigate('LoyaltyRules')}
+            />
           </View>
         </View>
 
@@ -307,6 +313,12 @@ export default function AdminDashboardScreen({ navigation }: AdminDashboardProps
                       {formatCurrency(salesAnalytics.totals.averageOrderValue)}
                     </Text>
                   </View>
+                  <View style={styles.revenueStatItem}>
+                    <Text style={styles.revenueStatLabel}>Platform Fees</Text>
+                    <Text style={styles.revenueStatValue}>
+                      {formatCurrency(salesAnalytics.totals.platformRevenue)}
+                    </Text>
+                  </View>
                 </View>
               </View>
               <View style={styles.chartPlaceholder}>
@@ -399,6 +411,11 @@ export default function AdminDashboardScreen({ navigation }: AdminDashboardProps
                     {dashboardSummary.pending.disputes} pending dispute
                     {dashboardSummary.pending.disputes !== 1 ? 's' : ''}
                   </Text>
+                  {pendingDisputes?.sla && (pendingDisputes.sla.escalated > 0 || pendingDisputes.sla.breached > 0) && (
+                    <Text style={[styles.pendingSubtitle, { color: Colors.error }]}>
+                      {pendingDisputes.sla.escalated} escalated · {pendingDisputes.sla.breached} missed a deadline
+                    </Text>
+                  )}
                 </View>
                 <View style={styles.pendingBadge}>
                   <Text style={styles.pendingBadgeText}>
@@ -11,22 +11,51 @@ import {
   TextInput,
 } from 'react-native';
 import { useNavigation } from '@react-navigation/native';
-import { useDisputes, Dispute, DisputeStatus, DisputeType } from '../../hooks/useDisputes';
+import {
+  useDisputes,
+  Dispute,
+  DisputeStatus,
+  DisputeStatusFilter,
+  DisputeType,
+  DisputeMediaFile,
+  DisputeMessagesResponse,
+  isDisputeOpen,
+} from '../../hooks/useDisputes';
 import { Colors } from '../../constants/colors';
+import DisputeThread from '../../components/DisputeThread';
 
 const AdminDisputesScreen = () => {
   const navigation = useNavigation();
-  const { loading, error, getAllDisputes, clearError } = useDisputes();
+  const {
+    loading,
+    error,
+    getAllDisputes,
+    getDisputeMessages,
+    sendDisputeMessage,
+    clearError,
+  } = useDisputes();
 
   const [disputes, setDisputes] = useState<Dispute[]>([]);
   const [refreshing, setRefreshing] = useState(false);
   const [page, setPage] = useState(1);
   const [totalPages, setTotalPages] = useState(1);
-  const [selectedStatus, setSelectedStatus] = useState<DisputeStatus | 'ALL'>('ALL');
+  const [selectedStatus, setSelectedStatus] = useState<DisputeStatusFilter | 'ALL'>('ALL');
   const [selectedType, setSelectedType] = useState<DisputeType | 'ALL'>('ALL');
   const [searchQuery, setSearchQuery] = useState('');
+  const [expandedThreadId, setExpandedThreadId] = useState<string | null>(null);
+  const [threads, setThreads] = useState<Record<string, DisputeMessagesResponse>>({});
+  const [threadLoadingId, setThreadLoadingId] = useState<string | null>(null);
 
-  const statusFilters: (DisputeStatus | 'ALL')[] = ['ALL', 'PENDING', 'RESOLVED', 'CANCELLED'];
+  const statusFilters: (DisputeStatusFilter | 'ALL')[] = [
+    'ALL',
+    'OPEN',
+    'ESCALATED',
+    'AWAITING_SELLER',
+    'AWAITING_BUYER',
+    'UNDER_REVIEW',
+    'RESOLVED',
+    'CANCELLED',
+  ];
   const typeFilters: (DisputeType | 'ALL')[] = [
     'ALL',
     'REFUND_REQUEST',
@@ -86,10 +115,51 @@ const AdminDisputesScreen = () => {
     (navigation as any).navigate('DisputeDetails' as never, { disputeId } as never);
   };
 
+  const loadThread = async (disputeId: string) => {
+    setThreadLoadingId(disputeId);
+    const thread = await getDisputeMessages(disputeId);
+    if (thread) {
+      setThreads((prev) => ({ ...prev, [disputeId]: thread }));
+    }
+    setThreadLoadingId(null);
+  };
+
+  const toggleThread = (disputeId: string) => {
+    if (expandedThreadId === disputeId) {
+      setExpandedThreadId(null);
+      return;
+    }
+    setExpandedThreadId(disputeId);
+    loadThread(disputeId);
+  };
+
+  const handleSendMessage = async (
+    disputeId: string,
+    message: string,
+    media: DisputeMediaFile[]
+  ) => {
+    const sent = await sendDisputeMessage(disputeId, message, media);
+    if (sent) {
+      await loadThread(disputeId);
+    }
+    return !!sent;
+  };
+
+  const isDeadlineOverdue = (dispute: Dispute) =>
+    isDisputeOpen(dispute.status) &&
+    !!dispute.deadlineAt &&
+    new Date(dispute.deadlineAt) < new Date();
+
   const getStatusColor = (status: DisputeStatus) => {
     switch (status) {
       case 'PENDING':
+      case 'AWAITING_SELLER':
+      case 'AWAITING_BUYER':
+      case 'UNDER_REVIEW':
+      case 'RESOLVING':
         return Colors.warning;
+      case 'ESCALATED':
+        return Colors.error;
       case 'RESOLVED':
         return Colors.success;
       case 'CANCELLED':
@@ -121,7 +191,7 @@ const AdminDisputesScreen = () => {
           <Text style={styles.disputeId}>Dispute #{item.id.slice(0, 8)}</Text>
           <View style={[styles.statusBadge, { backgroundColor: `${getStatusColor(item.status)}20` }]}>
             <Text style={[styles.statusText, { color: getStatusColor(item.status) }]}>
-              {item.status}
+              {item.status.replace(/_/g, ' ')}
             </Text>
           </View>
         </View>
@@ -164,6 +234,45 @@ const AdminDisputesScreen = () => {
           </Text>
         </View>
 
+        <View style={styles.infoRow}>
+          <Text style={styles.label}>Seller Response:</Text>
+          <Text style={styles.value}>
+            {item.sellerRespondedAt ? 'Responded' : 'Waiting'}
+          </Text>
+        </View>
+
+        <View style={styles.infoRow}>
+          <Text style={styles.label}>Next Deadline:</Text>
+          <Text style={[styles.value, isDeadlineOverdue(item) && styles.overdueText]}>
+            {!isDisputeOpen(item.status) || !item.deadlineAt
+              ? 'N/A'
+              : isDeadlineOverdue(item)
+              ? 'Overdue'
+              : new Date(item.deadlineAt).toLocaleDateString('en-US', {
+                  month: 'short',
+                  day: 'numeric',
+                  hour: '2-digit',
+                  minute: '2-digit',
+                })}
+          </Text>
+        </View>
+
+        {!!item.slaBreachCount && (
+          <View style={styles.infoRow}>
+            <Text style={styles.label}>Missed Deadlines:</Text>
+            <Text style={[styles.value, styles.overdueText]}>{item.slaBreachCount}</Text>
+          </View>
+        )}
+
+        {item.recommendedOutcome && isDisputeOpen(item.status) && (
+          <View style={styles.infoRow}>
+            <Text style={styles.label}>Recommended:</Text>
+            <Text style={styles.value}>
+              {item.recommendedOutcome === 'REFUND_BUYER' ? 'Refund buyer' : 'Release to seller'}
+            </Text>
+          </View>
+        )}
+
         <View style={styles.descriptionContainer}>
           <Text style={styles.label}>Description:</Text>
           <Text style={styles.description} numberOfLines={2}>
@@ -172,6 +281,29 @@ const AdminDisputesScreen = () => {
         </View>
       </View>
 
+      <TouchableOpacity style={styles.threadToggle} onPress={() => toggleThread(item.id)}>
+        <Text style={styles.threadToggleText}>
+          {expandedThreadId === item.id ? 'Hide Thread' : 'Show Thread'}
+          {item._count ? ` (${item._count.messages})` : ''}
+        </Text>
+      </TouchableOpacity>
+
+      {expandedThreadId === item.id && (
+        <View style={styles.threadContainer}>
+          {threadLoadingId === item.id && !threads[item.id] ? (
+            <ActivityIndicator color={Colors.primary} />
+          ) : (
+            <DisputeThread
+              messages={threads[item.id]?.messages || []}
+              status={threads[item.id]?.status || item.status}
+              deadlineAt={threads[item.id]?.deadlineAt ?? item.deadlineAt}
+              sellerRespondedAt={threads[item.id]?.sellerRespondedAt}
+              onSend={(message, media) => handleSendMessage(item.id, message, media)}
+            />
+          )}
+        </View>
+      )}
+
       <View style={styles.cardFooter}>
         <TouchableOpacity
           style={styles.detailsButton}
@@ -180,7 +312,7 @@ const AdminDisputesScreen = () => {
           <Text style={styles.detailsButtonText}>View Details</Text>
         </TouchableOpacity>
 
-        {item.status === 'PENDING' && (
+        {isDisputeOpen(item.status) && (
           <TouchableOpacity
             style={styles.resolveButton}
             onPress={() => (navigation as any).navigate('DisputeDetails' as never, { 
@@ -249,7 +381,7 @@ const AdminDisputesScreen = () => {
                   selectedStatus === item && styles.filterChipTextActive,
                 ]}
               >
-                {item}
+                {item.replace(/_/g, ' ')}
               </Text>
             </TouchableOpacity>
           )}
@@ -508,6 +640,24 @@ const styles = StyleSheet.create({
     marginTop: 4,
     lineHeight: 20,
   },
+  overdueText: {
+    color: Colors.error,
+  },
+  threadToggle: {
+    paddingVertical: 10,
+    alignItems: 'center',
+    borderTopWidth: 1,
+    borderTopColor: Colors.border,
+  },
+  threadToggleText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: Colors.primary,
+  },
+  threadContainer: {
+    paddingHorizontal: 16,
+    paddingBottom: 16,
+  },
   cardFooter: {
     flexDirection: 'row',
     padding: 16,
@@ -0,0 +1,708 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  Switch,
+  Modal,
+  Alert,
+  ActivityIndicator,
+  RefreshControl,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useNavigation } from '@react-navigation/native';
+import { Colors } from '../../constants/colors';
+import {
+  useLoyalty,
+  LoyaltyRule,
+  LoyaltyRuleType,
+  LoyaltySettings,
+} from '../../hooks/useLoyalty';
+
+const RULE_TYPES: { type: LoyaltyRuleType; label: string; hint: string }[] = [
+  { type: 'SIGNUP_BONUS', label: 'Signup Bonus', hint: 'Points for new buyers' },
+  { type: 'ORDER_SPEND', label: 'Order Spend', hint: 'Points per GH₵ on completed orders' },
+  { type: 'FIRST_ORDER_BONUS', label: 'First Order', hint: "Bonus on a buyer's first completed order" },
+  { type: 'REVIEW', label: 'Review', hint: 'Points per product review' },
+  { type: 'REVIEW_PHOTO_BONUS', label: 'Review Photos', hint: 'Extra points when a review has photos' },
+  { type: 'REFERRAL_BONUS', label: 'Referral', hint: "Paid to the referrer on the new user's first order" },
+  { type: 'CAMPAIGN_MULTIPLIER', label: 'Campaign', hint: 'Multiplies all earnings between two dates' },
+];
+
+const ruleTypeLabel = (type: LoyaltyRuleType) =>
+  RULE_TYPES.find((ruleType) => ruleType.type === type)?.label || type;
+
+interface RuleForm {
+  id?: string;
+  type: LoyaltyRuleType;
+  name: string;
+  value: string;
+  startsAt: string;
+  endsAt: string;
+  isActive: boolean;
+}
+
+const EMPTY_FORM: RuleForm = {
+  type: 'CAMPAIGN_MULTIPLIER',
+  name: '',
+  value: '',
+  startsAt: '',
+  endsAt: '',
+  isActive: true,
+};
+
+const toDateInput = (value: string | null) => (value ? value.slice(0, 10) : '');
+
+const formatDate = (value: string | null) =>
+  value
+    ? new Date(value).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })
+    : null;
+
+const formatRuleValue = (rule: LoyaltyRule) => {
+  if (rule.type === 'ORDER_SPEND') return `${rule.pointsPerCedi ?? 0} pts per GH₵`;
+  if (rule.type === 'CAMPAIGN_MULTIPLIER') return `${rule.multiplier ?? 1}× points`;
+  return `${rule.points ?? 0} pts`;
+};
+
+const LoyaltyRulesScreen: React.FC = () => {
+  const navigation = useNavigation();
+  const { loading, getLoyaltyConfig, updateSettings, createRule, updateRule, deleteRule } =
+    useLoyalty();
+
+  const [settings, setSettings] = useState<LoyaltySettings | null>(null);
+  const [rules, setRules] = useState<LoyaltyRule[]>([]);
+  const [conversionRate, setConversionRate] = useState('');
+  const [dailyCap, setDailyCap] = useState('');
+  const [refreshing, setRefreshing] = useState(false);
+  const [savingSettings, setSavingSettings] = useState(false);
+  const [form, setForm] = useState<RuleForm | null>(null);
+  const [savingRule, setSavingRule] = useState(false);
+
+  useEffect(() => {
+    loadConfig();
+  }, []);
+
+  const loadConfig = async () => {
+    const response = await getLoyaltyConfig();
+    if (response.success && response.data) {
+      setSettings(response.data.settings);
+      setRules(response.data.rules);
+      setConversionRate(response.data.settings.pointsToCedisRate.toString());
+      setDailyCap(response.data.settings.dailyEarnCap?.toString() || '');
+    } else {
+      Alert.alert('Error', response.message || 'Failed to load loyalty rules');
+    }
+  };
+
+  const onRefresh = async () => {
+    setRefreshing(true);
+    await loadConfig();
+    setRefreshing(false);
+  };
+
+  const handleSaveSettings = async () => {
+    const rate = parseFloat(conversionRate);
+    if (!(rate > 0)) {
+      Alert.alert('Invalid Rate', 'The conversion rate must be greater than 0.');
+      return;
+    }
+
+    const cap = dailyCap.trim() ? parseInt(dailyCap) : null;
+    if (cap !== null && !(cap > 0)) {
+      Alert.alert('Invalid Cap', 'Leave the daily cap empty for no cap, or enter a positive number.');
+      return;
+    }
+
+    setSavingSettings(true);
+    const response = await updateSettings({ pointsToCedisRate: rate, dailyEarnCap: cap });
+    setSavingSettings(false);
+
+    if (response.success && response.data) {
+      setSettings(response.data);
+      Alert.alert('Saved', 'Loyalty settings updated.');
+    } else {
+      Alert.alert('Error', response.message || 'Failed to save settings');
+    }
+  };
+
+  const handleToggleRule = async (rule: LoyaltyRule) => {
+    const response = await updateRule(rule.id, { isActive: !rule.isActive });
+    if (response.success && response.data) {
+      setRules((prev) => prev.map((item) => (item.id === rule.id ? response.data! : item)));
+    } else {
+      Alert.alert('Error', response.message || 'Failed to update rule');
+    }
+  };
+
+  const handleDeleteRule = (rule: LoyaltyRule) => {
+    Alert.alert('Delete Rule', `Delete "${rule.name}"? Points already awarded are kept.`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          const response = await deleteRule(rule.id);
+          if (response.success) {
+            setRules((prev) => prev.filter((item) => item.id !== rule.id));
+          } else {
+            Alert.alert('Error', response.message || 'Failed to delete rule');
+          }
+        },
+      },
+    ]);
+  };
+
+  const openEditForm = (rule: LoyaltyRule) => {
+    const value =
+      rule.type === 'ORDER_SPEND'
+        ? rule.pointsPerCedi
+        : rule.type === 'CAMPAIGN_MULTIPLIER'
+          ? rule.multiplier
+          : rule.points;
+
+    setForm({
+      id: rule.id,
+      type: rule.type,
+      name: rule.name,
+      value: value?.toString() || '',
+      startsAt: toDateInput(rule.startsAt),
+      endsAt: toDateInput(rule.endsAt),
+      isActive: rule.isActive,
+    });
+  };
+
+  const handleSaveRule = async () => {
+    if (!form) return;
+
+    if (!form.name.trim()) {
+      Alert.alert('Missing Name', 'Give the rule a name.');
+      return;
+    }
+
+    const numericValue = parseFloat(form.value);
+    if (!(numericValue > 0)) {
+      Alert.alert('Invalid Value', 'Enter a value greater than 0.');
+      return;
+    }
+
+    const datePattern = /^\d{4}-\d{2}-\d{2}$/;
+    if ((form.startsAt && !datePattern.test(form.startsAt)) || (form.endsAt && !datePattern.test(form.endsAt))) {
+      Alert.alert('Invalid Date', 'Dates must be in YYYY-MM-DD format.');
+      return;
+    }
+
+    const payload = {
+      name: form.name.trim(),
+      points: ['ORDER_SPEND', 'CAMPAIGN_MULTIPLIER'].includes(form.type) ? null : Math.round(numericValue),
+      pointsPerCedi: form.type === 'ORDER_SPEND' ? numericValue : null,
+      multiplier: form.type === 'CAMPAIGN_MULTIPLIER' ? numericValue : null,
+      startsAt: form.startsAt ? new Date(`${form.startsAt}T00:00:00`).toISOString() : null,
+      endsAt: form.endsAt ? new Date(`${form.endsAt}T23:59:59`).toISOString() : null,
+      isActive: form.isActive,
+    };
+
+    setSavingRule(true);
+    const response = form.id
+      ? await updateRule(form.id, payload)
+      : await createRule({ ...payload, type: form.type });
+    setSavingRule(false);
+
+    if (response.success && response.data) {
+      setForm(null);
+      await loadConfig();
+    } else {
+      Alert.alert('Error', response.message || 'Failed to save rule');
+    }
+  };
+
+  const renderRule = (rule: LoyaltyRule) => {
+    const startsAt = formatDate(rule.startsAt);
+    const endsAt = formatDate(rule.endsAt);
+
+    return (
+      <View key={rule.id} style={[styles.ruleCard, !rule.isActive && styles.ruleCardInactive]}>
+        <View style={styles.ruleHeader}>
+          <View style={styles.ruleTitleContainer}>
+            <Text style={styles.ruleName}>{rule.name}</Text>
+            <Text style={styles.ruleType}>{ruleTypeLabel(rule.type)}</Text>
+          </View>
+          <Switch
+            value={rule.isActive}
+            onValueChange={() => handleToggleRule(rule)}
+            trackColor={{ false: Colors.gray300, true: Colors.primaryLight }}
+            thumbColor={rule.isActive ? Colors.primary : Colors.gray100}
+          />
+        </View>
+
+        <Text style={styles.ruleValue}>{formatRuleValue(rule)}</Text>
+
+        {(startsAt || endsAt) && (
+          <View style={styles.ruleWindow}>
+            <Ionicons name="calendar-outline" size={14} color={Colors.textSecondary} />
+            <Text style={styles.ruleWindowText}>
+              {startsAt || 'Now'} – {endsAt || 'No end date'}
+            </Text>
+          </View>
+        )}
+
+        <View style={styles.ruleActions}>
+          <TouchableOpacity style={styles.ruleAction} onPress={() => openEditForm(rule)}>
+            <Ionicons name="create-outline" size={16} color={Colors.primary} />
+            <Text style={styles.ruleActionText}>Edit</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.ruleAction} onPress={() => handleDeleteRule(rule)}>
+            <Ionicons name="trash-outline" size={16} color={Colors.error} />
+            <Text style={[styles.ruleActionText, { color: Colors.error }]}>Delete</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  };
+
+  const renderRuleForm = () => {
+    if (!form) return null;
+
+    const valueLabel =
+      form.type === 'ORDER_SPEND'
+        ? 'Points per GH₵'
+        : form.type === 'CAMPAIGN_MULTIPLIER'
+          ? 'Multiplier'
+          : 'Points';
+
+    return (
+      <Modal visible animationType="slide" transparent onRequestClose={() => setForm(null)}>
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle}>{form.id ? 'Edit Rule' : 'New Rule'}</Text>
+              <TouchableOpacity onPress={() => setForm(null)}>
+                <Ionicons name="close" size={24} color={Colors.textPrimary} />
+              </TouchableOpacity>
+            </View>
+
+            <ScrollView style={styles.modalBody} keyboardShouldPersistTaps="handled">
+              {!form.id && (
+                <>
+                  <Text style={styles.inputLabel}>Rule Type</Text>
+                  <View style={styles.typeGrid}>
+                    {RULE_TYPES.map((ruleType) => (
+                      <TouchableOpacity
+                        key={ruleType.type}
+                        style={[styles.typeChip, form.type === ruleType.type && styles.typeChipSelected]}
+                        onPress={() => setForm({ ...form, type: ruleType.type })}
+                      >
+                        <Text
+                          style={[
+                            styles.typeChipText,
+                            form.type === ruleType.type && styles.typeChipTextSelected,
+                          ]}
+                        >
+                          {ruleType.label}
+                        </Text>
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+                </>
+              )}
+              <Text style={styles.typeHint}>
+                {RULE_TYPES.find((ruleType) => ruleType.type === form.type)?.hint}
+              </Text>
+
+              <Text style={styles.inputLabel}>Name</Text>
+              <TextInput
+                style={styles.input}
+                value={form.name}
+                onChangeText={(name) => setForm({ ...form, name })}
+                placeholder="e.g. Christmas double points"
+                placeholderTextColor={Colors.gray400}
+              />
+
+              <Text style={styles.inputLabel}>{valueLabel}</Text>
+              <TextInput
+                style={styles.input}
+                value={form.value}
+                onChangeText={(value) => setForm({ ...form, value })}
+                placeholder="0"
+                placeholderTextColor={Colors.gray400}
+                keyboardType="decimal-pad"
+              />
+
+              <View style={styles.dateRow}>
+                <View style={styles.dateField}>
+                  <Text style={styles.inputLabel}>Starts</Text>
+                  <TextInput
+                    style={styles.input}
+                    value={form.startsAt}
+                    onChangeText={(startsAt) => setForm({ ...form, startsAt })}
+                    placeholder="YYYY-MM-DD"
+                    placeholderTextColor={Colors.gray400}
+                  />
+                </View>
+                <View style={styles.dateField}>
+                  <Text style={styles.inputLabel}>Ends</Text>
+                  <TextInput
+                    style={styles.input}
+                    value={form.endsAt}
+                    onChangeText={(endsAt) => setForm({ ...form, endsAt })}
+                    placeholder="YYYY-MM-DD"
+                    placeholderTextColor={Colors.gray400}
+                  />
+                </View>
+              </View>
+
+              <View style={styles.activeRow}>
+                <Text style={styles.inputLabel}>Active</Text>
+                <Switch
+                  value={form.isActive}
+                  onValueChange={(isActive) => setForm({ ...form, isActive })}
+                  trackColor={{ false: Colors.gray300, true: Colors.primaryLight }}
+                  thumbColor={form.isActive ? Colors.primary : Colors.gray100}
+                />
+              </View>
+
+              <TouchableOpacity
+                style={[styles.primaryButton, savingRule && styles.buttonDisabled]}
+                onPress={handleSaveRule}
+                disabled={savingRule}
+              >
+                {savingRule ? (
+                  <ActivityIndicator color={Colors.white} size="small" />
+                ) : (
+                  <Text style={styles.primaryButtonText}>Save Rule</Text>
+                )}
+              </TouchableOpacity>
+            </ScrollView>
+          </View>
+        </View>
+      </Modal>
+    );
+  };
+
+  if (loading && !settings) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color={Colors.primary} />
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => navigation.goBack()} style={styles.backButton}>
+          <Ionicons name="arrow-back" size={24} color={Colors.white} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Loyalty Rules</Text>
+        <Text style={styles.headerSubtitle}>
+          {rules.filter((rule) => rule.isActive).length} active rule
+          {rules.filter((rule) => rule.isActive).length !== 1 ? 's' : ''}
+        </Text>
+      </View>
+
+      <ScrollView
+        contentContainerStyle={styles.content}
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} />}
+      >
+        <View style={styles.card}>
+          <Text style={styles.sectionTitle}>Settings</Text>
+
+          <Text style={styles.inputLabel}>GH₵ value of 1 point</Text>
+          <TextInput
+            style={styles.input}
+            value={conversionRate}
+            onChangeText={setConversionRate}
+            placeholder="0.10"
+            placeholderTextColor={Colors.gray400}
+            keyboardType="decimal-pad"
+          />
+
+          <Text style={styles.inputLabel}>Daily earning cap per user</Text>
+          <TextInput
+            style={styles.input}
+            value={dailyCap}
+            onChangeText={setDailyCap}
+            placeholder="No cap"
+            placeholderTextColor={Colors.gray400}
+            keyboardType="number-pad"
+          />
+
+          <TouchableOpacity
+            style={[styles.primaryButton, savingSettings && styles.buttonDisabled]}
+            onPress={handleSaveSettings}
+            disabled={savingSettings}
+          >
+            {savingSettings ? (
+              <ActivityIndicator color={Colors.white} size="small" />
+            ) : (
+              <Text style={styles.primaryButtonText}>Save Settings</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+
+        <View style={styles.rulesHeader}>
+          <Text style={styles.sectionTitle}>Earning Rules</Text>
+          <TouchableOpacity style={styles.addButton} onPress={() => setForm({ ...EMPTY_FORM })}>
+            <Ionicons name="add" size={18} color={Colors.white} />
+            <Text style={styles.addButtonText}>Add Rule</Text>
+          </TouchableOpacity>
+        </View>
+
+        {rules.length === 0 ? (
+          <Text style={styles.emptyText}>No loyalty rules yet.</Text>
+        ) : (
+          rules.map(renderRule)
+        )}
+      </ScrollView>
+
+      {renderRuleForm()}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.backgroundSecondary,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: Colors.backgroundSecondary,
+  },
+  header: {
+    backgroundColor: Colors.primary,
+    padding: 20,
+    paddingTop: 60,
+  },
+  backButton: {
+    marginBottom: 12,
+  },
+  headerTitle: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    color: Colors.white,
+  },
+  headerSubtitle: {
+    fontSize: 14,
+    color: Colors.white,
+    opacity: 0.8,
+    marginTop: 4,
+  },
+  content: {
+    padding: 16,
+    paddingBottom: 32,
+  },
+  card: {
+    backgroundColor: Colors.white,
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 20,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: Colors.textPrimary,
+    marginBottom: 12,
+  },
+  inputLabel: {
+    fontSize: 13,
+    fontWeight: '500',
+    color: Colors.textSecondary,
+    marginBottom: 6,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: Colors.border,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 15,
+    color: Colors.textPrimary,
+    backgroundColor: Colors.white,
+    marginBottom: 14,
+  },
+  primaryButton: {
+    backgroundColor: Colors.primary,
+    borderRadius: 8,
+    paddingVertical: 14,
+    alignItems: 'center',
+    marginTop: 4,
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  primaryButtonText: {
+    color: Colors.white,
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  rulesHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  addButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: Colors.primary,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 8,
+    gap: 4,
+    marginBottom: 12,
+  },
+  addButtonText: {
+    color: Colors.white,
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  emptyText: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+    textAlign: 'center',
+    paddingVertical: 24,
+  },
+  ruleCard: {
+    backgroundColor: Colors.white,
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  ruleCardInactive: {
+    opacity: 0.6,
+  },
+  ruleHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  ruleTitleContainer: {
+    flex: 1,
+    marginRight: 12,
+  },
+  ruleName: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: Colors.textPrimary,
+  },
+  ruleType: {
+    fontSize: 12,
+    color: Colors.textSecondary,
+    marginTop: 2,
+  },
+  ruleValue: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: Colors.primary,
+    marginTop: 10,
+  },
+  ruleWindow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginTop: 6,
+  },
+  ruleWindowText: {
+    fontSize: 12,
+    color: Colors.textSecondary,
+  },
+  ruleActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 20,
+    marginTop: 12,
+    paddingTop: 12,
+    borderTopWidth: 1,
+    borderTopColor: Colors.border,
+  },
+  ruleAction: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  ruleActionText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: Colors.primary,
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: Colors.overlay,
+    justifyContent: 'flex-end',
+  },
+  modalContent: {
+    backgroundColor: Colors.white,
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    maxHeight: '90%',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.border,
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: Colors.textPrimary,
+  },
+  modalBody: {
+    padding: 20,
+  },
+  typeGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 8,
+  },
+  typeChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  typeChipSelected: {
+    backgroundColor: Colors.primary,
+    borderColor: Colors.primary,
+  },
+  typeChipText: {
+    fontSize: 13,
+    color: Colors.textPrimary,
+  },
+  typeChipTextSelected: {
+    color: Colors.white,
+    fontWeight: '600',
+  },
+  typeHint: {
+    fontSize: 12,
+    color: Colors.textSecondary,
+    marginBottom: 14,
+  },
+  dateRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  dateField: {
+    flex: 1,
+  },
+  activeRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+});
+
+export default LoyaltyRulesScreen;
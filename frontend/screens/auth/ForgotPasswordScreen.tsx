@@ -0,0 +1,259 @@
+// screens/auth/ForgotPasswordScreen.tsx
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Alert,
+  ActivityIndicator,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { AuthStackParamList } from '../../types/navigation';
+import { authAPI } from '../../services/api';
+import { Colors } from '../../constants/colors';
+
+type ForgotPasswordScreenNavigationProp = NativeStackNavigationProp<
+  AuthStackParamList,
+  'ForgotPassword'
+>;
+
+interface Props {
+  navigation: ForgotPasswordScreenNavigationProp;
+}
+
+const ForgotPasswordScreen: React.FC<Props> = ({ navigation }) => {
+  const [email, setEmail] = useState('');
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  const handleSendCode = async () => {
+    const normalizedEmail = email.toLowerCase().trim();
+
+    if (!normalizedEmail) {
+      setError('Email is required');
+      return;
+    }
+    if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(normalizedEmail)) {
+      setError('Invalid email format');
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const response = await authAPI.forgotPassword(normalizedEmail);
+
+      if (response.success) {
+        navigation.navigate('ResetPassword', { email: normalizedEmail });
+      }
+    } catch (error: any) {
+      const errorMessage = error.response?.data?.message || 'Failed to send reset code';
+      Alert.alert('Error', errorMessage);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <KeyboardAvoidingView
+      behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+      style={styles.container}
+    >
+      <View style={styles.content}>
+        {/* Header */}
+        <View style={styles.header}>
+          <View style={styles.iconContainer}>
+            <Text style={styles.headerIcon}>🔑</Text>
+          </View>
+
+          <View style={styles.brandContainer}>
+            <Text style={styles.brandName}>ZUBA</Text>
+            <View style={styles.brandAccent} />
+          </View>
+
+          <Text style={styles.title}>Forgot Password?</Text>
+          <Text style={styles.subtitle}>
+            Enter the email on your account and we'll send you a 6-digit code to reset your password
+          </Text>
+        </View>
+
+        {/* Email Input */}
+        <View style={styles.inputWrapper}>
+          <Text style={styles.label}>Email</Text>
+          <View style={[styles.inputContainer, !!error && styles.inputContainerError]}>
+            <MaterialIcons name="email" size={20} color={Colors.textSecondary} style={styles.inputIcon} />
+            <TextInput
+              style={styles.input}
+              value={email}
+              onChangeText={(value) => {
+                setEmail(value);
+                if (error) setError('');
+              }}
+              placeholder="your@email.com"
+              placeholderTextColor={Colors.textTertiary}
+              keyboardType="email-address"
+              autoCapitalize="none"
+              editable={!loading}
+            />
+          </View>
+          {!!error && <Text style={styles.errorText}>{error}</Text>}
+        </View>
+
+        {/* Send Button */}
+        <TouchableOpacity
+          style={[styles.primaryButton, loading && styles.primaryButtonDisabled]}
+          onPress={handleSendCode}
+          disabled={loading}
+          activeOpacity={0.8}
+        >
+          {loading ? (
+            <ActivityIndicator color={Colors.white} size="small" />
+          ) : (
+            <Text style={styles.primaryButtonText}>Send Reset Code</Text>
+          )}
+        </TouchableOpacity>
+
+        {/* Back to Login */}
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => navigation.navigate('Login')}
+        >
+          <Text style={styles.backButtonText}>← Back to Login</Text>
+        </TouchableOpacity>
+      </View>
+    </KeyboardAvoidingView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  content: {
+    flex: 1,
+    padding: 24,
+    justifyContent: 'center',
+  },
+  header: {
+    marginBottom: 40,
+    alignItems: 'center',
+  },
+  iconContainer: {
+    width: 80,
+    height: 80,
+    borderRadius: 40,
+    backgroundColor: Colors.primaryLight + '20',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginBottom: 24,
+  },
+  headerIcon: {
+    fontSize: 40,
+  },
+  brandContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  brandName: {
+    fontSize: 24,
+    fontWeight: '800',
+    color: Colors.primary,
+    letterSpacing: 1,
+  },
+  brandAccent: {
+    width: 5,
+    height: 5,
+    borderRadius: 2.5,
+    backgroundColor: Colors.accent,
+    marginLeft: 4,
+    marginBottom: 12,
+  },
+  title: {
+    fontSize: 26,
+    fontWeight: '700',
+    color: Colors.textPrimary,
+    marginBottom: 12,
+    textAlign: 'center',
+  },
+  subtitle: {
+    fontSize: 15,
+    color: Colors.textSecondary,
+    textAlign: 'center',
+    lineHeight: 22,
+  },
+  inputWrapper: {
+    marginBottom: 28,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: Colors.textPrimary,
+    marginBottom: 8,
+  },
+  inputContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    height: 56,
+    borderWidth: 1.5,
+    borderColor: Colors.border,
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    backgroundColor: Colors.backgroundSecondary,
+  },
+  inputContainerError: {
+    borderColor: Colors.error,
+  },
+  inputIcon: {
+    marginRight: 12,
+  },
+  input: {
+    flex: 1,
+    fontSize: 15,
+    color: Colors.textPrimary,
+  },
+  errorText: {
+    fontSize: 13,
+    color: Colors.error,
+    marginTop: 6,
+  },
+  primaryButton: {
+    height: 56,
+    backgroundColor: Colors.primary,
+    borderRadius: 12,
+    alignItems: 'center',
+    justifyContent: 'center',
+    shadowColor: Colors.primary,
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.3,
+    shadowRadius: 8,
+    elevation: 4,
+  },
+  primaryButtonDisabled: {
+    opacity: 0.6,
+    shadowOpacity: 0.1,
+  },
+  primaryButtonText: {
+    color: Colors.white,
+    fontSize: 16,
+    fontWeight: '700',
+    letterSpacing: 0.5,
+  },
+  backButton: {
+    marginTop: 20,
+    paddingVertical: 12,
+    alignItems: 'center',
+  },
+  backButtonText: {
+    fontSize: 15,
+    color: Colors.textSecondary,
+    fontWeight: '600',
+  },
+});
+
+export default ForgotPasswordScreen;
@@ -64,7 +64,14 @@ const LoginScreen: React.FC<Props> = ({ navigation }) => {
       });
 
       if (response.success) {
-        await login(response.token, response.user);
+        await login(
+          {
+            token: response.token,
+            refreshToken: response.refreshToken,
+            expiresIn: response.expiresIn,
+          },
+          response.user
+        );
         // Navigation will be handled by RootNavigator based on role
       }
     } catch (error: any) {
@@ -165,7 +172,10 @@ const LoginScreen: React.FC<Props> = ({ navigation }) => {
             <View style={styles.inputWrapper}>
               <View style={styles.labelRow}>
                 <Text style={styles.label}>Password</Text>
-                <TouchableOpacity activeOpacity={0.7}>
+                <TouchableOpacity
+                  activeOpacity={0.7}
+                  onPress={() => navigation.navigate('ForgotPassword')}
+                >
                   <Text style={styles.forgotPassword}>Forgot Password?</Text>
                 </TouchableOpacity>
               </View>
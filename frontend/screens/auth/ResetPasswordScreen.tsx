@@ -0,0 +1,445 @@
+// screens/auth/ResetPasswordScreen.tsx
+import React, { useState, useRef } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Alert,
+  ActivityIndicator,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { RouteProp } from '@react-navigation/native';
+import { AuthStackParamList } from '../../types/navigation';
+import { authAPI } from '../../services/api';
+import { Colors } from '../../constants/colors';
+
+type ResetPasswordScreenNavigationProp = NativeStackNavigationProp<
+  AuthStackParamList,
+  'ResetPassword'
+>;
+type ResetPasswordScreenRouteProp = RouteProp<AuthStackParamList, 'ResetPassword'>;
+
+interface Props {
+  navigation: ResetPasswordScreenNavigationProp;
+  route: ResetPasswordScreenRouteProp;
+}
+
+const ResetPasswordScreen: React.FC<Props> = ({ navigation, route }) => {
+  const { email } = route.params;
+  const [code, setCode] = useState(['', '', '', '', '', '']);
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [errors, setErrors] = useState<{ [key: string]: string }>({});
+  const [loading, setLoading] = useState(false);
+  const [resending, setResending] = useState(false);
+  const inputRefs = useRef<Array<TextInput | null>>([]);
+
+  const handleCodeChange = (value: string, index: number) => {
+    if (value.length > 1) {
+      value = value.charAt(0);
+    }
+
+    const newCode = [...code];
+    newCode[index] = value;
+    setCode(newCode);
+
+    // Move to next input
+    if (value && index < 5) {
+      inputRefs.current[index + 1]?.focus();
+    }
+  };
+
+  const handleKeyPress = (e: any, index: number) => {
+    if (e.nativeEvent.key === 'Backspace' && !code[index] && index > 0) {
+      inputRefs.current[index - 1]?.focus();
+    }
+  };
+
+  const validateForm = (): boolean => {
+    const newErrors: { [key: string]: string } = {};
+
+    if (code.join('').length !== 6) {
+      newErrors.code = 'Please enter the complete 6-digit code';
+    }
+
+    if (!newPassword) {
+      newErrors.newPassword = 'New password is required';
+    } else if (newPassword.length < 6) {
+      newErrors.newPassword = 'Password must be at least 6 characters';
+    }
+
+    if (newPassword !== confirmPassword) {
+      newErrors.confirmPassword = 'Passwords do not match';
+    }
+
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const handleResetPassword = async () => {
+    if (!validateForm()) return;
+
+    setLoading(true);
+    try {
+      const response = await authAPI.resetPassword({
+        email,
+        code: code.join(''),
+        newPassword,
+      });
+
+      if (response.success) {
+        Alert.alert('Success', 'Your password has been reset. Please sign in with your new password.', [
+          {
+            text: 'OK',
+            onPress: () => navigation.navigate('Login'),
+          },
+        ]);
+      }
+    } catch (error: any) {
+      const errorMessage = error.response?.data?.message || 'Password reset failed';
+      Alert.alert('Error', errorMessage);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleResendCode = async () => {
+    setResending(true);
+    try {
+      const response = await authAPI.forgotPassword(email);
+
+      if (response.success) {
+        Alert.alert('Success', 'A new reset code has been sent to your email');
+        setCode(['', '', '', '', '', '']);
+        inputRefs.current[0]?.focus();
+      }
+    } catch (error: any) {
+      const errorMessage = error.response?.data?.message || 'Failed to resend code';
+      Alert.alert('Error', errorMessage);
+    } finally {
+      setResending(false);
+    }
+  };
+
+  return (
+    <KeyboardAvoidingView
+      behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+      style={styles.container}
+    >
+      <ScrollView
+        contentContainerStyle={styles.content}
+        keyboardShouldPersistTaps="handled"
+        showsVerticalScrollIndicator={false}
+      >
+        {/* Header */}
+        <View style={styles.header}>
+          <View style={styles.brandContainer}>
+            <Text style={styles.brandName}>ZUBA</Text>
+            <View style={styles.brandAccent} />
+          </View>
+
+          <Text style={styles.title}>Reset Password</Text>
+          <Text style={styles.subtitle}>
+            Enter the 6-digit code we sent to
+          </Text>
+          <Text style={styles.email}>{email}</Text>
+        </View>
+
+        {/* Code Input */}
+        <View style={styles.codeSection}>
+          <Text style={styles.codeLabel}>Reset Code</Text>
+          <View style={styles.codeContainer}>
+            {code.map((digit, index) => (
+              <TextInput
+                key={index}
+                ref={(ref) => { inputRefs.current[index] = ref; }}
+                style={[
+                  styles.codeInput,
+                  digit && styles.codeInputFilled,
+                ]}
+                value={digit}
+                onChangeText={(value) => handleCodeChange(value, index)}
+                onKeyPress={(e) => handleKeyPress(e, index)}
+                keyboardType="number-pad"
+                maxLength={1}
+                selectTextOnFocus
+                editable={!loading}
+              />
+            ))}
+          </View>
+          {errors.code && (
+            <Text style={[styles.errorText, styles.centeredText]}>{errors.code}</Text>
+          )}
+        </View>
+
+        {/* New Password */}
+        <View style={styles.inputWrapper}>
+          <Text style={styles.label}>New Password</Text>
+          <View style={[styles.inputContainer, errors.newPassword && styles.inputContainerError]}>
+            <Ionicons name="lock-closed" size={20} color={Colors.textSecondary} style={styles.inputIcon} />
+            <TextInput
+              style={styles.input}
+              value={newPassword}
+              onChangeText={(value) => {
+                setNewPassword(value);
+                if (errors.newPassword) setErrors({ ...errors, newPassword: '' });
+              }}
+              placeholder="At least 6 characters"
+              placeholderTextColor={Colors.textTertiary}
+              secureTextEntry
+              editable={!loading}
+            />
+          </View>
+          {errors.newPassword && (
+            <Text style={styles.errorText}>{errors.newPassword}</Text>
+          )}
+        </View>
+
+        {/* Confirm Password */}
+        <View style={styles.inputWrapper}>
+          <Text style={styles.label}>Confirm Password</Text>
+          <View style={[styles.inputContainer, errors.confirmPassword && styles.inputContainerError]}>
+            <Ionicons name="lock-closed" size={20} color={Colors.textSecondary} style={styles.inputIcon} />
+            <TextInput
+              style={styles.input}
+              value={confirmPassword}
+              onChangeText={(value) => {
+                setConfirmPassword(value);
+                if (errors.confirmPassword) setErrors({ ...errors, confirmPassword: '' });
+              }}
+              placeholder="Re-enter your new password"
+              placeholderTextColor={Colors.textTertiary}
+              secureTextEntry
+              editable={!loading}
+            />
+          </View>
+          {errors.confirmPassword && (
+            <Text style={styles.errorText}>{errors.confirmPassword}</Text>
+          )}
+        </View>
+
+        {/* Reset Button */}
+        <TouchableOpacity
+          style={[styles.primaryButton, loading && styles.primaryButtonDisabled]}
+          onPress={handleResetPassword}
+          disabled={loading}
+          activeOpacity={0.8}
+        >
+          {loading ? (
+            <ActivityIndicator color={Colors.white} size="small" />
+          ) : (
+            <Text style={styles.primaryButtonText}>Reset Password</Text>
+          )}
+        </TouchableOpacity>
+
+        {/* Resend Section */}
+        <View style={styles.resendContainer}>
+          <Text style={styles.resendText}>Didn't receive the code?</Text>
+          <TouchableOpacity
+            onPress={handleResendCode}
+            disabled={resending}
+            style={styles.resendButton}
+          >
+            <Text style={[styles.resendLink, resending && styles.resendLinkDisabled]}>
+              {resending ? 'Sending...' : 'Resend Code'}
+            </Text>
+          </TouchableOpacity>
+        </View>
+
+        {/* Back to Login */}
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => navigation.navigate('Login')}
+        >
+          <Text style={styles.backButtonText}>← Back to Login</Text>
+        </TouchableOpacity>
+      </ScrollView>
+    </KeyboardAvoidingView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  content: {
+    flexGrow: 1,
+    padding: 24,
+    justifyContent: 'center',
+  },
+  header: {
+    marginBottom: 32,
+    alignItems: 'center',
+  },
+  brandContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  brandName: {
+    fontSize: 24,
+    fontWeight: '800',
+    color: Colors.primary,
+    letterSpacing: 1,
+  },
+  brandAccent: {
+    width: 5,
+    height: 5,
+    borderRadius: 2.5,
+    backgroundColor: Colors.accent,
+    marginLeft: 4,
+    marginBottom: 12,
+  },
+  title: {
+    fontSize: 26,
+    fontWeight: '700',
+    color: Colors.textPrimary,
+    marginBottom: 12,
+    textAlign: 'center',
+  },
+  subtitle: {
+    fontSize: 15,
+    color: Colors.textSecondary,
+    textAlign: 'center',
+    lineHeight: 22,
+  },
+  email: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: Colors.primary,
+    marginTop: 4,
+    textAlign: 'center',
+  },
+  codeSection: {
+    marginBottom: 24,
+  },
+  codeLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: Colors.textPrimary,
+    marginBottom: 16,
+    textAlign: 'center',
+  },
+  codeContainer: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    gap: 8,
+  },
+  codeInput: {
+    flex: 1,
+    height: 60,
+    borderWidth: 2,
+    borderColor: Colors.border,
+    borderRadius: 12,
+    fontSize: 24,
+    fontWeight: '700',
+    textAlign: 'center',
+    backgroundColor: Colors.backgroundSecondary,
+    color: Colors.textPrimary,
+  },
+  codeInputFilled: {
+    borderColor: Colors.primary,
+    backgroundColor: Colors.background,
+  },
+  inputWrapper: {
+    marginBottom: 20,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: Colors.textPrimary,
+    marginBottom: 8,
+  },
+  inputContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    height: 56,
+    borderWidth: 1.5,
+    borderColor: Colors.border,
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    backgroundColor: Colors.backgroundSecondary,
+  },
+  inputContainerError: {
+    borderColor: Colors.error,
+  },
+  inputIcon: {
+    marginRight: 12,
+  },
+  input: {
+    flex: 1,
+    fontSize: 15,
+    color: Colors.textPrimary,
+  },
+  errorText: {
+    fontSize: 13,
+    color: Colors.error,
+    marginTop: 6,
+  },
+  centeredText: {
+    textAlign: 'center',
+  },
+  primaryButton: {
+    height: 56,
+    marginTop: 8,
+    backgroundColor: Colors.primary,
+    borderRadius: 12,
+    alignItems: 'center',
+    justifyContent: 'center',
+    shadowColor: Colors.primary,
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.3,
+    shadowRadius: 8,
+    elevation: 4,
+  },
+  primaryButtonDisabled: {
+    opacity: 0.6,
+    shadowOpacity: 0.1,
+  },
+  primaryButtonText: {
+    color: Colors.white,
+    fontSize: 16,
+    fontWeight: '700',
+    letterSpacing: 0.5,
+  },
+  resendContainer: {
+    marginTop: 28,
+    alignItems: 'center',
+  },
+  resendText: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+    marginBottom: 8,
+  },
+  resendButton: {
+    paddingVertical: 8,
+    paddingHorizontal: 16,
+  },
+  resendLink: {
+    fontSize: 15,
+    color: Colors.primary,
+    fontWeight: '700',
+  },
+  resendLinkDisabled: {
+    opacity: 0.5,
+  },
+  backButton: {
+    marginTop: 20,
+    paddingVertical: 12,
+    alignItems: 'center',
+  },
+  backButtonText: {
+    fontSize: 15,
+    color: Colors.textSecondary,
+    fontWeight: '600',
+  },
+});
+
+export default ResetPasswordScreen;
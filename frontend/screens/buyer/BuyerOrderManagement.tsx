@@ -139,10 +139,12 @@ const BuyerOrderManagement = () => {
   };
 
   // Handle confirm received - releases escrow funds
-  const handleConfirmReceived = async (orderId: string, orderNumber: string) => {
+  const handleConfirmReceived = async (orderId: string, orderNumber: string, cashOnDelivery = false) => {
     Alert.alert(
       'Confirm Receipt',
-      `Have you received order #${orderNumber}? This will release payment to the seller.`,
+      cashOnDelivery
+        ? `Have you received order #${orderNumber}?`
+        : `Have you received order #${orderNumber}? This will release payment to the seller.`,
       [
         { text: 'Not Yet', style: 'cancel' },
         {
@@ -155,7 +157,9 @@ const BuyerOrderManagement = () => {
             if (result.success) {
               Alert.alert(
                 'Success', 
-                'Order confirmed successfully. Payment has been released to the seller.',
+                cashOnDelivery
+                  ? 'Order confirmed successfully.'
+                  : 'Order confirmed successfully. Payment has been released to the seller.',
                 [{ text: 'OK', onPress: async () => {
                   await fetchOrders(activeTab);
                   await fetchStatusCounts();
@@ -408,7 +412,9 @@ const BuyerOrderManagement = () => {
           {isDelivered && (
             <TouchableOpacity
               style={[styles.confirmButton, isProcessing && styles.confirmButtonDisabled]}
-              onPress={() => handleConfirmReceived(item.id, item.id.slice(-8).toUpperCase())}
+              onPress={() =>
+                handleConfirmReceived(item.id, item.id.slice(-8).toUpperCase(), item.paymentMethod === 'CASH_ON_DELIVERY')
+              }
               disabled={isProcessing}
             >
               {isProcessing ? (
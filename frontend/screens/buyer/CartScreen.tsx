@@ -18,6 +18,7 @@ import { Colors } from '../../constants/colors';
 interface SelectedItem {
   cartItemId: string;
   productId: string;
+  variantId?: string;
   quantity: number;
   color?: string;
   size?: string;
@@ -34,6 +35,8 @@ interface GroupedItems {
 const CartScreen = () => {
   const navigation = useNavigation();
   const { cart, loading, updateItemQuantity, removeItem, clearCart } = useCart();
+  const { getOrderQuote } = useOrders();
+  const [quoting, setQuoting] = useState(false);
   const [selectedItems, setSelectedItems] = useState<Set<string>>(new Set());
   const [itemConfigurations, setItemConfigurations] = useState<Map<string, SelectedItem>>(new Map());
 
@@ -45,12 +48,14 @@ const CartScreen = () => {
         const sizes = item.product.sizes || [];
         const moq = item.product.moq || 1;
 
+        // Variant items were added for a specific size/color, so those are fixed
         configurations.set(item.id, {
           cartItemId: item.id,
           productId: item.productId,
+          variantId: item.variantId || undefined,
           quantity: Math.max(item.quantity, moq),
-          color: colors.length > 0 ? colors[0] : undefined,
-          size: sizes.length > 0 ? sizes[0] : undefined,
+          color: item.variant ? item.variant.color || undefined : colors.length > 0 ? colors[0] : undefined,
+          size: item.variant ? item.variant.size || undefined : sizes.length > 0 ? sizes[0] : undefined,
           storeId: item.product.storeId, // ADDED: Store the storeId
         });
       });
@@ -147,11 +152,6 @@ const CartScreen = () => {
     return grouped;
   };
 
-  // UPDATED: Generate checkout session ID
-  const generateCheckoutSession = (): string => {
-    return `checkout_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-  };
-
   // Handle place order with multi-store support
   const handlePlaceOrder = () => {
     if (selectedItems.size === 0) {
@@ -178,45 +178,59 @@ const CartScreen = () => {
     }
   };
 
-  // Proceed to checkout screen with grouped items
-  const proceedToCheckout = (groupedItems: GroupedItems) => {
-    // Calculate totals for each store
-      const orderSummaries = Object.entries(groupedItems).map(([storeId, data]) => {
-        let subtotal = 0;
-        
-        const items = data.items.map(config => {
-          const cartItem = cart?.items.find(item => item.id === config.cartItemId);
-          if (!cartItem) return null;
-          
-          const itemTotal = cartItem.product.price * config.quantity;
-          subtotal += itemTotal;
-          
+  // Proceed to checkout screen with grouped items, priced by the server
+  const proceedToCheckout = async (groupedItems: GroupedItems) => {
+    setQuoting(true);
+
+    try {
+      const orderSummaries = await Promise.all(
+        Object.entries(groupedItems).map(async ([storeId, data]) => {
+          const quote = await getOrderQuote({
+            storeId,
+            items: data.items.map(config => ({
+              productId: config.productId,
+              variantId: config.variantId,
+              quantity: config.quantity,
+            })),
+          });
+
+          const items = data.items.map((config, index) => {
+            const cartItem = cart?.items.find(item => item.id === config.cartItemId);
+
+            return {
+              productId: config.productId,
+              variantId: config.variantId,
+              quantity: config.quantity,
+              price: quote.items[index].price,
+              color: config.color,
+              size: config.size,
+              name: quote.items[index].name,
+              imageURL: cartItem?.product.images?.[0] || null,
+            };
+          });
+
           return {
-            productId: config.productId,
-            quantity: config.quantity,
-            price: cartItem.product.price,
-            color: config.color,
-            size: config.size,
-            name: cartItem.product.name,
-            imageURL: cartItem.product.images?.[0] || null,
+            storeId,
+            storeName: data.storeName,
+            items,
+            subtotal: quote.subtotal,
+            deliveryFee: quote.deliveryFee,
+            taxAmount: quote.taxAmount,
+            discount: quote.discount,
+            totalAmount: quote.totalAmount,
           };
-        }).filter(Boolean);
-
-        return {
-          storeId,
-          storeName: data.storeName,
-          items,
-          subtotal,
-          checkoutSession: generateCheckoutSession(), // Generate unique session per store
-        };
-      });
-
-       console.log('Order Summaries:', JSON.stringify(orderSummaries, null, 2));
+        })
+      );
 
-    // Navigate to checkout screen with grouped order data
-    (navigation as any).navigate('Checkout', {
-      orders: orderSummaries,
-    });
+      // Navigate to checkout screen with grouped order data
+      (navigation as any).navigate('Checkout', {
+        orders: orderSummaries,
+      });
+    } catch (error: any) {
+      Alert.alert('Checkout Unavailable', error.message || 'Failed to price your order. Please try again.');
+    } finally {
+      setQuoting(false);
+    }
   };
 
   const handleClearCart = () => {
@@ -245,8 +259,11 @@ const CartScreen = () => {
     const config = itemConfigurations.get(item.id);
     const isSelected = selectedItems.has(item.id);
     const moq = item.product.moq || 1;
-    const colors = item.product.color || [];
-    const sizes = item.product.sizes || [];
+    const colors = item.variant ? [] : item.product.color || [];
+    const sizes = item.variant ? [] : item.product.sizes || [];
+    const variantLabel = item.variant
+      ? [item.variant.size, item.variant.color].filter(Boolean).join(' / ')
+      : null;
 
     if (!config) return null;
 
@@ -270,9 +287,16 @@ const CartScreen = () => {
           <Text style={styles.productName}>{item.product.name}</Text>
           {/* ADDED: Show store name */}
           <Text style={styles.storeName}>from {item.product.store?.name || 'Unknown Store'}</Text>
-          <Text style={styles.productPrice}>GH₵{item.product.price}</Text>
+          <Text style={styles.productPrice}>GH₵{item.price ?? item.product.price}</Text>
           <Text style={styles.moqText}>MOQ: {moq}</Text>
 
+          {variantLabel && (
+            <View style={styles.configRow}>
+              <Text style={styles.configLabel}>Variant:</Text>
+              <Text style={styles.variantText}>{variantLabel}</Text>
+            </View>
+          )}
+
           {colors.length > 0 && (
             <View style={styles.configRow}>
               <Text style={styles.configLabel}>Color:</Text>
@@ -410,14 +434,18 @@ const CartScreen = () => {
         <TouchableOpacity
           style={[
             styles.placeOrderButton,
-            selectedItems.size === 0 && styles.disabledButton
+            (selectedItems.size === 0 || quoting) && styles.disabledButton
           ]}
           onPress={handlePlaceOrder}
-          disabled={selectedItems.size === 0}
+          disabled={selectedItems.size === 0 || quoting}
         >
-          <Text style={styles.placeOrderButtonText}>
-            Proceed to Checkout ({selectedItems.size} items)
-          </Text>
+          {quoting ? (
+            <ActivityIndicator color={Colors.white} />
+          ) : (
+            <Text style={styles.placeOrderButtonText}>
+              Proceed to Checkout ({selectedItems.size} items)
+            </Text>
+          )}
         </TouchableOpacity>
       </View>
     </View>
@@ -527,6 +555,12 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     marginBottom: 8,
   },
+  variantText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: Colors.textPrimary,
+    textTransform: 'capitalize',
+  },
   configLabel: {
     fontSize: 14,
     fontWeight: '500',
@@ -9,11 +9,14 @@ import {
   ActivityIndicator,
   Alert,
   RefreshControl,
+  TextInput,
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { useCart } from '../../context/CartContext';
 import { useAddress } from '../../hooks/useAddress';
-import { useOrders } from '../../hooks/useOrder';
+import { useOrders, OrderQuote } from '../../hooks/useOrder';
+import { useCoupons } from '../../hooks/useCoupons';
+import { usePayment } from '../../hooks/usePayment';
 import { Colors } from '../../constants/colors';
 
 interface Address {
@@ -34,28 +37,70 @@ interface OrderSummary {
   storeName: string;
   items: any[];
   subtotal: number;
-  checkoutSession: string;
+  deliveryFee: number;
+  taxAmount: number;
+  discount: number;
+  totalAmount: number;
+  promoCode?: string;
 }
 
 const CheckoutScreen = ({ navigation, route }: any) => {
   const { cart, loading: cartLoading, fetchCart } = useCart();
   const { getUserAddresses, loading: addressLoading } = useAddress();
-  const { createOrder, loading: orderLoading } = useOrders();
+  const { createOrder, getOrderQuote, loading: orderLoading } = useOrders();
+  const { validateCoupon } = useCoupons();
+  const { createCheckoutSession } = usePayment();
 
-  // Get orders data from route params (passed from CartScreen)
-  const ordersFromCart: OrderSummary[] = route.params?.orders || [];
+  // Get orders data from route params (passed from CartScreen); coupons re-quote them in place
+  const [ordersFromCart, setOrdersFromCart] = useState<OrderSummary[]>(route.params?.orders || []);
+  const [promoInputs, setPromoInputs] = useState<Record<string, string>>({});
+  const [applyingPromo, setApplyingPromo] = useState<string | null>(null);
 
   const [selectedAddress, setSelectedAddress] = useState<Address | null>(null);
   const [refreshing, setRefreshing] = useState(false);
-  const [deliveryFee] = useState(0); // You can calculate this dynamically per store
   const [placingOrders, setPlacingOrders] = useState(false);
 
+  // Set once the orders are placed, so coming back here resumes their payment instead of ordering twice
+  const [checkoutSessionId, setCheckoutSessionId] = useState<string | null>(route.params?.checkoutSessionId || null);
+
+  // Cash on delivery is chosen per store, where the store offers it to this buyer
+  const [cashOnDelivery, setCashOnDelivery] = useState<Record<string, NonNullable<OrderQuote['cashOnDelivery']>>>({});
+  const [payOnDelivery, setPayOnDelivery] = useState<Record<string, boolean>>({});
+
   useEffect(() => {
     loadCheckoutData();
   }, []);
 
   const loadCheckoutData = async () => {
-    await loadAddresses();
+    await Promise.all([loadAddresses(), loadCashOnDeliveryOptions()]);
+  };
+
+  const loadCashOnDeliveryOptions = async () => {
+    for (const orderSummary of ordersFromCart) {
+      try {
+        const quote = await getOrderQuote({
+          storeId: orderSummary.storeId,
+          items: orderSummary.items.map(item => ({
+            productId: item.productId,
+            variantId: item.variantId,
+            quantity: item.quantity,
+          })),
+        });
+        updateCashOnDelivery(orderSummary.storeId, quote);
+      } catch (error) {
+        console.error(`Failed to check cash on delivery for ${orderSummary.storeName}:`, error);
+      }
+    }
+  };
+
+  const updateCashOnDelivery = (storeId: string, quote: OrderQuote) => {
+    if (!quote.cashOnDelivery) return;
+
+    const option = quote.cashOnDelivery;
+    setCashOnDelivery(prev => ({ ...prev, [storeId]: option }));
+    if (!option.available) {
+      setPayOnDelivery(prev => ({ ...prev, [storeId]: false }));
+    }
   };
 
   const loadAddresses = async () => {
@@ -73,7 +118,78 @@ const CheckoutScreen = ({ navigation, route }: any) => {
     setRefreshing(false);
   };
 
+  const updateOrderSummary = (storeId: string, updates: Partial<OrderSummary>) => {
+    setOrdersFromCart(prev =>
+      prev.map(order => (order.storeId === storeId ? { ...order, ...updates } : order))
+    );
+  };
+
+  const handleApplyPromo = async (orderSummary: OrderSummary) => {
+    const code = (promoInputs[orderSummary.storeId] || '').trim();
+    if (!code) return;
+
+    setApplyingPromo(orderSummary.storeId);
+    const response = await validateCoupon({
+      code,
+      storeId: orderSummary.storeId,
+      items: orderSummary.items.map(item => ({
+        productId: item.productId,
+        variantId: item.variantId,
+        quantity: item.quantity,
+      })),
+    });
+    setApplyingPromo(null);
+
+    if (!response.success || !response.data) {
+      Alert.alert('Invalid Code', response.message || 'This coupon could not be applied.');
+      return;
+    }
+
+    const quote = response.data;
+    updateOrderSummary(orderSummary.storeId, {
+      subtotal: quote.subtotal,
+      deliveryFee: quote.deliveryFee,
+      taxAmount: quote.taxAmount,
+      discount: quote.discount,
+      totalAmount: quote.totalAmount,
+      promoCode: quote.coupon?.code,
+    });
+  };
+
+  const handleRemovePromo = async (orderSummary: OrderSummary) => {
+    setApplyingPromo(orderSummary.storeId);
+    try {
+      const quote = await getOrderQuote({
+        storeId: orderSummary.storeId,
+        items: orderSummary.items.map(item => ({
+          productId: item.productId,
+          variantId: item.variantId,
+          quantity: item.quantity,
+        })),
+      });
+      updateOrderSummary(orderSummary.storeId, {
+        subtotal: quote.subtotal,
+        deliveryFee: quote.deliveryFee,
+        taxAmount: quote.taxAmount,
+        discount: quote.discount,
+        totalAmount: quote.totalAmount,
+        promoCode: undefined,
+      });
+      updateCashOnDelivery(orderSummary.storeId, quote);
+      setPromoInputs(prev => ({ ...prev, [orderSummary.storeId]: '' }));
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to remove coupon');
+    } finally {
+      setApplyingPromo(null);
+    }
+  };
+
   const handlePlaceOrders = async () => {
+    if (checkoutSessionId) {
+      navigation.navigate('Payment', { checkoutSessionId });
+      return;
+    }
+
     if (!selectedAddress) {
       Alert.alert('Address Required', 'Please add a delivery address to continue');
       return;
@@ -114,24 +230,25 @@ const CheckoutScreen = ({ navigation, route }: any) => {
         region: selectedAddress!.region,
         country: selectedAddress!.country || 'Ghana',
         postalCode: selectedAddress!.postalCode || undefined,
-        deliveryFee: deliveryFee,
         notes: '',
       };
 
       // Create order for each store
       for (const orderSummary of ordersFromCart) {
         try {
-          const totalAmount = orderSummary.subtotal + deliveryFee;
-
+          // The server re-prices the order and rejects it if these quoted totals are stale
           const orderData = {
             storeId: orderSummary.storeId,
             items: orderSummary.items,
-            deliveryInfo,
-            totalAmount,
+            deliveryInfo: { ...deliveryInfo, deliveryFee: orderSummary.deliveryFee },
+            totalAmount: orderSummary.totalAmount,
             subtotal: orderSummary.subtotal,
-            deliveryFee,
+            deliveryFee: orderSummary.deliveryFee,
+            taxAmount: orderSummary.taxAmount,
+            discount: orderSummary.discount,
+            promoCode: orderSummary.promoCode,
             currency: 'GHS',
-            checkoutSession: orderSummary.checkoutSession, // Use the session from cart
+            paymentMethod: payOnDelivery[orderSummary.storeId] ? 'CASH_ON_DELIVERY' : undefined,
           };
 
           const order = await createOrder(orderData);
@@ -140,7 +257,7 @@ const CheckoutScreen = ({ navigation, route }: any) => {
             successfulOrders.push({
               orderId: order.id,
               storeName: orderSummary.storeName,
-              checkoutSession: orderSummary.checkoutSession,
+              cashOnDelivery: order.paymentMethod === 'CASH_ON_DELIVERY',
             });
           } else {
             failedOrders.push(orderSummary.storeName);
@@ -151,21 +268,55 @@ const CheckoutScreen = ({ navigation, route }: any) => {
         }
       }
 
+      // Cash on delivery orders are already confirmed; only the rest go on to payment
+      const ordersToPay = successfulOrders.filter(order => !order.cashOnDelivery);
+      const cashOrderCount = successfulOrders.length - ordersToPay.length;
+
+      // Orders paid online are gathered into one checkout session that the Payment screen resumes
+      let sessionId: string | null = null;
+      if (ordersToPay.length > 0) {
+        try {
+          const session = await createCheckoutSession({
+            orderIds: ordersToPay.map(order => order.orderId),
+          });
+          sessionId = session?.data.checkoutSessionId || null;
+          setCheckoutSessionId(sessionId);
+        } catch (error) {
+          console.error('Failed to create checkout session:', error);
+        }
+      }
+
+      // Without a session the Payment screen starts one from the order ids
+      const paymentParams = sessionId
+        ? { checkoutSessionId: sessionId }
+        : { orders: ordersToPay, totalOrders: ordersToPay.length };
+
       // Show results and navigate
-      if (successfulOrders.length > 0 && failedOrders.length === 0) {
+      if (successfulOrders.length > 0 && ordersToPay.length === 0) {
+        Alert.alert(
+          failedOrders.length > 0 ? 'Partial Success' : 'Orders Placed!',
+          `${cashOrderCount} cash on delivery order(s) confirmed. Please have the cash ready when your order arrives.` +
+            (failedOrders.length > 0 ? `\n${failedOrders.length} order(s) failed for: ${failedOrders.join(', ')}` : ''),
+          [
+            {
+              text: 'View Orders',
+              onPress: () => navigation.navigate('Orders'),
+            },
+          ]
+        );
+      } else if (successfulOrders.length > 0 && failedOrders.length === 0) {
         // All orders successful
         Alert.alert(
           'Orders Created!',
-          `${successfulOrders.length} order(s) created successfully. Proceed to payment.`,
+          `${successfulOrders.length} order(s) created successfully.` +
+            (cashOrderCount > 0 ? ` ${cashOrderCount} will be paid in cash on delivery.` : '') +
+            ' Proceed to payment.',
           [
             {
               text: 'Go to Payment',
               onPress: () => {
-                // Navigate to payment with all order IDs
-                navigation.navigate('Payment', {
-                  orders: successfulOrders,
-                  totalOrders: successfulOrders.length,
-                });
+                // Navigate to payment with the orders still to be paid online
+                navigation.navigate('Payment', paymentParams);
               },
             },
           ]
@@ -184,10 +335,7 @@ const CheckoutScreen = ({ navigation, route }: any) => {
             {
               text: 'Proceed',
               onPress: () => {
-                navigation.navigate('Payment', {
-                  orders: successfulOrders,
-                  totalOrders: successfulOrders.length,
-                });
+                navigation.navigate('Payment', paymentParams);
               },
             },
           ]
@@ -215,14 +363,16 @@ const CheckoutScreen = ({ navigation, route }: any) => {
   // Calculate totals across all stores
   const calculateTotals = () => {
     const subtotal = ordersFromCart.reduce((sum, order) => sum + order.subtotal, 0);
-    const totalDeliveryFee = deliveryFee * ordersFromCart.length; // Delivery fee per store
-    const total = subtotal + totalDeliveryFee;
+    const totalDeliveryFee = ordersFromCart.reduce((sum, order) => sum + order.deliveryFee, 0);
+    const totalTax = ordersFromCart.reduce((sum, order) => sum + order.taxAmount, 0);
+    const totalDiscount = ordersFromCart.reduce((sum, order) => sum + order.discount, 0);
+    const total = ordersFromCart.reduce((sum, order) => sum + order.totalAmount, 0);
     const totalItems = ordersFromCart.reduce((sum, order) => sum + order.items.length, 0);
 
-    return { subtotal, totalDeliveryFee, total, totalItems };
+    return { subtotal, totalDeliveryFee, totalTax, totalDiscount, total, totalItems };
   };
 
-  const { subtotal, totalDeliveryFee, total, totalItems } = calculateTotals();
+  const { subtotal, totalDeliveryFee, totalTax, totalDiscount, total, totalItems } = calculateTotals();
 
   if (cartLoading && ordersFromCart.length === 0) {
     return (
@@ -344,7 +494,7 @@ const CheckoutScreen = ({ navigation, route }: any) => {
 
         {/* Order Items by Store */}
         {ordersFromCart.map((orderSummary, storeIndex) => (
-          <View key={orderSummary.checkoutSession} style={styles.section}>
+          <View key={orderSummary.storeId} style={styles.section}>
             <View style={styles.sectionHeader}>
               <View style={styles.sectionTitleContainer}>
                 <Ionicons name="storefront" size={20} color={Colors.primary} />
@@ -393,6 +543,92 @@ const CheckoutScreen = ({ navigation, route }: any) => {
               <Text style={styles.storeSubtotalLabel}>Store Subtotal</Text>
               <Text style={styles.storeSubtotalValue}>{formatPrice(orderSummary.subtotal)}</Text>
             </View>
+
+            {/* Store Promo Code */}
+            {orderSummary.promoCode ? (
+              <View style={styles.promoApplied}>
+                <View style={styles.promoAppliedInfo}>
+                  <Ionicons name="pricetag" size={16} color={Colors.success} />
+                  <Text style={styles.promoAppliedText}>
+                    {orderSummary.promoCode}
+                    {orderSummary.discount > 0 && ` (-${formatPrice(orderSummary.discount)})`}
+                  </Text>
+                </View>
+                <TouchableOpacity
+                  onPress={() => handleRemovePromo(orderSummary)}
+                  disabled={applyingPromo === orderSummary.storeId}
+                >
+                  <Text style={styles.changeText}>Remove</Text>
+                </TouchableOpacity>
+              </View>
+            ) : (
+              <View style={styles.promoRow}>
+                <TextInput
+                  style={styles.promoInput}
+                  placeholder="Promo code"
+                  placeholderTextColor={Colors.gray400}
+                  autoCapitalize="characters"
+                  value={promoInputs[orderSummary.storeId] || ''}
+                  onChangeText={(text) =>
+                    setPromoInputs(prev => ({ ...prev, [orderSummary.storeId]: text }))
+                  }
+                />
+                <TouchableOpacity
+                  style={styles.promoButton}
+                  onPress={() => handleApplyPromo(orderSummary)}
+                  disabled={applyingPromo === orderSummary.storeId}
+                >
+                  {applyingPromo === orderSummary.storeId ? (
+                    <ActivityIndicator size="small" color={Colors.white} />
+                  ) : (
+                    <Text style={styles.promoButtonText}>Apply</Text>
+                  )}
+                </TouchableOpacity>
+              </View>
+            )}
+
+            {/* Store Payment Method */}
+            {cashOnDelivery[orderSummary.storeId] && (
+              <View style={styles.paymentMethodRow}>
+                {[
+                  { cash: false, label: 'Pay online', icon: 'card-outline' as const },
+                  { cash: true, label: 'Cash on delivery', icon: 'cash-outline' as const },
+                ].map(option => {
+                  const disabled = option.cash && !cashOnDelivery[orderSummary.storeId].available;
+                  const selected = !!payOnDelivery[orderSummary.storeId] === option.cash;
+                  return (
+                    <TouchableOpacity
+                      key={option.label}
+                      style={[
+                        styles.paymentMethodOption,
+                        selected && styles.paymentMethodOptionSelected,
+                        disabled && styles.paymentMethodOptionDisabled,
+                      ]}
+                      onPress={() =>
+                        setPayOnDelivery(prev => ({ ...prev, [orderSummary.storeId]: option.cash }))
+                      }
+                      disabled={disabled}
+                    >
+                      <Ionicons
+                        name={option.icon}
+                        size={16}
+                        color={selected ? Colors.primary : Colors.gray600}
+                      />
+                      <Text style={[styles.paymentMethodText, selected && styles.paymentMethodTextSelected]}>
+                        {option.label}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            )}
+            {cashOnDelivery[orderSummary.storeId] &&
+              !cashOnDelivery[orderSummary.storeId].available &&
+              cashOnDelivery[orderSummary.storeId].reason && (
+                <Text style={styles.paymentMethodNote}>
+                  {cashOnDelivery[orderSummary.storeId].reason}
+                </Text>
+              )}
           </View>
         ))}
 
@@ -419,6 +655,18 @@ const CheckoutScreen = ({ navigation, route }: any) => {
             <Text style={{ ...styles.summaryLabel, marginLeft: 16, fontStyle: 'italic', fontSize: 12, color: '#555' }}>
               To be negotiated with seller
             </Text>
+            {totalTax > 0 && (
+              <View style={styles.summaryRow}>
+                <Text style={styles.summaryLabel}>Tax</Text>
+                <Text style={styles.summaryValue}>{formatPrice(totalTax)}</Text>
+              </View>
+            )}
+            {totalDiscount > 0 && (
+              <View style={styles.summaryRow}>
+                <Text style={styles.summaryLabel}>Discount</Text>
+                <Text style={styles.summaryValue}>-{formatPrice(totalDiscount)}</Text>
+              </View>
+            )}
             <View style={styles.divider} />
             <View style={styles.summaryRow}>
               <Text style={styles.totalLabel}>Total</Text>
@@ -450,7 +698,9 @@ const CheckoutScreen = ({ navigation, route }: any) => {
           ) : (
             <>
               <Text style={styles.checkoutButtonText}>
-                Place {ordersFromCart.length === 1 ? 'Order' : `${ordersFromCart.length} Orders`}
+                {checkoutSessionId
+                  ? 'Continue to Payment'
+                  : `Place ${ordersFromCart.length === 1 ? 'Order' : `${ordersFromCart.length} Orders`}`}
               </Text>
               <Ionicons name="arrow-forward" size={20} color={Colors.white} />
             </>
@@ -731,6 +981,92 @@ const styles = StyleSheet.create({
     fontWeight: '700',
     color: Colors.primary,
   },
+  promoRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingHorizontal: 16,
+    paddingTop: 12,
+  },
+  promoInput: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: 14,
+    color: Colors.textPrimary,
+  },
+  promoButton: {
+    backgroundColor: Colors.primary,
+    borderRadius: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    minWidth: 72,
+    alignItems: 'center',
+  },
+  promoButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: Colors.white,
+  },
+  paymentMethodRow: {
+    flexDirection: 'row',
+    gap: 8,
+    paddingHorizontal: 16,
+    paddingTop: 12,
+  },
+  paymentMethodOption: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    paddingVertical: 10,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    backgroundColor: Colors.white,
+  },
+  paymentMethodOptionSelected: {
+    borderColor: Colors.primary,
+    backgroundColor: Colors.primaryLight + '10',
+  },
+  paymentMethodOptionDisabled: {
+    opacity: 0.5,
+  },
+  paymentMethodText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: Colors.textSecondary,
+  },
+  paymentMethodTextSelected: {
+    color: Colors.primary,
+  },
+  paymentMethodNote: {
+    fontSize: 12,
+    color: Colors.textTertiary,
+    paddingHorizontal: 16,
+    paddingTop: 6,
+  },
+  promoApplied: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingTop: 12,
+  },
+  promoAppliedInfo: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  promoAppliedText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: Colors.success,
+  },
   summaryCard: {
     marginHorizontal: 16,
     padding: 16,
@@ -8,14 +8,19 @@ import {
   ActivityIndicator,
   Alert,
   RefreshControl,
-  Modal,
-  TextInput,
 } from 'react-native';
 import { useNavigation, useRoute, useFocusEffect } from '@react-navigation/native';
 import { Ionicons, MaterialIcons } from '@expo/vector-icons';
-import { useDisputes, Dispute, DisputeType } from '../../hooks/useDisputes';
+import {
+  useDisputes,
+  Dispute,
+  DisputeType,
+  DisputeMediaFile,
+  isDisputeOpen,
+} from '../../hooks/useDisputes';
 import { useAuth } from '../../context/AuthContext';
 import { Colors } from '../../constants/colors';
+import DisputeThread from '../../components/DisputeThread';
 
 interface RouteParams {
   disputeId: string;
@@ -31,16 +36,13 @@ const DisputeDetailsScreen: React.FC = () => {
     loading,
     error,
     getDisputeById,
-    updateDispute,
+    sendDisputeMessage,
     cancelDispute,
     clearError,
   } = useDisputes();
 
   const [dispute, setDispute] = useState<Dispute | null>(null);
   const [refreshing, setRefreshing] = useState(false);
-  const [showAddInfoModal, setShowAddInfoModal] = useState(false);
-  const [additionalInfo, setAdditionalInfo] = useState('');
-  const [addingInfo, setAddingInfo] = useState(false);
 
   useEffect(() => {
     loadDispute();
@@ -80,27 +82,12 @@ const DisputeDetailsScreen: React.FC = () => {
     setRefreshing(false);
   };
 
-  const handleAddInfo = async () => {
-    if (!additionalInfo.trim()) {
-      Alert.alert('Error', 'Please provide additional information');
-      return;
-    }
-
-    if (additionalInfo.trim().length < 10) {
-      Alert.alert('Error', 'Additional information must be at least 10 characters');
-      return;
-    }
-
-    setAddingInfo(true);
-    const updatedDispute = await updateDispute(disputeId, additionalInfo.trim());
-    setAddingInfo(false);
-
-    if (updatedDispute) {
-      setDispute(updatedDispute);
-      setAdditionalInfo('');
-      setShowAddInfoModal(false);
-      Alert.alert('Success', 'Additional information added successfully');
+  const handleSendMessage = async (message: string, media: DisputeMediaFile[]) => {
+    const sent = await sendDisputeMessage(disputeId, message, media);
+    if (sent) {
+      await loadDispute();
     }
+    return !!sent;
   };
 
   const handleCancelDispute = () => {
@@ -149,10 +136,11 @@ const DisputeDetailsScreen: React.FC = () => {
     return icons[type] || 'help-circle-outline';
   };
 
-  const getStatusColor = (status: string) => {
+  const getStatusColor = (status: Dispute['status']) => {
+    if (isDisputeOpen(status)) {
+      return Colors.warning;
+    }
     switch (status) {
-      case 'PENDING':
-        return Colors.warning;
       case 'RESOLVED':
         return Colors.success;
       case 'CANCELLED':
@@ -162,10 +150,11 @@ const DisputeDetailsScreen: React.FC = () => {
     }
   };
 
-  const getStatusBgColor = (status: string) => {
+  const getStatusBgColor = (status: Dispute['status']) => {
+    if (isDisputeOpen(status)) {
+      return Colors.warningLight;
+    }
     switch (status) {
-      case 'PENDING':
-        return Colors.warningLight;
       case 'RESOLVED':
         return Colors.infoLight;
       case 'CANCELLED':
@@ -213,8 +202,8 @@ const DisputeDetailsScreen: React.FC = () => {
 
   const { mainDescription, updates } = parseDescription(dispute.description);
   const isBuyer = user?.id === dispute.buyerId;
-  const canAddInfo = dispute.status === 'PENDING';
-  const canCancel = dispute.status === 'PENDING';
+  const canCancel = isDisputeOpen(dispute.status);
+  const hasThread = !!dispute.messages && dispute.messages.length > 0;
 
   return (
     <View style={styles.container}>
@@ -247,7 +236,7 @@ const DisputeDetailsScreen: React.FC = () => {
           </View>
           <View style={[styles.statusBadgeLarge, { backgroundColor: Colors.white }]}>
             <Text style={[styles.statusTextLarge, { color: getStatusColor(dispute.status) }]}>
-              {dispute.status}
+              {dispute.status.replace(/_/g, ' ')}
             </Text>
           </View>
         </View>
@@ -351,29 +340,48 @@ const DisputeDetailsScreen: React.FC = () => {
           </TouchableOpacity>
         </View>
 
-        {/* Original Complaint */}
-        <View style={styles.section}>
-          <Text style={styles.sectionTitle}>Original Complaint</Text>
-          <View style={styles.complaintCard}>
-            <View style={styles.complaintHeader}>
-              <View style={styles.avatarPlaceholder}>
-                <Text style={styles.avatarText}>
-                  {isBuyer ? 'You' : dispute.order?.buyer?.firstName?.charAt(0) || 'B'}
-                </Text>
-              </View>
-              <View style={styles.complaintHeaderText}>
-                <Text style={styles.complaintAuthor}>
-                  {isBuyer ? 'You' : dispute.order?.buyer?.firstName || 'Buyer'}
-                </Text>
-                <Text style={styles.complaintRole}>Buyer</Text>
+        {/* Conversation */}
+        {hasThread && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Conversation</Text>
+            <View style={styles.threadCard}>
+              <DisputeThread
+                messages={dispute.messages || []}
+                currentUserId={user?.id}
+                status={dispute.status}
+                deadlineAt={dispute.deadlineAt}
+                sellerRespondedAt={dispute.sellerRespondedAt}
+                onSend={handleSendMessage}
+              />
+            </View>
+          </View>
+        )}
+
+        {/* Original Complaint (disputes opened before the thread existed) */}
+        {!hasThread && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Original Complaint</Text>
+            <View style={styles.complaintCard}>
+              <View style={styles.complaintHeader}>
+                <View style={styles.avatarPlaceholder}>
+                  <Text style={styles.avatarText}>
+                    {isBuyer ? 'You' : dispute.order?.buyer?.firstName?.charAt(0) || 'B'}
+                  </Text>
+                </View>
+                <View style={styles.complaintHeaderText}>
+                  <Text style={styles.complaintAuthor}>
+                    {isBuyer ? 'You' : dispute.order?.buyer?.firstName || 'Buyer'}
+                  </Text>
+                  <Text style={styles.complaintRole}>Buyer</Text>
+                </View>
               </View>
+              <Text style={styles.complaintText}>{mainDescription}</Text>
             </View>
-            <Text style={styles.complaintText}>{mainDescription}</Text>
           </View>
-        </View>
+        )}
 
         {/* Updates/Messages */}
-        {updates.length > 0 && (
+        {!hasThread && updates.length > 0 && (
           <View style={styles.section}>
             <Text style={styles.sectionTitle}>Updates</Text>
             {updates.map((update, index) => (
@@ -453,80 +461,18 @@ const DisputeDetailsScreen: React.FC = () => {
       </ScrollView>
 
       {/* Action Buttons */}
-      {canAddInfo && (
+      {canCancel && (
         <View style={styles.footer}>
-          {canCancel && (
-            <TouchableOpacity
-              style={styles.cancelDisputeButton}
-              onPress={handleCancelDispute}
-              disabled={loading}
-            >
-              <Ionicons name="close-circle-outline" size={20} color={Colors.error} />
-              <Text style={styles.cancelDisputeButtonText}>Cancel Dispute</Text>
-            </TouchableOpacity>
-          )}
           <TouchableOpacity
-            style={styles.addInfoButton}
-            onPress={() => setShowAddInfoModal(true)}
+            style={styles.cancelDisputeButton}
+            onPress={handleCancelDispute}
             disabled={loading}
           >
-            <Ionicons name="add-circle-outline" size={20} color={Colors.white} />
-            <Text style={styles.addInfoButtonText}>Add Information</Text>
+            <Ionicons name="close-circle-outline" size={20} color={Colors.error} />
+            <Text style={styles.cancelDisputeButtonText}>Cancel Dispute</Text>
           </TouchableOpacity>
         </View>
       )}
-
-      {/* Add Info Modal */}
-      <Modal
-        visible={showAddInfoModal}
-        animationType="slide"
-        transparent={true}
-        onRequestClose={() => setShowAddInfoModal(false)}
-      >
-        <View style={styles.modalOverlay}>
-          <View style={styles.modalContent}>
-            <View style={styles.modalHeader}>
-              <Text style={styles.modalTitle}>Add Additional Information</Text>
-              <TouchableOpacity onPress={() => setShowAddInfoModal(false)}>
-                <Ionicons name="close" size={24} color={Colors.textPrimary} />
-              </TouchableOpacity>
-            </View>
-
-            <Text style={styles.modalDescription}>
-              Provide any additional details that might help resolve this dispute.
-            </Text>
-
-            <TextInput
-              style={styles.modalTextArea}
-              value={additionalInfo}
-              onChangeText={setAdditionalInfo}
-              placeholder="Enter additional information..."
-              placeholderTextColor={Colors.textTertiary}
-              multiline
-              numberOfLines={6}
-              maxLength={500}
-              textAlignVertical="top"
-            />
-
-            <Text style={styles.modalCharCount}>{additionalInfo.length}/500 characters</Text>
-
-            <TouchableOpacity
-              style={[
-                styles.modalSubmitButton,
-                (!additionalInfo.trim() || addingInfo) && styles.modalSubmitButtonDisabled,
-              ]}
-              onPress={handleAddInfo}
-              disabled={!additionalInfo.trim() || addingInfo}
-            >
-              {addingInfo ? (
-                <ActivityIndicator size="small" color={Colors.white} />
-              ) : (
-                <Text style={styles.modalSubmitButtonText}>Submit</Text>
-              )}
-            </TouchableOpacity>
-          </View>
-        </View>
-      </Modal>
     </View>
   );
 };
@@ -710,6 +656,16 @@ const styles = StyleSheet.create({
     shadowRadius: 8,
     elevation: 2,
   },
+  threadCard: {
+    backgroundColor: Colors.white,
+    borderRadius: 12,
+    padding: 16,
+    shadowColor: Colors.black,
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.05,
+    shadowRadius: 8,
+    elevation: 2,
+  },
   complaintHeader: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -856,88 +812,6 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: Colors.error,
   },
-  addInfoButton: {
-    flex: 1,
-    backgroundColor: Colors.primary,
-    padding: 16,
-    borderRadius: 12,
-    alignItems: 'center',
-    justifyContent: 'center',
-    flexDirection: 'row',
-    shadowColor: Colors.primary,
-    shadowOffset: { width: 0, height: 4 },
-    shadowOpacity: 0.3,
-    shadowRadius: 8,
-    elevation: 4,
-    gap: 8,
-  },
-  addInfoButtonText: {
-    fontSize: 16,
-    fontWeight: '600',
-    color: Colors.white,
-  },
-  modalOverlay: {
-    flex: 1,
-    backgroundColor: Colors.overlay,
-    justifyContent: 'flex-end',
-  },
-  modalContent: {
-    backgroundColor: Colors.white,
-    borderTopLeftRadius: 24,
-    borderTopRightRadius: 24,
-    padding: 24,
-    maxHeight: '80%',
-  },
-  modalHeader: {
-    flexDirection: 'row',
-    justifyContent: 'space-between',
-    alignItems: 'center',
-    marginBottom: 16,
-  },
-  modalTitle: {
-    fontSize: 20,
-    fontWeight: 'bold',
-    color: Colors.textPrimary,
-  },
-  modalDescription: {
-    fontSize: 14,
-    color: Colors.textSecondary,
-    marginBottom: 16,
-    lineHeight: 20,
-  },
-  modalTextArea: {
-    backgroundColor: Colors.backgroundSecondary,
-    borderRadius: 12,
-    padding: 12,
-    fontSize: 14,
-    color: Colors.textPrimary,
-    minHeight: 120,
-    textAlignVertical: 'top',
-    borderWidth: 1,
-    borderColor: Colors.border,
-  },
-  modalCharCount: {
-    fontSize: 12,
-    color: Colors.textTertiary,
-    textAlign: 'right',
-    marginTop: 8,
-    marginBottom: 16,
-  },
-  modalSubmitButton: {
-    backgroundColor: Colors.primary,
-    padding: 16,
-    borderRadius: 12,
-    alignItems: 'center',
-    justifyContent: 'center',
-  },
-  modalSubmitButtonDisabled: {
-    backgroundColor: Colors.disabled,
-  },
-  modalSubmitButtonText: {
-    fontSize: 16,
-    fontWeight: '600',
-    color: Colors.white,
-  },
 });
 
 export default DisputeDetailsScreen;
\ No newline at end of file
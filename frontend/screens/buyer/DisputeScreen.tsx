@@ -11,7 +11,14 @@ import {
 } from 'react-native';
 import { useNavigation, useFocusEffect } from '@react-navigation/native';
 import { Ionicons, MaterialIcons } from '@expo/vector-icons';
-import { useDisputes, Dispute, DisputeStatus, DisputeType } from '../../hooks/useDisputes';
+import {
+  useDisputes,
+  Dispute,
+  DisputeStatus,
+  DisputeStatusFilter,
+  DisputeType,
+  isDisputeOpen,
+} from '../../hooks/useDisputes';
 import { Colors } from '../../constants/colors';
 
 const DisputesScreen: React.FC = () => {
@@ -22,7 +29,7 @@ const DisputesScreen: React.FC = () => {
   const [refreshing, setRefreshing] = useState(false);
   const [page, setPage] = useState(1);
   const [hasMore, setHasMore] = useState(true);
-  const [selectedStatus, setSelectedStatus] = useState<DisputeStatus | 'ALL'>('ALL');
+  const [selectedStatus, setSelectedStatus] = useState<DisputeStatusFilter | 'ALL'>('ALL');
   const [stats, setStats] = useState({
     pending: 0,
     resolved: 0,
@@ -57,7 +64,7 @@ const DisputesScreen: React.FC = () => {
         // Calculate stats
         const allDisputes = await getUserDisputes(1, 1000);
         if (allDisputes) {
-          const pending = allDisputes.disputes.filter((d) => d.status === 'PENDING').length;
+          const pending = allDisputes.disputes.filter((d) => isDisputeOpen(d.status)).length;
           const resolved = allDisputes.disputes.filter((d) => d.status === 'RESOLVED').length;
           const cancelled = allDisputes.disputes.filter((d) => d.status === 'CANCELLED').length;
           setStats({ pending, resolved, cancelled });
@@ -105,9 +112,10 @@ const DisputesScreen: React.FC = () => {
   };
 
   const getStatusColor = (status: DisputeStatus) => {
+    if (isDisputeOpen(status)) {
+      return Colors.warning;
+    }
     switch (status) {
-      case 'PENDING':
-        return Colors.warning;
       case 'RESOLVED':
         return Colors.success;
       case 'CANCELLED':
@@ -118,9 +126,10 @@ const DisputesScreen: React.FC = () => {
   };
 
   const getStatusBgColor = (status: DisputeStatus) => {
+    if (isDisputeOpen(status)) {
+      return Colors.warningLight;
+    }
     switch (status) {
-      case 'PENDING':
-        return Colors.warningLight;
       case 'RESOLVED':
         return Colors.successLight;
       case 'CANCELLED':
@@ -185,7 +194,7 @@ const DisputesScreen: React.FC = () => {
         </View>
         <View style={[styles.statusBadge, { backgroundColor: getStatusBgColor(dispute.status) }]}>
           <Text style={[styles.statusText, { color: getStatusColor(dispute.status) }]}>
-            {dispute.status}
+            {dispute.status.replace(/_/g, ' ')}
           </Text>
         </View>
       </View>
@@ -268,7 +277,7 @@ const DisputesScreen: React.FC = () => {
       {/* Status Filters */}
       <View style={styles.filtersContainer}>
         <StatusFilter status="ALL" label="All" count={stats.pending + stats.resolved + stats.cancelled} />
-        <StatusFilter status="PENDING" label="Pending" count={stats.pending} />
+        <StatusFilter status="OPEN" label="Open" count={stats.pending} />
         <StatusFilter status="RESOLVED" label="Resolved" count={stats.resolved} />
         <StatusFilter status="CANCELLED" label="Cancelled" count={stats.cancelled} />
       </View>
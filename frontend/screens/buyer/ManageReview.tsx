@@ -196,7 +196,9 @@ export default function ManageReviewScreen() {
 
         Alert.alert(
           'Success!',
-          `Review submitted successfully! You earned ${result.awardedPoints} points.`,
+          result.awardedPoints > 0
+            ? `Review submitted successfully! You earned ${result.awardedPoints} points.`
+            : 'Review submitted successfully!',
           [
             {
               text: 'OK',
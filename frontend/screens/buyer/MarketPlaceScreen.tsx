@@ -15,7 +15,12 @@ import {
   Modal,
   Alert,
 } from 'react-native';
-import { useProduct } from '../../hooks/useProducts';
+import {
+  useProduct,
+  SearchSuggestions,
+  ProductFacets,
+  FacetValue,
+} from '../../hooks/useProducts';
 import { useCart } from '../../context/CartContext';
 import { Colors } from '../../constants/colors';
 import Feather from '@expo/vector-icons/Feather';
@@ -26,6 +31,33 @@ import EvilIcons from '@expo/vector-icons/EvilIcons';
 const { width } = Dimensions.get('window');
 const CARD_WIDTH = (width - 48) / 2;
 
+// Wait this long after the last keystroke or filter toggle before asking for suggestions or counts
+const SUGGESTION_DELAY_MS = 250;
+
+// Filters chosen in the filter sheet; they only apply to the list once the buyer taps Apply
+interface FilterValues {
+  category: string;
+  regions: string[];
+  sizes: string[];
+  colors: string[];
+  tags: string[];
+  minPrice: string;
+  maxPrice: string;
+  minRating: number | null;
+  verified: boolean;
+}
+
+const EMPTY_FILTERS: Omit<FilterValues, 'category'> = {
+  regions: [],
+  sizes: [],
+  colors: [],
+  tags: [],
+  minPrice: '',
+  maxPrice: '',
+  minRating: null,
+  verified: false,
+};
+
 const CATEGORIES = [
   'All',
   'Electronics',
@@ -50,24 +82,34 @@ interface MarketplaceScreenProps {
 }
 
 const MarketplaceScreen: React.FC<MarketplaceScreenProps> = ({ navigation }) => {
-  const { getAllProducts, products, pagination, loading, error } = useProduct();
+  const {
+    getAllProducts,
+    getSearchSuggestions,
+    getProductFacets,
+    products,
+    pagination,
+    searchSuggestion,
+    loading,
+    error,
+  } = useProduct();
   const { addItem } = useCart();
 
   const [refreshing, setRefreshing] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
+  const [searchInput, setSearchInput] = useState('');
+  const [autocomplete, setAutocomplete] = useState<SearchSuggestions | null>(null);
+  const [showAutocomplete, setShowAutocomplete] = useState(false);
   const [selectedCategory, setSelectedCategory] = useState('All');
-  const [sortBy, setSortBy] = useState<'createdAt' | 'price' | 'name' | 'quantityBought' | 'viewCount'>('createdAt');
+  const [sortBy, setSortBy] = useState<'relevance' | 'createdAt' | 'price' | 'name' | 'quantityBought' | 'viewCount'>('createdAt');
   const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('desc');
   const [page, setPage] = useState(1);
   const [loadingMore, setLoadingMore] = useState(false);
   const [showFilters, setShowFilters] = useState(false);
   
   // Filter states
-  const [minPrice, setMinPrice] = useState('');
-  const [maxPrice, setMaxPrice] = useState('');
-  const [selectedTags, setSelectedTags] = useState<string[]>([]);
-  const [selectedSizes, setSelectedSizes] = useState<string[]>([]);
-  const [selectedColors, setSelectedColors] = useState<string[]>([]);
+  const [filters, setFilters] = useState(EMPTY_FILTERS);
+  const [draftFilters, setDraftFilters] = useState<FilterValues>({ ...EMPTY_FILTERS, category: 'All' });
+  const [facets, setFacets] = useState<ProductFacets | null>(null);
    const [selectedSize, setSelectedSize] = useState<string | null>(null);
     const [selectedColor, setSelectedColor] = useState<string | null>(null);
     const [addingToCart, setAddingToCart] = useState(false);
@@ -75,25 +117,70 @@ const MarketplaceScreen: React.FC<MarketplaceScreenProps> = ({ navigation }) =>
 
   useEffect(() => {
     fetchProducts();
-  }, [searchQuery, selectedCategory, sortBy, sortOrder, page]);
+  }, [searchQuery, selectedCategory, sortBy, sortOrder, page, filters]);
+
+  // Refresh the counts in the filter sheet as facets are toggled
+  useEffect(() => {
+    if (!showFilters) return;
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      const counts = await getProductFacets(buildFilters(draftFilters));
+      if (!cancelled && counts) setFacets(counts);
+    }, SUGGESTION_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [showFilters, draftFilters, searchQuery]);
+
+  useEffect(() => {
+    const query = searchInput.trim();
+    if (query.length < 2) {
+      setAutocomplete(null);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      const suggestions = await getSearchSuggestions(query);
+      if (!cancelled) setAutocomplete(suggestions);
+    }, SUGGESTION_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [searchInput]);
+
+  // Shared by the product list and the facet counts
+  const buildFilters = (values: FilterValues) => {
+    const productFilters: any = {
+      search: searchQuery,
+      category: values.category !== 'All' ? values.category : undefined,
+    };
+
+    if (values.minPrice) productFilters.minPrice = parseFloat(values.minPrice);
+    if (values.maxPrice) productFilters.maxPrice = parseFloat(values.maxPrice);
+    if (values.tags.length > 0) productFilters.tags = values.tags;
+    if (values.sizes.length > 0) productFilters.sizes = values.sizes;
+    if (values.colors.length > 0) productFilters.color = values.colors;
+    if (values.regions.length > 0) productFilters.region = values.regions;
+    if (values.minRating) productFilters.minRating = values.minRating;
+    if (values.verified) productFilters.verified = true;
+
+    return productFilters;
+  };
 
   const fetchProducts = async () => {
-    const filters: any = {
+    await getAllProducts({
+      ...buildFilters({ ...filters, category: selectedCategory }),
       page,
       limit: 10,
-      search: searchQuery,
-      category: selectedCategory !== 'All' ? selectedCategory : undefined,
       sortBy,
       sortOrder,
-    };
-
-    if (minPrice) filters.minPrice = parseFloat(minPrice);
-    if (maxPrice) filters.maxPrice = parseFloat(maxPrice);
-    if (selectedTags.length > 0) filters.tags = selectedTags;
-    if (selectedSizes.length > 0) filters.sizes = selectedSizes;
-    if (selectedColors.length > 0) filters.color = selectedColors;
-
-    await getAllProducts(filters);
+    });
   };
 
   const onRefresh = useCallback(async () => {
@@ -101,7 +188,7 @@ const MarketplaceScreen: React.FC<MarketplaceScreenProps> = ({ navigation }) =>
     setPage(1);
     await fetchProducts();
     setRefreshing(false);
-  }, [searchQuery, selectedCategory, sortBy, sortOrder, minPrice, maxPrice]);
+  }, [searchQuery, selectedCategory, sortBy, sortOrder, filters]);
 
   const loadMore = () => {
     if (pagination && page < pagination.pages && !loadingMore) {
@@ -112,10 +199,37 @@ const MarketplaceScreen: React.FC<MarketplaceScreenProps> = ({ navigation }) =>
   };
 
   const handleSearch = (text: string) => {
-    setSearchQuery(text);
+    setSearchInput(text);
+    setShowAutocomplete(true);
+    if (!text) submitSearch('');
+  };
+
+  const submitSearch = (text: string) => {
+    const query = text.trim();
+    setSearchInput(text);
+    setSearchQuery(query);
+    setShowAutocomplete(false);
+    // Searches are best sorted by how well they match
+    if (query) {
+      setSortBy('relevance');
+    } else if (sortBy === 'relevance') {
+      setSortBy('createdAt');
+    }
     setPage(1);
   };
 
+  // Matched words come back wrapped in <mark></mark>
+  const renderHighlighted = (text: string) =>
+    text.split(/(<mark>.*?<\/mark>)/).map((part, index) =>
+      part.startsWith('<mark>') ? (
+        <Text key={index} style={styles.highlightText}>
+          {part.replace(/<\/?mark>/g, '')}
+        </Text>
+      ) : (
+        part
+      )
+    );
+
   const handleCategorySelect = (category: string) => {
     setSelectedCategory(category);
     setPage(1);
@@ -175,21 +289,45 @@ const MarketplaceScreen: React.FC<MarketplaceScreenProps> = ({ navigation }) =>
     }
   };
 
+  const openFilters = () => {
+    setDraftFilters({ ...filters, category: selectedCategory });
+    setShowFilters(true);
+  };
+
   const applyFilters = () => {
+    const { category, ...rest } = draftFilters;
     setShowFilters(false);
+    setSelectedCategory(category);
+    setFilters(rest);
     setPage(1);
-    fetchProducts();
   };
 
   const clearFilters = () => {
-    setMinPrice('');
-    setMaxPrice('');
-    setSelectedTags([]);
-    setSelectedSizes([]);
-    setSelectedColors([]);
     setShowFilters(false);
+    setSelectedCategory('All');
+    setFilters(EMPTY_FILTERS);
     setPage(1);
-    fetchProducts();
+  };
+
+  const toggleDraftValue = (key: 'regions' | 'sizes' | 'colors' | 'tags', value: string) => {
+    setDraftFilters((current) => ({
+      ...current,
+      [key]: current[key].includes(value)
+        ? current[key].filter((item) => item !== value)
+        : [...current[key], value],
+    }));
+  };
+
+  const togglePriceBand = (min: number, max: number | null) => {
+    setDraftFilters((current) => {
+      const selected =
+        current.minPrice === String(min) && current.maxPrice === (max === null ? '' : String(max));
+      return {
+        ...current,
+        minPrice: selected ? '' : String(min),
+        maxPrice: selected || max === null ? '' : String(max),
+      };
+    });
   };
 
   const renderProductCard = ({ item }: { item: any }) => (
@@ -217,9 +355,15 @@ const MarketplaceScreen: React.FC<MarketplaceScreenProps> = ({ navigation }) =>
       {/* Product Info */}
       <View style={styles.productInfo}>
         <Text style={styles.productName} numberOfLines={2}>
-          {item.name}
+          {item.highlight ? renderHighlighted(item.highlight.name) : item.name}
         </Text>
 
+        {item.highlight?.description?.includes('<mark>') && (
+          <Text style={styles.snippetText} numberOfLines={2}>
+            {renderHighlighted(item.highlight.description)}
+          </Text>
+        )}
+
         {item.store && (
           <Text style={styles.storeName} numberOfLines={1}>
             By {item.store.name}
@@ -263,7 +407,7 @@ const MarketplaceScreen: React.FC<MarketplaceScreenProps> = ({ navigation }) =>
         <Text style={styles.title}>Marketplace</Text>
         {pagination && (
           <Text style={styles.resultCount}>
-            {pagination.total} {pagination.total === 1 ? 'Product' : 'Products'}
+            {pagination.total}{pagination.capped ? '+' : ''} {pagination.total === 1 ? 'Product' : 'Products'}
           </Text>
         )}
       </View>
@@ -276,10 +420,12 @@ const MarketplaceScreen: React.FC<MarketplaceScreenProps> = ({ navigation }) =>
             style={styles.searchInput}
             placeholder="Search products..."
             placeholderTextColor={Colors.gray400}
-            value={searchQuery}
+            value={searchInput}
             onChangeText={handleSearch}
+            onSubmitEditing={() => submitSearch(searchInput)}
+            returnKeyType="search"
           />
-          {searchQuery.length > 0 && (
+          {searchInput.length > 0 && (
             <TouchableOpacity onPress={() => handleSearch('')}>
               <Text style={styles.clearIcon}>✕</Text>
             </TouchableOpacity>
@@ -303,6 +449,55 @@ const MarketplaceScreen: React.FC<MarketplaceScreenProps> = ({ navigation }) =>
         </View>
       </View>
 
+      {/* Search-as-you-type suggestions */}
+      {showAutocomplete && autocomplete &&
+        (autocomplete.terms.length > 0 || autocomplete.products.length > 0) && (
+        <View style={styles.autocompleteContainer}>
+          {autocomplete.terms.map((term) => (
+            <TouchableOpacity
+              key={`term-${term}`}
+              style={styles.autocompleteRow}
+              onPress={() => submitSearch(term)}
+            >
+              <Feather name="search" size={16} color={Colors.gray500} />
+              <Text style={styles.autocompleteText}>{term}</Text>
+            </TouchableOpacity>
+          ))}
+          {autocomplete.products.map((product) => (
+            <TouchableOpacity
+              key={`product-${product.url}`}
+              style={styles.autocompleteRow}
+              onPress={() => {
+                setShowAutocomplete(false);
+                handleProductPress(product);
+              }}
+            >
+              {product.image ? (
+                <Image source={{ uri: product.image }} style={styles.autocompleteImage} />
+              ) : (
+                <View style={[styles.placeholderImage, styles.autocompleteImage]} />
+              )}
+              <Text style={styles.autocompleteText} numberOfLines={1}>
+                {product.name}
+              </Text>
+              <Text style={styles.autocompletePrice}>GH₵ {product.price.toFixed(2)}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+
+      {/* Did you mean */}
+      {searchQuery.length > 0 && searchSuggestion && (
+        <TouchableOpacity
+          style={styles.didYouMean}
+          onPress={() => submitSearch(searchSuggestion)}
+        >
+          <Text style={styles.didYouMeanText}>
+            Did you mean <Text style={styles.didYouMeanTerm}>{searchSuggestion}</Text>?
+          </Text>
+        </TouchableOpacity>
+      )}
+
 
 
       {/* Categories */}
@@ -339,6 +534,22 @@ const MarketplaceScreen: React.FC<MarketplaceScreenProps> = ({ navigation }) =>
           showsHorizontalScrollIndicator={false}
           style={styles.sortContainer}
         >
+          {searchQuery.length > 0 && (
+            <TouchableOpacity
+              style={[styles.sortBtn, sortBy === 'relevance' && styles.sortBtnActive]}
+              onPress={() => changeSortBy('relevance')}
+            >
+              <Text
+                style={[
+                  styles.sortBtnText,
+                  sortBy === 'relevance' && styles.sortBtnTextActive,
+                ]}
+              >
+                Best Match
+              </Text>
+            </TouchableOpacity>
+          )}
+
           <TouchableOpacity
             style={[styles.sortBtn, sortBy === 'createdAt' && styles.sortBtnActive]}
             onPress={() => changeSortBy('createdAt')}
@@ -404,7 +615,7 @@ const MarketplaceScreen: React.FC<MarketplaceScreenProps> = ({ navigation }) =>
 
         <TouchableOpacity
           style={styles.filterBtn}
-          onPress={() => setShowFilters(true)}
+          onPress={openFilters}
         >
           <Text style={styles.filterBtnText}><EvilIcons name="gear" size={24} color="white" /> Filters</Text>
         </TouchableOpacity>
@@ -433,6 +644,50 @@ const MarketplaceScreen: React.FC<MarketplaceScreenProps> = ({ navigation }) =>
     );
   };
 
+  const renderChip = (
+    key: string,
+    label: string,
+    active: boolean,
+    empty: boolean,
+    onPress: () => void
+  ) => (
+    <TouchableOpacity
+      key={key}
+      style={[styles.facetChip, active && styles.facetChipActive, empty && !active && styles.facetChipEmpty]}
+      onPress={onPress}
+      disabled={empty && !active}
+    >
+      <Text style={[styles.facetChipText, active && styles.facetChipTextActive]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  const renderFacetChips = (
+    title: string,
+    values: FacetValue[],
+    selected: string[],
+    onToggle: (value: string) => void
+  ) => {
+    if (values.length === 0) return null;
+
+    return (
+      <View style={styles.filterSection}>
+        <Text style={styles.filterLabel}>{title}</Text>
+        <View style={styles.facetChips}>
+          {values.map((facet) => {
+            const active = selected.includes(facet.value);
+            return renderChip(
+              facet.value,
+              `${facet.value} (${facet.count})`,
+              active,
+              facet.count === 0,
+              () => onToggle(facet.value)
+            );
+          })}
+        </View>
+      </View>
+    );
+  };
+
   const renderFiltersModal = () => (
     <Modal
       visible={showFilters}
@@ -450,16 +705,44 @@ const MarketplaceScreen: React.FC<MarketplaceScreenProps> = ({ navigation }) =>
           </View>
 
           <ScrollView style={styles.modalScroll}>
+            {/* Category */}
+            {renderFacetChips(
+              'Category',
+              facets?.facets.categories || [],
+              draftFilters.category !== 'All' ? [draftFilters.category] : [],
+              (value) =>
+                setDraftFilters((current) => ({
+                  ...current,
+                  category: current.category === value ? 'All' : value,
+                }))
+            )}
+
             {/* Price Range */}
             <View style={styles.filterSection}>
               <Text style={styles.filterLabel}>Price Range</Text>
+              {facets && (
+                <View style={styles.facetChips}>
+                  {facets.facets.priceBands.map((band) => {
+                    const active =
+                      draftFilters.minPrice === String(band.min) &&
+                      draftFilters.maxPrice === (band.max === null ? '' : String(band.max));
+                    return renderChip(
+                      band.key,
+                      `${band.label} (${band.count})`,
+                      active,
+                      band.count === 0,
+                      () => togglePriceBand(band.min, band.max)
+                    );
+                  })}
+                </View>
+              )}
               <View style={styles.priceRow}>
                 <TextInput
                   style={styles.priceInput}
                   placeholder="Min"
                   placeholderTextColor={Colors.gray400}
-                  value={minPrice}
-                  onChangeText={setMinPrice}
+                  value={draftFilters.minPrice}
+                  onChangeText={(text) => setDraftFilters((current) => ({ ...current, minPrice: text }))}
                   keyboardType="decimal-pad"
                 />
                 <Text style={styles.priceSeparator}>—</Text>
@@ -467,12 +750,64 @@ const MarketplaceScreen: React.FC<MarketplaceScreenProps> = ({ navigation }) =>
                   style={styles.priceInput}
                   placeholder="Max"
                   placeholderTextColor={Colors.gray400}
-                  value={maxPrice}
-                  onChangeText={setMaxPrice}
+                  value={draftFilters.maxPrice}
+                  onChangeText={(text) => setDraftFilters((current) => ({ ...current, maxPrice: text }))}
                   keyboardType="decimal-pad"
                 />
               </View>
             </View>
+
+            {/* Rating */}
+            {facets && (
+              <View style={styles.filterSection}>
+                <Text style={styles.filterLabel}>Rating</Text>
+                <View style={styles.facetChips}>
+                  {facets.facets.ratings.map((rating) => {
+                    const active = draftFilters.minRating === rating.minRating;
+                    return renderChip(
+                      String(rating.minRating),
+                      `${rating.label} (${rating.count})`,
+                      active,
+                      rating.count === 0,
+                      () =>
+                        setDraftFilters((current) => ({
+                          ...current,
+                          minRating: active ? null : rating.minRating,
+                        }))
+                    );
+                  })}
+                </View>
+              </View>
+            )}
+
+            {/* Verified Stores */}
+            {facets && (
+              <View style={styles.filterSection}>
+                <Text style={styles.filterLabel}>Seller</Text>
+                <View style={styles.facetChips}>
+                  {renderChip(
+                    'verified',
+                    `Verified stores only (${facets.facets.verified.count})`,
+                    draftFilters.verified,
+                    facets.facets.verified.count === 0,
+                    () => setDraftFilters((current) => ({ ...current, verified: !current.verified }))
+                  )}
+                </View>
+              </View>
+            )}
+
+            {renderFacetChips('Region', facets?.facets.regions || [], draftFilters.regions, (value) =>
+              toggleDraftValue('regions', value)
+            )}
+            {renderFacetChips('Size', facets?.facets.sizes || [], draftFilters.sizes, (value) =>
+              toggleDraftValue('sizes', value)
+            )}
+            {renderFacetChips('Color', facets?.facets.colors || [], draftFilters.colors, (value) =>
+              toggleDraftValue('colors', value)
+            )}
+            {renderFacetChips('Tags', facets?.facets.tags || [], draftFilters.tags, (value) =>
+              toggleDraftValue('tags', value)
+            )}
           </ScrollView>
 
           <View style={styles.modalFooter}>
@@ -487,7 +822,11 @@ const MarketplaceScreen: React.FC<MarketplaceScreenProps> = ({ navigation }) =>
               style={styles.applyFiltersBtn}
               onPress={applyFilters}
             >
-              <Text style={styles.applyFiltersBtnText}>Apply Filters</Text>
+              <Text style={styles.applyFiltersBtnText}>
+                {facets
+                  ? `Show ${facets.total} ${facets.total === 1 ? 'Product' : 'Products'}`
+                  : 'Apply Filters'}
+              </Text>
             </TouchableOpacity>
           </View>
         </View>
@@ -525,7 +864,7 @@ const MarketplaceScreen: React.FC<MarketplaceScreenProps> = ({ navigation }) =>
         keyExtractor={(item) => item.id}
         numColumns={2}
         columnWrapperStyle={styles.row}
-        ListHeaderComponent={renderHeader}
+        ListHeaderComponent={renderHeader()}
         ListEmptyComponent={renderEmpty}
         ListFooterComponent={renderFooter}
         refreshControl={
@@ -630,6 +969,59 @@ const styles = StyleSheet.create({
     color: Colors.gray500,
     padding: 4,
   },
+  autocompleteContainer: {
+    backgroundColor: Colors.white,
+    marginHorizontal: 16,
+    marginBottom: 12,
+    borderRadius: 12,
+    paddingVertical: 4,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  autocompleteRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+  },
+  autocompleteText: {
+    flex: 1,
+    fontSize: 14,
+    color: Colors.textPrimary,
+  },
+  autocompleteImage: {
+    width: 32,
+    height: 32,
+    borderRadius: 6,
+  },
+  autocompletePrice: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: Colors.primary,
+  },
+  didYouMean: {
+    paddingHorizontal: 16,
+    marginBottom: 12,
+  },
+  didYouMeanText: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+  },
+  didYouMeanTerm: {
+    fontWeight: '700',
+    fontStyle: 'italic',
+    color: Colors.primary,
+  },
+  highlightText: {
+    fontWeight: '800',
+    color: Colors.primary,
+  },
+  snippetText: {
+    fontSize: 12,
+    color: Colors.textSecondary,
+    marginBottom: 4,
+  },
   iconRow: {
     flexDirection: 'row',
     gap: 8,
@@ -917,6 +1309,32 @@ const styles = StyleSheet.create({
     fontSize: 16,
     color: Colors.textSecondary,
   },
+  facetChips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 12,
+  },
+  facetChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 20,
+    backgroundColor: Colors.backgroundSecondary,
+  },
+  facetChipActive: {
+    backgroundColor: Colors.primary,
+  },
+  facetChipEmpty: {
+    opacity: 0.4,
+  },
+  facetChipText: {
+    fontSize: 13,
+    color: Colors.textSecondary,
+  },
+  facetChipTextActive: {
+    color: Colors.white,
+    fontWeight: '600',
+  },
   modalFooter: {
     flexDirection: 'row',
     padding: 16,
@@ -5,24 +5,52 @@ import {
   StyleSheet,
   FlatList,
   TouchableOpacity,
-  Image,
   ActivityIndicator,
   RefreshControl,
 } from 'react-native';
 import { useNavigation } from '@react-navigation/native';
 import { Ionicons } from '@expo/vector-icons';
 import { Colors } from '../../constants/colors';
-import { usePoints, Order } from '../../hooks/usePoints';
+import { usePoints, PointsTransaction, PointsTransactionType } from '../../hooks/usePoints';
+
+const TRANSACTION_LABELS: Record<PointsTransactionType, string> = {
+  SIGNUP_BONUS: 'Welcome Bonus',
+  REVIEW_REWARD: 'Review Reward',
+  REVIEW_REVERSAL: 'Review Removed',
+  REDEMPTION: 'Redeemed',
+  REFUND_REVERSAL: 'Points Returned',
+  ADMIN_ADJUSTMENT: 'Adjustment',
+  EXPIRY: 'Expired',
+  ORDER_REWARD: 'Order Reward',
+  FIRST_ORDER_BONUS: 'First Order Bonus',
+  REVIEW_PHOTO_BONUS: 'Photo Review Bonus',
+  REFERRAL_BONUS: 'Referral Bonus',
+};
+
+const TRANSACTION_ICONS: Record<PointsTransactionType, keyof typeof Ionicons.glyphMap> = {
+  SIGNUP_BONUS: 'sparkles',
+  REVIEW_REWARD: 'star',
+  REVIEW_REVERSAL: 'star-outline',
+  REDEMPTION: 'gift',
+  REFUND_REVERSAL: 'return-up-back',
+  ADMIN_ADJUSTMENT: 'construct',
+  EXPIRY: 'hourglass',
+  ORDER_REWARD: 'bag-check',
+  FIRST_ORDER_BONUS: 'trophy',
+  REVIEW_PHOTO_BONUS: 'camera',
+  REFERRAL_BONUS: 'people',
+};
 
 const PointsHistoryScreen = () => {
   const navigation = useNavigation();
   const { getPointsHistory, loading, error } = usePoints();
 
-  const [orders, setOrders] = useState<Order[]>([]);
+  const [transactions, setTransactions] = useState<PointsTransaction[]>([]);
   const [page, setPage] = useState(1);
   const [hasNextPage, setHasNextPage] = useState(false);
-  const [totalRedemptions, setTotalRedemptions] = useState(0);
-  const [totalPointsRedeemed, setTotalPointsRedeemed] = useState(0);
+  const [totalEarned, setTotalEarned] = useState(0);
+  const [totalSpent, setTotalSpent] = useState(0);
+  const [balance, setBalance] = useState(0);
   const [refreshing, setRefreshing] = useState(false);
   const [loadingMore, setLoadingMore] = useState(false);
 
@@ -41,14 +69,15 @@ const PointsHistoryScreen = () => {
 
     if (data) {
       if (append) {
-        setOrders((prev) => [...prev, ...data.orders]);
+        setTransactions((prev) => [...prev, ...data.transactions]);
       } else {
-        setOrders(data.orders);
+        setTransactions(data.transactions);
       }
       setPage(pageNum);
       setHasNextPage(data.pagination.hasNextPage);
-      setTotalRedemptions(data.summary.totalRedemptions);
-      setTotalPointsRedeemed(data.summary.totalPointsRedeemed);
+      setTotalEarned(data.summary.totalEarned);
+      setTotalSpent(data.summary.totalSpent);
+      setBalance(data.summary.balance);
     }
 
     setRefreshing(false);
@@ -65,43 +94,6 @@ const PointsHistoryScreen = () => {
     }
   };
 
-  const getStatusColor = (status: string) => {
-    switch (status.toUpperCase()) {
-      case 'COMPLETED':
-        return Colors.success;
-      case 'CONFIRMED':
-      case 'PROCESSING':
-        return Colors.info;
-      case 'SHIPPED':
-      case 'OUT_FOR_DELIVERY':
-        return Colors.primary;
-      case 'DELIVERED':
-        return Colors.success;
-      case 'CANCELLED':
-        return Colors.error;
-      default:
-        return Colors.textSecondary;
-    }
-  };
-
-  const getStatusIcon = (status: string) => {
-    switch (status.toUpperCase()) {
-      case 'COMPLETED':
-      case 'DELIVERED':
-        return 'checkmark-circle';
-      case 'CONFIRMED':
-      case 'PROCESSING':
-        return 'time';
-      case 'SHIPPED':
-      case 'OUT_FOR_DELIVERY':
-        return 'cube';
-      case 'CANCELLED':
-        return 'close-circle';
-      default:
-        return 'ellipse';
-    }
-  };
-
   const formatDate = (dateString: string) => {
     const date = new Date(dateString);
     const now = new Date();
@@ -123,100 +115,90 @@ const PointsHistoryScreen = () => {
     }
   };
 
+  const getTransactionDetail = (item: PointsTransaction) => {
+    if (item.order) {
+      const firstProduct = item.order.items[0]?.product;
+      const extra = item.order.items.length > 1 ? ` +${item.order.items.length - 1} more` : '';
+      return `${firstProduct?.name || 'Order'}${extra} · #${item.order.id.slice(-8)}`;
+    }
+    return item.description || '';
+  };
+
   const renderSummaryCard = () => (
     <View style={styles.summaryCard}>
       <View style={styles.summaryHeader}>
         <Ionicons name="stats-chart" size={24} color={Colors.primary} />
-        <Text style={styles.summaryTitle}>Redemption Summary</Text>
+        <Text style={styles.summaryTitle}>Points Summary</Text>
       </View>
 
       <View style={styles.summaryContent}>
         <View style={styles.summaryItem}>
-          <Text style={styles.summaryLabel}>Total Redemptions</Text>
-          <Text style={styles.summaryValue}>{totalRedemptions}</Text>
+          <Text style={styles.summaryLabel}>Earned</Text>
+          <Text style={[styles.summaryValue, styles.earnText]}>
+            {totalEarned.toLocaleString()}
+          </Text>
         </View>
 
         <View style={styles.summaryDivider} />
 
         <View style={styles.summaryItem}>
-          <Text style={styles.summaryLabel}>Total Points Used</Text>
-          <Text style={styles.summaryValue}>
-            {totalPointsRedeemed.toLocaleString()}
+          <Text style={styles.summaryLabel}>Spent</Text>
+          <Text style={[styles.summaryValue, styles.spendText]}>
+            {totalSpent.toLocaleString()}
           </Text>
         </View>
+
+        <View style={styles.summaryDivider} />
+
+        <View style={styles.summaryItem}>
+          <Text style={styles.summaryLabel}>Balance</Text>
+          <Text style={styles.summaryValue}>{balance.toLocaleString()}</Text>
+        </View>
       </View>
     </View>
   );
 
-  const renderOrderItem = ({ item }: { item: Order }) => {
-    const pointsUsed = Math.ceil(item.totalAmount);
-    const firstProduct = item.items[0]?.product;
-    const imageUri =
-      firstProduct?.images && firstProduct.images.length > 0
-        ? firstProduct.images[0]
-        : 'https://via.placeholder.com/80';
+  const renderTransactionItem = ({ item }: { item: PointsTransaction }) => {
+    const isEarning = item.points > 0;
+    const detail = getTransactionDetail(item);
 
     return (
       <TouchableOpacity
-        style={styles.orderCard}
-        onPress={() => (navigation as any).navigate('OrderDetails', { orderId: item.id })}
+        style={styles.transactionCard}
+        disabled={!item.order}
+        onPress={() =>
+          item.order && (navigation as any).navigate('OrderDetails', { orderId: item.order.id })
+        }
       >
-        <View style={styles.orderHeader}>
-          <View style={styles.orderIdContainer}>
-            <Text style={styles.orderIdLabel}>Order</Text>
-            <Text style={styles.orderIdValue}>#{item.id.slice(-8)}</Text>
-          </View>
-          <View style={[styles.statusBadge, { backgroundColor: `${getStatusColor(item.status)}15` }]}>
-            <Ionicons
-              name={getStatusIcon(item.status)}
-              size={14}
-              color={getStatusColor(item.status)}
-            />
-            <Text style={[styles.statusText, { color: getStatusColor(item.status) }]}>
-              {item.status}
-            </Text>
-          </View>
+        <View
+          style={[
+            styles.transactionIcon,
+            { backgroundColor: isEarning ? `${Colors.success}15` : `${Colors.error}15` },
+          ]}
+        >
+          <Ionicons
+            name={TRANSACTION_ICONS[item.type]}
+            size={20}
+            color={isEarning ? Colors.success : Colors.error}
+          />
         </View>
 
-        <View style={styles.orderContent}>
-          <Image source={{ uri: imageUri }} style={styles.productThumbnail} />
-
-          <View style={styles.orderDetails}>
-            <Text style={styles.productName} numberOfLines={2}>
-              {firstProduct?.name || 'Product'}
+        <View style={styles.transactionDetails}>
+          <Text style={styles.transactionLabel}>{TRANSACTION_LABELS[item.type]}</Text>
+          {!!detail && (
+            <Text style={styles.transactionDescription} numberOfLines={1}>
+              {detail}
             </Text>
-            {item.items.length > 1 && (
-              <Text style={styles.moreItems}>
-                +{item.items.length - 1} more item{item.items.length - 1 > 1 ? 's' : ''}
-              </Text>
-            )}
-            <Text style={styles.storeName}>{item.store.name}</Text>
-          </View>
-
-          <View style={styles.orderRight}>
-            <View style={styles.pointsBadge}>
-              <Ionicons name="gift" size={16} color={Colors.primary} />
-              <Text style={styles.pointsValue}>{pointsUsed}</Text>
-            </View>
-            <Text style={styles.orderDate}>{formatDate(item.createdAt)}</Text>
-          </View>
+          )}
+          <Text style={styles.transactionDate}>{formatDate(item.createdAt)}</Text>
         </View>
 
-        <View style={styles.orderFooter}>
-          <View style={styles.itemCount}>
-            <Ionicons name="cube-outline" size={14} color={Colors.textSecondary} />
-            <Text style={styles.itemCountText}>
-              {item.items.reduce((sum, item) => sum + item.quantity, 0)} item
-              {item.items.reduce((sum, item) => sum + item.quantity, 0) > 1 ? 's' : ''}
-            </Text>
-          </View>
-          <TouchableOpacity
-            style={styles.viewButton}
-            onPress={() => (navigation as any).navigate('OrderDetails', { orderId: item.id })}
-          >
-            <Text style={styles.viewButtonText}>View Details</Text>
-            <Ionicons name="chevron-forward" size={16} color={Colors.primary} />
-          </TouchableOpacity>
+        <View style={styles.transactionRight}>
+          <Text style={[styles.transactionPoints, isEarning ? styles.earnText : styles.spendText]}>
+            {isEarning ? '+' : '−'}
+            {Math.abs(item.points).toLocaleString()}
+          </Text>
+          <Text style={styles.balanceAfter}>Bal. {item.balanceAfter.toLocaleString()}</Text>
         </View>
       </TouchableOpacity>
     );
@@ -225,9 +207,9 @@ const PointsHistoryScreen = () => {
   const renderEmptyState = () => (
     <View style={styles.emptyState}>
       <Ionicons name="time-outline" size={64} color={Colors.gray300} />
-      <Text style={styles.emptyTitle}>No Redemption History</Text>
+      <Text style={styles.emptyTitle}>No Points Activity</Text>
       <Text style={styles.emptyText}>
-        You haven't redeemed any points yet. Browse products and start redeeming your points!
+        Points you earn and redeem will show up here. Browse products and start redeeming your points!
       </Text>
       <TouchableOpacity
         style={styles.browseButton}
@@ -247,7 +229,7 @@ const PointsHistoryScreen = () => {
     );
   };
 
-  if (loading && !refreshing && orders.length === 0) {
+  if (loading && !refreshing && transactions.length === 0) {
     return (
       <View style={styles.loadingContainer}>
         <ActivityIndicator size="large" color={Colors.primary} />
@@ -259,15 +241,15 @@ const PointsHistoryScreen = () => {
   return (
     <View style={styles.container}>
       <FlatList
-        data={orders}
-        renderItem={renderOrderItem}
+        data={transactions}
+        renderItem={renderTransactionItem}
         keyExtractor={(item) => item.id}
-        ListHeaderComponent={orders.length > 0 ? renderSummaryCard : null}
+        ListHeaderComponent={transactions.length > 0 ? renderSummaryCard : null}
         ListEmptyComponent={renderEmptyState}
         ListFooterComponent={renderFooter}
         contentContainerStyle={[
           styles.listContent,
-          orders.length === 0 && styles.emptyListContent,
+          transactions.length === 0 && styles.emptyListContent,
         ]}
         refreshControl={
           <RefreshControl
@@ -354,7 +336,15 @@ const styles = StyleSheet.create({
     backgroundColor: Colors.border,
     marginHorizontal: 16,
   },
-  orderCard: {
+  earnText: {
+    color: Colors.success,
+  },
+  spendText: {
+    color: Colors.error,
+  },
+  transactionCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
     backgroundColor: Colors.white,
     borderRadius: 12,
     padding: 16,
@@ -365,117 +355,44 @@ const styles = StyleSheet.create({
     shadowRadius: 4,
     elevation: 2,
   },
-  orderHeader: {
-    flexDirection: 'row',
-    justifyContent: 'space-between',
+  transactionIcon: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
     alignItems: 'center',
-    marginBottom: 12,
-  },
-  orderIdContainer: {
-    flexDirection: 'row',
-    alignItems: 'baseline',
-  },
-  orderIdLabel: {
-    fontSize: 12,
-    color: Colors.textSecondary,
-    marginRight: 4,
-  },
-  orderIdValue: {
-    fontSize: 14,
-    fontWeight: '700',
-    color: Colors.textPrimary,
-  },
-  statusBadge: {
-    flexDirection: 'row',
-    alignItems: 'center',
-    paddingHorizontal: 10,
-    paddingVertical: 4,
-    borderRadius: 12,
-    gap: 4,
-  },
-  statusText: {
-    fontSize: 11,
-    fontWeight: '600',
-    textTransform: 'capitalize',
-  },
-  orderContent: {
-    flexDirection: 'row',
-    marginBottom: 12,
-  },
-  productThumbnail: {
-    width: 60,
-    height: 60,
-    borderRadius: 8,
-    backgroundColor: Colors.gray100,
+    justifyContent: 'center',
   },
-  orderDetails: {
+  transactionDetails: {
     flex: 1,
     marginLeft: 12,
-    justifyContent: 'center',
   },
-  productName: {
+  transactionLabel: {
     fontSize: 14,
     fontWeight: '600',
     color: Colors.textPrimary,
-    marginBottom: 4,
+    marginBottom: 2,
   },
-  moreItems: {
+  transactionDescription: {
     fontSize: 12,
     color: Colors.textSecondary,
-    marginBottom: 4,
+    marginBottom: 2,
   },
-  storeName: {
-    fontSize: 12,
+  transactionDate: {
+    fontSize: 11,
     color: Colors.textSecondary,
   },
-  orderRight: {
+  transactionRight: {
     alignItems: 'flex-end',
-    justifyContent: 'space-between',
-  },
-  pointsBadge: {
-    flexDirection: 'row',
-    alignItems: 'center',
-    backgroundColor: Colors.infoLight,
-    paddingHorizontal: 8,
-    paddingVertical: 4,
-    borderRadius: 6,
-    gap: 4,
+    marginLeft: 8,
   },
-  pointsValue: {
-    fontSize: 14,
+  transactionPoints: {
+    fontSize: 16,
     fontWeight: '700',
-    color: Colors.primary,
   },
-  orderDate: {
+  balanceAfter: {
     fontSize: 11,
     color: Colors.textSecondary,
-  },
-  orderFooter: {
-    flexDirection: 'row',
-    justifyContent: 'space-between',
-    alignItems: 'center',
-    paddingTop: 12,
-    borderTopWidth: 1,
-    borderTopColor: Colors.border,
-  },
-  itemCount: {
-    flexDirection: 'row',
-    alignItems: 'center',
-    gap: 4,
-  },
-  itemCountText: {
-    fontSize: 12,
-    color: Colors.textSecondary,
-  },
-  viewButton: {
-    flexDirection: 'row',
-    alignItems: 'center',
-    gap: 4,
-  },
-  viewButtonText: {
-    fontSize: 13,
-    fontWeight: '600',
-    color: Colors.primary,
+    marginTop: 2,
   },
   emptyState: {
     flex: 1,
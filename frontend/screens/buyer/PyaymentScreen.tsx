@@ -7,28 +7,48 @@ import {
   StyleSheet,
   ActivityIndicator,
   Alert,
+  TextInput,
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { WebView } from 'react-native-webview';
-import { usePayment } from '../../hooks/usePayment';
+import {
+  usePayment,
+  MobileMoneyProvider,
+  MobileMoneyChargeStatus,
+  RemovedSessionOrder,
+} from '../../hooks/usePayment';
 import { useOrders } from '../../hooks/useOrder';
 import { Colors } from '../../constants/colors';
 
 interface PaymentOrder {
   orderId: string;
   storeName: string;
-  checkoutSession: string;
 }
 
+type PaymentChannel = 'CARD' | 'MOBILE_MONEY';
+
+const MOBILE_MONEY_PROVIDERS: { value: MobileMoneyProvider; label: string }[] = [
+  { value: 'MTN', label: 'MTN MoMo' },
+  { value: 'VODAFONE', label: 'Telecel Cash' },
+  { value: 'AIRTEL_TIGO', label: 'AirtelTigo Money' },
+];
+
+// Poll every 5 seconds for up to 3 minutes while the buyer approves on their phone
+const POLL_INTERVAL_MS = 5000;
+const MAX_POLL_ATTEMPTS = 36;
+
 const PaymentScreen = ({ route, navigation }: any) => {
-  // Get orders from route params (passed from CheckoutScreen)
-  const { orders: ordersParam, totalOrders } = route.params || {};
+  // Either a checkout session to pay or resume, or the orders to start one with
+  const { orders: ordersParam, checkoutSessionId: sessionIdParam } = route.params || {};
   const orders: PaymentOrder[] = ordersParam || [];
 
   const { 
     createCheckoutSession, 
+    payCheckoutSession,
+    initiatePayment,
+    submitMobileMoneyOtp,
     verifyPayment, 
-    getPaymentsByCheckoutSession,
+    getCheckoutSession,
     loading: paymentLoading 
   } = usePayment();
   const { getOrderById } = useOrders();
@@ -36,25 +56,61 @@ const PaymentScreen = ({ route, navigation }: any) => {
   const [orderDetails, setOrderDetails] = useState<any[]>([]);
   const [paymentUrl, setPaymentUrl] = useState<string | null>(null);
   const [paymentReference, setPaymentReference] = useState<string | null>(null);
-  const [checkoutSessionId, setCheckoutSessionId] = useState<string | null>(null);
+  const [checkoutSessionId, setCheckoutSessionId] = useState<string | null>(sessionIdParam || null);
   const [paymentInitiated, setPaymentInitiated] = useState(false);
   const [verifying, setVerifying] = useState(false);
   const [loading, setLoading] = useState(true);
+  const [paymentChannel, setPaymentChannel] = useState<PaymentChannel>('CARD');
+  const [momoProvider, setMomoProvider] = useState<MobileMoneyProvider>('MTN');
+  const [momoPhone, setMomoPhone] = useState('');
+  const [chargeStatus, setChargeStatus] = useState<MobileMoneyChargeStatus | null>(null);
+  const [chargeMessage, setChargeMessage] = useState<string | null>(null);
+  const [otp, setOtp] = useState('');
+  const [pollAttempts, setPollAttempts] = useState(0);
+
+  // Mobile money is charged per order, so it's only offered when paying for a single order
+  const canPayWithMobileMoney = orderDetails.length === 1;
+  const isAwaitingApproval = chargeStatus !== null && chargeStatus !== 'send_otp';
 
   useEffect(() => {
-    if (orders && orders.length > 0) {
+    if (sessionIdParam || orders.length > 0) {
       loadOrderDetails();
     } else {
       Alert.alert('Error', 'No orders found', [
         { text: 'OK', onPress: () => navigation.goBack() }
       ]);
     }
-  }, [orders]);
+  }, [sessionIdParam, ordersParam]);
+
+  // Resuming a session pays whatever orders it still holds
+  const getSessionOrderIds = async (): Promise<string[] | null> => {
+    if (!sessionIdParam) {
+      return orders.map(order => order.orderId);
+    }
+
+    const session = await getCheckoutSession(sessionIdParam);
+
+    if (!session?.summary.canResume) {
+      Alert.alert(
+        'Nothing to Pay',
+        session?.summary.allPaymentsSuccessful
+          ? 'This checkout has already been paid.'
+          : 'None of the orders in this checkout can still be paid.',
+        [{ text: 'View Orders', onPress: () => navigation.navigate('Orders') }]
+      );
+      return null;
+    }
+
+    return session.checkoutSession.orderIds;
+  };
 
   const loadOrderDetails = async () => {
     try {
       setLoading(true);
-      const orderDataPromises = orders.map(order => getOrderById(order.orderId));
+      const orderIds = await getSessionOrderIds();
+      if (!orderIds) return;
+
+      const orderDataPromises = orderIds.map(orderId => getOrderById(orderId));
       const fetchedOrders = await Promise.all(orderDataPromises);
       
       const validOrders = fetchedOrders.filter(order => order !== null);
@@ -67,6 +123,7 @@ const PaymentScreen = ({ route, navigation }: any) => {
       }
 
       setOrderDetails(validOrders);
+      setMomoPhone(validOrders[0]?.deliveryInfo?.phone || '');
     } catch (error) {
       console.error('Error loading orders:', error);
       Alert.alert('Error', 'Failed to load order details');
@@ -75,28 +132,169 @@ const PaymentScreen = ({ route, navigation }: any) => {
     }
   };
 
+  // While the buyer approves the charge on their phone, keep checking until it settles
+  useEffect(() => {
+    if (!isAwaitingApproval || !paymentReference) return;
+
+    if (pollAttempts >= MAX_POLL_ATTEMPTS) {
+      setChargeStatus(null);
+      Alert.alert(
+        'Still Waiting',
+        'We have not received confirmation from your mobile money provider yet. If you approved the payment, check your orders shortly.',
+        [
+          { text: 'Check Again', onPress: () => handleVerifyPayment() },
+          { text: 'View Orders', onPress: () => navigation.navigate('Orders') }
+        ]
+      );
+      return;
+    }
+
+    const timer = setTimeout(() => checkMobileMoneyCharge(), POLL_INTERVAL_MS);
+    return () => clearTimeout(timer);
+  }, [isAwaitingApproval, paymentReference, pollAttempts]);
+
+  const checkMobileMoneyCharge = async () => {
+    if (!paymentReference) return;
+
+    try {
+      const verification = await verifyPayment(paymentReference);
+
+      if (verification?.success && verification.data.isPending) {
+        setPollAttempts(attempts => attempts + 1);
+        return;
+      }
+
+      setChargeStatus(null);
+
+      if (verification?.success && verification.data.gatewayStatus === 'success') {
+        showPaymentResult(verification.data.payments);
+      } else {
+        Alert.alert(
+          'Payment Failed',
+          verification?.data.gatewayData?.gateway_response || 'Your mobile money payment was not completed. Please try again.'
+        );
+      }
+    } catch (error) {
+      // A dropped connection shouldn't end the wait; try again on the next tick
+      console.error('Mobile money status check error:', error);
+      setPollAttempts(attempts => attempts + 1);
+    }
+  };
+
+  const resetMobileMoneyCharge = () => {
+    setChargeStatus(null);
+    setChargeMessage(null);
+    setOtp('');
+    setPollAttempts(0);
+  };
+
+  const handleMobileMoneyPayment = async () => {
+    const order = orderDetails[0];
+
+    if (!momoPhone.trim()) {
+      Alert.alert('Mobile Money', 'Please enter your mobile money number.');
+      return;
+    }
+
+    try {
+      const response = await initiatePayment({
+        orderId: order.id,
+        email: order.buyer?.email || order.buyerEmail || 'user@example.com',
+        amount: order.totalAmount,
+        paymentMethod: 'MOBILE_MONEY',
+        provider: momoProvider,
+        phone: momoPhone.trim()
+      });
+
+      if (response && response.data) {
+        resetMobileMoneyCharge();
+        setPaymentReference(response.data.reference);
+        setCheckoutSessionId(response.data.checkoutSessionId);
+        setChargeMessage(response.data.displayText || null);
+        setChargeStatus(response.data.chargeStatus || 'pending');
+      } else {
+        Alert.alert('Error', 'Failed to initiate payment. Please try again.');
+      }
+    } catch (error: any) {
+      console.error('Mobile money payment error:', error);
+      Alert.alert(
+        'Payment Error',
+        error.response?.data?.message || 'Failed to start the mobile money payment. Please try again.'
+      );
+    }
+  };
+
+  const handleSubmitOtp = async () => {
+    if (!paymentReference || !otp.trim()) {
+      Alert.alert('Mobile Money', 'Please enter the OTP you received.');
+      return;
+    }
+
+    try {
+      const response = await submitMobileMoneyOtp(paymentReference, otp.trim());
+
+      if (response && response.data) {
+        setOtp('');
+        setChargeMessage(response.data.displayText || null);
+        setChargeStatus(response.data.chargeStatus);
+      }
+    } catch (error: any) {
+      console.error('OTP submission error:', error);
+      resetMobileMoneyCharge();
+      Alert.alert(
+        'Payment Error',
+        error.response?.data?.message || 'The OTP could not be verified. Please try again.'
+      );
+    }
+  };
+
   const handleInitiatePayment = async () => {
     if (!orderDetails || orderDetails.length === 0) return;
 
+    if (paymentChannel === 'MOBILE_MONEY' && canPayWithMobileMoney) {
+      await handleMobileMoneyPayment();
+      return;
+    }
+
     try {
       // Get user email from first order
       const userEmail = orderDetails[0].buyer?.email || orderDetails[0].buyerEmail || 'user@example.com';
-      
-      // Extract order IDs
-      const orderIds = orders.map(order => order.orderId);
 
-      // Create checkout session for multiple orders
-      const response = await createCheckoutSession({
-        orderIds,
+      // Gather the orders into a checkout session, unless we are resuming one
+      let sessionId = checkoutSessionId;
+      if (!sessionId) {
+        const session = await createCheckoutSession({
+          orderIds: orderDetails.map(order => order.id),
+        });
+        sessionId = session?.data.checkoutSessionId || null;
+      }
+
+      if (!sessionId) {
+        Alert.alert('Error', 'Failed to initiate payment. Please try again.');
+        return;
+      }
+
+      setCheckoutSessionId(sessionId);
+
+      const response = await payCheckoutSession(sessionId, {
         email: userEmail,
         callbackUrl: `${process.env.EXPO_PUBLIC_FRONTEND_URL}/payment/success`
       });
 
       if (response && response.data) {
-        setPaymentUrl(response.data.authorizationUrl);
-        setPaymentReference(response.data.reference);
-        setCheckoutSessionId(response.data.checkoutSessionId);
-        setPaymentInitiated(true);
+        const openPayment = () => {
+          setPaymentUrl(response.data.authorizationUrl);
+          setPaymentReference(response.data.reference);
+          setPaymentInitiated(true);
+        };
+
+        if (response.data.removedOrders.length > 0) {
+          const paidOrderIds = response.data.orders.map(order => order.orderId);
+          setOrderDetails(prev => prev.filter(order => paidOrderIds.includes(order.id)));
+          showRemovedOrders(response.data.removedOrders, response.data.totalAmount, openPayment);
+        } else {
+          openPayment();
+        }
       } else {
         Alert.alert('Error', 'Failed to initiate payment. Please try again.');
       }
@@ -104,11 +302,31 @@ const PaymentScreen = ({ route, navigation }: any) => {
       console.error('Payment initiation error:', error);
       Alert.alert(
         'Payment Error',
-        error.message || 'Failed to initiate payment. Please try again.'
+        error.response?.data?.message || error.message || 'Failed to initiate payment. Please try again.'
       );
     }
   };
 
+  // Some orders can drop out of a session before it is paid, e.g. when an item sold out
+  const showRemovedOrders = (
+    removedOrders: RemovedSessionOrder[],
+    newTotal: number,
+    onContinue: () => void
+  ) => {
+    const reasons = removedOrders
+      .map(removed => `• #${removed.orderId.slice(-8).toUpperCase()}: ${removed.reason}`)
+      .join('\n');
+
+    Alert.alert(
+      'Some Orders Removed',
+      `${removedOrders.length} order(s) can no longer be paid and were removed from this payment:\n${reasons}\n\nNew total: ${formatPrice(newTotal)}`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Continue', onPress: onContinue }
+      ]
+    );
+  };
+
   const handleWebViewNavigationStateChange = (navState: any) => {
     const { url } = navState;
 
@@ -144,44 +362,7 @@ const PaymentScreen = ({ route, navigation }: any) => {
       const verification = await verifyPayment(paymentReference);
 
       if (verification && verification.success) {
-        const payments = verification.data.payments;
-        const isMultiStore = verification.data.isMultiStore;
-
-        // Check if all payments are successful
-        const allSuccessful = payments.every(p => p.status === 'SUCCESS');
-
-        if (allSuccessful) {
-          Alert.alert(
-            'Payment Successful! 🎉',
-            `Your payment for ${payments.length} order(s) has been confirmed.`,
-            [
-              {
-                text: 'View Orders',
-                onPress: () => {
-                  if (checkoutSessionId) {
-                    navigation.navigate('OrderSummary', { 
-                      checkoutSession: checkoutSessionId 
-                    });
-                  } else {
-                    navigation.navigate('Orders');
-                  }
-                }
-              }
-            ]
-          );
-        } else {
-          const successCount = payments.filter(p => p.status === 'SUCCESS').length;
-          Alert.alert(
-            'Payment Partially Processed',
-            `${successCount} of ${payments.length} payment(s) successful. Please check your orders.`,
-            [
-              {
-                text: 'View Orders',
-                onPress: () => navigation.navigate('Orders')
-              }
-            ]
-          );
-        }
+        showPaymentResult(verification.data.payments);
       } else {
         Alert.alert('Verification Failed', 'Unable to verify payment. Please contact support.');
       }
@@ -197,6 +378,44 @@ const PaymentScreen = ({ route, navigation }: any) => {
     }
   };
 
+  const showPaymentResult = (payments: { status: string }[]) => {
+    // Check if all payments are successful
+    const allSuccessful = payments.every(p => p.status === 'SUCCESS');
+
+    if (allSuccessful) {
+      Alert.alert(
+        'Payment Successful! 🎉',
+        `Your payment for ${payments.length} order(s) has been confirmed.`,
+        [
+          {
+            text: 'View Orders',
+            onPress: () => {
+              if (checkoutSessionId) {
+                navigation.navigate('OrderSummary', { 
+                  checkoutSession: checkoutSessionId 
+                });
+              } else {
+                navigation.navigate('Orders');
+              }
+            }
+          }
+        ]
+      );
+    } else {
+      const successCount = payments.filter(p => p.status === 'SUCCESS').length;
+      Alert.alert(
+        'Payment Partially Processed',
+        `${successCount} of ${payments.length} payment(s) successful. Please check your orders.`,
+        [
+          {
+            text: 'View Orders',
+            onPress: () => navigation.navigate('Orders')
+          }
+        ]
+      );
+    }
+  };
+
   const formatPrice = (price: number) => {
     return `GH₵ ${price.toFixed(2)}`;
   };
@@ -269,6 +488,84 @@ const PaymentScreen = ({ route, navigation }: any) => {
     );
   }
 
+  // Show mobile money OTP entry / approval screen
+  if (chargeStatus) {
+    const providerLabel = MOBILE_MONEY_PROVIDERS.find(p => p.value === momoProvider)?.label;
+
+    return (
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <TouchableOpacity
+            style={styles.backButton}
+            onPress={() => {
+              Alert.alert(
+                'Cancel Payment?',
+                'If you already approved the payment, it will still be applied to your order.',
+                [
+                  { text: 'No', style: 'cancel' },
+                  { text: 'Yes', onPress: resetMobileMoneyCharge }
+                ]
+              );
+            }}
+          >
+            <Ionicons name="close" size={24} color={Colors.textPrimary} />
+          </TouchableOpacity>
+          <Text style={styles.headerTitle}>{providerLabel}</Text>
+          <View style={styles.placeholder} />
+        </View>
+
+        <View style={styles.momoStatusContainer}>
+          <View style={styles.iconContainer}>
+            <Ionicons
+              name={chargeStatus === 'send_otp' ? 'keypad' : 'phone-portrait'}
+              size={40}
+              color={Colors.primary}
+            />
+          </View>
+
+          {chargeStatus === 'send_otp' ? (
+            <>
+              <Text style={styles.summaryTitle}>Enter OTP</Text>
+              <Text style={styles.summaryText}>
+                {chargeMessage || `Enter the code sent to ${momoPhone} to authorise ${formatPrice(totalAmount)}.`}
+              </Text>
+              <TextInput
+                style={styles.otpInput}
+                value={otp}
+                onChangeText={setOtp}
+                placeholder="OTP"
+                placeholderTextColor={Colors.textTertiary}
+                keyboardType="number-pad"
+                maxLength={8}
+                autoFocus
+              />
+              <TouchableOpacity
+                style={[styles.payButton, styles.momoActionButton, paymentLoading && styles.payButtonDisabled]}
+                onPress={handleSubmitOtp}
+                disabled={paymentLoading}
+              >
+                {paymentLoading ? (
+                  <ActivityIndicator color={Colors.white} />
+                ) : (
+                  <Text style={styles.payButtonText}>Submit OTP</Text>
+                )}
+              </TouchableOpacity>
+            </>
+          ) : (
+            <>
+              <Text style={styles.summaryTitle}>Approve on your phone</Text>
+              <Text style={styles.summaryText}>
+                {chargeMessage || `A prompt for ${formatPrice(totalAmount)} has been sent to ${momoPhone}. Enter your mobile money PIN to approve it.`}
+              </Text>
+              <ActivityIndicator size="large" color={Colors.primary} />
+              <Text style={styles.loadingSubtext}>Waiting for confirmation...</Text>
+            </>
+          )}
+        </View>
+      </View>
+    );
+  }
+
   // Main payment screen
   return (
     <View style={styles.container}>
@@ -399,29 +696,104 @@ const PaymentScreen = ({ route, navigation }: any) => {
         {/* Payment Method Info */}
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>Payment Method</Text>
-          <View style={styles.paymentMethodCard}>
-            <View style={styles.paystackLogo}>
-              <Ionicons name="card-outline" size={32} color={Colors.primary} />
-              <Text style={styles.paystackText}>Paystack</Text>
-            </View>
-            <Text style={styles.paymentMethodText}>
-              Secure payment powered by Paystack
+          <View style={styles.channelRow}>
+            {([
+              { value: 'MOBILE_MONEY', label: 'Mobile Money', icon: 'phone-portrait' },
+              { value: 'CARD', label: 'Card & Others', icon: 'card' },
+            ] as const).map(channel => {
+              const disabled = channel.value === 'MOBILE_MONEY' && !canPayWithMobileMoney;
+              const selected = paymentChannel === channel.value && !disabled;
+              return (
+                <TouchableOpacity
+                  key={channel.value}
+                  style={[
+                    styles.channelOption,
+                    selected && styles.channelOptionSelected,
+                    disabled && styles.channelOptionDisabled
+                  ]}
+                  onPress={() => setPaymentChannel(channel.value)}
+                  disabled={disabled}
+                >
+                  <Ionicons
+                    name={channel.icon}
+                    size={20}
+                    color={selected ? Colors.primary : Colors.gray600}
+                  />
+                  <Text style={[styles.channelText, selected && styles.channelTextSelected]}>
+                    {channel.label}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+          {!canPayWithMobileMoney && (
+            <Text style={styles.addressNote}>
+              * Direct mobile money payment is available when paying for one order at a time
             </Text>
-            <View style={styles.paymentFeatures}>
-              <View style={styles.featureItem}>
-                <Ionicons name="shield-checkmark" size={16} color={Colors.success} />
-                <Text style={styles.featureText}>Secure & Encrypted</Text>
+          )}
+
+          {paymentChannel === 'MOBILE_MONEY' && canPayWithMobileMoney ? (
+            <View style={styles.detailsCard}>
+              <Text style={styles.momoLabel}>Network</Text>
+              <View style={styles.providerRow}>
+                {MOBILE_MONEY_PROVIDERS.map(provider => (
+                  <TouchableOpacity
+                    key={provider.value}
+                    style={[
+                      styles.providerChip,
+                      momoProvider === provider.value && styles.providerChipSelected
+                    ]}
+                    onPress={() => setMomoProvider(provider.value)}
+                  >
+                    <Text
+                      style={[
+                        styles.providerChipText,
+                        momoProvider === provider.value && styles.providerChipTextSelected
+                      ]}
+                    >
+                      {provider.label}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
               </View>
-              <View style={styles.featureItem}>
-                <Ionicons name="card" size={16} color={Colors.success} />
-                <Text style={styles.featureText}>All Cards Accepted</Text>
+              <Text style={styles.momoLabel}>Mobile Money Number</Text>
+              <TextInput
+                style={styles.momoInput}
+                value={momoPhone}
+                onChangeText={setMomoPhone}
+                placeholder="e.g. 024 123 4567"
+                placeholderTextColor={Colors.textTertiary}
+                keyboardType="phone-pad"
+              />
+              <Text style={styles.momoHint}>
+                You'll get a prompt on this phone to approve the payment, or an OTP to enter here.
+              </Text>
+            </View>
+          ) : (
+            <View style={styles.paymentMethodCard}>
+              <View style={styles.paystackLogo}>
+                <Ionicons name="card-outline" size={32} color={Colors.primary} />
+                <Text style={styles.paystackText}>Paystack</Text>
               </View>
-              <View style={styles.featureItem}>
-                <Ionicons name="phone-portrait" size={16} color={Colors.success} />
-                <Text style={styles.featureText}>Mobile Money</Text>
+              <Text style={styles.paymentMethodText}>
+                Secure payment powered by Paystack
+              </Text>
+              <View style={styles.paymentFeatures}>
+                <View style={styles.featureItem}>
+                  <Ionicons name="shield-checkmark" size={16} color={Colors.success} />
+                  <Text style={styles.featureText}>Secure & Encrypted</Text>
+                </View>
+                <View style={styles.featureItem}>
+                  <Ionicons name="card" size={16} color={Colors.success} />
+                  <Text style={styles.featureText}>All Cards Accepted</Text>
+                </View>
+                <View style={styles.featureItem}>
+                  <Ionicons name="phone-portrait" size={16} color={Colors.success} />
+                  <Text style={styles.featureText}>Mobile Money</Text>
+                </View>
               </View>
             </View>
-          </View>
+          )}
         </View>
 
         {/* Security Note */}
@@ -446,7 +818,11 @@ const PaymentScreen = ({ route, navigation }: any) => {
             <ActivityIndicator color={Colors.white} />
           ) : (
             <>
-              <Ionicons name="card" size={20} color={Colors.white} />
+              <Ionicons
+                name={paymentChannel === 'MOBILE_MONEY' && canPayWithMobileMoney ? 'phone-portrait' : 'card'}
+                size={20}
+                color={Colors.white}
+              />
               <Text style={styles.payButtonText}>
                 Pay {formatPrice(totalAmount)}
               </Text>
@@ -796,6 +1172,107 @@ const styles = StyleSheet.create({
     fontSize: 18,
     fontWeight: '700',
   },
+  channelRow: {
+    flexDirection: 'row',
+    gap: 12,
+    marginBottom: 12,
+  },
+  channelOption: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    paddingVertical: 14,
+    backgroundColor: Colors.white,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  channelOptionSelected: {
+    borderColor: Colors.primary,
+    backgroundColor: Colors.primaryLight + '10',
+  },
+  channelOptionDisabled: {
+    opacity: 0.5,
+  },
+  channelText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: Colors.textSecondary,
+  },
+  channelTextSelected: {
+    color: Colors.primary,
+  },
+  momoLabel: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: Colors.textPrimary,
+    marginBottom: 8,
+  },
+  providerRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 16,
+  },
+  providerChip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    backgroundColor: Colors.backgroundSecondary,
+  },
+  providerChipSelected: {
+    borderColor: Colors.primary,
+    backgroundColor: Colors.primary,
+  },
+  providerChipText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: Colors.textSecondary,
+  },
+  providerChipTextSelected: {
+    color: Colors.white,
+  },
+  momoInput: {
+    borderWidth: 1,
+    borderColor: Colors.border,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 12,
+    fontSize: 16,
+    color: Colors.textPrimary,
+  },
+  momoHint: {
+    fontSize: 12,
+    color: Colors.textTertiary,
+    marginTop: 8,
+  },
+  momoStatusContainer: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 24,
+  },
+  otpInput: {
+    width: '60%',
+    borderWidth: 1,
+    borderColor: Colors.border,
+    borderRadius: 8,
+    paddingVertical: 12,
+    fontSize: 24,
+    fontWeight: '700',
+    letterSpacing: 6,
+    textAlign: 'center',
+    color: Colors.textPrimary,
+    backgroundColor: Colors.white,
+    marginBottom: 16,
+  },
+  momoActionButton: {
+    alignSelf: 'stretch',
+  },
   webViewContainer: {
     flex: 1,
     backgroundColor: Colors.white,
@@ -126,42 +126,40 @@ const UnpaidOrdersScreen = () => {
     );
   };
 
-  // Handle proceed to payment for single order
-  const handleProceedToPayment = (order: Order) => {
+  // Orders that make up a whole checkout session resume it by id; any other selection starts a new one
+  const navigateToPayment = (ordersToPay: Order[], storeName?: string) => {
+    const sessionId = ordersToPay[0]?.checkoutSession;
+    const isWholeSession = !!sessionId &&
+      ordersToPay.every(order => order.checkoutSession === sessionId) &&
+      unpaidOrders.filter(order => order.checkoutSession === sessionId).length === ordersToPay.length;
+
+    if (isWholeSession) {
+      (navigation as any).navigate('Payment', { checkoutSessionId: sessionId });
+      return;
+    }
+
     (navigation as any).navigate('Payment', { 
-      orders: [{
+      orders: ordersToPay.map(order => ({
         orderId: order.id,
-        storeName: order.store?.name || 'Store',
-        checkoutSession: order.checkoutSession || order.id,
-      }],
-      totalOrders: 1,
+        storeName: storeName || order.store?.name || 'Store',
+      })),
+      totalOrders: ordersToPay.length,
     });
   };
 
+  // Handle proceed to payment for single order
+  const handleProceedToPayment = (order: Order) => {
+    navigateToPayment([order]);
+  };
+
   // Handle proceed to payment for all orders from a store
   const handlePayAllFromStore = (storeOrders: Order[], storeName: string) => {
-    (navigation as any).navigate('Payment', { 
-      orders: storeOrders.map(order => ({
-        orderId: order.id,
-        storeName: storeName,
-        checkoutSession: order.checkoutSession || order.id,
-      })),
-      totalOrders: storeOrders.length,
-    });
+    navigateToPayment(storeOrders, storeName);
   };
 
   // Handle proceed to payment for all unpaid orders
   const handlePayAllOrders = () => {
-    const ordersForPayment = unpaidOrders.map(order => ({
-      orderId: order.id,
-      storeName: order.store?.name || 'Store',
-      checkoutSession: order.checkoutSession || order.id,
-    }));
-
-    (navigation as any).navigate('Payment', { 
-      orders: ordersForPayment,
-      totalOrders: ordersForPayment.length,
-    });
+    navigateToPayment(unpaidOrders);
   };
 
   // Handle view order details
@@ -184,6 +182,21 @@ const UnpaidOrdersScreen = () => {
     });
   };
 
+  // Format how long the items stay reserved
+  const formatReservation = (order: Order) => {
+    if (order.reservedUntil) {
+      const minutesLeft = Math.max(
+        0,
+        Math.ceil((new Date(order.reservedUntil).getTime() - Date.now()) / 60000)
+      );
+      return `Items reserved for ${minutesLeft} more minute${minutesLeft === 1 ? '' : 's'}`;
+    }
+    if (order.reservationExpired) {
+      return 'Reservation expired - items will be re-reserved if still in stock when you pay';
+    }
+    return null;
+  };
+
   // Render order card
   const renderOrderCard = (order: Order) => {
     const isCancelling = cancellingOrderId === order.id;
@@ -215,6 +228,18 @@ const UnpaidOrdersScreen = () => {
           </View>
         )}
 
+        {/* Stock Reservation */}
+        {formatReservation(order) && (
+          <View style={styles.reservationInfo}>
+            <Ionicons
+              name={order.reservedUntil ? 'time-outline' : 'alert-circle-outline'}
+              size={16}
+              color={order.reservedUntil ? Colors.primary : Colors.warning}
+            />
+            <Text style={styles.reservationText}>{formatReservation(order)}</Text>
+          </View>
+        )}
+
         {/* Order Items */}
         <View style={styles.itemsContainer}>
           {order.items.slice(0, 2).map((item, index) => (
@@ -565,6 +590,17 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     marginBottom: 12,
   },
+  reservationInfo: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginBottom: 12,
+  },
+  reservationText: {
+    flex: 1,
+    fontSize: 12,
+    color: Colors.textSecondary,
+  },
   storeLogo: {
     width: 32,
     height: 32,
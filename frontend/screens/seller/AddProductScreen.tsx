@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useState, useMemo } from 'react';
 import {
   View,
   Text,
@@ -17,6 +17,12 @@ import { Ionicons, MaterialCommunityIcons } from '@expo/vector-icons';
 import { useNavigation } from '@react-navigation/native';
 import * as ImagePicker from 'expo-image-picker';
 import { useProduct } from '../../hooks/useProducts';
+import VariantInventoryEditor, {
+  VariantDraft,
+  syncVariantDrafts,
+  toVariantInputs,
+  variantLabel,
+} from '../../components/VariantInventoryEditor';
 import { Colors } from '../../constants/colors';
 
 const CATEGORIES = [
@@ -69,10 +75,20 @@ export default function AddProductScreen() {
   const [selectedColors, setSelectedColors] = useState<string[]>([]);
   const [tagInput, setTagInput] = useState('');
   const [tags, setTags] = useState<string[]>([]);
+  const [variantDrafts, setVariantDrafts] = useState<VariantDraft[]>([]);
 
   // UI state
   const [showCategoryPicker, setShowCategoryPicker] = useState(false);
 
+  // One stock entry per selected size/color combination
+  const variants = useMemo(
+    () => syncVariantDrafts(selectedSizes, selectedColors, variantDrafts),
+    [selectedSizes, selectedColors, variantDrafts]
+  );
+
+  const hasVariants = variants.length > 0;
+  const variantStock = variants.reduce((sum, variant) => sum + (parseInt(variant.stock) || 0), 0);
+
   const requestPermission = async () => {
     const { status } = await ImagePicker.requestMediaLibraryPermissionsAsync();
     if (status !== 'granted') {
@@ -143,10 +159,20 @@ export default function AddProductScreen() {
       Alert.alert('Validation Error', 'Please enter a valid price.');
       return false;
     }
-    if (!stock || parseInt(stock) < 0) {
+    if (!hasVariants && (!stock || parseInt(stock) < 0)) {
       Alert.alert('Validation Error', 'Please enter a valid stock quantity.');
       return false;
     }
+    for (const variant of variants) {
+      if (!variant.stock || isNaN(parseInt(variant.stock)) || parseInt(variant.stock) < 0) {
+        Alert.alert('Validation Error', `Please enter a valid stock quantity for ${variantLabel(variant)}.`);
+        return false;
+      }
+      if (variant.price && parseFloat(variant.price) <= 0) {
+        Alert.alert('Validation Error', `Please enter a valid price for ${variantLabel(variant)}.`);
+        return false;
+      }
+    }
     if (images.length === 0) {
       Alert.alert('Validation Error', 'Please add at least one product image.');
       return false;
@@ -161,7 +187,7 @@ export default function AddProductScreen() {
       name: name.trim(),
       description: description.trim() || undefined,
       price: parseFloat(price),
-      stock: parseInt(stock),
+      stock: hasVariants ? variantStock : parseInt(stock),
       category: category || undefined,
       weight: weight ? parseFloat(weight) : undefined,
       moq: moq ? parseInt(moq) : undefined,
@@ -170,6 +196,7 @@ export default function AddProductScreen() {
       sizes: selectedSizes.length > 0 ? selectedSizes : undefined,
       color: selectedColors.length > 0 ? selectedColors : undefined,
       tags: tags.length > 0 ? tags : undefined,
+      variants: hasVariants ? toVariantInputs(variants) : undefined,
     };
 
     const result = await createProduct(productData);
@@ -274,12 +301,13 @@ export default function AddProductScreen() {
               <View style={[styles.inputGroup, styles.flex1]}>
                 <Text style={styles.label}>Stock *</Text>
                 <TextInput
-                  style={styles.input}
-                  value={stock}
+                  style={[styles.input, hasVariants && styles.inputDisabled]}
+                  value={hasVariants ? variantStock.toString() : stock}
                   onChangeText={setStock}
                   placeholder="0"
                   placeholderTextColor={Colors.gray400}
                   keyboardType="number-pad"
+                  editable={!hasVariants}
                 />
               </View>
             </View>
@@ -386,6 +414,21 @@ export default function AddProductScreen() {
             </View>
           </View>
 
+          {/* Variant Inventory */}
+          {hasVariants && (
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>Stock per Variant</Text>
+              <Text style={styles.sectionSubtitle}>
+                Set stock for each size and color. Leave price empty to use the product price.
+              </Text>
+              <VariantInventoryEditor
+                variants={variants}
+                onChange={setVariantDrafts}
+                basePrice={price}
+              />
+            </View>
+          )}
+
           {/* Tags */}
           <View style={styles.section}>
             <Text style={styles.sectionTitle}>Tags (Optional)</Text>
@@ -588,6 +631,10 @@ const styles = StyleSheet.create({
     color: Colors.textPrimary,
     backgroundColor: Colors.white,
   },
+  inputDisabled: {
+    backgroundColor: Colors.gray50,
+    color: Colors.textSecondary,
+  },
   textArea: {
     minHeight: 100,
     paddingTop: 12,
@@ -1,5 +1,5 @@
 // screens/EditProductScreen.tsx
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import {
   View,
   Text,
@@ -17,6 +17,13 @@ import * as ImagePicker from 'expo-image-picker';
 import { RouteProp } from '@react-navigation/native';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { useProduct } from '../../hooks/useProducts';
+import VariantInventoryEditor, {
+  VariantDraft,
+  draftsFromVariants,
+  syncVariantDrafts,
+  toVariantInputs,
+  variantLabel,
+} from '../../components/VariantInventoryEditor';
 import { Colors } from '../../constants/colors';
 import { SellerStackParamList } from '../../types/navigation';
 
@@ -47,6 +54,17 @@ const EditProductScreen: React.FC<EditProductScreenProps> = ({ route, navigation
   const [isActive, setIsActive] = useState(true);
   const [images, setImages] = useState<ImagePicker.ImagePickerAsset[]>([]);
   const [existingImages, setExistingImages] = useState<string[]>([]);
+  const [variantDrafts, setVariantDrafts] = useState<VariantDraft[]>([]);
+
+  const splitList = (value: string) => value.split(',').map(item => item.trim()).filter(item => item);
+
+  // One stock entry per listed size/color combination, seeded from the saved variants
+  const variants = useMemo(
+    () => syncVariantDrafts(splitList(sizes), splitList(colors), variantDrafts),
+    [sizes, colors, variantDrafts]
+  );
+  const hasVariants = variants.length > 0;
+  const variantStock = variants.reduce((sum, variant) => sum + (parseInt(variant.stock) || 0), 0);
 
   useEffect(() => {
     if (initialProduct) {
@@ -63,6 +81,7 @@ const EditProductScreen: React.FC<EditProductScreenProps> = ({ route, navigation
       setMoq(initialProduct.moq?.toString() || '');
       setIsActive(initialProduct.isActive ?? true);
       setExistingImages(initialProduct.images || []);
+      setVariantDrafts(draftsFromVariants(initialProduct.variants));
     }
   }, [initialProduct]);
 
@@ -106,26 +125,39 @@ const EditProductScreen: React.FC<EditProductScreenProps> = ({ route, navigation
       return;
     }
 
-    if (!stock || isNaN(parseInt(stock))) {
+    if (!hasVariants && (!stock || isNaN(parseInt(stock)))) {
       Alert.alert('Validation Error', 'Valid stock quantity is required');
       return;
     }
 
+    for (const variant of variants) {
+      if (!variant.stock || isNaN(parseInt(variant.stock)) || parseInt(variant.stock) < 0) {
+        Alert.alert('Validation Error', `Valid stock quantity is required for ${variantLabel(variant)}`);
+        return;
+      }
+      if (variant.price && (isNaN(parseFloat(variant.price)) || parseFloat(variant.price) <= 0)) {
+        Alert.alert('Validation Error', `Valid price is required for ${variantLabel(variant)}`);
+        return;
+      }
+    }
+
     // Prepare update data
     const updateData = {
       name: name.trim(),
       description: description.trim() || undefined,
       price: parseFloat(price),
-      stock: parseInt(stock),
+      stock: hasVariants ? variantStock : parseInt(stock),
       category: category.trim() || undefined,
       tags: tags ? tags.split(',').map(t => t.trim()).filter(t => t) : [],
-      sizes: sizes ? sizes.split(',').map(s => s.trim()).filter(s => s) : [],
-      color: colors ? colors.split(',').map(c => c.trim()).filter(c => c) : [],
+      sizes: splitList(sizes),
+      color: splitList(colors),
       weight: weight ? parseFloat(weight) : undefined,
       sellerNote: sellerNote.trim() || undefined,
       moq: moq ? parseInt(moq) : undefined,
       isActive,
       images: images.length > 0 ? images : undefined,
+      // An empty list deactivates variants the seller removed
+      variants: toVariantInputs(variants),
     };
 
     const result = await updateProduct(productId, updateData);
@@ -254,12 +286,13 @@ const EditProductScreen: React.FC<EditProductScreenProps> = ({ route, navigation
             <View style={[styles.section, styles.halfWidth]}>
               <Text style={styles.label}>Stock *</Text>
               <TextInput
-                style={styles.input}
-                value={stock}
+                style={[styles.input, hasVariants && styles.inputDisabled]}
+                value={hasVariants ? variantStock.toString() : stock}
                 onChangeText={setStock}
                 placeholder="0"
                 placeholderTextColor={Colors.gray400}
                 keyboardType="number-pad"
+                editable={!hasVariants}
               />
             </View>
           </View>
@@ -315,6 +348,19 @@ const EditProductScreen: React.FC<EditProductScreenProps> = ({ route, navigation
             <Text style={styles.hint}>Separate colors with commas</Text>
           </View>
 
+          {/* Variant Inventory */}
+          {hasVariants && (
+            <View style={styles.section}>
+              <Text style={styles.label}>Stock per Variant</Text>
+              <VariantInventoryEditor
+                variants={variants}
+                onChange={setVariantDrafts}
+                basePrice={price}
+              />
+              <Text style={styles.hint}>Leave price empty to use the product price</Text>
+            </View>
+          )}
+
           {/* Weight and MOQ Row */}
           <View style={styles.row}>
             <View style={[styles.section, styles.halfWidth]}>
@@ -437,6 +483,10 @@ const styles = StyleSheet.create({
     height: 100,
     textAlignVertical: 'top',
   },
+  inputDisabled: {
+    backgroundColor: Colors.gray50,
+    color: Colors.textSecondary,
+  },
   hint: {
     fontSize: 12,
     color: Colors.textSecondary,
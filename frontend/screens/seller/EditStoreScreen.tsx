@@ -10,6 +10,7 @@ import {
   Alert,
   ActivityIndicator,
   Platform,
+  Switch,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import * as ImagePicker from 'expo-image-picker';
@@ -55,6 +56,15 @@ const CATEGORIES = [
   'Other',
 ];
 
+type RecoveryCouponType = 'PERCENTAGE' | 'FIXED_AMOUNT' | 'FREE_DELIVERY' | null;
+
+const RECOVERY_COUPON_OPTIONS: { label: string; value: RecoveryCouponType }[] = [
+  { label: 'No offer', value: null },
+  { label: '% off', value: 'PERCENTAGE' },
+  { label: 'Amount off', value: 'FIXED_AMOUNT' },
+  { label: 'Free delivery', value: 'FREE_DELIVERY' },
+];
+
 interface EditStoreProps {
   navigation: any;
   route: any;
@@ -62,7 +72,14 @@ interface EditStoreProps {
 
 export default function EditStoreScreen({ navigation, route }: EditStoreProps) {
   const { store: storeFromRoute } = route.params || {};
-  const { updateStore, loading, error, clearError } = useStore();
+  const {
+    updateStore,
+    updateCashOnDeliverySettings,
+    updateRecoverySettings,
+    loading,
+    error,
+    clearError,
+  } = useStore();
 
   // Form state
   const [name, setName] = useState('');
@@ -73,6 +90,16 @@ export default function EditStoreScreen({ navigation, route }: EditStoreProps) {
   const [logo, setLogo] = useState<ImagePicker.ImagePickerAsset | null>(null);
   const [existingLogoUrl, setExistingLogoUrl] = useState<string | null>(null);
 
+  // Cash on delivery state
+  const [codEnabled, setCodEnabled] = useState(false);
+  const [codMaxOrderValue, setCodMaxOrderValue] = useState('');
+  const [codMinCompletedOrders, setCodMinCompletedOrders] = useState('');
+
+  // Cart recovery state
+  const [recoveryEnabled, setRecoveryEnabled] = useState(false);
+  const [recoveryCouponType, setRecoveryCouponType] = useState<RecoveryCouponType>(null);
+  const [recoveryCouponValue, setRecoveryCouponValue] = useState('');
+
   // UI state
   const [showCategoryPicker, setShowCategoryPicker] = useState(false);
   const [showRegionPicker, setShowRegionPicker] = useState(false);
@@ -87,6 +114,18 @@ export default function EditStoreScreen({ navigation, route }: EditStoreProps) {
       setCategory(storeFromRoute.category || '');
       setRegion(storeFromRoute.region || '');
       setExistingLogoUrl(storeFromRoute.logo || null);
+      setCodEnabled(!!storeFromRoute.codEnabled);
+      setCodMaxOrderValue(
+        storeFromRoute.codMaxOrderValue ? String(storeFromRoute.codMaxOrderValue) : ''
+      );
+      setCodMinCompletedOrders(
+        storeFromRoute.codMinCompletedOrders ? String(storeFromRoute.codMinCompletedOrders) : ''
+      );
+      setRecoveryEnabled(!!storeFromRoute.recoveryEnabled);
+      setRecoveryCouponType(storeFromRoute.recoveryCouponType || null);
+      setRecoveryCouponValue(
+        storeFromRoute.recoveryCouponValue ? String(storeFromRoute.recoveryCouponValue) : ''
+      );
     }
   }, [storeFromRoute]);
 
@@ -146,6 +185,23 @@ export default function EditStoreScreen({ navigation, route }: EditStoreProps) {
       errors.category = 'Please select a category';
     }
 
+    if (codMaxOrderValue.trim() && !(parseFloat(codMaxOrderValue) > 0)) {
+      errors.codMaxOrderValue = 'Enter an amount greater than 0, or leave empty for no limit';
+    }
+
+    if (codMinCompletedOrders.trim() && !/^\d+$/.test(codMinCompletedOrders.trim())) {
+      errors.codMinCompletedOrders = 'Enter a whole number';
+    }
+
+    if (recoveryCouponType === 'PERCENTAGE' || recoveryCouponType === 'FIXED_AMOUNT') {
+      const value = parseFloat(recoveryCouponValue);
+      if (!(value > 0)) {
+        errors.recoveryCouponValue = 'Enter an amount greater than 0';
+      } else if (recoveryCouponType === 'PERCENTAGE' && value > 100) {
+        errors.recoveryCouponValue = 'A percentage cannot be more than 100';
+      }
+    }
+
     setFormErrors(errors);
     return Object.keys(errors).length === 0;
   };
@@ -175,7 +231,22 @@ export default function EditStoreScreen({ navigation, route }: EditStoreProps) {
 
       const result = await updateStore(storeFromRoute.id, updateData);
 
-      if (result) {
+      const codSettings = result && await updateCashOnDeliverySettings({
+        codEnabled,
+        codMaxOrderValue: codMaxOrderValue.trim() ? parseFloat(codMaxOrderValue) : null,
+        codMinCompletedOrders: parseInt(codMinCompletedOrders, 10) || 0,
+      });
+
+      const recoverySettings = codSettings && await updateRecoverySettings({
+        recoveryEnabled,
+        recoveryCouponType,
+        recoveryCouponValue:
+          recoveryCouponType === 'PERCENTAGE' || recoveryCouponType === 'FIXED_AMOUNT'
+            ? parseFloat(recoveryCouponValue)
+            : null,
+      });
+
+      if (result && codSettings && recoverySettings) {
         Alert.alert(
           'Success',
           'Store updated successfully!',
@@ -427,6 +498,135 @@ export default function EditStoreScreen({ navigation, route }: EditStoreProps) {
           </TouchableOpacity>
         </View>
 
+        {/* Cash on Delivery */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Cash on Delivery</Text>
+          <View style={styles.switchRow}>
+            <Text style={styles.label}>Accept cash on delivery</Text>
+            <Switch
+              value={codEnabled}
+              onValueChange={setCodEnabled}
+              trackColor={{ false: Colors.gray300, true: Colors.primary }}
+            />
+          </View>
+          <Text style={styles.codHelperText}>
+            Buyers pay in cash when their order arrives. You confirm the cash was collected when marking the order delivered.
+          </Text>
+        </View>
+
+        {codEnabled && (
+          <>
+            <View style={styles.section}>
+              <Text style={styles.label}>Maximum Order Value</Text>
+              <TextInput
+                style={[styles.input, formErrors.codMaxOrderValue && styles.inputError]}
+                value={codMaxOrderValue}
+                onChangeText={(text) => {
+                  setCodMaxOrderValue(text);
+                  setFormErrors({ ...formErrors, codMaxOrderValue: '' });
+                }}
+                placeholder="No limit"
+                placeholderTextColor={Colors.gray400}
+                keyboardType="decimal-pad"
+              />
+              {formErrors.codMaxOrderValue && (
+                <Text style={styles.errorText}>{formErrors.codMaxOrderValue}</Text>
+              )}
+            </View>
+
+            <View style={styles.section}>
+              <Text style={styles.label}>Buyer's Completed Orders Required</Text>
+              <TextInput
+                style={[styles.input, formErrors.codMinCompletedOrders && styles.inputError]}
+                value={codMinCompletedOrders}
+                onChangeText={(text) => {
+                  setCodMinCompletedOrders(text);
+                  setFormErrors({ ...formErrors, codMinCompletedOrders: '' });
+                }}
+                placeholder="0"
+                placeholderTextColor={Colors.gray400}
+                keyboardType="number-pad"
+              />
+              {formErrors.codMinCompletedOrders && (
+                <Text style={styles.errorText}>{formErrors.codMinCompletedOrders}</Text>
+              )}
+            </View>
+          </>
+        )}
+
+        {/* Cart Recovery */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Cart Recovery</Text>
+          <View style={styles.switchRow}>
+            <Text style={styles.label}>Remind buyers to finish checkout</Text>
+            <Switch
+              value={recoveryEnabled}
+              onValueChange={setRecoveryEnabled}
+              trackColor={{ false: Colors.gray300, true: Colors.primary }}
+            />
+          </View>
+          <Text style={styles.codHelperText}>
+            Buyers who leave items in their cart or don't pay for an order get reminders by notification and email.
+          </Text>
+        </View>
+
+        {recoveryEnabled && (
+          <>
+            <View style={styles.section}>
+              <Text style={styles.label}>Offer in the Last Reminder</Text>
+              <View style={styles.recoveryOptions}>
+                {RECOVERY_COUPON_OPTIONS.map((option) => (
+                  <TouchableOpacity
+                    key={option.label}
+                    style={[
+                      styles.recoveryOption,
+                      recoveryCouponType === option.value && styles.recoveryOptionSelected,
+                    ]}
+                    onPress={() => {
+                      setRecoveryCouponType(option.value);
+                      setFormErrors({ ...formErrors, recoveryCouponValue: '' });
+                    }}
+                  >
+                    <Text
+                      style={[
+                        styles.recoveryOptionText,
+                        recoveryCouponType === option.value && styles.recoveryOptionTextSelected,
+                      ]}
+                    >
+                      {option.label}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+              <Text style={styles.codHelperText}>
+                A single-use coupon for your store, valid for 3 days. You fund the discount.
+              </Text>
+            </View>
+
+            {(recoveryCouponType === 'PERCENTAGE' || recoveryCouponType === 'FIXED_AMOUNT') && (
+              <View style={styles.section}>
+                <Text style={styles.label}>
+                  {recoveryCouponType === 'PERCENTAGE' ? 'Discount (%)' : 'Discount Amount'}
+                </Text>
+                <TextInput
+                  style={[styles.input, formErrors.recoveryCouponValue && styles.inputError]}
+                  value={recoveryCouponValue}
+                  onChangeText={(text) => {
+                    setRecoveryCouponValue(text);
+                    setFormErrors({ ...formErrors, recoveryCouponValue: '' });
+                  }}
+                  placeholder={recoveryCouponType === 'PERCENTAGE' ? '10' : '20.00'}
+                  placeholderTextColor={Colors.gray400}
+                  keyboardType="decimal-pad"
+                />
+                {formErrors.recoveryCouponValue && (
+                  <Text style={styles.errorText}>{formErrors.recoveryCouponValue}</Text>
+                )}
+              </View>
+            )}
+          </>
+        )}
+
         {/* Error Message */}
         {error && (
           <View style={styles.errorContainer}>
@@ -578,6 +778,41 @@ const styles = StyleSheet.create({
     color: Colors.gray500,
     textAlign: 'center',
   },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  codHelperText: {
+    fontSize: 12,
+    color: Colors.gray500,
+  },
+  recoveryOptions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 8,
+  },
+  recoveryOption: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    backgroundColor: Colors.white,
+  },
+  recoveryOptionSelected: {
+    borderColor: Colors.primary,
+    backgroundColor: Colors.primary,
+  },
+  recoveryOptionText: {
+    fontSize: 13,
+    color: Colors.textPrimary,
+  },
+  recoveryOptionTextSelected: {
+    color: Colors.white,
+    fontWeight: '600',
+  },
   errorText: {
     fontSize: 12,
     color: Colors.error,
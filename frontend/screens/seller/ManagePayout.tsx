@@ -8,12 +8,48 @@ import {
   Alert,
   ActivityIndicator,
   RefreshControl,
+  Platform,
+  Share,
 } from 'react-native';
 import { useNavigation, useFocusEffect } from '@react-navigation/native';
 import { Ionicons } from '@expo/vector-icons';
+import DateTimePicker from '@react-native-community/datetimepicker';
 import { usePaymentAccount, PaymentAccount } from '../../hooks/useAccountDetails';
+import {
+  usePayouts,
+  PayoutSummary,
+  PayoutTransfer,
+  TransferStatus,
+} from '../../hooks/usePayouts';
 import { Colors } from '../../constants/colors';
 
+const HISTORY_FILTERS: (TransferStatus | 'ALL')[] = ['ALL', 'SUCCESS', 'INITIATED', 'FAILED', 'REVERSED'];
+
+const TRANSFER_STATUS_LABELS: Record<TransferStatus, string> = {
+  INITIATED: 'Processing',
+  SUCCESS: 'Paid',
+  FAILED: 'Failed',
+  REVERSED: 'Reversed',
+};
+
+const getTransferStatusColor = (status: TransferStatus) => {
+  switch (status) {
+    case 'SUCCESS':
+      return Colors.success;
+    case 'INITIATED':
+      return Colors.warning;
+    default:
+      return Colors.error;
+  }
+};
+
+const formatDate = (date: Date | string) =>
+  new Date(date).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  });
+
 const ManagePayoutAccount: React.FC = () => {
   const navigation = useNavigation();
   const {
@@ -25,25 +61,132 @@ const ManagePayoutAccount: React.FC = () => {
     clearError,
   } = usePaymentAccount();
 
+  const {
+    loading: payoutsLoading,
+    getPayoutSummary,
+    getPayoutHistory,
+    verifyPayout,
+    getPayoutStatement,
+  } = usePayouts();
+
   const [refreshing, setRefreshing] = useState(false);
+  const [summary, setSummary] = useState<PayoutSummary | null>(null);
+  const [transfers, setTransfers] = useState<PayoutTransfer[]>([]);
+  const [historyPage, setHistoryPage] = useState(1);
+  const [historyTotalPages, setHistoryTotalPages] = useState(1);
+  const [historyStatus, setHistoryStatus] = useState<TransferStatus | 'ALL'>('ALL');
+  const [verifyingId, setVerifyingId] = useState<string | null>(null);
+  const [statementFrom, setStatementFrom] = useState(
+    () => new Date(Date.now() - 30 * 24 * 60 * 60 * 1000)
+  );
+  const [statementTo, setStatementTo] = useState(() => new Date());
+  const [pickerTarget, setPickerTarget] = useState<'from' | 'to' | null>(null);
 
-  // Fetch payment account on screen focus
+  // Fetch payment account and payouts on screen focus
   useFocusEffect(
     useCallback(() => {
       loadPaymentAccount();
-    }, [])
+      loadPayouts();
+    }, [historyStatus])
   );
 
   const loadPaymentAccount = async () => {
     await getMyPaymentAccount();
   };
 
+  const loadPayouts = async () => {
+    const [summaryResult, historyResult] = await Promise.all([
+      getPayoutSummary(),
+      getPayoutHistory({ page: 1, status: historyStatus !== 'ALL' ? historyStatus : undefined }),
+    ]);
+
+    if (summaryResult.success && summaryResult.data) {
+      setSummary(summaryResult.data);
+    }
+
+    if (historyResult.success && historyResult.data) {
+      setTransfers(historyResult.data.transfers);
+      setHistoryPage(historyResult.data.pagination.page);
+      setHistoryTotalPages(historyResult.data.pagination.totalPages);
+    }
+  };
+
+  const loadMoreHistory = async () => {
+    if (historyPage >= historyTotalPages || payoutsLoading) return;
+
+    const result = await getPayoutHistory({
+      page: historyPage + 1,
+      status: historyStatus !== 'ALL' ? historyStatus : undefined,
+    });
+
+    if (result.success && result.data) {
+      setTransfers((prev) => [...prev, ...result.data!.transfers]);
+      setHistoryPage(result.data.pagination.page);
+      setHistoryTotalPages(result.data.pagination.totalPages);
+    }
+  };
+
   const onRefresh = async () => {
     setRefreshing(true);
-    await loadPaymentAccount();
+    await Promise.all([loadPaymentAccount(), loadPayouts()]);
     setRefreshing(false);
   };
 
+  const handleVerify = async (transfer: PayoutTransfer) => {
+    setVerifyingId(transfer.id);
+    const result = await verifyPayout(transfer.id);
+    setVerifyingId(null);
+
+    if (!result.success || !result.data) {
+      Alert.alert('Error', result.message || 'Could not check this payout');
+      return;
+    }
+
+    const updated = result.data.transfer;
+    setTransfers((prev) => prev.map((item) => (item.id === updated.id ? updated : item)));
+
+    if (updated.status !== transfer.status) {
+      loadPayouts();
+    }
+
+    Alert.alert(
+      'Payout Status',
+      `This payout is ${TRANSFER_STATUS_LABELS[updated.status].toLowerCase()} (gateway status: ${result.data.gatewayStatus}).`
+    );
+  };
+
+  const handleDownloadStatement = async () => {
+    if (statementFrom > statementTo) {
+      Alert.alert('Invalid Range', 'The start date must be before the end date.');
+      return;
+    }
+
+    // Cover the whole of the end day
+    const to = new Date(statementTo);
+    to.setHours(23, 59, 59, 999);
+
+    const csv = await getPayoutStatement(statementFrom.toISOString(), to.toISOString());
+
+    if (!csv) {
+      Alert.alert('Error', 'Failed to download statement');
+      return;
+    }
+
+    await Share.share({
+      title: `Payout statement ${formatDate(statementFrom)} - ${formatDate(statementTo)}`,
+      message: csv,
+    });
+  };
+
+  const onStatementDateChange = (event: any, selectedDate?: Date) => {
+    const target = pickerTarget;
+    setPickerTarget(Platform.OS === 'ios' ? target : null);
+
+    if (!selectedDate) return;
+    if (target === 'from') setStatementFrom(selectedDate);
+    if (target === 'to') setStatementTo(selectedDate);
+  };
+
   const handleEdit = () => {
     if (paymentAccount) {
       (navigation as any).navigate('EditAccount' as never, { 
@@ -171,6 +314,157 @@ const ManagePayoutAccount: React.FC = () => {
     );
   };
 
+  const renderSummaryTile = (
+    label: string,
+    bucket: { amount: number; count: number },
+    color: string,
+    icon: keyof typeof Ionicons.glyphMap
+  ) => (
+    <View style={styles.summaryTile}>
+      <View style={styles.summaryTileHeader}>
+        <Ionicons name={icon} size={18} color={color} />
+        <Text style={styles.summaryLabel}>{label}</Text>
+      </View>
+      <Text style={[styles.summaryAmount, { color }]}>
+        {summary?.currency} {bucket.amount.toFixed(2)}
+      </Text>
+      <Text style={styles.summaryCount}>
+        {bucket.count} {bucket.count === 1 ? 'order' : 'orders'}
+      </Text>
+    </View>
+  );
+
+  const renderWallet = () =>
+    summary && (
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Wallet</Text>
+        <View style={styles.summaryGrid}>
+          {renderSummaryTile('In Escrow', summary.pendingInEscrow, Colors.warning, 'lock-closed-outline')}
+          {renderSummaryTile('Available', summary.available, Colors.primary, 'wallet-outline')}
+          {renderSummaryTile('Processing', summary.processing, Colors.info, 'sync-outline')}
+          {renderSummaryTile('Paid Out', summary.paidOut, Colors.success, 'checkmark-circle-outline')}
+          {renderSummaryTile('Failed', summary.failed, Colors.error, 'alert-circle-outline')}
+        </View>
+        <Text style={styles.sectionHint}>
+          Available funds are paid out automatically on the next release run.
+        </Text>
+      </View>
+    );
+
+  const renderStatement = () => (
+    <View style={styles.section}>
+      <Text style={styles.sectionTitle}>Statement</Text>
+      <View style={styles.statementCard}>
+        <View style={styles.statementRange}>
+          <TouchableOpacity style={styles.dateButton} onPress={() => setPickerTarget('from')}>
+            <Text style={styles.dateLabel}>From</Text>
+            <Text style={styles.dateValue}>{formatDate(statementFrom)}</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.dateButton} onPress={() => setPickerTarget('to')}>
+            <Text style={styles.dateLabel}>To</Text>
+            <Text style={styles.dateValue}>{formatDate(statementTo)}</Text>
+          </TouchableOpacity>
+        </View>
+
+        {pickerTarget && (
+          <DateTimePicker
+            value={pickerTarget === 'from' ? statementFrom : statementTo}
+            mode="date"
+            display="default"
+            onChange={onStatementDateChange}
+            maximumDate={new Date()}
+          />
+        )}
+
+        <TouchableOpacity
+          style={styles.statementButton}
+          onPress={handleDownloadStatement}
+          disabled={payoutsLoading}
+          activeOpacity={0.8}
+        >
+          <Ionicons name="download-outline" size={20} color={Colors.white} />
+          <Text style={styles.statementButtonText}>Download Statement (CSV)</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+
+  const renderTransfer = (transfer: PayoutTransfer) => {
+    const color = getTransferStatusColor(transfer.status);
+    const canVerify = transfer.status === 'INITIATED' && !!(transfer.transferCode || transfer.transferRef);
+
+    return (
+      <View key={transfer.id} style={styles.transferRow}>
+        <View style={styles.transferInfo}>
+          <Text style={styles.transferAmount}>
+            {transfer.currency} {transfer.amount.toFixed(2)}
+          </Text>
+          <Text style={styles.transferMeta}>
+            Order #{transfer.orderId.slice(0, 8)} · {formatDate(transfer.initiatedAt)}
+          </Text>
+          {transfer.errorMessage && (
+            <Text style={styles.transferError} numberOfLines={2}>
+              {transfer.errorMessage}
+            </Text>
+          )}
+        </View>
+        <View style={styles.transferActions}>
+          <View style={[styles.transferBadge, { backgroundColor: `${color}20` }]}>
+            <Text style={[styles.transferBadgeText, { color }]}>
+              {TRANSFER_STATUS_LABELS[transfer.status]}
+            </Text>
+          </View>
+          {canVerify && (
+            <TouchableOpacity onPress={() => handleVerify(transfer)} disabled={!!verifyingId}>
+              {verifyingId === transfer.id ? (
+                <ActivityIndicator size="small" color={Colors.primary} />
+              ) : (
+                <Text style={styles.verifyText}>Check status</Text>
+              )}
+            </TouchableOpacity>
+          )}
+        </View>
+      </View>
+    );
+  };
+
+  const renderHistory = () => (
+    <View style={styles.section}>
+      <Text style={styles.sectionTitle}>Payout History</Text>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.filterRow}>
+        {HISTORY_FILTERS.map((filter) => (
+          <TouchableOpacity
+            key={filter}
+            style={[styles.filterChip, historyStatus === filter && styles.filterChipActive]}
+            onPress={() => setHistoryStatus(filter)}
+          >
+            <Text
+              style={[styles.filterChipText, historyStatus === filter && styles.filterChipTextActive]}
+            >
+              {filter === 'ALL' ? 'All' : TRANSFER_STATUS_LABELS[filter]}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </ScrollView>
+
+      {transfers.length === 0 ? (
+        <Text style={styles.emptyHistoryText}>No payouts yet</Text>
+      ) : (
+        <View style={styles.historyCard}>{transfers.map(renderTransfer)}</View>
+      )}
+
+      {historyPage < historyTotalPages && (
+        <TouchableOpacity
+          style={styles.loadMoreButton}
+          onPress={loadMoreHistory}
+          disabled={payoutsLoading}
+        >
+          <Text style={styles.loadMoreText}>{payoutsLoading ? 'Loading...' : 'Load More'}</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+
   const renderEmptyState = () => (
     <View style={styles.emptyContainer}>
       <View style={styles.emptyIconContainer}>
@@ -219,7 +513,7 @@ const ManagePayoutAccount: React.FC = () => {
         >
           <Ionicons name="arrow-back" size={24} color={Colors.textPrimary} />
         </TouchableOpacity>
-        <Text style={styles.headerTitle}>Payout Accounts</Text>
+        <Text style={styles.headerTitle}>Payouts</Text>
         <View style={styles.headerRight} />
       </View>
 
@@ -260,6 +554,10 @@ const ManagePayoutAccount: React.FC = () => {
             </TouchableOpacity>
           </>
         )}
+
+        {renderWallet()}
+        {renderStatement()}
+        {renderHistory()}
       </ScrollView>
     </View>
   );
@@ -505,6 +803,185 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: Colors.primary,
   },
+  section: {
+    marginTop: 24,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: Colors.textPrimary,
+    marginBottom: 12,
+  },
+  sectionHint: {
+    marginTop: 8,
+    fontSize: 12,
+    color: Colors.textSecondary,
+  },
+  summaryGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 12,
+  },
+  summaryTile: {
+    width: '47%',
+    backgroundColor: Colors.white,
+    borderRadius: 12,
+    padding: 12,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  summaryTileHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginBottom: 8,
+  },
+  summaryLabel: {
+    fontSize: 13,
+    color: Colors.textSecondary,
+  },
+  summaryAmount: {
+    fontSize: 16,
+    fontWeight: '700',
+  },
+  summaryCount: {
+    marginTop: 2,
+    fontSize: 12,
+    color: Colors.textSecondary,
+  },
+  statementCard: {
+    backgroundColor: Colors.white,
+    borderRadius: 12,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    gap: 12,
+  },
+  statementRange: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  dateButton: {
+    flex: 1,
+    padding: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    backgroundColor: Colors.backgroundSecondary,
+  },
+  dateLabel: {
+    fontSize: 12,
+    color: Colors.textSecondary,
+    marginBottom: 4,
+  },
+  dateValue: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: Colors.textPrimary,
+  },
+  statementButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 12,
+    backgroundColor: Colors.primary,
+    borderRadius: 8,
+    gap: 8,
+  },
+  statementButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: Colors.white,
+  },
+  filterRow: {
+    marginBottom: 12,
+  },
+  filterChip: {
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    backgroundColor: Colors.white,
+    marginRight: 8,
+  },
+  filterChipActive: {
+    backgroundColor: Colors.primary,
+    borderColor: Colors.primary,
+  },
+  filterChipText: {
+    fontSize: 13,
+    color: Colors.textSecondary,
+  },
+  filterChipTextActive: {
+    color: Colors.white,
+    fontWeight: '600',
+  },
+  emptyHistoryText: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+    textAlign: 'center',
+    paddingVertical: 24,
+  },
+  historyCard: {
+    backgroundColor: Colors.white,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  transferRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    padding: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.border,
+    gap: 12,
+  },
+  transferInfo: {
+    flex: 1,
+  },
+  transferAmount: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: Colors.textPrimary,
+  },
+  transferMeta: {
+    marginTop: 2,
+    fontSize: 12,
+    color: Colors.textSecondary,
+  },
+  transferError: {
+    marginTop: 4,
+    fontSize: 12,
+    color: Colors.error,
+  },
+  transferActions: {
+    alignItems: 'flex-end',
+    gap: 6,
+  },
+  transferBadge: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+  },
+  transferBadgeText: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  verifyText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: Colors.primary,
+  },
+  loadMoreButton: {
+    alignItems: 'center',
+    paddingVertical: 12,
+  },
+  loadMoreText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: Colors.primary,
+  },
 });
 
 export default ManagePayoutAccount;
\ No newline at end of file
@@ -25,7 +25,8 @@ interface Product {
   name: string;
   description?: string;
   price: number;
-  stock: number;
+  stock: number; // Available to buy; held units are already taken out
+  heldStock?: number;
   images: string[];
   category?: string;
   isActive: boolean;
@@ -220,7 +221,14 @@ const handleEditProduct = (product: Product) => {
             <Text style={styles.statValue}>
               {products.reduce((sum, p) => sum + p.stock, 0)}
             </Text>
-            <Text style={styles.statLabel}>Total Stock</Text>
+            <Text style={styles.statLabel}>Available</Text>
+          </View>
+          <View style={styles.statDivider} />
+          <View style={styles.statItem}>
+            <Text style={styles.statValue}>
+              {products.reduce((sum, p) => sum + (p.heldStock || 0), 0)}
+            </Text>
+            <Text style={styles.statLabel}>Held</Text>
           </View>
         </View>
 
@@ -268,8 +276,14 @@ const handleEditProduct = (product: Product) => {
                       size={16}
                       color={Colors.textSecondary}
                     />
-                    <Text style={styles.metaText}>Stock: {product.stock}</Text>
+                    <Text style={styles.metaText}>Available: {product.stock}</Text>
                   </View>
+                  {!!product.heldStock && (
+                    <View style={styles.metaItem}>
+                      <Ionicons name="time-outline" size={16} color={Colors.warning} />
+                      <Text style={styles.metaText}>Held: {product.heldStock}</Text>
+                    </View>
+                  )}
                   <View style={styles.metaItem}>
                     <Ionicons name="cart" size={16} color={Colors.success} />
                     <Text style={styles.metaText}>Sold: {product.quantityBought}</Text>
@@ -10,6 +10,7 @@ import {
   Share,
   Alert,
   Dimensions,
+  Switch,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import * as Clipboard from 'expo-clipboard';
@@ -20,6 +21,7 @@ import { LinearGradient } from 'expo-linear-gradient';
 import { useSellerDashboard } from '../../hooks/useSellerDashboard';
 import { useStore } from '../../hooks/useStore';
 import { Colors } from '../../constants/colors';
+import ProductFunnelChart from '../../components/ProductFunnelChart';
 
 
 const { width } = Dimensions.get('window');
@@ -34,6 +36,9 @@ export default function SellerDashboardScreen() {
     topProducts,
     orderAnalytics,
     storePerformance,
+    couponPerformance,
+    recoveryPerformance,
+    productFunnels,
     loading,
     error,
     fetchSummary,
@@ -41,10 +46,14 @@ export default function SellerDashboardScreen() {
     fetchTopProducts,
     fetchOrderAnalytics,
     fetchStorePerformance,
+    fetchCouponPerformance,
+    fetchRecoveryPerformance,
+    fetchProductFunnels,
     refreshAll,
   } = useSellerDashboard();
 
-  const { store, getUserStore } = useStore();
+  const { store, getUserStore, updateRecoverySettings } = useStore();
+  const [updatingRecovery, setUpdatingRecovery] = useState(false);
 
   useEffect(() => {
     loadDashboardData();
@@ -57,6 +66,9 @@ export default function SellerDashboardScreen() {
     await fetchTopProducts(5);
     await fetchOrderAnalytics();
     await fetchStorePerformance();
+    await fetchCouponPerformance();
+    await fetchRecoveryPerformance();
+    await fetchProductFunnels('30d');
   };
 
   const onRefresh = async () => {
@@ -95,6 +107,25 @@ export default function SellerDashboardScreen() {
     return `GH₵${amount.toLocaleString('en-GH', { minimumFractionDigits: 2 })}`;
   };
 
+  const formatCouponValue = (type: string, value: number) => {
+    if (type === 'PERCENTAGE') return `${value}% off`;
+    if (type === 'FIXED_AMOUNT') return `${formatCurrency(value)} off`;
+    return 'Free delivery';
+  };
+
+  const handleToggleRecovery = async (enabled: boolean) => {
+    setUpdatingRecovery(true);
+    const updated = await updateRecoverySettings({ recoveryEnabled: enabled });
+    setUpdatingRecovery(false);
+
+    if (!updated) {
+      Alert.alert('Error', 'Could not update cart recovery. Please try again.');
+      return;
+    }
+
+    await fetchRecoveryPerformance();
+  };
+
   return (
     <SafeAreaView style={styles.container} edges={['top']}>
       <ScrollView
@@ -249,6 +280,42 @@ export default function SellerDashboardScreen() {
           </View>
         </View>
 
+        {/* Cash on Delivery */}
+        {summary?.cashOnDelivery &&
+          (summary.cashOnDelivery.collected.orders > 0 ||
+            summary.cashOnDelivery.awaitingCollection.orders > 0) && (
+          <View style={styles.section}>
+            <View style={styles.sectionHeader}>
+              <Ionicons name="wallet-outline" size={24} color={Colors.primary} />
+              <Text style={styles.sectionTitle}>Cash on Delivery</Text>
+            </View>
+
+            <View style={styles.performanceCard}>
+              <View style={styles.performanceRow}>
+                <View style={styles.performanceItem}>
+                  <Text style={styles.couponTotalValue}>
+                    {formatCurrency(summary.cashOnDelivery.collected.amount)}
+                  </Text>
+                  <Text style={styles.performanceLabel}>
+                    Collected ({summary.cashOnDelivery.collected.orders})
+                  </Text>
+                </View>
+
+                <View style={styles.performanceDivider} />
+
+                <View style={styles.performanceItem}>
+                  <Text style={styles.couponTotalValue}>
+                    {formatCurrency(summary.cashOnDelivery.awaitingCollection.amount)}
+                  </Text>
+                  <Text style={styles.performanceLabel}>
+                    To Collect ({summary.cashOnDelivery.awaitingCollection.orders})
+                  </Text>
+                </View>
+              </View>
+            </View>
+          </View>
+        )}
+
         {/* Top Selling Products */}
         <View style={styles.section}>
           <View style={styles.sectionHeader}>
@@ -315,6 +382,200 @@ export default function SellerDashboardScreen() {
           )}
         </View>
 
+        {/* Coupon Performance */}
+        <View style={styles.section}>
+          <View style={styles.sectionHeader}>
+            <MaterialCommunityIcons name="ticket-percent-outline" size={24} color={Colors.primary} />
+            <Text style={styles.sectionTitle}>Coupons</Text>
+          </View>
+
+          {couponPerformance?.coupons && couponPerformance.coupons.length > 0 ? (
+            <>
+              <View style={[styles.performanceCard, styles.couponTotalsCard]}>
+                <View style={styles.performanceRow}>
+                  <View style={styles.performanceItem}>
+                    <Text style={styles.performanceValue}>
+                      {couponPerformance.totals.redemptions}
+                    </Text>
+                    <Text style={styles.performanceLabel}>Redemptions</Text>
+                  </View>
+
+                  <View style={styles.performanceDivider} />
+
+                  <View style={styles.performanceItem}>
+                    <Text style={styles.couponTotalValue}>
+                      {formatCurrency(couponPerformance.totals.totalDiscount)}
+                    </Text>
+                    <Text style={styles.performanceLabel}>Discount Given</Text>
+                  </View>
+
+                  <View style={styles.performanceDivider} />
+
+                  <View style={styles.performanceItem}>
+                    <Text style={styles.couponTotalValue}>
+                      {formatCurrency(couponPerformance.totals.revenue)}
+                    </Text>
+                    <Text style={styles.performanceLabel}>Paid Revenue</Text>
+                  </View>
+                </View>
+              </View>
+
+              {couponPerformance.coupons.map((coupon) => (
+                <View key={coupon.couponId} style={styles.productCard}>
+                  <View style={styles.productInfo}>
+                    <View style={styles.couponCodeRow}>
+                      <Text style={styles.couponCode}>{coupon.code}</Text>
+                      {coupon.scope === 'PLATFORM' && (
+                        <Text style={styles.couponBadge}>Platform</Text>
+                      )}
+                      {!coupon.isActive && (
+                        <Text style={[styles.couponBadge, styles.couponBadgeInactive]}>Inactive</Text>
+                      )}
+                    </View>
+                    <Text style={styles.productPrice}>
+                      {formatCouponValue(coupon.type, coupon.value)}
+                    </Text>
+                    <Text style={styles.couponMeta}>
+                      {coupon.redemptions}
+                      {coupon.usageLimit ? ` / ${coupon.usageLimit}` : ''} used · {coupon.paidOrders} paid
+                      {coupon.released > 0 ? ` · ${coupon.released} released` : ''}
+                    </Text>
+                  </View>
+
+                  <View style={styles.productStats}>
+                    <Text style={styles.productStatText}>-{formatCurrency(coupon.totalDiscount)}</Text>
+                    <Text style={[styles.productStatText, { color: Colors.success }]}>
+                      {formatCurrency(coupon.revenue)}
+                    </Text>
+                  </View>
+                </View>
+              ))}
+            </>
+          ) : (
+            <View style={styles.emptyState}>
+              <MaterialCommunityIcons
+                name="ticket-outline"
+                size={48}
+                color={Colors.gray400}
+              />
+              <Text style={styles.emptyStateText}>No coupons redeemed yet</Text>
+            </View>
+          )}
+        </View>
+
+        {/* Cart Recovery */}
+        {recoveryPerformance && (
+          <View style={styles.section}>
+            <View style={styles.sectionHeader}>
+              <MaterialCommunityIcons name="cart-arrow-down" size={24} color={Colors.primary} />
+              <Text style={styles.sectionTitle}>Cart Recovery</Text>
+            </View>
+
+            <View style={[styles.performanceCard, styles.couponTotalsCard]}>
+              <View style={styles.recoveryToggleRow}>
+                <View style={styles.productInfo}>
+                  <Text style={styles.recoveryToggleTitle}>Remind buyers</Text>
+                  <Text style={styles.couponMeta}>
+                    Follow up on abandoned carts and unpaid orders
+                    {recoveryPerformance.couponType
+                      ? ` · last reminder includes ${formatCouponValue(
+                          recoveryPerformance.couponType,
+                          recoveryPerformance.couponValue || 0
+                        )}`
+                      : ''}
+                  </Text>
+                </View>
+                <Switch
+                  value={recoveryPerformance.enabled}
+                  onValueChange={handleToggleRecovery}
+                  disabled={updatingRecovery}
+                  trackColor={{ false: Colors.gray300, true: Colors.primary }}
+                />
+              </View>
+            </View>
+
+            <View style={styles.performanceCard}>
+              <View style={styles.performanceRow}>
+                <View style={styles.performanceItem}>
+                  <Text style={styles.couponTotalValue}>
+                    {formatCurrency(recoveryPerformance.recoveredRevenue)}
+                  </Text>
+                  <Text style={styles.performanceLabel}>Recovered Revenue</Text>
+                </View>
+
+                <View style={styles.performanceDivider} />
+
+                <View style={styles.performanceItem}>
+                  <Text style={styles.performanceValue}>
+                    {recoveryPerformance.recoveredOrders}
+                  </Text>
+                  <Text style={styles.performanceLabel}>Recovered Orders</Text>
+                </View>
+
+                <View style={styles.performanceDivider} />
+
+                <View style={styles.performanceItem}>
+                  <Text style={styles.performanceValue}>
+                    {recoveryPerformance.conversionRate}%
+                  </Text>
+                  <Text style={styles.performanceLabel}>Conversion</Text>
+                </View>
+              </View>
+              <Text style={[styles.couponMeta, styles.recoveryMeta]}>
+                {recoveryPerformance.remindersSent} reminders sent · {recoveryPerformance.activeCampaigns} in progress
+              </Text>
+            </View>
+          </View>
+        )}
+
+        {/* Product Funnel */}
+        {productFunnels && (
+          <View style={styles.section}>
+            <View style={styles.sectionHeader}>
+              <MaterialCommunityIcons name="filter-variant" size={24} color={Colors.primary} />
+              <Text style={styles.sectionTitle}>Product Funnel</Text>
+            </View>
+
+            <View style={styles.performanceCard}>
+              <ProductFunnelChart totals={productFunnels.totals} />
+              <Text style={[styles.couponMeta, styles.recoveryMeta]}>
+                {productFunnels.conversion.viewToOrder}% of views became orders · last 30 days
+              </Text>
+            </View>
+
+            {productFunnels.products.slice(0, 3).map((product) => (
+              <View key={product.id} style={styles.productCard}>
+                {product.image ? (
+                  <Image source={{ uri: product.image }} style={styles.productImage} />
+                ) : (
+                  <View style={[styles.productImage, styles.productImagePlaceholder]}>
+                    <MaterialCommunityIcons
+                      name="image-outline"
+                      size={24}
+                      color={Colors.gray400}
+                    />
+                  </View>
+                )}
+
+                <View style={styles.productInfo}>
+                  <Text style={styles.productName} numberOfLines={2}>
+                    {product.name}
+                  </Text>
+                  <Text style={styles.couponMeta}>
+                    {product.totals.views} views · {product.totals.addToCarts} carts · {product.totals.orders} orders
+                  </Text>
+                </View>
+
+                <View style={styles.productStats}>
+                  <Text style={[styles.productStatText, { color: Colors.success }]}>
+                    {product.conversion.viewToOrder}%
+                  </Text>
+                </View>
+              </View>
+            ))}
+          </View>
+        )}
+
         {/* Order Status Distribution */}
         <View style={styles.section}>
           <View style={styles.sectionHeader}>
@@ -658,6 +919,59 @@ const styles = StyleSheet.create({
     color: Colors.textSecondary,
     textTransform: 'capitalize',
   },
+  couponTotalsCard: {
+    marginBottom: 12,
+  },
+  couponTotalValue: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: Colors.primary,
+    marginBottom: 4,
+  },
+  couponCodeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginBottom: 4,
+  },
+  couponCode: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: Colors.textPrimary,
+    letterSpacing: 0.5,
+  },
+  couponBadge: {
+    fontSize: 10,
+    fontWeight: '600',
+    color: Colors.primary,
+    backgroundColor: Colors.gray100,
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    borderRadius: 4,
+    overflow: 'hidden',
+  },
+  couponBadgeInactive: {
+    color: Colors.textSecondary,
+  },
+  couponMeta: {
+    fontSize: 12,
+    color: Colors.textSecondary,
+    marginTop: 4,
+  },
+  recoveryToggleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  recoveryToggleTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: Colors.textPrimary,
+  },
+  recoveryMeta: {
+    textAlign: 'center',
+    marginTop: 12,
+  },
   emptyState: {
     backgroundColor: Colors.white,
     borderRadius: 12,
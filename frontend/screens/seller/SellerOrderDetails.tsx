@@ -138,17 +138,26 @@ const SellerOrderDetails: React.FC = () => {
   // Handle delivery status change
   const handleDeliveryStatusChange = async (newStatus: string) => {
     setShowStatusModal(false);
+
+    // The buyer pays a cash on delivery order at the door, so delivering it confirms the cash was collected
+    const collectCash = newStatus === 'DELIVERED' && order?.paymentMethod === 'CASH_ON_DELIVERY';
     
     Alert.alert(
       'Update Delivery Status',
-      `Change delivery status to ${newStatus}?`,
+      collectCash
+        ? `This is a cash on delivery order. Confirm you collected ${order?.currency} ${order?.totalAmount.toFixed(2)} from the buyer.`
+        : `Change delivery status to ${newStatus}?`,
       [
         { text: 'Cancel', style: 'cancel' },
         {
-          text: 'Update',
+          text: collectCash ? 'Cash Collected' : 'Update',
           onPress: async () => {
             setActionLoading(true);
-            const result = await setDeliveryStatus({ orderId, status: newStatus as any });
+            const result = await setDeliveryStatus({
+              orderId,
+              status: newStatus as any,
+              ...(collectCash && { cashCollected: true }),
+            });
             
             if (result) {
               Alert.alert('Success', 'Delivery status updated successfully');
@@ -186,11 +195,11 @@ const SellerOrderDetails: React.FC = () => {
   };
 
   // Render payment status
-  const renderPaymentStatus = (paymentStatus: string) => {
+  const renderPaymentStatus = (paymentStatus: string, cashOnDelivery: boolean) => {
     const statusConfig: Record<string, { bg: string; text: string; label: string }> = {
-      PENDING: { bg: Colors.warningLight, text: Colors.warning, label: 'Payment Pending' },
+      PENDING: { bg: Colors.warningLight, text: Colors.warning, label: cashOnDelivery ? 'Cash on Delivery' : 'Payment Pending' },
       PROCESSING: { bg: Colors.infoLight, text: Colors.info, label: 'Processing Payment' },
-      SUCCESS: { bg: Colors.successLight, text: Colors.successDark, label: 'Paid' },
+      SUCCESS: { bg: Colors.successLight, text: Colors.successDark, label: cashOnDelivery ? 'Cash Collected' : 'Paid' },
       FAILED: { bg: Colors.errorLight, text: Colors.error, label: 'Payment Failed' },
       REFUNDED: { bg: Colors.gray200, text: Colors.gray700, label: 'Refunded' },
     };
@@ -383,7 +392,7 @@ const SellerOrderDetails: React.FC = () => {
         <Text style={styles.orderIdText}>Order #{order?.id.slice(0, 8)}</Text>
         <View style={styles.statusRow}>
           {renderStatusBadge(order?.status || 'PENDING')}
-          {renderPaymentStatus(order?.paymentStatus || 'PENDING')}
+          {renderPaymentStatus(order?.paymentStatus || 'PENDING', order?.paymentMethod === 'CASH_ON_DELIVERY')}
         </View>
       </View>
 
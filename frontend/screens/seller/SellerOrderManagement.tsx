@@ -202,19 +202,25 @@ const SellerOrderManagement: React.FC<SellerOrderManagementProps> = ({ navigatio
       return;
     }
 
+    // The buyer pays a cash on delivery order at the door, so delivering it confirms the cash was collected
+    const collectCash = newStatus === 'DELIVERED' && selectedOrder.paymentMethod === 'CASH_ON_DELIVERY';
+
     Alert.alert(
       'Update Delivery Status',
-      `Change delivery status to ${newStatus}?${newStatus === 'DELIVERED' ? ' The buyer will be notified.' : ''}`,
+      collectCash
+        ? `This is a cash on delivery order. Confirm you collected ${selectedOrder.currency} ${selectedOrder.totalAmount.toFixed(2)} from the buyer. The buyer will be notified.`
+        : `Change delivery status to ${newStatus}?${newStatus === 'DELIVERED' ? ' The buyer will be notified.' : ''}`,
       [
         { text: 'Cancel', style: 'cancel' },
         {
-          text: 'Update',
+          text: collectCash ? 'Cash Collected' : 'Update',
           onPress: async () => {
             setUpdatingDeliveryStatus(true);
             
             const result = await setDeliveryStatus({
               orderId: selectedOrder.id,
               status: newStatus,
+              ...(collectCash && { cashCollected: true }),
             });
             
             if (result) {
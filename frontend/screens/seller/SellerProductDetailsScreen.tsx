@@ -14,11 +14,19 @@ import {
 import { RouteProp } from '@react-navigation/native';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { useProduct } from '../../hooks/useProducts';
+import { useSellerDashboard, FunnelPeriod, ProductFunnel } from '../../hooks/useSellerDashboard';
+import ProductFunnelChart from '../../components/ProductFunnelChart';
 import { Colors } from '../../constants/colors';
 import { SellerStackParamList } from '../../types/navigation';
 
 const { width } = Dimensions.get('window');
 
+const FUNNEL_PERIOD_OPTIONS: { value: FunnelPeriod; label: string }[] = [
+  { value: '7d', label: '7 days' },
+  { value: '30d', label: '30 days' },
+  { value: '90d', label: '90 days' },
+];
+
 type SellerProductDetailsScreenRouteProp = RouteProp<SellerStackParamList, 'SellerProductDetails'>;
 type SellerProductDetailsScreenNavigationProp = NativeStackNavigationProp<SellerStackParamList>;
 
@@ -35,6 +43,10 @@ const SellerProductDetailsScreen: React.FC<SellerProductDetailsScreenProps> = ({
   const { product, loading, error, getProductByUrl, deleteProduct, clearProduct } = useProduct();
   const [deleting, setDeleting] = useState(false);
   const [currentImageIndex, setCurrentImageIndex] = useState(0);
+  const { getProductFunnel } = useSellerDashboard();
+  const [funnel, setFunnel] = useState<ProductFunnel | null>(null);
+  const [funnelPeriod, setFunnelPeriod] = useState<FunnelPeriod>('30d');
+  const [funnelLoading, setFunnelLoading] = useState(false);
 
   useEffect(() => {
     fetchProductDetails();
@@ -44,6 +56,22 @@ const SellerProductDetailsScreen: React.FC<SellerProductDetailsScreenProps> = ({
     };
   }, [productUrl]);
 
+  useEffect(() => {
+    if (!product?.id) return;
+
+    let cancelled = false;
+    setFunnelLoading(true);
+    getProductFunnel(product.id, funnelPeriod).then((result) => {
+      if (cancelled) return;
+      setFunnel(result);
+      setFunnelLoading(false);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [product?.id, funnelPeriod]);
+
   const fetchProductDetails = async () => {
     await getProductByUrl(productUrl);
   };
@@ -217,6 +245,49 @@ const SellerProductDetailsScreen: React.FC<SellerProductDetailsScreenProps> = ({
             </View>
           </View>
 
+          {/* Funnel */}
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Performance</Text>
+            <View style={styles.funnelCard}>
+              <View style={styles.periodRow}>
+                {FUNNEL_PERIOD_OPTIONS.map((option) => (
+                  <TouchableOpacity
+                    key={option.value}
+                    style={[
+                      styles.periodChip,
+                      funnelPeriod === option.value && styles.periodChipActive,
+                    ]}
+                    onPress={() => setFunnelPeriod(option.value)}
+                  >
+                    <Text
+                      style={[
+                        styles.periodChipText,
+                        funnelPeriod === option.value && styles.periodChipTextActive,
+                      ]}
+                    >
+                      {option.label}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+
+              {funnelLoading && !funnel ? (
+                <ActivityIndicator color={Colors.primary} />
+              ) : funnel ? (
+                <>
+                  <ProductFunnelChart totals={funnel.totals} series={funnel.series} />
+                  <Text style={styles.funnelMeta}>
+                    {funnel.conversion.viewToCart}% of views added to cart ·{' '}
+                    {funnel.conversion.cartToOrder}% of carts ordered ·{' '}
+                    {funnel.conversion.orderToCompleted}% of orders completed
+                  </Text>
+                </>
+              ) : (
+                <Text style={styles.funnelMeta}>Performance data isn't available right now.</Text>
+              )}
+            </View>
+          </View>
+
           {/* Description */}
           {product.description && (
             <View style={styles.section}>
@@ -482,6 +553,39 @@ const styles = StyleSheet.create({
   section: {
     marginBottom: 20,
   },
+  funnelCard: {
+    padding: 16,
+    backgroundColor: Colors.white,
+    borderRadius: 12,
+  },
+  periodRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 12,
+  },
+  periodChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: Colors.backgroundTertiary,
+  },
+  periodChipActive: {
+    backgroundColor: Colors.primary,
+  },
+  periodChipText: {
+    fontSize: 13,
+    color: Colors.textSecondary,
+  },
+  periodChipTextActive: {
+    color: Colors.white,
+    fontWeight: '600',
+  },
+  funnelMeta: {
+    marginTop: 12,
+    fontSize: 13,
+    lineHeight: 18,
+    color: Colors.textSecondary,
+  },
   sectionTitle: {
     fontSize: 18,
     fontWeight: '600',
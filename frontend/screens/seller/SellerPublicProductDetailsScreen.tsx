@@ -72,6 +72,47 @@ const SellerPublicProductDetailsScreen: React.FC<SellerPublicProductDetailsScree
   const [selectedSize, setSelectedSize] = useState<string | null>(null);
   const [selectedColor, setSelectedColor] = useState<string | null>(null);
 
+  // Products sold in sizes/colors carry their own stock and price per combination
+  const variants = product?.variants ?? [];
+  const hasVariants = variants.length > 0;
+  const selectedVariant = hasVariants
+    ? variants.find(
+        (variant) =>
+          (variant.size ? variant.size === selectedSize : true) &&
+          (variant.color ? variant.color === selectedColor : true)
+      )
+    : undefined;
+  const availableStock = selectedVariant ? selectedVariant.stock : product?.stock ?? 0;
+  const unitPrice = selectedVariant?.price ?? product?.price ?? 0;
+
+  const isSizeAvailable = (size: string) =>
+    !hasVariants ||
+    variants.some(
+      (variant) =>
+        variant.size === size &&
+        variant.stock > 0 &&
+        (!selectedColor || !variant.color || variant.color === selectedColor)
+    );
+
+  const isColorAvailable = (color: string) =>
+    !hasVariants ||
+    variants.some(
+      (variant) =>
+        variant.color === color &&
+        variant.stock > 0 &&
+        (!selectedSize || !variant.size || variant.size === selectedSize)
+    );
+
+  const selectSize = (size: string) => {
+    setSelectedSize(size);
+    setQuantity(1);
+  };
+
+  const selectColor = (color: string) => {
+    setSelectedColor(color);
+    setQuantity(1);
+  };
+
   useEffect(() => {
     if (productUrl) {
       fetchProduct();
@@ -115,7 +156,7 @@ const SellerPublicProductDetailsScreen: React.FC<SellerPublicProductDetailsScree
   const fetchRecommendations = async () => {
     if (!productUrl) return;
     try {
-      await getProductsYouMayLike({ limit: 10 });
+      await getProductsYouMayLike({ limit: 10, excludeProductId: product?.id });
     } catch (err) {
       console.error('Error fetching recommendations:', err);
     }
@@ -193,9 +234,14 @@ const SellerPublicProductDetailsScreen: React.FC<SellerPublicProductDetailsScree
       return;
     }
 
+    if (hasVariants && (!selectedVariant || selectedVariant.stock === 0)) {
+      Alert.alert('Unavailable', 'This size and color combination is out of stock.');
+      return;
+    }
+
     setAddingToCart(true);
     try {
-      await addItem(product.id, quantity);
+      await addItem(product.id, quantity, selectedVariant?.id);
       Alert.alert(
         'Success',
         `${product.name} has been added to your cart!`,
@@ -250,7 +296,7 @@ const SellerPublicProductDetailsScreen: React.FC<SellerPublicProductDetailsScree
   };
 
   const incrementQuantity = () => {
-    if (product && quantity < product.stock) {
+    if (product && quantity < availableStock) {
       setQuantity(quantity + 1);
     }
   };
@@ -381,7 +427,7 @@ const SellerPublicProductDetailsScreen: React.FC<SellerPublicProductDetailsScree
           <View style={styles.titleSection}>
             <Text style={styles.productName}>{product.name}</Text>
             <View style={styles.priceRow}>
-              <Text style={styles.productPrice}>GH₵ {product.price.toFixed(2)}</Text>
+              <Text style={styles.productPrice}>GH₵ {unitPrice.toFixed(2)}</Text>
               {product.moq && (
                 <Text style={styles.moqText}>MOQ: {product.moq} units</Text>
               )}
@@ -435,11 +481,11 @@ const SellerPublicProductDetailsScreen: React.FC<SellerPublicProductDetailsScree
           </View>
 
           {/* Low Stock Warning */}
-          {product.stock > 0 && product.stock <= 10 && (
+          {availableStock > 0 && availableStock <= 10 && (
             <View style={styles.warningContainer}>
               <Ionicons name="warning" size={16} color={Colors.warning} />
               <Text style={styles.warningText}>
-                Only {product.stock} left in stock - Order soon!
+                Only {availableStock} left in stock - Order soon!
               </Text>
             </View>
           )}
@@ -455,13 +501,16 @@ const SellerPublicProductDetailsScreen: React.FC<SellerPublicProductDetailsScree
                     style={[
                       styles.optionBadge,
                       selectedSize === size && styles.optionBadgeSelected,
+                      !isSizeAvailable(size) && styles.optionBadgeDisabled,
                     ]}
-                    onPress={() => setSelectedSize(size)}
+                    onPress={() => selectSize(size)}
+                    disabled={!isSizeAvailable(size)}
                   >
                     <Text
                       style={[
                         styles.optionBadgeText,
                         selectedSize === size && styles.optionBadgeTextSelected,
+                        !isSizeAvailable(size) && styles.optionBadgeTextDisabled,
                       ]}
                     >
                       {size}
@@ -483,13 +532,16 @@ const SellerPublicProductDetailsScreen: React.FC<SellerPublicProductDetailsScree
                     style={[
                       styles.optionBadge,
                       selectedColor === color && styles.optionBadgeSelected,
+                      !isColorAvailable(color) && styles.optionBadgeDisabled,
                     ]}
-                    onPress={() => setSelectedColor(color)}
+                    onPress={() => selectColor(color)}
+                    disabled={!isColorAvailable(color)}
                   >
                     <Text
                       style={[
                         styles.optionBadgeText,
                         selectedColor === color && styles.optionBadgeTextSelected,
+                        !isColorAvailable(color) && styles.optionBadgeTextDisabled,
                       ]}
                     >
                       {color}
@@ -501,7 +553,7 @@ const SellerPublicProductDetailsScreen: React.FC<SellerPublicProductDetailsScree
           )}
 
           {/* Quantity Selector - Inline with description */}
-          {product.stock > 0 && (
+          {availableStock > 0 && (
             <View style={styles.quantitySection}>
               <Text style={styles.sectionTitle}>Quantity</Text>
               <View style={styles.quantitySelector}>
@@ -523,15 +575,15 @@ const SellerPublicProductDetailsScreen: React.FC<SellerPublicProductDetailsScree
                 <TouchableOpacity
                   style={[
                     styles.quantityBtn,
-                    quantity >= product.stock && styles.quantityBtnDisabled,
+                    quantity >= availableStock && styles.quantityBtnDisabled,
                   ]}
                   onPress={incrementQuantity}
-                  disabled={quantity >= product.stock}
+                  disabled={quantity >= availableStock}
                 >
                   <Ionicons
                     name="add"
                     size={20}
-                    color={quantity >= product.stock ? Colors.gray400 : Colors.white}
+                    color={quantity >= availableStock ? Colors.gray400 : Colors.white}
                   />
                 </TouchableOpacity>
               </View>
@@ -605,7 +657,7 @@ const SellerPublicProductDetailsScreen: React.FC<SellerPublicProductDetailsScree
                 <Ionicons name="cube-outline" size={20} color={Colors.primary} />
                 <View style={styles.specInfo}>
                   <Text style={styles.specLabel}>Stock</Text>
-                  <Text style={styles.specValue}>{product.stock} units</Text>
+                  <Text style={styles.specValue}>{availableStock} units</Text>
                 </View>
               </View>
               {product.moq && (
@@ -710,17 +762,17 @@ const SellerPublicProductDetailsScreen: React.FC<SellerPublicProductDetailsScree
         <View style={styles.stickyPriceSection}>
           <Text style={styles.stickyPriceLabel}>Total Price</Text>
           <Text style={styles.stickyPrice}>
-            GH₵ {(product.price * quantity).toFixed(2)}
+            GH₵ {(unitPrice * quantity).toFixed(2)}
           </Text>
         </View>
 
         <TouchableOpacity
           style={[
             styles.addToCartBtn,
-            (product.stock === 0 || addingToCart) && styles.addToCartBtnDisabled,
+            (availableStock === 0 || addingToCart) && styles.addToCartBtnDisabled,
           ]}
           onPress={handleAddToCart}
-          disabled={product.stock === 0 || addingToCart}
+          disabled={availableStock === 0 || addingToCart}
         >
           {addingToCart ? (
             <ActivityIndicator size="small" color={Colors.white} />
@@ -728,7 +780,7 @@ const SellerPublicProductDetailsScreen: React.FC<SellerPublicProductDetailsScree
             <>
               <Ionicons name="cart-outline" size={20} color={Colors.white} />
               <Text style={styles.addToCartBtnText}>
-                {product.stock === 0 ? 'Out of Stock' : 'Add to Cart'}
+                {availableStock === 0 ? 'Out of Stock' : 'Add to Cart'}
               </Text>
             </>
           )}
@@ -1012,6 +1064,14 @@ const styles = StyleSheet.create({
     color: Colors.primary,
     fontWeight: '700',
   },
+  optionBadgeDisabled: {
+    borderStyle: 'dashed',
+    backgroundColor: Colors.gray50,
+  },
+  optionBadgeTextDisabled: {
+    color: Colors.gray400,
+    textDecorationLine: 'line-through',
+  },
   quantitySection: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -10,11 +10,29 @@ import {
   TextInput,
   Modal,
   RefreshControl,
+  Switch,
 } from 'react-native';
 import { useNavigation, useRoute } from '@react-navigation/native';
-import { useDisputes, Dispute, DisputeStatus, DisputeType } from '../../hooks/useDisputes';
+import {
+  useDisputes,
+  Dispute,
+  DisputeStatus,
+  DisputeType,
+  DisputeMediaFile,
+  AdminDisputeStatus,
+  isDisputeOpen,
+} from '../../hooks/useDisputes';
 import { useAuth } from '../../context/AuthContext';
 import { Colors } from '../../constants/colors';
+import DisputeThread from '../../components/DisputeThread';
+
+// Stages an admin can move an open dispute into by hand
+const ADMIN_STAGES: { status: AdminDisputeStatus; label: string }[] = [
+  { status: 'AWAITING_SELLER', label: 'Ask Seller' },
+  { status: 'AWAITING_BUYER', label: 'Ask Buyer' },
+  { status: 'UNDER_REVIEW', label: 'Under Review' },
+  { status: 'ESCALATED', label: 'Escalate' },
+];
 
 interface RouteParams {
   disputeId: string;
@@ -32,8 +50,9 @@ const DisputeDetailsScreen = () => {
     error,
     getDisputeById,
     resolveDispute,
-    updateDispute,
+    sendDisputeMessage,
     cancelDispute,
+    updateDisputeStatus,
     clearError,
   } = useDisputes();
 
@@ -42,13 +61,13 @@ const DisputeDetailsScreen = () => {
 
   // Modal states
   const [showResolveModal, setShowResolveModal] = useState(false);
-  const [showUpdateModal, setShowUpdateModal] = useState(false);
   const [showCancelModal, setShowCancelModal] = useState(false);
 
   // Form states
   const [resolution, setResolution] = useState('');
   const [refundAmount, setRefundAmount] = useState('');
-  const [additionalInfo, setAdditionalInfo] = useState('');
+  const [refundQuantities, setRefundQuantities] = useState<Record<string, number>>({});
+  const [restock, setRestock] = useState(false);
   const [cancelReason, setCancelReason] = useState('');
   const [actionLoading, setActionLoading] = useState(false);
 
@@ -57,7 +76,7 @@ const DisputeDetailsScreen = () => {
   }, [disputeId]);
 
   useEffect(() => {
-    if (autoResolve && dispute && dispute.status === 'PENDING' && user?.role === 'ADMIN') {
+    if (autoResolve && dispute && isDisputeOpen(dispute.status) && user?.role === 'ADMIN') {
       setShowResolveModal(true);
     }
   }, [autoResolve, dispute]);
@@ -73,7 +92,9 @@ const DisputeDetailsScreen = () => {
     const result = await getDisputeById(disputeId);
     if (result) {
       setDispute(result);
-      setRefundAmount(result.order?.totalAmount?.toString() || '');
+      setRefundAmount('');
+      setRefundQuantities({});
+      setRestock(false);
     }
     setRefreshing(false);
   };
@@ -88,10 +109,13 @@ const DisputeDetailsScreen = () => {
 
     const refundAmountNum = refundAmount ? parseFloat(refundAmount) : undefined;
 
+    // Itemised refunds take precedence over a typed amount
     const result = await resolveDispute(disputeId, {
       status,
       resolution,
-      refundAmount: refundAmountNum,
+      ...(selectedRefundItems.length > 0
+        ? { items: selectedRefundItems, restock }
+        : { refundAmount: refundAmountNum }),
     });
 
     setActionLoading(false);
@@ -125,28 +149,12 @@ const DisputeDetailsScreen = () => {
     }
   };
 
-  const handleUpdate = async () => {
-    if (!additionalInfo.trim()) {
-      Alert.alert('Error', 'Please provide additional information');
-      return;
-    }
-
-    setActionLoading(true);
-    const result = await updateDispute(disputeId, additionalInfo);
-    setActionLoading(false);
-
-    if (result) {
-      Alert.alert('Success', 'Dispute updated successfully', [
-        {
-          text: 'OK',
-          onPress: () => {
-            setShowUpdateModal(false);
-            setAdditionalInfo('');
-            fetchDisputeDetails();
-          },
-        },
-      ]);
+  const handleSendMessage = async (message: string, media: DisputeMediaFile[]) => {
+    const sent = await sendDisputeMessage(disputeId, message, media);
+    if (sent) {
+      await fetchDisputeDetails();
     }
+    return !!sent;
   };
 
   const handleCancel = async () => {
@@ -180,10 +188,41 @@ const DisputeDetailsScreen = () => {
     );
   };
 
+  const handleStatusChange = (status: AdminDisputeStatus, label: string) => {
+    Alert.alert('Update Dispute', `Move this dispute to "${label}"? Its deadline will restart.`, [
+      { text: 'No', style: 'cancel' },
+      {
+        text: 'Yes',
+        onPress: async () => {
+          setActionLoading(true);
+          const result = await updateDisputeStatus(disputeId, status);
+          setActionLoading(false);
+
+          if (result) {
+            fetchDisputeDetails();
+          }
+        },
+      },
+    ]);
+  };
+
+  const changeRefundQuantity = (orderItemId: string, maxQuantity: number, delta: number) => {
+    setRefundQuantities((prev) => {
+      const next = Math.min(Math.max((prev[orderItemId] || 0) + delta, 0), maxQuantity);
+      return { ...prev, [orderItemId]: next };
+    });
+  };
+
   const getStatusColor = (status: DisputeStatus) => {
     switch (status) {
       case 'PENDING':
+      case 'AWAITING_SELLER':
+      case 'AWAITING_BUYER':
+      case 'UNDER_REVIEW':
+      case 'RESOLVING':
         return Colors.warning;
+      case 'ESCALATED':
+        return Colors.error;
       case 'RESOLVED':
         return Colors.success;
       case 'CANCELLED':
@@ -200,7 +239,19 @@ const DisputeDetailsScreen = () => {
   const isAdmin = user?.role === 'ADMIN';
   const isBuyer = dispute?.buyerId === user?.id;
   const isSeller = dispute?.sellerId === user?.id;
-  const isPending = dispute?.status === 'PENDING';
+  const isPending = !!dispute && isDisputeOpen(dispute.status);
+  const currency = dispute?.order?.currency || '$';
+
+  const selectedRefundItems = Object.entries(refundQuantities)
+    .filter(([, quantity]) => quantity > 0)
+    .map(([orderItemId, quantity]) => ({ orderItemId, quantity }));
+
+  const selectedItemsTotal = (dispute?.order?.items || []).reduce(
+    (sum, item) => sum + item.price * (refundQuantities[item.id] || 0),
+    0
+  );
+
+  const hasSettlement = dispute?.refundAmount != null || dispute?.releasedAmount != null;
 
   if (loading && !dispute) {
     return (
@@ -247,7 +298,7 @@ const DisputeDetailsScreen = () => {
               ]}
             >
               <Text style={[styles.statusText, { color: getStatusColor(dispute.status) }]}>
-                {dispute.status}
+                {dispute.status.replace(/_/g, ' ')}
               </Text>
             </View>
           </View>
@@ -266,6 +317,37 @@ const DisputeDetailsScreen = () => {
                 minute: '2-digit',
               })}
             />
+            {isPending && dispute.deadlineAt && (
+              <InfoRow
+                label="Next Deadline"
+                value={new Date(dispute.deadlineAt).toLocaleString('en-US', {
+                  month: 'short',
+                  day: 'numeric',
+                  hour: '2-digit',
+                  minute: '2-digit',
+                })}
+                valueStyle={
+                  new Date(dispute.deadlineAt) < new Date() ? { color: Colors.error } : undefined
+                }
+              />
+            )}
+            {!!dispute.slaBreachCount && (
+              <InfoRow
+                label="Missed Deadlines"
+                value={String(dispute.slaBreachCount)}
+                valueStyle={{ color: Colors.error }}
+              />
+            )}
+            {isPending && dispute.recommendedOutcome && (
+              <InfoRow
+                label="Recommended"
+                value={
+                  dispute.recommendedOutcome === 'REFUND_BUYER'
+                    ? 'Refund buyer'
+                    : 'Release to seller'
+                }
+              />
+            )}
             {dispute.resolvedAt && (
               <InfoRow
                 label="Resolved"
@@ -351,6 +433,20 @@ const DisputeDetailsScreen = () => {
           <Text style={styles.descriptionText}>{dispute.description}</Text>
         </View>
 
+        {/* Conversation */}
+        <View style={styles.card}>
+          <Text style={styles.sectionTitle}>Conversation</Text>
+          <View style={styles.divider} />
+          <DisputeThread
+            messages={dispute.messages || []}
+            currentUserId={user?.id}
+            status={dispute.status}
+            deadlineAt={dispute.deadlineAt}
+            sellerRespondedAt={dispute.sellerRespondedAt}
+            onSend={isAdmin || isBuyer || isSeller ? handleSendMessage : undefined}
+          />
+        </View>
+
         {/* Resolution (if resolved) */}
         {dispute.resolution && (
           <View style={styles.card}>
@@ -360,6 +456,46 @@ const DisputeDetailsScreen = () => {
           </View>
         )}
 
+        {/* Settlement (split between buyer and seller) */}
+        {hasSettlement && (
+          <View style={styles.card}>
+            <Text style={styles.sectionTitle}>Settlement</Text>
+            <View style={styles.divider} />
+            <View style={styles.infoSection}>
+              <InfoRow
+                label={isBuyer ? 'Refunded to you' : 'Refunded to buyer'}
+                value={`${currency} ${(dispute.refundAmount || 0).toFixed(2)}`}
+                valueStyle={styles.amountValue}
+              />
+              <InfoRow
+                label={isSeller ? 'Released to you' : 'Released to seller'}
+                value={`${currency} ${(dispute.releasedAmount || 0).toFixed(2)}`}
+                valueStyle={styles.amountValue}
+              />
+            </View>
+
+            {dispute.refundItems && dispute.refundItems.length > 0 && (
+              <>
+                <View style={[styles.divider, { marginVertical: 12 }]} />
+                <Text style={styles.partyLabel}>Refunded Items</Text>
+                {dispute.refundItems.map((item) => (
+                  <View key={item.id} style={styles.refundItemRow}>
+                    <View style={styles.refundItemInfo}>
+                      <Text style={styles.refundItemName}>
+                        {item.orderItem?.product?.name || 'Item'} × {item.quantity}
+                      </Text>
+                      {item.restocked && <Text style={styles.refundItemMeta}>Returned to stock</Text>}
+                    </View>
+                    <Text style={styles.refundItemAmount}>
+                      {currency} {item.amount.toFixed(2)}
+                    </Text>
+                  </View>
+                ))}
+              </>
+            )}
+          </View>
+        )}
+
         {/* Action Buttons */}
         {isPending && (
           <View style={styles.actionsCard}>
@@ -371,24 +507,29 @@ const DisputeDetailsScreen = () => {
                 >
                   <Text style={styles.primaryButtonText}>Resolve Dispute</Text>
                 </TouchableOpacity>
+
+                <View style={styles.stageRow}>
+                  {ADMIN_STAGES.filter((stage) => stage.status !== dispute.status).map((stage) => (
+                    <TouchableOpacity
+                      key={stage.status}
+                      style={styles.stageButton}
+                      onPress={() => handleStatusChange(stage.status, stage.label)}
+                      disabled={actionLoading}
+                    >
+                      <Text style={styles.stageButtonText}>{stage.label}</Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
               </>
             )}
 
             {(isBuyer || isSeller) && (
-              <>
-                <TouchableOpacity
-                  style={styles.secondaryButton}
-                  onPress={() => setShowUpdateModal(true)}
-                >
-                  <Text style={styles.secondaryButtonText}>Add Information</Text>
-                </TouchableOpacity>
-                <TouchableOpacity
-                  style={styles.dangerButton}
-                  onPress={() => setShowCancelModal(true)}
-                >
-                  <Text style={styles.dangerButtonText}>Cancel Dispute</Text>
-                </TouchableOpacity>
-              </>
+              <TouchableOpacity
+                style={styles.dangerButton}
+                onPress={() => setShowCancelModal(true)}
+              >
+                <Text style={styles.dangerButtonText}>Cancel Dispute</Text>
+              </TouchableOpacity>
             )}
           </View>
         )}
@@ -415,18 +556,78 @@ const DisputeDetailsScreen = () => {
               numberOfLines={4}
             />
 
-            <TextInput
-              style={styles.input}
-              placeholder="Refund amount (optional)"
-              placeholderTextColor={Colors.gray400}
-              value={refundAmount}
-              onChangeText={setRefundAmount}
-              keyboardType="decimal-pad"
-            />
+            {dispute.order?.items && dispute.order.items.length > 0 && (
+              <>
+                <Text style={styles.modalLabel}>Refund specific items</Text>
+                <ScrollView style={styles.itemPicker} nestedScrollEnabled>
+                  {dispute.order.items.map((item) => {
+                    const quantity = refundQuantities[item.id] || 0;
+                    return (
+                      <View key={item.id} style={styles.refundItemRow}>
+                        <View style={styles.refundItemInfo}>
+                          <Text style={styles.refundItemName} numberOfLines={1}>
+                            {item.product?.name || 'Item'}
+                          </Text>
+                          <Text style={styles.refundItemMeta}>
+                            {currency} {item.price.toFixed(2)} × {item.quantity}
+                          </Text>
+                        </View>
+                        <View style={styles.stepper}>
+                          <TouchableOpacity
+                            style={styles.stepperButton}
+                            onPress={() => changeRefundQuantity(item.id, item.quantity, -1)}
+                            disabled={quantity === 0}
+                          >
+                            <Text style={styles.stepperButtonText}>−</Text>
+                          </TouchableOpacity>
+                          <Text style={styles.stepperValue}>{quantity}</Text>
+                          <TouchableOpacity
+                            style={styles.stepperButton}
+                            onPress={() => changeRefundQuantity(item.id, item.quantity, 1)}
+                            disabled={quantity === item.quantity}
+                          >
+                            <Text style={styles.stepperButtonText}>+</Text>
+                          </TouchableOpacity>
+                        </View>
+                      </View>
+                    );
+                  })}
+                </ScrollView>
+              </>
+            )}
 
-            <Text style={styles.helperText}>
-              Leave refund amount empty to refund the full order amount
-            </Text>
+            {selectedRefundItems.length > 0 ? (
+              <>
+                <View style={styles.switchRow}>
+                  <Text style={styles.refundItemName}>Return items to stock</Text>
+                  <Switch
+                    value={restock}
+                    onValueChange={setRestock}
+                    trackColor={{ false: Colors.gray300, true: Colors.primary }}
+                  />
+                </View>
+                <Text style={styles.helperText}>
+                  Refunding {currency} {selectedItemsTotal.toFixed(2)} for the selected items. The rest of
+                  the escrow is released to the seller.
+                </Text>
+              </>
+            ) : (
+              <>
+                <TextInput
+                  style={styles.input}
+                  placeholder="Refund amount (optional)"
+                  placeholderTextColor={Colors.gray400}
+                  value={refundAmount}
+                  onChangeText={setRefundAmount}
+                  keyboardType="decimal-pad"
+                />
+
+                <Text style={styles.helperText}>
+                  Leave refund amount empty to refund everything held in escrow. A smaller amount
+                  releases the rest to the seller.
+                </Text>
+              </>
+            )}
 
             <View style={styles.modalActions}>
               <TouchableOpacity
@@ -453,52 +654,6 @@ const DisputeDetailsScreen = () => {
         </View>
       </Modal>
 
-      {/* Update Modal (Buyer/Seller) */}
-      <Modal
-        visible={showUpdateModal}
-        animationType="slide"
-        transparent={true}
-        onRequestClose={() => setShowUpdateModal(false)}
-      >
-        <View style={styles.modalOverlay}>
-          <View style={styles.modalContent}>
-            <Text style={styles.modalTitle}>Add Information</Text>
-
-            <TextInput
-              style={[styles.input, styles.textArea]}
-              placeholder="Enter additional information..."
-              placeholderTextColor={Colors.gray400}
-              value={additionalInfo}
-              onChangeText={setAdditionalInfo}
-              multiline
-              numberOfLines={4}
-            />
-
-            <View style={styles.modalActions}>
-              <TouchableOpacity
-                style={[styles.modalButton, styles.cancelButton]}
-                onPress={() => setShowUpdateModal(false)}
-                disabled={actionLoading}
-              >
-                <Text style={styles.cancelButtonText}>Cancel</Text>
-              </TouchableOpacity>
-
-              <TouchableOpacity
-                style={[styles.modalButton, styles.confirmButton]}
-                onPress={handleUpdate}
-                disabled={actionLoading}
-              >
-                {actionLoading ? (
-                  <ActivityIndicator color={Colors.white} />
-                ) : (
-                  <Text style={styles.confirmButtonText}>Submit</Text>
-                )}
-              </TouchableOpacity>
-            </View>
-          </View>
-        </View>
-      </Modal>
-
       {/* Cancel Modal (Buyer/Seller) */}
       <Modal
         visible={showCancelModal}
@@ -726,16 +881,20 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: Colors.white,
   },
-  secondaryButton: {
-    backgroundColor: Colors.white,
-    paddingVertical: 14,
+  stageRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  stageButton: {
+    paddingVertical: 8,
+    paddingHorizontal: 12,
     borderRadius: 8,
-    alignItems: 'center',
     borderWidth: 1,
     borderColor: Colors.primary,
   },
-  secondaryButtonText: {
-    fontSize: 16,
+  stageButtonText: {
+    fontSize: 13,
     fontWeight: '600',
     color: Colors.primary,
   },
@@ -812,6 +971,73 @@ const styles = StyleSheet.create({
   confirmButton: {
     backgroundColor: Colors.primary,
   },
+  modalLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: Colors.textPrimary,
+    marginBottom: 8,
+  },
+  itemPicker: {
+    maxHeight: 200,
+    marginBottom: 12,
+  },
+  refundItemRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 8,
+  },
+  refundItemInfo: {
+    flex: 1,
+    marginRight: 12,
+  },
+  refundItemName: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: Colors.textPrimary,
+  },
+  refundItemMeta: {
+    fontSize: 12,
+    color: Colors.textSecondary,
+    marginTop: 2,
+  },
+  refundItemAmount: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: Colors.textPrimary,
+  },
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  stepperButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  stepperButtonText: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: Colors.primary,
+  },
+  stepperValue: {
+    minWidth: 20,
+    textAlign: 'center',
+    fontSize: 14,
+    fontWeight: '600',
+    color: Colors.textPrimary,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
   confirmButtonText: {
     fontSize: 16,
     fontWeight: '600',
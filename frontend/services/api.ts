@@ -1,6 +1,7 @@
 // services/api.ts
-import axios from 'axios';
+import axios, { InternalAxiosRequestConfig } from 'axios';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Platform } from 'react-native';
 
 // Get API URL from environment variable with fallback
 const API_URL = process.env.EXPO_PUBLIC_API_URL || 'http://localhost:3000/api';
@@ -39,9 +40,76 @@ if (process.env.EXPO_PUBLIC_ENABLE_API_LOGGING === 'true') {
   );
 }
 
+export interface SessionTokens {
+  token: string;
+  refreshToken: string;
+  expiresIn: number; // access token lifetime in seconds
+}
+
+// Persist a fresh access/refresh pair. Hooks that call fetch directly read 'token' from storage.
+export const saveSessionTokens = async ({ token, refreshToken, expiresIn }: SessionTokens) => {
+  await AsyncStorage.multiSet([
+    ['token', token],
+    ['refreshToken', refreshToken],
+    ['tokenExpiresAt', String(Date.now() + expiresIn * 1000)],
+  ]);
+};
+
+export const clearSessionTokens = async () => {
+  await AsyncStorage.multiRemove(['token', 'refreshToken', 'tokenExpiresAt', 'user']);
+};
+
+// Notified when the refresh token is rejected and the user has to sign in again
+type SessionExpiredListener = () => void;
+const sessionExpiredListeners = new Set<SessionExpiredListener>();
+
+export const onSessionExpired = (listener: SessionExpiredListener) => {
+  sessionExpiredListeners.add(listener);
+  return () => {
+    sessionExpiredListeners.delete(listener);
+  };
+};
+
+// Only one refresh runs at a time; every caller waits on the same promise
+let refreshPromise: Promise<string | null> | null = null;
+
+export const refreshSession = (): Promise<string | null> => {
+  if (!refreshPromise) {
+    refreshPromise = (async () => {
+      const refreshToken = await AsyncStorage.getItem('refreshToken');
+      if (!refreshToken) {
+        return null;
+      }
+
+      try {
+        // Bare axios so this call doesn't go through the interceptors below
+        const response = await axios.post(`${API_URL}/auth/refresh`, { refreshToken });
+        await saveSessionTokens(response.data);
+        return response.data.token as string;
+      } catch (error: any) {
+        // Network errors keep the session; a rejected refresh token ends it
+        if (error.response?.status === 401 || error.response?.status === 403) {
+          await clearSessionTokens();
+          sessionExpiredListeners.forEach((listener) => listener());
+        }
+        return null;
+      }
+    })().finally(() => {
+      refreshPromise = null;
+    });
+  }
+
+  return refreshPromise;
+};
+
 // Add token to requests
 api.interceptors.request.use(
   async (config) => {
+    // Requests made while a refresh is in flight wait for the new token
+    if (refreshPromise) {
+      await refreshPromise;
+    }
+
     const token = await AsyncStorage.getItem('token');
     if (token) {
       config.headers.Authorization = `Bearer ${token}`;
@@ -53,14 +121,21 @@ api.interceptors.request.use(
   }
 );
 
-// Handle token expiration
+// Silently refresh an expired access token and replay the request
 api.interceptors.response.use(
   (response) => response,
   async (error) => {
-    if (error.response?.status === 401) {
-      // Token expired or invalid
-      await AsyncStorage.multiRemove(['token', 'user']);
-      // You might want to dispatch a logout action here
+    const originalRequest = error.config as (InternalAxiosRequestConfig & { _retry?: boolean }) | undefined;
+    const isAuthRequest = originalRequest?.url?.startsWith('/auth/login') || originalRequest?.url?.startsWith('/auth/refresh');
+
+    if (error.response?.status === 401 && originalRequest && !originalRequest._retry && !isAuthRequest) {
+      originalRequest._retry = true;
+
+      const token = await refreshSession();
+      if (token) {
+        originalRequest.headers.Authorization = `Bearer ${token}`;
+        return api(originalRequest);
+      }
     }
     return Promise.reject(error);
   }
@@ -73,6 +148,7 @@ export interface SignupData {
   lastName: string;
   password: string;
   role: 'BUYER' | 'SELLER' | 'ADMIN';
+  referralCode?: string;
 }
 
 export interface LoginData {
@@ -80,11 +156,28 @@ export interface LoginData {
   password: string;
 }
 
+export interface ActiveSession {
+  id: string;
+  deviceName: string | null;
+  userAgent: string | null;
+  ipAddress: string | null;
+  lastUsedAt: string;
+  createdAt: string;
+  expiresAt: string;
+  isCurrent: boolean;
+}
+
 export interface VerifyEmailData {
   email: string;
   code: string;
 }
 
+export interface ResetPasswordData {
+  email: string;
+  code: string;
+  newPassword: string;
+}
+
 export const authAPI = {
   signup: async (data: SignupData) => {
     const response = await api.post('/auth/signup', data);
@@ -92,7 +185,10 @@ export const authAPI = {
   },
 
   login: async (data: LoginData) => {
-    const response = await api.post('/auth/login', data);
+    const response = await api.post('/auth/login', {
+      ...data,
+      deviceName: `${Platform.OS} ${Platform.Version}`,
+    });
     return response.data;
   },
 
@@ -106,8 +202,34 @@ export const authAPI = {
     return response.data;
   },
 
+  forgotPassword: async (email: string) => {
+    const response = await api.post('/auth/forgot-password', { email });
+    return response.data;
+  },
+
+  resetPassword: async (data: ResetPasswordData) => {
+    const response = await api.post('/auth/reset-password', data);
+    return response.data;
+  },
+
   logout: async () => {
-    const response = await api.post('/auth/logout');
+    const refreshToken = await AsyncStorage.getItem('refreshToken');
+    const response = await api.post('/auth/logout', { refreshToken });
+    return response.data;
+  },
+
+  getSessions: async (): Promise<{ success: boolean; sessions: ActiveSession[] }> => {
+    const response = await api.get('/auth/sessions');
+    return response.data;
+  },
+
+  revokeSession: async (sessionId: string) => {
+    const response = await api.delete(`/auth/sessions/${sessionId}`);
+    return response.data;
+  },
+
+  revokeOtherSessions: async () => {
+    const response = await api.delete('/auth/sessions');
     return response.data;
   },
 
@@ -11,6 +11,8 @@ export type AuthStackParamList = {
   Login: undefined;
   Signup: undefined;
   VerifyEmail: { email: string };
+  ForgotPassword: undefined;
+  ResetPassword: { email: string };
   Terms: undefined;
   Privacy:undefined;
 };
@@ -32,27 +34,37 @@ export type BuyerStackParamList = {
   BuyerOrders: undefined;
   UnpaidOrders: undefined;
     Checkout: {
+    // Amounts are quoted by the server (POST /orders/quote), never computed on the device
     orders: Array<{
       storeId: string;
       storeName: string;
       items: Array<{
         productId: string;
+        variantId?: string;
         quantity: number;
         price: number;
         color?: string;
         size?: string;
+        name?: string;
+        imageURL?: string | null;
       }>;
       subtotal: number;
-      checkoutSession: string;
+      deliveryFee: number;
+      taxAmount: number;
+      discount: number;
+      totalAmount: number;
     }>;
+    // Orders from this checkout were already placed and are being paid through this session
+    checkoutSessionId?: string;
   };
+  // Either the checkout session to pay or resume, or the orders to start a new session with
   Payment: {
-    orders: Array<{
+    checkoutSessionId?: string;
+    orders?: Array<{
       orderId: string;
       storeName: string;
-      checkoutSession: string;
     }>;
-    totalOrders: number;
+    totalOrders?: number;
   };
   ManageAddresses: {
     fromCheckout?: boolean;
@@ -122,6 +134,7 @@ export type AdminStackParamList = {
   VerificationDetails: { verificationId: string };
   SellerPublicProducts: { storeUrl: string, storeName: string};
   AdminEscrow: undefined;
+  LoyaltyRules: undefined;
   // Add more admin-specific screens
 };
 
@@ -18,6 +18,12 @@ export interface Store {
   user?: User;
   verification?: StoreVerification;
   isSuspended: boolean;
+  codEnabled?: boolean;
+  codMaxOrderValue?: number | null;
+  codMinCompletedOrders?: number;
+  recoveryEnabled?: boolean;
+  recoveryCouponType?: 'PERCENTAGE' | 'FIXED_AMOUNT' | 'FREE_DELIVERY' | null;
+  recoveryCouponValue?: number | null;
 }
 
 export interface StoreVerification {